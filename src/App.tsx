@@ -4,10 +4,12 @@ import { ModernToastProvider } from './components/ui/ModernToastProvider';
 import { AuthProvider } from './context/AuthContext';
 import { AppProvider } from './context/AppContext';
 import { StoreProvider } from './context/StoreContext';
+import { CurrencyProvider } from './context/CurrencyContext';
 import { ThemeProvider } from './context/ThemeContext';
 import { SettingsProvider } from './context/SettingsContext';
 import { NotificationProvider } from './context/NotificationContext';
 import { RiderProvider } from './context/RiderContext';
+import { ShiftProvider } from './context/ShiftContext';
 import { NavigationProvider } from './context/NavigationContext';
 import { RefreshProvider } from './context/RefreshContext';
 import { GoalProvider } from './context/GoalContext';
@@ -20,18 +22,27 @@ import { Products } from './pages/Products';
 import { POS } from './pages/POS';
 import { Inventory } from './pages/Inventory';
 import { Reports } from './pages/Reports';
+import { BranchComparison } from './pages/BranchComparison';
+import { StockTransfers } from './pages/StockTransfers';
+import { StockTake } from './pages/StockTake';
 import { Settings } from './pages/Settings';
 import { Expenses } from './pages/Expenses';
 import { Audit } from './pages/Audit';
 import { RiderManagementPage } from './pages/RiderManagement';
 import { CashTrackingPage } from './pages/CashTracking';
+import { DispatchBoard } from './pages/DispatchBoard';
 import { SalesHistory } from './pages/SalesHistory';
 import { CustomerCatalog } from './pages/CustomerCatalog';
 import { OrderTracking } from './pages/OrderTracking';
 import { AdminCustomerOrders } from './pages/AdminCustomerOrders';
 import { Wholesalers } from './pages/Wholesalers';
+import { Promotions } from './pages/Promotions';
+import { Customers } from './pages/Customers';
+import { CustomerProfile } from './pages/CustomerProfile';
+import { Shift } from './pages/Shift';
 import { ScrollToTopWrapper } from './components/ScrollToTopWrapper';
 import { GoalCelebrationManager } from './components/ui/GoalCelebrationManager';
+import { UpdateAvailablePrompt } from './components/ui/UpdateAvailablePrompt';
 import ErrorBoundary from './components/ErrorBoundary';
 
 function App() {
@@ -39,165 +50,242 @@ function App() {
     <ErrorBoundary>
       <ThemeProvider>
         <SettingsProvider>
-          <RiderProvider>
-            <ModernToastProvider>
-              <Router future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
-                <ErrorBoundary>
-                  <AuthProvider>
-                    <NotificationProvider>
-                      <StoreProvider>
-                        <AppProvider>
-                          <GoalProvider>
-                            <RefreshProvider>
-                              <NavigationProvider>
-                  <ScrollToTopWrapper>
-                  <div className="min-h-screen bg-white dark:bg-gray-900 transition-colors duration-300">
-                <GoalCelebrationManager />
-                <Routes>
-              <Route path="/login" element={<Login />} />
-              <Route path="/" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <POS />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/pos" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <POS />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/dashboard" element={
-                <ProtectedRoute>
-                  <Header />
-                  <main className="pt-0 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Dashboard />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/products" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Products />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/inventory" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Inventory />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/sales-history" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <SalesHistory />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/reports" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Reports />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/settings" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Settings />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/expenses" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Expenses />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/audit" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Audit />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/riders" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <RiderManagementPage />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/cash-tracking" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <CashTrackingPage />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/admin/customer-orders" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <AdminCustomerOrders />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              <Route path="/wholesalers" element={
-                <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
-                  <Header />
-                  <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
-                    <Wholesalers />
-                  </main>
-                  <MobileNavigation />
-                </ProtectedRoute>
-              } />
-              {/* Public routes - no authentication required */}
-              <Route path="/catalog" element={<CustomerCatalog />} />
-              <Route path="/track-order" element={<OrderTracking />} />
-            </Routes>
-                  </div>
-                  </ScrollToTopWrapper>
-                              </NavigationProvider>
-                            </RefreshProvider>
-                          </GoalProvider>
-                        </AppProvider>
-                      </StoreProvider>
-                    </NotificationProvider>
-                  </AuthProvider>
-                </ErrorBoundary>
-              </Router>
-            </ModernToastProvider>
-          </RiderProvider>
+          <ModernToastProvider>
+            <Router future={{ v7_startTransition: true, v7_relativeSplatPath: true }}>
+              <ErrorBoundary>
+                <AuthProvider>
+                  <NotificationProvider>
+                    <StoreProvider>
+                      <CurrencyProvider>
+                      <RiderProvider>
+                      <ShiftProvider>
+                      <AppProvider>
+                        <GoalProvider>
+                          <RefreshProvider>
+                            <NavigationProvider>
+                <ScrollToTopWrapper>
+                <div className="min-h-screen bg-white dark:bg-gray-900 transition-colors duration-300">
+              <GoalCelebrationManager />
+              <UpdateAvailablePrompt />
+              <Routes>
+            <Route path="/login" element={<Login />} />
+            <Route path="/" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <POS />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/pos" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <POS />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/dashboard" element={
+              <ProtectedRoute>
+                <Header />
+                <main className="pt-0 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Dashboard />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/products" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Products />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/inventory" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Inventory />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/sales-history" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <SalesHistory />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/reports" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Reports />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/transfers" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <StockTransfers />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/stock-take" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <StockTake />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/branches" element={
+              <ProtectedRoute requiredRole={['admin', 'owner']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <BranchComparison />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/settings" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Settings />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/expenses" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Expenses />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/audit" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Audit />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/riders" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <RiderManagementPage />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/cash-tracking" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <CashTrackingPage />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/dispatch" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <DispatchBoard />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin/customer-orders" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <AdminCustomerOrders />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/wholesalers" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Wholesalers />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/promotions" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Promotions />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/customers" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Customers />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/customers/:id" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <CustomerProfile />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            <Route path="/shift" element={
+              <ProtectedRoute requiredRole={['admin', 'owner', 'manager', 'cashier']}>
+                <Header />
+                <main className="pt-0 pb-24 bg-white dark:bg-gray-900 min-h-screen transition-colors duration-300">
+                  <Shift />
+                </main>
+                <MobileNavigation />
+              </ProtectedRoute>
+            } />
+            {/* Public routes - no authentication required */}
+            <Route path="/catalog" element={<CustomerCatalog />} />
+            <Route path="/track-order" element={<OrderTracking />} />
+          </Routes>
+                </div>
+                </ScrollToTopWrapper>
+                            </NavigationProvider>
+                          </RefreshProvider>
+                        </GoalProvider>
+                      </AppProvider>
+                      </ShiftProvider>
+                      </RiderProvider>
+                      </CurrencyProvider>
+                    </StoreProvider>
+                  </NotificationProvider>
+                </AuthProvider>
+              </ErrorBoundary>
+            </Router>
+          </ModernToastProvider>
         </SettingsProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Bell, User, LogOut, Settings } from 'lucide-react';
+import { Bell, User, LogOut, Settings, ChevronDown, Check, BarChart3, Users } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../context/AuthContext';
 import { useStore } from '../../context/StoreContext';
@@ -7,19 +7,24 @@ import { useNotifications } from '../../context/NotificationContext';
 import { app } from '../../config/environment';
 import { GlassmorphismIcon } from '../ui/GlassmorphismIcon';
 import { NotificationDropdown } from '../ui/NotificationDropdown';
+import { OfflineQueueIndicator } from '../ui/OfflineQueueIndicator';
 // import { Button } from '../ui/Button';
 
 export const Header: React.FC = () => {
   const { user, logout, isLoading } = useAuth();
-  const { currentStore } = useStore();
+  const { currentStore, stores, canSwitchStores, switchStore } = useStore();
   const { notifications, markAsRead, markAllAsRead, clearAll, toggleExpand, unreadCount } = useNotifications();
   const navigate = useNavigate();
   const [showUserMenu, setShowUserMenu] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
+  const [showStoreMenu, setShowStoreMenu] = useState(false);
   
   // Refs for click-outside detection
   const userMenuRef = useRef<HTMLDivElement>(null);
   const notificationRef = useRef<HTMLDivElement>(null);
+  const storeMenuRef = useRef<HTMLDivElement>(null);
+
+  const hasStoreSwitcher = canSwitchStores && stores.length > 1;
 
   // Handle click outside to close dropdowns
   useEffect(() => {
@@ -33,10 +38,15 @@ export const Header: React.FC = () => {
       if (notificationRef.current && !notificationRef.current.contains(event.target as Node)) {
         setShowNotifications(false);
       }
+
+      // Close store switcher if clicked outside
+      if (storeMenuRef.current && !storeMenuRef.current.contains(event.target as Node)) {
+        setShowStoreMenu(false);
+      }
     };
 
     // Add event listener when dropdowns are open
-    if (showUserMenu || showNotifications) {
+    if (showUserMenu || showNotifications || showStoreMenu) {
       document.addEventListener('mousedown', handleClickOutside);
     }
 
@@ -44,13 +54,30 @@ export const Header: React.FC = () => {
     return () => {
       document.removeEventListener('mousedown', handleClickOutside);
     };
-  }, [showUserMenu, showNotifications]);
+  }, [showUserMenu, showNotifications, showStoreMenu]);
 
   const handleLogout = () => {
     logout();
     setShowUserMenu(false);
   };
 
+  const handleStoreSelect = (storeId: string) => {
+    setShowStoreMenu(false);
+    if (storeId !== currentStore?._id) {
+      switchStore(storeId);
+    }
+  };
+
+  const handleCompareClick = () => {
+    navigate('/branches');
+    setShowStoreMenu(false);
+  };
+
+  const handleCustomersClick = () => {
+    navigate('/customers');
+    setShowUserMenu(false);
+  };
+
   const handleSettingsClick = () => {
     navigate('/settings');
     setShowUserMenu(false);
@@ -62,17 +89,57 @@ export const Header: React.FC = () => {
         <div className="flex items-center space-x-3">
           <img src="/icons/GreepMarket-Green_BG-White.svg" alt="Greep Market" className="h-12 w-12 text-white" />
           
-          <div>
-            <h1 className="text-xl font-bold text-gray-900 dark:text-white">
-              {currentStore?.name || app.name}
-            </h1>
+          <div className="relative" ref={storeMenuRef}>
+            {hasStoreSwitcher ? (
+              <button
+                onClick={() => setShowStoreMenu(!showStoreMenu)}
+                className="flex items-center space-x-1 text-left"
+                title="Switch store"
+              >
+                <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {currentStore?.name || app.name}
+                </h1>
+                <ChevronDown className={`h-4 w-4 text-gray-500 dark:text-gray-400 transition-transform duration-200 ${showStoreMenu ? 'rotate-180' : ''}`} />
+              </button>
+            ) : (
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+                {currentStore?.name || app.name}
+              </h1>
+            )}
             <p className="text-sm text-gray-500 dark:text-gray-400">
               {currentStore?.address || 'Retail Management System'}
             </p>
+
+            {hasStoreSwitcher && showStoreMenu && (
+              <div className="absolute left-0 mt-2 w-64 bg-white/90 dark:bg-gray-800/90 backdrop-blur-md rounded-xl shadow-xl border border-white/20 dark:border-gray-700/50 py-1 z-50 transition-all duration-200">
+                <p className="px-4 py-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+                  Switch store
+                </p>
+                {stores.map(store => (
+                  <button
+                    key={store._id}
+                    onClick={() => handleStoreSelect(store._id)}
+                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-white/20 dark:hover:bg-gray-700/50 flex items-center justify-between transition-all duration-200"
+                  >
+                    <span className="truncate">{store.name}</span>
+                    {store._id === currentStore?._id && <Check className="h-4 w-4 text-primary-600 flex-shrink-0" />}
+                  </button>
+                ))}
+                <button
+                  onClick={handleCompareClick}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-white/20 dark:hover:bg-gray-700/50 flex items-center space-x-2 border-t border-gray-100 dark:border-gray-700 transition-all duration-200"
+                >
+                  <BarChart3 className="h-4 w-4" />
+                  <span>Compare branches</span>
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
         <div className="flex items-center space-x-4">
+          <OfflineQueueIndicator />
+
           <div className="relative" ref={notificationRef}>
             <GlassmorphismIcon
               icon={Bell}
@@ -148,6 +215,15 @@ export const Header: React.FC = () => {
                     </>
                   )}
                 </div>
+                <button
+                  onClick={handleCustomersClick}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-white/20 dark:hover:bg-gray-700/50 flex items-center space-x-2 transition-all duration-200 rounded-lg mx-1"
+                >
+                  <div className="p-1 bg-white/20 backdrop-blur-sm border border-white/30 rounded-lg">
+                    <Users className="h-4 w-4" />
+                  </div>
+                  <span>Customers</span>
+                </button>
                 <button
                   onClick={handleSettingsClick}
                   className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-white/20 dark:hover:bg-gray-700/50 flex items-center space-x-2 transition-all duration-200 rounded-lg mx-1"
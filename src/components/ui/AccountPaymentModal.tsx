@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Wallet } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { AccountPayment, Customer } from '../../types';
+import { ACCOUNT_PAYMENT_LABELS } from '../../utils/accountUtils';
+import { roundCurrency } from '../../utils/formatUtils';
+
+interface AccountPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customer: Customer;
+  onRecorded: (payment: AccountPayment, customer: Customer) => void;
+}
+
+const SETTLEMENT_TYPES: AccountPayment['payment_type'][] = ['cash', 'pos_isbank_transfer', 'naira_transfer', 'crypto_payment'];
+
+export const AccountPaymentModal: React.FC<AccountPaymentModalProps> = ({
+  isOpen,
+  onClose,
+  customer,
+  onRecorded
+}) => {
+  const { formatCurrency } = useLocale();
+  const [amount, setAmount] = useState('');
+  const [paymentType, setPaymentType] = useState<AccountPayment['payment_type']>('cash');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const balance = customer.account_balance || 0;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setAmount(balance > 0 ? String(balance) : '');
+    setPaymentType('cash');
+    setNotes('');
+  }, [isOpen, balance]);
+
+  const handleSave = async () => {
+    const value = roundCurrency(parseFloat(amount));
+    if (!(value > 0)) {
+      toast.error('Enter the amount received');
+      return;
+    }
+    if (value > balance) {
+      toast.error(`${customer.name} only owes ${formatCurrency(balance)}`);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await apiService.recordAccountPayment(customer._id, {
+        amount: value,
+        payment_type: paymentType,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(`${formatCurrency(value)} received from ${customer.name}`);
+      onRecorded(result.payment, result.customer);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to record account payment:', error);
+      toast.error(error.message || 'Failed to record payment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Record Account Payment"
+      size="md"
+      headerIcon={<Wallet className="h-5 w-5" />}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {customer.name} owes <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(balance)}</span>. Part payments are fine; they clear the oldest sales first.
+        </p>
+        <Input
+          label="Amount Received"
+          type="number"
+          min="0"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          selectOnFocus
+        />
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Paid By</label>
+          <select
+            value={paymentType}
+            onChange={(e) => setPaymentType(e.target.value as AccountPayment['payment_type'])}
+            title="How the customer paid"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+          >
+            {SETTLEMENT_TYPES.map(type => (
+              <option key={type} value={type}>{ACCOUNT_PAYMENT_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <Input
+          label="Notes (Optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="e.g. Weekly settlement"
+        />
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isSaving}>
+            Record Payment
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
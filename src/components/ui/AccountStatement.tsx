@@ -0,0 +1,109 @@
+import React, { forwardRef } from 'react';
+import { Customer } from '../../types';
+import { receiptPrintStyles } from './Receipt';
+import { useLocale } from '../../hooks/useLocale';
+import { AGING_BUCKET_LABELS, AccountAging, AccountStatement as Statement } from '../../utils/accountUtils';
+
+interface AccountStatementProps {
+  customer: Customer;
+  statement: Statement;
+  aging: AccountAging;
+  from?: Date; // Start of the statement period; all activity when omitted
+  onShare?: () => void;
+  onClose?: () => void;
+}
+
+export const AccountStatement = forwardRef<HTMLDivElement, AccountStatementProps>(({ customer, statement, aging, from, onShare, onClose }, ref) => {
+  const { formatCurrency: formatPrice, formatDate } = useLocale();
+
+  return (
+    <>
+      <style>{receiptPrintStyles}</style>
+      <div ref={ref} className="receipt-print-content bg-white dark:bg-gray-800 p-6 rounded shadow-md max-w-2xl mx-auto text-gray-900 dark:text-white">
+      <h2 className="text-lg font-bold mb-2 text-center text-gray-900 dark:text-white">Greep Market</h2>
+      <div className="mb-2 text-xs text-center text-gray-600 dark:text-gray-400">Account Statement</div>
+      <div className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+        <div><b className="text-gray-900 dark:text-white">Customer:</b> <span>{customer.name}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Phone:</b> <span>{customer.phone}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Period:</b> <span>{from ? `${formatDate(from)} – ${formatDate(new Date())}` : `Up to ${formatDate(new Date())}`}</span></div>
+        {!!customer.credit_limit && <div><b className="text-gray-900 dark:text-white">Credit Limit:</b> <span>{formatPrice(customer.credit_limit)}</span></div>}
+      </div>
+
+      <div className="border-t border-b border-gray-300 dark:border-gray-600 py-2 mb-2 text-xs">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-700 dark:text-gray-300">
+              <th className="text-gray-900 dark:text-white">Date</th>
+              <th className="text-gray-900 dark:text-white">Details</th>
+              <th className="text-right text-gray-900 dark:text-white">Charge</th>
+              <th className="text-right text-gray-900 dark:text-white">Paid</th>
+              <th className="text-right text-gray-900 dark:text-white">Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {from && (
+              <tr className="text-gray-700 dark:text-gray-300">
+                <td>{formatDate(from)}</td>
+                <td>Opening balance</td>
+                <td></td>
+                <td></td>
+                <td className="text-right">{formatPrice(statement.opening_balance)}</td>
+              </tr>
+            )}
+            {statement.entries.map(entry => (
+              <tr key={`${entry.type}-${entry.id}`} className="text-gray-700 dark:text-gray-300">
+                <td>{formatDate(entry.date)}</td>
+                <td>{entry.description}</td>
+                <td className="text-right">{entry.amount > 0 ? formatPrice(entry.amount) : ''}</td>
+                <td className="text-right">{entry.amount < 0 ? formatPrice(-entry.amount) : ''}</td>
+                <td className="text-right">{formatPrice(entry.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {statement.entries.length === 0 && (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-2">No account activity in this period.</p>
+        )}
+      </div>
+
+      <div className="mb-1 flex justify-between text-sm text-gray-700 dark:text-gray-300">
+        <span>Charged:</span> <span className="text-gray-900 dark:text-white font-medium">{formatPrice(statement.total_charged)}</span>
+      </div>
+      <div className="mb-1 flex justify-between text-sm text-gray-700 dark:text-gray-300">
+        <span>Paid:</span> <span className="text-gray-900 dark:text-white font-medium">{formatPrice(statement.total_paid)}</span>
+      </div>
+      <div className="mb-3 flex justify-between text-base font-bold border-t border-gray-300 dark:border-gray-600 pt-2 text-gray-900 dark:text-white">
+        <span>Balance Due:</span> <span>{formatPrice(statement.closing_balance)}</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-xs text-center">
+        {AGING_BUCKET_LABELS.map(bucket => (
+          <div key={bucket.key} className="border border-gray-300 dark:border-gray-600 rounded p-1">
+            <div className="text-gray-600 dark:text-gray-400">{bucket.label}</div>
+            <div className="font-semibold text-gray-900 dark:text-white">{formatPrice(aging[bucket.key])}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="receipt-no-print mt-4 flex justify-center gap-3">
+        <button
+          className="bg-primary-600 hover:bg-primary-700 dark:bg-primary-500 dark:hover:bg-primary-600 text-white py-1 px-3 text-xs rounded transition-colors"
+          onClick={() => {
+            window.print();
+          }}
+        >
+          Print
+        </button>
+        {onShare && (
+          <button className="bg-green-600 hover:bg-green-700 text-white py-1 px-3 text-xs rounded transition-colors" onClick={onShare}>WhatsApp</button>
+        )}
+        {onClose && (
+          <button className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 px-3 py-1 text-xs rounded transition-colors" onClick={onClose}>Close</button>
+        )}
+      </div>
+      </div>
+    </>
+  );
+});
+
+AccountStatement.displayName = 'AccountStatement';
@@ -133,6 +133,9 @@ export const AuditLogs: React.FC<AuditLogsProps> = ({ storeId, currentUserRole }
       case 'DELETE': return 'text-red-600 bg-red-100';
       case 'LOGIN': return 'text-purple-600 bg-purple-100';
       case 'LOGOUT': return 'text-gray-600 bg-gray-100';
+      case 'DISPATCH': return 'text-indigo-600 bg-indigo-100';
+      case 'RECEIVE': return 'text-teal-600 bg-teal-100';
+      case 'COMPLETE': return 'text-emerald-600 bg-emerald-100';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -145,6 +148,8 @@ export const AuditLogs: React.FC<AuditLogsProps> = ({ storeId, currentUserRole }
       case 'USER': return '👤';
       case 'INVENTORY': return '📊';
       case 'GOAL': return '🎯';
+      case 'STOCK_TRANSFER': return '🚚';
+      case 'STOCK_TAKE': return '📋';
       default: return '📄';
     }
   };
@@ -240,6 +245,8 @@ export const AuditLogs: React.FC<AuditLogsProps> = ({ storeId, currentUserRole }
                 <option value="USER">User</option>
                 <option value="INVENTORY">Inventory</option>
                 <option value="GOAL">Goal</option>
+                <option value="STOCK_TRANSFER">Stock Transfer</option>
+                <option value="STOCK_TAKE">Stock-take</option>
               </select>
             </div>
             <div>
@@ -260,6 +267,9 @@ export const AuditLogs: React.FC<AuditLogsProps> = ({ storeId, currentUserRole }
                 <option value="LOGOUT">Logout</option>
                 <option value="EXPORT">Export</option>
                 <option value="IMPORT">Import</option>
+                <option value="DISPATCH">Dispatch</option>
+                <option value="RECEIVE">Receive</option>
+                <option value="COMPLETE">Complete</option>
               </select>
             </div>
             <div>
@@ -724,6 +734,57 @@ export const AuditLogs: React.FC<AuditLogsProps> = ({ storeId, currentUserRole }
                   </div>
                 )}
 
+                {/* Stock transfer lines and receipt discrepancies */}
+                {selectedLog.resource_type === 'STOCK_TRANSFER' && selectedLog.metadata?.additional_info && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Stock Transfer</label>
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg text-sm text-blue-800 dark:text-blue-300 space-y-2">
+                      <div>
+                        {selectedLog.metadata.additional_info.from_store_name || selectedLog.metadata.additional_info.from_store_id}
+                        {' → '}
+                        {selectedLog.metadata.additional_info.to_store_name || selectedLog.metadata.additional_info.to_store_id}
+                      </div>
+                      {(selectedLog.metadata.additional_info.lines || []).map((line: any) => (
+                        <div key={line.product_id} className="flex justify-between bg-white dark:bg-gray-800 p-2 rounded border">
+                          <span>{line.product_name}</span>
+                          <span>
+                            {line.quantity} sent
+                            {line.received_quantity !== undefined && (
+                              <span className={line.received_quantity !== line.quantity ? 'ml-2 font-semibold text-amber-600 dark:text-amber-400' : 'ml-2'}>
+                                {line.received_quantity} received
+                              </span>
+                            )}
+                          </span>
+                        </div>
+                      ))}
+                      {selectedLog.metadata.additional_info.has_discrepancy && (
+                        <div className="font-medium text-amber-700 dark:text-amber-400">⚠️ Received with discrepancies</div>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Stock-take variances posted as adjustments */}
+                {selectedLog.resource_type === 'STOCK_TAKE' && selectedLog.metadata?.additional_info && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Stock-take</label>
+                    <div className="bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg text-sm text-blue-800 dark:text-blue-300 space-y-2">
+                      <div>
+                        {selectedLog.metadata.additional_info.category || 'All categories'}
+                        {selectedLog.metadata.additional_info.reason_code && ` · ${selectedLog.metadata.additional_info.reason_code}`}
+                      </div>
+                      {(selectedLog.metadata.additional_info.adjustments || []).map((adjustment: any) => (
+                        <div key={adjustment.product_id} className="flex justify-between bg-white dark:bg-gray-800 p-2 rounded border">
+                          <span>{adjustment.product_name}</span>
+                          <span className={adjustment.counted_quantity < adjustment.expected_quantity ? 'font-semibold text-red-600 dark:text-red-400' : 'font-semibold text-green-600 dark:text-green-400'}>
+                            {adjustment.expected_quantity} → {adjustment.counted_quantity}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Legacy Transaction Details (fallback) */}
                 {selectedLog.resource_type === 'TRANSACTION' && selectedLog.changes && selectedLog.changes.length > 0 && !selectedLog.metadata?.additional_info && (
                   <div>
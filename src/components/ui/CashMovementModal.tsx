@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowDownCircle, ArrowUpCircle, ArrowRightLeft } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useAuth } from '../../context/AuthContext';
+import { useShift } from '../../context/ShiftContext';
+import { useStore } from '../../context/StoreContext';
+import { useLocale } from '../../hooks/useLocale';
+import { useShiftSummary } from '../../hooks/useShiftSummary';
+import { apiService } from '../../services/api';
+import { ShiftCashMovement } from '../../types';
+import { EXPENSE_CATEGORIES, normalizeExpenseCategory } from '../../utils/expenseUtils';
+import { roundCurrency } from '../../utils/formatUtils';
+import { getZonedDateKey } from '../../utils/localeUtils';
+import { CASH_MOVEMENT_LABELS, needsManagerPin } from '../../utils/shiftUtils';
+
+interface CashMovementModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialType?: ShiftCashMovement['type'];
+}
+
+const MOVEMENT_HINTS: Record<ShiftCashMovement['type'], string> = {
+  paid_in: 'Cash put into the drawer that is not a sale, e.g. extra change from the safe.',
+  payout: 'Petty cash paid out of the drawer, e.g. to a supplier or for shop supplies.',
+  drop: 'Cash moved from the drawer to the safe to keep the till float low.',
+};
+
+export const CashMovementModal: React.FC<CashMovementModalProps> = ({
+  isOpen,
+  onClose,
+  initialType = 'payout'
+}) => {
+  const { user } = useAuth();
+  const { currentStore } = useStore();
+  const { currentShift, recordMovement } = useShift();
+  const { summary } = useShiftSummary(isOpen ? currentShift : null);
+  const { settings, formatCurrency } = useLocale();
+  const [type, setType] = useState<ShiftCashMovement['type']>(initialType);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [recordExpense, setRecordExpense] = useState(true);
+  const [category, setCategory] = useState('supplies');
+  const [managerPin, setManagerPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setType(initialType);
+    setAmount('');
+    setReason('');
+    setRecordExpense(true);
+    setCategory('supplies');
+    setManagerPin('');
+  }, [isOpen, initialType]);
+
+  const value = roundCurrency(parseFloat(amount) || 0);
+  const pinRequired = needsManagerPin(type, value, currentStore?.cash_movement_pin_threshold, user?.role);
+
+  const handleSave = async () => {
+    if (!currentShift) return;
+    if (!(value > 0)) {
+      toast.error('Enter an amount');
+      return;
+    }
+    if (type !== 'paid_in' && value > summary.expected_cash) {
+      toast.error(`Only ${formatCurrency(summary.expected_cash)} should be in the drawer`);
+      return;
+    }
+    if (type !== 'drop' && !reason.trim()) {
+      toast.error(`Say what the ${CASH_MOVEMENT_LABELS[type].toLowerCase()} was for`);
+      return;
+    }
+    if (pinRequired && !managerPin.trim()) {
+      toast.error('A manager needs to enter their PIN');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await recordMovement({
+        type,
+        amount: value,
+        reason: reason.trim() || undefined,
+        manager_pin: pinRequired ? managerPin.trim() : undefined,
+      });
+    } catch {
+      // Toast already shown by the context
+      setIsSaving(false);
+      return;
+    }
+
+    if (type === 'payout' && recordExpense) {
+      try {
+        await apiService.createExpense({
+          store_id: currentShift.store_id,
+          date: getZonedDateKey(new Date(), settings.timezone), // The store's day, not UTC's
+          product_name: reason.trim(),
+          unit: 'pieces',
+          quantity: 1,
+          amount: value,
+          currency: settings.currency,
+          payment_method: 'cash',
+          category: normalizeExpenseCategory(category),
+          description: 'Paid out from the till',
+          shift_id: currentShift._id,
+        });
+      } catch (error) {
+        console.error('Failed to create expense:', error);
+        toast.error('Paid out recorded but the expense was not created. Please add it in Expenses.');
+      }
+    }
+
+    setIsSaving(false);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Cash In / Out"
+      size="md"
+      headerIcon={<ArrowRightLeft className="h-5 w-5" />}
+    >
+      {!currentShift ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">Open a till shift before moving cash in or out of the drawer.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(CASH_MOVEMENT_LABELS) as ShiftCashMovement['type'][]).map(option => {
+              const Icon = option === 'paid_in' ? ArrowDownCircle : ArrowUpCircle;
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setType(option)}
+                  className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+                    type === option
+                      ? 'border-primary-500 bg-primary-50 text-primary-700 dark:bg-primary-900/20 dark:text-primary-300'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <Icon className="h-4 w-4" />
+                  {CASH_MOVEMENT_LABELS[option]}
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">{MOVEMENT_HINTS[type]}</p>
+          <Input
+            label="Amount"
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            helperText={type === 'paid_in' ? undefined : `${formatCurrency(summary.expected_cash)} expected in the drawer`}
+            selectOnFocus
+          />
+          <Input
+            label={type === 'drop' ? 'Notes (Optional)' : 'Reason'}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={type === 'payout' ? 'e.g. Bread delivery' : type === 'paid_in' ? 'e.g. Change from safe' : 'e.g. Safe drop'}
+          />
+          {type === 'payout' && (
+            <div className="space-y-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={recordExpense}
+                  onChange={(e) => setRecordExpense(e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                />
+                Also record as a cash expense
+              </label>
+              {recordExpense && (
+                <select
+                  value={category}
+                  onChange={(e) => setCategory(e.target.value)}
+                  title="Expense category"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+                >
+                  {EXPENSE_CATEGORIES.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+          {pinRequired && (
+            <Input
+              label="Manager PIN"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              value={managerPin}
+              onChange={(e) => setManagerPin(e.target.value)}
+              helperText={`Needed for amounts over ${formatCurrency(currentStore?.cash_movement_pin_threshold || 0)}`}
+            />
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} loading={isSaving} disabled={isSaving}>
+              Record {CASH_MOVEMENT_LABELS[type]}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
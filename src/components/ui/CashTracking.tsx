@@ -3,22 +3,20 @@ import { DollarSign, Package, AlertTriangle, TrendingUp, Eye, RefreshCw } from '
 import { Card } from './Card';
 import { Button } from './Button';
 import { Rider } from '../../types';
+import { RiderReconciliationModal } from './RiderReconciliationModal';
 
 interface CashTrackingProps {
   riders: Rider[];
-  onReconcileRider: (id: string, amount: number) => Promise<void>;
   onRefresh: () => void;
   isLoading: boolean;
 }
 
 export const CashTracking: React.FC<CashTrackingProps> = ({
   riders,
-  onReconcileRider,
   onRefresh,
   isLoading,
 }) => {
   const [selectedRider, setSelectedRider] = useState<Rider | null>(null);
-  const [reconcileAmount, setReconcileAmount] = useState('');
 
   // Calculate cash tracking metrics
   const cashMetrics = useMemo(() => {
@@ -44,23 +42,6 @@ export const CashTracking: React.FC<CashTrackingProps> = ({
       .sort((a, b) => b.pending_reconciliation - a.pending_reconciliation);
   }, [riders]);
 
-  const handleReconcile = async () => {
-    if (!selectedRider || !reconcileAmount) return;
-
-    const amount = parseFloat(reconcileAmount);
-    if (amount <= 0 || amount > selectedRider.pending_reconciliation) {
-      return;
-    }
-
-    try {
-      await onReconcileRider(selectedRider._id, amount);
-      setReconcileAmount('');
-      setSelectedRider(null);
-    } catch (error) {
-      console.error('Failed to reconcile rider:', error);
-    }
-  };
-
   const getCashStatusColor = (amount: number) => {
     if (amount === 0) return 'text-gray-500';
     if (amount < 500) return 'text-green-600';
@@ -206,10 +187,7 @@ export const CashTracking: React.FC<CashTrackingProps> = ({
                     {/* Action Button */}
                     <Button
                       size="sm"
-                      onClick={() => {
-                        setSelectedRider(rider);
-                        setReconcileAmount(rider.pending_reconciliation.toString());
-                      }}
+                      onClick={() => setSelectedRider(rider)}
                       disabled={rider.pending_reconciliation <= 0}
                       className="flex items-center space-x-1"
                     >
@@ -233,58 +211,12 @@ export const CashTracking: React.FC<CashTrackingProps> = ({
         )}
       </Card>
 
-      {/* Quick Reconciliation Modal */}
-      {selectedRider && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center py-8 px-4 z-50 overflow-y-auto">
-          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl p-6 w-full max-w-md mx-4">
-            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-              Reconcile Cash - {selectedRider.name}
-            </h3>
-            
-            <div className="space-y-4">
-              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
-                <p className="text-sm text-gray-600 dark:text-gray-400">Pending Reconciliation</p>
-                <p className="text-xl font-bold text-orange-600">₺{selectedRider.pending_reconciliation.toFixed(2)}</p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Amount to Reconcile
-                </label>
-                <input
-                  type="number"
-                  value={reconcileAmount}
-                  onChange={(e) => setReconcileAmount(e.target.value)}
-                  max={selectedRider.pending_reconciliation}
-                  title="Enter amount to reconcile"
-                  placeholder="Enter amount"
-                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
-                />
-              </div>
-
-              <div className="flex space-x-3 pt-4">
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setSelectedRider(null);
-                    setReconcileAmount('');
-                  }}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleReconcile}
-                  disabled={!reconcileAmount || parseFloat(reconcileAmount) <= 0 || parseFloat(reconcileAmount) > selectedRider.pending_reconciliation}
-                  className="flex-1"
-                >
-                  Reconcile
-                </Button>
-              </div>
-            </div>
-          </div>
-        </div>
-      )}
+      {/* End-of-day Reconciliation Modal */}
+      <RiderReconciliationModal
+        rider={selectedRider}
+        isOpen={selectedRider !== null}
+        onClose={() => setSelectedRider(null)}
+      />
     </div>
   );
 };
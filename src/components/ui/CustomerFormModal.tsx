@@ -0,0 +1,152 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useAuth } from '../../context/AuthContext';
+import { apiService } from '../../services/api';
+import { Customer } from '../../types';
+import { normalizeCustomerPhone, validateCustomerInput } from '../../utils/customerUtils';
+
+interface CustomerFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  storeId?: string;
+  customer: Customer | null; // null creates a new customer
+  initialValues?: { name?: string; phone?: string }; // Prefill for a new customer, e.g. from the POS search
+  onSaved: (customer: Customer) => void;
+}
+
+export const CustomerFormModal: React.FC<CustomerFormModalProps> = ({
+  isOpen,
+  onClose,
+  storeId,
+  customer,
+  initialValues,
+  onSaved
+}) => {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [notes, setNotes] = useState('');
+  const [creditLimit, setCreditLimit] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { user } = useAuth();
+
+  // Cashiers can add customers but only managers decide who may buy on account
+  const canSetCreditLimit = !!user && ['admin', 'owner', 'manager'].includes(user.role);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(customer?.name || initialValues?.name || '');
+    setPhone(customer?.phone || initialValues?.phone || '');
+    setEmail(customer?.email || '');
+    setNotes(customer?.notes || '');
+    setCreditLimit(customer?.credit_limit ? String(customer.credit_limit) : '');
+  }, [isOpen, customer, initialValues]);
+
+  const handleSave = async () => {
+    if (!storeId) return;
+    const error = validateCustomerInput({ name, phone, email });
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    const limit = creditLimit.trim() ? parseFloat(creditLimit) : 0;
+    if (!(limit >= 0)) {
+      toast.error('Enter a credit limit of 0 or more');
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      phone: normalizeCustomerPhone(phone),
+      email: email.trim() || undefined,
+      notes: notes.trim() || undefined,
+      ...(canSetCreditLimit && { credit_limit: limit }),
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = customer
+        ? await apiService.updateCustomer(customer._id, data)
+        : await apiService.createCustomer({ ...data, store_id: storeId });
+      toast.success(`${saved.name} saved`);
+      onSaved(saved);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save customer:', error);
+      toast.error(error.message || 'Failed to save customer');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={customer ? 'Edit Customer' : 'New Customer'}
+      size="md"
+      headerIcon={<UserPlus className="h-5 w-5" />}
+    >
+      <div className="space-y-4">
+        <Input
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Full name"
+        />
+        <Input
+          label="Phone"
+          type="tel"
+          value={phone}
+          onChange={(e) => setPhone(e.target.value)}
+          placeholder="+90 533 000 00 00"
+          helperText="Online orders placed with this number are linked to the customer"
+        />
+        <Input
+          label="Email (Optional)"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="name@example.com"
+        />
+        {canSetCreditLimit && (
+          <Input
+            label="Credit Limit (Optional)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={creditLimit}
+            onChange={(e) => setCreditLimit(e.target.value)}
+            placeholder="0"
+            helperText="Lets the customer buy on account up to this balance; leave empty to turn it off"
+          />
+        )}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Notes (Optional)
+          </label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Preferences, allergies, delivery instructions..."
+            rows={3}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-gray-800 text-gray-900 dark:text-white resize-none"
+          />
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isSaving}>
+            {customer ? 'Save Customer' : 'Create Customer'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Users, UserPlus, Search } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { LoadingSpinner } from './LoadingSpinner';
+import { CustomerFormModal } from './CustomerFormModal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { Customer } from '../../types';
+import { matchesCustomerSearch } from '../../utils/customerUtils';
+
+interface CustomerPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  storeId?: string;
+  onSelect: (customer: Customer) => void;
+}
+
+export const CustomerPickerModal: React.FC<CustomerPickerModalProps> = ({
+  isOpen,
+  onClose,
+  storeId,
+  onSelect
+}) => {
+  const { formatNumber } = useLocale();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !storeId) return;
+    setSearch('');
+    setIsLoading(true);
+    apiService.getCustomers({ store_id: storeId })
+      .then(setCustomers)
+      .catch(error => {
+        console.error('Failed to load customers:', error);
+        toast.error('Failed to load customers');
+      })
+      .finally(() => setIsLoading(false));
+  }, [isOpen, storeId]);
+
+  const results = useMemo(
+    () => customers.filter(customer => matchesCustomerSearch(customer, search)).slice(0, 20),
+    [customers, search]
+  );
+
+  // A search that looks like a phone number prefills the new customer's phone, otherwise their name
+  const newCustomerDefaults = useMemo(() => {
+    const term = search.trim();
+    return /^[\d\s+()-]+$/.test(term) ? { phone: term } : { name: term };
+  }, [search]);
+
+  const handleCreated = (customer: Customer) => {
+    setCustomers(prev => [customer, ...prev]);
+    onSelect(customer);
+  };
+
+  return (
+    <>
+      <Modal
+        isOpen={isOpen && !isCreating}
+        onClose={onClose}
+        title="Attach Customer"
+        size="lg"
+        headerIcon={<Users className="h-5 w-5" />}
+      >
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name, phone or email"
+                className="pl-9"
+                autoFocus
+              />
+            </div>
+            <Button variant="outline" onClick={() => setIsCreating(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              New
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <LoadingSpinner size="md" className="mr-3" />
+              <span className="text-gray-500 dark:text-gray-400">Loading customers...</span>
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">
+              {search.trim() ? 'No customer matches this search.' : 'No customers yet.'}
+            </p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+              {results.map(customer => (
+                <button
+                  key={customer._id}
+                  type="button"
+                  onClick={() => onSelect(customer)}
+                  className="w-full flex items-center justify-between gap-3 px-3 py-3 text-left rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{customer.name}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {customer.phone}{customer.email && ` · ${customer.email}`}
+                    </p>
+                  </div>
+                  <span className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                    {formatNumber(customer.loyalty_points || 0)} pts
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </Modal>
+
+      <CustomerFormModal
+        isOpen={isOpen && isCreating}
+        onClose={() => setIsCreating(false)}
+        storeId={storeId}
+        customer={null}
+        initialValues={newCustomerDefaults}
+        onSaved={handleCreated}
+      />
+    </>
+  );
+};
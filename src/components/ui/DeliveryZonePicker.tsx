@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { LocateFixed } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { DeliveryZone, DeliveryZoneMode } from '../../types';
+import {
+  GeoPoint,
+  findZoneForDistance,
+  getDistanceKm,
+  getZoneLabel,
+  quoteDelivery,
+  sortDeliveryZones,
+} from '../../utils/deliveryZoneUtils';
+
+interface DeliveryZonePickerProps {
+  mode: DeliveryZoneMode;
+  zones: DeliveryZone[];
+  selectedZoneId: string;
+  onSelect: (zoneId: string) => void;
+  orderValue: number; // Everything except the delivery fee, for free-delivery and minimum checks
+  formatCurrency: (amount: number) => string;
+  storeLocation?: GeoPoint; // Offers "use my location" for distance bands when set
+}
+
+export const DeliveryZonePicker: React.FC<DeliveryZonePickerProps> = ({
+  mode,
+  zones,
+  selectedZoneId,
+  onSelect,
+  orderValue,
+  formatCurrency,
+  storeLocation,
+}) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const [distanceKm, setDistanceKm] = useState<number | null>(null);
+  const sortedZones = sortDeliveryZones(zones, mode);
+  const selectedZone = zones.find(zone => zone._id === selectedZoneId);
+  const quote = selectedZone ? quoteDelivery(selectedZone, orderValue) : null;
+
+  const locate = () => {
+    if (!storeLocation || !navigator.geolocation) {
+      toast.error('Location is not available on this device');
+      return;
+    }
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        const distance = getDistanceKm(storeLocation, { latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setDistanceKm(distance);
+        const zone = findZoneForDistance(zones, distance);
+        if (zone) {
+          onSelect(zone._id);
+        } else {
+          onSelect('');
+          toast.error(`You are about ${distance.toFixed(1)} km away, which is outside our delivery area`);
+        }
+      },
+      () => {
+        setIsLocating(false);
+        toast.error('Could not get your location. Pick your distance instead.');
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label htmlFor="delivery-zone" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {mode === 'distance' ? 'Distance from Store *' : 'Delivery Area *'}
+        </label>
+        {mode === 'distance' && storeLocation && (
+          <button
+            type="button"
+            onClick={locate}
+            disabled={isLocating}
+            className="flex items-center text-xs text-primary-600 dark:text-primary-400 hover:underline disabled:opacity-50"
+          >
+            <LocateFixed className={`h-3 w-3 mr-1 ${isLocating ? 'animate-pulse' : ''}`} />
+            {isLocating ? 'Locating...' : 'Use my location'}
+          </button>
+        )}
+      </div>
+      <select
+        id="delivery-zone"
+        value={selectedZoneId}
+        onChange={(e) => { setDistanceKm(null); onSelect(e.target.value); }}
+        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        aria-label={mode === 'distance' ? 'Distance from store' : 'Delivery area'}
+      >
+        <option value="">{mode === 'distance' ? 'Select distance' : 'Select area'}</option>
+        {sortedZones.map(zone => (
+          <option key={zone._id} value={zone._id}>
+            {getZoneLabel(zone, mode)} · {formatCurrency(zone.fee)}
+          </option>
+        ))}
+      </select>
+      {distanceKm !== null && selectedZone && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">About {distanceKm.toFixed(1)} km from the store</p>
+      )}
+      {quote && (
+        <p className={`text-xs ${quote.below_minimum ? 'text-red-600 dark:text-red-400' : quote.is_free ? 'text-green-600 dark:text-green-400' : 'text-gray-600 dark:text-gray-400'}`}>
+          {quote.below_minimum
+            ? `Minimum order for ${selectedZone?.name || 'this zone'} is ${formatCurrency(selectedZone?.minimum_order || 0)}`
+            : quote.is_free
+              ? 'Free delivery'
+              : `Delivery ${formatCurrency(quote.fee)}${quote.amount_to_free > 0 ? ` · add ${formatCurrency(quote.amount_to_free)} more for free delivery` : ''}`}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { DeliveryZone, DeliveryZoneMode } from '../../types';
+
+interface DeliveryZonesEditorProps {
+  mode: DeliveryZoneMode;
+  zones: DeliveryZone[];
+  latitude?: number;
+  longitude?: number;
+  onChange: (updates: {
+    delivery_zone_mode?: DeliveryZoneMode;
+    delivery_zones?: DeliveryZone[];
+    latitude?: number;
+    longitude?: number;
+  }) => void;
+}
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200';
+
+// Blank inputs mean "not set" rather than 0 for the optional coordinates
+const parseOptionalNumber = (value: string): number | undefined => (value.trim() === '' ? undefined : Number(value));
+
+export const DeliveryZonesEditor: React.FC<DeliveryZonesEditorProps> = ({
+  mode,
+  zones,
+  latitude,
+  longitude,
+  onChange
+}) => {
+  const updateZone = (id: string, updates: Partial<DeliveryZone>) => {
+    onChange({ delivery_zones: zones.map(zone => (zone._id === id ? { ...zone, ...updates } : zone)) });
+  };
+
+  const addZone = () => {
+    const lastReach = zones.reduce((max, zone) => Math.max(max, zone.max_distance_km || 0), 0);
+    onChange({
+      delivery_zones: [...zones, {
+        _id: `zone_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        name: '',
+        fee: 0,
+        ...(mode === 'distance' && { max_distance_km: lastReach + 5 }),
+      }],
+    });
+  };
+
+  const removeZone = (id: string) => {
+    onChange({ delivery_zones: zones.filter(zone => zone._id !== id) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pricing</label>
+          <select
+            value={mode}
+            onChange={(e) => onChange({ delivery_zone_mode: e.target.value as DeliveryZoneMode })}
+            className={inputClassName}
+            title="How delivery fees are worked out"
+          >
+            <option value="area">Named areas, flat fee each</option>
+            <option value="distance">Distance bands from the store</option>
+          </select>
+        </div>
+        {mode === 'distance' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Store Latitude</label>
+              <input
+                type="number"
+                step="0.000001"
+                value={latitude ?? ''}
+                onChange={(e) => onChange({ latitude: parseOptionalNumber(e.target.value) })}
+                className={inputClassName}
+                title="Latitude of the store address"
+                placeholder="e.g. 35.3364"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Store Longitude</label>
+              <input
+                type="number"
+                step="0.000001"
+                value={longitude ?? ''}
+                onChange={(e) => onChange({ longitude: parseOptionalNumber(e.target.value) })}
+                className={inputClassName}
+                title="Longitude of the store address"
+                placeholder="e.g. 33.3199"
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            {mode === 'distance' ? 'Distance Bands' : 'Delivery Areas'}
+          </label>
+          <button
+            type="button"
+            onClick={addZone}
+            className="flex items-center text-xs text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            {mode === 'distance' ? 'Add band' : 'Add area'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {mode === 'distance'
+            ? 'Customers who share their location are matched to the nearest band that reaches them. Leave free delivery and minimum order at 0 to turn them off.'
+            : 'Customers pick their area at checkout. Leave free delivery and minimum order at 0 to turn them off.'}
+        </p>
+        <div className="mt-2 space-y-2">
+          {zones.length > 0 && (
+            <div className="hidden md:flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+              <span className="flex-1">Name</span>
+              {mode === 'distance' && <span className="w-24">Up to (km)</span>}
+              <span className="w-24">Fee</span>
+              <span className="w-28">Free from</span>
+              <span className="w-28">Minimum order</span>
+              <span className="w-7"></span>
+            </div>
+          )}
+          {zones.map(zone => (
+            <div key={zone._id} className="flex flex-wrap md:flex-nowrap items-center gap-2">
+              <input
+                type="text"
+                value={zone.name}
+                onChange={(e) => updateZone(zone._id, { name: e.target.value })}
+                className={`${inputClassName} mt-0 flex-1 min-w-[8rem]`}
+                placeholder={mode === 'distance' ? 'e.g. Nearby' : 'e.g. Girne centre'}
+                title="Zone name"
+              />
+              {mode === 'distance' && (
+                <div className="w-24">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.1"
+                    value={zone.max_distance_km ?? ''}
+                    onChange={(e) => updateZone(zone._id, { max_distance_km: parseOptionalNumber(e.target.value) })}
+                    className={`${inputClassName} mt-0`}
+                    title="Furthest distance this band covers (km)"
+                  />
+                </div>
+              )}
+              <div className="w-24">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={zone.fee}
+                  onChange={(e) => updateZone(zone._id, { fee: Number(e.target.value) })}
+                  className={`${inputClassName} mt-0`}
+                  title="Delivery fee"
+                />
+              </div>
+              <div className="w-28">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={zone.free_delivery_threshold ?? 0}
+                  onChange={(e) => updateZone(zone._id, { free_delivery_threshold: Number(e.target.value) })}
+                  className={`${inputClassName} mt-0`}
+                  title="Orders worth at least this deliver free (0 turns it off)"
+                />
+              </div>
+              <div className="w-28">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={zone.minimum_order ?? 0}
+                  onChange={(e) => updateZone(zone._id, { minimum_order: Number(e.target.value) })}
+                  className={`${inputClassName} mt-0`}
+                  title="Smallest order delivered to this zone (0 turns it off)"
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeZone(zone._id)}
+                className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                title="Remove zone"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
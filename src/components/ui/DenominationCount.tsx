@@ -0,0 +1,51 @@
+import React from 'react';
+import { useLocale } from '../../hooks/useLocale';
+import { countDenominations, getDenominations } from '../../utils/shiftUtils';
+
+interface DenominationCountProps {
+  counts: Record<string, number>; // Keyed by denomination value
+  onChange: (counts: Record<string, number>) => void;
+  disabled?: boolean;
+}
+
+export const DenominationCount: React.FC<DenominationCountProps> = ({ counts, onChange, disabled }) => {
+  const { settings, formatCurrency } = useLocale();
+  const denominations = getDenominations(settings.currency);
+
+  const handleChange = (denomination: number, value: string) => {
+    const quantity = Math.max(0, Math.floor(Number(value) || 0));
+    onChange({ ...counts, [String(denomination)]: quantity });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        {denominations.map(denomination => {
+          const quantity = counts[String(denomination)] || 0;
+          return (
+            <div key={denomination} className="flex items-center gap-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg px-3 py-2">
+              <span className="w-16 text-sm font-medium text-gray-900 dark:text-white">{formatCurrency(denomination)}</span>
+              <span className="text-gray-400">×</span>
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={quantity || ''}
+                onChange={(e) => handleChange(denomination, e.target.value)}
+                onFocus={(e) => e.target.select()}
+                disabled={disabled}
+                placeholder="0"
+                title={`Number of ${formatCurrency(denomination)}`}
+                className="w-full min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded text-sm text-right"
+              />
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-between items-center border-t border-gray-200 dark:border-gray-700 pt-3">
+        <span className="text-sm text-gray-600 dark:text-gray-400">Counted</span>
+        <span className="text-lg font-bold text-gray-900 dark:text-white">{formatCurrency(countDenominations(counts))}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { useDraggable } from '@dnd-kit/core';
+import { CSS } from '@dnd-kit/utilities';
+import { MapPin, Phone, Bike, Clock, ChevronRight } from 'lucide-react';
+import { CustomerOrder } from '../../types';
+import { useLocale } from '../../hooks/useLocale';
+import { getCashToCollect, getDeliveryMinutes } from '../../utils/dispatchUtils';
+
+interface DispatchOrderCardProps {
+  order: CustomerOrder;
+  onAdvance?: (order: CustomerOrder) => void; // Tap alternative to dragging into the next column
+  advanceLabel?: string;
+  isOverlay?: boolean; // Rendered inside the DragOverlay while dragging
+}
+
+export const DispatchOrderCard: React.FC<DispatchOrderCardProps> = ({ order, onAdvance, advanceLabel, isOverlay }) => {
+  const { formatCurrency, formatTime } = useLocale();
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: order._id,
+    disabled: isOverlay || order.dispatchStatus === 'delivered',
+  });
+  const cash = getCashToCollect(order);
+  const minutes = getDeliveryMinutes(order);
+
+  return (
+    <div
+      ref={isOverlay ? undefined : setNodeRef}
+      style={isOverlay ? undefined : { transform: CSS.Translate.toString(transform) }}
+      {...(isOverlay ? {} : attributes)}
+      {...(isOverlay ? {} : listeners)}
+      className={`bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-3 shadow-sm touch-none ${
+        order.dispatchStatus === 'delivered' ? '' : 'cursor-grab active:cursor-grabbing'
+      } ${isDragging ? 'opacity-40' : ''} ${isOverlay ? 'shadow-xl ring-2 ring-primary-500' : ''}`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{order.orderNumber}</p>
+          <p className="text-sm text-gray-700 dark:text-gray-300 truncate">{order.customerName}</p>
+        </div>
+        <div className="text-right flex-shrink-0">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatCurrency(order.total)}</p>
+          <p className={`text-xs ${cash > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500 dark:text-gray-400'}`}>
+            {cash > 0 ? 'Collect cash' : 'Prepaid'}
+          </p>
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-1 text-xs text-gray-600 dark:text-gray-400">
+        {order.deliveryAddress && (
+          <p className="flex items-start gap-1">
+            <MapPin className="h-3 w-3 mt-0.5 flex-shrink-0" />
+            <span className="line-clamp-2">{order.deliveryZoneName && <b className="font-medium">{order.deliveryZoneName} · </b>}{order.deliveryAddress}</span>
+          </p>
+        )}
+        <p className="flex items-center gap-1"><Phone className="h-3 w-3" />{order.customerPhone}</p>
+        {order.riderName && (
+          <p className="flex items-center gap-1 text-gray-900 dark:text-white"><Bike className="h-3 w-3" />{order.riderName}</p>
+        )}
+        {(order.assignedAt || order.outForDeliveryAt || order.deliveredAt) && (
+          <p className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {[
+              order.assignedAt && `Assigned ${formatTime(order.assignedAt)}`,
+              order.outForDeliveryAt && `Out ${formatTime(order.outForDeliveryAt)}`,
+              order.deliveredAt && `Delivered ${formatTime(order.deliveredAt)}`,
+            ].filter(Boolean).join(' · ')}
+            {minutes !== null && ` (${minutes} min)`}
+          </p>
+        )}
+      </div>
+
+      {onAdvance && advanceLabel && !isOverlay && (
+        <button
+          type="button"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onAdvance(order)}
+          className="mt-2 w-full flex items-center justify-center gap-1 text-xs font-medium text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 rounded py-1 transition-colors"
+        >
+          {advanceLabel}
+          <ChevronRight className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,18 @@
 import React, { useState, useEffect } from 'react';
-import { CreditCard, Banknote, Smartphone, Plus, X, Package, ShoppingBag, Coins } from 'lucide-react';
+import { CreditCard, Banknote, Smartphone, Plus, X, Package, ShoppingBag, Coins, Gift, UserCheck, BookOpen, Truck } from 'lucide-react';
 import { Button } from './Button';
 import { Input } from './Input';
 import { Modal } from './Modal';
 import { GlassmorphismIcon } from './GlassmorphismIcon';
-import { PaymentMethod, Rider, TransactionItem } from '../../types';
+import { DeliveryZonePicker } from './DeliveryZonePicker';
+import { Customer, PaymentMethod, Rider, TransactionItem, TaxMode } from '../../types';
+import { useCurrency } from '../../context/CurrencyContext';
+import { useStore } from '../../context/StoreContext';
+import { formatCurrency, roundCurrency } from '../../utils/formatUtils';
+import { calculateChange, convertFromBase, convertToBase, PAYMENT_TYPE_CURRENCY, toForeignPayment } from '../../utils/currencyUtils';
+import { LoyaltySettings, getRedeemablePoints, pointsToAmount } from '../../utils/customerUtils';
+import { getAvailableCredit } from '../../utils/accountUtils';
+import { quoteDelivery } from '../../utils/deliveryZoneUtils';
 
 interface EnhancedPaymentModalProps {
   isOpen: boolean;
@@ -13,9 +21,12 @@ interface EnhancedPaymentModalProps {
   cartItems: TransactionItem[];
   subtotal: number;
   taxAmount: number;
+  taxMode: TaxMode;
   discountAmount: number;
   totalAmount: number;
   riders?: Rider[];
+  customer?: Customer | null; // Customer attached at the till
+  loyalty?: LoyaltySettings;
 }
 
 export interface PaymentData {
@@ -23,8 +34,11 @@ export interface PaymentData {
   order_source: 'in-store' | 'online';
   rider_id?: string;
   delivery_fee?: number;
+  delivery_zone_id?: string;
   customer_id?: string;
   notes?: string;
+  currency: string; // Base currency the payment amounts are recorded in
+  change_amount: number;
 }
 
 export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
@@ -34,16 +48,32 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
   cartItems,
   subtotal,
   taxAmount,
+  taxMode,
   discountAmount,
-  totalAmount,
+  totalAmount: orderTotal,
   riders = [],
+  customer,
+  loyalty,
 }) => {
+  const { baseCurrency, currencies, getRate } = useCurrency();
+  const { currentStore } = useStore();
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
   const [orderSource, setOrderSource] = useState<'in_store' | 'online'>('in_store');
+  const [isDelivery, setIsDelivery] = useState(false);
+  const [deliveryZoneId, setDeliveryZoneId] = useState('');
   const [selectedRider, setSelectedRider] = useState<string>('');
   const [deliveryFee, setDeliveryFee] = useState('');
-  const [customerId, setCustomerId] = useState('');
   const [notes, setNotes] = useState('');
+
+  // Zones price the delivery automatically; a store without any still types the fee in
+  const deliveryZones = currentStore?.delivery_zones || [];
+  const deliveryZone = deliveryZones.find(zone => zone._id === deliveryZoneId);
+  const deliveryQuote = deliveryZone ? quoteDelivery(deliveryZone, orderTotal) : null;
+  const isDeliveryOrder = orderSource === 'online' && isDelivery;
+  const appliedDeliveryFee = !isDeliveryOrder
+    ? 0
+    : deliveryZones.length > 0 ? deliveryQuote?.fee ?? 0 : roundCurrency(parseFloat(deliveryFee) || 0);
+  const totalAmount = roundCurrency(orderTotal + appliedDeliveryFee);
   const [remainingAmount, setRemainingAmount] = useState(totalAmount);
 
   const orderSources = [
@@ -56,8 +86,15 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
     { id: 'pos_isbank_transfer', label: 'POS/Isbank Transfer', icon: CreditCard, color: 'blue' },
     { id: 'naira_transfer', label: 'Naira Transfer', icon: Smartphone, color: 'purple' },
     { id: 'crypto_payment', label: 'Crypto Payment', icon: Coins, color: 'orange' },
+    // Only offered to a customer the store has given a credit limit
+    ...(customer?.credit_limit ? [{ id: 'on_account', label: 'On Account', icon: BookOpen, color: 'blue' }] : []),
   ];
 
+  // Points and tabs belong to the attached customer, so drop those lines when the customer changes
+  useEffect(() => {
+    setPaymentMethods(prev => prev.filter(method => method.type !== 'loyalty_points' && method.type !== 'on_account'));
+  }, [customer?._id]);
+
   // Calculate remaining amount based on current payments
   useEffect(() => {
     const totalPaid = getTotalPaid();
@@ -77,6 +114,20 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
     setPaymentMethods([...paymentMethods, { type: 'cash', amount: newAmount }]);
   };
 
+  // Re-express a line in another currency, keeping its value in the base currency
+  const withCurrency = (method: PaymentMethod, currency: string): PaymentMethod => {
+    const rate = currency === baseCurrency ? undefined : getRate(currency);
+    const { type, amount } = method;
+    if (!rate) return { type, amount };
+    return {
+      type,
+      amount,
+      currency,
+      original_amount: convertFromBase(amount, rate),
+      exchange_rate: rate,
+    };
+  };
+
   const removePaymentMethod = (index: number) => {
     const newMethods = paymentMethods.filter((_, i) => i !== index);
     setPaymentMethods(newMethods);
@@ -103,6 +154,35 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
           newMethods[index] = { ...newMethods[index], amount: remaining };
         }
       }
+    } else if (field === 'original_amount') {
+      // Amount typed in a foreign currency; the base amount follows the line's rate
+      const method = newMethods[index];
+      const rate = method.exchange_rate || 1;
+      let originalAmount = parseFloat(value) || 0;
+
+      if (index === newMethods.length - 1 && newMethods.length > 1) {
+        const otherPaymentsTotal = newMethods
+          .filter((_, i) => i !== index)
+          .reduce((sum, other) => sum + (other.amount || 0), 0);
+        const remaining = totalAmount - otherPaymentsTotal;
+        if (convertToBase(originalAmount, rate) > remaining) {
+          originalAmount = convertFromBase(remaining, rate);
+        }
+      }
+
+      newMethods[index] = toForeignPayment(method.type, originalAmount, method.currency || baseCurrency, baseCurrency, rate);
+    } else if (field === 'currency') {
+      newMethods[index] = withCurrency(newMethods[index], value);
+    } else if (field === 'type') {
+      // Switch to the type's own currency (e.g. naira) when a rate is available
+      const typeCurrency = PAYMENT_TYPE_CURRENCY[value as PaymentMethod['type']];
+      const updated = { ...newMethods[index], type: value };
+      if (value === 'on_account') {
+        // The tab is kept in the base currency
+        newMethods[index] = withCurrency(updated, baseCurrency);
+      } else {
+        newMethods[index] = typeCurrency && currencies.includes(typeCurrency) ? withCurrency(updated, typeCurrency) : updated;
+      }
     } else {
       newMethods[index] = { ...newMethods[index], [field]: value };
     }
@@ -114,24 +194,81 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
     return paymentMethods.reduce((sum, method) => sum + (method.amount || 0), 0);
   };
 
+  // Fill a line with what's left, in the line's own currency
+  const fillRemaining = (index: number) => {
+    const method = paymentMethods[index];
+    if (method.currency && method.exchange_rate) {
+      const remainingForLine = remainingAmount + (method.amount || 0);
+      const newMethods = [...paymentMethods];
+      const originalAmount = convertFromBase(remainingForLine, method.exchange_rate);
+      // Round up so the converted amount never falls a cent short
+      const covered = convertToBase(originalAmount, method.exchange_rate) >= remainingForLine
+        ? originalAmount
+        : roundCurrency(originalAmount + 0.01);
+      newMethods[index] = { ...method, original_amount: covered, amount: convertToBase(covered, method.exchange_rate) };
+      setPaymentMethods(newMethods);
+      return;
+    }
+    updatePaymentMethod(index, 'amount', remainingAmount);
+  };
+
+  const hasRedemption = paymentMethods.some(method => method.type === 'loyalty_points');
+  const moneyMethodCount = paymentMethods.filter(method => method.type !== 'loyalty_points').length;
+  const pointsAmount = paymentMethods
+    .filter(method => method.type === 'loyalty_points')
+    .reduce((sum, method) => sum + method.amount, 0);
+  // Redeem against what is still owed, or the whole total before any payment is added
+  const redeemablePoints = customer && loyalty && !hasRedemption
+    ? getRedeemablePoints(customer.loyalty_points, paymentMethods.length > 0 ? remainingAmount : totalAmount, loyalty)
+    : 0;
+
+  const redeemPoints = () => {
+    if (!loyalty || redeemablePoints <= 0 || paymentMethods.length >= 3) return;
+    setPaymentMethods([
+      { type: 'loyalty_points', amount: pointsToAmount(redeemablePoints, loyalty), points: redeemablePoints },
+      ...paymentMethods,
+    ]);
+  };
+
   const isPaymentComplete = () => {
     const totalPaid = getTotalPaid();
     return totalPaid >= totalAmount && paymentMethods.length > 0;
   };
 
+  const onAccountAmount = paymentMethods
+    .filter(method => method.type === 'on_account')
+    .reduce((sum, method) => sum + (method.amount || 0), 0);
+  const availableCredit = customer ? getAvailableCredit(customer) : 0;
+
+  const getAccountError = (): string | null => {
+    if (onAccountAmount <= 0) return null;
+    if (onAccountAmount > availableCredit + 0.005) {
+      return `Only ${formatCurrency(availableCredit, baseCurrency)} of ${customer?.name}'s credit limit is left`;
+    }
+    if (calculateChange(totalAmount, paymentMethods) > 0) return 'Put only what is still owed on account; it cannot give change';
+    return null;
+  };
+
+  const getDeliveryError = (): string | null => {
+    if (!isDeliveryOrder || deliveryZones.length === 0) return null;
+    if (!deliveryZone) return 'Pick the delivery zone';
+    if (deliveryQuote?.below_minimum) return `Minimum order for ${deliveryZone.name} is ${formatCurrency(deliveryZone.minimum_order || 0, baseCurrency)}`;
+    return null;
+  };
+
   const canProcessPayment = () => {
-    return isPaymentComplete();
+    return isPaymentComplete() && !getAccountError() && !getDeliveryError();
   };
 
   const getPaymentButtonText = () => {
     if (!paymentMethods.length) return 'Add Payment Method';
     if (isPaymentComplete()) {
       if (remainingAmount < 0) {
-        return `Process Payment (Overpaid: ₺${Math.abs(remainingAmount).toFixed(2)})`;
+        return `Process Payment (Change: ${formatCurrency(Math.abs(remainingAmount), baseCurrency)})`;
       }
       return 'Process Payment';
     }
-    return `Pay ₺${remainingAmount.toFixed(2)} More`;
+    return `Pay ${formatCurrency(remainingAmount, baseCurrency)} More`;
   };
 
   const handleProcessPayment = async () => {
@@ -141,8 +278,13 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
       payment_methods: paymentMethods,
       // Normalize to backend-expected values (hyphenated, lowercase)
       order_source: (orderSource === 'in_store' ? 'in-store' : 'online'),
-      customer_id: customerId || undefined,
+      rider_id: isDeliveryOrder && selectedRider ? selectedRider : undefined,
+      delivery_fee: isDeliveryOrder ? appliedDeliveryFee : undefined,
+      delivery_zone_id: isDeliveryOrder ? deliveryZone?._id : undefined,
+      customer_id: customer?._id,
       notes: notes || undefined,
+      currency: baseCurrency,
+      change_amount: calculateChange(totalAmount, paymentMethods),
     };
 
     try {
@@ -150,17 +292,24 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
       // Reset form
       setPaymentMethods([]);
       setOrderSource('in_store');
-      setCustomerId('');
+      resetDelivery();
       setNotes('');
     } catch (error) {
       // Error handling is done in parent component
     }
   };
 
+  const resetDelivery = () => {
+    setIsDelivery(false);
+    setDeliveryZoneId('');
+    setSelectedRider('');
+    setDeliveryFee('');
+  };
+
   const resetForm = () => {
     setPaymentMethods([]);
     setOrderSource('in_store');
-    setCustomerId('');
+    resetDelivery();
     setNotes('');
     onClose();
   };
@@ -179,20 +328,28 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">Items ({cartItems.length}):</span>
-              <span className="font-semibold text-gray-900 dark:text-white">₺{subtotal.toFixed(2)}</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(subtotal, baseCurrency)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-600 dark:text-gray-400">Discount:</span>
-              <span className="font-semibold text-green-600 dark:text-green-400">-₺{discountAmount.toFixed(2)}</span>
+              <span className="font-semibold text-green-600 dark:text-green-400">-{formatCurrency(discountAmount, baseCurrency)}</span>
             </div>
             <div className="flex justify-between">
-              <span className="text-gray-600 dark:text-gray-400">Tax:</span>
-              <span className="font-semibold text-gray-900 dark:text-white">₺{taxAmount.toFixed(2)}</span>
+              <span className="text-gray-600 dark:text-gray-400">{taxMode === 'inclusive' ? 'Tax (included):' : 'Tax:'}</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(taxAmount, baseCurrency)}</span>
             </div>
+            {isDeliveryOrder && (
+              <div className="flex justify-between">
+                <span className="text-gray-600 dark:text-gray-400">Delivery:</span>
+                <span className="font-semibold text-gray-900 dark:text-white">
+                  {deliveryQuote?.is_free ? 'Free' : formatCurrency(appliedDeliveryFee, baseCurrency)}
+                </span>
+              </div>
+            )}
             <div className="border-t border-gray-200 dark:border-gray-700 pt-2 mt-2">
               <div className="flex justify-between">
                 <span className="font-semibold text-gray-900 dark:text-white">Total:</span>
-                <span className="font-bold text-lg text-gray-900 dark:text-white">₺{totalAmount.toFixed(2)}</span>
+                <span className="font-bold text-lg text-gray-900 dark:text-white">{formatCurrency(totalAmount, baseCurrency)}</span>
               </div>
             </div>
           </div>
@@ -229,6 +386,65 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
           </div>
         </div>
 
+        {/* Delivery */}
+        {orderSource === 'online' && (
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={isDelivery}
+                onChange={(e) => setIsDelivery(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              <Truck className="h-4 w-4" />
+              Deliver this order
+            </label>
+            {isDelivery && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {deliveryZones.length > 0 ? (
+                  <DeliveryZonePicker
+                    mode={currentStore?.delivery_zone_mode || 'area'}
+                    zones={deliveryZones}
+                    selectedZoneId={deliveryZoneId}
+                    onSelect={setDeliveryZoneId}
+                    orderValue={orderTotal}
+                    formatCurrency={(amount) => formatCurrency(amount, baseCurrency)}
+                  />
+                ) : (
+                  <Input
+                    label="Delivery Fee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={deliveryFee}
+                    onChange={(e) => setDeliveryFee(e.target.value)}
+                    helperText="Set up delivery zones in Settings to price this automatically"
+                  />
+                )}
+                <div>
+                  <label htmlFor="delivery-rider" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Rider (Optional)
+                  </label>
+                  <select
+                    id="delivery-rider"
+                    value={selectedRider}
+                    onChange={(e) => setSelectedRider(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Assign later</option>
+                    {riders.filter(rider => rider.is_active).map(rider => (
+                      <option key={rider._id} value={rider._id}>{rider.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            )}
+            {getDeliveryError() && (
+              <p className="text-sm text-red-600 dark:text-red-400">{getDeliveryError()}</p>
+            )}
+          </div>
+        )}
+
         {/* Payment Methods */}
         <div>
           <div className="flex items-center justify-between mb-3">
@@ -236,15 +452,17 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
               Payment Methods
             </label>
             <div className="flex items-center space-x-2">
-              {paymentMethods.length > 1 && (
+              {moneyMethodCount > 1 && (
                 <Button
                   variant="outline"
                   size="sm"
                   onClick={() => {
-                    const evenAmount = totalAmount / paymentMethods.length;
-                    const newMethods = paymentMethods.map(method => ({
+                    // Points keep their value; the rest is shared by the other lines
+                    const evenAmount = (totalAmount - pointsAmount) / moneyMethodCount;
+                    const newMethods = paymentMethods.map(method => method.type === 'loyalty_points' ? method : ({
                       ...method,
-                      amount: evenAmount
+                      amount: evenAmount,
+                      ...(method.exchange_rate && { original_amount: convertFromBase(evenAmount, method.exchange_rate) }),
                     }));
                     setPaymentMethods(newMethods);
                   }}
@@ -278,17 +496,43 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
                 className="mt-4"
                 size="sm"
               >
-                Add Payment Method (₺{totalAmount.toFixed(2)})
+                Add Payment Method ({formatCurrency(totalAmount, baseCurrency)})
               </Button>
             </div>
           ) : (
             <div className="space-y-3">
               {paymentMethods.map((method, index) => {
+                if (method.type === 'loyalty_points') {
+                  return (
+                    <div key={index} className="p-3 border border-amber-200 dark:border-amber-800 rounded-lg bg-amber-50 dark:bg-amber-900/20">
+                      <div className="flex items-center space-x-3">
+                        <GlassmorphismIcon icon={Gift} size="sm" variant="orange" />
+                        <div className="flex-1 text-sm">
+                          <p className="font-medium text-gray-900 dark:text-white">Loyalty Points</p>
+                          <p className="text-gray-600 dark:text-gray-400">{method.points} pts</p>
+                        </div>
+                        <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(method.amount, baseCurrency)}</span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removePaymentMethod(index)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                }
+
                 const paymentType = paymentTypes.find(pt => pt.id === method.type);
                 const Icon = paymentType?.icon || Banknote;
                 
+                const isForeign = !!method.currency && method.currency !== baseCurrency;
+                
                 return (
-                  <div key={index} className="flex items-center space-x-3 p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+                  <div key={index} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800">
+                  <div className="flex items-center space-x-3">
                     <GlassmorphismIcon
                       icon={Icon}
                       size="sm"
@@ -306,23 +550,37 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
                         <option key={pt.id} value={pt.id}>{pt.label}</option>
                       ))}
                     </select>
+
+                    {currencies.length > 1 && method.type !== 'on_account' && (
+                      <select
+                        value={method.currency || baseCurrency}
+                        onChange={(e) => updatePaymentMethod(index, 'currency', e.target.value)}
+                        title="Currency the customer pays in"
+                        aria-label="Payment currency"
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded text-sm focus:outline-none focus:ring-1 focus:ring-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        {currencies.map(code => (
+                          <option key={code} value={code}>{code}</option>
+                        ))}
+                      </select>
+                    )}
                     
                     <div className="flex-1 flex items-center space-x-2">
                       <Input
                         type="number"
-                        value={method.amount}
-                        onChange={(e) => updatePaymentMethod(index, 'amount', parseFloat(e.target.value) || 0)}
+                        value={isForeign ? method.original_amount || 0 : method.amount}
+                        onChange={(e) => updatePaymentMethod(index, isForeign ? 'original_amount' : 'amount', parseFloat(e.target.value) || 0)}
                         placeholder="Amount"
                         className="flex-1"
                         min="0"
-                        max={totalAmount}
+                        max={isForeign ? undefined : totalAmount}
                         step="0.01"
                       />
                       {remainingAmount > 0 && index === paymentMethods.length - 1 && (
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => updatePaymentMethod(index, 'amount', remainingAmount)}
+                          onClick={() => fillRemaining(index)}
                           className="text-xs px-2 py-1"
                           title="Fill remaining amount"
                         >
@@ -340,31 +598,41 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
                       <X className="h-3 w-3" />
                     </Button>
                   </div>
+                  {isForeign && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 text-right">
+                      = {formatCurrency(method.amount, baseCurrency)} at 1 {method.currency} = {method.exchange_rate} {baseCurrency}
+                    </p>
+                  )}
+                  </div>
                 );
               })}
             </div>
           )}
 
+          {getAccountError() && (
+            <p className="mt-3 text-sm text-red-600 dark:text-red-400">{getAccountError()}</p>
+          )}
+
           {/* Payment Summary */}
           {paymentMethods.length > 0 && (
             <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
               <div className="flex justify-between items-center text-sm">
                 <span className="text-gray-600 dark:text-gray-400">Total Paid:</span>
                 <span className={`font-semibold ${isPaymentComplete() ? 'text-green-600 dark:text-green-400' : 'text-orange-600 dark:text-orange-400'}`}>
-                  ₺{getTotalPaid().toFixed(2)}
+                  {formatCurrency(getTotalPaid(), baseCurrency)}
                 </span>
               </div>
               <div className="flex justify-between items-center text-sm mt-1">
                 <span className="text-gray-600 dark:text-gray-400">Remaining:</span>
                 <span className={`font-semibold ${remainingAmount <= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-                  ₺{remainingAmount.toFixed(2)}
+                  {formatCurrency(Math.max(0, remainingAmount), baseCurrency)}
                 </span>
               </div>
               {remainingAmount < 0 && (
                 <div className="flex justify-between items-center text-sm mt-1">
-                  <span className="text-gray-600 dark:text-gray-400">Overpaid:</span>
+                  <span className="text-gray-600 dark:text-gray-400">Change Due:</span>
                   <span className="font-semibold text-blue-600 dark:text-blue-400">
-                    ₺{Math.abs(remainingAmount).toFixed(2)}
+                    {formatCurrency(calculateChange(totalAmount, paymentMethods), baseCurrency)}
                   </span>
                 </div>
               )}
@@ -380,13 +648,36 @@ export const EnhancedPaymentModal: React.FC<EnhancedPaymentModalProps> = ({
           )}
         </div>
 
-        {/* Customer ID */}
-        <Input
-          label="Customer ID (Optional)"
-          value={customerId}
-          onChange={(e) => setCustomerId(e.target.value)}
-          placeholder="Enter customer ID"
-        />
+        {/* Customer */}
+        {customer ? (
+          <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+            <div className="flex items-center space-x-3 min-w-0">
+              <UserCheck className="h-5 w-5 text-primary-600 dark:text-primary-400 flex-shrink-0" />
+              <div className="min-w-0 text-sm">
+                <p className="font-medium text-gray-900 dark:text-white truncate">{customer.name}</p>
+                <p className="text-gray-600 dark:text-gray-400">
+                  {customer.phone} · {customer.loyalty_points || 0} pts
+                  {loyalty && customer.loyalty_points > 0 && ` (${formatCurrency(pointsToAmount(customer.loyalty_points, loyalty), baseCurrency)})`}
+                </p>
+                {!!customer.credit_limit && (
+                  <p className="text-gray-600 dark:text-gray-400">
+                    Owes {formatCurrency(customer.account_balance || 0, baseCurrency)} · {formatCurrency(availableCredit, baseCurrency)} credit left
+                  </p>
+                )}
+              </div>
+            </div>
+            {redeemablePoints > 0 && paymentMethods.length < 3 && (
+              <Button variant="outline" size="sm" onClick={redeemPoints} className="flex-shrink-0">
+                <Gift className="h-3 w-3 mr-1" />
+                Redeem {redeemablePoints} pts
+              </Button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No customer attached. Attach one from the till to earn loyalty points.
+          </p>
+        )}
 
         {/* Notes */}
         <div>
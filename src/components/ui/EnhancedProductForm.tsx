@@ -6,6 +6,7 @@ import { NumberInput } from './NumberInput';
 import { Button } from './Button';
 import CategorySelect from './CategorySelect';
 import { TagsDropdown } from './TagsDropdown';
+import { TaxClass } from '../../types';
 
 interface ProductFormData {
   name: string;
@@ -18,6 +19,8 @@ interface ProductFormData {
   description: string;
   sku: string;
   tags: string[];
+  tax_class_id: string;
+  track_batches: boolean;
 }
 
 interface FieldValidation {
@@ -44,6 +47,7 @@ interface EnhancedProductFormProps {
   existingProducts?: any[];
   existingCategories?: string[];
   existingTags?: string[];
+  taxClasses?: TaxClass[];
 }
 
 export const EnhancedProductForm: React.FC<EnhancedProductFormProps> = ({
@@ -53,7 +57,8 @@ export const EnhancedProductForm: React.FC<EnhancedProductFormProps> = ({
   isSubmitting,
   existingProducts = [],
   existingCategories = [],
-  existingTags = []
+  existingTags = [],
+  taxClasses = []
 }) => {
   const [formData, setFormData] = useState<ProductFormData>({
     name: '',
@@ -66,6 +71,8 @@ export const EnhancedProductForm: React.FC<EnhancedProductFormProps> = ({
     description: '',
     sku: '',
     tags: [],
+    tax_class_id: '',
+    track_batches: false,
     ...initialData
   });
 
@@ -494,10 +501,41 @@ export const EnhancedProductForm: React.FC<EnhancedProductFormProps> = ({
             >
               <option value="piece">Piece</option>
               <option value="kg">Kg</option>
+              <option value="g">Gram</option>
+              <option value="l">Litre</option>
             </select>
           </div>
+
+          {/* Tax Class */}
+          {taxClasses.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Tax Class
+              </label>
+              <select
+                value={formData.tax_class_id}
+                onChange={(e) => handleInputChange('tax_class_id', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:border-gray-400 dark:focus:border-gray-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-white transition-colors duration-200"
+                aria-label="Select tax class"
+              >
+                <option value="">Category default</option>
+                {taxClasses.map(taxClass => (
+                  <option key={taxClass._id} value={taxClass._id}>{taxClass.name} ({taxClass.rate}%)</option>
+                ))}
+              </select>
+            </div>
+          )}
         </div>
 
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={formData.track_batches}
+            onChange={(e) => setFormData(prev => ({ ...prev, track_batches: e.target.checked }))}
+          />
+          Track batches and expiry dates (sold first-expiry-first-out)
+        </label>
+
         {/* Description */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
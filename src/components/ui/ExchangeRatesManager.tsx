@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { useCurrency } from '../../context/CurrencyContext';
+import {
+  CURRENCY_OPTIONS,
+  isValidCurrencyCode,
+  normalizeCurrencyCode,
+  parseExchangeRateCsv,
+  toDateKey,
+} from '../../utils/currencyUtils';
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200';
+
+export const ExchangeRatesManager: React.FC = () => {
+  const { baseCurrency, rates, isLoading, getRate, addRate, importRates, deleteRate } = useCurrency();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [currency, setCurrency] = useState(CURRENCY_OPTIONS.find(option => option.code !== baseCurrency)?.code || 'USD');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(toDateKey());
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sortedRates = useMemo(
+    () => [...rates].sort((a, b) => b.effective_date.localeCompare(a.effective_date) || a.currency.localeCompare(b.currency)),
+    [rates]
+  );
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = normalizeCurrencyCode(currency);
+    const value = Number(rate);
+    if (!isValidCurrencyCode(code) || code === baseCurrency) {
+      toast.error(`Choose a currency other than ${baseCurrency}`);
+      return;
+    }
+    if (!(value > 0)) {
+      toast.error('Rate must be greater than zero');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await addRate({ currency: code, rate: value, effective_date: effectiveDate });
+      setRate('');
+    } catch {
+      // Toast shown by the context
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: parsed, errors } = parseExchangeRateCsv(await file.text());
+    const usable = parsed.filter(entry => entry.currency !== baseCurrency);
+    if (errors.length > 0) {
+      toast.error(`${errors.length} row${errors.length === 1 ? '' : 's'} skipped. ${errors[0]}`);
+    }
+    if (usable.length === 0) {
+      toast.error('No exchange rates found in file');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await importRates(usable);
+    } catch {
+      // Toast shown by the context
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Currency</label>
+          <input
+            type="text"
+            list="exchange-rate-currencies"
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value.toUpperCase())}
+            maxLength={3}
+            className={inputClassName}
+            title="ISO currency code, e.g. USD"
+          />
+          <datalist id="exchange-rate-currencies">
+            {CURRENCY_OPTIONS.filter(option => option.code !== baseCurrency).map(option => (
+              <option key={option.code} value={option.code}>{option.label}</option>
+            ))}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            {baseCurrency} per 1 {normalizeCurrencyCode(currency) || '…'}
+          </label>
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            className={inputClassName}
+            placeholder={getRate(currency) ? String(getRate(currency)) : 'e.g. 34.25'}
+            title="Exchange rate"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Effective From</label>
+          <input
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            className={inputClassName}
+            title="Date the rate applies from"
+            required
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button type="submit" size="sm" loading={isSaving} className="flex-1">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Rate
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isSaving}>
+            <Upload className="h-4 w-4 mr-1" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            onChange={handleImport}
+            className="hidden"
+            aria-label="Import exchange rates CSV"
+          />
+        </div>
+      </form>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Import a CSV with the columns currency, rate, effective_date (YYYY-MM-DD). Each payment uses the latest rate in effect on the day of the sale.
+      </p>
+
+      {isLoading && rates.length === 0 ? (
+        <div className="flex items-center justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : sortedRates.length === 0 ? (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">
+          No exchange rates yet. Payments can only be taken in {baseCurrency}.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Currency</th>
+                <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Rate</th>
+                <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Effective From</th>
+                <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Source</th>
+                <th className="py-2 px-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRates.map(entry => (
+                <tr key={entry._id} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="py-2 px-3 text-sm font-medium text-gray-900 dark:text-white">{entry.currency}</td>
+                  <td className="py-2 px-3 text-sm text-gray-600 dark:text-gray-400 text-right">
+                    {entry.rate} {entry.base_currency}
+                  </td>
+                  <td className="py-2 px-3 text-sm text-gray-600 dark:text-gray-400">{entry.effective_date}</td>
+                  <td className="py-2 px-3 text-sm text-gray-600 dark:text-gray-400 capitalize">{entry.source}</td>
+                  <td className="py-2 px-3 text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteRate(entry._id).catch(() => undefined)}
+                      className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                      title="Delete exchange rate"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
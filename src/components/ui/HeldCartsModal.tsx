@@ -0,0 +1,88 @@
+import React from 'react';
+import { ShoppingCart, Trash2, RotateCcw, Clock } from 'lucide-react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { HeldCart } from '../../types';
+import { useLocale } from '../../hooks/useLocale';
+import { formatCurrency } from '../../utils/formatUtils';
+import { getHeldCartTotal } from '../../utils/heldCartUtils';
+
+interface HeldCartsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  heldCarts: HeldCart[];
+  expiryHours: number;
+  onRecall: (cart: HeldCart) => void;
+  onDiscard: (cart: HeldCart) => void;
+}
+
+export const HeldCartsModal: React.FC<HeldCartsModalProps> = ({
+  isOpen,
+  onClose,
+  heldCarts,
+  expiryHours,
+  onRecall,
+  onDiscard,
+}) => {
+  const { formatTime } = useLocale();
+
+  const formatExpiry = (heldAt: string) =>
+    formatTime(new Date(new Date(heldAt).getTime() + expiryHours * 60 * 60 * 1000));
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Held Carts" size="md">
+      {heldCarts.length === 0 ? (
+        <div className="text-center py-8">
+          <ShoppingCart className="h-10 w-10 text-gray-400 dark:text-gray-500 mx-auto mb-3" />
+          <p className="text-sm text-gray-500 dark:text-gray-400">No carts on hold</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {heldCarts.map(cart => {
+            const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+            return (
+              <div
+                key={cart.id}
+                className="p-4 rounded-xl border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{cart.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                      {itemCount} {itemCount === 1 ? 'item' : 'items'}
+                      {parseFloat(cart.discount) > 0 && ` · ${formatCurrency(parseFloat(cart.discount))} discount`}
+                      {cart.customer_name && ` · ${cart.customer_name}`}
+                    </p>
+                    {cart.note && (
+                      <p className="text-xs text-gray-600 dark:text-gray-300 mt-1 italic">{cart.note}</p>
+                    )}
+                  </div>
+                  <span className="text-sm font-bold text-gray-900 dark:text-white flex-shrink-0">
+                    {formatCurrency(getHeldCartTotal(cart))}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between mt-3">
+                  <span className="flex items-center text-xs text-gray-500 dark:text-gray-400">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Held {formatTime(cart.held_at)}
+                    {expiryHours > 0 && ` · expires ${formatExpiry(cart.held_at)}`}
+                  </span>
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => onDiscard(cart)}>
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Discard
+                    </Button>
+                    <Button size="sm" onClick={() => onRecall(cart)}>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Recall
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, Trash2, Clock } from 'lucide-react';
+import { useApp } from '../../context/AppContext';
+import { useLocale } from '../../hooks/useLocale';
+import { formatCurrency } from '../../utils/formatUtils';
+
+export const OfflineQueueIndicator: React.FC = () => {
+  const { isOnline, outboxEntries, syncOutbox, retryOutboxEntry, discardOutboxEntry } = useApp();
+  const { formatTime } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const pendingCount = outboxEntries.filter(entry => entry.status !== 'failed').length;
+  const failedCount = outboxEntries.filter(entry => entry.status === 'failed').length;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  // Nothing to show while online with an empty queue
+  if (isOnline && outboxEntries.length === 0) {
+    return null;
+  }
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncOutbox();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDiscard = async (id: string) => {
+    if (!window.confirm('Discard this offline sale? It will not be recorded and its stock will be released.')) {
+      return;
+    }
+    await discardOutboxEntry(id);
+  };
+
+  const badgeClasses = failedCount > 0
+    ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-200 dark:border-red-800'
+    : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800';
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center space-x-2 px-3 py-1.5 rounded-xl border text-xs font-medium transition-colors ${badgeClasses}`}
+        title="Offline sales queue"
+      >
+        {isOnline ? <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} /> : <CloudOff className="h-4 w-4" />}
+        <span className="hidden sm:inline">{isOnline ? 'Sync queue' : 'Offline'}</span>
+        {pendingCount > 0 && <span>{pendingCount} pending</span>}
+        {failedCount > 0 && <span>{failedCount} failed</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white/95 dark:bg-gray-800/95 backdrop-blur-md rounded-xl shadow-xl border border-white/20 dark:border-gray-700/50 z-50">
+          <div className="px-4 py-3 border-b border-gray-100 dark:border-gray-700 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-gray-900 dark:text-white">Offline Sales</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {isOnline ? 'Connected - queued sales replay in order' : 'No connection - sales are saved on this device'}
+              </p>
+            </div>
+            {isOnline && pendingCount > 0 && (
+              <button
+                onClick={handleSyncNow}
+                disabled={isSyncing}
+                className="text-xs px-2 py-1 rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50"
+              >
+                {isSyncing ? 'Syncing...' : 'Sync now'}
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {outboxEntries.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">No queued sales</p>
+            ) : (
+              outboxEntries.map(entry => (
+                <div key={entry.id} className="px-4 py-3 border-b border-gray-100 dark:border-gray-700 last:border-b-0">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      {entry.status === 'failed' ? (
+                        <AlertTriangle className="h-4 w-4 text-red-500" />
+                      ) : (
+                        <Clock className="h-4 w-4 text-amber-500" />
+                      )}
+                      <span className="text-sm font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(entry.total_amount)}
+                      </span>
+                    </div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatTime(entry.created_at)}
+                    </span>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {entry.stock_adjustments.length} {entry.stock_adjustments.length === 1 ? 'item' : 'items'}
+                    {' · '}
+                    {entry.status === 'failed' ? (entry.transaction_id ? 'Sale recorded, stock not synced' : 'Rejected by server') : entry.status === 'syncing' ? 'Syncing...' : 'Waiting to sync'}
+                  </p>
+                  {entry.status === 'failed' && (
+                    <>
+                      {entry.last_error && (
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-1">{entry.last_error}</p>
+                      )}
+                      <div className="flex justify-end space-x-2 mt-2">
+                        <button
+                          onClick={() => retryOutboxEntry(entry.id)}
+                          className="flex items-center text-xs px-2 py-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          <RefreshCw className="h-3 w-3 mr-1" />
+                          Retry
+                        </button>
+                        {!entry.transaction_id && (
+                          <button
+                            onClick={() => handleDiscard(entry.id)}
+                            className="flex items-center text-xs px-2 py-1 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+                          >
+                            <Trash2 className="h-3 w-3 mr-1" />
+                            Discard
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
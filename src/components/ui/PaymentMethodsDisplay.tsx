@@ -1,5 +1,5 @@
 import React from 'react';
-import { CreditCard, Banknote, Smartphone, Coins } from 'lucide-react';
+import { CreditCard, Banknote, Smartphone, Coins, Gift, BookOpen } from 'lucide-react';
 import { PaymentMethod } from '../../types';
 
 interface PaymentMethodsDisplayProps {
@@ -53,6 +53,20 @@ export const PaymentMethodsDisplay: React.FC<PaymentMethodsDisplayProps> = ({
       bgColor: 'bg-orange-100 dark:bg-orange-900/30',
       textColor: 'text-orange-800 dark:text-orange-300'
     },
+    loyalty_points: { 
+      label: 'Loyalty Points', 
+      icon: Gift, 
+      color: 'amber',
+      bgColor: 'bg-amber-100 dark:bg-amber-900/30',
+      textColor: 'text-amber-800 dark:text-amber-300'
+    },
+    on_account: { 
+      label: 'On Account', 
+      icon: BookOpen, 
+      color: 'indigo',
+      bgColor: 'bg-indigo-100 dark:bg-indigo-900/30',
+      textColor: 'text-indigo-800 dark:text-indigo-300'
+    },
     // Legacy support for backward compatibility
     card: { 
       label: 'POS', 
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Layers, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useStore } from '../../context/StoreContext';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { ProductBatch } from '../../types';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import { getCurrentDateString } from '../../utils/timezoneUtils';
+import {
+  BatchExpiryStatus,
+  DEFAULT_EXPIRY_ALERT_DAYS,
+  daysUntilExpiry,
+  getBatchExpiryStatus,
+  getUnbatchedQuantity,
+  sortBatchesFefo,
+} from '../../utils/batchUtils';
+
+interface ProductBatchesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: { _id: string; name: string; unit?: string; stock_quantity: number; cost_price?: number } | null;
+  onChanged?: () => void;
+}
+
+const statusClasses: Record<BatchExpiryStatus, string> = {
+  expired: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  expiring_soon: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  ok: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  no_expiry: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+const emptyForm = { batch_number: '', quantity: '', expiry_date: '', cost_price: '' };
+
+export const ProductBatchesModal: React.FC<ProductBatchesModalProps> = ({
+  isOpen,
+  onClose,
+  product,
+  onChanged
+}) => {
+  const { currentStore } = useStore();
+  const { formatDate, formatCurrency } = useLocale();
+  const [batches, setBatches] = useState<ProductBatch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const productId = product?._id;
+  const alertDays = currentStore?.expiry_alert_days ?? DEFAULT_EXPIRY_ALERT_DAYS;
+  const today = getCurrentDateString();
+
+  const loadBatches = useCallback(async () => {
+    if (!productId) return;
+    setIsLoading(true);
+    try {
+      setBatches(sortBatchesFefo(await apiService.getProductBatches(productId)));
+    } catch (error) {
+      console.error('Failed to load batches:', error);
+      toast.error('Failed to load batches');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm({ ...emptyForm, cost_price: product?.cost_price ? String(product.cost_price) : '' });
+    loadBatches();
+  }, [isOpen, loadBatches, product?.cost_price]);
+
+  if (!product) return null;
+
+  const openBatches = batches.filter(batch => batch.quantity > 0);
+  const unbatched = getUnbatchedQuantity(product.stock_quantity, openBatches);
+
+  const handleAdd = async () => {
+    const quantity = parseFloat(form.quantity);
+    if (!form.batch_number.trim()) {
+      toast.error('Enter a batch or lot number');
+      return;
+    }
+    if (!(quantity > 0)) {
+      toast.error('Enter the quantity received');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await apiService.createProductBatch(product._id, {
+        batch_number: form.batch_number.trim(),
+        quantity,
+        expiry_date: form.expiry_date || undefined,
+        cost_price: form.cost_price ? parseFloat(form.cost_price) : undefined,
+      });
+      toast.success(`Batch ${form.batch_number.trim()} added`);
+      setForm({ ...emptyForm, cost_price: form.cost_price });
+      await loadBatches();
+      onChanged?.();
+    } catch (error: any) {
+      console.error('Failed to add batch:', error);
+      toast.error(error.message || 'Failed to add batch');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleWriteOff = async (batch: ProductBatch) => {
+    if (!window.confirm(`Write off the remaining ${formatStockQuantity(batch.quantity)} ${product.unit || 'units'} of batch ${batch.batch_number}?`)) return;
+    setBusyId(batch._id);
+    try {
+      await apiService.writeOffProductBatch(product._id, batch._id, batch.expiry_date ? `Expired ${batch.expiry_date}` : undefined);
+      toast.success(`Batch ${batch.batch_number} written off`);
+      await loadBatches();
+      onChanged?.();
+    } catch (error: any) {
+      console.error('Failed to write off batch:', error);
+      toast.error(error.message || 'Failed to write off batch');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const statusLabel = (batch: ProductBatch, status: BatchExpiryStatus) => {
+    if (status === 'no_expiry' || !batch.expiry_date) return 'No expiry';
+    const days = daysUntilExpiry(batch.expiry_date, today);
+    if (status === 'expired') return `Expired ${-days}d ago`;
+    return days === 0 ? 'Expires today' : `${days}d left`;
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Batches - ${product.name}`}
+      size="xl"
+      headerIcon={<Layers className="h-5 w-5" />}
+    >
+      <div className="space-y-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Sales use the batch that expires first. {unbatched > 0 && (
+            <span className="text-amber-700 dark:text-amber-300">
+              {formatStockQuantity(unbatched)} {product.unit} in stock is not assigned to a batch.
+            </span>
+          )}
+        </p>
+
+        {isLoading && batches.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">Loading batches...</p>
+        ) : openBatches.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">No batches with stock left.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  <th className="py-2 px-2 text-left">Batch</th>
+                  <th className="py-2 px-2 text-right">Remaining</th>
+                  <th className="py-2 px-2 text-left">Expiry</th>
+                  <th className="py-2 px-2 text-right">Cost</th>
+                  <th className="py-2 px-2 text-left">Received</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {openBatches.map((batch, index) => {
+                  const status = getBatchExpiryStatus(batch, today, alertDays);
+                  return (
+                    <tr key={batch._id} className="border-b border-gray-100 dark:border-gray-700 text-sm text-gray-900 dark:text-white">
+                      <td className="py-2 px-2">
+                        <span className="font-mono">{batch.batch_number}</span>
+                        {index === 0 && <span className="ml-2 text-xs text-primary-600 dark:text-primary-400">sells next</span>}
+                      </td>
+                      <td className="py-2 px-2 text-right">{formatStockQuantity(batch.quantity)} {product.unit}</td>
+                      <td className="py-2 px-2">
+                        {batch.expiry_date && <span className="mr-2">{formatDate(batch.expiry_date)}</span>}
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[status]}`}>
+                          {statusLabel(batch, status)}
+                        </span>
+                      </td>
+                      <td className="py-2 px-2 text-right">{batch.cost_price !== undefined ? formatCurrency(batch.cost_price) : '—'}</td>
+                      <td className="py-2 px-2 text-gray-500 dark:text-gray-400">{formatDate(batch.received_at)}</td>
+                      <td className="py-2 px-2 text-right">
+                        <button
+                          type="button"
+                          onClick={() => handleWriteOff(batch)}
+                          disabled={busyId === batch._id}
+                          className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-50"
+                          title="Write off batch"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Receive a batch</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Input
+              label="Batch / Lot"
+              value={form.batch_number}
+              onChange={(e) => setForm(prev => ({ ...prev, batch_number: e.target.value }))}
+              placeholder="e.g. L2406A"
+            />
+            <Input
+              label="Quantity"
+              type="number"
+              min={0}
+              step="any"
+              value={form.quantity}
+              onChange={(e) => setForm(prev => ({ ...prev, quantity: e.target.value }))}
+            />
+            <Input
+              label="Expiry Date"
+              type="date"
+              value={form.expiry_date}
+              onChange={(e) => setForm(prev => ({ ...prev, expiry_date: e.target.value }))}
+            />
+            <Input
+              label="Unit Cost"
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.cost_price}
+              onChange={(e) => setForm(prev => ({ ...prev, cost_price: e.target.value }))}
+            />
+          </div>
+          <div className="flex justify-end mt-3">
+            <Button onClick={handleAdd} loading={isSaving} disabled={isSaving}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Batch
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -1,8 +1,10 @@
 import React from 'react';
-import { Package, AlertTriangle, CheckSquare, Square, DollarSign, History, Edit3, Trash2, Plus, Tag } from 'lucide-react';
+import { Package, AlertTriangle, CheckSquare, Square, DollarSign, History, Edit3, Trash2, Plus, Tag, ListOrdered, Boxes } from 'lucide-react';
 import { Product } from '../../types';
 import { formatTagsForDisplay } from '../../utils/tagUtils';
 import { formatStockQuantity } from '../../utils/formatUtils';
+import { isSoldByWeight, formatUnitLabel } from '../../utils/scaleBarcodeUtils';
+import { summarizeVariants } from '../../utils/variantUtils';
 
 interface ProductCardProps {
   product: Product;
@@ -11,6 +13,9 @@ interface ProductCardProps {
   onAddToCart?: (product: Product) => void;
   onPriceUpdate?: (product: Product) => void;
   onPriceHistory?: (product: Product) => void;
+  onStockHistory?: (product: Product) => void;
+  onVariants?: (product: Product) => void;
+  variants?: Product[]; // When set, the card stands for a parent and shows its variants' price range and stock
   showActions?: boolean;
   showStockAlert?: boolean;
   isSelected?: boolean;
@@ -27,6 +32,9 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   onAddToCart,
   onPriceUpdate,
   onPriceHistory,
+  onStockHistory,
+  onVariants,
+  variants,
   showActions = true,
   showStockAlert = true,
   isSelected = false,
@@ -35,8 +43,10 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   showPriceActions = false,
   searchTerm = '',
 }) => {
-  const isLowStock = product.stock_quantity <= product.min_stock_level;
-  const isOutOfStock = product.stock_quantity === 0;
+  const variantSummary = variants && variants.length > 0 ? summarizeVariants(variants) : null;
+  const stockQuantity = variantSummary ? variantSummary.stock_quantity : product.stock_quantity;
+  const isLowStock = stockQuantity <= product.min_stock_level;
+  const isOutOfStock = stockQuantity === 0;
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('tr-TR', {
@@ -142,15 +152,30 @@ export const ProductCard: React.FC<ProductCardProps> = ({
             <span className="px-3 py-1 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-full text-xs font-semibold shadow-sm">
               {product.category}
             </span>
-            <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">{product.unit}</span>
+            {variantSummary ? (
+              <span className="inline-flex items-center text-xs text-primary-600 dark:text-primary-400 font-medium">
+                <Boxes className="h-3 w-3 mr-1" />
+                {variantSummary.count} variant{variantSummary.count === 1 ? '' : 's'}
+              </span>
+            ) : (
+              <span className="text-xs text-gray-500 dark:text-gray-400 font-medium">{product.unit}</span>
+            )}
           </div>
         </div>
         
         {/* Price & Stock */}
         <div className="flex items-center justify-between">
-          <span className="text-2xl font-bold bg-gradient-to-r from-primary-600 to-primary-700 dark:from-primary-400 dark:to-primary-500 bg-clip-text text-transparent">
-            {formatPrice(product.price)}
-          </span>
+          <div>
+            {variantSummary && variantSummary.min_price !== variantSummary.max_price && (
+              <span className="mr-1 text-sm font-medium text-gray-500 dark:text-gray-400">from</span>
+            )}
+            <span className="text-2xl font-bold bg-gradient-to-r from-primary-600 to-primary-700 dark:from-primary-400 dark:to-primary-500 bg-clip-text text-transparent">
+              {formatPrice(variantSummary ? variantSummary.min_price : product.price)}
+            </span>
+            {isSoldByWeight(product) && (
+              <span className="ml-1 text-sm font-medium text-gray-500 dark:text-gray-400">/ {formatUnitLabel(product.unit)}</span>
+            )}
+          </div>
           <div className="text-right">
             <div className="text-xs text-gray-500 dark:text-gray-400 font-medium mb-1">Stock</div>
             <span className={`text-sm font-bold px-2 py-1 rounded-full ${
@@ -160,7 +185,7 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                   ? 'bg-amber-100 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400' 
                   : 'bg-green-100 dark:bg-green-900/20 text-green-700 dark:text-green-400'
             }`}>
-              {formatStockQuantity(product.stock_quantity)}
+              {formatStockQuantity(stockQuantity)}
             </span>
           </div>
         </div>
@@ -220,6 +245,26 @@ export const ProductCard: React.FC<ProductCardProps> = ({
                   Add to Cart
                 </button>
               )}
+              {onVariants && (
+                <button
+                  onClick={() => onVariants(product)}
+                  className="px-3 py-2.5 border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-700 hover:border-gray-300 dark:hover:border-gray-500 transition-all duration-200 hover:scale-105"
+                  aria-label="Variants"
+                  title="Variants"
+                >
+                  <Boxes className="h-4 w-4" />
+                </button>
+              )}
+              {onStockHistory && !variantSummary && (
+                <button
+                  onClick={() => onStockHistory(product)}
+                  className="px-3 py-2.5 border border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400 rounded-xl hover:bg-gray-50 dark:hover:bg-gray-700 hover:border-gray-300 dark:hover:border-gray-500 transition-all duration-200 hover:scale-105"
+                  aria-label="Stock movements"
+                  title="Stock movements"
+                >
+                  <ListOrdered className="h-4 w-4" />
+                </button>
+              )}
               {onEdit && (
                 <button
                   onClick={() => onEdit(product)}
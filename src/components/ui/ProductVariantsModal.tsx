@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react';
+import { Boxes, Plus, Trash2, Wand2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { apiService } from '../../services/api';
+import { Product, ProductVariantInput, ProductVariantOption } from '../../types';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import {
+  buildVariantCombinations,
+  buildVariantName,
+  findVariant,
+  getVariantLabel,
+  getVariantOptions,
+} from '../../utils/variantUtils';
+
+interface ProductVariantsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parent: Product | null;
+  variants: Product[];
+  onSaved?: () => void;
+}
+
+interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+interface VariantRow {
+  key: string;
+  _id?: string;
+  variant_attributes: Record<string, string>;
+  sku: string;
+  barcode: string;
+  price: string;
+  cost_price: string;
+  stock_quantity: string;
+  current_stock?: number;
+}
+
+const MAX_OPTIONS = 3;
+
+const toOptions = (drafts: OptionDraft[]): ProductVariantOption[] =>
+  drafts
+    .map(draft => ({
+      name: draft.name.trim(),
+      values: Array.from(new Set(draft.values.split(',').map(value => value.trim()).filter(Boolean))),
+    }))
+    .filter(option => option.name && option.values.length > 0);
+
+const toSkuPart = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '');
+
+export const ProductVariantsModal: React.FC<ProductVariantsModalProps> = ({
+  isOpen,
+  onClose,
+  parent,
+  variants,
+  onSaved
+}) => {
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>([]);
+  const [rows, setRows] = useState<VariantRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !parent) return;
+    const options = getVariantOptions(variants, parent.variant_options);
+    setOptionDrafts(options.length > 0
+      ? options.map(option => ({ name: option.name, values: option.values.join(', ') }))
+      : [{ name: 'Size', values: '' }]);
+    setRows(variants.map(variant => ({
+      key: variant._id,
+      _id: variant._id,
+      variant_attributes: variant.variant_attributes || {},
+      sku: variant.sku,
+      barcode: variant.barcode || '',
+      price: String(variant.price),
+      cost_price: variant.cost_price !== undefined ? String(variant.cost_price) : '',
+      stock_quantity: '',
+      current_stock: variant.stock_quantity,
+    })));
+    // Only reset when the modal opens, not on every product refresh behind it
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, parent?._id]);
+
+  if (!parent) return null;
+
+  const options = toOptions(optionDrafts);
+
+  const updateDraft = (index: number, field: keyof OptionDraft, value: string) => {
+    setOptionDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, [field]: value } : draft)));
+  };
+
+  const updateRow = (key: string, field: keyof VariantRow, value: string) => {
+    setRows(prev => prev.map(row => (row.key === key ? { ...row, [field]: value } : row)));
+  };
+
+  const handleGenerate = () => {
+    const missing = buildVariantCombinations(options).filter(combination => !findVariant(rows, combination));
+    if (missing.length === 0) {
+      toast('Every combination already has a variant');
+      return;
+    }
+    setRows(prev => [
+      ...prev,
+      ...missing.map(combination => ({
+        key: `new-${Object.values(combination).join('-')}-${Date.now()}`,
+        variant_attributes: combination,
+        sku: [parent.sku, ...Object.values(combination).map(toSkuPart)].filter(Boolean).join('-'),
+        barcode: '',
+        price: String(parent.price),
+        cost_price: parent.cost_price !== undefined ? String(parent.cost_price) : '',
+        stock_quantity: '0',
+      })),
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (options.length === 0) {
+      toast.error('Add at least one option with values, e.g. Size: S, M, L');
+      return;
+    }
+    const invalid = rows.find(row => !row.sku.trim() || !(parseFloat(row.price) >= 0));
+    if (invalid) {
+      toast.error(`${getVariantLabel(invalid.variant_attributes, options)} needs a SKU and a price`);
+      return;
+    }
+
+    const payload: ProductVariantInput[] = rows.map(row => ({
+      _id: row._id,
+      name: buildVariantName(parent.name, row.variant_attributes, options),
+      variant_attributes: row.variant_attributes,
+      sku: row.sku.trim(),
+      barcode: row.barcode.trim() || undefined,
+      price: parseFloat(row.price),
+      cost_price: row.cost_price ? parseFloat(row.cost_price) : undefined,
+      stock_quantity: row._id ? undefined : parseFloat(row.stock_quantity) || 0,
+    }));
+
+    setIsSaving(true);
+    try {
+      await apiService.saveProductVariants(parent._id, { variant_options: options, variants: payload });
+      toast.success(`${payload.length} variant${payload.length === 1 ? '' : 's'} saved`);
+      onSaved?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save variants:', error);
+      toast.error(error.message || 'Failed to save variants');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Variants - ${parent.name}`}
+      size="2xl"
+      headerIcon={<Boxes className="h-5 w-5" />}
+    >
+      <div className="space-y-6">
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Options</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Each variant has its own SKU, barcode, price, cost and stock. Separate values with commas.
+          </p>
+          <div className="space-y-2">
+            {optionDrafts.map((draft, index) => (
+              <div key={index} className="grid grid-cols-[1fr_2fr_auto] gap-2 items-end">
+                <Input
+                  label={index === 0 ? 'Option' : undefined}
+                  value={draft.name}
+                  onChange={(e) => updateDraft(index, 'name', e.target.value)}
+                  placeholder="e.g. Colour"
+                />
+                <Input
+                  label={index === 0 ? 'Values' : undefined}
+                  value={draft.values}
+                  onChange={(e) => updateDraft(index, 'values', e.target.value)}
+                  placeholder="e.g. Red, Blue, Black"
+                />
+                <button
+                  type="button"
+                  onClick={() => setOptionDrafts(prev => prev.filter((_, i) => i !== index))}
+                  className="p-2 mb-1 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                  title="Remove option"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2 mt-3">
+            {optionDrafts.length < MAX_OPTIONS && (
+              <Button variant="outline" size="sm" onClick={() => setOptionDrafts(prev => [...prev, { name: '', values: '' }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Option
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={handleGenerate} disabled={options.length === 0}>
+              <Wand2 className="h-4 w-4 mr-1" />
+              Generate Variants
+            </Button>
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">
+            No variants yet. Set up the options and generate them.
+          </p>
+        ) : (
+          <div className="overflow-x-auto max-h-[24rem]">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  <th className="py-2 px-2 text-left">Variant</th>
+                  <th className="py-2 px-2 text-left">SKU</th>
+                  <th className="py-2 px-2 text-left">Barcode</th>
+                  <th className="py-2 px-2 text-right">Price</th>
+                  <th className="py-2 px-2 text-right">Cost</th>
+                  <th className="py-2 px-2 text-right">Stock</th>
+                  <th className="py-2 px-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.key} className="border-b border-gray-100 dark:border-gray-700 text-sm">
+                    <td className="py-2 px-2 font-medium text-gray-900 dark:text-white whitespace-nowrap">
+                      {getVariantLabel(row.variant_attributes, options)}
+                      {!row._id && <span className="ml-2 text-xs text-primary-600 dark:text-primary-400">new</span>}
+                    </td>
+                    <td className="py-2 px-2">
+                      <Input value={row.sku} onChange={(e) => updateRow(row.key, 'sku', e.target.value)} aria-label="SKU" />
+                    </td>
+                    <td className="py-2 px-2">
+                      <Input value={row.barcode} onChange={(e) => updateRow(row.key, 'barcode', e.target.value)} aria-label="Barcode" />
+                    </td>
+                    <td className="py-2 px-2 w-28">
+                      <Input type="number" min={0} step="0.01" value={row.price} onChange={(e) => updateRow(row.key, 'price', e.target.value)} aria-label="Price" />
+                    </td>
+                    <td className="py-2 px-2 w-28">
+                      <Input type="number" min={0} step="0.01" value={row.cost_price} onChange={(e) => updateRow(row.key, 'cost_price', e.target.value)} aria-label="Cost" />
+                    </td>
+                    <td className="py-2 px-2 w-24 text-right text-gray-900 dark:text-white">
+                      {row._id ? (
+                        formatStockQuantity(row.current_stock || 0)
+                      ) : (
+                        <Input type="number" min={0} step="any" value={row.stock_quantity} onChange={(e) => updateRow(row.key, 'stock_quantity', e.target.value)} aria-label="Opening stock" />
+                      )}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {!row._id && (
+                        <button
+                          type="button"
+                          onClick={() => setRows(prev => prev.filter(r => r.key !== row.key))}
+                          className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                          title="Remove variant"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isSaving || rows.length === 0}>
+            Save Variants
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
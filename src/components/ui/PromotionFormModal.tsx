@@ -0,0 +1,414 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Tag, Trash2 } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { apiService } from '../../services/api';
+import { Product, Promotion, PromotionBundleItem, PromotionType } from '../../types';
+import { PROMOTION_TYPE_LABELS, WEEKDAY_LABELS } from '../../utils/promotionUtils';
+
+interface PromotionFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  storeId?: string;
+  promotion: Promotion | null; // null creates a new promotion
+  products: Product[];
+  onSaved: (promotion: Promotion) => void;
+}
+
+interface PromotionDraft {
+  name: string;
+  type: PromotionType;
+  is_active: boolean;
+  product_ids: string[];
+  category: string;
+  buy_quantity: string;
+  get_quantity: string;
+  deal_price: string;
+  percent_off: string;
+  bundle_items: PromotionBundleItem[];
+  start_date: string;
+  end_date: string;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+}
+
+const selectClasses = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm';
+
+const toDraft = (promotion: Promotion | null): PromotionDraft => ({
+  name: promotion?.name || '',
+  type: promotion?.type || 'multi_buy',
+  is_active: promotion?.is_active ?? true,
+  product_ids: promotion?.product_ids || [],
+  category: promotion?.category || '',
+  buy_quantity: promotion?.buy_quantity !== undefined ? String(promotion.buy_quantity) : '',
+  get_quantity: promotion?.get_quantity !== undefined ? String(promotion.get_quantity) : '',
+  deal_price: promotion?.deal_price !== undefined ? String(promotion.deal_price) : '',
+  percent_off: promotion?.percent_off !== undefined ? String(promotion.percent_off) : '',
+  bundle_items: promotion?.bundle_items || [],
+  start_date: promotion?.start_date || '',
+  end_date: promotion?.end_date || '',
+  days_of_week: promotion?.days_of_week || [],
+  start_time: promotion?.start_time || '',
+  end_time: promotion?.end_time || '',
+});
+
+export const PromotionFormModal: React.FC<PromotionFormModalProps> = ({
+  isOpen,
+  onClose,
+  storeId,
+  promotion,
+  products,
+  onSaved
+}) => {
+  const [draft, setDraft] = useState<PromotionDraft>(toDraft(null));
+  const [productSearch, setProductSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(toDraft(promotion));
+    setProductSearch('');
+  }, [isOpen, promotion]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map(product => product.category).filter(Boolean))).sort(),
+    [products]
+  );
+
+  const productName = (productId: string) => products.find(product => product._id === productId)?.name || productId;
+
+  const searchResults = useMemo(() => {
+    const term = productSearch.trim().toLowerCase();
+    if (!term) return [];
+    return products
+      .filter(product => product.name.toLowerCase().includes(term) || (product.barcode || '').includes(term) || product.sku.toLowerCase().includes(term))
+      .slice(0, 8);
+  }, [products, productSearch]);
+
+  const update = <K extends keyof PromotionDraft>(field: K, value: PromotionDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const addProduct = (productId: string) => {
+    if (draft.type === 'bundle') {
+      if (!draft.bundle_items.some(item => item.product_id === productId)) {
+        update('bundle_items', [...draft.bundle_items, { product_id: productId, quantity: 1 }]);
+      }
+    } else if (!draft.product_ids.includes(productId)) {
+      update('product_ids', [...draft.product_ids, productId]);
+    }
+    setProductSearch('');
+  };
+
+  const toggleDay = (day: number) => {
+    update('days_of_week', draft.days_of_week.includes(day)
+      ? draft.days_of_week.filter(value => value !== day)
+      : [...draft.days_of_week, day].sort());
+  };
+
+  const validate = (): string | null => {
+    if (!draft.name.trim()) return 'Give the promotion a name';
+    const buy = parseInt(draft.buy_quantity, 10);
+    const dealPrice = parseFloat(draft.deal_price);
+    switch (draft.type) {
+      case 'buy_x_get_y':
+        if (!(buy > 0) || !(parseInt(draft.get_quantity, 10) > 0)) return 'Enter how many to buy and how many are free';
+        if (draft.product_ids.length === 0) return 'Choose the qualifying products';
+        break;
+      case 'multi_buy':
+        if (!(buy > 1) || !(dealPrice >= 0)) return 'Enter the deal quantity (2 or more) and its price';
+        if (draft.product_ids.length === 0) return 'Choose the qualifying products';
+        break;
+      case 'percent_off': {
+        const percent = parseFloat(draft.percent_off);
+        if (!(percent > 0 && percent <= 100)) return 'Enter a percentage between 1 and 100';
+        break;
+      }
+      case 'bundle':
+        if (draft.bundle_items.length < 2) return 'A bundle needs at least two products';
+        if (!(dealPrice >= 0)) return 'Enter the bundle price';
+        break;
+    }
+    if (draft.start_date && draft.end_date && draft.end_date < draft.start_date) return 'The end date is before the start date';
+    if (!!draft.start_time !== !!draft.end_time) return 'Set both the start and end time of the happy hour';
+    return null;
+  };
+
+  const handleSave = async () => {
+    if (!storeId) return;
+    const error = validate();
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const usesProducts = draft.type !== 'bundle' && !(draft.type === 'percent_off' && draft.category);
+    const usesDealPrice = draft.type === 'multi_buy' || draft.type === 'bundle';
+    const data = {
+      name: draft.name.trim(),
+      type: draft.type,
+      is_active: draft.is_active,
+      product_ids: usesProducts ? draft.product_ids : [],
+      category: draft.type === 'percent_off' ? draft.category || undefined : undefined,
+      buy_quantity: draft.type === 'buy_x_get_y' || draft.type === 'multi_buy' ? parseInt(draft.buy_quantity, 10) : undefined,
+      get_quantity: draft.type === 'buy_x_get_y' ? parseInt(draft.get_quantity, 10) : undefined,
+      deal_price: usesDealPrice ? parseFloat(draft.deal_price) : undefined,
+      percent_off: draft.type === 'percent_off' ? parseFloat(draft.percent_off) : undefined,
+      bundle_items: draft.type === 'bundle' ? draft.bundle_items : [],
+      start_date: draft.start_date || undefined,
+      end_date: draft.end_date || undefined,
+      days_of_week: draft.days_of_week,
+      start_time: draft.start_time || undefined,
+      end_time: draft.end_time || undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      const saved = promotion
+        ? await apiService.updatePromotion(promotion._id, data)
+        : await apiService.createPromotion({ ...data, store_id: storeId });
+      toast.success(`${saved.name} saved`);
+      onSaved(saved);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save promotion:', error);
+      toast.error(error.message || 'Failed to save promotion');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const showProductPicker = draft.type === 'bundle' || !(draft.type === 'percent_off' && draft.category);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={promotion ? 'Edit Promotion' : 'New Promotion'}
+      size="lg"
+      headerIcon={<Tag className="h-5 w-5" />}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="Name"
+            value={draft.name}
+            onChange={(e) => update('name', e.target.value)}
+            placeholder="e.g. Happy hour drinks"
+          />
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Type</label>
+            <select
+              value={draft.type}
+              onChange={(e) => update('type', e.target.value as PromotionType)}
+              className={selectClasses}
+            >
+              {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                <option key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          {(draft.type === 'buy_x_get_y' || draft.type === 'multi_buy') && (
+            <Input
+              label={draft.type === 'buy_x_get_y' ? 'Buy' : 'Deal Quantity'}
+              type="number"
+              min={1}
+              step={1}
+              value={draft.buy_quantity}
+              onChange={(e) => update('buy_quantity', e.target.value)}
+              selectOnFocus
+            />
+          )}
+          {draft.type === 'buy_x_get_y' && (
+            <Input
+              label="Get Free"
+              type="number"
+              min={1}
+              step={1}
+              value={draft.get_quantity}
+              onChange={(e) => update('get_quantity', e.target.value)}
+              selectOnFocus
+            />
+          )}
+          {(draft.type === 'multi_buy' || draft.type === 'bundle') && (
+            <Input
+              label={draft.type === 'bundle' ? 'Bundle Price' : 'Deal Price'}
+              type="number"
+              min={0}
+              step="0.01"
+              value={draft.deal_price}
+              onChange={(e) => update('deal_price', e.target.value)}
+              selectOnFocus
+            />
+          )}
+          {draft.type === 'percent_off' && (
+            <>
+              <Input
+                label="Percent Off"
+                type="number"
+                min={1}
+                max={100}
+                step="any"
+                value={draft.percent_off}
+                onChange={(e) => update('percent_off', e.target.value)}
+                selectOnFocus
+              />
+              <div className="col-span-1 md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Category</label>
+                <select
+                  value={draft.category}
+                  onChange={(e) => update('category', e.target.value)}
+                  className={selectClasses}
+                >
+                  <option value="">Selected products (or the whole store if none)</option>
+                  {categories.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+        </div>
+
+        {showProductPicker && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              {draft.type === 'bundle' ? 'Bundle Products' : 'Qualifying Products'}
+            </label>
+            <div className="relative">
+              <Input
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                placeholder="Search by name, SKU or barcode"
+              />
+              {searchResults.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+                  {searchResults.map(product => (
+                    <button
+                      key={product._id}
+                      type="button"
+                      onClick={() => addProduct(product._id)}
+                      className="w-full text-left px-3 py-2 text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-600"
+                    >
+                      {product.name}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 font-mono">{product.barcode || product.sku}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {draft.type === 'bundle' ? (
+              <div className="mt-2 space-y-2">
+                {draft.bundle_items.map(item => (
+                  <div key={item.product_id} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1 text-gray-900 dark:text-white">{productName(item.product_id)}</span>
+                    <div className="w-20">
+                      <Input
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={item.quantity}
+                        onChange={(e) => update('bundle_items', draft.bundle_items.map(entry =>
+                          entry.product_id === item.product_id ? { ...entry, quantity: Math.max(1, parseInt(e.target.value, 10) || 1) } : entry))}
+                        aria-label={`Quantity of ${productName(item.product_id)}`}
+                        selectOnFocus
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => update('bundle_items', draft.bundle_items.filter(entry => entry.product_id !== item.product_id))}
+                      className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                      title="Remove from bundle"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {draft.product_ids.map(productId => (
+                  <span
+                    key={productId}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300"
+                  >
+                    {productName(productId)}
+                    <button
+                      type="button"
+                      onClick={() => update('product_ids', draft.product_ids.filter(id => id !== productId))}
+                      className="hover:text-red-600 dark:hover:text-red-400"
+                      title="Remove product"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+                {draft.product_ids.length === 0 && draft.type === 'percent_off' && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">Applies to every product</span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-4">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">When it runs</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Leave blank to run all the time. Set a time window for a happy hour; it may run past midnight.
+            </p>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Input label="From Date" type="date" value={draft.start_date} onChange={(e) => update('start_date', e.target.value)} />
+            <Input label="To Date" type="date" value={draft.end_date} onChange={(e) => update('end_date', e.target.value)} />
+            <Input label="From Time" type="time" value={draft.start_time} onChange={(e) => update('start_time', e.target.value)} />
+            <Input label="To Time" type="time" value={draft.end_time} onChange={(e) => update('end_time', e.target.value)} />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleDay(day)}
+                className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                  draft.days_of_week.includes(day)
+                    ? 'bg-primary-600 border-primary-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-primary-500'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            {draft.days_of_week.length === 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400 self-center">Every day</span>
+            )}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={draft.is_active}
+              onChange={(e) => update('is_active', e.target.checked)}
+            />
+            Active
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} loading={isSaving} disabled={isSaving}>
+            {promotion ? 'Save Promotion' : 'Create Promotion'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
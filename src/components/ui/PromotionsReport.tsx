@@ -0,0 +1,140 @@
+import React, { useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { roundCurrency } from '../../utils/formatUtils';
+import { useLocale } from '../../hooks/useLocale';
+import { buildPromotionReport } from '../../utils/promotionUtils';
+import { Product } from '../../types';
+
+interface PromotionsReportProps {
+  transactions: any[]; // Sales for the selected period
+  products: Pick<Product, '_id' | 'cost_price'>[];
+  periodLabel: string;
+  currency?: string; // Defaults to the store currency
+}
+
+export const PromotionsReport: React.FC<PromotionsReportProps> = ({ transactions, products, periodLabel, currency: currencyOverride }) => {
+  const { settings, formatCurrency, formatNumber } = useLocale();
+  const currency = currencyOverride || settings.currency;
+
+  const rows = useMemo(() => {
+    const costs = new Map(products.map(product => [product._id, product.cost_price]));
+    return buildPromotionReport(transactions, productId => costs.get(productId));
+  }, [transactions, products]);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      redemptions: sum.redemptions + row.redemptions,
+      revenue: roundCurrency(sum.revenue + row.revenue),
+      discount: roundCurrency(sum.discount + row.discount),
+      margin: roundCurrency(sum.margin + row.margin),
+      margin_without_promotion: roundCurrency(sum.margin_without_promotion + row.margin_without_promotion),
+    }),
+    { redemptions: 0, revenue: 0, discount: 0, margin: 0, margin_without_promotion: 0 }
+  );
+
+  const marginPercent = (margin: number, revenue: number) => (revenue > 0 ? (margin / revenue) * 100 : 0);
+
+  const handleExport = () => {
+    if (rows.length === 0) {
+      toast.error('No promotion data to export');
+      return;
+    }
+
+    const csvRows = [
+      ['Promotion', 'Redemptions', 'Units', `Revenue (${currency})`, `Discount (${currency})`, `Cost (${currency})`, `Margin (${currency})`, `Margin without promotion (${currency})`],
+      ...rows.map(row => [
+        `"${row.promotion_name.replace(/"/g, '""')}"`,
+        String(row.redemptions),
+        String(row.units),
+        row.revenue.toFixed(2),
+        row.discount.toFixed(2),
+        row.cost.toFixed(2),
+        row.margin.toFixed(2),
+        row.margin_without_promotion.toFixed(2),
+      ]),
+    ];
+    const csvContent = csvRows.map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `promotions-report-${periodLabel.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Promotions</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Redemptions and margin on promoted lines, using current product costs
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleExport}>
+          <Download className="h-4 w-4 mr-1" />
+          CSV
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">No promotions were redeemed in this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Promotion</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Redemptions</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Units</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Revenue</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Discount Given</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Margin</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Without Promotion</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.promotion_id} className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">{row.promotion_name}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{row.redemptions}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{formatNumber(row.units)}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{formatCurrency(row.revenue, currency)}</td>
+                  <td className="py-3 px-4 text-sm font-semibold text-red-600 dark:text-red-400 text-right">-{formatCurrency(row.discount, currency)}</td>
+                  <td className={`py-3 px-4 text-sm font-semibold text-right ${row.margin < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                    {formatCurrency(row.margin, currency)}
+                    <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">{marginPercent(row.margin, row.revenue).toFixed(1)}%</span>
+                  </td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
+                    {formatCurrency(row.margin_without_promotion, currency)}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      {marginPercent(row.margin_without_promotion, row.revenue + row.discount).toFixed(1)}%
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white">Total</td>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">{totals.redemptions}</td>
+                <td></td>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">{formatCurrency(totals.revenue, currency)}</td>
+                <td className="py-3 px-4 text-sm font-bold text-red-600 dark:text-red-400 text-right">-{formatCurrency(totals.discount, currency)}</td>
+                <td className="py-3 px-4 text-sm font-bold text-primary-600 dark:text-primary-400 text-right">{formatCurrency(totals.margin, currency)}</td>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">{formatCurrency(totals.margin_without_promotion, currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Trash2, Mail, MessageCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { Product, PurchaseOrder, PurchaseOrderLine, Wholesaler } from '../../types';
+import { buildPurchaseOrderLines, calculatePurchaseOrderTotal } from '../../utils/purchaseOrderUtils';
+
+interface PurchaseOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  wholesaler: Wholesaler | null;
+  storeId: string;
+  order?: PurchaseOrder | null; // Draft to edit; otherwise a new order prefilled from low stock
+  onSaved?: (order: PurchaseOrder) => void;
+  onSend?: (order: PurchaseOrder, channel: 'email' | 'whatsapp') => Promise<void>;
+}
+
+export const PurchaseOrderModal: React.FC<PurchaseOrderModalProps> = ({
+  isOpen,
+  onClose,
+  wholesaler,
+  storeId,
+  order,
+  onSaved,
+  onSend
+}) => {
+  const { formatCurrency } = useLocale();
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([]);
+  const [linkedProducts, setLinkedProducts] = useState<Product[]>([]);
+  const [notes, setNotes] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New orders start from the wholesaler's low-stock list with suggested quantities
+  useEffect(() => {
+    if (!isOpen || !wholesaler) return;
+
+    let cancelled = false;
+    setNotes(order?.notes || '');
+    setExpectedDate(order?.expected_date || '');
+    setLines(order?.lines || []);
+    setIsLoading(true);
+
+    Promise.all([
+      apiService.getWholesalerById(wholesaler._id, true),
+      order ? Promise.resolve([]) : apiService.getWholesalerLowStock(wholesaler._id),
+    ])
+      .then(([withProducts, lowStock]) => {
+        if (cancelled) return;
+        const products = withProducts.products || [];
+        setLinkedProducts(products);
+        if (!order) setLines(buildPurchaseOrderLines(lowStock, products));
+      })
+      .catch(error => {
+        console.error('Failed to load wholesaler products:', error);
+        if (!cancelled) toast.error('Failed to load wholesaler products');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, wholesaler, order]);
+
+  if (!wholesaler) return null;
+
+  const total = calculatePurchaseOrderTotal(lines);
+  const addableProducts = linkedProducts.filter(product => !lines.some(line => line.product_id === product._id));
+
+  const updateLine = (productId: string, changes: Partial<PurchaseOrderLine>) => {
+    setLines(prev => prev.map(line => (line.product_id === productId ? { ...line, ...changes } : line)));
+  };
+
+  const addProduct = (productId: string) => {
+    const product = linkedProducts.find(entry => entry._id === productId);
+    if (!product) return;
+    setLines(prev => [...prev, {
+      product_id: product._id,
+      product_name: product.name,
+      unit: product.unit,
+      quantity_ordered: 1,
+      quantity_received: 0,
+      unit_cost: product.cost_price || 0,
+    }]);
+  };
+
+  const save = async (): Promise<PurchaseOrder | null> => {
+    const usable = lines.filter(line => line.quantity_ordered > 0);
+    if (usable.length === 0) {
+      toast.error('Add at least one product with a quantity');
+      return null;
+    }
+    if (usable.some(line => line.unit_cost < 0)) {
+      toast.error('Cost prices cannot be negative');
+      return null;
+    }
+
+    const payload = {
+      lines: usable,
+      notes: notes.trim() || undefined,
+      expected_date: expectedDate || undefined,
+    };
+    const saved = order
+      ? await apiService.updatePurchaseOrder(order._id, payload)
+      : await apiService.createPurchaseOrder({ ...payload, store_id: storeId, wholesaler_id: wholesaler._id });
+    onSaved?.(saved);
+    return saved;
+  };
+
+  const handleSave = async (channel?: 'email' | 'whatsapp') => {
+    setIsSaving(true);
+    try {
+      const saved = await save();
+      if (!saved) return;
+      if (channel && onSend) {
+        await onSend(saved, channel);
+      } else {
+        toast.success(`Purchase order ${saved.po_number} saved`);
+      }
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save purchase order:', error);
+      toast.error(error.message || 'Failed to save purchase order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={order ? `Edit ${order.po_number}` : `New Purchase Order - ${wholesaler.name}`}
+      size="xl"
+      headerIcon={<ClipboardList className="h-5 w-5" />}
+    >
+      <div className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">Loading products...</p>
+        ) : (
+          <>
+            {lines.length === 0 ? (
+              <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">
+                Nothing is low on stock for this wholesaler. Add products below to order anyway.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                      <th className="text-left py-2 px-2 text-sm font-semibold text-gray-700 dark:text-gray-300">Product</th>
+                      <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700 dark:text-gray-300 w-28">Quantity</th>
+                      <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700 dark:text-gray-300 w-32">Unit Cost</th>
+                      <th className="text-right py-2 px-2 text-sm font-semibold text-gray-700 dark:text-gray-300">Line Total</th>
+                      <th className="py-2 px-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lines.map(line => (
+                      <tr key={line.product_id} className="border-b border-gray-100 dark:border-gray-700">
+                        <td className="py-2 px-2 text-sm text-gray-900 dark:text-white">
+                          {line.product_name}
+                          {line.unit && <span className="text-xs text-gray-500 dark:text-gray-400"> · {line.unit}</span>}
+                        </td>
+                        <td className="py-2 px-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={line.quantity_ordered}
+                            onChange={(e) => updateLine(line.product_id, { quantity_ordered: Math.max(0, Number(e.target.value) || 0) })}
+                            aria-label={`Quantity of ${line.product_name}`}
+                          />
+                        </td>
+                        <td className="py-2 px-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={line.unit_cost}
+                            onChange={(e) => updateLine(line.product_id, { unit_cost: Math.max(0, Number(e.target.value) || 0) })}
+                            aria-label={`Unit cost of ${line.product_name}`}
+                          />
+                        </td>
+                        <td className="py-2 px-2 text-sm text-right text-gray-900 dark:text-white">
+                          {formatCurrency(line.quantity_ordered * line.unit_cost)}
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => setLines(prev => prev.filter(entry => entry.product_id !== line.product_id))}
+                            className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                            title="Remove line"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {addableProducts.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => addProduct(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+                aria-label="Add a product from this wholesaler"
+              >
+                <option value="">+ Add a product from {wholesaler.name}</option>
+                {addableProducts.map(product => (
+                  <option key={product._id} value={product._id}>{product.name}</option>
+                ))}
+              </select>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input
+                label="Requested Delivery (optional)"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+              />
+              <Input
+                label="Notes (optional)"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Deliver before 10:00"
+              />
+            </div>
+
+            <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-white">
+              <span>Order total</span>
+              <span>{formatCurrency(total)}</span>
+            </div>
+          </>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-3">
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>Cancel</Button>
+          <Button variant="secondary" onClick={() => handleSave()} loading={isSaving} disabled={isSaving || isLoading}>
+            Save Draft
+          </Button>
+          {wholesaler.email && (
+            <Button onClick={() => handleSave('email')} disabled={isSaving || isLoading}>
+              <Mail className="h-4 w-4 mr-2" />
+              Save & Email
+            </Button>
+          )}
+          {wholesaler.phone && (
+            <Button onClick={() => handleSave('whatsapp')} disabled={isSaving || isLoading}>
+              <MessageCircle className="h-4 w-4 mr-2" />
+              Save & WhatsApp
+            </Button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
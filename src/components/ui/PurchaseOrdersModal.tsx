@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClipboardList, Plus, Mail, MessageCircle, PackageCheck, Pencil, XCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { PurchaseOrder, PurchaseOrderStatus, Wholesaler } from '../../types';
+import { PURCHASE_ORDER_STATUS_LABELS, getOutstandingQuantity } from '../../utils/purchaseOrderUtils';
+
+interface PurchaseOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  wholesaler: Wholesaler | null;
+  storeId: string;
+  refreshKey?: number; // Bumped by the parent after an order is saved or received elsewhere
+  onCreate: (wholesaler: Wholesaler) => void;
+  onEdit: (order: PurchaseOrder) => void;
+  onReceive: (order: PurchaseOrder) => void;
+  onSend: (order: PurchaseOrder, channel: 'email' | 'whatsapp') => Promise<void>;
+  onChanged?: (order: PurchaseOrder) => void;
+}
+
+const statusClasses: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  sent: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  partially_received: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  received: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const PurchaseOrdersModal: React.FC<PurchaseOrdersModalProps> = ({
+  isOpen,
+  onClose,
+  wholesaler,
+  storeId,
+  refreshKey = 0,
+  onCreate,
+  onEdit,
+  onReceive,
+  onSend,
+  onChanged
+}) => {
+  const { formatCurrency, formatDate } = useLocale();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const wholesalerId = wholesaler?._id;
+
+  const loadOrders = useCallback(async () => {
+    if (!wholesalerId) return;
+    setIsLoading(true);
+    try {
+      setOrders(await apiService.getPurchaseOrders({ store_id: storeId, wholesaler_id: wholesalerId }));
+    } catch (error) {
+      console.error('Failed to load purchase orders:', error);
+      toast.error('Failed to load purchase orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, wholesalerId]);
+
+  useEffect(() => {
+    if (isOpen) loadOrders();
+  }, [isOpen, loadOrders, refreshKey]);
+
+  if (!wholesaler) return null;
+
+  const runAction = async (order: PurchaseOrder, action: () => Promise<void>) => {
+    setBusyId(order._id);
+    try {
+      await action();
+      await loadOrders();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = (order: PurchaseOrder) => runAction(order, async () => {
+    if (!window.confirm(`Cancel ${order.po_number}?`)) return;
+    try {
+      const updated = await apiService.updatePurchaseOrder(order._id, { status: 'cancelled' });
+      toast.success(`${order.po_number} cancelled`);
+      onChanged?.(updated);
+    } catch (error: any) {
+      console.error('Failed to cancel purchase order:', error);
+      toast.error(error.message || 'Failed to cancel purchase order');
+    }
+  });
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Purchase Orders - ${wholesaler.name}`}
+      size="xl"
+      headerIcon={<ClipboardList className="h-5 w-5" />}
+    >
+      <div className="space-y-4">
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => onCreate(wholesaler)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Purchase Order
+          </Button>
+        </div>
+
+        {isLoading && orders.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">Loading purchase orders...</p>
+        ) : orders.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">No purchase orders for this wholesaler yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-[28rem] overflow-y-auto">
+            {orders.map(order => {
+              const outstanding = order.lines.reduce((sum, line) => sum + getOutstandingQuantity(line), 0);
+              const canSend = order.status === 'draft' || order.status === 'sent';
+              const canReceive = order.status === 'sent' || order.status === 'partially_received';
+              const isBusy = busyId === order._id;
+              return (
+                <div key={order._id} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono font-semibold text-gray-900 dark:text-white">{order.po_number}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[order.status]}`}>
+                          {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {order.lines.length} product{order.lines.length === 1 ? '' : 's'} · {formatCurrency(order.total_cost)} · {formatDate(order.created_at)}
+                        {order.sent_at && ` · sent by ${order.sent_via === 'whatsapp' ? 'WhatsApp' : 'email'} ${formatDate(order.sent_at)}`}
+                        {order.status === 'partially_received' && ` · ${outstanding} units outstanding`}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {order.status === 'draft' && (
+                        <Button variant="ghost" size="sm" onClick={() => onEdit(order)} title="Edit draft">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canSend && wholesaler.email && (
+                        <Button variant="outline" size="sm" disabled={isBusy} onClick={() => runAction(order, () => onSend(order, 'email'))}>
+                          <Mail className="h-4 w-4 mr-1" />
+                          {order.status === 'sent' ? 'Resend' : 'Email'}
+                        </Button>
+                      )}
+                      {canSend && wholesaler.phone && (
+                        <Button variant="outline" size="sm" disabled={isBusy} onClick={() => runAction(order, () => onSend(order, 'whatsapp'))}>
+                          <MessageCircle className="h-4 w-4 mr-1" />
+                          WhatsApp
+                        </Button>
+                      )}
+                      {canReceive && (
+                        <Button size="sm" onClick={() => onReceive(order)}>
+                          <PackageCheck className="h-4 w-4 mr-1" />
+                          Receive
+                        </Button>
+                      )}
+                      {canSend && (
+                        <Button variant="ghost" size="sm" disabled={isBusy} onClick={() => handleCancel(order)} title="Cancel order">
+                          <XCircle className="h-4 w-4 text-red-500" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
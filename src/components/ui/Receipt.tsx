@@ -1,122 +1,130 @@
 import React, { forwardRef } from 'react';
-import { PaymentMethod } from '../../types';
+import { PaymentMethod, TaxBreakdownLine } from '../../types';
 import { useTheme } from '../../context/ThemeContext';
+import { useReceiptPrinter } from '../../hooks/useReceiptPrinter';
+import { useLocale } from '../../hooks/useLocale';
 
 interface ReceiptProps {
   transaction: any; // Could use Transaction for strict typing
   onClose?: () => void;
 }
 
-const formatPrice = (price: number) =>
-  new Intl.NumberFormat('tr-TR', { style: 'currency', currency: 'TRY' }).format(price);
+// Print layout shared by the sales and refund receipts
+export const receiptPrintStyles = `
+  @media print {
+    @page {
+      size: auto;
+      margin: 0.8cm;
+    }
+    
+    html, body {
+      width: 100%;
+      height: auto;
+      margin: 0;
+      padding: 0;
+      overflow: visible;
+    }
+    
+    body * {
+      visibility: hidden;
+    }
+    
+    .receipt-print-content,
+    .receipt-print-content * {
+      visibility: visible !important;
+    }
+    
+    .receipt-print-content {
+      position: fixed !important;
+      left: 0 !important;
+      top: 0 !important;
+      width: 100% !important;
+      max-width: 100% !important;
+      margin: 0 !important;
+      padding: 0.8cm !important;
+      background: white !important;
+      color: black !important;
+      box-shadow: none !important;
+      border: none !important;
+      page-break-after: avoid !important;
+      page-break-inside: avoid !important;
+      overflow: visible !important;
+      font-size: 11px !important;
+      line-height: 1.3 !important;
+    }
+    
+    .receipt-no-print {
+      display: none !important;
+    }
+    
+    .receipt-print-content h2 {
+      font-size: 16px !important;
+      margin-bottom: 0.3cm !important;
+      color: black !important;
+    }
+    
+    .receipt-print-content div,
+    .receipt-print-content span,
+    .receipt-print-content table,
+    .receipt-print-content th,
+    .receipt-print-content td,
+    .receipt-print-content tr {
+      color: black !important;
+      background: white !important;
+    }
+    
+    .receipt-print-content table {
+      page-break-inside: avoid !important;
+      width: 100% !important;
+      border-collapse: collapse !important;
+      font-size: 10px !important;
+      margin-top: 0.2cm !important;
+      margin-bottom: 0.2cm !important;
+    }
+    
+    .receipt-print-content tbody tr {
+      page-break-inside: avoid !important;
+    }
+    
+    .receipt-print-content th,
+    .receipt-print-content td {
+      padding: 0.15cm 0.2cm !important;
+      font-size: 9px !important;
+    }
+    
+    /* Hide everything except receipt content */
+    header,
+    nav,
+    footer,
+    div[class*="fixed"]:not(.receipt-print-content),
+    div[class*="inset"]:not(.receipt-print-content) {
+      display: none !important;
+    }
+  }
+`;
 
 export const Receipt = forwardRef<HTMLDivElement, ReceiptProps>(({ transaction, onClose }, ref) => {
   const { isDark } = useTheme();
+  const { printTransaction, isPrinting } = useReceiptPrinter();
+  const { formatCurrency, formatDateTime } = useLocale();
   
   if (!transaction) return null;
 
+  // Amounts are in the currency the sale was recorded in
+  const formatPrice = (price: number) => formatCurrency(price, transaction.currency);
+
   return (
     <>
-      <style>{`
-        @media print {
-          @page {
-            size: auto;
-            margin: 0.8cm;
-          }
-          
-          html, body {
-            width: 100%;
-            height: auto;
-            margin: 0;
-            padding: 0;
-            overflow: visible;
-          }
-          
-          body * {
-            visibility: hidden;
-          }
-          
-          .receipt-print-content,
-          .receipt-print-content * {
-            visibility: visible !important;
-          }
-          
-          .receipt-print-content {
-            position: fixed !important;
-            left: 0 !important;
-            top: 0 !important;
-            width: 100% !important;
-            max-width: 100% !important;
-            margin: 0 !important;
-            padding: 0.8cm !important;
-            background: white !important;
-            color: black !important;
-            box-shadow: none !important;
-            border: none !important;
-            page-break-after: avoid !important;
-            page-break-inside: avoid !important;
-            overflow: visible !important;
-            font-size: 11px !important;
-            line-height: 1.3 !important;
-          }
-          
-          .receipt-no-print {
-            display: none !important;
-          }
-          
-          .receipt-print-content h2 {
-            font-size: 16px !important;
-            margin-bottom: 0.3cm !important;
-            color: black !important;
-          }
-          
-          .receipt-print-content div,
-          .receipt-print-content span,
-          .receipt-print-content table,
-          .receipt-print-content th,
-          .receipt-print-content td,
-          .receipt-print-content tr {
-            color: black !important;
-            background: white !important;
-          }
-          
-          .receipt-print-content table {
-            page-break-inside: avoid !important;
-            width: 100% !important;
-            border-collapse: collapse !important;
-            font-size: 10px !important;
-            margin-top: 0.2cm !important;
-            margin-bottom: 0.2cm !important;
-          }
-          
-          .receipt-print-content tbody tr {
-            page-break-inside: avoid !important;
-          }
-          
-          .receipt-print-content th,
-          .receipt-print-content td {
-            padding: 0.15cm 0.2cm !important;
-            font-size: 9px !important;
-          }
-          
-          /* Hide everything except receipt content */
-          header,
-          nav,
-          footer,
-          div[class*="fixed"]:not(.receipt-print-content),
-          div[class*="inset"]:not(.receipt-print-content) {
-            display: none !important;
-          }
-        }
-      `}</style>
+      <style>{receiptPrintStyles}</style>
       <div ref={ref} className={`receipt-print-content receipt-popup bg-white dark:bg-gray-800 p-6 rounded shadow-md max-w-md mx-auto text-gray-900 dark:text-white`}>
       <h2 className="text-lg font-bold mb-2 text-center text-gray-900 dark:text-white">Greep Market</h2>
       <div className="mb-2 text-xs text-center text-gray-600 dark:text-gray-400">Sales Receipt</div>
       <div className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+        {transaction._id && <div><b className="text-gray-900 dark:text-white">Receipt #:</b> <span className="text-gray-700 dark:text-gray-300 font-mono">{transaction._id}</span></div>}
         <div><b className="text-gray-900 dark:text-white">Cashier:</b> <span className="text-gray-700 dark:text-gray-300">{transaction.cashier_id}</span></div>
         <div><b className="text-gray-900 dark:text-white">Store:</b> <span className="text-gray-700 dark:text-gray-300">{transaction.store_id}</span></div>
-        <div><b className="text-gray-900 dark:text-white">Date:</b> <span className="text-gray-700 dark:text-gray-300">{new Date(transaction.created_at).toLocaleString('tr-TR')}</span></div>
-        {transaction.customer_id && <div><b className="text-gray-900 dark:text-white">Customer:</b> <span className="text-gray-700 dark:text-gray-300">{transaction.customer_id}</span></div>}
+        <div><b className="text-gray-900 dark:text-white">Date:</b> <span className="text-gray-700 dark:text-gray-300">{formatDateTime(transaction.created_at)}</span></div>
+        {transaction.customer_id && <div><b className="text-gray-900 dark:text-white">Customer:</b> <span className="text-gray-700 dark:text-gray-300">{transaction.customer_name || transaction.customer_id}</span></div>}
         {transaction.payment_methods && transaction.payment_methods.length > 0 && (
           <div><b className="text-gray-900 dark:text-white">Payment Method(s):</b> <span className="text-gray-700 dark:text-gray-300">{transaction.payment_methods.map((pm: PaymentMethod) => pm.type).join(', ')}</span></div>
         )}
@@ -135,12 +143,21 @@ export const Receipt = forwardRef<HTMLDivElement, ReceiptProps>(({ transaction,
           </thead>
           <tbody>
             {transaction.items?.map((item: any, i: number) => (
-              <tr key={i} className="text-gray-700 dark:text-gray-300">
-                <td>{item.quantity}</td>
-                <td>{item.product_name || item.product_id}</td>
-                <td className="text-right">{formatPrice(item.unit_price)}</td>
-                <td className="text-right">{formatPrice(item.unit_price * item.quantity)}</td>
-              </tr>
+              <React.Fragment key={i}>
+                <tr className="text-gray-700 dark:text-gray-300">
+                  <td>{item.quantity}</td>
+                  <td>{item.product_name || item.product_id}</td>
+                  <td className="text-right">{formatPrice(item.unit_price)}</td>
+                  <td className="text-right">{formatPrice(item.unit_price * item.quantity)}</td>
+                </tr>
+                {item.discount_amount ? (
+                  <tr className="text-gray-600 dark:text-gray-400">
+                    <td></td>
+                    <td colSpan={2} className="italic">{item.promotion_name || 'Promotion'}</td>
+                    <td className="text-right text-red-600 dark:text-red-400">-{formatPrice(item.discount_amount)}</td>
+                  </tr>
+                ) : null}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
@@ -158,9 +175,44 @@ export const Receipt = forwardRef<HTMLDivElement, ReceiptProps>(({ transaction,
           <span>Shipping:</span> <span className="text-gray-900 dark:text-white font-medium">{formatPrice(transaction.delivery_fee)}</span>
         </div>
       ) : null}
+      {transaction.tax_breakdown && transaction.tax_breakdown.length > 0 ? (
+        transaction.tax_breakdown.map((line: TaxBreakdownLine) => (
+          <div key={line.rate} className="mb-2 flex justify-between text-sm text-gray-700 dark:text-gray-300">
+            <span>
+              VAT {line.rate}%{transaction.tax_mode === 'inclusive' ? ' (incl.)' : ''} on {formatPrice(line.taxable_amount)}:
+            </span>
+            <span className="text-gray-900 dark:text-white font-medium">{formatPrice(line.tax_amount)}</span>
+          </div>
+        ))
+      ) : transaction.tax_amount ? (
+        <div className="mb-2 flex justify-between text-sm text-gray-700 dark:text-gray-300">
+          <span>Tax:</span> <span className="text-gray-900 dark:text-white font-medium">{formatPrice(transaction.tax_amount)}</span>
+        </div>
+      ) : null}
       <div className="mb-2 flex justify-between text-base font-bold border-t border-gray-300 dark:border-gray-600 pt-2 text-gray-900 dark:text-white">
         <span>Total:</span> <span>{formatPrice(transaction.total_amount || 0)}</span>
       </div>
+      {transaction.payment_methods?.filter((pm: PaymentMethod) => pm.currency && pm.original_amount !== undefined).map((pm: PaymentMethod, i: number) => (
+        <div key={i} className="mb-1 flex justify-between text-xs text-gray-600 dark:text-gray-400">
+          <span>Paid {formatCurrency(pm.original_amount || 0, pm.currency)} @ {pm.exchange_rate}</span>
+          <span>{formatPrice(pm.amount)}</span>
+        </div>
+      ))}
+      {transaction.change_amount ? (
+        <div className="mb-2 flex justify-between text-sm text-gray-700 dark:text-gray-300">
+          <span>Change:</span> <span className="text-gray-900 dark:text-white font-medium">{formatPrice(transaction.change_amount)}</span>
+        </div>
+      ) : null}
+      {transaction.loyalty_points_redeemed ? (
+        <div className="mb-1 flex justify-between text-xs text-gray-600 dark:text-gray-400">
+          <span>Points redeemed:</span> <span>{transaction.loyalty_points_redeemed}</span>
+        </div>
+      ) : null}
+      {transaction.loyalty_points_earned ? (
+        <div className="mb-1 flex justify-between text-xs text-gray-600 dark:text-gray-400">
+          <span>Points earned:</span> <span>{transaction.loyalty_points_earned}</span>
+        </div>
+      ) : null}
       {transaction.notes && <div className="text-xs mt-2 text-gray-600 dark:text-gray-400 italic">Note: {transaction.notes}</div>}
       <div className="receipt-no-print mt-4 flex justify-center gap-3">
         <button
@@ -171,6 +223,14 @@ export const Receipt = forwardRef<HTMLDivElement, ReceiptProps>(({ transaction,
         >
           Print
         </button>
+        <button
+          className="bg-gray-800 hover:bg-gray-900 dark:bg-gray-600 dark:hover:bg-gray-500 text-white py-1 px-3 text-xs rounded transition-colors disabled:opacity-50"
+          onClick={() => printTransaction(transaction)}
+          disabled={isPrinting}
+          title="Print on a connected ESC/POS thermal printer"
+        >
+          {isPrinting ? 'Printing...' : 'Thermal Print'}
+        </button>
         {onClose && (
           <button className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 px-3 py-1 text-xs rounded transition-colors" onClick={onClose}>Close</button>
         )}
@@ -0,0 +1,234 @@
+import React, { useMemo, useRef } from 'react';
+import { Printer, Usb, Cable, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Button } from './Button';
+import { useReceiptPrinter } from '../../hooks/useReceiptPrinter';
+import { ReceiptTemplate, ReceiptPaperWidth, Transaction } from '../../types';
+import {
+  buildReceiptLayout,
+  receiptToText,
+  PAPER_WIDTH_DOTS,
+} from '../../utils/escposEncoder';
+
+interface ReceiptTemplateEditorProps {
+  template: ReceiptTemplate;
+  onChange: (template: ReceiptTemplate) => void;
+  store: { name: string; address?: string; phone?: string };
+}
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200';
+
+// Logos are stored with the store settings, so keep them small
+const MAX_LOGO_FILE_SIZE = 1024 * 1024;
+
+const sampleTransaction: Transaction = {
+  _id: 'SAMPLE-0001',
+  store_id: '',
+  items: [
+    { _id: '1', product_id: 'sample-1', product_name: 'Süt 1L', quantity: 2, unit_price: 42.5, total_price: 85 },
+    { _id: '2', product_id: 'sample-2', product_name: 'Ekmek', quantity: 1, unit_price: 15, total_price: 15 },
+  ],
+  subtotal: 100,
+  discount_amount: 0,
+  tax_amount: 15.25,
+  tax_mode: 'inclusive',
+  tax_breakdown: [{ rate: 18, taxable_amount: 84.75, tax_amount: 15.25 }],
+  total_amount: 100,
+  payment_methods: [{ type: 'cash', amount: 60 }, { type: 'card', amount: 40 }],
+  payment_status: 'completed',
+  status: 'completed',
+  order_source: 'in_store',
+  cashier_id: 'cashier',
+  created_at: new Date(),
+  updated_at: new Date(),
+};
+
+// Scale an uploaded image down to the printable width and return it as a PNG data URL
+const scaleLogo = (file: File, maxWidth: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Failed to read image'));
+    reader.onload = () => {
+      const image = new Image();
+      image.onerror = () => reject(new Error('Unsupported image'));
+      image.onload = () => {
+        const scale = Math.min(1, maxWidth / image.width);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas is not available'));
+          return;
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+      };
+      image.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+
+export const ReceiptTemplateEditor: React.FC<ReceiptTemplateEditorProps> = ({ template, onChange, store }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    connection,
+    isPrinting,
+    isUsbSupported,
+    isSerialSupported,
+    connectPrinter,
+    disconnectPrinter,
+    printTransaction,
+  } = useReceiptPrinter(template);
+
+  const preview = useMemo(
+    () => receiptToText(buildReceiptLayout(sampleTransaction, template, store), template.paper_width),
+    [template, store]
+  );
+
+  const update = (updates: Partial<ReceiptTemplate>) => onChange({ ...template, ...updates });
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_LOGO_FILE_SIZE) {
+      toast.error('Logo must be smaller than 1 MB');
+      return;
+    }
+
+    try {
+      update({ logo: await scaleLogo(file, PAPER_WIDTH_DOTS[template.paper_width]) });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load logo');
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Logo</label>
+          <div className="mt-1 flex items-center space-x-3">
+            {template.logo ? (
+              <div className="relative">
+                <img src={template.logo} alt="Receipt logo" className="h-16 max-w-[12rem] object-contain bg-white rounded border border-gray-200 dark:border-gray-600" />
+                <button
+                  type="button"
+                  onClick={() => update({ logo: undefined })}
+                  className="absolute -top-2 -right-2 bg-white dark:bg-gray-700 rounded-full p-0.5 shadow text-gray-500 hover:text-red-600"
+                  title="Remove logo"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            ) : (
+              <span className="text-sm text-gray-500 dark:text-gray-400">No logo</span>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" />
+              Upload
+            </Button>
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleLogoUpload} title="Upload receipt logo" />
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Printed in black and white; simple high-contrast logos work best.</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Header Text</label>
+          <textarea
+            value={template.header_text}
+            onChange={(e) => update({ header_text: e.target.value })}
+            rows={2}
+            className={inputClassName}
+            title="Printed under the store details"
+            placeholder="e.g. Tax No: 1234567890"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Footer Text</label>
+          <textarea
+            value={template.footer_text}
+            onChange={(e) => update({ footer_text: e.target.value })}
+            rows={2}
+            className={inputClassName}
+            title="Printed at the bottom of every receipt"
+            placeholder="e.g. Thank you for shopping with us!"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Paper Width</label>
+            <select
+              value={template.paper_width}
+              onChange={(e) => update({ paper_width: Number(e.target.value) as ReceiptPaperWidth })}
+              className={inputClassName}
+              title="Select the printer's paper roll width"
+            >
+              <option value={58}>58 mm</option>
+              <option value={80}>80 mm</option>
+            </select>
+          </div>
+          <label className="flex items-center mt-6 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={template.show_tax_lines}
+              onChange={(e) => update({ show_tax_lines: e.target.checked })}
+              className="mr-2 rounded border-gray-300 dark:border-gray-600"
+            />
+            Show tax lines
+          </label>
+        </div>
+
+        <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Printer</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            {connection
+              ? `Connected over ${connection === 'usb' ? 'USB' : 'serial'}.`
+              : isUsbSupported || isSerialSupported
+                ? 'No printer connected on this device. Receipts will be downloaded as raw ESC/POS files.'
+                : 'This browser cannot talk to printers directly. Receipts will be downloaded as raw ESC/POS files.'}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {connection ? (
+              <Button type="button" variant="outline" size="sm" onClick={disconnectPrinter}>Disconnect</Button>
+            ) : (
+              <>
+                {isUsbSupported && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => connectPrinter('usb')}>
+                    <Usb className="h-4 w-4 mr-1" />
+                    Connect USB
+                  </Button>
+                )}
+                {isSerialSupported && (
+                  <Button type="button" variant="outline" size="sm" onClick={() => connectPrinter('serial')}>
+                    <Cable className="h-4 w-4 mr-1" />
+                    Connect Serial
+                  </Button>
+                )}
+              </>
+            )}
+            <Button type="button" variant="secondary" size="sm" loading={isPrinting} onClick={() => printTransaction(sampleTransaction)}>
+              <Printer className="h-4 w-4 mr-1" />
+              Test Print
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Preview</label>
+        <pre className="text-[11px] leading-snug font-mono bg-white text-gray-900 border border-gray-200 dark:border-gray-600 rounded p-3 overflow-x-auto w-fit">
+          {preview}
+        </pre>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { PackageCheck } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { PurchaseOrder } from '../../types';
+import { applyPurchaseOrderReceipt, getOutstandingQuantity } from '../../utils/purchaseOrderUtils';
+
+interface ReceivePurchaseOrderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: PurchaseOrder | null;
+  onReceived?: (order: PurchaseOrder) => void;
+}
+
+export const ReceivePurchaseOrderModal: React.FC<ReceivePurchaseOrderModalProps> = ({
+  isOpen,
+  onClose,
+  order,
+  onReceived
+}) => {
+  const { formatCurrency } = useLocale();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [costs, setCosts] = useState<Record<string, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !order) return;
+    const nextCosts: Record<string, number> = {};
+    order.lines.forEach(line => {
+      nextCosts[line.product_id] = line.unit_cost;
+    });
+    setQuantities({});
+    setCosts(nextCosts);
+  }, [isOpen, order]);
+
+  if (!order) return null;
+
+  const openLines = order.lines.filter(line => getOutstandingQuantity(line) > 0);
+  const deliveryTotal = openLines.reduce(
+    (sum, line) => sum + (quantities[line.product_id] || 0) * (costs[line.product_id] ?? line.unit_cost),
+    0
+  );
+
+  const deliveredNow: Record<string, { quantity: number }> = {};
+  Object.keys(quantities).forEach(productId => {
+    deliveredNow[productId] = { quantity: quantities[productId] };
+  });
+  const statusAfter = applyPurchaseOrderReceipt(order.lines, deliveredNow).status;
+
+  const receiveAll = () => {
+    const all: Record<string, number> = {};
+    openLines.forEach(line => {
+      all[line.product_id] = getOutstandingQuantity(line);
+    });
+    setQuantities(all);
+  };
+
+  const handleSubmit = async () => {
+    const delivered = openLines
+      .filter(line => (quantities[line.product_id] || 0) > 0)
+      .map(line => ({
+        product_id: line.product_id,
+        quantity: quantities[line.product_id],
+        unit_cost: costs[line.product_id] ?? line.unit_cost,
+      }));
+    if (delivered.length === 0) {
+      toast.error('Enter the quantities that arrived');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const updated = await apiService.receivePurchaseOrder(order._id, delivered);
+      toast.success(updated.status === 'received'
+        ? `${order.po_number} fully received`
+        : `${order.po_number} partially received`);
+      onReceived?.(updated);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to receive purchase order:', error);
+      toast.error(error.message || 'Failed to receive purchase order');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Receive ${order.po_number}`}
+      size="lg"
+      headerIcon={<PackageCheck className="h-5 w-5" />}
+      headerColor="success"
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Stock and cost prices update from what you enter here. Anything not delivered stays open on the order.
+          </p>
+          <button
+            type="button"
+            onClick={receiveAll}
+            className="text-xs text-primary-600 dark:text-primary-400 hover:underline flex-shrink-0 ml-4"
+          >
+            Receive all
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {openLines.map(line => (
+            <div key={line.product_id} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{line.product_name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {line.quantity_received} of {line.quantity_ordered} received · {getOutstandingQuantity(line)} outstanding
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <div className="w-24">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={quantities[line.product_id] ?? 0}
+                      onChange={(e) => setQuantities(prev => ({ ...prev, [line.product_id]: Math.max(0, Number(e.target.value) || 0) }))}
+                      aria-label={`Quantity of ${line.product_name} received`}
+                    />
+                  </div>
+                  <div className="w-28">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={costs[line.product_id] ?? line.unit_cost}
+                      onChange={(e) => setCosts(prev => ({ ...prev, [line.product_id]: Math.max(0, Number(e.target.value) || 0) }))}
+                      aria-label={`Invoiced unit cost of ${line.product_name}`}
+                    />
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between items-center pt-2 border-t border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-white">
+          <span>This delivery</span>
+          <span>{formatCurrency(deliveryTotal)}</span>
+        </div>
+        {Object.values(quantities).some(quantity => quantity > 0) && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 -mt-4">
+            {statusAfter === 'received' ? 'This delivery completes the order.' : 'The order stays open for the remaining quantities.'}
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button onClick={handleSubmit} loading={isSubmitting} disabled={isSubmitting}>
+            Confirm Delivery
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
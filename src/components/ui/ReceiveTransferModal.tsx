@@ -0,0 +1,157 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PackageCheck, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { apiService } from '../../services/api';
+import { StockTransfer } from '../../types';
+import { getTransferDiscrepancies } from '../../utils/transferUtils';
+
+interface ReceiveTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transfer: StockTransfer | null;
+  onReceived?: (transfer: StockTransfer) => void;
+}
+
+export const ReceiveTransferModal: React.FC<ReceiveTransferModalProps> = ({
+  isOpen,
+  onClose,
+  transfer,
+  onReceived
+}) => {
+  const [received, setReceived] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from the dispatched quantities; staff only change what they counted differently
+  useEffect(() => {
+    if (!isOpen || !transfer) return;
+    const counted: Record<string, number> = {};
+    transfer.lines.forEach(line => {
+      counted[line.product_id] = line.quantity;
+    });
+    setReceived(counted);
+    setNotes({});
+  }, [isOpen, transfer]);
+
+  const countedLines = useMemo(
+    () => (transfer?.lines || []).map(line => ({
+      ...line,
+      received_quantity: received[line.product_id] ?? line.quantity,
+      note: notes[line.product_id]?.trim() || undefined,
+    })),
+    [transfer, received, notes]
+  );
+
+  const discrepancies = getTransferDiscrepancies(countedLines);
+
+  if (!transfer) return null;
+
+  const handleSubmit = async () => {
+    if (discrepancies.some(entry => !entry.note)) {
+      toast.error('Add a note for every line that does not match');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const updated = await apiService.receiveStockTransfer(
+        transfer._id,
+        countedLines.map(line => ({
+          product_id: line.product_id,
+          received_quantity: line.received_quantity,
+          note: line.note,
+        }))
+      );
+      if (discrepancies.length > 0) {
+        toast.error(`Received with ${discrepancies.length} discrepanc${discrepancies.length === 1 ? 'y' : 'ies'}`);
+      } else {
+        toast.success(`Transfer ${transfer.transfer_number} received`);
+      }
+      onReceived?.(updated);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to receive stock transfer:', error);
+      toast.error(error.message || 'Failed to receive stock transfer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Receive ${transfer.transfer_number}`}
+      size="lg"
+      headerIcon={<PackageCheck className="h-5 w-5" />}
+      headerColor="success"
+    >
+      <div className="space-y-6">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Count what arrived from {transfer.from_store_name || 'the sending store'}. Only the quantities entered here are added to stock.
+        </p>
+
+        <div className="space-y-3">
+          {countedLines.map(line => {
+            const isShort = line.received_quantity !== line.quantity;
+            return (
+              <div
+                key={line.product_id}
+                className={`p-4 rounded-lg ${isShort ? 'bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800' : 'bg-gray-50 dark:bg-gray-800'}`}
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{line.product_name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {line.quantity} sent{line.barcode ? ` · ${line.barcode}` : ''}
+                    </p>
+                  </div>
+                  <div className="w-24 flex-shrink-0">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={line.received_quantity}
+                      onChange={(e) => setReceived(prev => ({ ...prev, [line.product_id]: Math.max(0, Number(e.target.value) || 0) }))}
+                      selectOnFocus
+                      aria-label={`Quantity of ${line.product_name} received`}
+                    />
+                  </div>
+                </div>
+                {isShort && (
+                  <div className="mt-2">
+                    <Input
+                      value={notes[line.product_id] || ''}
+                      onChange={(e) => setNotes(prev => ({ ...prev, [line.product_id]: e.target.value }))}
+                      placeholder="What happened? e.g. 2 broken in transit"
+                      aria-label={`Discrepancy note for ${line.product_name}`}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {discrepancies.length > 0 && (
+          <div className="flex items-start space-x-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              {discrepancies.length} line{discrepancies.length === 1 ? '' : 's'} will be flagged as a discrepancy on this transfer.
+            </span>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button onClick={handleSubmit} loading={isSubmitting} disabled={isSubmitting}>
+            Confirm Receipt
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
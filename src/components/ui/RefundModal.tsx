@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RotateCcw, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { RefundReceipt } from './RefundReceipt';
+import { useApp } from '../../context/AppContext';
+import { apiService } from '../../services/api';
+import { Transaction, Refund } from '../../types';
+import { useLocale } from '../../hooks/useLocale';
+import { formatCurrency, roundCurrency } from '../../utils/formatUtils';
+import { isSoldByWeight, roundWeight } from '../../utils/scaleBarcodeUtils';
+import {
+  getReturnableLines,
+  buildRefundItems,
+  allocateRefundToPaymentMethods,
+  sumRefundAmounts,
+} from '../../utils/refundUtils';
+
+interface RefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transaction: Transaction | null;
+  onRefunded?: (refund: Refund) => void;
+}
+
+const paymentLabels: Record<string, string> = {
+  cash: 'Cash',
+  pos_isbank_transfer: 'POS',
+  naira_transfer: 'Transfer',
+  crypto_payment: 'Crypto',
+  card: 'Card',
+};
+
+export const RefundModal: React.FC<RefundModalProps> = ({
+  isOpen,
+  onClose,
+  transaction,
+  onRefunded
+}) => {
+  const { refundTransaction } = useApp();
+  const { formatDateTime } = useLocale();
+  const [previousRefunds, setPreviousRefunds] = useState<Refund[]>([]);
+  const [isLoadingRefunds, setIsLoadingRefunds] = useState(false);
+  const [quantities, setQuantities] = useState<number[]>([]);
+  const [restock, setRestock] = useState<boolean[]>([]);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [completedRefund, setCompletedRefund] = useState<Refund | null>(null);
+
+  // Load earlier refunds so only what is left on the sale can be returned
+  useEffect(() => {
+    if (!isOpen || !transaction) return;
+
+    let cancelled = false;
+    setCompletedRefund(null);
+    setReason('');
+    setIsLoadingRefunds(true);
+
+    apiService.getRefunds({ transaction_id: transaction._id })
+      .then(refunds => {
+        if (!cancelled) setPreviousRefunds(refunds);
+      })
+      .catch(error => {
+        console.error('Failed to load previous refunds:', error);
+        if (!cancelled) setPreviousRefunds([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingRefunds(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, transaction]);
+
+  const lines = useMemo(
+    () => (transaction ? getReturnableLines(transaction, previousRefunds) : []),
+    [transaction, previousRefunds]
+  );
+
+  useEffect(() => {
+    setQuantities(lines.map(() => 0));
+    setRestock(lines.map(() => true));
+  }, [lines]);
+
+  const refundItems = useMemo(
+    () => (transaction ? buildRefundItems(transaction, lines, quantities, restock) : []),
+    [transaction, lines, quantities, restock]
+  );
+
+  const refundTotal = roundCurrency(refundItems.reduce((sum, item) => sum + item.total_price, 0));
+
+  const paymentSplit = useMemo(
+    () => (transaction && refundTotal > 0 ? allocateRefundToPaymentMethods(transaction, refundTotal, previousRefunds) : []),
+    [transaction, refundTotal, previousRefunds]
+  );
+
+  if (!transaction) return null;
+
+  const alreadyRefunded = sumRefundAmounts(previousRefunds);
+  const hasReturnableItems = lines.some(line => line.remaining > 0);
+
+  const setLineQuantity = (index: number, value: number) => {
+    const line = lines[index];
+    // Weighed lines can be returned in part, to the gram
+    const wanted = isSoldByWeight(line) ? roundWeight(value) : Math.floor(value);
+    const quantity = Math.min(Math.max(0, wanted || 0), line.remaining);
+    setQuantities(prev => prev.map((q, i) => (i === index ? quantity : q)));
+  };
+
+  const returnAll = () => {
+    setQuantities(lines.map(line => line.remaining));
+  };
+
+  const handleSubmit = async () => {
+    if (refundItems.length === 0) {
+      toast.error('Select at least one item to return');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const refund = await refundTransaction(transaction, refundItems, previousRefunds, reason.trim() || undefined);
+      setCompletedRefund(refund);
+      toast.success(`Refunded ${formatCurrency(refund.total_amount)}`);
+      onRefunded?.(refund);
+    } catch (error: any) {
+      console.error('Failed to process refund:', error);
+      toast.error(error.message || 'Failed to process refund');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (completedRefund) {
+    return (
+      <Modal isOpen={isOpen} onClose={onClose} title="Refund Receipt" size="md">
+        <RefundReceipt refund={completedRefund} onClose={onClose} />
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Return Items"
+      size="lg"
+      headerIcon={<RotateCcw className="h-5 w-5" />}
+      headerColor="warning"
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+          <span>
+            Sale <span className="font-mono">#{transaction._id.slice(-8)}</span> · {formatDateTime(transaction.created_at)}
+          </span>
+          <span>Paid {formatCurrency(transaction.total_amount)}</span>
+        </div>
+
+        {alreadyRefunded > 0 && (
+          <div className="flex items-start space-x-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{formatCurrency(alreadyRefunded)} has already been refunded on this sale.</span>
+          </div>
+        )}
+
+        {isLoadingRefunds ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">Loading sale...</p>
+        ) : !hasReturnableItems ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">Everything on this sale has already been returned.</p>
+        ) : (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Items</h3>
+              <button
+                type="button"
+                onClick={returnAll}
+                className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+              >
+                Return all
+              </button>
+            </div>
+            <div className="space-y-3">
+              {lines.map((line, index) => (
+                <div key={`${line.product_id}-${index}`} className="bg-gray-50 dark:bg-gray-800 p-4 rounded-lg">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{line.product_name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {line.sold} sold × {formatCurrency(line.unit_price)}
+                        {line.refunded > 0 && ` · ${line.refunded} already returned`}
+                      </p>
+                    </div>
+                    <div className="w-24 flex-shrink-0">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={line.remaining}
+                        step={isSoldByWeight(line) ? 0.001 : 1}
+                        value={quantities[index] ?? 0}
+                        onChange={(e) => setLineQuantity(index, Number(e.target.value))}
+                        disabled={line.remaining === 0}
+                        selectOnFocus
+                        aria-label={`Quantity of ${line.product_name} to return`}
+                      />
+                    </div>
+                  </div>
+                  {(quantities[index] || 0) > 0 && (
+                    <label className="flex items-center mt-2 text-xs text-gray-600 dark:text-gray-400">
+                      <input
+                        type="checkbox"
+                        checked={restock[index] !== false}
+                        onChange={(e) => setRestock(prev => prev.map((r, i) => (i === index ? e.target.checked : r)))}
+                        className="mr-2 rounded border-gray-300 dark:border-gray-600"
+                      />
+                      Put back into stock
+                    </label>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Input
+          label="Reason (optional)"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Damaged packaging"
+        />
+
+        {refundTotal > 0 && (
+          <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-1">
+            {paymentSplit.map(method => (
+              <div key={method.type} className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>Pay back via {paymentLabels[method.type] || method.type}</span>
+                <span>{formatCurrency(method.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-white">
+              <span>Refund total</span>
+              <span className="text-red-600 dark:text-red-400">{formatCurrency(refundTotal)}</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button
+            variant="danger"
+            onClick={handleSubmit}
+            loading={isSubmitting}
+            disabled={isSubmitting || refundTotal <= 0}
+          >
+            Refund {refundTotal > 0 ? formatCurrency(refundTotal) : ''}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
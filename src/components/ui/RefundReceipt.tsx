@@ -0,0 +1,84 @@
+import React, { forwardRef } from 'react';
+import { Refund, PaymentMethod } from '../../types';
+import { receiptPrintStyles } from './Receipt';
+import { useLocale } from '../../hooks/useLocale';
+
+interface RefundReceiptProps {
+  refund: Refund | null;
+  onClose?: () => void;
+}
+
+export const RefundReceipt = forwardRef<HTMLDivElement, RefundReceiptProps>(({ refund, onClose }, ref) => {
+  const { formatCurrency: formatPrice, formatDateTime } = useLocale();
+
+  if (!refund) return null;
+
+  return (
+    <>
+      <style>{receiptPrintStyles}</style>
+      <div ref={ref} className="receipt-print-content receipt-popup bg-white dark:bg-gray-800 p-6 rounded shadow-md max-w-md mx-auto text-gray-900 dark:text-white">
+      <h2 className="text-lg font-bold mb-2 text-center text-gray-900 dark:text-white">Greep Market</h2>
+      <div className="mb-2 text-xs text-center text-gray-600 dark:text-gray-400">Refund Receipt</div>
+      <div className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+        <div><b className="text-gray-900 dark:text-white">Refund #:</b> <span className="font-mono">{refund._id}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Original Receipt #:</b> <span className="font-mono">{refund.transaction_id}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Cashier:</b> <span>{refund.cashier_id}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Date:</b> <span>{formatDateTime(refund.created_at)}</span></div>
+        {refund.reason && <div><b className="text-gray-900 dark:text-white">Reason:</b> <span>{refund.reason}</span></div>}
+      </div>
+
+      <div className="border-t border-b border-gray-300 dark:border-gray-600 py-2 mb-2 text-xs">
+        <div className="font-semibold text-gray-900 dark:text-white">Returned Items</div>
+        <table className="w-full text-xs mt-1">
+          <thead>
+            <tr className="text-left text-gray-700 dark:text-gray-300">
+              <th className="text-gray-900 dark:text-white">Qty</th>
+              <th className="text-gray-900 dark:text-white">Item</th>
+              <th className="text-right text-gray-900 dark:text-white">Unit</th>
+              <th className="text-right text-gray-900 dark:text-white">Refund</th>
+            </tr>
+          </thead>
+          <tbody>
+            {refund.items.map((item, i) => (
+              <tr key={i} className="text-gray-700 dark:text-gray-300">
+                <td>{item.quantity}</td>
+                <td>
+                  {item.product_name || item.product_id}
+                  {!item.restock && <span className="text-gray-500 dark:text-gray-400"> (not restocked)</span>}
+                </td>
+                <td className="text-right">{formatPrice(item.unit_price)}</td>
+                <td className="text-right">-{formatPrice(item.total_price)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {refund.payment_methods.map((method: PaymentMethod, i: number) => (
+        <div key={i} className="mb-1 flex justify-between text-sm text-gray-700 dark:text-gray-300">
+          <span>Refunded to {method.type}:</span> <span className="text-gray-900 dark:text-white font-medium">{formatPrice(method.amount)}</span>
+        </div>
+      ))}
+      <div className="mb-2 flex justify-between text-base font-bold border-t border-gray-300 dark:border-gray-600 pt-2 text-gray-900 dark:text-white">
+        <span>Total Refund:</span> <span className="text-red-600 dark:text-red-400">-{formatPrice(refund.total_amount)}</span>
+      </div>
+      <div className="receipt-no-print mt-4 flex justify-center gap-3">
+        <button
+          className="bg-primary-600 hover:bg-primary-700 dark:bg-primary-500 dark:hover:bg-primary-600 text-white py-1 px-3 text-xs rounded transition-colors"
+          onClick={() => {
+            window.print();
+          }}
+        >
+          Print
+        </button>
+        {onClose && (
+          <button className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 px-3 py-1 text-xs rounded transition-colors" onClick={onClose}>Close</button>
+        )}
+      </div>
+      </div>
+    </>
+  );
+});
+
+RefundReceipt.displayName = 'RefundReceipt';
+
+export default RefundReceipt;
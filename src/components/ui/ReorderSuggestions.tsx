@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Calculator, RefreshCw, CheckCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { LoadingSpinner } from './LoadingSpinner';
+import { apiService } from '../../services/api';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import { getLastNDaysRange, normalizeDateToYYYYMMDD } from '../../utils/timezoneUtils';
+import {
+  DEFAULT_REVIEW_PERIOD_DAYS,
+  ReorderSuggestion,
+  ServiceLevel,
+  buildReorderSuggestions,
+  hasReorderPointChanged,
+} from '../../utils/replenishmentUtils';
+
+interface ReorderSuggestionsProps {
+  storeId: string;
+  onApplied?: () => void;
+}
+
+const LOOKBACK_OPTIONS = [14, 30, 60, 90];
+const SERVICE_LEVEL_OPTIONS: ServiceLevel[] = [90, 95, 99];
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm';
+
+export const ReorderSuggestions: React.FC<ReorderSuggestionsProps> = ({ storeId, onApplied }) => {
+  const [lookbackDays, setLookbackDays] = useState(30);
+  const [serviceLevel, setServiceLevel] = useState<ServiceLevel>(95);
+  const [reviewPeriodDays, setReviewPeriodDays] = useState(DEFAULT_REVIEW_PERIOD_DAYS);
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const loadSuggestions = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      const { start, end } = getLastNDaysRange(lookbackDays);
+      const [productResponse, velocity, wholesalerResponse] = await Promise.all([
+        apiService.getProducts({ store_id: storeId }),
+        apiService.getFastestMovingProducts({
+          store_id: storeId,
+          start_date: normalizeDateToYYYYMMDD(start),
+          end_date: normalizeDateToYYYYMMDD(end),
+        }),
+        apiService.getWholesalers({ store_id: storeId, limit: 100 }),
+      ]);
+
+      const next = buildReorderSuggestions(
+        productResponse.products,
+        velocity,
+        wholesalerResponse?.wholesalers || [],
+        { lookbackDays, serviceLevel, reviewPeriodDays }
+      );
+      setSuggestions(next);
+
+      // Preselect every product whose minimum level differs from the suggestion
+      const initial: Record<string, boolean> = {};
+      next.forEach(suggestion => {
+        if (hasReorderPointChanged(suggestion)) initial[suggestion.product_id] = true;
+      });
+      setSelected(initial);
+    } catch (error) {
+      console.error('Failed to load reorder suggestions:', error);
+      toast.error('Failed to load reorder suggestions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, lookbackDays, serviceLevel, reviewPeriodDays]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const selectedSuggestions = suggestions.filter(suggestion => selected[suggestion.product_id]);
+  const changedSuggestions = suggestions.filter(hasReorderPointChanged);
+  const allChangedSelected = changedSuggestions.length > 0 && changedSuggestions.every(suggestion => selected[suggestion.product_id]);
+
+  const toggleAll = () => {
+    const next: Record<string, boolean> = {};
+    if (!allChangedSelected) {
+      changedSuggestions.forEach(suggestion => {
+        next[suggestion.product_id] = true;
+      });
+    }
+    setSelected(next);
+  };
+
+  // There is no bulk product endpoint, so updates go one at a time
+  const handleApply = async () => {
+    if (selectedSuggestions.length === 0) return;
+    setIsApplying(true);
+    let applied = 0;
+    const failed: string[] = [];
+    for (const suggestion of selectedSuggestions) {
+      try {
+        await apiService.updateProduct(suggestion.product_id, { min_stock_level: suggestion.reorder_point });
+        applied += 1;
+      } catch (error) {
+        console.error(`Failed to update minimum stock for ${suggestion.product_name}:`, error);
+        failed.push(suggestion.product_name);
+      }
+    }
+    setIsApplying(false);
+
+    if (applied > 0) {
+      toast.success(`Updated minimum stock for ${applied} product${applied === 1 ? '' : 's'}`);
+      onApplied?.();
+    }
+    if (failed.length > 0) {
+      toast.error(`Could not update ${failed.join(', ')}`);
+    }
+    loadSuggestions();
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-primary-100 dark:bg-primary-900/20 rounded-lg flex items-center justify-center">
+            <Calculator className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+          </div>
+          <div>
+            <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Suggested Reorder Points</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Based on average daily sales, wholesaler lead time and safety stock
+            </p>
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="outline" size="sm" onClick={loadSuggestions} disabled={isLoading || isApplying}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Recalculate
+          </Button>
+          <Button size="sm" onClick={handleApply} loading={isApplying} disabled={isApplying || selectedSuggestions.length === 0}>
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Apply {selectedSuggestions.length}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Sales history</label>
+          <select value={lookbackDays} onChange={(e) => setLookbackDays(Number(e.target.value))} className={selectClassName}>
+            {LOOKBACK_OPTIONS.map(days => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Service level</label>
+          <select value={serviceLevel} onChange={(e) => setServiceLevel(Number(e.target.value) as ServiceLevel)} className={selectClassName}>
+            {SERVICE_LEVEL_OPTIONS.map(level => (
+              <option key={level} value={level}>{level}% in stock</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Order every</label>
+          <select value={reviewPeriodDays} onChange={(e) => setReviewPeriodDays(Number(e.target.value))} className={selectClassName}>
+            {[1, 3, 7, 14, 30].map(days => (
+              <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : suggestions.length === 0 ? (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+          No sales in the last {lookbackDays} days to base suggestions on.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                <th className="py-2 px-2 text-left w-8">
+                  <input
+                    type="checkbox"
+                    checked={allChangedSelected}
+                    onChange={toggleAll}
+                    disabled={changedSuggestions.length === 0}
+                    aria-label="Select all changed products"
+                  />
+                </th>
+                <th className="py-2 px-2 text-left">Product</th>
+                <th className="py-2 px-2 text-right">In Stock</th>
+                <th className="py-2 px-2 text-right">Avg / Day</th>
+                <th className="py-2 px-2 text-right">Lead Time</th>
+                <th className="py-2 px-2 text-right">Safety Stock</th>
+                <th className="py-2 px-2 text-right">Current Min</th>
+                <th className="py-2 px-2 text-right">Suggested Min</th>
+                <th className="py-2 px-2 text-right">Order Qty</th>
+              </tr>
+            </thead>
+            <tbody>
+              {suggestions.map(suggestion => {
+                const isDue = suggestion.stock_quantity <= suggestion.reorder_point;
+                const changed = hasReorderPointChanged(suggestion);
+                return (
+                  <tr key={suggestion.product_id} className="border-b border-gray-100 dark:border-gray-700 text-sm text-gray-900 dark:text-white">
+                    <td className="py-2 px-2">
+                      <input
+                        type="checkbox"
+                        checked={!!selected[suggestion.product_id]}
+                        onChange={(e) => setSelected(prev => ({ ...prev, [suggestion.product_id]: e.target.checked }))}
+                        disabled={!changed}
+                        aria-label={`Apply suggestion for ${suggestion.product_name}`}
+                      />
+                    </td>
+                    <td className="py-2 px-2">
+                      {suggestion.product_name}
+                      {isDue && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
+                          Reorder now
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 px-2 text-right">{formatStockQuantity(suggestion.stock_quantity)} {suggestion.unit}</td>
+                    <td className="py-2 px-2 text-right">{suggestion.avg_daily_demand}</td>
+                    <td className="py-2 px-2 text-right">{suggestion.lead_time_days}d</td>
+                    <td className="py-2 px-2 text-right">{suggestion.safety_stock}</td>
+                    <td className="py-2 px-2 text-right text-gray-500 dark:text-gray-400">{suggestion.min_stock_level}</td>
+                    <td className={`py-2 px-2 text-right font-semibold ${changed ? 'text-primary-600 dark:text-primary-400' : ''}`}>
+                      {suggestion.reorder_point}
+                    </td>
+                    <td className="py-2 px-2 text-right">{suggestion.order_quantity > 0 ? suggestion.order_quantity : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -9,12 +9,13 @@ import { GlassmorphismIcon } from './GlassmorphismIcon';
 import { Rider, RiderCashTransaction } from '../../types';
 import { sanitizePhoneNumber, isValidPhoneNumber, formatPhoneNumber } from '../../utils/phoneUtils';
 import { RiderCashHistory } from './RiderCashHistory';
+import { RiderReconciliationModal } from './RiderReconciliationModal';
+import { useStore } from '../../context/StoreContext';
 
 interface RiderManagementProps {
   riders: Rider[];
   onAddRider: (rider: Omit<Rider, '_id' | 'created_at' | 'updated_at'>) => Promise<void>;
   onUpdateRider: (id: string, updates: Partial<Rider>) => Promise<void>;
-  onReconcileRider: (id: string, amount: number) => Promise<void>;
   onGiveCashToRider: (id: string, amount: number) => Promise<void>;
   onLoadCashTransactions?: (riderId: string) => Promise<RiderCashTransaction[]>;
 }
@@ -23,10 +24,10 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
   riders,
   onAddRider,
   onUpdateRider,
-  onReconcileRider,
   onGiveCashToRider,
   onLoadCashTransactions,
 }) => {
+  const { currentStore } = useStore();
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isReconcileModalOpen, setIsReconcileModalOpen] = useState(false);
@@ -44,7 +45,6 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
     is_active: true,
   });
 
-  const [reconcileAmount, setReconcileAmount] = useState('');
   const [giveCashAmount, setGiveCashAmount] = useState('');
 
   const filteredRiders = riders.filter(rider =>
@@ -75,7 +75,7 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
         total_delivered: 0,
         total_reconciled: 0,
         pending_reconciliation: 0,
-        store_id: 'default-store', // This should come from context
+        store_id: currentStore?._id || 'default-store',
       });
       
       setRiderForm({ name: '', phone: '', email: '', is_active: true });
@@ -111,45 +111,6 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
     }
   };
 
-  const handleReconcile = async () => {
-    if (!selectedRider || !reconcileAmount) return;
-
-    const amount = parseFloat(reconcileAmount);
-    if (amount <= 0) {
-      toast.error('Reconciliation amount must be positive');
-      return;
-    }
-
-    try {
-      await onReconcileRider(selectedRider._id, amount);
-      
-      // Create a cash transaction record for history tracking
-      const newTransaction: RiderCashTransaction = {
-        _id: `temp_${Date.now()}`, // Temporary ID, will be replaced by backend
-        rider_id: selectedRider._id,
-        rider_name: selectedRider.name,
-        type: 'reconcile',
-        amount: amount,
-        description: `Reconciled ₺${amount.toFixed(2)} for ${selectedRider.name}`,
-        given_by: 'current_user', // This should come from auth context
-        given_by_name: 'Current User', // This should come from auth context
-        store_id: 'default-store', // This should come from context
-        created_at: new Date(),
-        updated_at: new Date(),
-      };
-      
-      // Add to local transactions for immediate UI update
-      setCashTransactions(prev => [newTransaction, ...prev]);
-      
-      setReconcileAmount('');
-      setIsReconcileModalOpen(false);
-      setSelectedRider(null);
-      toast.success(`Reconciled ₺${amount.toFixed(2)} for ${selectedRider.name}`);
-    } catch (error) {
-      toast.error('Failed to reconcile rider');
-    }
-  };
-
   const handleGiveCash = async () => {
     if (!selectedRider || !giveCashAmount) return;
 
@@ -172,7 +133,7 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
         description: `Cash given to ${selectedRider.name}`,
         given_by: 'current_user', // This should come from auth context
         given_by_name: 'Current User', // This should come from auth context
-        store_id: 'default-store', // This should come from context
+        store_id: currentStore?._id || 'default-store',
         created_at: new Date(),
         updated_at: new Date(),
       };
@@ -202,7 +163,6 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
 
   const openReconcileModal = (rider: Rider) => {
     setSelectedRider(rider);
-    setReconcileAmount(rider.pending_reconciliation.toString());
     setIsReconcileModalOpen(true);
   };
 
@@ -472,54 +432,15 @@ export const RiderManagement: React.FC<RiderManagementProps> = ({
         </div>
       </Modal>
 
-      {/* Reconcile Modal */}
-      <Modal
+      {/* End-of-day Reconciliation Modal */}
+      <RiderReconciliationModal
+        rider={selectedRider}
         isOpen={isReconcileModalOpen}
-        onClose={() => setIsReconcileModalOpen(false)}
-        title={`Reconcile ${selectedRider?.name}`}
-        size="md"
-      >
-        <div className="space-y-4">
-          <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
-            <h4 className="font-semibold text-gray-900 dark:text-white mb-2">Current Status</h4>
-            <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">Current Balance:</span>
-                <span className="font-semibold">₺{selectedRider?.current_balance.toFixed(2)}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600 dark:text-gray-400">Pending Reconciliation:</span>
-                <span className="font-semibold text-orange-600">₺{selectedRider?.pending_reconciliation.toFixed(2)}</span>
-              </div>
-            </div>
-          </div>
-          
-          <Input
-            label="Reconciliation Amount"
-            type="number"
-            value={reconcileAmount}
-            onChange={(e) => setReconcileAmount(e.target.value)}
-            placeholder="Enter amount to reconcile"
-          />
-          
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            This will reduce the rider's pending reconciliation by the specified amount.
-          </p>
-          
-          <div className="flex space-x-3 pt-4">
-            <Button
-              variant="outline"
-              onClick={() => setIsReconcileModalOpen(false)}
-              className="flex-1"
-            >
-              Cancel
-            </Button>
-            <Button onClick={handleReconcile} className="flex-1">
-              Reconcile
-            </Button>
-          </div>
-        </div>
-      </Modal>
+        onClose={() => {
+          setIsReconcileModalOpen(false);
+          setSelectedRider(null);
+        }}
+      />
 
       {/* Give Cash Modal */}
       {isGiveCashModalOpen && selectedRider && (
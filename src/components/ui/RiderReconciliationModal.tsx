@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ClipboardCheck, Package, ArrowUpRight } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { LoadingSpinner } from './LoadingSpinner';
+import { RiderReconciliationSlip } from './RiderReconciliationSlip';
+import { useRiders } from '../../context/RiderContext';
+import { useLocale } from '../../hooks/useLocale';
+import { Rider, RiderCashTransaction, RiderReconciliation } from '../../types';
+import { getZonedDateKey } from '../../utils/localeUtils';
+import { roundCurrency } from '../../utils/formatUtils';
+import { summarizeRiderDay } from '../../utils/riderReconciliationUtils';
+import { calculateVariance, describeVariance } from '../../utils/shiftUtils';
+
+interface RiderReconciliationModalProps {
+  rider: Rider | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const RiderReconciliationModal: React.FC<RiderReconciliationModalProps> = ({ rider, isOpen, onClose }) => {
+  const { loadRiderTransactions, loadRiderReconciliation, reconcileRiderDay } = useRiders();
+  const { settings, formatCurrency, formatTime } = useLocale();
+  const today = getZonedDateKey(new Date(), settings.timezone);
+  const [date, setDate] = useState(today);
+  const [transactions, setTransactions] = useState<RiderCashTransaction[]>([]);
+  const [reconciliation, setReconciliation] = useState<RiderReconciliation | null>(null);
+  const [returnedCash, setReturnedCash] = useState('');
+  const [reason, setReason] = useState('');
+  const [riderConfirmed, setRiderConfirmed] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const summary = summarizeRiderDay(transactions, date, settings.timezone);
+  const returned = roundCurrency(parseFloat(returnedCash) || 0);
+  const variance = calculateVariance(returned, summary.expected_cash);
+
+  const loadDay = useCallback(async () => {
+    if (!rider) return;
+    setIsLoading(true);
+    try {
+      // A day that is already signed off just shows its slip again
+      const [dayTransactions, existing] = await Promise.all([
+        loadRiderTransactions(rider._id, date),
+        loadRiderReconciliation(rider._id, date),
+      ]);
+      setTransactions(dayTransactions);
+      setReconciliation(existing);
+      setReturnedCash(String(summarizeRiderDay(dayTransactions, date, settings.timezone).expected_cash));
+    } catch (error) {
+      console.error('Failed to load rider day:', error);
+      toast.error('Failed to load the rider\'s cash for this day');
+      setTransactions([]);
+      setReconciliation(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rider, date, settings.timezone, loadRiderTransactions, loadRiderReconciliation]);
+
+  useEffect(() => {
+    if (isOpen) loadDay();
+  }, [isOpen, loadDay]);
+
+  useEffect(() => {
+    if (isOpen) return;
+    setDate(today);
+    setTransactions([]);
+    setReconciliation(null);
+    setReason('');
+    setRiderConfirmed(false);
+  }, [isOpen, today]);
+
+  const varianceClass = (value: number) => {
+    const label = describeVariance(value);
+    if (label === 'Short') return 'text-red-600 dark:text-red-400';
+    if (label === 'Over') return 'text-amber-600 dark:text-amber-400';
+    return 'text-green-600 dark:text-green-400';
+  };
+
+  const handleSave = async () => {
+    if (!rider) return;
+    if (returnedCash.trim() === '' || returned < 0) {
+      toast.error('Enter the cash the rider handed in');
+      return;
+    }
+    if (variance !== 0 && !reason.trim()) {
+      toast.error(`Give a reason for the ${describeVariance(variance).toLowerCase()}`);
+      return;
+    }
+    if (!riderConfirmed) {
+      toast.error('Count the cash with the rider before signing off');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await reconcileRiderDay(rider._id, {
+        date,
+        returned_cash: returned,
+        reason: reason.trim() || undefined,
+      });
+      setReconciliation(saved);
+    } catch {
+      // Toast already shown by the context
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen && !!rider}
+      onClose={onClose}
+      title={reconciliation ? 'Reconciliation Slip' : `End of Day - ${rider?.name || ''}`}
+      size="md"
+      headerIcon={<ClipboardCheck className="h-5 w-5" />}
+    >
+      {rider && (
+        <div className="space-y-4">
+          <Input
+            label="Day"
+            type="date"
+            value={date}
+            max={today}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            disabled={isSaving}
+          />
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <LoadingSpinner size="md" className="mr-3" />
+              <span className="text-gray-500 dark:text-gray-400">Loading cash ledger...</span>
+            </div>
+          ) : reconciliation ? (
+            <RiderReconciliationSlip reconciliation={reconciliation} onClose={onClose} />
+          ) : (
+            <>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Deliveries</h4>
+                {summary.deliveries.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No deliveries on this day</p>
+                ) : (
+                  <div className="max-h-48 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+                    {summary.deliveries.map((delivery, index) => (
+                      <div key={delivery.order_id || index} className="flex items-center justify-between py-2 text-sm">
+                        <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                          <Package className="h-4 w-4 text-purple-600" />
+                          <span>{delivery.order_number || 'Delivery'}</span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400">{formatTime(delivery.delivered_at)}</span>
+                        </div>
+                        <span className={delivery.cash_collected > 0 ? 'font-medium text-gray-900 dark:text-white' : 'text-xs text-gray-500 dark:text-gray-400'}>
+                          {delivery.cash_collected > 0 ? formatCurrency(delivery.cash_collected) : 'Prepaid'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {summary.floats.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Float Given</h4>
+                  {summary.floats.map(float => (
+                    <div key={float._id} className="flex items-center justify-between py-1 text-sm">
+                      <div className="flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                        <ArrowUpRight className="h-4 w-4 text-green-600" />
+                        <span>{float.given_by_name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">{formatTime(float.created_at)}</span>
+                      </div>
+                      <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(float.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3 space-y-1 text-sm">
+                <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                  <span>Float given</span><span>{formatCurrency(summary.float_given)}</span>
+                </div>
+                <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                  <span>Cash collected</span><span>{formatCurrency(summary.cash_collected)}</span>
+                </div>
+                <div className="flex justify-between font-semibold text-gray-900 dark:text-white pt-1 border-t border-gray-200 dark:border-gray-600">
+                  <span>Expected back</span><span>{formatCurrency(summary.expected_cash)}</span>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <Input
+                  label="Cash Handed In"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={returnedCash}
+                  onChange={(e) => setReturnedCash(e.target.value)}
+                  selectOnFocus
+                />
+                <div className="pb-2">
+                  <p className="text-xs text-gray-600 dark:text-gray-400">{describeVariance(variance)}</p>
+                  <p className={`text-lg font-semibold ${varianceClass(variance)}`}>{formatCurrency(variance)}</p>
+                </div>
+              </div>
+
+              <Input
+                label={variance !== 0 ? 'Reason' : 'Reason (Optional)'}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Customer paid short, fuel paid from float"
+              />
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={riderConfirmed}
+                  onChange={(e) => setRiderConfirmed(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Counted with {rider.name}, who agrees with this amount
+              </label>
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+                <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} loading={isSaving} disabled={isSaving || (summary.expected_cash === 0 && returned === 0)}>
+                  Sign Off & Print Slip
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { forwardRef } from 'react';
+import { RiderReconciliation } from '../../types';
+import { receiptPrintStyles } from './Receipt';
+import { useLocale } from '../../hooks/useLocale';
+import { describeVariance } from '../../utils/shiftUtils';
+
+interface RiderReconciliationSlipProps {
+  reconciliation: RiderReconciliation;
+  onClose?: () => void;
+}
+
+export const RiderReconciliationSlip = forwardRef<HTMLDivElement, RiderReconciliationSlipProps>(({ reconciliation, onClose }, ref) => {
+  const { formatCurrency: formatPrice, formatDate, formatDateTime, formatTime } = useLocale();
+
+  const row = (label: string, value: string, bold = false) => (
+    <div className={`mb-1 flex justify-between text-sm text-gray-700 dark:text-gray-300 ${bold ? 'font-bold' : ''}`}>
+      <span>{label}</span> <span className="text-gray-900 dark:text-white font-medium">{value}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <style>{receiptPrintStyles}</style>
+      <div ref={ref} className="receipt-print-content bg-white dark:bg-gray-800 p-6 rounded shadow-md max-w-sm mx-auto text-gray-900 dark:text-white">
+      <h2 className="text-lg font-bold mb-2 text-center text-gray-900 dark:text-white">Greep Market</h2>
+      <div className="mb-2 text-xs text-center text-gray-600 dark:text-gray-400">Rider Cash Reconciliation</div>
+      <div className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+        <div><b className="text-gray-900 dark:text-white">Rider:</b> <span>{reconciliation.rider_name}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Day:</b> <span>{formatDate(`${reconciliation.date}T00:00:00`)}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Reconciled:</b> <span>{formatDateTime(reconciliation.created_at)}</span></div>
+      </div>
+
+      <div className="border-t border-b border-gray-300 dark:border-gray-600 py-2 mb-2">
+        {row(`Deliveries (${reconciliation.deliveries.length})`, formatPrice(reconciliation.cash_collected))}
+        {reconciliation.deliveries.map((delivery, index) => (
+          <div key={delivery.order_id || index} className="flex justify-between text-xs text-gray-600 dark:text-gray-400 pl-3">
+            <span>{delivery.order_number || 'Delivery'} · {formatTime(delivery.delivered_at)}</span>
+            <span>{delivery.cash_collected > 0 ? formatPrice(delivery.cash_collected) : 'Prepaid'}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-b border-gray-300 dark:border-gray-600 pb-2 mb-2">
+        {row('Float Given', formatPrice(reconciliation.float_given))}
+        {row('Cash Collected', formatPrice(reconciliation.cash_collected))}
+      </div>
+
+      <div className="mb-3 flex justify-between text-base font-bold pt-1 text-gray-900 dark:text-white">
+        <span>Expected Back:</span> <span>{formatPrice(reconciliation.expected_cash)}</span>
+      </div>
+
+      <div className="border-t border-gray-300 dark:border-gray-600 pt-2 mb-2">
+        {row('Handed In', formatPrice(reconciliation.returned_cash))}
+        {row(`Variance (${describeVariance(reconciliation.variance)})`, formatPrice(reconciliation.variance), true)}
+        {reconciliation.reason && <p className="text-xs italic text-gray-600 dark:text-gray-400 mt-1">{reconciliation.reason}</p>}
+      </div>
+
+      <div className="mt-6 space-y-6 text-xs text-gray-600 dark:text-gray-400">
+        <div>
+          <div className="border-b border-gray-400 dark:border-gray-500 h-6"></div>
+          <div className="mt-1">Rider: {reconciliation.rider_name}</div>
+        </div>
+        <div>
+          <div className="border-b border-gray-400 dark:border-gray-500 h-6"></div>
+          <div className="mt-1">Signed off by: {reconciliation.signed_off_by_name || reconciliation.signed_off_by}</div>
+        </div>
+      </div>
+
+      <div className="receipt-no-print mt-4 flex justify-center gap-3">
+        <button
+          className="bg-primary-600 hover:bg-primary-700 dark:bg-primary-500 dark:hover:bg-primary-600 text-white py-1 px-3 text-xs rounded transition-colors"
+          onClick={() => {
+            window.print();
+          }}
+        >
+          Print
+        </button>
+        {onClose && (
+          <button className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 px-3 py-1 text-xs rounded transition-colors" onClick={onClose}>Close</button>
+        )}
+      </div>
+      </div>
+    </>
+  );
+});
+
+RiderReconciliationSlip.displayName = 'RiderReconciliationSlip';
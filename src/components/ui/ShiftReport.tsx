@@ -0,0 +1,110 @@
+import React, { forwardRef } from 'react';
+import { PaymentMethod, Shift } from '../../types';
+import { receiptPrintStyles } from './Receipt';
+import { useLocale } from '../../hooks/useLocale';
+import { CASH_MOVEMENT_LABELS, PAYMENT_METHOD_LABELS, ShiftSummary, describeVariance } from '../../utils/shiftUtils';
+
+interface ShiftReportProps {
+  kind: 'X' | 'Z'; // X is a mid-shift read that leaves the shift open; Z is the close-out
+  shift: Shift;
+  summary: ShiftSummary;
+  onClose?: () => void;
+}
+
+export const ShiftReport = forwardRef<HTMLDivElement, ShiftReportProps>(({ kind, shift, summary, onClose }, ref) => {
+  const { formatCurrency: formatPrice, formatDateTime } = useLocale();
+  const salesByMethod = kind === 'Z' && shift.sales_by_method ? shift.sales_by_method : summary.sales_by_method;
+  const expectedCash = kind === 'Z' && shift.expected_cash !== undefined ? shift.expected_cash : summary.expected_cash;
+  const variance = shift.variance || 0;
+
+  const row = (label: string, value: string, bold = false) => (
+    <div className={`mb-1 flex justify-between text-sm text-gray-700 dark:text-gray-300 ${bold ? 'font-bold' : ''}`}>
+      <span>{label}</span> <span className="text-gray-900 dark:text-white font-medium">{value}</span>
+    </div>
+  );
+
+  return (
+    <>
+      <style>{receiptPrintStyles}</style>
+      <div ref={ref} className="receipt-print-content bg-white dark:bg-gray-800 p-6 rounded shadow-md max-w-sm mx-auto text-gray-900 dark:text-white">
+      <h2 className="text-lg font-bold mb-2 text-center text-gray-900 dark:text-white">Greep Market</h2>
+      <div className="mb-2 text-xs text-center text-gray-600 dark:text-gray-400">{kind}-Report · {kind === 'X' ? 'Shift so far' : 'End of shift'}</div>
+      <div className="mb-4 text-sm text-gray-700 dark:text-gray-300">
+        <div><b className="text-gray-900 dark:text-white">Cashier:</b> <span>{shift.cashier_name || shift.cashier_id}</span></div>
+        <div><b className="text-gray-900 dark:text-white">Opened:</b> <span>{formatDateTime(shift.opened_at)}</span></div>
+        <div>
+          <b className="text-gray-900 dark:text-white">{kind === 'Z' ? 'Closed:' : 'Printed:'}</b>{' '}
+          <span>{formatDateTime(kind === 'Z' && shift.closed_at ? shift.closed_at : new Date())}</span>
+        </div>
+      </div>
+
+      <div className="border-t border-b border-gray-300 dark:border-gray-600 py-2 mb-2">
+        {row(`Sales (${summary.sales_count})`, formatPrice(summary.gross_sales))}
+        {(Object.keys(salesByMethod) as PaymentMethod['type'][]).map(type => (
+          <div key={type} className="flex justify-between text-xs text-gray-600 dark:text-gray-400 pl-3">
+            <span>{PAYMENT_METHOD_LABELS[type] || type}{type === 'cash' ? ' (net of change)' : ''}</span>
+            <span>{formatPrice(salesByMethod[type])}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-b border-gray-300 dark:border-gray-600 pb-2 mb-2">
+        {row('Opening Float', formatPrice(shift.opening_float))}
+        {row('Cash Sales', formatPrice(summary.cash_sales))}
+        {row('Cash Refunds', `-${formatPrice(summary.cash_refunds)}`)}
+        {row('Paid In', formatPrice(summary.paid_in))}
+        {row('Paid Out', `-${formatPrice(summary.payouts)}`)}
+        {row('Drops', `-${formatPrice(summary.drops)}`)}
+        {(shift.movements || []).map(movement => (
+          <div key={movement._id} className="flex justify-between text-xs text-gray-600 dark:text-gray-400 pl-3">
+            <span>{CASH_MOVEMENT_LABELS[movement.type]}{movement.reason ? ` – ${movement.reason}` : ''}</span>
+            <span>{formatPrice(movement.amount)}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-3 flex justify-between text-base font-bold pt-1 text-gray-900 dark:text-white">
+        <span>Expected Cash:</span> <span>{formatPrice(expectedCash)}</span>
+      </div>
+
+      {Object.keys(summary.foreign_cash).length > 0 && (
+        <div className="border-t border-gray-300 dark:border-gray-600 pt-2 mb-2">
+          {Object.keys(summary.foreign_cash).map(currency => (
+            <React.Fragment key={currency}>{row(`Foreign Cash (${currency})`, formatPrice(summary.foreign_cash[currency], currency))}</React.Fragment>
+          ))}
+        </div>
+      )}
+
+      {kind === 'Z' && shift.counted_cash !== undefined && (
+        <div className="border-t border-gray-300 dark:border-gray-600 pt-2 mb-2">
+          {row('Counted Cash', formatPrice(shift.counted_cash))}
+          {row(`Variance (${describeVariance(variance)})`, formatPrice(variance), true)}
+          {shift.closing_notes && <p className="text-xs italic text-gray-600 dark:text-gray-400 mt-1">{shift.closing_notes}</p>}
+          {shift.review_status && shift.review_status !== 'pending' && (
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+              {shift.review_status === 'approved' ? 'Approved' : 'Flagged'} by {shift.reviewed_by_name || shift.reviewed_by}
+              {shift.review_notes ? `: ${shift.review_notes}` : ''}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="receipt-no-print mt-4 flex justify-center gap-3">
+        <button
+          className="bg-primary-600 hover:bg-primary-700 dark:bg-primary-500 dark:hover:bg-primary-600 text-white py-1 px-3 text-xs rounded transition-colors"
+          onClick={() => {
+            window.print();
+          }}
+        >
+          Print
+        </button>
+        {onClose && (
+          <button className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-600 px-3 py-1 text-xs rounded transition-colors" onClick={onClose}>Close</button>
+        )}
+      </div>
+      </div>
+    </>
+  );
+});
+
+ShiftReport.displayName = 'ShiftReport';
@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Eye, RefreshCw, CheckCircle, Flag, FileText } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from './Card';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { LoadingSpinner } from './LoadingSpinner';
+import { ShiftReport } from './ShiftReport';
+import { useStore } from '../../context/StoreContext';
+import { useLocale } from '../../hooks/useLocale';
+import { useShiftSummary } from '../../hooks/useShiftSummary';
+import { apiService } from '../../services/api';
+import { Shift, ShiftReviewStatus } from '../../types';
+import { describeVariance } from '../../utils/shiftUtils';
+
+const REVIEW_STATUS_STYLES: Record<ShiftReviewStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  flagged: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const ShiftReviews: React.FC = () => {
+  const { currentStore } = useStore();
+  const { formatCurrency, formatDateTime } = useLocale();
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [reviewFilter, setReviewFilter] = useState<ShiftReviewStatus | ''>('pending');
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedShift, setSelectedShift] = useState<Shift | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { summary, isLoading: isSummaryLoading } = useShiftSummary(selectedShift);
+
+  const loadShifts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setShifts(await apiService.getShifts({
+        store_id: currentStore?._id,
+        status: 'closed',
+        review_status: reviewFilter || undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to load shifts:', error);
+      toast.error('Failed to load shifts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentStore?._id, reviewFilter]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  const openShift = (shift: Shift) => {
+    setSelectedShift(shift);
+    setReviewNotes(shift.review_notes || '');
+  };
+
+  const handleReview = async (status: Exclude<ShiftReviewStatus, 'pending'>) => {
+    if (!selectedShift) return;
+    if (status === 'flagged' && !reviewNotes.trim()) {
+      toast.error('Say why the shift is flagged');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const updated = await apiService.reviewShift(selectedShift._id, {
+        review_status: status,
+        review_notes: reviewNotes.trim() || undefined,
+      });
+      toast.success(status === 'approved' ? 'Shift signed off' : 'Shift flagged');
+      setShifts(prev => reviewFilter && reviewFilter !== status
+        ? prev.filter(shift => shift._id !== updated._id)
+        : prev.map(shift => shift._id === updated._id ? updated : shift));
+      setSelectedShift(null);
+    } catch (error: any) {
+      console.error('Failed to review shift:', error);
+      toast.error(error.message || 'Failed to review shift');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const varianceClass = (variance: number) => {
+    const label = describeVariance(variance);
+    if (label === 'Short') return 'text-red-600 dark:text-red-400';
+    if (label === 'Over') return 'text-amber-600 dark:text-amber-400';
+    return 'text-green-600 dark:text-green-400';
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <select
+            value={reviewFilter}
+            onChange={(e) => setReviewFilter(e.target.value as ShiftReviewStatus | '')}
+            title="Review status"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+          >
+            <option value="pending">Awaiting review</option>
+            <option value="flagged">Flagged</option>
+            <option value="approved">Signed off</option>
+            <option value="">All closed shifts</option>
+          </select>
+          <Button variant="outline" size="sm" onClick={loadShifts} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </Card>
+
+      <Card>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <LoadingSpinner size="lg" className="mr-4" />
+            <span className="text-gray-500 dark:text-gray-400 text-lg">Loading shifts...</span>
+          </div>
+        ) : shifts.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-8">No shifts to show.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Cashier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Closed</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Expected</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Counted</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Variance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">Review</th>
+                  <th className="px-6 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+                {shifts.map(shift => {
+                  const reviewStatus = shift.review_status || 'pending';
+                  return (
+                    <tr key={shift._id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                      <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">{shift.cashier_name || shift.cashier_id}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">{shift.closed_at ? formatDateTime(shift.closed_at) : '—'}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(shift.expected_cash || 0)}</td>
+                      <td className="px-6 py-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(shift.counted_cash || 0)}</td>
+                      <td className={`px-6 py-4 text-sm text-right font-semibold ${varianceClass(shift.variance || 0)}`}>
+                        {formatCurrency(shift.variance || 0)}
+                      </td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${REVIEW_STATUS_STYLES[reviewStatus]}`}>{reviewStatus}</span>
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <Button variant="ghost" size="sm" onClick={() => openShift(shift)} title="Review shift">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+
+      <Modal
+        isOpen={selectedShift !== null}
+        onClose={() => setSelectedShift(null)}
+        title="Shift Review"
+        size="lg"
+        headerIcon={<FileText className="h-5 w-5" />}
+      >
+        {selectedShift && (
+          <div className="space-y-4">
+            {isSummaryLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <LoadingSpinner size="md" />
+              </div>
+            ) : (
+              <ShiftReport kind="Z" shift={selectedShift} summary={summary} />
+            )}
+            <Input
+              label="Review Notes"
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+              placeholder="e.g. Shortage deducted from wages"
+            />
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button variant="outline" onClick={() => handleReview('flagged')} disabled={isSaving}>
+                <Flag className="h-4 w-4 mr-2" />
+                Flag
+              </Button>
+              <Button onClick={() => handleReview('approved')} loading={isSaving} disabled={isSaving}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Sign Off
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
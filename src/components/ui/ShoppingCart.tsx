@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Minus, Plus, ShoppingCart, DollarSign, Hash, X } from 'lucide-react';
+import { Minus, Plus, ShoppingCart, DollarSign, Hash, X, Tag } from 'lucide-react';
 import { Card } from './Card';
 import { Button } from './Button';
-import { TransactionItem } from '../../types';
+import { TransactionItem, TaxMode } from '../../types';
+import { formatUnitLabel } from '../../utils/scaleBarcodeUtils';
+import { getNetLineTotal } from '../../utils/promotionUtils';
 
 interface ShoppingCartProps {
   items: TransactionItem[];
@@ -10,6 +12,8 @@ interface ShoppingCartProps {
   onRemoveItem: (productId: string) => void;
   onClearCart: () => void;
   onCheckout: () => void;
+  taxAmount?: number;
+  taxMode: TaxMode; // Required so the cart and payment modal can't disagree on whether tax is added
   className?: string;
 }
 
@@ -170,12 +174,18 @@ export const ShoppingCartComponent: React.FC<ShoppingCartProps> = ({
   onRemoveItem,
   onClearCart,
   onCheckout,
+  taxAmount = 0,
+  taxMode,
   className = '',
 }) => {
   // Track input mode for each item (quantity or price)
   const [inputModes, setInputModes] = useState<{ [productId: string]: 'quantity' | 'price' }>({});
   
-  const total = items.reduce((sum, item) => sum + item.total_price, 0);
+  // Line totals after any promotion applied by the POS
+  const subtotal = items.reduce((sum, item) => sum + getNetLineTotal(item), 0);
+  const promotionSavings = items.reduce((sum, item) => sum + (item.discount_amount || 0), 0);
+  // Exclusive pricing adds tax on top; inclusive prices already contain it
+  const total = subtotal + (taxMode === 'exclusive' ? taxAmount : 0);
 
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('tr-TR', {
@@ -255,7 +265,7 @@ export const ShoppingCartComponent: React.FC<ShoppingCartProps> = ({
                       {item.product_name}
                     </h4>
                     <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
-                      {formatPrice(item.unit_price)} per unit
+                      {formatPrice(item.unit_price)} per {formatUnitLabel(item.unit)}
                     </p>
                   </div>
                 </div>
@@ -333,11 +343,24 @@ export const ShoppingCartComponent: React.FC<ShoppingCartProps> = ({
                 </div>
               </div>
 
+              {item.promotion_name && item.discount_amount ? (
+                <div className="flex items-center justify-between text-sm text-green-600 dark:text-green-400">
+                  <span className="flex items-center gap-1 min-w-0">
+                    <Tag className="h-3.5 w-3.5 flex-shrink-0" />
+                    <span className="truncate">{item.promotion_name}</span>
+                  </span>
+                  <span className="font-semibold">-{formatPrice(item.discount_amount)}</span>
+                </div>
+              ) : null}
+
               {/* Bottom Row: Total Price */}
               <div className="flex items-center justify-between pt-2 border-t border-gray-200 dark:border-gray-600">
                 <span className="text-sm text-gray-600 dark:text-gray-400">Item Total:</span>
                 <span className="text-lg font-bold text-gray-900 dark:text-white">
-                  {formatPrice(item.total_price)}
+                  {item.discount_amount ? (
+                    <span className="mr-2 text-sm font-normal text-gray-400 line-through">{formatPrice(item.total_price)}</span>
+                  ) : null}
+                  {formatPrice(getNetLineTotal(item))}
                 </span>
               </div>
             </div>
@@ -346,6 +369,18 @@ export const ShoppingCartComponent: React.FC<ShoppingCartProps> = ({
       </div>
 
       <div className="border-t border-gray-200 dark:border-gray-700 pt-4 flex-shrink-0 bg-white dark:bg-gray-800">
+        {promotionSavings > 0 && (
+          <div className="flex justify-between items-center mb-2 text-sm text-green-600 dark:text-green-400">
+            <span>Promotions</span>
+            <span>-{formatPrice(promotionSavings)}</span>
+          </div>
+        )}
+        {taxAmount > 0 && (
+          <div className="flex justify-between items-center mb-2 text-sm text-gray-600 dark:text-gray-400">
+            <span>{taxMode === 'inclusive' ? 'Tax (included)' : 'Tax'}</span>
+            <span>{formatPrice(taxAmount)}</span>
+          </div>
+        )}
         <div className="flex justify-between items-center mb-4">
           <span className="text-lg font-semibold text-gray-900 dark:text-white">Total:</span>
           <span className="text-xl font-bold text-primary-600 dark:text-primary-400">
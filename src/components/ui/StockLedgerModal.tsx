@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ListOrdered, Download, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { saveAs } from 'file-saver';
+import { Button } from './Button';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { StockMovement, StockMovementType } from '../../types';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import {
+  STOCK_MOVEMENT_LABELS,
+  findBalanceBreaks,
+  formatQuantityChange,
+  summarizeMovements,
+} from '../../utils/stockLedgerUtils';
+
+interface StockLedgerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: { _id: string; name: string; unit?: string; stock_quantity: number } | null;
+}
+
+const PAGE_SIZE = 50;
+
+export const StockLedgerModal: React.FC<StockLedgerModalProps> = ({
+  isOpen,
+  onClose,
+  product
+}) => {
+  const { formatDateTime } = useLocale();
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | ''>('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const productId = product?._id;
+
+  const loadMovements = useCallback(async (nextPage: number) => {
+    if (!productId) return;
+    setIsLoading(true);
+    try {
+      const response = await apiService.getStockMovements(productId, {
+        type: typeFilter || undefined,
+        page: nextPage,
+        limit: PAGE_SIZE,
+      });
+      setMovements(prev => (nextPage === 1 ? response.movements : [...prev, ...response.movements]));
+      setTotal(response.total);
+      setPage(nextPage);
+    } catch (error) {
+      console.error('Failed to load stock movements:', error);
+      toast.error('Failed to load stock movements');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [productId, typeFilter]);
+
+  useEffect(() => {
+    if (isOpen) loadMovements(1);
+  }, [isOpen, loadMovements]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setMovements([]);
+      setTypeFilter('');
+    }
+  }, [isOpen]);
+
+  if (!product) return null;
+
+  const summary = summarizeMovements(movements);
+  // Only meaningful on the unfiltered ledger, where every entry follows the one before it
+  const breaks = typeFilter ? [] : findBalanceBreaks(movements);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await apiService.exportStockMovements(product._id, {
+        format: 'excel',
+        type: typeFilter || undefined,
+      });
+      const safeName = product.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+      saveAs(blob, `stock_movements_${safeName}_${new Date().toISOString().split('T')[0]}.xlsx`);
+      toast.success('Stock movements exported');
+    } catch (error: any) {
+      console.error('Failed to export stock movements:', error);
+      toast.error(error.message || 'Failed to export stock movements');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Stock Movements - ${product.name}`}
+      size="2xl"
+      headerIcon={<ListOrdered className="h-5 w-5" />}
+    >
+      <div className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Current stock <span className="font-semibold text-gray-900 dark:text-white">{formatStockQuantity(product.stock_quantity)} {product.unit}</span>
+            {movements.length > 0 && (
+              <> · shown: +{formatStockQuantity(summary.inbound)} in, -{formatStockQuantity(summary.outbound)} out</>
+            )}
+          </p>
+          <div className="flex gap-2">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as StockMovementType | '')}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+              aria-label="Filter by movement type"
+            >
+              <option value="">All movements</option>
+              {(Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[]).map(type => (
+                <option key={type} value={type}>{STOCK_MOVEMENT_LABELS[type]}</option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={handleExport} loading={isExporting} disabled={isExporting || total === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Export
+            </Button>
+          </div>
+        </div>
+
+        {breaks.length > 0 && (
+          <div className="flex items-center p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+            {breaks.length} entr{breaks.length === 1 ? 'y does' : 'ies do'} not follow from the previous balance. Stock may have been changed outside the ledger.
+          </div>
+        )}
+
+        {movements.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+            {isLoading ? 'Loading stock movements...' : 'No stock movements recorded yet.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto max-h-[28rem]">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  <th className="py-2 px-2 text-left">Date</th>
+                  <th className="py-2 px-2 text-left">Type</th>
+                  <th className="py-2 px-2 text-right">Change</th>
+                  <th className="py-2 px-2 text-right">Balance</th>
+                  <th className="py-2 px-2 text-left">Reference</th>
+                  <th className="py-2 px-2 text-left">User</th>
+                </tr>
+              </thead>
+              <tbody>
+                {movements.map(movement => (
+                  <tr
+                    key={movement._id}
+                    className={`border-b border-gray-100 dark:border-gray-700 text-sm ${breaks.includes(movement._id) ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}
+                  >
+                    <td className="py-2 px-2 text-gray-600 dark:text-gray-400 whitespace-nowrap">{formatDateTime(movement.created_at)}</td>
+                    <td className="py-2 px-2 text-gray-900 dark:text-white">
+                      {STOCK_MOVEMENT_LABELS[movement.type] || movement.type}
+                      {(movement.reason || movement.notes) && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{movement.notes || movement.reason}</p>
+                      )}
+                    </td>
+                    <td className={`py-2 px-2 text-right font-semibold ${movement.quantity_change < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                      {formatQuantityChange(movement.quantity_change)}
+                    </td>
+                    <td className="py-2 px-2 text-right text-gray-900 dark:text-white">{formatStockQuantity(movement.balance_after)}</td>
+                    <td className="py-2 px-2 text-gray-600 dark:text-gray-400 font-mono text-xs">{movement.reference_number || '—'}</td>
+                    <td className="py-2 px-2 text-gray-600 dark:text-gray-400">{movement.user_name || movement.user_id}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {movements.length < total && (
+          <div className="flex justify-center">
+            <Button variant="outline" size="sm" onClick={() => loadMovements(page + 1)} loading={isLoading} disabled={isLoading}>
+              Load more ({total - movements.length} older)
+            </Button>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, History } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { apiService } from '../../services/api';
+import { StockAdjustmentReason, StockTake, StockTakeLine } from '../../types';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import {
+  ADJUSTMENT_REASON_LABELS,
+  calculateVarianceReport,
+  buildStockTakeAdjustments,
+  getApprovedAdjustments,
+  setLineApproval,
+} from '../../utils/stockTakeUtils';
+
+interface StockTakeReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  session: StockTake | null;
+  lines: StockTakeLine[]; // Latest counts, which may not be saved yet
+  onCompleted?: (session: StockTake) => void;
+}
+
+export const StockTakeReviewModal: React.FC<StockTakeReviewModalProps> = ({
+  isOpen,
+  onClose,
+  session,
+  lines,
+  onCompleted
+}) => {
+  const { formatCurrency, formatDateTime } = useLocale();
+  const [reviewLines, setReviewLines] = useState<StockTakeLine[]>([]);
+  const [reasonCode, setReasonCode] = useState<StockAdjustmentReason>('stock_take');
+  const [notes, setNotes] = useState('');
+  const [auditTrail, setAuditTrail] = useState<any[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const readOnly = session?.status !== 'in_progress';
+
+  useEffect(() => {
+    if (!isOpen || !session) return;
+    setReviewLines(lines);
+    setReasonCode(session.reason_code || 'stock_take');
+    setNotes(session.notes || '');
+  }, [isOpen, session, lines]);
+
+  // Archived sessions show who counted and approved them
+  useEffect(() => {
+    if (!isOpen || !session || session.status === 'in_progress') return;
+    let cancelled = false;
+    setAuditTrail([]);
+    apiService.getResourceAuditTrail('STOCK_TAKE', session._id)
+      .then(entries => {
+        if (!cancelled) setAuditTrail(entries || []);
+      })
+      .catch(error => console.warn('⚠️ Failed to load stock-take audit trail:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, session]);
+
+  if (!session) return null;
+
+  const report = calculateVarianceReport(reviewLines);
+  const approvedCount = getApprovedAdjustments(reviewLines).length;
+
+  const handleComplete = async () => {
+    if (report.uncounted_lines > 0 && !window.confirm(
+      `${report.uncounted_lines} product${report.uncounted_lines === 1 ? ' has' : 's have'} not been counted and will keep their current stock. Continue?`
+    )) return;
+
+    setIsSubmitting(true);
+    try {
+      const completed = await apiService.completeStockTake(session._id, {
+        lines: reviewLines,
+        adjustments: buildStockTakeAdjustments(reviewLines),
+        reason_code: reasonCode,
+        notes: notes.trim() || undefined,
+      });
+      toast.success(approvedCount > 0
+        ? `Posted ${approvedCount} adjustment${approvedCount === 1 ? '' : 's'} from ${session.session_number}`
+        : `${session.session_number} closed with no adjustments`);
+      onCompleted?.(completed);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to complete stock-take:', error);
+      toast.error(error.message || 'Failed to complete stock-take');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Variance Report - ${session.session_number}`}
+      size="xl"
+      headerIcon={<ClipboardCheck className="h-5 w-5" />}
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Counted</p>
+            <p className="text-lg font-semibold text-gray-900 dark:text-white">
+              {report.counted_lines} / {report.counted_lines + report.uncounted_lines}
+            </p>
+          </div>
+          <div className="bg-red-50 dark:bg-red-900/20 rounded-lg p-3">
+            <p className="text-xs text-red-600 dark:text-red-400">Shrinkage</p>
+            <p className="text-lg font-semibold text-red-700 dark:text-red-300">{formatCurrency(report.shrinkage_value)}</p>
+          </div>
+          <div className="bg-green-50 dark:bg-green-900/20 rounded-lg p-3">
+            <p className="text-xs text-green-600 dark:text-green-400">Surplus</p>
+            <p className="text-lg font-semibold text-green-700 dark:text-green-300">{formatCurrency(report.surplus_value)}</p>
+          </div>
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg p-3">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Net at cost</p>
+            <p className={`text-lg font-semibold ${report.net_value < 0 ? 'text-red-700 dark:text-red-300' : 'text-gray-900 dark:text-white'}`}>
+              {formatCurrency(report.net_value)}
+            </p>
+          </div>
+        </div>
+
+        {report.variances.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">
+            Every counted product matches the expected quantity.
+          </p>
+        ) : (
+          <div className="overflow-x-auto max-h-96">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                  <th className="py-2 px-2 text-left w-8">{readOnly ? '' : 'Post'}</th>
+                  <th className="py-2 px-2 text-left">Product</th>
+                  <th className="py-2 px-2 text-right">Expected</th>
+                  <th className="py-2 px-2 text-right">Counted</th>
+                  <th className="py-2 px-2 text-right">Difference</th>
+                  <th className="py-2 px-2 text-right">Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.variances.map(variance => (
+                  <tr key={variance.product_id} className={`border-b border-gray-100 dark:border-gray-700 text-sm ${variance.approved ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500 line-through'}`}>
+                    <td className="py-2 px-2">
+                      {readOnly ? (
+                        variance.approved ? '✓' : ''
+                      ) : (
+                        <input
+                          type="checkbox"
+                          checked={variance.approved}
+                          onChange={(e) => setReviewLines(prev => setLineApproval(prev, variance.product_id, e.target.checked))}
+                          aria-label={`Post adjustment for ${variance.product_name}`}
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 px-2">{variance.product_name}</td>
+                    <td className="py-2 px-2 text-right">{formatStockQuantity(variance.expected)}</td>
+                    <td className="py-2 px-2 text-right">{formatStockQuantity(variance.counted)}</td>
+                    <td className={`py-2 px-2 text-right font-semibold ${variance.difference < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                      {variance.difference > 0 ? '+' : ''}{formatStockQuantity(variance.difference)} {variance.unit}
+                    </td>
+                    <td className="py-2 px-2 text-right">{formatCurrency(variance.value_difference)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {readOnly ? (
+          <div className="space-y-4 text-sm">
+            <p className="text-gray-600 dark:text-gray-400">
+              Reason: <span className="font-medium text-gray-900 dark:text-white">{ADJUSTMENT_REASON_LABELS[session.reason_code || 'stock_take']}</span>
+              {session.completed_at && <> · closed {formatDateTime(session.completed_at)}</>}
+            </p>
+            {session.notes && <p className="text-gray-600 dark:text-gray-400 italic">{session.notes}</p>}
+            <div>
+              <h3 className="flex items-center font-semibold text-gray-900 dark:text-white mb-2">
+                <History className="h-4 w-4 mr-2" />
+                Audit Trail
+              </h3>
+              {auditTrail.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400">No audit entries yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {auditTrail.map(entry => (
+                    <li key={entry._id} className="text-gray-600 dark:text-gray-400">
+                      <span className="font-medium text-gray-900 dark:text-white">{entry.action}</span>
+                      {' · '}{entry.user_email || entry.user_id}
+                      {' · '}{formatDateTime(entry.created_at)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Adjustment reason</label>
+                <select
+                  value={reasonCode}
+                  onChange={(e) => setReasonCode(e.target.value as StockAdjustmentReason)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+                >
+                  {(Object.keys(ADJUSTMENT_REASON_LABELS) as StockAdjustmentReason[]).map(reason => (
+                    <option key={reason} value={reason}>{ADJUSTMENT_REASON_LABELS[reason]}</option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label="Notes (optional)"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. Back store shelves recounted"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Keep Counting</Button>
+              <Button onClick={handleComplete} loading={isSubmitting} disabled={isSubmitting}>
+                {approvedCount > 0 ? `Post ${approvedCount} Adjustment${approvedCount === 1 ? '' : 's'}` : 'Close Session'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
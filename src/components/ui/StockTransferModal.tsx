@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ArrowLeftRight, Trash2, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { ProductSelector } from './ProductSelector';
+import { useApp } from '../../context/AppContext';
+import { useStore } from '../../context/StoreContext';
+import { apiService } from '../../services/api';
+import { Product, StockTransfer, StockTransferLine } from '../../types';
+import { toTransferLine, validateTransfer } from '../../utils/transferUtils';
+import { formatStockQuantity } from '../../utils/formatUtils';
+
+interface StockTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  transfer?: StockTransfer | null; // Draft to edit; a new transfer when omitted
+  onSaved?: (transfer: StockTransfer) => void;
+}
+
+export const StockTransferModal: React.FC<StockTransferModalProps> = ({
+  isOpen,
+  onClose,
+  transfer,
+  onSaved
+}) => {
+  const { products, loadAllProducts } = useApp();
+  const { currentStore, stores } = useStore();
+  const [toStoreId, setToStoreId] = useState('');
+  const [lines, setLines] = useState<StockTransferLine[]>([]);
+  const [notes, setNotes] = useState('');
+  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fromStoreId = transfer?.from_store_id || currentStore?._id || '';
+  const destinations = stores.filter(store => store._id !== fromStoreId);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    loadAllProducts();
+    setToStoreId(transfer?.to_store_id || '');
+    setLines(transfer?.lines || []);
+    setNotes(transfer?.notes || '');
+    setSelectedProduct(null);
+    setQuantity('');
+  }, [isOpen, transfer, loadAllProducts]);
+
+  const stockOnHand = useMemo(() => {
+    const onHand: Record<string, number> = {};
+    products.forEach(product => {
+      onHand[product._id] = product.stock_quantity;
+    });
+    return onHand;
+  }, [products]);
+
+  const errors = validateTransfer(fromStoreId, toStoreId, lines, stockOnHand);
+
+  const addLine = () => {
+    const value = Number(quantity);
+    if (!selectedProduct) {
+      toast.error('Select a product');
+      return;
+    }
+    if (!(value > 0)) {
+      toast.error('Enter a quantity');
+      return;
+    }
+
+    const existing = lines.find(line => line.product_id === selectedProduct._id);
+    if (existing) {
+      setLines(prev => prev.map(line => (
+        line.product_id === selectedProduct._id ? { ...line, quantity: line.quantity + value } : line
+      )));
+    } else {
+      setLines(prev => [...prev, toTransferLine(selectedProduct, value)]);
+    }
+    setSelectedProduct(null);
+    setQuantity('');
+  };
+
+  const setLineQuantity = (productId: string, value: number) => {
+    setLines(prev => prev.map(line => (line.product_id === productId ? { ...line, quantity: Math.max(0, value) } : line)));
+  };
+
+  const handleSubmit = async () => {
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const saved = transfer
+        ? await apiService.updateStockTransfer(transfer._id, { to_store_id: toStoreId, lines, notes: notes.trim() || undefined })
+        : await apiService.createStockTransfer({
+          from_store_id: fromStoreId,
+          to_store_id: toStoreId,
+          lines,
+          notes: notes.trim() || undefined,
+        });
+      toast.success(transfer ? 'Transfer updated' : `Transfer ${saved.transfer_number} saved as draft`);
+      onSaved?.(saved);
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to save stock transfer:', error);
+      toast.error(error.message || 'Failed to save stock transfer');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={transfer ? `Edit Transfer ${transfer.transfer_number}` : 'New Stock Transfer'}
+      size="lg"
+      headerIcon={<ArrowLeftRight className="h-5 w-5" />}
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+            <p className="px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm text-gray-900 dark:text-white">
+              {stores.find(store => store._id === fromStoreId)?.name || currentStore?.name}
+            </p>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+            <select
+              value={toStoreId}
+              onChange={(e) => setToStoreId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+              aria-label="Destination store"
+            >
+              <option value="">Select a store</option>
+              {destinations.map(store => (
+                <option key={store._id} value={store._id}>{store.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-3 md:items-end">
+          <div className="flex-1">
+            <ProductSelector
+              products={products}
+              selectedProduct={selectedProduct}
+              onSelectProduct={setSelectedProduct}
+              allowCustom={false}
+              label="Product"
+            />
+          </div>
+          <div className="w-full md:w-28">
+            <Input
+              label="Quantity"
+              type="number"
+              min={0}
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              selectOnFocus
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={addLine}>Add</Button>
+        </div>
+
+        {lines.length === 0 ? (
+          <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-4">No products added yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {lines.map(line => (
+              <div key={line.product_id} className="flex items-center justify-between gap-4 bg-gray-50 dark:bg-gray-800 p-3 rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate">{line.product_name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {line.barcode || line.sku}
+                    {stockOnHand[line.product_id] !== undefined && ` · ${formatStockQuantity(stockOnHand[line.product_id])} in stock`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <div className="w-24">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={line.quantity}
+                      onChange={(e) => setLineQuantity(line.product_id, Number(e.target.value))}
+                      selectOnFocus
+                      aria-label={`Quantity of ${line.product_name} to send`}
+                    />
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => setLines(prev => prev.filter(entry => entry.product_id !== line.product_id))}
+                    className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Input
+          label="Notes (optional)"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="e.g. Weekend restock for the harbour branch"
+        />
+
+        {lines.length > 0 && errors.length > 0 && (
+          <div className="flex items-start space-x-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-sm text-amber-800 dark:text-amber-300">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{errors[0]}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button variant="outline" onClick={onClose} disabled={isSubmitting}>Cancel</Button>
+          <Button onClick={handleSubmit} loading={isSubmitting} disabled={isSubmitting || errors.length > 0}>
+            {transfer ? 'Save Changes' : 'Save Draft'}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { TaxClass, TaxMode } from '../../types';
+
+interface TaxSettingsEditorProps {
+  defaultRate: number;
+  taxMode: TaxMode;
+  taxClasses: TaxClass[];
+  categoryTaxClasses: Record<string, string>;
+  categories: string[];
+  onChange: (updates: {
+    tax_mode?: TaxMode;
+    tax_classes?: TaxClass[];
+    category_tax_classes?: Record<string, string>;
+  }) => void;
+}
+
+const inputClassName = 'mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200';
+
+export const TaxSettingsEditor: React.FC<TaxSettingsEditorProps> = ({
+  defaultRate,
+  taxMode,
+  taxClasses,
+  categoryTaxClasses,
+  categories,
+  onChange
+}) => {
+  const updateClass = (id: string, updates: Partial<TaxClass>) => {
+    onChange({ tax_classes: taxClasses.map(taxClass => (taxClass._id === id ? { ...taxClass, ...updates } : taxClass)) });
+  };
+
+  const addClass = () => {
+    onChange({ tax_classes: [...taxClasses, { _id: `tax_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`, name: '', rate: defaultRate }] });
+  };
+
+  const removeClass = (id: string) => {
+    // Categories assigned to a removed class fall back to the default rate
+    const remaining: Record<string, string> = {};
+    Object.keys(categoryTaxClasses).forEach(category => {
+      if (categoryTaxClasses[category] !== id) remaining[category] = categoryTaxClasses[category];
+    });
+    onChange({
+      tax_classes: taxClasses.filter(taxClass => taxClass._id !== id),
+      category_tax_classes: remaining,
+    });
+  };
+
+  const assignCategory = (category: string, classId: string) => {
+    const updated = { ...categoryTaxClasses };
+    if (classId) {
+      updated[category] = classId;
+    } else {
+      delete updated[category];
+    }
+    onChange({ category_tax_classes: updated });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Pricing Mode</label>
+          <select
+            value={taxMode}
+            onChange={(e) => onChange({ tax_mode: e.target.value as TaxMode })}
+            className={inputClassName}
+            title="Whether product prices already include tax"
+          >
+            <option value="inclusive">Prices include tax</option>
+            <option value="exclusive">Tax added at checkout</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Tax Classes</label>
+          <button
+            type="button"
+            onClick={addClass}
+            className="flex items-center text-xs text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add class
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Products without a class use the default rate of {defaultRate}%.
+        </p>
+        <div className="mt-2 space-y-2">
+          {taxClasses.map(taxClass => (
+            <div key={taxClass._id} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={taxClass.name}
+                onChange={(e) => updateClass(taxClass._id, { name: e.target.value })}
+                className={`${inputClassName} mt-0 flex-1`}
+                placeholder="e.g. Basic food"
+                title="Tax class name"
+              />
+              <div className="w-24">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={taxClass.rate}
+                  onChange={(e) => updateClass(taxClass._id, { rate: Number(e.target.value) })}
+                  className={`${inputClassName} mt-0`}
+                  title="Rate (%)"
+                />
+              </div>
+              <span className="text-sm text-gray-500 dark:text-gray-400">%</span>
+              <button
+                type="button"
+                onClick={() => removeClass(taxClass._id)}
+                className="p-1.5 text-red-600 hover:text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                title="Remove tax class"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {taxClasses.length > 0 && categories.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Category Tax Classes</label>
+          <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2">
+            {categories.map(category => (
+              <div key={category} className="flex items-center justify-between gap-2">
+                <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{category}</span>
+                <select
+                  value={categoryTaxClasses[category] || ''}
+                  onChange={(e) => assignCategory(category, e.target.value)}
+                  className={`${inputClassName} mt-0 w-44`}
+                  title={`Tax class for ${category}`}
+                >
+                  <option value="">Default ({defaultRate}%)</option>
+                  {taxClasses.map(taxClass => (
+                    <option key={taxClass._id} value={taxClass._id}>
+                      {taxClass.name || 'Unnamed'} ({taxClass.rate}%)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
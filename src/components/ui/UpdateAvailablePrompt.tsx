@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { onUpdateAvailable, applyUpdate } from '../../serviceWorkerRegistration';
+
+export const UpdateAvailablePrompt: React.FC = () => {
+  const [isVisible, setIsVisible] = useState(false);
+  const [isReloading, setIsReloading] = useState(false);
+
+  useEffect(() => {
+    return onUpdateAvailable(() => setIsVisible(true));
+  }, []);
+
+  if (!isVisible) return null;
+
+  const handleReload = () => {
+    setIsReloading(true);
+    applyUpdate();
+  };
+
+  return (
+    <div className="fixed bottom-24 left-1/2 transform -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 bg-white/95 dark:bg-gray-800/95 backdrop-blur-md rounded-xl shadow-xl border border-primary-200 dark:border-primary-800">
+        <div className="flex items-center gap-3 min-w-0">
+          <div className="p-2 bg-primary-100 dark:bg-primary-900/30 rounded-lg flex-shrink-0">
+            <RefreshCw className={`h-4 w-4 text-primary-600 dark:text-primary-400 ${isReloading ? 'animate-spin' : ''}`} />
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">New version available</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">Reload to get the latest update.</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <button
+            onClick={handleReload}
+            disabled={isReloading}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50"
+          >
+            Reload
+          </button>
+          <button
+            onClick={() => setIsVisible(false)}
+            className="p-1.5 rounded-lg text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Later"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { User as UserIcon, Save, Eye, EyeOff, Key } from 'lucide-react';
+import { User as UserIcon, Save, Eye, EyeOff, Key, Lock } from 'lucide-react';
 import { Modal } from './Modal';
 import { Button } from './Button';
 import { Input } from './Input';
@@ -44,7 +44,12 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'profile' | 'password'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'pin'>('profile');
+  const [managerPin, setManagerPin] = useState('');
+  const [confirmManagerPin, setConfirmManagerPin] = useState('');
+
+  // Managers approve large paid-ins and paid-outs at the till with a PIN
+  const canSetManagerPin = ['admin', 'owner', 'manager'].includes(user.role);
 
   // Initialize form data when user changes
   useEffect(() => {
@@ -128,9 +133,39 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
     }
   };
 
+  const handleManagerPinChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!/^\d{4,6}$/.test(managerPin)) {
+      toast.error('PIN must be 4 to 6 digits');
+      return;
+    }
+
+    if (managerPin !== confirmManagerPin) {
+      toast.error('PINs do not match');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await apiService.setManagerPin(managerPin);
+      toast.success('Manager PIN updated');
+      setManagerPin('');
+      setConfirmManagerPin('');
+      onClose();
+    } catch (error) {
+      console.error('Failed to update manager PIN:', error);
+      toast.error('Failed to update manager PIN. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const tabs = [
     { id: 'profile', label: 'Profile Information', icon: UserIcon },
     { id: 'password', label: 'Change Password', icon: Key },
+    ...(canSetManagerPin ? [{ id: 'pin', label: 'Manager PIN', icon: Lock }] : []),
   ];
 
   return (
@@ -149,7 +184,7 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
               return (
                 <button
                   key={tab.id}
-                  onClick={() => setActiveTab(tab.id as 'profile' | 'password')}
+                  onClick={() => setActiveTab(tab.id as 'profile' | 'password' | 'pin')}
                   className={`py-2 px-1 border-b-2 font-medium text-sm flex items-center space-x-2 ${
                     activeTab === tab.id
                       ? 'border-primary-500 text-primary-600'
@@ -366,6 +401,58 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
             </div>
           </form>
         )}
+
+        {/* Manager PIN Tab */}
+        {activeTab === 'pin' && canSetManagerPin && (
+          <form onSubmit={handleManagerPinChange} className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Cashiers need this PIN to pay cash into or out of the till above the store's limit.
+            </p>
+
+            <Input
+              label="New PIN *"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={managerPin}
+              onChange={(e) => setManagerPin(e.target.value)}
+              placeholder="4 to 6 digits"
+              required
+            />
+
+            <Input
+              label="Confirm PIN *"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={confirmManagerPin}
+              onChange={(e) => setConfirmManagerPin(e.target.value)}
+              placeholder="Repeat the PIN"
+              required
+            />
+
+            <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isLoading}
+                loading={isLoading}
+              >
+                <Lock className="h-4 w-4 mr-2" />
+                Save PIN
+              </Button>
+            </div>
+          </form>
+        )}
       </div>
     </Modal>
   );
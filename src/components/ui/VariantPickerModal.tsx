@@ -0,0 +1,64 @@
+import React from 'react';
+import { Boxes } from 'lucide-react';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { Product } from '../../types';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import { getVariantLabel } from '../../utils/variantUtils';
+
+interface VariantPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parent: Product | null;
+  variants: Product[];
+  onSelect: (variant: Product) => void;
+}
+
+export const VariantPickerModal: React.FC<VariantPickerModalProps> = ({
+  isOpen,
+  onClose,
+  parent,
+  variants,
+  onSelect
+}) => {
+  const { formatCurrency } = useLocale();
+
+  if (!parent) return null;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={parent.name}
+      size="lg"
+      headerIcon={<Boxes className="h-5 w-5" />}
+    >
+      {variants.length === 0 ? (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">This product has no variants yet.</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {variants.map(variant => {
+            const isOutOfStock = variant.stock_quantity <= 0;
+            return (
+              <button
+                key={variant._id}
+                type="button"
+                onClick={() => onSelect(variant)}
+                disabled={isOutOfStock}
+                className="text-left p-3 rounded-xl border-2 border-gray-200 dark:border-gray-600 hover:border-primary-500 dark:hover:border-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-transparent"
+              >
+                <p className="font-semibold text-gray-900 dark:text-white">
+                  {getVariantLabel(variant.variant_attributes, parent.variant_options) || variant.name}
+                </p>
+                <p className="text-sm font-bold text-primary-600 dark:text-primary-400 mt-1">{formatCurrency(variant.price)}</p>
+                <p className={`text-xs mt-1 ${isOutOfStock ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {isOutOfStock ? 'Out of stock' : `${formatStockQuantity(variant.stock_quantity)} in stock`}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useMemo, useState } from 'react';
+import { Download, Info } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { roundCurrency } from '../../utils/formatUtils';
+import { useLocale } from '../../hooks/useLocale';
+import { buildVatReport, VatPeriod } from '../../utils/taxUtils';
+
+interface VatReportProps {
+  transactions: any[]; // Sales plus refund entries for the selected period
+  periodLabel: string;
+  currency?: string; // Defaults to the store currency
+}
+
+export const VatReport: React.FC<VatReportProps> = ({ transactions, periodLabel, currency: currencyOverride }) => {
+  const { settings, formatCurrency } = useLocale();
+  const currency = currencyOverride || settings.currency;
+  const [groupBy, setGroupBy] = useState<VatPeriod>('month');
+
+  const rows = useMemo(
+    () => buildVatReport(transactions, groupBy, settings.timezone),
+    [transactions, groupBy, settings.timezone]
+  );
+
+  // Sales taken before tax tracking have no breakdown and can't be split by rate
+  const untrackedSales = useMemo(
+    () => transactions.filter(t => !t.is_refund && !t.tax_breakdown && t.status !== 'cancelled' && t.status !== 'voided').length,
+    [transactions]
+  );
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      taxable_amount: roundCurrency(sum.taxable_amount + row.taxable_amount),
+      tax_amount: roundCurrency(sum.tax_amount + row.tax_amount),
+      gross_amount: roundCurrency(sum.gross_amount + row.gross_amount),
+    }),
+    { taxable_amount: 0, tax_amount: 0, gross_amount: 0 }
+  );
+
+  const handleExport = () => {
+    if (rows.length === 0) {
+      toast.error('No VAT data to export');
+      return;
+    }
+
+    const csvRows = [
+      ['Period', 'Rate (%)', `Net (${currency})`, `VAT (${currency})`, `Gross (${currency})`],
+      ...rows.map(row => [
+        row.period,
+        String(row.rate),
+        row.taxable_amount.toFixed(2),
+        row.tax_amount.toFixed(2),
+        row.gross_amount.toFixed(2),
+      ]),
+      ['Total', '', totals.taxable_amount.toFixed(2), totals.tax_amount.toFixed(2), totals.gross_amount.toFixed(2)],
+    ];
+    const csvContent = csvRows.map(row => row.join(',')).join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', `vat-report-${groupBy}-${periodLabel.replace(/\s+/g, '-')}-${new Date().toISOString().split('T')[0]}.csv`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6 space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">VAT by Rate</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Refunds are deducted in the period they were issued</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as VatPeriod)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-sm text-gray-900 dark:text-white"
+            aria-label="Group VAT by"
+          >
+            <option value="month">Monthly</option>
+            <option value="quarter">Quarterly</option>
+          </select>
+          <Button variant="outline" size="sm" onClick={handleExport}>
+            <Download className="h-4 w-4 mr-1" />
+            CSV
+          </Button>
+        </div>
+      </div>
+
+      {untrackedSales > 0 && (
+        <div className="flex items-start space-x-2 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-800 dark:text-blue-300">
+          <Info className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{untrackedSales} sale{untrackedSales === 1 ? '' : 's'} in this period were recorded before tax tracking and are not included.</span>
+        </div>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">No taxed sales in this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Period</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Rate</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Net</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">VAT</th>
+                <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Gross</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.period}-${row.rate}`} className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                  <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">{row.period}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{row.rate}%</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{formatCurrency(row.taxable_amount, currency)}</td>
+                  <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">{formatCurrency(row.tax_amount, currency)}</td>
+                  <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{formatCurrency(row.gross_amount, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white" colSpan={2}>Total</td>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">{formatCurrency(totals.taxable_amount, currency)}</td>
+                <td className="py-3 px-4 text-sm font-bold text-primary-600 dark:text-primary-400 text-right">{formatCurrency(totals.tax_amount, currency)}</td>
+                <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">{formatCurrency(totals.gross_amount, currency)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { Scale } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Modal } from './Modal';
+import { useLocale } from '../../hooks/useLocale';
+import { formatStockQuantity } from '../../utils/formatUtils';
+import { calculateWeighedPrice, formatUnitLabel, roundWeight } from '../../utils/scaleBarcodeUtils';
+
+interface WeightEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product: { name: string; price: number; unit?: string; stock_quantity: number } | null;
+  onConfirm: (quantity: number) => void;
+}
+
+export const WeightEntryModal: React.FC<WeightEntryModalProps> = ({
+  isOpen,
+  onClose,
+  product,
+  onConfirm
+}) => {
+  const { formatCurrency } = useLocale();
+  const [weight, setWeight] = useState('');
+
+  useEffect(() => {
+    if (isOpen) setWeight('');
+  }, [isOpen]);
+
+  if (!product) return null;
+
+  const unitLabel = formatUnitLabel(product.unit);
+  const quantity = roundWeight(parseFloat(weight.replace(',', '.')) || 0);
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(quantity > 0)) {
+      toast.error(`Enter the weight in ${unitLabel}`);
+      return;
+    }
+    if (quantity > product.stock_quantity) {
+      toast.error(`Not enough stock for ${product.name}. Available: ${formatStockQuantity(product.stock_quantity)} ${unitLabel}.`);
+      return;
+    }
+    onConfirm(quantity);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Weigh - ${product.name}`}
+      size="sm"
+      headerIcon={<Scale className="h-5 w-5" />}
+    >
+      <form onSubmit={handleConfirm} className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {formatCurrency(product.price)} per {unitLabel} · {formatStockQuantity(product.stock_quantity)} {unitLabel} in stock
+        </p>
+        <Input
+          label={`Weight (${unitLabel})`}
+          type="text"
+          inputMode="decimal"
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          placeholder={unitLabel === 'g' ? 'e.g. 250' : 'e.g. 0.750'}
+          autoFocus
+          selectOnFocus
+        />
+        <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+          <span className="text-sm text-gray-600 dark:text-gray-400">Line total</span>
+          <span className="text-lg font-bold text-gray-900 dark:text-white">
+            {formatCurrency(calculateWeighedPrice(product.price, quantity))}
+          </span>
+        </div>
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={!(quantity > 0)}>
+            Add to Cart
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
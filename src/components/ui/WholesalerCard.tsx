@@ -1,11 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { 
   Building2, Phone, Mail, MapPin, Edit, Trash2, AlertTriangle, 
-  Package, Share2, MessageCircle, ExternalLink, Image as ImageIcon 
+  Package, Share2, MessageCircle, ExternalLink, Image as ImageIcon, ClipboardList
 } from 'lucide-react';
-import { Wholesaler, Product } from '../../types';
+import { Wholesaler, Product, PurchaseOrder } from '../../types';
 import { Button } from './Button';
 import { apiService } from '../../services/api';
+import { useLocale } from '../../hooks/useLocale';
+import { PURCHASE_ORDER_STATUS_LABELS } from '../../utils/purchaseOrderUtils';
 
 interface WholesalerCardProps {
   wholesaler: Wholesaler;
@@ -16,6 +18,8 @@ interface WholesalerCardProps {
   onPhoneClick: (wholesaler: Wholesaler) => void;
   onEmailClick: (wholesaler: Wholesaler) => void;
   onShare: (wholesaler: Wholesaler) => void;
+  openOrders?: PurchaseOrder[]; // Draft, sent and partially received orders
+  onViewOrders?: (wholesaler: Wholesaler) => void;
   loadWholesalerWithProducts?: (id: string, includeProducts?: boolean) => Promise<Wholesaler>;
 }
 
@@ -28,8 +32,11 @@ export const WholesalerCard: React.FC<WholesalerCardProps> = ({
   onPhoneClick,
   onEmailClick,
   onShare,
+  openOrders = [],
+  onViewOrders,
   loadWholesalerWithProducts,
 }) => {
+  const { formatCurrency } = useLocale();
   const [productPreview, setProductPreview] = useState<Product[]>([]);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [totalProductCount, setTotalProductCount] = useState<number>(0);
@@ -299,6 +306,26 @@ export const WholesalerCard: React.FC<WholesalerCardProps> = ({
         </div>
       )}
 
+      {/* Open Purchase Orders */}
+      {openOrders.length > 0 && (
+        <div className="mx-6 mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-xl border border-blue-200 dark:border-blue-800">
+          <div className="flex items-center space-x-2 mb-1">
+            <ClipboardList className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+            <span className="text-sm font-semibold text-blue-800 dark:text-blue-300">
+              {openOrders.length} open purchase {openOrders.length === 1 ? 'order' : 'orders'}
+            </span>
+          </div>
+          <div className="space-y-0.5">
+            {openOrders.slice(0, 3).map(order => (
+              <p key={order._id} className="text-xs text-blue-700 dark:text-blue-300 flex justify-between">
+                <span className="font-mono">{order.po_number}</span>
+                <span>{PURCHASE_ORDER_STATUS_LABELS[order.status]} · {formatCurrency(order.total_cost)}</span>
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="px-6 pb-6 pt-4 mt-auto space-y-2">
         {wholesaler.low_stock_count !== undefined && wholesaler.low_stock_count > 0 && (
@@ -321,6 +348,17 @@ export const WholesalerCard: React.FC<WholesalerCardProps> = ({
           <Package className="h-4 w-4 mr-2" />
           Manage Products
         </Button>
+        {onViewOrders && (
+          <Button
+            onClick={() => onViewOrders(wholesaler)}
+            variant="outline"
+            size="sm"
+            className="w-full"
+          >
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Purchase Orders{openOrders.length > 0 ? ` (${openOrders.length} open)` : ''}
+          </Button>
+        )}
       </div>
     </div>
   );
@@ -1,9 +1,33 @@
-import React, { createContext, useContext, useReducer, ReactNode, useEffect, useState, useCallback } from 'react';
-import { AppState, Product, Transaction, InventoryAlert, DashboardMetrics, PriceHistory } from '../types';
-import { apiService } from '../services/api';
+import React, { createContext, useContext, useReducer, ReactNode, useEffect, useState, useCallback, useRef } from 'react';
+import { AppState, Product, Transaction, InventoryAlert, DashboardMetrics, PriceHistory, OutboxEntry, Refund, RefundItem } from '../types';
+import { apiService, isNetworkError, isRequestTimeout } from '../services/api';
+import { offlineOutbox, generateIdempotencyKey } from '../services/offlineOutbox';
 import { useAuth } from './AuthContext';
 import { toast } from 'react-hot-toast';
 import { cleanTagsInput } from '../utils/tagUtils';
+import { allocateRefundToPaymentMethods } from '../utils/refundUtils';
+import { roundCurrency } from '../utils/formatUtils';
+import { allocateFefo } from '../utils/batchUtils';
+
+// Batch-tracked products name the batches the sale came out of, first-expiry-first-out
+const postSaleDeduction = async (
+  product: Product | undefined,
+  productId: string,
+  quantity: number,
+  transactionId: string,
+  idempotencyKey?: string
+) => {
+  const batchAllocations = product?.track_batches
+    ? allocateFefo(await apiService.getProductBatches(productId), quantity).allocations
+    : undefined;
+  await apiService.adjustInventory(productId, {
+    adjustment_type: 'subtract',
+    quantity,
+    reason: 'sale',
+    notes: `Sale ${transactionId}`,
+    batch_allocations: batchAllocations,
+  }, idempotencyKey);
+};
 
 interface AppContextType extends AppState {
   addProduct: (product: Omit<Product, '_id' | 'created_at' | 'updated_at'>, images?: File[]) => Promise<void>;
@@ -14,8 +38,9 @@ interface AppContextType extends AppState {
   deleteAllProducts: () => Promise<{ deletedCount: number }>;
   exportProducts: () => Promise<void>;
   importProducts: (file: File) => Promise<{ imported: number; errors: string[] }>;
-  addTransaction: (transaction: any) => Promise<void>;
-  updateInventory: (productId: string, quantity: number) => Promise<void>;
+  addTransaction: (transaction: any) => Promise<{ transaction: Transaction; queued: boolean }>;
+  refundTransaction: (transaction: Transaction, items: RefundItem[], previousRefunds: Refund[], reason?: string) => Promise<Refund>;
+  deductStockForSale: (transactionId: string, items: Array<{ product_id: string; quantity: number }>) => Promise<void>;
   refreshDashboard: (filters?: {
     dateRange?: string;
     paymentMethod?: string;
@@ -28,6 +53,12 @@ interface AppContextType extends AppState {
   loadAllProducts: () => Promise<void>;
   loadTransactions: () => Promise<void>;
   loadInventoryAlerts: () => Promise<void>;
+  // Offline outbox for sales taken while the backend is unreachable
+  isOnline: boolean;
+  outboxEntries: OutboxEntry[];
+  syncOutbox: () => Promise<void>;
+  retryOutboxEntry: (id: string) => Promise<void>;
+  discardOutboxEntry: (id: string) => Promise<void>;
   loading: boolean;
   productsPagination: {
     currentPage: number;
@@ -49,6 +80,9 @@ type AppAction =
   | { type: 'DELETE_PRODUCT'; payload: string }
   | { type: 'SET_TRANSACTIONS'; payload: Transaction[] }
   | { type: 'ADD_TRANSACTION'; payload: Transaction }
+  | { type: 'UPDATE_TRANSACTION'; payload: { clientReference: string; updates: Partial<Transaction> } }
+  | { type: 'REMOVE_TRANSACTION'; payload: { clientReference: string } }
+  | { type: 'ADJUST_PRODUCT_STOCK'; payload: Array<{ product_id: string; quantity: number }> }
   | { type: 'SET_INVENTORY_ALERTS'; payload: InventoryAlert[] }
   | { type: 'SET_DASHBOARD_METRICS'; payload: DashboardMetrics };
 
@@ -84,6 +118,27 @@ const initialState: AppState = {
   productsPagination: initialPaginationState,
 };
 
+// Apply signed quantity deltas (negative = sold) to the matching products
+function applyStockAdjustments(
+  products: Product[],
+  adjustments: Array<{ product_id: string; quantity: number }>
+): Product[] {
+  if (adjustments.length === 0) return products;
+  return products.map(product => {
+    const delta = adjustments
+      .filter(adj => adj.product_id === product._id)
+      .reduce((sum, adj) => sum + adj.quantity, 0);
+    return delta === 0 ? product : { ...product, stock_quantity: product.stock_quantity + delta };
+  });
+}
+
+// Stock still owed to the backend by sales sitting in the outbox
+function getPendingStockAdjustments(entries: OutboxEntry[]): Array<{ product_id: string; quantity: number }> {
+  return entries.reduce<Array<{ product_id: string; quantity: number }>>((all, entry) => all.concat(
+    entry.stock_adjustments.map(adj => ({ product_id: adj.product_id, quantity: -adj.quantity }))
+  ), []);
+}
+
 function appReducer(state: AppState, action: AppAction): AppState {
   switch (action.type) {
     case 'SET_LOADING':
@@ -112,6 +167,23 @@ function appReducer(state: AppState, action: AppAction): AppState {
       return { ...state, sales: action.payload };
     case 'ADD_TRANSACTION':
       return { ...state, sales: [...state.sales, action.payload] };
+    case 'UPDATE_TRANSACTION':
+      return {
+        ...state,
+        sales: state.sales.map(t =>
+          t.client_reference === action.payload.clientReference ? { ...t, ...action.payload.updates } : t
+        ),
+      };
+    case 'REMOVE_TRANSACTION':
+      return {
+        ...state,
+        sales: state.sales.filter(t => t.client_reference !== action.payload.clientReference),
+      };
+    case 'ADJUST_PRODUCT_STOCK':
+      return {
+        ...state,
+        products: applyStockAdjustments(state.products, action.payload),
+      };
     case 'SET_INVENTORY_ALERTS':
       return { ...state, inventoryAlerts: action.payload };
     case 'SET_DASHBOARD_METRICS':
@@ -125,6 +197,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [state, dispatch] = useReducer(appReducer, initialState);
   const { user, isAuthenticated } = useAuth();
   const [isLoadingData, setIsLoadingData] = useState(false);
+  const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const outboxEntriesRef = useRef<OutboxEntry[]>([]);
+  const productsRef = useRef<Product[]>([]);
+  productsRef.current = state.products || [];
+  const isSyncingRef = useRef(false);
 
   const loadInitialData = async () => {
     // Prevent multiple simultaneous calls
@@ -188,11 +266,14 @@ export function AppProvider({ children }: { children: ReactNode }) {
       
       const response = await apiService.getProducts(params);
       
-      // Clean tags data for all products
-      const cleanedProducts = response.products.map(product => ({
-        ...product,
-        tags: cleanTagsInput(product.tags)
-      }));
+      // Clean tags data for all products, keeping offline sales' stock deductions applied
+      const cleanedProducts = applyStockAdjustments(
+        response.products.map(product => ({
+          ...product,
+          tags: cleanTagsInput(product.tags)
+        })),
+        getPendingStockAdjustments(outboxEntriesRef.current)
+      );
       
       dispatch({ type: 'SET_PRODUCTS', payload: cleanedProducts });
       dispatch({ 
@@ -411,32 +492,300 @@ export function AppProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const addTransaction = async (transactionData: any) => {
+  const addTransaction = async (transactionData: any): Promise<{ transaction: Transaction; queued: boolean }> => {
+    // Only add store_id and cashier_id if they're not already provided
+    const transactionPayload = {
+      ...transactionData,
+      store_id: transactionData.store_id || user?.store_id || '',
+      cashier_id: transactionData.cashier_id || user?.id || '',
+      client_reference: transactionData.client_reference || generateIdempotencyKey(),
+    };
+
     try {
-      // Only add store_id and cashier_id if they're not already provided
-      const transactionPayload = {
-        ...transactionData,
-        store_id: transactionData.store_id || user?.store_id || '',
-        cashier_id: transactionData.cashier_id || user?.id || '',
-      };
-      
       const newTransaction = await apiService.createTransaction(transactionPayload);
       dispatch({ type: 'ADD_TRANSACTION', payload: newTransaction });
       // Don't show toast here - let the calling component handle it
+      return { transaction: newTransaction, queued: false };
     } catch (error) {
-      console.error('Failed to create transaction:', error);
-      // Don't show toast here - let the calling component handle it
-      throw error;
+      if (isRequestTimeout(error)) {
+        // The sale may have been recorded; queueing it could charge the customer twice
+        console.error('Transaction request timed out:', error);
+        throw new Error('The server did not answer in time. Check Sales History before charging again.');
+      }
+      if (!isNetworkError(error) || !offlineOutbox.isSupported()) {
+        console.error('Failed to create transaction:', error);
+        // Don't show toast here - let the calling component handle it
+        throw error;
+      }
+      return queueOfflineTransaction(transactionPayload);
     }
   };
 
-  const updateInventory = async (productId: string, quantity: number) => {
+  // Park a sale in the outbox and apply it locally until the backend accepts it
+  const queueOfflineTransaction = async (transactionPayload: any): Promise<{ transaction: Transaction; queued: boolean }> => {
+    const items: any[] = transactionPayload.items || [];
+    const stockAdjustments = items.map(item => ({
+      product_id: item.product_id,
+      quantity: item.quantity,
+    }));
+    // Lines carry their promotion discount; the sale-level discount comes off below
+    const subtotal = items.reduce((sum, item) => sum + item.unit_price * item.quantity - (item.discount_amount || 0), 0);
+    const taxOnTop = transactionPayload.tax_mode === 'exclusive' ? transactionPayload.tax_amount || 0 : 0;
+    const totalAmount = Math.max(0, subtotal - (transactionPayload.discount_amount || 0)) + taxOnTop + (transactionPayload.delivery_fee || 0);
+
+    const entry = await offlineOutbox.enqueue({
+      id: transactionPayload.client_reference,
+      payload: transactionPayload,
+      stock_adjustments: stockAdjustments,
+      total_amount: totalAmount,
+    });
+
+    const now = new Date();
+    const queuedTransaction: Transaction = {
+      ...transactionPayload,
+      _id: `offline-${entry.id}`,
+      items: items.map((item, index) => ({
+        _id: `offline-${entry.id}-${index}`,
+        product_name: item.product_name || item.product_id,
+        total_price: item.unit_price * item.quantity,
+        ...item,
+      })),
+      subtotal,
+      total_amount: totalAmount,
+      payment_status: 'pending',
+      status: 'pending',
+      sync_status: 'pending',
+      created_at: now,
+      updated_at: now,
+    };
+
+    dispatch({ type: 'ADD_TRANSACTION', payload: queuedTransaction });
+    dispatch({
+      type: 'ADJUST_PRODUCT_STOCK',
+      payload: stockAdjustments.map(adj => ({ product_id: adj.product_id, quantity: -adj.quantity })),
+    });
+
+    return { transaction: queuedTransaction, queued: true };
+  };
+
+  // Replay queued sales in the order they were taken
+  const syncOutbox = useCallback(async () => {
+    if (isSyncingRef.current || !offlineOutbox.isSupported() || !isAuthenticated) {
+      return;
+    }
+
+    isSyncingRef.current = true;
+    let syncedCount = 0;
+
     try {
-      await apiService.adjustInventory(productId, {
-        adjustment_type: 'set',
-        quantity,
-        reason: 'Manual adjustment',
-      });
+      const entries = await offlineOutbox.list();
+
+      for (const entry of entries) {
+        if (entry.status === 'failed') continue;
+
+        await offlineOutbox.update(entry.id, { status: 'syncing' });
+
+        try {
+          let transactionId = entry.transaction_id;
+          if (!transactionId) {
+            const created = await apiService.createTransaction(entry.payload);
+            transactionId = created?._id || entry.id;
+            await offlineOutbox.update(entry.id, { transaction_id: transactionId });
+            dispatch({
+              type: 'UPDATE_TRANSACTION',
+              payload: { clientReference: entry.id, updates: { ...created, sync_status: undefined } },
+            });
+          }
+
+          // Apply stock one line at a time, each under its own Idempotency-Key: a line whose request
+          // timed out after the backend applied it is retried, and the key stops it deducting twice
+          const remaining = [...entry.stock_adjustments];
+          while (remaining.length > 0) {
+            const adjustment = remaining[0];
+            await postSaleDeduction(
+              productsRef.current.find(p => p._id === adjustment.product_id),
+              adjustment.product_id,
+              adjustment.quantity,
+              transactionId,
+              `${entry.id}:${adjustment.product_id}`
+            );
+            remaining.shift();
+            await offlineOutbox.update(entry.id, { stock_adjustments: [...remaining] });
+          }
+
+          await offlineOutbox.remove(entry.id);
+          syncedCount++;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Sync failed';
+
+          if (isNetworkError(error) || isRequestTimeout(error)) {
+            // Still offline, or no answer in time - keep order intact and try again later.
+            // The replay reuses the same Idempotency-Keys, so a sale or stock line that did go through isn't applied twice
+            await offlineOutbox.update(entry.id, {
+              status: 'pending',
+              attempts: entry.attempts + 1,
+              last_error: message,
+            });
+            break;
+          }
+
+          console.error('Failed to sync offline sale:', error);
+          await offlineOutbox.update(entry.id, {
+            status: 'failed',
+            attempts: entry.attempts + 1,
+            last_error: message,
+          });
+          dispatch({
+            type: 'UPDATE_TRANSACTION',
+            payload: { clientReference: entry.id, updates: { sync_status: 'failed' } },
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to replay offline outbox:', error);
+    } finally {
+      isSyncingRef.current = false;
+    }
+
+    if (syncedCount > 0) {
+      toast.success(`Synced ${syncedCount} offline ${syncedCount === 1 ? 'sale' : 'sales'}`);
+      await loadProducts();
+    }
+  }, [isAuthenticated, loadProducts]);
+
+  const retryOutboxEntry = async (id: string) => {
+    await offlineOutbox.update(id, { status: 'pending', last_error: undefined });
+    dispatch({ type: 'UPDATE_TRANSACTION', payload: { clientReference: id, updates: { sync_status: 'pending' } } });
+    await syncOutbox();
+  };
+
+  const discardOutboxEntry = async (id: string) => {
+    const entry = outboxEntriesRef.current.find(e => e.id === id);
+    if (entry?.transaction_id) {
+      // The sale is already on the server; only its stock is still syncing
+      toast.error('This sale is already recorded. Retry it to finish syncing its stock.');
+      return;
+    }
+    await offlineOutbox.remove(id);
+    dispatch({ type: 'REMOVE_TRANSACTION', payload: { clientReference: id } });
+    if (entry) {
+      // Give back the stock the queued sale had reserved locally
+      dispatch({ type: 'ADJUST_PRODUCT_STOCK', payload: entry.stock_adjustments });
+    }
+  };
+
+  // Track the outbox contents
+  useEffect(() => {
+    if (!offlineOutbox.isSupported()) return;
+
+    const unsubscribe = offlineOutbox.subscribe(entries => {
+      outboxEntriesRef.current = entries;
+      setOutboxEntries(entries);
+    });
+
+    offlineOutbox.list()
+      .then(entries => {
+        // Entries left 'syncing' by a closed tab are safe to replay (idempotent)
+        const restored = entries.map(entry => entry.status === 'syncing' ? { ...entry, status: 'pending' as const } : entry);
+        outboxEntriesRef.current = restored;
+        setOutboxEntries(restored);
+      })
+      .catch(error => console.error('Failed to read offline outbox:', error));
+
+    return unsubscribe;
+  }, []);
+
+  // Track connectivity and replay the outbox when it returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncOutbox]);
+
+  // Replay on login and periodically while sales are waiting (covers a server that was down while online)
+  const hasPendingEntries = outboxEntries.some(entry => entry.status !== 'failed');
+  useEffect(() => {
+    if (!isAuthenticated || !user || !hasPendingEntries) return;
+
+    syncOutbox();
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        syncOutbox();
+      }
+    }, 60000);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated, user, hasPendingEntries, syncOutbox]);
+
+  // Record a (partial) return against a sale, pay it back through the original methods and restock
+  const refundTransaction = async (
+    transaction: Transaction,
+    items: RefundItem[],
+    previousRefunds: Refund[],
+    reason?: string
+  ): Promise<Refund> => {
+    const totalAmount = roundCurrency(items.reduce((sum, item) => sum + item.total_price, 0));
+
+    const refund = await apiService.createRefund(transaction._id, {
+      store_id: transaction.store_id || user?.store_id || '',
+      cashier_id: user?.id || '',
+      items: items.map(item => ({
+        ...item,
+        unit_cost: productsRef.current.find(p => p._id === item.product_id)?.cost_price,
+      })),
+      payment_methods: allocateRefundToPaymentMethods(transaction, totalAmount, previousRefunds),
+      total_amount: totalAmount,
+      reason,
+      client_reference: generateIdempotencyKey(),
+    });
+
+    const restockItems = items.filter(item => item.restock && item.quantity > 0);
+    const failedRestocks: string[] = [];
+    for (const item of restockItems) {
+      try {
+        await apiService.adjustInventory(item.product_id, {
+          adjustment_type: 'add',
+          quantity: item.quantity,
+          reason: 'refund',
+          notes: `Refund for transaction ${transaction._id}`,
+        });
+      } catch (error) {
+        console.error('Failed to restock returned item:', error);
+        failedRestocks.push(item.product_name);
+      }
+    }
+
+    if (failedRestocks.length > 0) {
+      toast.error(`Refund recorded, but restocking failed for: ${failedRestocks.join(', ')}`);
+    }
+    if (restockItems.length > 0) {
+      await loadProducts();
+    }
+
+    return refund;
+  };
+
+  // Deducts what was sold rather than setting a new level, so tills selling the same item don't overwrite each other
+  const deductStockForSale = async (transactionId: string, items: Array<{ product_id: string; quantity: number }>) => {
+    try {
+      for (const item of items) {
+        await postSaleDeduction(
+          productsRef.current.find(p => p._id === item.product_id),
+          item.product_id,
+          item.quantity,
+          transactionId
+        );
+      }
       await loadProducts(); // Reload products to get updated quantities
       // Don't show toast here - let the calling component handle it
     } catch (error) {
@@ -485,12 +834,18 @@ export function AppProvider({ children }: { children: ReactNode }) {
     exportProducts,
     importProducts,
     addTransaction,
-    updateInventory,
+    refundTransaction,
+    deductStockForSale,
     refreshDashboard,
     loadProducts,
     loadAllProducts,
     loadTransactions,
     loadInventoryAlerts,
+    isOnline,
+    outboxEntries,
+    syncOutbox,
+    retryOutboxEntry,
+    discardOutboxEntry,
     loading: state.isLoading,
     productsPagination: state.productsPagination || initialPaginationState,
   };
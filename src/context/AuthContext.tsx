@@ -1,9 +1,10 @@
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useCallback, ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { apiService } from '../services/api';
 import { User } from '../types';
 import { toast } from 'react-hot-toast';
 import { performAuthCheck, clearAuthAndRedirect } from '../utils/authUtils';
+import { clearRuntimeCaches } from '../serviceWorkerRegistration';
 
 interface AuthState {
   user: User | null;
@@ -25,8 +26,12 @@ interface AuthContextType extends AuthState {
   }) => Promise<void>;
   logout: () => void;
   clearError: () => void;
+  switchActiveStore: (storeId: string) => void;
 }
 
+// Branch an owner last worked in; restored by StoreContext on the next load
+export const ACTIVE_STORE_KEY = 'current_store_id';
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 type AuthAction =
@@ -34,7 +39,8 @@ type AuthAction =
   | { type: 'AUTH_SUCCESS'; payload: User }
   | { type: 'AUTH_FAILURE'; payload: string }
   | { type: 'AUTH_LOGOUT' }
-  | { type: 'CLEAR_ERROR' };
+  | { type: 'CLEAR_ERROR' }
+  | { type: 'SWITCH_STORE'; payload: string };
 
 const initialState: AuthState = {
   user: null,
@@ -73,6 +79,9 @@ function authReducer(state: AuthState, action: AuthAction): AuthState {
       };
     case 'CLEAR_ERROR':
       return { ...state, error: null };
+    case 'SWITCH_STORE':
+      // Everything scoped by user.store_id follows the active branch
+      return state.user ? { ...state, user: { ...state.user, store_id: action.payload } } : state;
     default:
       return state;
   }
@@ -199,6 +208,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logout = () => {
     apiService.logout();
+    clearRuntimeCaches();
+    localStorage.removeItem(ACTIVE_STORE_KEY);
     dispatch({ type: 'AUTH_LOGOUT' });
     toast.success('Logged out');
     navigate('/login', { replace: true });
@@ -208,12 +219,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     dispatch({ type: 'CLEAR_ERROR' });
   };
 
+  const switchActiveStore = useCallback((storeId: string) => {
+    localStorage.setItem(ACTIVE_STORE_KEY, storeId);
+    dispatch({ type: 'SWITCH_STORE', payload: storeId });
+  }, []);
+
   const value: AuthContextType = {
     ...state,
     login,
     register,
     logout,
     clearError,
+    switchActiveStore,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,152 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, ReactNode } from 'react';
+import { toast } from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { useStore } from './StoreContext';
+import { ExchangeRate } from '../types';
+import {
+  DEFAULT_CURRENCY,
+  ExchangeRateInput,
+  findExchangeRate,
+  normalizeCurrencyCode,
+} from '../utils/currencyUtils';
+
+interface CurrencyContextType {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  currencies: string[]; // Base currency plus every currency with a rate in effect today
+  isLoading: boolean;
+  getRate: (currency: string, date?: Date | string) => number | undefined;
+  addRate: (rate: ExchangeRateInput) => Promise<void>;
+  importRates: (rates: ExchangeRateInput[]) => Promise<number>;
+  deleteRate: (id: string) => Promise<void>;
+  loadRates: () => Promise<void>;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+const cacheKey = (storeId: string) => `exchange_rates_${storeId}`;
+
+export const CurrencyProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { currentStore } = useStore();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const storeId = currentStore?._id;
+  const baseCurrency = normalizeCurrencyCode(currentStore?.currency || DEFAULT_CURRENCY);
+
+  // Keep a local copy so foreign-currency payments still work offline
+  const saveRates = useCallback((next: ExchangeRate[]) => {
+    setRates(next);
+    if (storeId) {
+      localStorage.setItem(cacheKey(storeId), JSON.stringify(next));
+    }
+  }, [storeId]);
+
+  const loadRates = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      saveRates(await apiService.getExchangeRates(storeId));
+    } catch (err) {
+      console.error('Failed to load exchange rates:', err);
+      try {
+        const cached = localStorage.getItem(cacheKey(storeId));
+        setRates(cached ? JSON.parse(cached) : []);
+      } catch {
+        setRates([]);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, saveRates]);
+
+  useEffect(() => {
+    loadRates();
+  }, [loadRates]);
+
+  const getRate = useCallback(
+    (currency: string, date?: Date | string) => findExchangeRate(rates, currency, baseCurrency, date),
+    [rates, baseCurrency]
+  );
+
+  const currencies = useMemo(() => {
+    const codes = new Set<string>([baseCurrency]);
+    rates.forEach(rate => {
+      const code = normalizeCurrencyCode(rate.currency);
+      if (findExchangeRate(rates, code, baseCurrency) !== undefined) codes.add(code);
+    });
+    return Array.from(codes);
+  }, [rates, baseCurrency]);
+
+  const addRate = useCallback(async (rate: ExchangeRateInput) => {
+    if (!storeId) return;
+    try {
+      const created = await apiService.createExchangeRate({
+        store_id: storeId,
+        currency: normalizeCurrencyCode(rate.currency),
+        base_currency: baseCurrency,
+        rate: rate.rate,
+        effective_date: rate.effective_date,
+        source: 'manual',
+      });
+      saveRates([created, ...rates]);
+      toast.success(`Rate for ${created.currency} saved`);
+    } catch (err) {
+      console.error('Failed to save exchange rate:', err);
+      toast.error('Failed to save exchange rate');
+      throw err;
+    }
+  }, [storeId, baseCurrency, rates, saveRates]);
+
+  const importRates = useCallback(async (imported: ExchangeRateInput[]) => {
+    if (!storeId || imported.length === 0) return 0;
+    try {
+      const created = await apiService.importExchangeRates(storeId, baseCurrency, imported);
+      saveRates([...created, ...rates]);
+      toast.success(`Imported ${created.length} exchange rate${created.length === 1 ? '' : 's'}`);
+      return created.length;
+    } catch (err) {
+      console.error('Failed to import exchange rates:', err);
+      toast.error('Failed to import exchange rates');
+      throw err;
+    }
+  }, [storeId, baseCurrency, rates, saveRates]);
+
+  const deleteRate = useCallback(async (id: string) => {
+    try {
+      await apiService.deleteExchangeRate(id);
+      saveRates(rates.filter(rate => rate._id !== id));
+      toast.success('Exchange rate deleted');
+    } catch (err) {
+      console.error('Failed to delete exchange rate:', err);
+      toast.error('Failed to delete exchange rate');
+      throw err;
+    }
+  }, [rates, saveRates]);
+
+  const value: CurrencyContextType = {
+    baseCurrency,
+    rates,
+    currencies,
+    isLoading,
+    getRate,
+    addRate,
+    importRates,
+    deleteRate,
+    loadRates,
+  };
+
+  return (
+    <CurrencyContext.Provider value={value}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
+
+export const useCurrency = (): CurrencyContextType => {
+  const context = useContext(CurrencyContext);
+  if (context === undefined) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
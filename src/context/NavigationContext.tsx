@@ -30,11 +30,18 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
     '/pos': 'Sales (POS)',
     '/products': 'Products',
     '/inventory': 'Inventory',
+    '/transfers': 'Stock Transfers',
+    '/stock-take': 'Stock-take',
+    '/promotions': 'Promotions',
+    '/customers': 'Customers',
+    '/shift': 'Till Shift',
     '/sales-history': 'Sales History',
     '/reports': 'Reports',
+    '/branches': 'Branch Comparison',
     '/expenses': 'Expenses',
     '/riders': 'Rider Management',
     '/cash-tracking': 'Cash Tracking',
+    '/dispatch': 'Dispatch Board',
     '/settings': 'Settings',
     '/login': 'Login',
     '/audit': 'Audit Logs',
@@ -71,7 +78,8 @@ export function NavigationProvider({ children }: { children: ReactNode }) {
 
   // Update history when location changes
   useEffect(() => {
-    const title = pageTitles[location.pathname] || 'Unknown Page';
+    const title = pageTitles[location.pathname]
+      || (location.pathname.startsWith('/customers/') ? 'Customer Profile' : 'Unknown Page');
     addToHistory(location.pathname, title);
   }, [location.pathname]);
 
@@ -2,6 +2,25 @@ import React, { createContext, useContext, useState, useCallback, ReactNode, use
 import { Notification } from '../components/ui/NotificationDropdown';
 import { apiService } from '../services/api';
 import { useAuth } from './AuthContext';
+import { buildExpiryNotifications } from '../utils/batchUtils';
+import { getCurrentDateString } from '../utils/timezoneUtils';
+
+// Expiry notifications are built on the client, so their read state is kept locally
+const EXPIRY_READ_KEY = 'expiry_notifications_read';
+const isExpiryNotification = (id: string) => id.startsWith('expiry-');
+
+const getReadExpiryIds = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(EXPIRY_READ_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const saveReadExpiryIds = (ids: string[]) => {
+  // Ids carry the date, so only the most recent ones are worth keeping
+  localStorage.setItem(EXPIRY_READ_KEY, JSON.stringify(ids.slice(-20)));
+};
 
 interface NotificationContextType {
   notifications: Notification[];
@@ -21,6 +40,7 @@ const NotificationContext = createContext<NotificationContextType | undefined>(u
 
 export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [expiryNotifications, setExpiryNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const { isAuthenticated, user } = useAuth();
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -43,24 +63,57 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     }
   }, []);
 
+  const markExpiryAsRead = useCallback((ids: string[]) => {
+    const readIds = getReadExpiryIds();
+    saveReadExpiryIds([...readIds.filter(id => !ids.includes(id)), ...ids]);
+    setExpiryNotifications(prev => prev.map(notification => (
+      ids.includes(notification.id) ? { ...notification, read: true } : notification
+    )));
+  }, []);
+
   const clearAll = useCallback(() => {
+    markExpiryAsRead(expiryNotifications.map(notification => notification.id));
+    setExpiryNotifications([]);
     setNotifications([]);
-  }, []);
+  }, [expiryNotifications, markExpiryAsRead]);
 
   const removeNotification = useCallback((id: string) => {
+    if (isExpiryNotification(id)) {
+      markExpiryAsRead([id]);
+      setExpiryNotifications(prev => prev.filter(notification => notification.id !== id));
+      return;
+    }
     setNotifications(prev => prev.filter(notification => notification.id !== id));
-  }, []);
+  }, [markExpiryAsRead]);
 
   const toggleExpand = useCallback((id: string) => {
-    setNotifications(prev => 
+    const toggle = (prev: Notification[]) =>
       prev.map(notification => 
         notification.id === id 
           ? { ...notification, expanded: !notification.expanded }
           : notification
-      )
-    );
+      );
+    setNotifications(toggle);
+    setExpiryNotifications(toggle);
   }, []);
 
+  // Batches past or near their expiry date in the current store
+  const loadExpiryNotifications = useCallback(async () => {
+    if (!isAuthenticated || !user?.store_id) return;
+
+    try {
+      const alerts = await apiService.getExpiringBatches({ store_id: user.store_id });
+      const readIds = getReadExpiryIds();
+      setExpiryNotifications(buildExpiryNotifications(alerts, getCurrentDateString()).map(notification => ({
+        ...notification,
+        timestamp: new Date(),
+        read: readIds.includes(notification.id),
+      })));
+    } catch (error) {
+      console.warn('⚠️ Failed to load expiring batches:', error);
+    }
+  }, [isAuthenticated, user?.store_id]);
+
   // Load notifications from backend
   const loadNotifications = useCallback(async () => {
     if (!isAuthenticated || !user) return;
@@ -113,6 +166,11 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
 
   // Enhanced mark as read with backend sync
   const markAsRead = useCallback(async (id: string) => {
+    if (isExpiryNotification(id)) {
+      markExpiryAsRead([id]);
+      return;
+    }
+
     // Optimistically update UI
     setNotifications(prev => 
       prev.map(notification => 
@@ -139,10 +197,12 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         )
       );
     }
-  }, [refreshNotifications]);
+  }, [refreshNotifications, markExpiryAsRead]);
 
   // Enhanced mark all as read with backend sync
   const markAllAsRead = useCallback(async () => {
+    markExpiryAsRead(expiryNotifications.map(notification => notification.id));
+
     // Optimistically update UI
     setNotifications(prev => 
       prev.map(notification => ({ ...notification, read: true }))
@@ -161,7 +221,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
         prev.map(notification => ({ ...notification, read: false }))
       );
     }
-  }, [refreshNotifications]);
+  }, [refreshNotifications, expiryNotifications, markExpiryAsRead]);
 
   // Start polling for new notifications
   const startPolling = useCallback(() => {
@@ -190,6 +250,7 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     } else {
       stopPolling();
       setNotifications([]);
+      setExpiryNotifications([]);
     }
 
     return () => {
@@ -197,10 +258,16 @@ export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ childr
     };
   }, [isAuthenticated, user, loadNotifications, startPolling, stopPolling]);
 
-  const unreadCount = notifications.filter(n => !n.read).length;
+  // Expiry is checked once per session and again when the active store changes
+  useEffect(() => {
+    loadExpiryNotifications();
+  }, [loadExpiryNotifications]);
+
+  const allNotifications = [...expiryNotifications, ...notifications];
+  const unreadCount = allNotifications.filter(n => !n.read).length;
 
   const value: NotificationContextType = {
-    notifications,
+    notifications: allNotifications,
     addNotification,
     markAsRead,
     markAllAsRead,
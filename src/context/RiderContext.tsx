@@ -1,7 +1,8 @@
 import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { toast } from 'react-hot-toast';
 import { apiService } from '../services/api';
-import { Rider } from '../types';
+import { useStore } from './StoreContext';
+import { Rider, RiderCashTransaction, RiderReconciliation } from '../types';
 
 interface RiderContextType {
   riders: Rider[];
@@ -9,7 +10,9 @@ interface RiderContextType {
   error: string | null;
   addRider: (rider: Omit<Rider, '_id' | 'created_at' | 'updated_at'>) => Promise<void>;
   updateRider: (id: string, updates: Partial<Rider>) => Promise<void>;
-  reconcileRider: (id: string, amount: number) => Promise<void>;
+  reconcileRiderDay: (id: string, reconciliation: { date: string; returned_cash: number; reason?: string }) => Promise<RiderReconciliation>;
+  loadRiderTransactions: (id: string, date?: string) => Promise<RiderCashTransaction[]>;
+  loadRiderReconciliation: (id: string, date: string) => Promise<RiderReconciliation | null>;
   giveCashToRider: (id: string, amount: number) => Promise<void>;
   loadRiders: () => Promise<void>;
 }
@@ -17,6 +20,8 @@ interface RiderContextType {
 const RiderContext = createContext<RiderContextType | undefined>(undefined);
 
 export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { currentStore } = useStore();
+  const storeId = currentStore?._id;
   const [riders, setRiders] = useState<Rider[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -26,7 +31,8 @@ export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     setError(null);
     
     try {
-      const response = await apiService.request('/riders');
+      const query = storeId ? `?store_id=${encodeURIComponent(storeId)}` : '';
+      const response = await apiService.request(`/riders${query}`);
       setRiders((response.data as Rider[]) || []);
     } catch (err) {
       console.error('Failed to load riders:', err);
@@ -35,13 +41,13 @@ export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [storeId]);
 
   const addRider = useCallback(async (riderData: Omit<Rider, '_id' | 'created_at' | 'updated_at'>) => {
     try {
       const response = await apiService.request('/riders', {
         method: 'POST',
-        body: JSON.stringify(riderData),
+        body: JSON.stringify({ ...riderData, store_id: storeId || riderData.store_id }),
       });
       
       const newRider = response.data as Rider;
@@ -52,7 +58,7 @@ export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       toast.error('Failed to add rider');
       throw err;
     }
-  }, []);
+  }, [storeId]);
 
   const updateRider = useCallback(async (id: string, updates: Partial<Rider>) => {
     try {
@@ -73,26 +79,30 @@ export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, []);
 
-  const reconcileRider = useCallback(async (id: string, amount: number) => {
+  // The backend rebuilds the day's expected cash from the ledger and signs the slip off as the current user
+  const reconcileRiderDay = useCallback(async (id: string, reconciliation: { date: string; returned_cash: number; reason?: string }) => {
     try {
-      await apiService.request(`/riders/${id}/reconcile`, {
+      const response = await apiService.request(`/riders/${id}/reconciliations`, {
         method: 'POST',
-        body: JSON.stringify({ amount }),
+        body: JSON.stringify(reconciliation),
       });
       
+      const saved = response.data as RiderReconciliation;
       setRiders(prev => prev.map(rider => {
         if (rider._id === id) {
           return {
             ...rider,
-            pending_reconciliation: Math.max(0, rider.pending_reconciliation - amount),
-            total_reconciled: rider.total_reconciled + amount,
+            current_balance: Math.max(0, rider.current_balance - saved.expected_cash),
+            pending_reconciliation: Math.max(0, rider.pending_reconciliation - saved.expected_cash),
+            total_reconciled: rider.total_reconciled + saved.returned_cash,
             updated_at: new Date(),
           };
         }
         return rider;
       }));
       
-      toast.success(`Reconciled ₺${amount.toFixed(2)} for rider`);
+      toast.success(`Reconciled ${saved.rider_name || 'rider'} for ${saved.date}`);
+      return saved;
     } catch (err) {
       console.error('Failed to reconcile rider:', err);
       toast.error('Failed to reconcile rider');
@@ -100,6 +110,18 @@ export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, []);
 
+  const loadRiderTransactions = useCallback(async (id: string, date?: string) => {
+    const query = date ? `?date=${encodeURIComponent(date)}` : '';
+    const response = await apiService.request(`/riders/${id}/transactions${query}`);
+    return (response.data as RiderCashTransaction[]) || [];
+  }, []);
+
+  const loadRiderReconciliation = useCallback(async (id: string, date: string) => {
+    const response = await apiService.request(`/riders/${id}/reconciliations?date=${encodeURIComponent(date)}`);
+    const reconciliations = (response.data as RiderReconciliation[]) || [];
+    return reconciliations.find(reconciliation => reconciliation.date === date) || null;
+  }, []);
+
   const giveCashToRider = useCallback(async (id: string, amount: number) => {
     try {
       await apiService.request(`/riders/${id}/give-cash`, {
@@ -133,7 +155,9 @@ export const RiderProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     error,
     addRider,
     updateRider,
-    reconcileRider,
+    reconcileRiderDay,
+    loadRiderTransactions,
+    loadRiderReconciliation,
     giveCashToRider,
     loadRiders,
   };
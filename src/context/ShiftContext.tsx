@@ -0,0 +1,119 @@
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { toast } from 'react-hot-toast';
+import { apiService } from '../services/api';
+import { useAuth } from './AuthContext';
+import { useStore } from './StoreContext';
+import { Shift } from '../types';
+import { CASH_MOVEMENT_LABELS } from '../utils/shiftUtils';
+
+interface ShiftContextType {
+  currentShift: Shift | null; // The signed-in cashier's open shift at the current store
+  isLoading: boolean;
+  loadCurrentShift: () => Promise<void>;
+  openShift: (openingFloat: number, denominationCounts?: Record<string, number>) => Promise<Shift>;
+  recordMovement: (movementData: Parameters<typeof apiService.recordShiftMovement>[1]) => Promise<Shift>;
+  closeShift: (closeData: Parameters<typeof apiService.closeShift>[1]) => Promise<Shift>;
+}
+
+const ShiftContext = createContext<ShiftContextType | undefined>(undefined);
+
+export const ShiftProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const { currentStore } = useStore();
+  const storeId = currentStore?._id;
+  const [currentShift, setCurrentShift] = useState<Shift | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadCurrentShift = useCallback(async () => {
+    if (!storeId) {
+      setCurrentShift(null);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setCurrentShift(await apiService.getCurrentShift(storeId));
+    } catch (err) {
+      console.error('Failed to load current shift:', err);
+      setCurrentShift(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      loadCurrentShift();
+    } else {
+      setCurrentShift(null);
+    }
+  }, [isAuthenticated, loadCurrentShift]);
+
+  const openShift = useCallback(async (openingFloat: number, denominationCounts?: Record<string, number>) => {
+    if (!storeId) throw new Error('No store selected');
+    try {
+      const shift = await apiService.openShift({
+        store_id: storeId,
+        opening_float: openingFloat,
+        denomination_counts: denominationCounts,
+      });
+      setCurrentShift(shift);
+      toast.success('Shift opened');
+      return shift;
+    } catch (err: any) {
+      console.error('Failed to open shift:', err);
+      toast.error(err.message || 'Failed to open shift');
+      throw err;
+    }
+  }, [storeId]);
+
+  const recordMovement = useCallback(async (movementData: Parameters<typeof apiService.recordShiftMovement>[1]) => {
+    if (!currentShift) throw new Error('No open shift');
+    try {
+      const shift = await apiService.recordShiftMovement(currentShift._id, movementData);
+      setCurrentShift(shift);
+      toast.success(`${CASH_MOVEMENT_LABELS[movementData.type]} recorded`);
+      return shift;
+    } catch (err: any) {
+      console.error('Failed to record cash movement:', err);
+      toast.error(err.message || 'Failed to record cash movement');
+      throw err;
+    }
+  }, [currentShift]);
+
+  const closeShift = useCallback(async (closeData: Parameters<typeof apiService.closeShift>[1]) => {
+    if (!currentShift) throw new Error('No open shift');
+    try {
+      const shift = await apiService.closeShift(currentShift._id, closeData);
+      setCurrentShift(null);
+      toast.success('Shift closed');
+      return shift;
+    } catch (err: any) {
+      console.error('Failed to close shift:', err);
+      toast.error(err.message || 'Failed to close shift');
+      throw err;
+    }
+  }, [currentShift]);
+
+  const value: ShiftContextType = {
+    currentShift,
+    isLoading,
+    loadCurrentShift,
+    openShift,
+    recordMovement,
+    closeShift,
+  };
+
+  return (
+    <ShiftContext.Provider value={value}>
+      {children}
+    </ShiftContext.Provider>
+  );
+};
+
+export const useShift = (): ShiftContextType => {
+  const context = useContext(ShiftContext);
+  if (context === undefined) {
+    throw new Error('useShift must be used within a ShiftProvider');
+  }
+  return context;
+};
@@ -1,7 +1,11 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { useAuth } from './AuthContext';
+import { toast } from 'react-hot-toast';
+import { useAuth, ACTIVE_STORE_KEY } from './AuthContext';
 import { apiService } from '../services/api';
 import { app } from '../config/environment';
+import { localeService } from '../services/localeService';
+import { ReceiptTemplate, TaxMode, TaxClass, StoreDateFormat, DeliveryZone, DeliveryZoneMode } from '../types';
+import { getLocaleSettings } from '../utils/localeUtils';
 
 interface Store {
   _id: string;
@@ -11,8 +15,25 @@ interface Store {
   email: string;
   currency: string;
   timezone: string;
+  locale?: string;
+  date_format?: StoreDateFormat;
   tax_rate: number;
   low_stock_threshold: number;
+  held_cart_expiry_hours?: number;
+  expiry_alert_days?: number;
+  scale_price_prefixes?: string; // Scale label prefixes that embed a price rather than a weight
+  loyalty_points_per_unit?: number; // Points earned per unit of base currency; 0 turns loyalty off
+  loyalty_point_value?: number; // Base currency value of one point at redemption
+  loyalty_min_redeem_points?: number;
+  cash_movement_pin_threshold?: number; // Paid-ins and paid-outs above this need a manager PIN; 0 turns it off
+  delivery_zone_mode?: DeliveryZoneMode;
+  delivery_zones?: DeliveryZone[];
+  latitude?: number; // Store location that distance bands are measured from
+  longitude?: number;
+  receipt_template?: ReceiptTemplate;
+  tax_mode?: TaxMode;
+  tax_classes?: TaxClass[];
+  category_tax_classes?: Record<string, string>;
   owner_id: string;
   is_active: boolean;
   created_at: Date;
@@ -24,6 +45,7 @@ interface StoreContextType {
   stores: Store[];
   isLoading: boolean;
   error: string | null;
+  canSwitchStores: boolean;
   switchStore: (storeId: string) => void;
   refreshStores: () => Promise<void>;
 }
@@ -31,12 +53,31 @@ interface StoreContextType {
 const StoreContext = createContext<StoreContextType | undefined>(undefined);
 
 export function StoreProvider({ children }: { children: ReactNode }) {
-  const { user } = useAuth();
+  const { user, switchActiveStore } = useAuth();
   const [currentStore, setCurrentStore] = useState<Store | null>(null);
   const [stores, setStores] = useState<Store[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const canSwitchStores = user?.role === 'owner' || user?.role === 'admin';
+
+  // Placeholder until a branch's own settings are loaded
+  const storeFromSummary = (summary: { id: string; name: string; address: string; is_active: boolean }): Store => ({
+    _id: summary.id,
+    name: summary.name,
+    address: summary.address,
+    phone: '',
+    email: '',
+    currency: 'TRY',
+    timezone: 'Europe/Istanbul',
+    tax_rate: 18,
+    low_stock_threshold: 10,
+    owner_id: user?.id || '',
+    is_active: summary.is_active,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
   const loadStores = async () => {
     if (!user) return;
 
@@ -44,12 +85,33 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     setError(null);
 
     try {
+      // Owners and admins can work in any branch; everyone else only sees their own
+      let branches: Store[] = [];
+      if (canSwitchStores) {
+        try {
+          const response = await apiService.getStoresForAssignment();
+          branches = (Array.isArray(response.data) ? response.data : [])
+            .filter(summary => summary.is_active !== false)
+            .map(storeFromSummary);
+        } catch (branchError) {
+          console.error('Failed to load branches:', branchError);
+        }
+
+        // Reopen the branch the owner last worked in
+        const savedStoreId = localStorage.getItem(ACTIVE_STORE_KEY);
+        if (savedStoreId && savedStoreId !== user.store_id && branches.some(branch => branch._id === savedStoreId)) {
+          switchActiveStore(savedStoreId);
+          return;
+        }
+      }
+
       // Try to load real store settings from API
       // This connects to the store settings form in Settings page
       if (user.store_id) {
+        let activeStore: Store;
         try {
           const storeSettings = await apiService.getStoreSettings(user.store_id);
-          const realStore: Store = {
+          activeStore = {
             _id: user.store_id,
             name: storeSettings.name,
             address: storeSettings.address,
@@ -57,20 +119,35 @@ export function StoreProvider({ children }: { children: ReactNode }) {
             email: storeSettings.email,
             currency: storeSettings.currency,
             timezone: storeSettings.timezone,
+            locale: storeSettings.locale,
+            date_format: storeSettings.date_format,
             tax_rate: storeSettings.tax_rate,
             low_stock_threshold: storeSettings.low_stock_threshold,
+            held_cart_expiry_hours: storeSettings.held_cart_expiry_hours,
+            expiry_alert_days: storeSettings.expiry_alert_days,
+            scale_price_prefixes: storeSettings.scale_price_prefixes,
+            loyalty_points_per_unit: storeSettings.loyalty_points_per_unit,
+            loyalty_point_value: storeSettings.loyalty_point_value,
+            loyalty_min_redeem_points: storeSettings.loyalty_min_redeem_points,
+            cash_movement_pin_threshold: storeSettings.cash_movement_pin_threshold,
+            delivery_zone_mode: storeSettings.delivery_zone_mode,
+            delivery_zones: storeSettings.delivery_zones,
+            latitude: storeSettings.latitude,
+            longitude: storeSettings.longitude,
+            receipt_template: storeSettings.receipt_template,
+            tax_mode: storeSettings.tax_mode,
+            tax_classes: storeSettings.tax_classes,
+            category_tax_classes: storeSettings.category_tax_classes,
             owner_id: user.id,
             is_active: true,
             created_at: new Date(),
             updated_at: new Date(),
           };
-          setStores([realStore]);
-          setCurrentStore(realStore);
         } catch (apiError) {
           // Fallback to default store if API fails
-          const fallbackStore: Store = {
+          activeStore = {
             _id: user.store_id,
-            name: app.name,
+            name: branches.find(branch => branch._id === user.store_id)?.name || app.name,
             address: 'Store Address - Update in Settings',
             phone: 'Phone - Update in Settings',
             email: 'Email - Update in Settings',
@@ -83,9 +160,11 @@ export function StoreProvider({ children }: { children: ReactNode }) {
             created_at: new Date(),
             updated_at: new Date(),
           };
-          setStores([fallbackStore]);
-          setCurrentStore(fallbackStore);
         }
+
+        const otherBranches = branches.filter(branch => branch._id !== activeStore._id);
+        setStores([activeStore, ...otherBranches]);
+        setCurrentStore(activeStore);
       }
     } catch (error) {
       console.error('Failed to load stores:', error);
@@ -95,19 +174,27 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Re-scopes products, sales, expenses, riders and goals to another branch
   const switchStore = (storeId: string) => {
     const store = stores.find(s => s._id === storeId);
-    if (store) {
-      setCurrentStore(store);
-      // In a real app, you would update the user's current store context
-      localStorage.setItem('current_store_id', storeId);
+    if (!store || storeId === currentStore?._id) return;
+    if (!canSwitchStores) {
+      toast.error('You can only work in your assigned store');
+      return;
     }
+    switchActiveStore(storeId);
+    toast.success(`Switched to ${store.name}`);
   };
 
   const refreshStores = async () => {
     await loadStores();
   };
 
+  // Formatting outside React follows the current store too
+  useEffect(() => {
+    localeService.configure(getLocaleSettings(currentStore));
+  }, [currentStore]);
+
   useEffect(() => {
     if (user) {
       loadStores();
@@ -120,6 +207,7 @@ export function StoreProvider({ children }: { children: ReactNode }) {
     stores,
     isLoading,
     error,
+    canSwitchStores,
     switchStore,
     refreshStores,
   };
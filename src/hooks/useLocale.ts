@@ -0,0 +1,27 @@
+import { useMemo } from 'react';
+import { useStore } from '../context/StoreContext';
+import {
+  getLocaleSettings,
+  formatMoney,
+  formatNumberValue,
+  formatDateValue,
+  formatDateTimeValue,
+  formatTimeValue,
+} from '../utils/localeUtils';
+
+// Formatters bound to the current store; a store switch hands out new ones
+export function useLocale() {
+  const { currentStore } = useStore();
+
+  return useMemo(() => {
+    const settings = getLocaleSettings(currentStore);
+    return {
+      settings,
+      formatCurrency: (amount: number, currency?: string) => formatMoney(amount, settings, currency),
+      formatNumber: (value: number, options?: Intl.NumberFormatOptions) => formatNumberValue(value, settings, options),
+      formatDate: (date: Date | string) => formatDateValue(date, settings),
+      formatDateTime: (date: Date | string) => formatDateTimeValue(date, settings),
+      formatTime: (date: Date | string) => formatTimeValue(date, settings),
+    };
+  }, [currentStore]);
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useStore } from '../context/StoreContext';
+import { app } from '../config/environment';
+import { thermalPrinter, rasterizeLogo, PrinterConnectionType } from '../services/thermalPrinter';
+import { encodeReceipt, DEFAULT_RECEIPT_TEMPLATE, PAPER_WIDTH_DOTS, RasterImage } from '../utils/escposEncoder';
+import { Transaction, ReceiptTemplate } from '../types';
+
+export function useReceiptPrinter(templateOverride?: ReceiptTemplate) {
+  const { currentStore } = useStore();
+  const [connection, setConnection] = useState<PrinterConnectionType | null>(thermalPrinter.getConnection());
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const template = templateOverride || currentStore?.receipt_template || DEFAULT_RECEIPT_TEMPLATE;
+
+  useEffect(() => thermalPrinter.subscribe(setConnection), []);
+
+  const connectPrinter = useCallback(async (type: PrinterConnectionType) => {
+    try {
+      await thermalPrinter.connect(type);
+      toast.success('Receipt printer connected');
+    } catch (error: any) {
+      // Closing the browser's device picker rejects with NotFoundError
+      if (error?.name !== 'NotFoundError') {
+        console.error('Failed to connect receipt printer:', error);
+        toast.error(error.message || 'Failed to connect receipt printer');
+      }
+    }
+  }, []);
+
+  const disconnectPrinter = useCallback(() => thermalPrinter.disconnect(), []);
+
+  const printTransaction = useCallback(async (transaction: Transaction) => {
+    setIsPrinting(true);
+    try {
+      let logo: RasterImage | null = null;
+      if (template.logo) {
+        try {
+          logo = await rasterizeLogo(template.logo, PAPER_WIDTH_DOTS[template.paper_width]);
+        } catch (error) {
+          console.error('Failed to prepare receipt logo:', error);
+        }
+      }
+
+      const bytes = encodeReceipt(
+        transaction,
+        template,
+        {
+          name: currentStore?.name || app.name,
+          address: currentStore?.address,
+          phone: currentStore?.phone,
+        },
+        logo
+      );
+
+      if (thermalPrinter.isConnected() || await thermalPrinter.reconnect()) {
+        await thermalPrinter.print(bytes);
+        toast.success('Receipt sent to printer');
+      } else {
+        thermalPrinter.download(bytes, `receipt-${transaction._id || 'preview'}.bin`);
+        toast('No receipt printer connected, downloaded the raw receipt instead');
+      }
+    } catch (error: any) {
+      console.error('Failed to print receipt:', error);
+      toast.error(error.message || 'Failed to print receipt');
+    } finally {
+      setIsPrinting(false);
+    }
+  }, [template, currentStore]);
+
+  return {
+    connection,
+    isPrinting,
+    isUsbSupported: thermalPrinter.isUsbSupported(),
+    isSerialSupported: thermalPrinter.isSerialSupported(),
+    connectPrinter,
+    disconnectPrinter,
+    printTransaction,
+  };
+}
@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { apiService } from '../services/api';
+import { Refund, Shift, Transaction } from '../types';
+import { summarizeShift } from '../utils/shiftUtils';
+
+// Live totals for a shift, built from its sales and the cashier's refunds while it was open
+export function useShiftSummary(shift: Shift | null) {
+  const [sales, setSales] = useState<Transaction[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasError, setHasError] = useState(false); // Totals are incomplete until a reload succeeds
+
+  const shiftId = shift?._id;
+  const storeId = shift?.store_id;
+  const cashierId = shift?.cashier_id;
+  const openedAt = shift?.opened_at;
+  const closedAt = shift?.closed_at;
+
+  const reload = useCallback(async () => {
+    if (!shiftId) {
+      setSales([]);
+      setRefunds([]);
+      return;
+    }
+    setIsLoading(true);
+    setHasError(false);
+    try {
+      const [salesResponse, storeRefunds] = await Promise.all([
+        apiService.getTransactions({ store_id: storeId, shift_id: shiftId, limit: 1000 }),
+        apiService.getRefunds({
+          store_id: storeId,
+          start_date: openedAt ? new Date(openedAt).toISOString() : undefined,
+          end_date: closedAt ? new Date(closedAt).toISOString() : undefined,
+        }),
+      ]);
+      setSales(salesResponse.transactions);
+      setRefunds(storeRefunds.filter(refund => refund.cashier_id === cashierId));
+    } catch (error) {
+      console.error('Failed to load shift activity:', error);
+      setHasError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [shiftId, storeId, cashierId, openedAt, closedAt]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const summary = useMemo(
+    () => summarizeShift(shift || { opening_float: 0, movements: [] }, sales, refunds),
+    [shift, sales, refunds]
+  );
+
+  return { summary, isLoading, hasError, reload };
+}
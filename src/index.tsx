@@ -2,17 +2,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import App from './App';
-
-// Register service worker for PWA functionality
-if ('serviceWorker' in navigator) {
-  window.addEventListener('load', () => {
-    navigator.serviceWorker.register('/sw.js')
-      .then((registration) => {
-      })
-      .catch((registrationError) => {
-      });
-  });
-}
+import * as serviceWorkerRegistration from './serviceWorkerRegistration';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -23,3 +13,7 @@ root.render(
     <App />
   </React.StrictMode>
 );
+
+// Register the Workbox service worker (production builds only) for offline
+// support and "new version available" prompts
+serviceWorkerRegistration.register();
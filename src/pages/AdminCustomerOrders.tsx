@@ -16,41 +16,18 @@ import {
   Users,
   TrendingUp,
   RefreshCw,
-  X
+  X,
+  User
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { Button } from '../components/ui/Button';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { useAuth } from '../context/AuthContext';
+import { useStore } from '../context/StoreContext';
 import { apiService } from '../services/api';
 import { toast } from 'react-hot-toast';
-
-interface OrderItem {
-  productId: string;
-  productName: string;
-  quantity: number;
-  unitPrice: number;
-  totalPrice: number;
-}
-
-interface CustomerOrder {
-  _id: string;
-  orderNumber: string;
-  customerName: string;
-  customerPhone: string;
-  customerEmail?: string;
-  items: OrderItem[];
-  paymentMethod: string;
-  deliveryMethod: string;
-  deliveryAddress?: string;
-  notes?: string;
-  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'completed';
-  subtotal: number;
-  deliveryFee: number;
-  total: number;
-  createdAt: string;
-  updatedAt: string;
-  whatsappSent: boolean;
-}
+import { findCustomerByPhone, normalizeCustomerPhone } from '../utils/customerUtils';
+import { CustomerOrder } from '../types';
 
 interface OrderStats {
   totalOrders: number;
@@ -95,6 +72,8 @@ const statusConfig = {
 
 export const AdminCustomerOrders: React.FC = () => {
   const { user: currentUser } = useAuth();
+  const { currentStore } = useStore();
+  const navigate = useNavigate();
   const [orders, setOrders] = useState<CustomerOrder[]>([]);
   const [stats, setStats] = useState<OrderStats | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -103,10 +82,33 @@ export const AdminCustomerOrders: React.FC = () => {
   const [dateFilter, setDateFilter] = useState<string>('all');
   const [selectedOrder, setSelectedOrder] = useState<CustomerOrder | null>(null);
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false);
+  const [isOpeningCustomer, setIsOpeningCustomer] = useState(false);
 
   // Check if user has admin access
   const hasAccess = currentUser && ['admin', 'owner', 'manager'].includes(currentUser.role);
 
+  // Orders reach the customer record through the phone number; create the record on first use
+  const openCustomerProfile = async (order: CustomerOrder) => {
+    if (!currentStore?._id || !order.customerPhone) return;
+    setIsOpeningCustomer(true);
+    try {
+      const phone = normalizeCustomerPhone(order.customerPhone);
+      const matches = await apiService.getCustomers({ store_id: currentStore._id, phone });
+      const customer = findCustomerByPhone(matches, phone) || await apiService.createCustomer({
+        store_id: currentStore._id,
+        name: order.customerName,
+        phone,
+        email: order.customerEmail || undefined,
+      });
+      navigate(`/customers/${customer._id}`);
+    } catch (error: any) {
+      console.error('Failed to open customer profile:', error);
+      toast.error(error.message || 'Failed to open customer profile');
+    } finally {
+      setIsOpeningCustomer(false);
+    }
+  };
+
   // Load orders and stats
   const loadOrders = async () => {
     try {
@@ -377,10 +379,16 @@ Thank you! 🙏`;
               Manage customer orders and track their status
             </p>
           </div>
-          <Button onClick={loadOrders} variant="outline">
-            <RefreshCw className="h-4 w-4 mr-2" />
-            Refresh
-          </Button>
+          <div className="flex gap-2">
+            <Button onClick={() => navigate('/dispatch')} variant="outline">
+              <Truck className="h-4 w-4 mr-2" />
+              Dispatch Board
+            </Button>
+            <Button onClick={loadOrders} variant="outline">
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -636,6 +644,18 @@ Thank you! 🙏`;
                     </label>
                     <p className="text-gray-900 dark:text-white">{selectedOrder.customerPhone || 'N/A'}</p>
                   </div>
+                  {selectedOrder.customerPhone && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openCustomerProfile(selectedOrder)}
+                      loading={isOpeningCustomer}
+                      disabled={isOpeningCustomer}
+                    >
+                      <User className="h-4 w-4 mr-2" />
+                      Open Customer Profile
+                    </Button>
+                  )}
                   {selectedOrder.customerEmail && (
                     <div>
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
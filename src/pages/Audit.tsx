@@ -1,13 +1,14 @@
 import React, { useState } from 'react';
-import { Shield, BarChart3, FileText } from 'lucide-react';
+import { Shield, BarChart3, FileText, Banknote } from 'lucide-react';
 import { Card } from '../components/ui/Card';
 import { AuditLogs } from '../components/ui/AuditLogs';
 import { AuditAnalytics } from '../components/ui/AuditAnalytics';
+import { ShiftReviews } from '../components/ui/ShiftReviews';
 import { BackButton } from '../components/ui/BackButton';
 import { Breadcrumb } from '../components/ui/Breadcrumb';
 
 export const Audit: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'logs' | 'analytics'>('logs');
+  const [activeTab, setActiveTab] = useState<'logs' | 'analytics' | 'shifts'>('logs');
 
   const tabs = [
     {
@@ -21,6 +22,12 @@ export const Audit: React.FC = () => {
       name: 'Analytics',
       icon: BarChart3,
       description: 'Advanced analytics and reporting features'
+    },
+    {
+      id: 'shifts' as const,
+      name: 'Shift Reviews',
+      icon: Banknote,
+      description: 'Sign off till variances from closed shifts'
     }
   ];
 
@@ -148,6 +155,28 @@ export const Audit: React.FC = () => {
               <AuditAnalytics />
             </div>
           )}
+
+          {activeTab === 'shifts' && (
+            <div>
+              <div className="mb-6">
+                <Card className="p-6 bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800">
+                  <div className="flex items-start">
+                    <Banknote className="h-6 w-6 text-amber-600 dark:text-amber-400 mt-1 mr-3" />
+                    <div>
+                      <h3 className="text-lg font-semibold text-amber-900 dark:text-amber-300 mb-2">
+                        Shift Reviews
+                      </h3>
+                      <p className="text-amber-700 dark:text-amber-400">
+                        Every closed till shift lands here with its counted cash and over/short variance.
+                        Open the Z-report, then sign the shift off or flag it for follow-up.
+                      </p>
+                    </div>
+                  </div>
+                </Card>
+              </div>
+              <ShiftReviews />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,271 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Building2, RefreshCw, TrendingUp, ShoppingCart, Wallet, Receipt } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { useStore } from '../context/StoreContext';
+import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { Refund } from '../types';
+import { applyRefundsToMetrics } from '../utils/refundUtils';
+import { BranchComparison as BranchComparisonData, compareBranches, toBranchMetrics } from '../utils/branchUtils';
+import { getCurrencySymbol } from '../utils/currencyUtils';
+import { getLastNDaysRange, getThisMonthRange, getTodayRange, normalizeDateToYYYYMMDD } from '../utils/timezoneUtils';
+
+type ComparisonRange = 'today' | '7d' | '30d' | 'this_month';
+
+const RANGE_OPTIONS: Array<{ value: ComparisonRange; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: '7d', label: 'Last 7 days' },
+  { value: '30d', label: 'Last 30 days' },
+  { value: 'this_month', label: 'This month' },
+];
+
+const getRangeDates = (range: ComparisonRange) => {
+  switch (range) {
+    case 'today':
+      return getTodayRange();
+    case '7d':
+      return getLastNDaysRange(7);
+    case 'this_month':
+      return getThisMonthRange();
+    default:
+      return getLastNDaysRange(30);
+  }
+};
+
+export const BranchComparison: React.FC = () => {
+  const { stores, currentStore, switchStore } = useStore();
+  const { settings, formatCurrency, formatNumber } = useLocale();
+  const { isDark } = useTheme();
+  const [range, setRange] = useState<ComparisonRange>('30d');
+  const [comparison, setComparison] = useState<BranchComparisonData | null>(null);
+  const [failedStores, setFailedStores] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const currencySymbol = getCurrencySymbol(settings.currency);
+
+  const loadComparison = useCallback(async () => {
+    if (stores.length === 0) return;
+    setIsLoading(true);
+
+    const { start, end } = getRangeDates(range);
+    const startDate = normalizeDateToYYYYMMDD(start);
+    const endDate = normalizeDateToYYYYMMDD(end);
+    const failed: string[] = [];
+
+    // One store at a time keeps the load on the analytics endpoint predictable
+    const rows = [];
+    for (const store of stores) {
+      try {
+        const metrics = await apiService.getDashboardAnalytics({
+          store_id: store._id,
+          status: 'all',
+          dateRange: range,
+          startDate,
+          endDate,
+        });
+        let refunds: Refund[] = [];
+        try {
+          refunds = await apiService.getRefunds({ store_id: store._id, start_date: startDate, end_date: endDate });
+        } catch (refundError) {
+          console.warn(`⚠️ Failed to load refunds for ${store.name}:`, refundError);
+        }
+        rows.push(toBranchMetrics(store._id, store.name, applyRefundsToMetrics(metrics, refunds)));
+      } catch (error) {
+        console.error(`Failed to load metrics for ${store.name}:`, error);
+        failed.push(store.name);
+      }
+    }
+
+    setComparison(compareBranches(rows));
+    setFailedStores(failed);
+    if (failed.length > 0) {
+      toast.error(`Could not load ${failed.join(', ')}`);
+    }
+    setIsLoading(false);
+  }, [stores, range]);
+
+  useEffect(() => {
+    loadComparison();
+  }, [loadComparison]);
+
+  const tooltipStyle = {
+    backgroundColor: isDark ? '#1f2937' : '#ffffff',
+    border: isDark ? 'none' : '1px solid #e5e7eb',
+    borderRadius: '12px',
+    color: isDark ? '#f9fafb' : '#374151',
+  };
+
+  const summaryCards = comparison ? [
+    { label: 'Net Sales', value: formatCurrency(comparison.totals.sales), icon: TrendingUp, color: 'text-emerald-600 dark:text-emerald-400' },
+    { label: 'Transactions', value: formatNumber(comparison.totals.transactions), icon: ShoppingCart, color: 'text-blue-600 dark:text-blue-400' },
+    { label: 'Expenses', value: formatCurrency(comparison.totals.expenses), icon: Receipt, color: 'text-orange-600 dark:text-orange-400' },
+    { label: 'Net Profit', value: formatCurrency(comparison.totals.net_profit), icon: Wallet, color: 'text-purple-600 dark:text-purple-400' },
+  ] : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <Building2 className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">Branch Comparison</h1>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {stores.length} branches side by side, in {settings.currency}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-row gap-3 items-center">
+                <select
+                  value={range}
+                  onChange={(e) => setRange(e.target.value as ComparisonRange)}
+                  className="border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm text-sm"
+                  title="Period"
+                >
+                  {RANGE_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <Button onClick={loadComparison} variant="outline" size="md" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {isLoading && !comparison ? (
+          <Card className="p-12">
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="lg" className="mr-4" />
+              <span className="text-gray-500 dark:text-gray-400 text-lg">Loading branches...</span>
+            </div>
+          </Card>
+        ) : comparison && comparison.branches.length > 0 ? (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {summaryCards.map(card => (
+                <Card key={card.label} padding="sm">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">{card.label}</p>
+                      <p className="text-lg font-bold text-gray-900 dark:text-white">{card.value}</p>
+                    </div>
+                    <card.icon className={`h-6 w-6 ${card.color}`} />
+                  </div>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Sales, Expenses and Profit by Branch</h2>
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={comparison.branches}>
+                    <CartesianGrid strokeDasharray="2 4" stroke="#e5e7eb" opacity={0.2} />
+                    <XAxis dataKey="store_name" stroke="#6b7280" fontSize={12} tickLine={false} axisLine={false} />
+                    <YAxis
+                      stroke="#6b7280"
+                      fontSize={11}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`}
+                    />
+                    <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => formatCurrency(value)} />
+                    <Legend />
+                    <Bar dataKey="sales" name="Net Sales" fill="#10b981" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="expenses" name="Expenses" fill="#f97316" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="net_profit" name="Net Profit" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+
+            <Card>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">#</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Branch</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Net Sales</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Share</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Transactions</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Avg. Ticket</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Refunds</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Expenses</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Net Profit</th>
+                      <th className="py-3 px-4"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.branches.map(branch => (
+                      <tr key={branch.store_id} className="border-b border-gray-100 dark:border-gray-700">
+                        <td className="py-3 px-4 text-sm text-gray-500 dark:text-gray-400">{branch.rank}</td>
+                        <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">{branch.store_name}</td>
+                        <td className="py-3 px-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(branch.sales)}</td>
+                        <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">{branch.sales_share}%</td>
+                        <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">{formatNumber(branch.transactions)}</td>
+                        <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">{formatCurrency(branch.average_ticket)}</td>
+                        <td className="py-3 px-4 text-sm text-right text-red-600 dark:text-red-400">{formatCurrency(branch.refunds)}</td>
+                        <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">{formatCurrency(branch.expenses)}</td>
+                        <td className={`py-3 px-4 text-sm text-right font-medium ${branch.net_profit < 0 ? 'text-red-600 dark:text-red-400' : 'text-emerald-600 dark:text-emerald-400'}`}>
+                          {formatCurrency(branch.net_profit)}
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          {branch.store_id !== currentStore?._id && (
+                            <button
+                              onClick={() => switchStore(branch.store_id)}
+                              className="text-sm text-primary-600 dark:text-primary-400 hover:underline"
+                            >
+                              Open
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    <tr className="bg-gray-50 dark:bg-gray-700/50 font-semibold">
+                      <td className="py-3 px-4"></td>
+                      <td className="py-3 px-4 text-sm text-gray-900 dark:text-white">All branches</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(comparison.totals.sales)}</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">100%</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-900 dark:text-white">{formatNumber(comparison.totals.transactions)}</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(comparison.totals.average_ticket)}</td>
+                      <td className="py-3 px-4 text-sm text-right text-red-600 dark:text-red-400">{formatCurrency(comparison.totals.refunds)}</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(comparison.totals.expenses)}</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-900 dark:text-white">{formatCurrency(comparison.totals.net_profit)}</td>
+                      <td className="py-3 px-4"></td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {failedStores.length > 0 && (
+                <p className="mt-3 text-xs text-red-600 dark:text-red-400">
+                  Missing from the comparison: {failedStores.join(', ')}
+                </p>
+              )}
+            </Card>
+          </>
+        ) : (
+          <Card className="p-12">
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              {stores.length > 1 ? 'No branch data for this period.' : 'Only one branch is set up. Add stores to compare them here.'}
+            </p>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -5,7 +5,7 @@ import { BackButton } from '../components/ui/BackButton';
 import { Breadcrumb } from '../components/ui/Breadcrumb';
 
 export const CashTrackingPage: React.FC = () => {
-  const { riders, reconcileRider, loadRiders, isLoading } = useRiders();
+  const { riders, loadRiders, isLoading } = useRiders();
 
   useEffect(() => {
     loadRiders();
@@ -24,7 +24,6 @@ export const CashTrackingPage: React.FC = () => {
         
         <CashTracking
           riders={riders}
-          onReconcileRider={reconcileRider}
           onRefresh={loadRiders}
           isLoading={isLoading}
         />
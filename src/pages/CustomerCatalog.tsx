@@ -3,10 +3,17 @@ import { Search, ShoppingCart, Phone, MapPin, Clock, CheckCircle, X } from 'luci
 import { Button } from '../components/ui/Button';
 import { CategoryFilterSidebar } from '../components/ui/CategoryFilterSidebar';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { DeliveryZonePicker } from '../components/ui/DeliveryZonePicker';
 import { useApp } from '../context/AppContext';
+import { useLocale } from '../hooks/useLocale';
 import { api } from '../config/environment';
 import { toast } from 'react-hot-toast';
 import { formatStockQuantity } from '../utils/formatUtils';
+import { groupVariantsByParent, collapseVariants, getVariantLabel } from '../utils/variantUtils';
+import { isValidPhoneNumber } from '../utils/phoneUtils';
+import { normalizeCustomerPhone } from '../utils/customerUtils';
+import { DEFAULT_DELIVERY_FEE, GeoPoint, quoteDelivery } from '../utils/deliveryZoneUtils';
+import { DeliveryZone, DeliveryZoneMode } from '../types';
 
 interface Product {
   _id: string;
@@ -21,6 +28,9 @@ interface Product {
     url: string;
     public_id: string;
   }[];
+  parent_product_id?: string;
+  variant_attributes?: Record<string, string>;
+  variant_options?: { name: string; values: string[] }[];
 }
 
 interface CartItem {
@@ -36,11 +46,19 @@ interface CustomerOrder {
   paymentMethod: 'cash' | 'isbank' | 'naira' | 'pos';
   deliveryMethod: 'pickup' | 'delivery';
   deliveryAddress?: string;
+  deliveryZoneId?: string;
   notes?: string;
 }
 
+interface DeliverySettings {
+  mode: DeliveryZoneMode;
+  zones: DeliveryZone[];
+  storeLocation?: GeoPoint;
+}
+
 export const CustomerCatalog: React.FC = () => {
   const { products } = useApp();
+  const { formatCurrency } = useLocale();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [categories, setCategories] = useState<string[]>([]);
@@ -54,11 +72,14 @@ export const CustomerCatalog: React.FC = () => {
     paymentMethod: 'cash',
     deliveryMethod: 'pickup',
     deliveryAddress: '',
+    deliveryZoneId: '',
     notes: ''
   });
+  const [deliverySettings, setDeliverySettings] = useState<DeliverySettings>({ mode: 'area', zones: [] });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingProducts, setIsLoadingProducts] = useState(true);
   const [orderError, setOrderError] = useState<string | null>(null);
+  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
 
   // Load categories from products
   useEffect(() => {
@@ -69,11 +90,35 @@ export const CustomerCatalog: React.FC = () => {
     }
   }, [products]);
 
+  // Zones are public so the fee can be shown before checkout; without any the flat default fee applies
+  useEffect(() => {
+    const loadDeliveryZones = async () => {
+      try {
+        const response = await fetch(`${api.baseUrl}/public/delivery-zones?store_id=default-store`);
+        if (!response.ok) return;
+        const result = await response.json();
+        const data = result.data || result;
+        setDeliverySettings({
+          mode: data.delivery_zone_mode || 'area',
+          zones: data.delivery_zones || [],
+          storeLocation: data.latitude !== undefined && data.longitude !== undefined
+            ? { latitude: data.latitude, longitude: data.longitude }
+            : undefined,
+        });
+      } catch (error) {
+        console.error('Failed to load delivery zones:', error);
+      }
+    };
+    loadDeliveryZones();
+  }, []);
+
+  const variantsByParent = useMemo(() => groupVariantsByParent(products || []), [products]);
+
   // Filter products based on search and categories
   const filteredProducts = useMemo(() => {
     if (!products) return [];
     
-    return products.filter(product => {
+    const matches = products.filter(product => {
       const matchesSearch = product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                            (product.barcode && product.barcode.includes(searchQuery)) ||
                            product.tags.some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()));
@@ -81,9 +126,24 @@ export const CustomerCatalog: React.FC = () => {
       const matchesCategory = selectedCategories.length === 0 || 
                              selectedCategories.includes(product.category);
       
-      return matchesSearch && matchesCategory && product.stock_quantity > 0;
+      return matchesSearch && matchesCategory;
+    });
+
+    // Variants are offered as choices on their parent's card
+    return collapseVariants(matches, products).filter(product => {
+      const variants = variantsByParent.get(product._id);
+      return variants ? variants.some(variant => variant.stock_quantity > 0) : product.stock_quantity > 0;
     });
-  }, [products, searchQuery, selectedCategories]);
+  }, [products, searchQuery, selectedCategories, variantsByParent]);
+
+  // The customer's chosen variant, or the first one still in stock
+  const getSelectedVariant = (parentId: string) => {
+    const variants = variantsByParent.get(parentId);
+    if (!variants) return undefined;
+    return variants.find(variant => variant._id === selectedVariants[parentId]) ||
+      variants.find(variant => variant.stock_quantity > 0) ||
+      variants[0];
+  };
 
   // Add to cart
   const addToCart = (product: Product) => {
@@ -133,7 +193,12 @@ export const CustomerCatalog: React.FC = () => {
 
   // Calculate totals
   const subtotal = cart.reduce((sum, item) => sum + (item.product.price * item.quantity), 0);
-  const deliveryFee = order.deliveryMethod === 'delivery' ? 25 : 0;
+  const hasDeliveryZones = deliverySettings.zones.length > 0;
+  const deliveryZone = deliverySettings.zones.find(zone => zone._id === order.deliveryZoneId);
+  const deliveryQuote = deliveryZone ? quoteDelivery(deliveryZone, subtotal) : null;
+  const deliveryFee = order.deliveryMethod !== 'delivery'
+    ? 0
+    : hasDeliveryZones ? deliveryQuote?.fee ?? 0 : DEFAULT_DELIVERY_FEE;
   const total = subtotal + deliveryFee;
 
   // Open order modal
@@ -165,9 +230,7 @@ export const CustomerCatalog: React.FC = () => {
       return;
     }
     
-    // Basic phone validation - just check it's not empty and has some digits
-    const phoneDigits = order.customerPhone.replace(/\D/g, '');
-    if (phoneDigits.length < 7) {
+    if (!isValidPhoneNumber(order.customerPhone)) {
       toast.error('Please enter a valid phone number');
       return;
     }
@@ -177,6 +240,17 @@ export const CustomerCatalog: React.FC = () => {
       return;
     }
 
+    if (order.deliveryMethod === 'delivery' && hasDeliveryZones) {
+      if (!deliveryZone) {
+        toast.error(deliverySettings.mode === 'distance' ? 'Please select your distance from the store' : 'Please select your delivery area');
+        return;
+      }
+      if (deliveryQuote?.below_minimum) {
+        toast.error(`Minimum order for delivery to ${deliveryZone.name} is ${formatCurrency(deliveryZone.minimum_order || 0)}`);
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     setOrderError(null);
 
@@ -191,7 +265,8 @@ export const CustomerCatalog: React.FC = () => {
         orderNumber: orderNumber,
         order_number: orderNumber,
         customer_name: order.customerName.trim(),
-        customer_phone: order.customerPhone.trim(),
+        // Normalized the same way as the customer directory, so the backend links the order to that customer
+        customer_phone: normalizeCustomerPhone(order.customerPhone),
         customer_email: order.customerEmail?.trim() || undefined,
         store_id: 'default-store', // Default store ID
         items: order.items.map(item => ({
@@ -207,6 +282,8 @@ export const CustomerCatalog: React.FC = () => {
                        order.paymentMethod === 'pos' ? 'pos_payment' : 'cash_on_delivery',
         delivery_method: order.deliveryMethod === 'pickup' ? 'self_pickup' : 'delivery',
         delivery_address: order.deliveryAddress?.trim() || undefined,
+        delivery_zone_id: order.deliveryMethod === 'delivery' ? deliveryZone?._id : undefined,
+        delivery_zone_name: order.deliveryMethod === 'delivery' ? deliveryZone?.name : undefined,
         notes: order.notes?.trim() || undefined,
         subtotal,
         delivery_fee: deliveryFee,
@@ -303,6 +380,7 @@ export const CustomerCatalog: React.FC = () => {
         paymentMethod: 'cash',
         deliveryMethod: 'pickup',
         deliveryAddress: '',
+        deliveryZoneId: '',
         notes: ''
       });
       setIsOrderModalOpen(false);
@@ -384,7 +462,11 @@ export const CustomerCatalog: React.FC = () => {
               </div>
             ) : (
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4 mb-6">
-                {filteredProducts.map((product) => (
+                {filteredProducts.map((product) => {
+                const variants = variantsByParent.get(product._id);
+                const selectedVariant = getSelectedVariant(product._id);
+                const item = selectedVariant || product;
+                return (
                 <div key={product._id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
                   <div className="aspect-square bg-gray-100 dark:bg-gray-700 rounded-lg mb-3 flex items-center justify-center">
                     {product.images && product.images.length > 0 ? (
@@ -403,28 +485,49 @@ export const CustomerCatalog: React.FC = () => {
                   </h3>
                   
                   <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
-                    {product.category} • {product.unit}
+                    {product.category} • {item.unit}
                   </p>
+
+                  {variants && (
+                    <div className="flex flex-wrap gap-1.5 mb-3">
+                      {variants.map(variant => (
+                        <button
+                          key={variant._id}
+                          type="button"
+                          onClick={() => setSelectedVariants(prev => ({ ...prev, [product._id]: variant._id }))}
+                          disabled={variant.stock_quantity <= 0}
+                          className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors disabled:opacity-40 disabled:line-through ${
+                            variant._id === selectedVariant?._id
+                              ? 'bg-primary-600 border-primary-600 text-white'
+                              : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-primary-500'
+                          }`}
+                        >
+                          {getVariantLabel(variant.variant_attributes, product.variant_options) || variant.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   
                   <div className="flex items-center justify-between mb-3">
                     <span className="text-lg font-bold text-primary-600">
-                      ₺{product.price.toFixed(2)}
+                      {formatCurrency(item.price)}
                     </span>
                     <span className="text-sm text-gray-500">
-                      Stock: {formatStockQuantity(product.stock_quantity)}
+                      Stock: {formatStockQuantity(item.stock_quantity)}
                     </span>
                   </div>
                   
                   <Button
-                    onClick={() => addToCart(product)}
+                    onClick={() => addToCart(item)}
                     className="w-full"
-                    disabled={product.stock_quantity === 0}
+                    disabled={item.stock_quantity <= 0}
                   >
                     <ShoppingCart className="h-4 w-4 mr-2" />
                     Add to Cart
                   </Button>
                 </div>
-                ))}
+                );
+                })}
               </div>
             )}
 
@@ -455,7 +558,7 @@ export const CustomerCatalog: React.FC = () => {
                 </span>
               </div>
               <div className="text-sm text-gray-600 dark:text-gray-400">
-                Total: ₺{total.toFixed(2)}
+                Total: {formatCurrency(total)}
               </div>
             </div>
             <Button onClick={openOrderModal} className="bg-primary-600 hover:bg-primary-700">
@@ -495,7 +598,7 @@ export const CustomerCatalog: React.FC = () => {
                           {item.product.name}
                         </h4>
                         <p className="text-sm text-gray-600 dark:text-gray-400">
-                          ₺{item.product.price.toFixed(2)} each
+                          {formatCurrency(item.product.price)} each
                         </p>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -607,7 +710,7 @@ export const CustomerCatalog: React.FC = () => {
                         aria-label="Delivery Method"
                       >
                       <option value="pickup">Self Pickup</option>
-                      <option value="delivery">Delivery (+₺25)</option>
+                      <option value="delivery">{hasDeliveryZones ? 'Delivery' : `Delivery (+${formatCurrency(DEFAULT_DELIVERY_FEE)})`}</option>
                     </select>
                   </div>
                 </div>
@@ -624,6 +727,19 @@ export const CustomerCatalog: React.FC = () => {
                       rows={3}
                       placeholder="Enter your full delivery address"
                     />
+                    {hasDeliveryZones && (
+                      <div className="mt-4">
+                        <DeliveryZonePicker
+                          mode={deliverySettings.mode}
+                          zones={deliverySettings.zones}
+                          selectedZoneId={order.deliveryZoneId || ''}
+                          onSelect={(zoneId) => setOrder(prev => ({ ...prev, deliveryZoneId: zoneId }))}
+                          orderValue={subtotal}
+                          formatCurrency={formatCurrency}
+                          storeLocation={deliverySettings.storeLocation}
+                        />
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -675,17 +791,23 @@ export const CustomerCatalog: React.FC = () => {
                 <div className="space-y-2">
                   <div className="flex justify-between">
                     <span>Subtotal:</span>
-                    <span>₺{subtotal.toFixed(2)}</span>
+                    <span>{formatCurrency(subtotal)}</span>
                   </div>
                   {deliveryFee > 0 && (
                     <div className="flex justify-between">
                       <span>Delivery Fee:</span>
-                      <span>₺{deliveryFee.toFixed(2)}</span>
+                      <span>{formatCurrency(deliveryFee)}</span>
+                    </div>
+                  )}
+                  {order.deliveryMethod === 'delivery' && deliveryQuote?.is_free && (
+                    <div className="flex justify-between text-green-600 dark:text-green-400">
+                      <span>Delivery Fee:</span>
+                      <span>Free</span>
                     </div>
                   )}
                   <div className="flex justify-between font-semibold text-lg border-t border-gray-300 dark:border-gray-600 pt-2">
                     <span>Total:</span>
-                    <span>₺{total.toFixed(2)}</span>
+                    <span>{formatCurrency(total)}</span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,389 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useParams } from 'react-router-dom';
+import { User, Pencil, RefreshCw, Phone, Mail, Gift, TrendingUp, ShoppingBag, Calendar, BookOpen, Wallet, FileText } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { Modal } from '../components/ui/Modal';
+import { CustomerFormModal } from '../components/ui/CustomerFormModal';
+import { AccountPaymentModal } from '../components/ui/AccountPaymentModal';
+import { AccountStatement } from '../components/ui/AccountStatement';
+import { useStore } from '../context/StoreContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { AccountPayment, Customer, Transaction } from '../types';
+import { getLoyaltySettings, pointsToAmount, summarizePurchaseHistory, getFavouriteProducts } from '../utils/customerUtils';
+import { AGING_BUCKET_LABELS, buildAccountStatement, calculateAccountAging, getAvailableCredit } from '../utils/accountUtils';
+import { getCurrentDateTime } from '../utils/timezoneUtils';
+
+const STATEMENT_PERIODS = [
+  { days: 0, label: 'All activity' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+export const CustomerProfile: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const { currentStore } = useStore();
+  const { formatCurrency, formatNumber, formatDate, formatDateTime } = useLocale();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [accountPayments, setAccountPayments] = useState<AccountPayment[]>([]);
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [isStatementOpen, setIsStatementOpen] = useState(false);
+  const [statementDays, setStatementDays] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const loyalty = useMemo(() => getLoyaltySettings(currentStore), [currentStore]);
+
+  const loadProfile = useCallback(async () => {
+    if (!id) return;
+    setIsLoading(true);
+    try {
+      const [loadedCustomer, history, payments] = await Promise.all([
+        apiService.getCustomer(id),
+        apiService.getCustomerTransactions(id),
+        apiService.getAccountPayments(id),
+      ]);
+      setCustomer(loadedCustomer);
+      setTransactions(history);
+      setAccountPayments(payments);
+    } catch (error) {
+      console.error('Failed to load customer:', error);
+      toast.error('Failed to load customer');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const summary = useMemo(() => summarizePurchaseHistory(transactions), [transactions]);
+  const favourites = useMemo(() => getFavouriteProducts(transactions), [transactions]);
+  const aging = useMemo(
+    () => calculateAccountAging(transactions, accountPayments, getCurrentDateTime()),
+    [transactions, accountPayments]
+  );
+  const statementFrom = useMemo(() => {
+    if (!statementDays) return undefined;
+    const from = getCurrentDateTime();
+    from.setDate(from.getDate() - statementDays);
+    from.setHours(0, 0, 0, 0);
+    return from;
+  }, [statementDays]);
+  const statement = useMemo(
+    () => buildAccountStatement(transactions, accountPayments, statementFrom),
+    [transactions, accountPayments, statementFrom]
+  );
+
+  const handleShareStatement = async () => {
+    if (!customer) return;
+    try {
+      const response = await apiService.getCustomerStatementWhatsAppLink(customer._id);
+      window.open(response.link, '_blank');
+    } catch (error: any) {
+      console.error('Failed to get WhatsApp link:', error);
+      toast.error(error.message || 'Failed to get WhatsApp link');
+    }
+  };
+
+  const sortedTransactions = useMemo(
+    () => [...transactions].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+    [transactions]
+  );
+
+  if (!customer) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+          <Card className="p-12">
+            {isLoading ? (
+              <div className="flex items-center justify-center">
+                <LoadingSpinner size="lg" className="mr-4" />
+                <span className="text-gray-500 dark:text-gray-400 text-lg">Loading customer...</span>
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 dark:text-gray-400">Customer not found.</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const stats = [
+    {
+      label: 'Loyalty Points',
+      value: formatNumber(customer.loyalty_points || 0),
+      detail: loyalty.point_value > 0 ? `Worth ${formatCurrency(pointsToAmount(customer.loyalty_points || 0, loyalty))}` : 'Loyalty is off',
+      icon: Gift,
+    },
+    {
+      label: 'Lifetime Value',
+      value: formatCurrency(summary.lifetime_value),
+      detail: `Average basket ${formatCurrency(summary.average_basket)}`,
+      icon: TrendingUp,
+    },
+    {
+      label: 'Visits',
+      value: formatNumber(summary.visit_count),
+      detail: `${formatNumber(summary.points_earned)} pts earned · ${formatNumber(summary.points_redeemed)} redeemed`,
+      icon: ShoppingBag,
+    },
+    {
+      label: 'Last Purchase',
+      value: summary.last_purchase_at ? formatDate(summary.last_purchase_at) : '—',
+      detail: `Customer since ${formatDate(customer.created_at)}`,
+      icon: Calendar,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <User className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">{customer.name}</h1>
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+                    <span className="flex items-center gap-1"><Phone className="h-3 w-3" />{customer.phone}</span>
+                    {customer.email && <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{customer.email}</span>}
+                  </div>
+                </div>
+              </div>
+              <div className="flex flex-row gap-3 items-center">
+                <Button onClick={loadProfile} variant="outline" size="md" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                <Button onClick={() => setIsFormOpen(true)} size="md">
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              </div>
+            </div>
+            {customer.notes && (
+              <p className="mt-4 text-sm text-gray-600 dark:text-gray-400 italic">{customer.notes}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {stats.map(stat => {
+            const Icon = stat.icon;
+            return (
+              <Card key={stat.label}>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{stat.label}</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{stat.detail}</p>
+                  </div>
+                  <Icon className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+
+        {/* Store credit */}
+        {(!!customer.credit_limit || !!customer.account_balance || accountPayments.length > 0) && (
+          <Card>
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <div className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Account</h3>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setIsStatementOpen(true)}>
+                  <FileText className="h-4 w-4 mr-2" />
+                  Statement
+                </Button>
+                <Button size="sm" onClick={() => setIsPaymentOpen(true)} disabled={!customer.account_balance}>
+                  <Wallet className="h-4 w-4 mr-2" />
+                  Record Payment
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Balance Owed</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(customer.account_balance || 0)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Credit Limit</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{customer.credit_limit ? formatCurrency(customer.credit_limit) : 'None'}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">Available Credit</p>
+                <p className="text-2xl font-bold text-green-600 dark:text-green-400">{formatCurrency(getAvailableCredit(customer))}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {AGING_BUCKET_LABELS.map(bucket => (
+                <div
+                  key={bucket.key}
+                  className={`rounded-lg p-3 ${aging[bucket.key] > 0 && bucket.key !== 'current'
+                    ? 'bg-red-50 dark:bg-red-900/20'
+                    : 'bg-gray-50 dark:bg-gray-700/50'}`}
+                >
+                  <p className="text-xs text-gray-600 dark:text-gray-400">{bucket.label}</p>
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white">{formatCurrency(aging[bucket.key])}</p>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Favourite products */}
+          <Card>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Favourite Products</h3>
+            {favourites.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No purchases yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {favourites.map(product => (
+                  <div key={product.product_id} className="flex items-center justify-between text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">{product.product_name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{formatNumber(product.quantity)} bought</p>
+                    </div>
+                    <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(product.revenue)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Purchase history */}
+          <Card className="lg:col-span-2">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Purchase History</h3>
+            {sortedTransactions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No purchases yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Date</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Items</th>
+                      <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Source</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Points</th>
+                      <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {sortedTransactions.map(transaction => {
+                      const isCancelled = transaction.status === 'cancelled' || transaction.status === 'voided';
+                      return (
+                        <tr key={transaction._id} className={`border-b border-gray-100 dark:border-gray-700 ${isCancelled ? 'opacity-50' : ''}`}>
+                          <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">{formatDateTime(transaction.created_at)}</td>
+                          <td className="py-3 px-4 text-sm text-gray-900 dark:text-white">
+                            {(transaction.items || []).map(item => `${item.quantity} × ${item.product_name || item.product_id}`).join(', ')}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">
+                            {transaction.order_source === 'online' ? 'Online' : 'In-store'}
+                            {isCancelled && ` (${transaction.status})`}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-right">
+                            {transaction.loyalty_points_earned ? (
+                              <span className="block text-green-600 dark:text-green-400">+{transaction.loyalty_points_earned}</span>
+                            ) : null}
+                            {transaction.loyalty_points_redeemed ? (
+                              <span className="block text-amber-600 dark:text-amber-400">-{transaction.loyalty_points_redeemed}</span>
+                            ) : null}
+                          </td>
+                          <td className="py-3 px-4 text-sm text-right font-semibold text-gray-900 dark:text-white">
+                            {formatCurrency(transaction.total_amount)}
+                            {transaction.refunded_amount ? (
+                              <span className="block text-xs font-normal text-red-600 dark:text-red-400">
+                                -{formatCurrency(transaction.refunded_amount)} refunded
+                              </span>
+                            ) : null}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      <CustomerFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        storeId={customer.store_id}
+        customer={customer}
+        onSaved={setCustomer}
+      />
+
+      <AccountPaymentModal
+        isOpen={isPaymentOpen}
+        onClose={() => setIsPaymentOpen(false)}
+        customer={customer}
+        onRecorded={(payment, updated) => {
+          setAccountPayments(prev => [...prev, payment]);
+          setCustomer(updated);
+        }}
+      />
+
+      <Modal
+        isOpen={isStatementOpen}
+        onClose={() => setIsStatementOpen(false)}
+        title="Account Statement"
+        size="xl"
+        headerIcon={<FileText className="h-5 w-5" />}
+      >
+        <div className="space-y-4">
+          <select
+            value={statementDays}
+            onChange={(e) => setStatementDays(Number(e.target.value))}
+            title="Statement period"
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+          >
+            {STATEMENT_PERIODS.map(period => (
+              <option key={period.days} value={period.days}>{period.label}</option>
+            ))}
+          </select>
+          <AccountStatement
+            customer={customer}
+            statement={statement}
+            aging={aging}
+            from={statementFrom}
+            onShare={handleShareStatement}
+            onClose={() => setIsStatementOpen(false)}
+          />
+        </div>
+      </Modal>
+    </div>
+  );
+};
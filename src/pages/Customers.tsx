@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Users, Plus, RefreshCw, Pencil, Search } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { CustomerFormModal } from '../components/ui/CustomerFormModal';
+import { useStore } from '../context/StoreContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { Customer } from '../types';
+import { matchesCustomerSearch } from '../utils/customerUtils';
+
+export const Customers: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentStore } = useStore();
+  const { formatCurrency, formatNumber, formatDate } = useLocale();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [search, setSearch] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const storeId = currentStore?._id;
+
+  const loadCustomers = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      setCustomers(await apiService.getCustomers({ store_id: storeId }));
+    } catch (error) {
+      console.error('Failed to load customers:', error);
+      toast.error('Failed to load customers');
+      setCustomers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [loadCustomers]);
+
+  const filteredCustomers = useMemo(
+    () => customers
+      .filter(customer => matchesCustomerSearch(customer, search))
+      .sort((a, b) => (b.lifetime_value || 0) - (a.lifetime_value || 0)),
+    [customers, search]
+  );
+
+  const replaceCustomer = (updated: Customer) => {
+    setCustomers(prev => {
+      const exists = prev.some(entry => entry._id === updated._id);
+      return exists ? prev.map(entry => (entry._id === updated._id ? updated : entry)) : [updated, ...prev];
+    });
+  };
+
+  const openForm = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <Users className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">Customers</h1>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {customers.length} {customers.length === 1 ? 'customer' : 'customers'} with loyalty balances and purchase history
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-row gap-3 items-center">
+                <Button onClick={loadCustomers} variant="outline" size="md" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                <Button onClick={() => openForm(null)} size="md">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Customer
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, phone or email"
+            className="pl-9"
+          />
+        </div>
+
+        {isLoading && customers.length === 0 ? (
+          <Card className="p-12">
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="lg" className="mr-4" />
+              <span className="text-gray-500 dark:text-gray-400 text-lg">Loading customers...</span>
+            </div>
+          </Card>
+        ) : filteredCustomers.length === 0 ? (
+          <Card className="p-12">
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              {search.trim() ? 'No customer matches this search.' : 'No customers yet. Add one here or attach one at the till.'}
+            </p>
+          </Card>
+        ) : (
+          <Card padding="sm">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Customer</th>
+                    <th className="text-left py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Phone</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Points</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Owes</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Lifetime Value</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Visits</th>
+                    <th className="text-right py-3 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Last Purchase</th>
+                    <th className="py-3 px-4"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredCustomers.map(customer => (
+                    <tr
+                      key={customer._id}
+                      onClick={() => navigate(`/customers/${customer._id}`)}
+                      className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors cursor-pointer"
+                    >
+                      <td className="py-3 px-4 text-sm">
+                        <p className="font-medium text-gray-900 dark:text-white">{customer.name}</p>
+                        {customer.email && <p className="text-xs text-gray-500 dark:text-gray-400">{customer.email}</p>}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">{customer.phone}</td>
+                      <td className="py-3 px-4 text-sm text-right font-medium text-amber-600 dark:text-amber-400">{formatNumber(customer.loyalty_points || 0)}</td>
+                      <td className={`py-3 px-4 text-sm text-right ${customer.account_balance ? 'font-semibold text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                        {customer.account_balance ? formatCurrency(customer.account_balance) : '—'}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-right font-semibold text-gray-900 dark:text-white">{formatCurrency(customer.lifetime_value || 0)}</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">{customer.visit_count || 0}</td>
+                      <td className="py-3 px-4 text-sm text-right text-gray-600 dark:text-gray-400">
+                        {customer.last_purchase_at ? formatDate(customer.last_purchase_at) : '—'}
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openForm(customer);
+                          }}
+                          title="Edit customer"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+      </div>
+
+      <CustomerFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        storeId={storeId}
+        customer={editingCustomer}
+        onSaved={replaceCustomer}
+      />
+    </div>
+  );
+};
@@ -23,6 +23,8 @@ import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
 import { useGoals } from '../context/GoalContext';
 import { useTheme } from '../context/ThemeContext';
+import { useLocale } from '../hooks/useLocale';
+import { getCurrencySymbol } from '../utils/currencyUtils';
 import { NotificationPermissionBanner } from '../components/ui/NotificationPermissionBanner';
 import { NotificationStatus } from '../components/ui/NotificationStatus';
 import { GoalSettingModal } from '../components/ui/GoalSettingModal';
@@ -38,6 +40,7 @@ import {
   parseAndNormalizeDate,
   isSameDate
 } from '../utils/timezoneUtils';
+import { applyRefundsToMetrics } from '../utils/refundUtils';
 // import { usePageRefresh } from '../hooks/usePageRefresh'; // Temporarily disabled
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell, Legend } from 'recharts';
 
@@ -81,6 +84,8 @@ const useAnimatedNumber = (targetValue: number, duration: number = 1000) => {
 export const Dashboard: React.FC = () => {
   const { inventoryAlerts, loading, dashboardMetrics, refreshDashboard } = useApp();
   const { user } = useAuth();
+  const { settings: localeSettings, formatCurrency, formatNumber, formatDate, formatTime } = useLocale();
+  const currencySymbol = getCurrencySymbol(localeSettings.currency);
   const { dailyProgress, monthlyProgress, updateGoalProgress } = useGoals();
   const { isDark } = useTheme();
   
@@ -297,10 +302,7 @@ export const Dashboard: React.FC = () => {
   // Initial load will be handled after unifiedRefresh is defined
 
   const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('tr-TR', {
-      style: 'currency',
-      currency: 'TRY',
-    }).format(price);
+    return formatCurrency(price);
   };
 
   // Use standardized date formatting utility
@@ -519,6 +521,27 @@ export const Dashboard: React.FC = () => {
           }
         }
 
+        // Refunds are negative revenue; deduct the period's and the month's refunds from the backend sales figures
+        try {
+          const fallbackStart = new Date();
+          fallbackStart.setDate(fallbackStart.getDate() - 30);
+          const [periodRefunds, monthRefunds] = await Promise.all([
+            apiService.getRefunds({
+              store_id: user?.store_id,
+              start_date: startDate || normalizeDateToYYYYMMDD(fallbackStart),
+              end_date: endDate || normalizeDateToYYYYMMDD(new Date()),
+            }),
+            apiService.getRefunds({
+              store_id: user?.store_id,
+              start_date: normalizeDateToYYYYMMDD(getThisMonthRange().start),
+              end_date: normalizeDateToYYYYMMDD(new Date()),
+            }),
+          ]);
+          finalMetrics = applyRefundsToMetrics(finalMetrics, periodRefunds, monthRefunds);
+        } catch (refundError) {
+          console.warn('⚠️ Failed to load refunds for dashboard metrics:', refundError);
+        }
+
         setLocalDashboardMetrics(finalMetrics);
 
         // Update goal progress with the loaded metrics
@@ -1678,7 +1701,7 @@ export const Dashboard: React.FC = () => {
         previousPeriodEnd = new Date(currentPeriodStart.getTime() - 1);
         previousPeriodStart = new Date(previousPeriodEnd.getTime() - periodLength);
         comparisonLabel = 'vs previous period';
-        periodLabel = `${new Date(customStartDate).toLocaleDateString()} - ${new Date(customEndDate).toLocaleDateString()}`;
+        periodLabel = `${formatDate(customStartDate)} - ${formatDate(customEndDate)}`;
         break;
         
       default:
@@ -1948,7 +1971,7 @@ export const Dashboard: React.FC = () => {
               {/* Last refresh time */}
               {lastRefreshTime && (
                 <div className="text-xs text-gray-500 dark:text-gray-400">
-                  Last updated: {lastRefreshTime.toLocaleTimeString()}
+                  Last updated: {formatTime(lastRefreshTime)}
                 </div>
               )}
 
@@ -2082,7 +2105,7 @@ export const Dashboard: React.FC = () => {
                   {dateRange === 'today' ? 'Today' : 
                    dateRange === 'custom' ? 
                      (customStartDate && customEndDate ? 
-                       `${new Date(customStartDate).toLocaleDateString()} - ${new Date(customEndDate).toLocaleDateString()}` : 
+                       `${formatDate(customStartDate)} - ${formatDate(customEndDate)}` : 
                        'Custom Range') : 
                    'This Month'}
                   <button
@@ -2192,13 +2215,13 @@ export const Dashboard: React.FC = () => {
                     <div>
                       <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Target</p>
                       <p className="text-sm font-bold text-gray-900 dark:text-white">
-                        ₺{dailyProgress.goal.target_amount.toLocaleString()}
+                        {formatPrice(dailyProgress.goal.target_amount)}
                       </p>
                   </div>
                     <div>
                       <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Current</p>
                       <p className="text-sm font-bold text-gray-900 dark:text-white">
-                        ₺{dailyProgress.current_amount.toLocaleString()}
+                        {formatPrice(dailyProgress.current_amount)}
                       </p>
                 </div>
                   </div>
@@ -2261,13 +2284,13 @@ export const Dashboard: React.FC = () => {
                     <div>
                       <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Target</p>
                       <p className="text-sm font-bold text-gray-900 dark:text-white">
-                        ₺{monthlyProgress.goal.target_amount.toLocaleString()}
+                        {formatPrice(monthlyProgress.goal.target_amount)}
                       </p>
                     </div>
                     <div>
                       <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Current</p>
                       <p className="text-sm font-bold text-gray-900 dark:text-white">
-                        ₺{monthlyProgress.current_amount.toLocaleString()}
+                        {formatPrice(monthlyProgress.current_amount)}
                       </p>
                     </div>
                   </div>
@@ -2330,7 +2353,7 @@ export const Dashboard: React.FC = () => {
                         fontSize={11}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`}
+                        tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`}
                         tick={{ fontSize: 11 }}
                         width={60}
                       />
@@ -2441,7 +2464,7 @@ export const Dashboard: React.FC = () => {
                         fontSize={12}
                         tickLine={false}
                         axisLine={false}
-                        tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`}
+                        tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`}
                       />
                       <Tooltip 
                         formatter={(value: number, name: string, props: any) => [
@@ -2536,7 +2559,7 @@ export const Dashboard: React.FC = () => {
                           fontSize={10}
                           tickLine={false}
                           axisLine={false}
-                          tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`}
+                          tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`}
                         />
                         <Tooltip 
                           formatter={(value: number) => formatPrice(value)}
@@ -2609,7 +2632,7 @@ export const Dashboard: React.FC = () => {
                           fontSize={10}
                           tickLine={false}
                           axisLine={false}
-                          tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`}
+                          tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`}
                         />
                         <Tooltip 
                           formatter={(value: number) => formatPrice(value)}
@@ -2854,7 +2877,7 @@ export const Dashboard: React.FC = () => {
                                       </span>
                                       <span className="text-xs text-gray-500 dark:text-gray-500">•</span>
                                       <span className="text-xs text-gray-600 dark:text-gray-400">
-                                        {entry.quantity.toLocaleString()} {entry.quantity === 1 ? 'item' : 'items'}
+                                        {formatNumber(entry.quantity)} {entry.quantity === 1 ? 'item' : 'items'}
                                       </span>
                                     </div>
                                   </div>
@@ -2985,7 +3008,7 @@ export const Dashboard: React.FC = () => {
                         <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400 mt-1">
                           <span className="flex items-center">
                             <Calendar className="h-3 w-3 mr-1" />
-                            {new Date(saleDate).toLocaleDateString()}
+                            {formatDate(saleDate)}
                           </span>
                           <span>•</span>
                           <span className="capitalize">
@@ -0,0 +1,416 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  DragEndEvent,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { Truck, RefreshCw, Bike, CheckCircle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { DispatchOrderCard } from '../components/ui/DispatchOrderCard';
+import { useRiders } from '../context/RiderContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { CustomerOrder, DispatchStatus } from '../types';
+import { roundCurrency } from '../utils/formatUtils';
+import {
+  DISPATCH_COLUMNS,
+  DispatchColumn,
+  RiderQueue,
+  buildRiderQueues,
+  canMoveOrder,
+  getCashToCollect,
+  getDispatchColumn,
+  isDispatchable,
+} from '../utils/dispatchUtils';
+
+const REFRESH_INTERVAL_MS = 30000;
+
+const ADVANCE_LABELS: Partial<Record<DispatchColumn, string>> = {
+  ready: 'Assign rider',
+  assigned: 'Out for delivery',
+  out_for_delivery: 'Mark delivered',
+};
+
+const BoardColumn: React.FC<{ id: DispatchColumn; label: string; count: number; children: React.ReactNode }> = ({ id, label, count, children }) => {
+  const { setNodeRef, isOver } = useDroppable({ id: `column:${id}` });
+  return (
+    <div
+      ref={setNodeRef}
+      className={`rounded-xl p-3 min-h-[16rem] transition-colors ${
+        isOver ? 'bg-primary-50 dark:bg-primary-900/20 ring-2 ring-primary-400' : 'bg-gray-100 dark:bg-gray-800/60'
+      }`}
+    >
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{label}</h3>
+        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300">{count}</span>
+      </div>
+      <div className="space-y-2">{children}</div>
+    </div>
+  );
+};
+
+const RiderQueueCard: React.FC<{ queue: RiderQueue; isSelected: boolean; onSelect: () => void }> = ({ queue, isSelected, onSelect }) => {
+  const { formatCurrency } = useLocale();
+  const { setNodeRef, isOver } = useDroppable({ id: `rider:${queue.rider._id}` });
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      onClick={onSelect}
+      className={`text-left rounded-lg border p-3 transition-colors ${
+        isOver
+          ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+          : isSelected
+            ? 'border-primary-500 bg-white dark:bg-gray-800'
+            : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 hover:border-gray-300 dark:hover:border-gray-600'
+      }`}
+    >
+      <div className="flex items-center gap-2">
+        <Bike className="h-4 w-4 text-primary-600 dark:text-primary-400" />
+        <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">{queue.rider.name}</span>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+        {queue.orders.length === 0 ? 'Free' : `${queue.orders.length} in queue`}
+        {queue.cash_to_collect > 0 && ` · ${formatCurrency(queue.cash_to_collect)} to collect`}
+      </p>
+    </button>
+  );
+};
+
+export const DispatchBoard: React.FC = () => {
+  const { riders, loadRiders } = useRiders();
+  const { formatCurrency } = useLocale();
+  const [orders, setOrders] = useState<CustomerOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [riderFilter, setRiderFilter] = useState<string | null>(null);
+  const [draggingOrder, setDraggingOrder] = useState<CustomerOrder | null>(null);
+  const [assigningOrder, setAssigningOrder] = useState<CustomerOrder | null>(null);
+  const [assignRiderId, setAssignRiderId] = useState('');
+  const [deliveringOrder, setDeliveringOrder] = useState<CustomerOrder | null>(null);
+  const [cashCollected, setCashCollected] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(TouchSensor, { activationConstraint: { delay: 200, tolerance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const loadOrders = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const allOrders = await apiService.getCustomerOrders();
+      setOrders(allOrders.filter(isDispatchable));
+    } catch (error) {
+      console.error('Failed to load dispatch orders:', error);
+      toast.error('Failed to load orders');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRiders();
+    loadOrders();
+    // Keep the board live while riders are on the road
+    const interval = setInterval(loadOrders, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadRiders, loadOrders]);
+
+  const activeRiders = useMemo(() => riders.filter(rider => rider.is_active), [riders]);
+  const queues = useMemo(() => buildRiderQueues(orders, riders), [orders, riders]);
+
+  const columns = useMemo(() => {
+    const today = new Date().toDateString();
+    return DISPATCH_COLUMNS.map(column => ({
+      ...column,
+      orders: orders.filter(order => {
+        if (getDispatchColumn(order) !== column.id) return false;
+        if (riderFilter && column.id !== 'ready' && order.riderId !== riderFilter) return false;
+        // Delivered only shows today's runs so the board doesn't grow forever
+        return column.id !== 'delivered' || (!!order.deliveredAt && new Date(order.deliveredAt).toDateString() === today);
+      }),
+    }));
+  }, [orders, riderFilter]);
+
+  const applyDispatch = async (order: CustomerOrder, riderId: string | null, status: DispatchStatus | null, cashCollected?: number) => {
+    const updated = await apiService.updateOrderDispatch(order._id, { rider_id: riderId, dispatch_status: status, cash_collected: cashCollected });
+    setOrders(prev => prev.map(existing => existing._id === updated._id ? updated : existing));
+    return updated;
+  };
+
+  const moveOrder = async (order: CustomerOrder, target: DispatchColumn, riderId?: string) => {
+    if (!canMoveOrder(order, target)) {
+      toast.error('Orders move one step at a time and delivered orders are final');
+      return;
+    }
+    if (target === 'assigned' && !riderId && !order.riderId) {
+      setAssigningOrder(order);
+      setAssignRiderId(activeRiders[0]?._id || '');
+      return;
+    }
+    if (target === 'delivered') {
+      setDeliveringOrder(order);
+      setCashCollected(String(getCashToCollect(order)));
+      return;
+    }
+
+    try {
+      if (target === 'ready') {
+        await applyDispatch(order, null, null);
+      } else {
+        await applyDispatch(order, riderId || order.riderId || null, target);
+      }
+    } catch (error: any) {
+      console.error('Failed to update dispatch:', error);
+      toast.error(error.message || 'Failed to update order');
+    }
+  };
+
+  const assignToRider = async (order: CustomerOrder, riderId: string) => {
+    if (order.dispatchStatus === 'delivered') return;
+    if (order.dispatchStatus === 'out_for_delivery' && order.riderId !== riderId) {
+      toast.error(`${order.orderNumber} is already on the road with ${order.riderName || 'another rider'}`);
+      return;
+    }
+    try {
+      const updated = await applyDispatch(order, riderId, 'assigned');
+      toast.success(`${updated.orderNumber} assigned to ${updated.riderName || 'rider'}`);
+    } catch (error: any) {
+      console.error('Failed to assign order:', error);
+      toast.error(error.message || 'Failed to assign order');
+    }
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setDraggingOrder(orders.find(order => order._id === event.active.id) || null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setDraggingOrder(null);
+    const order = orders.find(existing => existing._id === event.active.id);
+    const target = event.over ? String(event.over.id) : '';
+    if (!order || !target) return;
+
+    if (target.startsWith('rider:')) {
+      assignToRider(order, target.slice('rider:'.length));
+    } else if (target.startsWith('column:')) {
+      const column = target.slice('column:'.length) as DispatchColumn;
+      if (column !== getDispatchColumn(order)) moveOrder(order, column);
+    }
+  };
+
+  const handleAdvance = (order: CustomerOrder) => {
+    const index = DISPATCH_COLUMNS.findIndex(column => column.id === getDispatchColumn(order));
+    const next = DISPATCH_COLUMNS[index + 1];
+    if (next) moveOrder(order, next.id);
+  };
+
+  const confirmAssign = async () => {
+    if (!assigningOrder || !assignRiderId) return;
+    setIsSaving(true);
+    await assignToRider(assigningOrder, assignRiderId);
+    setIsSaving(false);
+    setAssigningOrder(null);
+  };
+
+  const confirmDelivered = async () => {
+    if (!deliveringOrder?.riderId) return;
+    const cash = roundCurrency(parseFloat(cashCollected) || 0);
+    if (cash < 0) {
+      toast.error('Enter the cash collected');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      // The rider's ledger entry is posted with the status change, so either both happen or neither does
+      const delivered = await applyDispatch(deliveringOrder, deliveringOrder.riderId, 'delivered', cash);
+      toast.success(`${delivered.orderNumber} delivered`);
+      setDeliveringOrder(null);
+      loadRiders(); // Pick up the rider's new cash balance
+    } catch (error: any) {
+      console.error('Failed to mark order delivered:', error);
+      toast.error(error.message || 'Failed to mark order delivered');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <Truck className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">Dispatch Board</h1>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Drag ready deliveries onto a rider, then along the board as they go out</p>
+                </div>
+              </div>
+              <Button onClick={() => { loadRiders(); loadOrders(); }} variant="outline" size="md" disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setDraggingOrder(null)}>
+          {/* Rider queues */}
+          <Card>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Riders</h3>
+              {riderFilter && (
+                <Button variant="ghost" size="sm" onClick={() => setRiderFilter(null)}>Show all riders</Button>
+              )}
+            </div>
+            {queues.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No active riders. Add riders from Rider Management.</p>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                {queues.map(queue => (
+                  <RiderQueueCard
+                    key={queue.rider._id}
+                    queue={queue}
+                    isSelected={riderFilter === queue.rider._id}
+                    onSelect={() => setRiderFilter(prev => prev === queue.rider._id ? null : queue.rider._id)}
+                  />
+                ))}
+              </div>
+            )}
+          </Card>
+
+          {/* Board */}
+          {isLoading && orders.length === 0 ? (
+            <Card className="p-12">
+              <div className="flex items-center justify-center">
+                <LoadingSpinner size="lg" className="mr-4" />
+                <span className="text-gray-500 dark:text-gray-400 text-lg">Loading orders...</span>
+              </div>
+            </Card>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+              {columns.map(column => (
+                <BoardColumn key={column.id} id={column.id} label={column.label} count={column.orders.length}>
+                  {column.orders.length === 0 ? (
+                    <p className="text-xs text-center text-gray-500 dark:text-gray-400 py-6">Nothing here</p>
+                  ) : (
+                    column.orders.map(order => (
+                      <DispatchOrderCard
+                        key={order._id}
+                        order={order}
+                        onAdvance={handleAdvance}
+                        advanceLabel={ADVANCE_LABELS[column.id]}
+                      />
+                    ))
+                  )}
+                </BoardColumn>
+              ))}
+            </div>
+          )}
+
+          <DragOverlay>
+            {draggingOrder && <DispatchOrderCard order={draggingOrder} isOverlay />}
+          </DragOverlay>
+        </DndContext>
+      </div>
+
+      <Modal
+        isOpen={assigningOrder !== null}
+        onClose={() => setAssigningOrder(null)}
+        title="Assign Rider"
+        size="sm"
+        headerIcon={<Bike className="h-5 w-5" />}
+      >
+        {assigningOrder && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Who is taking {assigningOrder.orderNumber} to {assigningOrder.customerName}?
+            </p>
+            <select
+              value={assignRiderId}
+              onChange={(e) => setAssignRiderId(e.target.value)}
+              title="Rider"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+            >
+              {activeRiders.map(rider => (
+                <option key={rider._id} value={rider._id}>{rider.name}</option>
+              ))}
+            </select>
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button variant="outline" onClick={() => setAssigningOrder(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={confirmAssign} loading={isSaving} disabled={isSaving || !assignRiderId}>
+                Assign
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={deliveringOrder !== null}
+        onClose={() => setDeliveringOrder(null)}
+        title="Mark Delivered"
+        size="sm"
+        headerIcon={<CheckCircle className="h-5 w-5" />}
+      >
+        {deliveringOrder && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {deliveringOrder.riderName || 'The rider'} delivered {deliveringOrder.orderNumber}.
+              The delivery fee of {formatCurrency(deliveringOrder.deliveryFee || 0)} and any cash collected go on the rider's cash ledger.
+            </p>
+            <Input
+              label="Cash Collected"
+              type="number"
+              min="0"
+              step="0.01"
+              value={cashCollected}
+              onChange={(e) => setCashCollected(e.target.value)}
+              helperText={getCashToCollect(deliveringOrder) > 0 ? `Cash on delivery: ${formatCurrency(getCashToCollect(deliveringOrder))}` : 'Order was prepaid'}
+              selectOnFocus
+            />
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <Button variant="outline" onClick={() => setDeliveringOrder(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={confirmDelivered} loading={isSaving} disabled={isSaving}>
+                Delivered
+              </Button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -13,12 +13,14 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useApp } from '../context/AppContext';
+import { useLocale } from '../hooks/useLocale';
 import { apiService } from '../services/api';
 import { NumberInput } from '../components/ui/NumberInput';
 import { Modal } from '../components/ui/Modal';
 import { FloatingActionButton } from '../components/ui/FloatingActionButton';
 import { ProductSelector } from '../components/ui/ProductSelector';
 import { Product } from '../types';
+import { EXPENSE_CATEGORIES, normalizeExpenseCategory } from '../utils/expenseUtils';
 import toast from 'react-hot-toast';
 
 interface Expense {
@@ -83,7 +85,8 @@ interface NewExpense {
 
 export const Expenses: React.FC = () => {
   const { user } = useAuth();
-  const { products, updateProduct, loadAllProducts } = useApp();
+  const { settings: localeSettings, formatCurrency, formatDate } = useLocale();
+  const { products, loadAllProducts } = useApp();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [stats, setStats] = useState<ExpenseStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -105,7 +108,7 @@ export const Expenses: React.FC = () => {
     unit: 'pieces',
     quantity: 1,
     amount: 0,
-    currency: 'TRY',
+    currency: localeSettings.currency,
     payment_method: 'cash',
     category: 'other',
     description: ''
@@ -129,15 +132,6 @@ export const Expenses: React.FC = () => {
     { value: 'other', label: 'Other', color: 'bg-gray-100 text-gray-800' }
   ];
 
-  const categories = [
-    { value: 'food', label: 'Food' },
-    { value: 'supplies', label: 'Supplies' },
-    { value: 'utilities', label: 'Utilities' },
-    { value: 'equipment', label: 'Equipment' },
-    { value: 'maintenance', label: 'Maintenance' },
-    { value: 'other', label: 'Other' }
-  ];
-
   const currencies = [
     { value: 'TRY', label: '₺ (Turkish Lira)' },
     { value: 'USD', label: '$ (US Dollar)' },
@@ -164,7 +158,7 @@ export const Expenses: React.FC = () => {
   useEffect(() => {
     loadExpenses();
     loadStats();
-  }, [currentPage, searchTerm, filterCategory, filterPaymentMethod, filterDateRange]);
+  }, [currentPage, searchTerm, filterCategory, filterPaymentMethod, filterDateRange, user?.store_id]);
 
   const getDateRange = (range: string) => {
     const now = new Date();
@@ -269,29 +263,6 @@ export const Expenses: React.FC = () => {
     return unitMap[unitLower] || (units.some(u => u.value === unitLower) ? unitLower : 'pieces');
   };
 
-  // Normalize category value to match expense API validation
-  const normalizeCategory = (category: string): string => {
-    const categoryLower = category.toLowerCase().trim();
-    // Map common product categories to valid expense categories
-    const categoryMap: { [key: string]: string } = {
-      'drink': 'food',
-      'drinks': 'food',
-      'beverage': 'food',
-      'beverages': 'food',
-      'food': 'food',
-      'snack': 'food',
-      'snacks': 'food',
-      'supplies': 'supplies',
-      'supply': 'supplies',
-      'utility': 'utilities',
-      'utilities': 'utilities',
-      'equipment': 'equipment',
-      'maintenance': 'maintenance',
-      'other': 'other',
-    };
-    return categoryMap[categoryLower] || (categories.some(c => c.value === categoryLower) ? categoryLower : 'other');
-  };
-
   // Handle product selection - auto-fill product details
   const handleProductSelect = (product: Product | null) => {
     setSelectedProduct(product);
@@ -304,9 +275,9 @@ export const Expenses: React.FC = () => {
         product_id: product._id,
         product_name: product.name,
         unit: normalizeUnit(product.unit || 'pieces'),
-        category: normalizeCategory(product.category || 'other'),
+        category: normalizeExpenseCategory(product.category || 'other'),
         quantity: prev.quantity || 1, // Keep existing quantity or default to 1
-        currency: prev.currency || 'TRY', // Keep existing currency or default
+        currency: prev.currency || localeSettings.currency, // Keep existing currency or default
         // Amount, payment_method, and description are left unchanged for user to fill
       }));
     } else if (product && product._id?.startsWith('custom-')) {
@@ -351,7 +322,7 @@ export const Expenses: React.FC = () => {
       const normalizedExpense = {
         ...newExpense,
         unit: normalizeUnit(newExpense.unit),
-        category: normalizeCategory(newExpense.category),
+        category: normalizeExpenseCategory(newExpense.category),
       };
       
       // Create the expense
@@ -362,7 +333,12 @@ export const Expenses: React.FC = () => {
         try {
           const currentStock = selectedProduct.stock_quantity || 0;
           const newStock = currentStock + newExpense.quantity;
-          await updateProduct(newExpense.product_id, { stock_quantity: newStock });
+          await apiService.adjustInventory(newExpense.product_id, {
+            adjustment_type: 'add',
+            quantity: newExpense.quantity,
+            reason: 'restock',
+            notes: 'Expense recorded',
+          });
           await loadAllProducts(); // Refresh products list
           toast.success(`Expense added and stock updated! ${selectedProduct.name} stock: ${currentStock} → ${newStock}`);
         } catch (stockError) {
@@ -383,7 +359,7 @@ export const Expenses: React.FC = () => {
         unit: 'pieces',
         quantity: 1,
         amount: 0,
-        currency: 'TRY',
+        currency: localeSettings.currency,
         payment_method: 'cash',
         category: 'other',
         description: ''
@@ -419,7 +395,7 @@ export const Expenses: React.FC = () => {
           product_id: product._id,
           product_name: product.name,
           unit: normalizeUnit(product.unit || showEditExpense.unit),
-          category: normalizeCategory(product.category || showEditExpense.category),
+          category: normalizeExpenseCategory(product.category || showEditExpense.category),
         });
       } else if (product && product._id?.startsWith('custom-')) {
         // Custom product name - clear product_id
@@ -448,7 +424,7 @@ export const Expenses: React.FC = () => {
       const normalizedExpense = {
         ...updatedExpense,
         unit: normalizeUnit(updatedExpense.unit),
-        category: normalizeCategory(updatedExpense.category),
+        category: normalizeExpenseCategory(updatedExpense.category),
       };
       
       // Update the expense
@@ -469,9 +445,11 @@ export const Expenses: React.FC = () => {
               // Product changed - need to reverse old stock and add new stock
               const oldProduct = products.find(p => p._id === originalExpense.product_id);
               if (oldProduct) {
-                const oldStock = oldProduct.stock_quantity || 0;
-                await updateProduct(originalExpense.product_id, { 
-                  stock_quantity: Math.max(0, oldStock - originalExpense.quantity) 
+                await apiService.adjustInventory(originalExpense.product_id, {
+                  adjustment_type: 'subtract',
+                  quantity: originalExpense.quantity,
+                  reason: 'restock',
+                  notes: 'Expense moved to another product',
                 });
               }
               // Add new stock for the new product
@@ -482,7 +460,13 @@ export const Expenses: React.FC = () => {
             if (stockChange !== 0) {
               const currentStock = product.stock_quantity || 0;
               const newStock = currentStock + stockChange;
-              await updateProduct(normalizedExpense.product_id, { stock_quantity: newStock });
+              // Send the change, not the new total, so sales rung up meanwhile are not overwritten
+              await apiService.adjustInventory(normalizedExpense.product_id, {
+                adjustment_type: stockChange > 0 ? 'add' : 'subtract',
+                quantity: Math.abs(stockChange),
+                reason: 'restock',
+                notes: 'Expense edited',
+              });
               await loadAllProducts();
               toast.success(`Expense updated and stock adjusted! ${product.name} stock: ${currentStock} → ${newStock}`);
             } else {
@@ -501,8 +485,13 @@ export const Expenses: React.FC = () => {
         if (oldProduct) {
           try {
             const oldStock = oldProduct.stock_quantity || 0;
-            const newStock = Math.max(0, oldStock - originalExpense.quantity);
-            await updateProduct(originalExpense.product_id, { stock_quantity: newStock });
+            const newStock = oldStock - originalExpense.quantity;
+            await apiService.adjustInventory(originalExpense.product_id, {
+              adjustment_type: 'subtract',
+              quantity: originalExpense.quantity,
+              reason: 'restock',
+              notes: 'Product removed from expense',
+            });
             await loadAllProducts();
             toast.success(`Expense updated and stock reversed! ${oldProduct.name} stock: ${oldStock} → ${newStock}`);
           } catch (stockError) {
@@ -546,8 +535,13 @@ export const Expenses: React.FC = () => {
         if (product) {
           try {
             const currentStock = product.stock_quantity || 0;
-            const newStock = Math.max(0, currentStock - expenseToDelete.quantity);
-            await updateProduct(expenseToDelete.product_id, { stock_quantity: newStock });
+            const newStock = currentStock - expenseToDelete.quantity;
+            await apiService.adjustInventory(expenseToDelete.product_id, {
+              adjustment_type: 'subtract',
+              quantity: expenseToDelete.quantity,
+              reason: 'restock',
+              notes: 'Expense deleted',
+            });
             await loadAllProducts();
             toast.success(`Expense deleted and stock reversed! ${product.name} stock: ${currentStock} → ${newStock}`);
           } catch (stockError) {
@@ -569,11 +563,6 @@ export const Expenses: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: number, currency: string) => {
-    const symbols = { TRY: '₺', USD: '$', NGN: '₦', EUR: '€' };
-    return `${symbols[currency as keyof typeof symbols] || currency} ${amount.toLocaleString()}`;
-  };
-
   const getUnitColor = (unit: string) => {
     return units.find(u => u.value === unit)?.color || 'bg-gray-100 text-gray-800';
   };
@@ -635,7 +624,7 @@ export const Expenses: React.FC = () => {
                   </span>
                   <span className="flex items-center space-x-1">
                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
-                    <span>₺{stats?.totalAmount?.toLocaleString() || 0} total amount</span>
+                    <span>{formatCurrency(stats?.totalAmount || 0)} total amount</span>
                   </span>
                   <span className="flex items-center space-x-1">
                     <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
@@ -671,7 +660,7 @@ export const Expenses: React.FC = () => {
                 <TrendingUp className="h-5 w-5 text-green-600 dark:text-green-400" />
               </div>
               <h3 className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Total Amount</h3>
-              <p className="text-lg font-semibold text-gray-800 dark:text-white">₺{stats.totalAmount.toLocaleString()}</p>
+              <p className="text-lg font-semibold text-gray-800 dark:text-white">{formatCurrency(stats.totalAmount)}</p>
             </div>
             <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-4 text-center hover:shadow-md transition-shadow duration-200">
               <div className="w-10 h-10 bg-yellow-100 dark:bg-yellow-900/20 rounded-lg flex items-center justify-center mx-auto mb-2">
@@ -723,7 +712,7 @@ export const Expenses: React.FC = () => {
                 aria-label="Filter by category"
               >
                 <option value="">All Categories</option>
-                {categories.map(category => (
+                {EXPENSE_CATEGORIES.map(category => (
                   <option key={category.value} value={category.value}>
                     {category.label}
                   </option>
@@ -760,7 +749,7 @@ export const Expenses: React.FC = () => {
                       <div>
                         <h3 className="font-semibold text-gray-900 dark:text-white">{expense.product_name}</h3>
                         <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {new Date(expense.date).toLocaleDateString()} • {expense.quantity} {expense.unit}
+                          {formatDate(expense.date)} • {expense.quantity} {expense.unit}
                         </p>
                         {expense.description && (
                           <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">{expense.description}</p>
@@ -1002,7 +991,7 @@ export const Expenses: React.FC = () => {
                           className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                           aria-label="Select category"
                         >
-                          {categories.map(category => (
+                          {EXPENSE_CATEGORIES.map(category => (
                             <option key={category.value} value={category.value}>{category.label}</option>
                           ))}
                         </select>
@@ -1168,7 +1157,7 @@ export const Expenses: React.FC = () => {
                           className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
                           aria-label="Select category"
                         >
-                          {categories.map(category => (
+                          {EXPENSE_CATEGORIES.map(category => (
                             <option key={category.value} value={category.value}>{category.label}</option>
                           ))}
                         </select>
@@ -1,5 +1,6 @@
 import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { AlertTriangle, Package, TrendingDown, TrendingUp, Filter, RefreshCw, Plus } from 'lucide-react';
+import { AlertTriangle, Package, TrendingDown, TrendingUp, Filter, RefreshCw, Plus, ArrowLeftRight, Calculator, ClipboardCheck, ListOrdered, Layers, CalendarClock } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import { Card } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
@@ -9,23 +10,37 @@ import { Input } from '../components/ui/Input';
 import { BackButton } from '../components/ui/BackButton';
 import { Breadcrumb } from '../components/ui/Breadcrumb';
 import { FloatingActionButton } from '../components/ui/FloatingActionButton';
+import { ReorderSuggestions } from '../components/ui/ReorderSuggestions';
+import { StockLedgerModal } from '../components/ui/StockLedgerModal';
+import { ProductBatchesModal } from '../components/ui/ProductBatchesModal';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
 import { apiService } from '../services/api';
 import { formatStockQuantity } from '../utils/formatUtils';
+import { getIncomingQuantitiesByCode } from '../utils/transferUtils';
+import { MANUAL_MOVEMENT_TYPES, STOCK_MOVEMENT_LABELS } from '../utils/stockLedgerUtils';
+import { ExpiryAlert, StockMovementType } from '../types';
 
 export const Inventory: React.FC = () => {
-  const { inventoryAlerts, updateProduct, refreshDashboard } = useApp();
+  const { inventoryAlerts, refreshDashboard } = useApp();
   const { user } = useAuth();
+  const navigate = useNavigate();
   const [products, setProducts] = useState<any[]>([]);
+  const [incomingByCode, setIncomingByCode] = useState<Record<string, number>>({});
   const [isLoadingProducts, setIsLoadingProducts] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'low_stock' | 'out_of_stock' | 'normal'>('all');
   const [isRestockModalOpen, setIsRestockModalOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<any>(null);
   const [restockQuantity, setRestockQuantity] = useState('');
+  const [movementType, setMovementType] = useState<StockMovementType>('restock');
+  const [isSavingMovement, setIsSavingMovement] = useState(false);
+  const [ledgerProduct, setLedgerProduct] = useState<any>(null);
+  const [batchesProduct, setBatchesProduct] = useState<any>(null);
+  const [expiryAlerts, setExpiryAlerts] = useState<ExpiryAlert[]>([]);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [view, setView] = useState<'stock' | 'reorder'>('stock');
 
   // Load products from server with filtering
   const loadProducts = useCallback(async () => {
@@ -54,6 +69,31 @@ export const Inventory: React.FC = () => {
     loadProducts();
   }, [loadProducts]);
 
+  // Stock dispatched to this store by another branch but not yet received
+  useEffect(() => {
+    if (!user?.store_id) return;
+    apiService.getStockTransfers({ store_id: user.store_id, direction: 'incoming', status: 'dispatched' })
+      .then(transfers => setIncomingByCode(getIncomingQuantitiesByCode(transfers)))
+      .catch(error => {
+        console.warn('⚠️ Failed to load incoming transfers:', error);
+        setIncomingByCode({});
+      });
+  }, [user?.store_id]);
+
+  const loadExpiryAlerts = useCallback(() => {
+    if (!user?.store_id) return;
+    apiService.getExpiringBatches({ store_id: user.store_id })
+      .then(setExpiryAlerts)
+      .catch(error => {
+        console.warn('⚠️ Failed to load expiring batches:', error);
+        setExpiryAlerts([]);
+      });
+  }, [user?.store_id]);
+
+  useEffect(() => {
+    loadExpiryAlerts();
+  }, [loadExpiryAlerts]);
+
   // No need for client-side filtering since we're using API filtering
   const filteredProducts = products || [];
 
@@ -69,24 +109,45 @@ export const Inventory: React.FC = () => {
   const handleRestock = (product: any) => {
     setSelectedProduct(product);
     setRestockQuantity('');
+    setMovementType('restock');
     setIsRestockModalOpen(true);
   };
 
-  const processRestock = () => {
+  // Goes through the inventory adjustment endpoint so the change lands in the stock ledger
+  const processRestock = async () => {
     if (!selectedProduct || !restockQuantity || parseFloat(restockQuantity) <= 0) {
       toast.error('Please enter a valid quantity');
       return;
     }
 
-    const newQuantity = selectedProduct.stock_quantity + parseFloat(restockQuantity);
-    updateProduct(selectedProduct._id, { 
-      stock_quantity: newQuantity,
-    });
+    const quantity = parseFloat(restockQuantity);
+    const manual = MANUAL_MOVEMENT_TYPES.find(entry => entry.type === movementType) || MANUAL_MOVEMENT_TYPES[0];
+    if (manual.adjustment_type === 'subtract' && quantity > selectedProduct.stock_quantity) {
+      toast.error(`Only ${formatStockQuantity(selectedProduct.stock_quantity)} ${selectedProduct.unit} in stock`);
+      return;
+    }
 
-    setIsRestockModalOpen(false);
-    setSelectedProduct(null);
-    setRestockQuantity('');
-    toast.success(`Restocked ${selectedProduct.name} with ${restockQuantity} units`);
+    setIsSavingMovement(true);
+    try {
+      await apiService.adjustInventory(selectedProduct._id, {
+        adjustment_type: manual.adjustment_type,
+        quantity,
+        reason: manual.type,
+      });
+      setIsRestockModalOpen(false);
+      setSelectedProduct(null);
+      setRestockQuantity('');
+      toast.success(manual.adjustment_type === 'add'
+        ? `Restocked ${selectedProduct.name} with ${quantity} units`
+        : `Wrote off ${quantity} units of ${selectedProduct.name} as ${STOCK_MOVEMENT_LABELS[manual.type].toLowerCase()}`);
+      loadProducts();
+      refreshDashboard();
+    } catch (error: any) {
+      console.error('Failed to adjust stock:', error);
+      toast.error(error.message || 'Failed to adjust stock');
+    } finally {
+      setIsSavingMovement(false);
+    }
   };
 
   const getStockStatus = (product: any) => {
@@ -154,6 +215,30 @@ export const Inventory: React.FC = () => {
                 </div>
               </div>
               <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  onClick={() => setView(view === 'reorder' ? 'stock' : 'reorder')}
+                  variant={view === 'reorder' ? 'primary' : 'outline'}
+                  className="w-full sm:w-auto"
+                >
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Suggested Reorder
+                </Button>
+                <Button
+                  onClick={() => navigate('/stock-take')}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                >
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Stock-take
+                </Button>
+                <Button
+                  onClick={() => navigate('/transfers')}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                >
+                  <ArrowLeftRight className="h-4 w-4 mr-2" />
+                  Transfers
+                </Button>
                 <Button 
                   onClick={() => refreshDashboard()}
                   variant="outline"
@@ -208,164 +293,239 @@ export const Inventory: React.FC = () => {
           </Card>
         </div>
 
-        {/* Enhanced Search and Filters */}
-        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
-          <div className="space-y-6">
-            {/* Search Bar */}
-            <div className="relative">
-              <SearchBar
-                placeholder="Search products by name, barcode, or SKU..."
-                onSearch={handleSearch}
-                showBarcodeButton={false}
-              />
-            </div>
+        {view === 'reorder' && user?.store_id ? (
+          <ReorderSuggestions storeId={user.store_id} onApplied={loadProducts} />
+        ) : (
+          <>
+            {/* Enhanced Search and Filters */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
+              <div className="space-y-6">
+                {/* Search Bar */}
+                <div className="relative">
+                  <SearchBar
+                    placeholder="Search products by name, barcode, or SKU..."
+                    onSearch={handleSearch}
+                    showBarcodeButton={false}
+                  />
+                </div>
             
-            {/* Filter Buttons */}
-            <div className="flex flex-wrap gap-3">
-              {filterOptions.map(option => (
-                <button
-                  key={option.value}
-                  onClick={() => setSelectedFilter(option.value as any)}
-                  className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all duration-200 ${
-                    selectedFilter === option.value
-                      ? 'bg-primary-500 text-white shadow-md'
-                      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 hover:shadow-sm'
-                  }`}
-                >
-                  {option.label} ({option.count})
-                </button>
-              ))}
-            </div>
-          </div>
-        </div>
-
-        {/* Inventory Alerts */}
-        {inventoryAlerts.length > 0 && (
-          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
-            <div className="flex items-center justify-between mb-4">
-              <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Inventory Alerts</h3>
-              <AlertTriangle className="h-6 w-6 text-red-500" />
-            </div>
-            <div className="space-y-3">
-              {inventoryAlerts.map(alert => (
-                <div key={alert._id} className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 rounded-xl border border-red-200 dark:border-red-800 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors duration-200">
-                  <div>
-                    <p className="font-semibold text-gray-900 dark:text-white">{alert.product_name}</p>
-                    <p className="text-sm text-red-600 dark:text-red-400">
-                      {alert.alert_type === 'out_of_stock' ? 'Out of Stock' : 'Low Stock'} • 
-                      {alert.current_quantity} remaining (min: {alert.min_stock_level})
-                    </p>
-                  </div>
-                  <div className="text-right">
-                    <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                      alert.alert_type === 'out_of_stock' 
-                        ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' 
-                        : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300'
-                    }`}>
-                      {alert.alert_type === 'out_of_stock' ? 'Critical' : 'Warning'}
-                    </span>
-                  </div>
+                {/* Filter Buttons */}
+                <div className="flex flex-wrap gap-3">
+                  {filterOptions.map(option => (
+                    <button
+                      key={option.value}
+                      onClick={() => setSelectedFilter(option.value as any)}
+                      className={`px-4 py-2 rounded-xl text-sm font-semibold transition-all duration-200 ${
+                        selectedFilter === option.value
+                          ? 'bg-primary-500 text-white shadow-md'
+                          : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 hover:shadow-sm'
+                      }`}
+                    >
+                      {option.label} ({option.count})
+                    </button>
+                  ))}
                 </div>
-              ))}
+              </div>
             </div>
-          </div>
-        )}
 
-        {/* Products List */}
-        {filteredProducts.length > 0 ? (
-          <div className="space-y-4">
-            {filteredProducts.map(product => {
-              const stockStatus = getStockStatus(product);
-              return (
-                <div key={product._id} className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6 hover:shadow-xl transition-shadow duration-200">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center space-x-4">
-                      <div className="w-12 h-12 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center">
-                        <Package className="h-6 w-6 text-gray-400 dark:text-gray-500" />
-                      </div>
+            {/* Inventory Alerts */}
+            {inventoryAlerts.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Inventory Alerts</h3>
+                  <AlertTriangle className="h-6 w-6 text-red-500" />
+                </div>
+                <div className="space-y-3">
+                  {inventoryAlerts.map(alert => (
+                    <div key={alert._id} className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 rounded-xl border border-red-200 dark:border-red-800 hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors duration-200">
                       <div>
-                        <h3 className="font-semibold text-gray-900 dark:text-white">{product.name}</h3>
-                        <p className="text-sm text-gray-500 dark:text-gray-400">
-                          {product.category} • SKU: {product.sku}
+                        <p className="font-semibold text-gray-900 dark:text-white">{alert.product_name}</p>
+                        <p className="text-sm text-red-600 dark:text-red-400">
+                          {alert.alert_type === 'out_of_stock' ? 'Out of Stock' : 'Low Stock'} • 
+                          {alert.current_quantity} remaining (min: {alert.min_stock_level})
                         </p>
-                        {product.barcode && (
-                          <p className="text-xs text-gray-400 dark:text-gray-500 font-mono">
-                            Barcode: {product.barcode}
-                          </p>
-                        )}
                       </div>
-                    </div>
-
-                    <div className="flex items-center space-x-6">
                       <div className="text-right">
-                        <p className="text-sm text-gray-500 dark:text-gray-400">Current Stock</p>
-                        <p className="text-lg font-semibold text-gray-900 dark:text-white">
-                          {formatStockQuantity(product.stock_quantity)} {product.unit}
-                        </p>
-                        <p className="text-xs text-gray-400 dark:text-gray-500">
-                          Min: {product.min_stock_level} {product.unit}
-                        </p>
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          alert.alert_type === 'out_of_stock' 
+                            ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' 
+                            : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300'
+                        }`}>
+                          {alert.alert_type === 'out_of_stock' ? 'Critical' : 'Warning'}
+                        </span>
                       </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
 
-                      <div className="text-right">
-                        <p className="text-sm text-gray-500 dark:text-gray-400">Price</p>
-                        <p className="text-lg font-semibold text-primary-600 dark:text-primary-400">
-                          {formatPrice(product.price)}
+            {/* Expiring Soon */}
+            {expiryAlerts.length > 0 && (
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-gray-900 dark:text-white">Expiring Soon</h3>
+                  <CalendarClock className="h-6 w-6 text-amber-500" />
+                </div>
+                <div className="space-y-3">
+                  {expiryAlerts.map(alert => (
+                    <div key={alert._id} className="flex items-center justify-between p-4 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800">
+                      <div>
+                        <p className="font-semibold text-gray-900 dark:text-white">{alert.product_name}</p>
+                        <p className="text-sm text-amber-700 dark:text-amber-400">
+                          Batch {alert.batch_number} • {formatStockQuantity(alert.quantity)} left •{' '}
+                          {alert.alert_type === 'expired'
+                            ? `expired ${-alert.days_until_expiry} day${alert.days_until_expiry === -1 ? '' : 's'} ago`
+                            : alert.days_until_expiry === 0 ? 'expires today' : `expires in ${alert.days_until_expiry} day${alert.days_until_expiry === 1 ? '' : 's'}`}
                         </p>
                       </div>
-
-                      <div className="text-center">
-                        <span className={`px-3 py-1 rounded-full text-sm font-semibold ${stockStatus.bgColor} ${stockStatus.color}`}>
-                          {stockStatus.label}
+                      <div className="flex items-center gap-3">
+                        <span className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          alert.alert_type === 'expired'
+                            ? 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                            : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300'
+                        }`}>
+                          {alert.alert_type === 'expired' ? 'Expired' : 'Expiring'}
                         </span>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            const product = products.find(entry => entry._id === alert.product_id);
+                            setBatchesProduct(product || { _id: alert.product_id, name: alert.product_name, stock_quantity: alert.quantity });
+                          }}
+                        >
+                          Batches
+                        </Button>
                       </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Products List */}
+            {filteredProducts.length > 0 ? (
+              <div className="space-y-4">
+                {filteredProducts.map(product => {
+                  const stockStatus = getStockStatus(product);
+                  return (
+                    <div key={product._id} className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6 hover:shadow-xl transition-shadow duration-200">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4">
+                          <div className="w-12 h-12 bg-gray-100 dark:bg-gray-700 rounded-lg flex items-center justify-center">
+                            <Package className="h-6 w-6 text-gray-400 dark:text-gray-500" />
+                          </div>
+                          <div>
+                            <h3 className="font-semibold text-gray-900 dark:text-white">{product.name}</h3>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">
+                              {product.category} • SKU: {product.sku}
+                            </p>
+                            {product.barcode && (
+                              <p className="text-xs text-gray-400 dark:text-gray-500 font-mono">
+                                Barcode: {product.barcode}
+                              </p>
+                            )}
+                          </div>
+                        </div>
+
+                        <div className="flex items-center space-x-6">
+                          <div className="text-right">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">Current Stock</p>
+                            <p className="text-lg font-semibold text-gray-900 dark:text-white">
+                              {formatStockQuantity(product.stock_quantity)} {product.unit}
+                            </p>
+                            <p className="text-xs text-gray-400 dark:text-gray-500">
+                              Min: {product.min_stock_level} {product.unit}
+                            </p>
+                            {incomingByCode[product.barcode || product.sku] > 0 && (
+                              <p className="text-xs text-blue-600 dark:text-blue-400">
+                                +{formatStockQuantity(incomingByCode[product.barcode || product.sku])} in transit
+                              </p>
+                            )}
+                          </div>
 
-                      <Button
-                        size="sm"
-                        onClick={() => handleRestock(product)}
-                        className="bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
-                      >
-                        Restock
-                      </Button>
+                          <div className="text-right">
+                            <p className="text-sm text-gray-500 dark:text-gray-400">Price</p>
+                            <p className="text-lg font-semibold text-primary-600 dark:text-primary-400">
+                              {formatPrice(product.price)}
+                            </p>
+                          </div>
+
+                          <div className="text-center">
+                            <span className={`px-3 py-1 rounded-full text-sm font-semibold ${stockStatus.bgColor} ${stockStatus.color}`}>
+                              {stockStatus.label}
+                            </span>
+                          </div>
+
+                          {product.track_batches && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setBatchesProduct(product)}
+                              title="Batches and expiry dates"
+                            >
+                              <Layers className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLedgerProduct(product)}
+                            title="Stock movements"
+                          >
+                            <ListOrdered className="h-4 w-4" />
+                          </Button>
+
+                          <Button
+                            size="sm"
+                            onClick={() => handleRestock(product)}
+                            className="bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+                          >
+                            Restock
+                          </Button>
+                        </div>
+                      </div>
                     </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-12">
+                <div className="text-center max-w-md mx-auto">
+                  <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
+                    <Filter className="h-12 w-12 text-gray-400 dark:text-gray-500" />
                   </div>
+                  <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-3">No products found</h3>
+                  <p className="text-gray-500 dark:text-gray-400 mb-8 leading-relaxed">
+                    {searchQuery || selectedFilter !== 'all' 
+                      ? 'Try adjusting your search terms or filter criteria to find products.'
+                      : 'No products in inventory. Add some products to get started.'
+                    }
+                  </p>
+                  {(searchQuery || selectedFilter !== 'all') && (
+                    <Button 
+                      variant="outline"
+                      onClick={() => {
+                        setSearchQuery('');
+                        setSelectedFilter('all');
+                      }}
+                    >
+                      Clear Filters
+                    </Button>
+                  )}
                 </div>
-              );
-            })}
-          </div>
-        ) : (
-          <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-12">
-            <div className="text-center max-w-md mx-auto">
-              <div className="w-24 h-24 bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-600 rounded-2xl flex items-center justify-center mx-auto mb-6">
-                <Filter className="h-12 w-12 text-gray-400 dark:text-gray-500" />
               </div>
-              <h3 className="text-2xl font-bold text-gray-900 dark:text-white mb-3">No products found</h3>
-              <p className="text-gray-500 dark:text-gray-400 mb-8 leading-relaxed">
-                {searchQuery || selectedFilter !== 'all' 
-                  ? 'Try adjusting your search terms or filter criteria to find products.'
-                  : 'No products in inventory. Add some products to get started.'
-                }
-              </p>
-              {(searchQuery || selectedFilter !== 'all') && (
-                <Button 
-                  variant="outline"
-                  onClick={() => {
-                    setSearchQuery('');
-                    setSelectedFilter('all');
-                  }}
-                >
-                  Clear Filters
-                </Button>
-              )}
-            </div>
-          </div>
+            )}
+          </>
         )}
 
         {/* Restock Modal */}
         <Modal
           isOpen={isRestockModalOpen}
           onClose={() => setIsRestockModalOpen(false)}
-          title="Restock Product"
+          title="Adjust Stock"
           size="md"
         >
           {selectedProduct && (
@@ -383,13 +543,30 @@ export const Inventory: React.FC = () => {
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Movement</label>
+                <select
+                  value={movementType}
+                  onChange={(e) => setMovementType(e.target.value as StockMovementType)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+                >
+                  {MANUAL_MOVEMENT_TYPES.map(entry => (
+                    <option key={entry.type} value={entry.type}>
+                      {STOCK_MOVEMENT_LABELS[entry.type]} ({entry.adjustment_type === 'add' ? 'adds stock' : 'removes stock'})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <Input
-                label="Quantity to Add"
+                label={movementType === 'restock' ? 'Quantity to Add' : 'Quantity to Remove'}
                 type="number"
                 value={restockQuantity}
                 onChange={(e) => setRestockQuantity(e.target.value)}
                 placeholder="Enter quantity"
-                helperText="Enter the number of units to add to current stock"
+                helperText={movementType === 'restock'
+                  ? 'Enter the number of units to add to current stock'
+                  : 'Enter the number of units to write off'}
               />
 
               <div className="flex justify-end space-x-3 pt-4">
@@ -399,14 +576,30 @@ export const Inventory: React.FC = () => {
                 >
                   Cancel
                 </Button>
-                <Button onClick={processRestock}>
-                  Restock Product
+                <Button onClick={processRestock} loading={isSavingMovement} disabled={isSavingMovement}>
+                  {movementType === 'restock' ? 'Restock Product' : 'Write Off'}
                 </Button>
               </div>
             </div>
           )}
         </Modal>
 
+        <ProductBatchesModal
+          isOpen={!!batchesProduct}
+          onClose={() => setBatchesProduct(null)}
+          product={batchesProduct}
+          onChanged={() => {
+            loadProducts();
+            loadExpiryAlerts();
+          }}
+        />
+
+        <StockLedgerModal
+          isOpen={!!ledgerProduct}
+          onClose={() => setLedgerProduct(null)}
+          product={ledgerProduct}
+        />
+
         {/* Floating Action Button */}
         <FloatingActionButton
           onClick={() => window.location.href = '/products'}
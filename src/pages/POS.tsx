@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { CreditCard, X, Users, DollarSign } from 'lucide-react';
+import { CreditCard, X, Users, DollarSign, PauseCircle, ClipboardList, UserPlus, UserCheck, Banknote, ArrowRightLeft } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { Button } from '../components/ui/Button';
 import { Modal } from '../components/ui/Modal';
@@ -11,19 +11,47 @@ import { BarcodeScanner } from '../components/ui/BarcodeScanner';
 import { EnhancedPaymentModal, PaymentData } from '../components/ui/EnhancedPaymentModal';
 import { SmartNavButton } from '../components/ui/SmartNavButton';
 import { CheckoutLoader } from '../components/ui/CheckoutLoader';
+import { HeldCartsModal } from '../components/ui/HeldCartsModal';
+import { CashMovementModal } from '../components/ui/CashMovementModal';
+import { WeightEntryModal } from '../components/ui/WeightEntryModal';
+import { VariantPickerModal } from '../components/ui/VariantPickerModal';
+import { CustomerPickerModal } from '../components/ui/CustomerPickerModal';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
+import { useStore } from '../context/StoreContext';
 import { useRiders } from '../context/RiderContext';
+import { useShift } from '../context/ShiftContext';
 import { useGoals } from '../context/GoalContext';
 import { useNotifications } from '../context/NotificationContext';
-import { TransactionItem } from '../types';
+import { TransactionItem, HeldCart, Promotion, Customer } from '../types';
 import { usePageRefresh } from '../hooks/usePageRefresh';
+import { useLocale } from '../hooks/useLocale';
+import { getHeldCarts, holdCart, removeHeldCart, DEFAULT_HELD_CART_EXPIRY_HOURS } from '../utils/heldCartUtils';
+import { getTaxSettings, resolveTaxRate, calculateCartTax } from '../utils/taxUtils';
+import { formatCurrency, roundCurrency } from '../utils/formatUtils';
+import {
+  isSoldByWeight,
+  parseScaleBarcode,
+  parseScalePricePrefixes,
+  findScaleLabelProduct,
+  getScaleLabelLine,
+  calculateWeighedPrice,
+  roundWeight,
+} from '../utils/scaleBarcodeUtils';
+import { groupVariantsByParent, collapseVariants } from '../utils/variantUtils';
+import { applyPromotions, getPromotionClock } from '../utils/promotionUtils';
+import { getCurrentDateTime } from '../utils/timezoneUtils';
+import { getLoyaltySettings, calculatePointsEarned } from '../utils/customerUtils';
+import { apiService } from '../services/api';
 import Receipt from '../components/ui/Receipt';
 
 export const POS: React.FC = () => {
-  const { products, addTransaction, updateInventory, loadAllProducts, updateProduct } = useApp();
+  const { products, addTransaction, deductStockForSale, loadAllProducts } = useApp();
   const { user, isAuthenticated, isLoading } = useAuth();
+  const { currentStore } = useStore();
   const { riders, loadRiders } = useRiders();
+  const { currentShift } = useShift();
+  const { formatTime } = useLocale();
   const { updateGoalProgress } = useGoals();
   const { refreshNotifications } = useNotifications();
 
@@ -80,6 +108,8 @@ export const POS: React.FC = () => {
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [weighingProduct, setWeighingProduct] = useState<any>(null);
+  const [variantParent, setVariantParent] = useState<any>(null);
   
   // Initialize discount from localStorage immediately
   const getInitialDiscountState = (): string => {
@@ -101,6 +131,18 @@ export const POS: React.FC = () => {
   const [receiptTransaction, setReceiptTransaction] = useState<any | null>(null);
   const [isReceiptModalOpen, setIsReceiptModalOpen] = useState(false);
   const receiptRef = useRef<HTMLDivElement>(null);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [isHeldCartsModalOpen, setIsHeldCartsModalOpen] = useState(false);
+  const [isCashMovementOpen, setIsCashMovementOpen] = useState(false);
+  const [isHoldModalOpen, setIsHoldModalOpen] = useState(false);
+  const [holdName, setHoldName] = useState('');
+  const [holdNote, setHoldNote] = useState('');
+  const heldCartExpiryHours = currentStore?.held_cart_expiry_hours ?? DEFAULT_HELD_CART_EXPIRY_HOURS;
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [promotionClock, setPromotionClock] = useState(() => getPromotionClock(getCurrentDateTime()));
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [isCustomerPickerOpen, setIsCustomerPickerOpen] = useState(false);
+  const loyalty = useMemo(() => getLoyaltySettings(currentStore), [currentStore]);
 
   // Cart persistence functions
   const CART_STORAGE_KEY = 'pos_cart_items';
@@ -153,12 +195,39 @@ export const POS: React.FC = () => {
     }
   }, [cartItems, discount, isAuthenticated, user]);
 
+  // Load this cashier's held carts, pruning expired ones (re-checked every minute)
+  useEffect(() => {
+    if (!isAuthenticated || !user) {
+      setHeldCarts([]);
+      return;
+    }
+
+    const refreshHeldCarts = () => setHeldCarts(getHeldCarts(user.id, heldCartExpiryHours));
+    refreshHeldCarts();
+    const interval = setInterval(refreshHeldCarts, 60000);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, user, heldCartExpiryHours]);
+
+  // Active promotions for this branch; the last loaded set is kept when offline
+  useEffect(() => {
+    if (!isAuthenticated || !currentStore?._id) return;
+    apiService.getPromotions({ store_id: currentStore._id, is_active: true })
+      .then(setPromotions)
+      .catch(error => console.error('Failed to load promotions:', error));
+  }, [isAuthenticated, currentStore?._id]);
+
+  // Happy hours start and end while the till is open
+  useEffect(() => {
+    const interval = setInterval(() => setPromotionClock(getPromotionClock(getCurrentDateTime())), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
   const filteredProducts = useMemo(() => {
     if (!products || !Array.isArray(products)) {
       return [];
     }
     if (!searchQuery.trim()) {
-      return products;
+      return collapseVariants(products, products);
     }
     
     const searchLower = searchQuery.toLowerCase();
@@ -166,17 +235,31 @@ export const POS: React.FC = () => {
       product.name.toLowerCase().includes(searchLower) ||
       product.barcode?.toLowerCase().includes(searchLower)
     );
-    return filtered;
+    // A hit on a variant shows its parent, which opens the variant picker
+    return collapseVariants(filtered, products);
   }, [products, searchQuery]);
 
+  const variantsByParent = useMemo(() => groupVariantsByParent(products || []), [products]);
+
   const cartTotal = useMemo(() => {
     return cartItems.reduce((sum, item) => sum + item.total_price, 0);
   }, [cartItems]);
 
-  const finalTotal = useMemo(() => {
-    const discountAmount = parseFloat(discount) || 0;
-    return Math.max(0, cartTotal - discountAmount);
-  }, [cartTotal, discount]);
+  const pricedCart = useMemo(() => {
+    return applyPromotions(cartItems, promotions, promotionClock, productId =>
+      products?.find(p => p._id === productId)?.category
+    );
+  }, [cartItems, promotions, promotionClock, products]);
+
+  const taxSettings = useMemo(() => getTaxSettings(currentStore), [currentStore]);
+
+  const cartTax = useMemo(() => {
+    return calculateCartTax(pricedCart.items, parseFloat(discount) || 0, taxSettings.mode, item =>
+      resolveTaxRate(products?.find(p => p._id === item.product_id), taxSettings)
+    );
+  }, [pricedCart, discount, products, taxSettings]);
+
+  const finalTotal = cartTax.total;
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
@@ -191,36 +274,80 @@ export const POS: React.FC = () => {
     if (product) {
       addToCart(product);
       toast.success(`Added ${product.name} to cart`);
-    } else {
+      return;
+    }
+
+    // Not a catalogue barcode; try it as a label printed by the in-store scale
+    const label = parseScaleBarcode(barcode, parseScalePricePrefixes(currentStore?.scale_price_prefixes));
+    const labelProduct = label && findScaleLabelProduct(products, label);
+    if (!label || !labelProduct) {
       toast.error('Product not found');
+      return;
     }
+    const line = getScaleLabelLine(label, labelProduct);
+    if (!line) {
+      toast.error(`${labelProduct.name} is not sold by weight`);
+      return;
+    }
+    addToCart(labelProduct, line.quantity, line.total_price);
   };
 
-  const addToCart = (product: any) => {
+  // Weighed products need a quantity, either typed in the weight modal or read from a scale label
+  const addToCart = (product: any, quantity?: number, linePrice?: number) => {
     
+    // Parents are not sold themselves; the cashier picks one of their variants
+    if (variantsByParent.has(product._id)) {
+      setVariantParent(product);
+      return;
+    }
+
     if (product.stock_quantity <= 0) {
       toast.error(`${product.name} has insufficient stock (${product.stock_quantity}). Increase stock and try again.`);
       openRestockModal(product, 'addToCart');
       return;
     }
 
+    if (quantity === undefined && isSoldByWeight(product)) {
+      setWeighingProduct(product);
+      return;
+    }
+    const addQuantity = quantity ?? 1;
+
     const existingItem = cartItems.find(item => item.product_id === product._id);
     
     if (existingItem) {
-      if (existingItem.quantity >= product.stock_quantity) {
+      if (existingItem.quantity + addQuantity > product.stock_quantity) {
         toast.error(`Not enough stock for ${product.name}. Available: ${product.stock_quantity}, In cart: ${existingItem.quantity}.`);
         openRestockModal(product, 'addToCart');
         return;
       }
-      updateCartItemQuantity(product._id, existingItem.quantity + 1);
+      if (linePrice !== undefined) {
+        // A price-embedded label carries its own price; add it on rather than repricing the whole line,
+        // and keep unit_price in step since promotions and refunds price units from it
+        setCartItems(cartItems.map(item => {
+          if (item.product_id !== product._id) return item;
+          const quantity = roundWeight(item.quantity + addQuantity);
+          const totalPrice = roundCurrency(item.total_price + linePrice);
+          return { ...item, quantity, total_price: totalPrice, unit_price: roundCurrency(totalPrice / quantity) };
+        }));
+        toast.success(`Added ${product.name} to cart`);
+      } else {
+        updateCartItemQuantity(product._id, roundWeight(existingItem.quantity + addQuantity));
+      }
     } else {
+      if (addQuantity > product.stock_quantity) {
+        toast.error(`Not enough stock for ${product.name}. Available: ${product.stock_quantity}.`);
+        openRestockModal(product, 'addToCart');
+        return;
+      }
       const newItem: TransactionItem = {
         _id: '',
         product_id: product._id,
         product_name: product.name,
-        quantity: 1,
+        quantity: addQuantity,
         unit_price: product.price,
-        total_price: product.price,
+        total_price: linePrice ?? calculateWeighedPrice(product.price, addQuantity),
+        unit: product.unit,
         product_image: product.images && product.images.length > 0 
           ? (product.images.find((img: any) => img.is_primary)?.url || product.images[0].url)
           : undefined,
@@ -265,10 +392,77 @@ export const POS: React.FC = () => {
   const clearCart = () => {
     setCartItems([]);
     setDiscount('');
+    setCustomer(null); // The next sale must not earn points or go on account for this customer
     clearCartFromStorage();
     cartLoadedRef.current = false; // Reset so cart can be loaded again if needed
   };
 
+  const openHoldModal = () => {
+    if (cartItems.length === 0) {
+      toast.error('Cart is empty');
+      return;
+    }
+    setHoldName(`Cart ${heldCarts.length + 1}`);
+    setHoldNote('');
+    setIsHoldModalOpen(true);
+  };
+
+  const parkCart = (name: string, note?: string): boolean => {
+    if (!user) return false;
+    if (!name.trim()) {
+      toast.error('Enter a name for the held cart.');
+      return false;
+    }
+    holdCart(user.id, { name, note, items: cartItems, discount, customer_id: customer?._id, customer_name: customer?.name });
+    setHeldCarts(getHeldCarts(user.id, heldCartExpiryHours));
+    clearCart(); // Also detaches the customer, who stays with the held cart
+    return true;
+  };
+
+  const processHoldCart = () => {
+    if (parkCart(holdName, holdNote)) {
+      toast.success(`Cart "${holdName.trim()}" put on hold`);
+      setIsHoldModalOpen(false);
+    }
+  };
+
+  const recallHeldCart = (heldCart: HeldCart) => {
+    if (!user) return;
+
+    // Don't lose the cart currently being rung up: park it in place of the recalled one
+    if (cartItems.length > 0) {
+      const timeLabel = formatTime(new Date());
+      parkCart(`Cart ${timeLabel}`);
+    }
+
+    removeHeldCart(user.id, heldCart.id);
+    setHeldCarts(getHeldCarts(user.id, heldCartExpiryHours));
+    setCartItems(heldCart.items);
+    setDiscount(heldCart.discount);
+    cartLoadedRef.current = true;
+    setIsHeldCartsModalOpen(false);
+    toast.success(`Recalled "${heldCart.name}"`);
+
+    if (heldCart.customer_id) {
+      // Reload rather than keep a copy, so points and account balance are current
+      apiService.getCustomer(heldCart.customer_id)
+        .then(setCustomer)
+        .catch(error => {
+          console.error('Failed to reload held cart customer:', error);
+          toast.error(`Could not re-attach ${heldCart.customer_name || 'the customer'}. Attach them again before paying.`);
+        });
+    }
+  };
+
+  const discardHeldCart = (heldCart: HeldCart) => {
+    if (!user) return;
+    if (!window.confirm(`Discard held cart "${heldCart.name}"?`)) {
+      return;
+    }
+    removeHeldCart(user.id, heldCart.id);
+    setHeldCarts(getHeldCarts(user.id, heldCartExpiryHours));
+  };
+
   const openRestockModal = (product: any, context: 'addToCart' | 'updateQty' | 'checkout') => {
     setRestockProduct(product);
     setRestockContext(context);
@@ -296,7 +490,11 @@ export const POS: React.FC = () => {
     }
     try {
       const newQuantity = (restockProduct.stock_quantity || 0) + qtyToAdd;
-      await updateProduct(restockProduct._id, { stock_quantity: newQuantity });
+      await apiService.adjustInventory(restockProduct._id, {
+        adjustment_type: 'add',
+        quantity: qtyToAdd,
+        reason: 'restock',
+      });
       await loadAllProducts();
       toast.success(`Restocked ${restockProduct.name} by ${qtyToAdd}. New stock: ${newQuantity}.`);
     } catch (e) {
@@ -323,14 +521,10 @@ export const POS: React.FC = () => {
     return { ok: true };
   };
 
-  const updateInventoryForSale = async (productId: string, quantitySold: number) => {
+  const updateInventoryForSale = async (transactionId: string) => {
     try {
-      // Get the current product to calculate new stock
-      const product = products?.find(p => p._id === productId);
-      if (product) {
-        const newStock = product.stock_quantity - quantitySold;
-        await updateInventory(productId, newStock);
-      }
+      const soldItems = cartItems.filter(item => products?.some(p => p._id === item.product_id));
+      await deductStockForSale(transactionId, soldItems.map(item => ({ product_id: item.product_id, quantity: item.quantity })));
     } catch (error) {
       console.error('Failed to update inventory:', error);
       // Don't show toast here - the main error will be handled by processPayment
@@ -381,29 +575,50 @@ export const POS: React.FC = () => {
     try {
       // Create enhanced transaction record with all required fields
       // Extract primary payment method (the one with the highest amount) for backward compatibility
-      const primaryPaymentMethod = paymentData.payment_methods.reduce((prev, current) => 
+      // Points are not money taken, so they only count as primary when nothing else was paid
+      const moneyPayments = paymentData.payment_methods.filter(pm => pm.type !== 'loyalty_points');
+      const primaryPaymentMethod = (moneyPayments.length > 0 ? moneyPayments : paymentData.payment_methods).reduce((prev, current) => 
         (current.amount > prev.amount) ? current : prev
       );
+      const pointsRedeemed = paymentData.payment_methods.reduce((sum, pm) => sum + (pm.type === 'loyalty_points' ? pm.points || 0 : 0), 0);
+      const pointsValue = paymentData.payment_methods.reduce((sum, pm) => sum + (pm.type === 'loyalty_points' ? pm.amount : 0), 0);
+      const chargedTotal = finalTotal + (paymentData.delivery_fee || 0);
 
       const transaction = {
         store_id: storeId,
         cashier_id: user.id,
-        items: cartItems.map(item => {
+        shift_id: currentShift?._id,
+        items: cartTax.items.map(item => {
           const product = products?.find(p => p._id === item.product_id);
           return {
             product_id: item.product_id,
             product_name: product?.name || item.product_id,
             quantity: item.quantity,
             unit_price: item.unit_price,
+            discount_amount: item.discount_amount,
+            promotion_id: item.promotion_id,
+            promotion_name: item.promotion_name,
+            tax_rate: item.tax_rate,
+            tax_amount: item.tax_amount,
           };
         }),
         discount_amount: parseFloat(discount) || 0,
+        tax_amount: cartTax.tax_amount,
+        tax_mode: taxSettings.mode,
+        tax_breakdown: cartTax.breakdown,
         payment_method: primaryPaymentMethod.type, // Keep for backward compatibility
         payment_methods: paymentData.payment_methods, // Save ALL payment methods
+        currency: paymentData.currency,
+        change_amount: paymentData.change_amount,
         order_source: paymentData.order_source,
         rider_id: paymentData.rider_id,
         delivery_fee: paymentData.delivery_fee,
+        delivery_zone_id: paymentData.delivery_zone_id,
         customer_id: paymentData.customer_id,
+        customer_name: customer?.name,
+        // The backend credits and debits the customer's balance from these
+        loyalty_points_earned: customer ? calculatePointsEarned(finalTotal - pointsValue, loyalty) : undefined,
+        loyalty_points_redeemed: pointsRedeemed > 0 ? pointsRedeemed : undefined,
         notes: paymentData.notes,
       };
 
@@ -414,25 +629,22 @@ export const POS: React.FC = () => {
       const startTime = Date.now();
       const minLoaderTime = 1500; // Minimum 1.5 seconds to show progress
 
-      // Process transaction and inventory updates
-      await Promise.all([
-        addTransaction(transaction),
-        updateGoalProgress(),
-        ...cartItems.map(async (item) => {
-          if (products && Array.isArray(products)) {
-            const product = products.find(p => p._id === item.product_id);
-            if (product) {
-              await updateInventoryForSale(item.product_id, item.quantity);
-            }
-          }
-        })
-      ]);
+      // Create the transaction first - when offline it is queued in the outbox and
+      // stock is deducted locally, so the inventory calls below must be skipped
+      const { transaction: created, queued } = await addTransaction(transaction);
+
+      if (!queued) {
+        await Promise.all([
+          updateGoalProgress(),
+          updateInventoryForSale(created._id),
+        ]);
+      }
       
       setReceiptTransaction({
         ...transaction,
         // Patch in subtotal, total_amount if available (may come from cart calculations)
-        subtotal: cartTotal,
-        total_amount: finalTotal,
+        subtotal: cartTax.subtotal,
+        total_amount: chargedTotal,
         created_at: new Date(), // for display
       });
       
@@ -452,14 +664,22 @@ export const POS: React.FC = () => {
 
       // Clear cart and close modal (not before showing receipt)
       clearCart();  // optionally consider deferring clear until receipt close
+      setCustomer(null);
       setIsPaymentModalOpen(false);
 
       const paymentMethodsText = paymentData.payment_methods.map(pm => 
-        `${pm.type.charAt(0).toUpperCase() + pm.type.slice(1)}: ₺${pm.amount.toFixed(2)}`
+        `${pm.type.charAt(0).toUpperCase() + pm.type.slice(1)}: ${pm.currency && pm.original_amount !== undefined
+          ? formatCurrency(pm.original_amount, pm.currency)
+          : formatCurrency(pm.amount, paymentData.currency)}`
       ).join(', ');
+      const changeText = paymentData.change_amount > 0 ? `, change ${formatCurrency(paymentData.change_amount, paymentData.currency)}` : '';
 
       // Single success toast with all information
-      toast.success(`Sale completed! Total: ₺${finalTotal.toFixed(2)} (${paymentMethodsText})`);
+      if (queued) {
+        toast.success(`Offline: sale saved (${formatCurrency(chargedTotal, paymentData.currency)}). It will sync when the connection returns.`);
+      } else {
+        toast.success(`Sale completed! Total: ${formatCurrency(chargedTotal, paymentData.currency)} (${paymentMethodsText}${changeText})`);
+      }
       
     } catch (error) {
       console.error('Payment processing failed:', error);
@@ -566,6 +786,59 @@ export const POS: React.FC = () => {
                   <DollarSign className="h-4 w-4 mr-2" />
                   Cash Tracking
                 </SmartNavButton>
+                <SmartNavButton 
+                  to="/shift"
+                  variant="outline"
+                  className={`w-full sm:w-auto ${currentShift ? '' : 'text-amber-600 dark:text-amber-400'}`}
+                >
+                  <Banknote className="h-4 w-4 mr-2" />
+                  {currentShift ? 'Shift' : 'Open Shift'}
+                </SmartNavButton>
+                {currentShift && (
+                  <Button 
+                    onClick={() => setIsCashMovementOpen(true)}
+                    variant="outline"
+                    className="w-full sm:w-auto"
+                  >
+                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                    Cash In/Out
+                  </Button>
+                )}
+                <Button 
+                  onClick={() => setIsCustomerPickerOpen(true)}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                >
+                  {customer ? <UserCheck className="h-4 w-4 mr-2" /> : <UserPlus className="h-4 w-4 mr-2" />}
+                  {customer ? customer.name : 'Customer'}
+                </Button>
+                {customer && (
+                  <Button 
+                    onClick={() => setCustomer(null)}
+                    variant="ghost"
+                    className="w-full sm:w-auto"
+                    title="Detach customer"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button 
+                  onClick={openHoldModal}
+                  variant="outline"
+                  disabled={cartItems.length === 0}
+                  className="w-full sm:w-auto"
+                >
+                  <PauseCircle className="h-4 w-4 mr-2" />
+                  Hold Cart
+                </Button>
+                <Button 
+                  onClick={() => setIsHeldCartsModalOpen(true)}
+                  variant="outline"
+                  className="w-full sm:w-auto"
+                >
+                  <ClipboardList className="h-4 w-4 mr-2" />
+                  Held Carts{heldCarts.length > 0 && ` (${heldCarts.length})`}
+                </Button>
                 <Button 
                   onClick={() => setIsScannerOpen(true)}
                   variant="outline"
@@ -622,6 +895,7 @@ export const POS: React.FC = () => {
                 key={product._id}
                 product={product}
                 onAddToCart={addToCart}
+                variants={variantsByParent.get(product._id)}
                     showActions={true}
                 showStockAlert={true}
               />
@@ -663,11 +937,13 @@ export const POS: React.FC = () => {
         <div className="lg:col-span-1">
             <div className="sticky top-20 bottom-20">
           <ShoppingCartComponent
-            items={cartItems}
+            items={pricedCart.items}
             onUpdateQuantity={updateCartItemQuantity}
             onRemoveItem={removeFromCart}
             onClearCart={clearCart}
             onCheckout={handleCheckout}
+            taxAmount={cartTax.tax_amount}
+            taxMode={taxSettings.mode}
           />
             </div>
           </div>
@@ -681,10 +957,24 @@ export const POS: React.FC = () => {
         onProcessPayment={processPayment}
         cartItems={cartItems}
         subtotal={cartTotal}
-        taxAmount={0} // TODO: Calculate tax
-        discountAmount={parseFloat(discount) || 0}
+        taxAmount={cartTax.tax_amount}
+        taxMode={taxSettings.mode}
+        discountAmount={(parseFloat(discount) || 0) + pricedCart.total_discount}
         totalAmount={finalTotal}
         riders={riders}
+        customer={customer}
+        loyalty={loyalty}
+      />
+
+      <CustomerPickerModal
+        isOpen={isCustomerPickerOpen}
+        onClose={() => setIsCustomerPickerOpen(false)}
+        storeId={currentStore?._id}
+        onSelect={(selected) => {
+          setCustomer(selected);
+          setIsCustomerPickerOpen(false);
+          toast.success(`${selected.name} attached to this sale`);
+        }}
       />
 
       {/* Barcode Scanner */}
@@ -694,6 +984,27 @@ export const POS: React.FC = () => {
         onScan={handleBarcodeScan}
         onError={(error) => toast.error(`Scanner error: ${error}`)}
       />
+
+      <VariantPickerModal
+        isOpen={!!variantParent}
+        onClose={() => setVariantParent(null)}
+        parent={variantParent}
+        variants={variantParent ? variantsByParent.get(variantParent._id) || [] : []}
+        onSelect={(variant) => {
+          setVariantParent(null);
+          addToCart(variant);
+        }}
+      />
+
+      <WeightEntryModal
+        isOpen={!!weighingProduct}
+        onClose={() => setWeighingProduct(null)}
+        product={weighingProduct}
+        onConfirm={(quantity) => {
+          addToCart(weighingProduct, quantity);
+          setWeighingProduct(null);
+        }}
+      />
       
       <CheckoutLoader 
         isVisible={isProcessingPayment}
@@ -729,6 +1040,48 @@ export const POS: React.FC = () => {
         )}
       </Modal>
 
+      {/* Hold Cart Modal */}
+      <Modal
+        isOpen={isHoldModalOpen}
+        onClose={() => setIsHoldModalOpen(false)}
+        title="Hold Cart"
+        size="md"
+      >
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={holdName}
+            onChange={(e) => setHoldName(e.target.value)}
+            placeholder="e.g. Customer in blue jacket"
+          />
+          <Input
+            label="Note (optional)"
+            value={holdNote}
+            onChange={(e) => setHoldNote(e.target.value)}
+            placeholder="e.g. Fetching cash from car"
+          />
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button variant="outline" onClick={() => setIsHoldModalOpen(false)}>Cancel</Button>
+            <Button onClick={processHoldCart}>Hold Cart</Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Held Carts Modal */}
+      <CashMovementModal
+        isOpen={isCashMovementOpen}
+        onClose={() => setIsCashMovementOpen(false)}
+      />
+
+      <HeldCartsModal
+        isOpen={isHeldCartsModalOpen}
+        onClose={() => setIsHeldCartsModalOpen(false)}
+        heldCarts={heldCarts}
+        expiryHours={heldCartExpiryHours}
+        onRecall={recallHeldCart}
+        onDiscard={discardHeldCart}
+      />
+
       {/* Receipt Modal */}
       <Modal
         isOpen={isReceiptModalOpen}
@@ -1,5 +1,5 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Plus, Filter, Grid, List, Package, Upload, Trash2, CheckSquare, Square, Download, FileText, AlertTriangle, ShoppingCart } from 'lucide-react';
+import { Plus, Filter, Grid, List, Package, Upload, Trash2, CheckSquare, Square, Download, FileText, AlertTriangle, ShoppingCart, Tag } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '../components/ui/Button';
@@ -13,18 +13,27 @@ import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import ExcelImportModal from '../components/ExcelImportModal';
 import { PriceUpdateModal } from '../components/ui/PriceUpdateModal';
 import { PriceHistoryModal } from '../components/ui/PriceHistoryModal';
+import { StockLedgerModal } from '../components/ui/StockLedgerModal';
+import { ProductVariantsModal } from '../components/ui/ProductVariantsModal';
 import CategorySelect from '../components/ui/CategorySelect';
 import { normalizeCategoryName, getAllAvailableCategories } from '../utils/categoryUtils';
+import { groupVariantsByParent, collapseVariants } from '../utils/variantUtils';
 import { TagsDropdown } from '../components/ui/TagsDropdown';
 import { EnhancedProductForm } from '../components/ui/EnhancedProductForm';
 import { CategoryFilterSidebar } from '../components/ui/CategoryFilterSidebar';
 import { FloatingActionButton } from '../components/ui/FloatingActionButton';
 import { useApp } from '../context/AppContext';
+import { useStore } from '../context/StoreContext';
+import { useAuth } from '../context/AuthContext';
 import { Product, PriceHistory } from '../types';
 
 export const Products: React.FC = () => {
   const { products, addProduct, updateProduct, updateProductPrice, getProductPriceHistory, deleteProduct, exportProducts, importProducts, loading, loadProducts, productsPagination } = useApp();
+  const { currentStore } = useStore();
+  const taxClasses = currentStore?.tax_classes || [];
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const canManagePromotions = !!user && ['admin', 'owner', 'manager'].includes(user.role);
   const location = useLocation();
   
   // Intelligent search functionality
@@ -51,6 +60,8 @@ export const Products: React.FC = () => {
     description: '',
     sku: '',
     tags: [] as string[],
+    tax_class_id: '',
+    track_batches: false,
   });
   const [editingImages, setEditingImages] = useState<File[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -60,6 +71,8 @@ export const Products: React.FC = () => {
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
   const [isPriceUpdateModalOpen, setIsPriceUpdateModalOpen] = useState(false);
   const [isPriceHistoryModalOpen, setIsPriceHistoryModalOpen] = useState(false);
+  const [stockLedgerProduct, setStockLedgerProduct] = useState<Product | null>(null);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
   const [priceUpdateProduct, setPriceUpdateProduct] = useState<Product | null>(null);
   const [priceHistoryProduct, setPriceHistoryProduct] = useState<Product | null>(null);
   const [priceHistory, setPriceHistory] = useState<PriceHistory[]>([]);
@@ -76,6 +89,8 @@ export const Products: React.FC = () => {
       description: '',
       sku: '',
       tags: [],
+      tax_class_id: '',
+      track_batches: false,
     });
   };
 
@@ -114,17 +129,20 @@ export const Products: React.FC = () => {
 
   // No need for client-side filtering since we're using API filtering
   // Only use intelligent search if there's a search query and no server-side search
+  // Variants are listed under their parent rather than as products of their own
   const filteredProducts = useMemo(() => {
     if (!products) return [];
     
     // If there's a search query, use intelligent search as backup
     if (searchQuery.trim()) {
-      return searchProducts(searchQuery, products);
+      return collapseVariants(searchProducts(searchQuery, products), products);
     }
     
-    return products;
+    return collapseVariants(products, products);
   }, [products, searchQuery, searchProducts]);
 
+  const variantsByParent = useMemo(() => groupVariantsByParent(products || []), [products]);
+
   const handleSearch = (query: string) => {
     setSearchQuery(query);
     
@@ -302,6 +320,8 @@ export const Products: React.FC = () => {
         dimensions: undefined,
         images: [], // Will be populated by the API after image upload
         tags: formData.tags,
+        tax_class_id: formData.tax_class_id || undefined,
+        track_batches: !!formData.track_batches,
         is_active: true,
         is_featured: false,
         created_by: '',
@@ -368,6 +388,8 @@ export const Products: React.FC = () => {
       description: product.description || '',
       sku: product.sku,
       tags: product.tags,
+      tax_class_id: product.tax_class_id || '',
+      track_batches: !!product.track_batches,
     });
     setEditingImages([]); // Reset editing images
     setIsEditModalOpen(true);
@@ -392,6 +414,8 @@ export const Products: React.FC = () => {
         min_stock_level: newProduct.min_stock_level ? parseInt(newProduct.min_stock_level) : 5,
         unit: newProduct.unit,
         tags: newProduct.tags,
+        tax_class_id: newProduct.tax_class_id,
+        track_batches: newProduct.track_batches,
       }, editingImages.length > 0 ? editingImages : undefined);
 
       setIsEditModalOpen(false);
@@ -523,6 +547,17 @@ export const Products: React.FC = () => {
                     <AlertTriangle className="h-4 w-4 mr-2" />
                     Inventory
                 </Button>
+                {canManagePromotions && (
+                <Button 
+                    onClick={() => navigate('/promotions')}
+                  variant="outline"
+                    size="md"
+                  className="flex-shrink-0"
+                >
+                    <Tag className="h-4 w-4 mr-2" />
+                    Promotions
+                </Button>
+                )}
                 <Button 
                     onClick={() => setIsExcelImportOpen(true)}
                   variant="outline"
@@ -713,6 +748,9 @@ export const Products: React.FC = () => {
                   onDelete={handleDeleteProduct}
                   onPriceUpdate={handlePriceUpdate}
                   onPriceHistory={handlePriceHistory}
+                  onStockHistory={setStockLedgerProduct}
+                  onVariants={product.parent_product_id ? undefined : setVariantsProduct}
+                  variants={variantsByParent.get(product._id)}
                   showActions={true}
                   showPriceActions={true}
                   showStockAlert={true}
@@ -840,6 +878,7 @@ export const Products: React.FC = () => {
           existingProducts={products || []}
           existingCategories={categories.filter(cat => cat !== 'all')}
           existingTags={existingTags}
+          taxClasses={taxClasses}
         />
       </Modal>
 
@@ -911,9 +950,37 @@ export const Products: React.FC = () => {
                 >
                   <option value="piece">Piece</option>
                   <option value="kg">Kg</option>
+                  <option value="g">Gram</option>
+                  <option value="l">Litre</option>
                 </select>
               </div>
+              {taxClasses.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Tax Class
+                  </label>
+                  <select
+                    value={newProduct.tax_class_id}
+                    onChange={(e) => setNewProduct({ ...newProduct, tax_class_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    aria-label="Select tax class"
+                  >
+                    <option value="">Category default</option>
+                    {taxClasses.map(taxClass => (
+                      <option key={taxClass._id} value={taxClass._id}>{taxClass.name} ({taxClass.rate}%)</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={newProduct.track_batches}
+                onChange={(e) => setNewProduct({ ...newProduct, track_batches: e.target.checked })}
+              />
+              Track batches and expiry dates (sold first-expiry-first-out)
+            </label>
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Description
@@ -1218,6 +1285,20 @@ export const Products: React.FC = () => {
               priceHistory={priceHistory}
             />
 
+            <StockLedgerModal
+              isOpen={!!stockLedgerProduct}
+              onClose={() => setStockLedgerProduct(null)}
+              product={stockLedgerProduct}
+            />
+
+            <ProductVariantsModal
+              isOpen={!!variantsProduct}
+              onClose={() => setVariantsProduct(null)}
+              parent={variantsProduct}
+              variants={variantsProduct ? variantsByParent.get(variantsProduct._id) || [] : []}
+              onSaved={() => loadProducts(searchQuery, selectedCategories.includes('all') ? 'all' : selectedCategories.join(','))}
+            />
+
         {/* Floating Action Button */}
         <FloatingActionButton
           onClick={() => setIsAddModalOpen(true)}
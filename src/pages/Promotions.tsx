@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Tag, Plus, RefreshCw, Pencil, Trash2, Clock } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { PromotionFormModal } from '../components/ui/PromotionFormModal';
+import { useStore } from '../context/StoreContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { Product, Promotion } from '../types';
+import { getCurrentDateTime } from '../utils/timezoneUtils';
+import {
+  PROMOTION_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  describePromotion,
+  getPromotionClock,
+  isPromotionActive,
+} from '../utils/promotionUtils';
+
+export const Promotions: React.FC = () => {
+  const { currentStore } = useStore();
+  const { formatCurrency, formatDate } = useLocale();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const storeId = currentStore?._id;
+
+  const loadPromotions = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      const [loadedPromotions, productResponse] = await Promise.all([
+        apiService.getPromotions({ store_id: storeId }),
+        apiService.getProducts({ store_id: storeId }),
+      ]);
+      setPromotions(loadedPromotions);
+      setProducts(productResponse.products);
+    } catch (error) {
+      console.error('Failed to load promotions:', error);
+      toast.error('Failed to load promotions');
+      setPromotions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const replacePromotion = (updated: Promotion) => {
+    setPromotions(prev => {
+      const exists = prev.some(entry => entry._id === updated._id);
+      return exists ? prev.map(entry => (entry._id === updated._id ? updated : entry)) : [updated, ...prev];
+    });
+  };
+
+  const openForm = (promotion: Promotion | null) => {
+    setEditingPromotion(promotion);
+    setIsFormOpen(true);
+  };
+
+  const handleToggle = async (promotion: Promotion) => {
+    try {
+      replacePromotion(await apiService.updatePromotion(promotion._id, { is_active: !promotion.is_active }));
+    } catch (error: any) {
+      console.error('Failed to update promotion:', error);
+      toast.error(error.message || 'Failed to update promotion');
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!window.confirm(`Delete "${promotion.name}"? Past sales keep their discounts.`)) return;
+    try {
+      await apiService.deletePromotion(promotion._id);
+      setPromotions(prev => prev.filter(entry => entry._id !== promotion._id));
+      toast.success('Promotion deleted');
+    } catch (error: any) {
+      console.error('Failed to delete promotion:', error);
+      toast.error(error.message || 'Failed to delete promotion');
+    }
+  };
+
+  const clock = getPromotionClock(getCurrentDateTime());
+
+  const describeSchedule = (promotion: Promotion): string => {
+    const parts: string[] = [];
+    if (promotion.start_date || promotion.end_date) {
+      parts.push(`${promotion.start_date ? formatDate(promotion.start_date) : '…'} – ${promotion.end_date ? formatDate(promotion.end_date) : '…'}`);
+    }
+    if (promotion.days_of_week && promotion.days_of_week.length > 0) {
+      parts.push(promotion.days_of_week.map(day => WEEKDAY_LABELS[day]).join(', '));
+    }
+    if (promotion.start_time && promotion.end_time) {
+      parts.push(`${promotion.start_time}–${promotion.end_time}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'Always';
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <Tag className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">Promotions</h1>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    Multi-buys, bundles and happy hours applied automatically at the till
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-row gap-3 items-center">
+                <Button onClick={loadPromotions} variant="outline" size="md" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                <Button onClick={() => openForm(null)} size="md">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New Promotion
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {isLoading && promotions.length === 0 ? (
+          <Card className="p-12">
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="lg" className="mr-4" />
+              <span className="text-gray-500 dark:text-gray-400 text-lg">Loading promotions...</span>
+            </div>
+          </Card>
+        ) : promotions.length === 0 ? (
+          <Card className="p-12">
+            <p className="text-center text-gray-500 dark:text-gray-400">No promotions yet. Create one to start discounting at the till.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {promotions.map(promotion => {
+              const isLive = isPromotionActive(promotion, clock);
+              return (
+                <Card key={promotion._id} padding="sm">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-semibold text-gray-900 dark:text-white">{promotion.name}</span>
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300">
+                          {PROMOTION_TYPE_LABELS[promotion.type]}
+                        </span>
+                        {isLive ? (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                            Live now
+                          </span>
+                        ) : !promotion.is_active && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                            Paused
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">{describePromotion(promotion, formatCurrency)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {describeSchedule(promotion)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => handleToggle(promotion)}>
+                        {promotion.is_active ? 'Pause' : 'Activate'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => openForm(promotion)} title="Edit promotion">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(promotion)} title="Delete promotion">
+                        <Trash2 className="h-4 w-4 text-red-600 dark:text-red-400" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <PromotionFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        storeId={storeId}
+        promotion={editingPromotion}
+        products={products}
+        onSaved={replacePromotion}
+      />
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -17,17 +17,30 @@ import {
   Layers,
   Activity,
   Zap,
-  AlertCircle
+  AlertCircle,
+  Percent,
+  ChevronRight,
+  ChevronDown,
+  Tag
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
 import { Card } from '../components/ui/Card';
 import { formatStockQuantity } from '../utils/formatUtils';
+import { sumRefundAmounts, refundToSaleEntry, applyRefundsToMetrics } from '../utils/refundUtils';
+import { buildVatReport } from '../utils/taxUtils';
+import { convertTransactionToBase, getCurrencySymbol } from '../utils/currencyUtils';
+import { getStockKeepingProducts, getProductFamilyId, rollUpVariantPerformance } from '../utils/variantUtils';
+import { getThisMonthRange, normalizeDateToYYYYMMDD } from '../utils/timezoneUtils';
 import { Button } from '../components/ui/Button';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { PerformanceDashboard } from '../components/ui/PerformanceDashboard';
+import { VatReport } from '../components/ui/VatReport';
+import { PromotionsReport } from '../components/ui/PromotionsReport';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
+import { useCurrency } from '../context/CurrencyContext';
+import { useLocale } from '../hooks/useLocale';
 import { useTheme } from '../context/ThemeContext';
 import { apiService } from '../services/api';
 import { 
@@ -49,6 +62,9 @@ import {
 export const Reports: React.FC = () => {
   const { products, dashboardMetrics, sales, loading } = useApp();
   const { user } = useAuth();
+  const { baseCurrency, rates } = useCurrency();
+  const { settings: localeSettings, formatCurrency, formatNumber, formatDate } = useLocale();
+  const currencySymbol = getCurrencySymbol(baseCurrency);
   const { isDark } = useTheme();
   
   // Tooltip styles based on theme
@@ -82,9 +98,18 @@ export const Reports: React.FC = () => {
   const [periodEndDate, setPeriodEndDate] = useState<Date | undefined>();
   const [analyticsData, setAnalyticsData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedReport, setSelectedReport] = useState<'sales' | 'inventory' | 'products' | 'performance'>('performance');
+  const [selectedReport, setSelectedReport] = useState<'sales' | 'inventory' | 'products' | 'performance' | 'vat' | 'promotions'>('performance');
   const [isExporting, setIsExporting] = useState(false);
-  const [allTransactions, setAllTransactions] = useState<any[]>([]);
+  const [loadedTransactions, setAllTransactions] = useState<any[]>([]);
+  const [refundsTotal, setRefundsTotal] = useState(0);
+  const [productGrouping, setProductGrouping] = useState<'parent' | 'variant'>('parent');
+  const [expandedParents, setExpandedParents] = useState<string[]>([]);
+
+  // Sales recorded in another currency are restated in the store's base currency
+  const allTransactions = useMemo(
+    () => loadedTransactions.map(transaction => convertTransactionToBase(transaction, baseCurrency, rates)),
+    [loadedTransactions, baseCurrency, rates]
+  );
 
   // Standardized date range calculation
   const getDateRange = (period: string, startDate?: Date, endDate?: Date) => {
@@ -164,7 +189,7 @@ export const Reports: React.FC = () => {
         };
 
         // Load all analytics data with standardized parameters
-        const [dashboardAnalytics, productPerformance, inventoryAnalytics, transactionsResponse] = await Promise.all([
+        const [dashboardAnalytics, productPerformance, inventoryAnalytics, transactionsResponse, periodRefunds, monthRefunds] = await Promise.all([
           apiService.getDashboardAnalytics(analyticsParams).catch(err => {
             console.error('Failed to load dashboard analytics:', err);
             return null;
@@ -186,6 +211,23 @@ export const Reports: React.FC = () => {
           }).catch(err => {
             console.error('Failed to load transactions:', err);
             return { transactions: [] };
+          }),
+          apiService.getRefunds({
+            store_id: user.store_id,
+            start_date: dateRange.startDate.split('T')[0],
+            end_date: dateRange.endDate.split('T')[0]
+          }).catch(err => {
+            console.error('Failed to load refunds:', err);
+            return [];
+          }),
+          // Monthly sales are netted against this month's refunds, whatever period is selected
+          apiService.getRefunds({
+            store_id: user.store_id,
+            start_date: normalizeDateToYYYYMMDD(getThisMonthRange().start),
+            end_date: normalizeDateToYYYYMMDD(new Date())
+          }).catch(err => {
+            console.error('Failed to load refunds for this month:', err);
+            return undefined;
           })
         ]);
 
@@ -196,9 +238,15 @@ export const Reports: React.FC = () => {
           transactions: transactionsResponse?.transactions?.length || 0
         });
 
-        setAllTransactions(transactionsResponse?.transactions || []);
+        // Refunds are negative revenue: net them out of the sales list and the backend totals
+        const refundTotal = sumRefundAmounts(periodRefunds);
+        setRefundsTotal(refundTotal);
+        setAllTransactions([
+          ...(transactionsResponse?.transactions || []),
+          ...periodRefunds.map(refundToSaleEntry)
+        ]);
         setAnalyticsData({ 
-          dashboardAnalytics, 
+          dashboardAnalytics: dashboardAnalytics ? applyRefundsToMetrics(dashboardAnalytics, periodRefunds, monthRefunds) : dashboardAnalytics, 
           productPerformance, 
           inventoryAnalytics 
         });
@@ -222,10 +270,7 @@ export const Reports: React.FC = () => {
   };
 
   const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('tr-TR', {
-      style: 'currency',
-      currency: 'TRY',
-    }).format(price);
+    return formatCurrency(price, baseCurrency);
   };
 
   const handleExportReport = async () => {
@@ -244,15 +289,16 @@ export const Reports: React.FC = () => {
       const reportData = [];
       
       // Add report metadata
-      const reportDate = new Date().toLocaleDateString('tr-TR');
+      const reportDate = formatDate(new Date());
       const periodText = selectedPeriod === 'custom' 
-        ? `${periodStartDate?.toLocaleDateString('tr-TR')} - ${periodEndDate?.toLocaleDateString('tr-TR')}`
+        ? `${(periodStartDate ? formatDate(periodStartDate) : '')} - ${(periodEndDate ? formatDate(periodEndDate) : '')}`
         : selectedPeriod;
       
       reportData.push(['Greep Market - Business Report']);
       reportData.push(['Generated on:', reportDate]);
       reportData.push(['Report Period:', periodText]);
       reportData.push(['Report Type:', selectedReport]);
+      reportData.push(['Currency:', baseCurrency]);
       reportData.push(['Note:', `Today's sales and monthly sales may appear similar if using same date range filter`]);
       reportData.push(['']); // Empty row
       
@@ -260,28 +306,29 @@ export const Reports: React.FC = () => {
       if (dashboardData) {
         reportData.push(['DASHBOARD METRICS']);
         reportData.push(['Metric', 'Value']);
-        reportData.push(['Total Sales', `₺${dashboardData.totalSales?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Total Sales', `${currencySymbol}${dashboardData.totalSales?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Refunds', `${currencySymbol}${refundsTotal.toFixed(2)}`]);
         reportData.push(['Total Transactions', dashboardData.totalTransactions?.toString() || '0']);
         reportData.push(['Total Products', dashboardData.totalProducts?.toString() || '0']);
         reportData.push(['Low Stock Items', dashboardData.lowStockItems?.toString() || '0']);
-        reportData.push(['Today Sales', `₺${dashboardData.todaySales?.toFixed(2) || '0.00'}`]);
-        reportData.push(['Monthly Sales', `₺${dashboardData.monthlySales?.toFixed(2) || '0.00'}`]);
-        reportData.push(['Average Transaction Value', `₺${dashboardData.averageTransactionValue?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Today Sales', `${currencySymbol}${dashboardData.todaySales?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Monthly Sales', `${currencySymbol}${dashboardData.monthlySales?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Average Transaction Value', `${currencySymbol}${dashboardData.averageTransactionValue?.toFixed(2) || '0.00'}`]);
         reportData.push(['Growth Rate', `${dashboardData.growthRate?.toFixed(2) || '0.00'}%`]);
         reportData.push(['Sales vs Yesterday', `${dashboardData.salesVsYesterday > 0 ? '+' : ''}${dashboardData.salesVsYesterday?.toFixed(2) || '0.00'}%`]);
         reportData.push(['Expenses vs Yesterday', `${dashboardData.expensesVsYesterday > 0 ? '+' : ''}${dashboardData.expensesVsYesterday?.toFixed(2) || '0.00'}%`]);
         reportData.push(['Profit vs Yesterday', `${dashboardData.profitVsYesterday > 0 ? '+' : ''}${dashboardData.profitVsYesterday?.toFixed(2) || '0.00'}%`]);
         reportData.push(['Transactions vs Yesterday', `${dashboardData.transactionsVsYesterday > 0 ? '+' : ''}${dashboardData.transactionsVsYesterday?.toFixed(2) || '0.00'}%`]);
-        reportData.push(['Total Expenses', `₺${dashboardData.totalExpenses?.toFixed(2) || '0.00'}`]);
-        reportData.push(['Monthly Expenses', `₺${dashboardData.monthlyExpenses?.toFixed(2) || '0.00'}`]);
-        reportData.push(['Net Profit', `₺${dashboardData.netProfit?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Total Expenses', `${currencySymbol}${dashboardData.totalExpenses?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Monthly Expenses', `${currencySymbol}${dashboardData.monthlyExpenses?.toFixed(2) || '0.00'}`]);
+        reportData.push(['Net Profit', `${currencySymbol}${dashboardData.netProfit?.toFixed(2) || '0.00'}`]);
         reportData.push(['']); // Empty row
       }
       
       // Add sales data by month
       if (dashboardData?.salesByMonth && dashboardData.salesByMonth.length > 0) {
         reportData.push(['SALES BY MONTH']);
-        reportData.push(['Month', 'Sales (₺)', 'Transactions']);
+        reportData.push(['Month', `Sales (${currencySymbol})`, 'Transactions']);
         dashboardData.salesByMonth.forEach((item: any) => {
           reportData.push([
             item.month || item.date || 'N/A',
@@ -295,7 +342,7 @@ export const Reports: React.FC = () => {
       // Add top products
       if (dashboardData?.topProducts && dashboardData.topProducts.length > 0) {
         reportData.push(['TOP PRODUCTS']);
-        reportData.push(['Product Name', 'Quantity Sold', 'Revenue (₺)']);
+        reportData.push(['Product Name', 'Quantity Sold', `Revenue (${currencySymbol})`]);
         dashboardData.topProducts.forEach((product: any) => {
           reportData.push([
             product.productName || 'Unknown Product',
@@ -309,10 +356,10 @@ export const Reports: React.FC = () => {
       // Add recent transactions
       if (dashboardData?.recentTransactions && dashboardData.recentTransactions.length > 0) {
         reportData.push(['RECENT TRANSACTIONS']);
-        reportData.push(['Date', 'Amount (₺)', 'Payment Method']);
+        reportData.push(['Date', `Amount (${currencySymbol})`, 'Payment Method']);
         dashboardData.recentTransactions.forEach((transaction: any) => {
           reportData.push([
-            new Date(transaction.createdAt).toLocaleDateString('tr-TR'),
+            formatDate(transaction.createdAt),
             transaction.totalAmount?.toFixed(2) || '0.00',
             transaction.paymentMethod || 'Cash'
           ]);
@@ -327,7 +374,7 @@ export const Reports: React.FC = () => {
         
         if (Array.isArray(products) && products.length > 0) {
           reportData.push(['PRODUCT PERFORMANCE']);
-          reportData.push(['Product Name', 'Category', 'Stock', 'Sold', 'Revenue (₺)']);
+          reportData.push(['Product Name', 'Category', 'Stock', 'Sold', `Revenue (${currencySymbol})`]);
           products.forEach((product: any) => {
             // Better category handling
             const category = product.category || product.categoryName || 'No Category';
@@ -344,6 +391,23 @@ export const Reports: React.FC = () => {
         }
       }
       
+      // Add VAT collected per month and rate
+      const vatRows = buildVatReport(allTransactions, 'month', localeSettings.timezone);
+      if (vatRows.length > 0) {
+        reportData.push(['VAT BY RATE']);
+        reportData.push(['Month', 'Rate (%)', `Net (${currencySymbol})`, `VAT (${currencySymbol})`, `Gross (${currencySymbol})`]);
+        vatRows.forEach(row => {
+          reportData.push([
+            row.period,
+            row.rate.toString(),
+            row.taxable_amount.toFixed(2),
+            row.tax_amount.toFixed(2),
+            row.gross_amount.toFixed(2)
+          ]);
+        });
+        reportData.push(['']); // Empty row
+      }
+      
       // Add inventory analytics if available
       if (inventoryData) {
         reportData.push(['INVENTORY ANALYTICS']);
@@ -352,7 +416,7 @@ export const Reports: React.FC = () => {
           reportData.push(['Low Stock Products', inventoryData.lowStockProducts.toString()]);
         }
         if (inventoryData.totalInventoryValue) {
-          reportData.push(['Total Inventory Value', `₺${inventoryData.totalInventoryValue.toFixed(2)}`]);
+          reportData.push(['Total Inventory Value', `${currencySymbol}${inventoryData.totalInventoryValue.toFixed(2)}`]);
         }
         if (inventoryData.fastMovingProducts) {
           reportData.push(['Fast Moving Products', inventoryData.fastMovingProducts.toString()]);
@@ -464,7 +528,7 @@ export const Reports: React.FC = () => {
         .reduce((sum, sale) => sum + sale.total_amount, 0);
       
       data.push({
-        date: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        date: date.toLocaleDateString(localeSettings.locale, { month: 'short', day: 'numeric' }),
         sales: totalSales,
         transactions: transactionCount,
         onlineSales: onlineSales,
@@ -629,15 +693,17 @@ export const Reports: React.FC = () => {
     quantity: product.quantitySold || 0,
   }));
 
+  const stockKeepingProducts = getStockKeepingProducts(products || []);
   const inventoryStatusData = [
-    { name: 'In Stock', value: (products || []).filter(p => (p?.stock_quantity || 0) > (p?.min_stock_level || 0)).length, color: '#22c55e' },
-    { name: 'Low Stock', value: (products || []).filter(p => (p?.stock_quantity || 0) <= (p?.min_stock_level || 0) && (p?.stock_quantity || 0) > 0).length, color: '#f59e0b' },
-    { name: 'Out of Stock', value: (products || []).filter(p => (p?.stock_quantity || 0) === 0).length, color: '#ef4444' },
+    { name: 'In Stock', value: stockKeepingProducts.filter(p => (p?.stock_quantity || 0) > (p?.min_stock_level || 0)).length, color: '#22c55e' },
+    { name: 'Low Stock', value: stockKeepingProducts.filter(p => (p?.stock_quantity || 0) <= (p?.min_stock_level || 0) && (p?.stock_quantity || 0) > 0).length, color: '#f59e0b' },
+    { name: 'Out of Stock', value: stockKeepingProducts.filter(p => (p?.stock_quantity || 0) === 0).length, color: '#ef4444' },
   ];
 
   // Comprehensive Inventory Calculations
   const calculateInventoryMetrics = () => {
-    const allProducts = products || [];
+    // Stock lives on variants, so parents with variants are left out of stock figures
+    const allProducts = stockKeepingProducts;
     
     // Total inventory value
     const totalInventoryValue = allProducts.reduce((sum, p) => {
@@ -694,7 +760,8 @@ export const Reports: React.FC = () => {
       }))
       .sort((a, b) => (b.price || 0) - (a.price || 0)); // Sort by price (most valuable first)
 
-    // Category breakdown with detailed metrics
+    // Category breakdown with detailed metrics; a parent's variants count as one product
+    const countedFamilies = new Set<string>();
     const categoryBreakdown = allProducts.reduce((acc: any, product) => {
       const category = product.category || 'Uncategorized';
       if (!acc[category]) {
@@ -709,7 +776,11 @@ export const Reports: React.FC = () => {
           inStockCount: 0
         };
       }
-      acc[category].productCount += 1;
+      const familyKey = `${category}:${getProductFamilyId(product)}`;
+      if (!countedFamilies.has(familyKey)) {
+        countedFamilies.add(familyKey);
+        acc[category].productCount += 1;
+      }
       const stockValue = (product.price || 0) * (product.stock_quantity || 0);
       acc[category].totalValue += stockValue;
       acc[category].totalQuantity += (product.stock_quantity || 0);
@@ -866,6 +937,9 @@ export const Reports: React.FC = () => {
 
     // Use filtered sales for all calculations
     const salesToUse = filteredSales.length > 0 ? filteredSales : allSales;
+
+    // Refund entries reduce amounts but are not transactions of their own
+    const countSales = (list: any[]) => list.filter(sale => !sale.is_refund).length;
     
     // Time-based breakdowns
     const today = salesToUse.filter(sale => {
@@ -933,7 +1007,7 @@ export const Reports: React.FC = () => {
       return {
         day,
         sales: daySales.reduce((sum, sale) => sum + (sale.total_amount || sale.totalAmount || sale.amount || 0), 0),
-        transactions: daySales.length
+        transactions: countSales(daySales)
       };
     });
 
@@ -946,7 +1020,7 @@ export const Reports: React.FC = () => {
       return {
         hour,
         sales: hourSales.reduce((sum, sale) => sum + (sale.total_amount || sale.totalAmount || sale.amount || 0), 0),
-        transactions: hourSales.length
+        transactions: countSales(hourSales)
       };
     });
 
@@ -1003,9 +1077,9 @@ export const Reports: React.FC = () => {
       .sort((a, b) => b.revenue - a.revenue);
 
     // Average transaction value over time
-    const avgTransactionToday = today.length > 0 ? todayAmount / today.length : 0;
-    const avgTransactionThisWeek = thisWeek.length > 0 ? thisWeekAmount / thisWeek.length : 0;
-    const avgTransactionThisMonth = thisMonth.length > 0 ? thisMonthAmount / thisMonth.length : 0;
+    const avgTransactionToday = countSales(today) > 0 ? todayAmount / countSales(today) : 0;
+    const avgTransactionThisWeek = countSales(thisWeek) > 0 ? thisWeekAmount / countSales(thisWeek) : 0;
+    const avgTransactionThisMonth = countSales(thisMonth) > 0 ? thisMonthAmount / countSales(thisMonth) : 0;
 
     // Peak sales time
     const peakHour = salesByHour.reduce((max, hour) => hour.sales > max.sales ? hour : max, salesByHour[0]);
@@ -1015,33 +1089,33 @@ export const Reports: React.FC = () => {
     const finalMetrics = {
       today: {
         amount: dashboardData?.todaySales || todayAmount,
-        transactions: dashboardData?.todayTransactions || today.length,
+        transactions: dashboardData?.todayTransactions || countSales(today),
         growth: todayGrowth,
         avgTransaction: dashboardData?.todayAvgTransaction || avgTransactionToday
       },
       yesterday: {
         amount: yesterdayAmount,
-        transactions: yesterdaySales.length
+        transactions: countSales(yesterdaySales)
       },
       thisWeek: {
         amount: thisWeekAmount,
-        transactions: thisWeek.length,
+        transactions: countSales(thisWeek),
         growth: weekGrowth,
         avgTransaction: avgTransactionThisWeek
       },
       lastWeek: {
         amount: lastWeekAmount,
-        transactions: lastWeek.length
+        transactions: countSales(lastWeek)
       },
       thisMonth: {
         amount: dashboardData?.monthlySales || thisMonthAmount,
-        transactions: dashboardData?.monthlyTransactions || thisMonth.length,
+        transactions: dashboardData?.monthlyTransactions || countSales(thisMonth),
         growth: monthGrowth,
         avgTransaction: dashboardData?.monthlyAvgTransaction || avgTransactionThisMonth
       },
       lastMonth: {
         amount: lastMonthAmount,
-        transactions: lastMonth.length
+        transactions: countSales(lastMonth)
       },
       salesByDayOfWeek,
       salesByHour,
@@ -1064,7 +1138,7 @@ export const Reports: React.FC = () => {
 
   // Comprehensive Product Performance Calculations
   const calculateProductPerformanceMetrics = () => {
-    const allProducts = products || [];
+    const allProducts = stockKeepingProducts;
     // Use transactions from API first, then fallback to context sales
     const allSales = allTransactions.length > 0 ? allTransactions : (sales || []);
     const productPerfData = analyticsData?.productPerformance;
@@ -1170,7 +1244,8 @@ export const Reports: React.FC = () => {
       .sort((a, b) => b.turnoverRate - a.turnoverRate)
       .slice(0, 20);
 
-    // Category performance
+    // Category performance; a parent's variants count as one product
+    const countedFamilies = new Set<string>();
     const categoryPerformance = allProducts.reduce((acc: any, product) => {
       const category = product.category || 'Uncategorized';
       const salesData = productSalesMap.get(product._id) || productSalesMap.get(product.name) || {
@@ -1191,7 +1266,11 @@ export const Reports: React.FC = () => {
         };
       }
 
-      acc[category].productCount += 1;
+      const familyKey = `${category}:${getProductFamilyId(product)}`;
+      if (!countedFamilies.has(familyKey)) {
+        countedFamilies.add(familyKey);
+        acc[category].productCount += 1;
+      }
       acc[category].totalRevenue += salesData.revenue;
       acc[category].totalQuantity += salesData.quantity;
       acc[category].totalTransactions += salesData.transactions;
@@ -1209,44 +1288,52 @@ export const Reports: React.FC = () => {
 
     // Merge with API data if available
     const apiBestPerformers = productPerfData?.topSellingProducts || productPerfData?.products || [];
-    const finalBestPerformers = apiBestPerformers.length > 0 
-      ? apiBestPerformers.map((p: any) => {
-          const product = allProducts.find((prod: any) => 
-            prod._id === p.productId || 
-            prod.name === p.productName || 
-            prod.name === p.product_name ||
-            prod._id === p._id
-          ) || { name: p.productName || p.product_name || p.name || 'Unknown', category: p.category || 'Uncategorized' };
-          
-          const revenue = p.revenue || 0;
-          const quantitySold = p.quantitySold || p.quantity || 0;
-          const stockQty = (product as any).stock_quantity || 0;
-          
-          return {
-            ...product,
-            salesData: {
-              revenue: revenue,
-              quantity: quantitySold,
-              transactions: p.transactions || 1,
-              lastSaleDate: p.lastSaleDate ? new Date(p.lastSaleDate) : undefined,
-              firstSaleDate: p.firstSaleDate ? new Date(p.firstSaleDate) : undefined
-            },
-            stockValue: ((product as any).price || 0) * stockQty,
-            turnoverRate: stockQty > 0 
-              ? (quantitySold / stockQty) * 100
-              : 0,
-            profitMargin: revenue > 0 && (product as any).cost_price
-              ? ((revenue - (quantitySold * ((product as any).cost_price || (product as any).price || 0))) / revenue) * 100
-              : 0,
-            avgPricePerSale: quantitySold > 0 ? revenue / quantitySold : ((product as any).price || 0),
-            revenuePerUnitStock: stockQty > 0 ? revenue / stockQty : 0
-          };
-        }).slice(0, 20)
-      : bestPerformers;
+    const apiPerformanceRows = apiBestPerformers.map((p: any) => {
+      const product = allProducts.find((prod: any) => 
+        prod._id === p.productId || 
+        prod.name === p.productName || 
+        prod.name === p.product_name ||
+        prod._id === p._id
+      ) || { name: p.productName || p.product_name || p.name || 'Unknown', category: p.category || 'Uncategorized' };
+      
+      const revenue = p.revenue || 0;
+      const quantitySold = p.quantitySold || p.quantity || 0;
+      const stockQty = (product as any).stock_quantity || 0;
+      
+      return {
+        ...product,
+        salesData: {
+          revenue: revenue,
+          quantity: quantitySold,
+          transactions: p.transactions || 1,
+          lastSaleDate: p.lastSaleDate ? new Date(p.lastSaleDate) : undefined,
+          firstSaleDate: p.firstSaleDate ? new Date(p.firstSaleDate) : undefined
+        },
+        stockValue: ((product as any).price || 0) * stockQty,
+        turnoverRate: stockQty > 0 
+          ? (quantitySold / stockQty) * 100
+          : 0,
+        profitMargin: revenue > 0 && (product as any).cost_price
+          ? ((revenue - (quantitySold * ((product as any).cost_price || (product as any).price || 0))) / revenue) * 100
+          : 0,
+        avgPricePerSale: quantitySold > 0 ? revenue / quantitySold : ((product as any).price || 0),
+        revenuePerUnitStock: stockQty > 0 ? revenue / stockQty : 0
+      };
+    });
+    const finalBestPerformers = apiBestPerformers.length > 0 ? apiPerformanceRows.slice(0, 20) : bestPerformers;
+
+    // Roll-up view: variant sales folded into their parent product
+    const bestPerformersByParent = rollUpVariantPerformance(
+      apiBestPerformers.length > 0 ? apiPerformanceRows : productPerformance.filter(p => p.salesData.revenue > 0),
+      products || []
+    )
+      .sort((a: any, b: any) => b.salesData.revenue - a.salesData.revenue)
+      .slice(0, 20);
 
     return {
       productPerformance,
       bestPerformers: finalBestPerformers,
+      bestPerformersByParent,
       worstPerformers,
       mostProfitable,
       fastestMoving,
@@ -1340,6 +1427,8 @@ export const Reports: React.FC = () => {
     { id: 'sales', label: 'Sales Report', icon: DollarSign },
     { id: 'inventory', label: 'Inventory Report', icon: Package },
     { id: 'products', label: 'Product Performance', icon: BarChart3 },
+    { id: 'vat', label: 'VAT Report', icon: Percent },
+    { id: 'promotions', label: 'Promotions', icon: Tag },
   ];
 
   if (loading || isLoading) {
@@ -1392,6 +1481,12 @@ export const Reports: React.FC = () => {
                     <div className="w-2 h-2 bg-green-500 rounded-full"></div>
                     <span>{formatPrice(totalSales)} total sales</span>
                   </span>
+                  {refundsTotal > 0 && (
+                    <span className="flex items-center space-x-1">
+                      <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+                      <span>{formatPrice(refundsTotal)} refunded</span>
+                    </span>
+                  )}
                   <span className="flex items-center space-x-1">
                     <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
                     <span>{totalTransactions} transactions</span>
@@ -1565,7 +1660,7 @@ export const Reports: React.FC = () => {
                     <LineChart data={salesData}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                       <XAxis dataKey="date" stroke="#9CA3AF" />
-                      <YAxis tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`} stroke="#9CA3AF" />
+                      <YAxis tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`} stroke="#9CA3AF" />
                       <Tooltip 
                         formatter={(value: number) => [formatPrice(value), 'Sales']}
                         {...getTooltipStyles()}
@@ -1721,7 +1816,7 @@ export const Reports: React.FC = () => {
                       tick={{ fill: isDark ? "#9CA3AF" : "#6b7280", fontSize: 12 }}
                     />
                     <YAxis 
-                      tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`} 
+                      tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`} 
                       stroke={isDark ? "#9CA3AF" : "#6b7280"}
                       tick={{ fill: isDark ? "#9CA3AF" : "#6b7280", fontSize: 12 }}
                     />
@@ -1767,7 +1862,7 @@ export const Reports: React.FC = () => {
                       label={{ value: 'Hour', position: 'insideBottom', offset: -5, fill: isDark ? "#9CA3AF" : "#6b7280" }}
                     />
                     <YAxis 
-                      tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`} 
+                      tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`} 
                       stroke={isDark ? "#9CA3AF" : "#6b7280"}
                       tick={{ fill: isDark ? "#9CA3AF" : "#6b7280", fontSize: 12 }}
                     />
@@ -1823,7 +1918,7 @@ export const Reports: React.FC = () => {
                         {formatPrice(product.revenue)}
                       </td>
                       <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
-                        {product.quantity.toLocaleString()}
+                        {formatNumber(product.quantity)}
                       </td>
                       <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
                         {product.transactions}
@@ -1866,7 +1961,7 @@ export const Reports: React.FC = () => {
                             {formatPrice(cat.revenue)}
                           </td>
                           <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
-                            {cat.quantity.toLocaleString()}
+                            {formatNumber(cat.quantity)}
                           </td>
                           <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
                             {cat.transactions}
@@ -2056,7 +2151,7 @@ export const Reports: React.FC = () => {
                           textAnchor="end"
                           height={80}
                         />
-                        <YAxis tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`} stroke="#9CA3AF" />
+                        <YAxis tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`} stroke="#9CA3AF" />
                         <Tooltip 
                           formatter={(value: number, name: string, props: any) => {
                             const cat = props.payload;
@@ -2106,7 +2201,7 @@ export const Reports: React.FC = () => {
                           <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">{cat.category}</td>
                           <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">{cat.productCount}</td>
                           <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
-                            {cat.totalQuantity.toLocaleString()}
+                            {formatNumber(cat.totalQuantity)}
                           </td>
                           <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">
                             {formatPrice(cat.totalValue)}
@@ -2406,7 +2501,7 @@ export const Reports: React.FC = () => {
                     <BarChart data={topProductsData}>
                       <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                       <XAxis dataKey="name" stroke="#9CA3AF" />
-                      <YAxis tickFormatter={(value) => `₺${(value / 1000).toFixed(0)}k`} stroke="#9CA3AF" />
+                      <YAxis tickFormatter={(value) => `${currencySymbol}${(value / 1000).toFixed(0)}k`} stroke="#9CA3AF" />
                       <Tooltip 
                         formatter={(value: number) => [formatPrice(value), 'Revenue']}
                         {...getTooltipStyles()}
@@ -2424,7 +2519,24 @@ export const Reports: React.FC = () => {
 
             {/* Best Performers Table */}
             <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Best Performing Products</h3>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Best Performing Products</h3>
+                <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-600 p-0.5 text-sm">
+                  {(['parent', 'variant'] as const).map(grouping => (
+                    <button
+                      key={grouping}
+                      onClick={() => setProductGrouping(grouping)}
+                      className={`px-3 py-1 rounded-md font-medium transition-colors ${
+                        productGrouping === grouping
+                          ? 'bg-primary-600 text-white'
+                          : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                      }`}
+                    >
+                      {grouping === 'parent' ? 'By product' : 'By variant'}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <div className="overflow-x-auto">
                 <table className="w-full">
                   <thead>
@@ -2439,18 +2551,48 @@ export const Reports: React.FC = () => {
                     </tr>
                   </thead>
                   <tbody>
-                    {productPerformanceMetrics.bestPerformers.slice(0, 20).map((product: any, index: number) => (
+                    {(productGrouping === 'parent'
+                      ? productPerformanceMetrics.bestPerformersByParent.reduce((rows: any[], product: any) => {
+                          // Expanded parents are followed by their variants
+                          rows.push(product);
+                          if (product.variants && expandedParents.includes(product._id)) {
+                            product.variants.forEach((variant: any) => rows.push({ ...variant, isVariantRow: true }));
+                          }
+                          return rows;
+                        }, [])
+                      : productPerformanceMetrics.bestPerformers.slice(0, 20)
+                    ).map((product: any, index: number) => (
                       <tr
-                        key={product._id || index}
-                        className="border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
+                        key={`${product._id || index}${product.isVariantRow ? '-variant' : ''}`}
+                        className={`border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
+                          product.isVariantRow ? 'bg-gray-50/60 dark:bg-gray-700/30' : ''
+                        }`}
                       >
-                        <td className="py-3 px-4 text-sm font-medium text-gray-900 dark:text-white">{product.name}</td>
+                        <td className={`py-3 px-4 text-sm font-medium text-gray-900 dark:text-white ${product.isVariantRow ? 'pl-10' : ''}`}>
+                          {product.variants && productGrouping === 'parent' ? (
+                            <button
+                              onClick={() => setExpandedParents(prev => prev.includes(product._id)
+                                ? prev.filter(id => id !== product._id)
+                                : [...prev, product._id])}
+                              className="inline-flex items-center text-left hover:text-primary-600 dark:hover:text-primary-400"
+                              title={expandedParents.includes(product._id) ? 'Hide variants' : 'Show variants'}
+                            >
+                              {expandedParents.includes(product._id)
+                                ? <ChevronDown className="h-4 w-4 mr-1 flex-shrink-0" />
+                                : <ChevronRight className="h-4 w-4 mr-1 flex-shrink-0" />}
+                              {product.name}
+                              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                                {product.variants.length} variant{product.variants.length === 1 ? '' : 's'}
+                              </span>
+                            </button>
+                          ) : product.name}
+                        </td>
                         <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">{product.category || 'N/A'}</td>
                         <td className="py-3 px-4 text-sm font-semibold text-gray-900 dark:text-white text-right">
                           {formatPrice(product.salesData.revenue)}
                         </td>
                         <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
-                          {product.salesData.quantity.toLocaleString()}
+                          {formatNumber(product.salesData.quantity)}
                         </td>
                         <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
                           {product.stock_quantity || 0}
@@ -2591,7 +2733,7 @@ export const Reports: React.FC = () => {
                           {formatPrice(cat.totalRevenue)}
                         </td>
                         <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
-                          {cat.totalQuantity.toLocaleString()}
+                          {formatNumber(cat.totalQuantity)}
                         </td>
                         <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400 text-right">
                           {formatPrice(cat.avgRevenuePerProduct)}
@@ -2608,6 +2750,29 @@ export const Reports: React.FC = () => {
           </>
         )}
 
+        {/* VAT Report */}
+        {selectedReport === 'vat' && (
+          <VatReport
+            transactions={allTransactions}
+            currency={baseCurrency}
+            periodLabel={selectedPeriod === 'custom'
+              ? `${(periodStartDate ? formatDate(periodStartDate) : '')} - ${(periodEndDate ? formatDate(periodEndDate) : '')}`
+              : selectedPeriod}
+          />
+        )}
+
+        {/* Promotions Report */}
+        {selectedReport === 'promotions' && (
+          <PromotionsReport
+            transactions={allTransactions}
+            products={products || []}
+            currency={baseCurrency}
+            periodLabel={selectedPeriod === 'custom'
+              ? `${(periodStartDate ? formatDate(periodStartDate) : '')} - ${(periodEndDate ? formatDate(periodEndDate) : '')}`
+              : selectedPeriod}
+          />
+        )}
+
       </div>
     </div>
   );
@@ -7,7 +7,7 @@ import { BackButton } from '../components/ui/BackButton';
 import { Breadcrumb } from '../components/ui/Breadcrumb';
 
 export const RiderManagementPage: React.FC = () => {
-  const { riders, addRider, updateRider, reconcileRider, giveCashToRider, loadRiders, isLoading } = useRiders();
+  const { riders, addRider, updateRider, giveCashToRider, loadRiderTransactions, loadRiders, isLoading } = useRiders();
 
   useEffect(() => {
     loadRiders();
@@ -28,8 +28,8 @@ export const RiderManagementPage: React.FC = () => {
           riders={riders}
           onAddRider={addRider}
           onUpdateRider={updateRider}
-          onReconcileRider={reconcileRider}
           onGiveCashToRider={giveCashToRider}
+          onLoadCashTransactions={loadRiderTransactions}
         />
 
         {/* Floating Action Button */}
@@ -19,7 +19,8 @@ import {
   Edit,
   Trash2,
   Coins,
-  Receipt
+  Receipt,
+  RotateCcw
 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { Button } from '../components/ui/Button';
@@ -31,8 +32,13 @@ import { BackButton } from '../components/ui/BackButton';
 import { Breadcrumb } from '../components/ui/Breadcrumb';
 import { EditTransactionModal } from '../components/ui/EditTransactionModal';
 import { PaymentMethodsDisplay } from '../components/ui/PaymentMethodsDisplay';
+import { RefundModal } from '../components/ui/RefundModal';
+import { Modal } from '../components/ui/Modal';
+import { Input } from '../components/ui/Input';
+import { BarcodeScanner } from '../components/ui/BarcodeScanner';
 import { useApp } from '../context/AppContext';
 import { useAuth } from '../context/AuthContext';
+import { useLocale } from '../hooks/useLocale';
 import { Transaction, PaymentMethod } from '../types';
 import { apiService } from '../services/api';
 
@@ -55,6 +61,7 @@ interface SoldProduct {
 export const SalesHistory: React.FC = () => {
   const { products, loading } = useApp();
   const { user } = useAuth();
+  const { formatCurrency } = useLocale();
   const [allSales, setAllSales] = useState<Transaction[]>([]); // All transactions for calculations
   const [sales, setSales] = useState<Transaction[]>([]); // Paginated transactions for display
   const [isLoadingSales, setIsLoadingSales] = useState(false);
@@ -94,6 +101,13 @@ export const SalesHistory: React.FC = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [deletingTransactionId, setDeletingTransactionId] = useState<string | null>(null);
 
+  // Returns / refunds
+  const [refundingTransaction, setRefundingTransaction] = useState<Transaction | null>(null);
+  const [isReceiptLookupOpen, setIsReceiptLookupOpen] = useState(false);
+  const [receiptLookupQuery, setReceiptLookupQuery] = useState('');
+  const [isLookingUpReceipt, setIsLookingUpReceipt] = useState(false);
+  const [isReceiptScannerOpen, setIsReceiptScannerOpen] = useState(false);
+
   // Note: Pagination is now handled server-side, so we don't need updatePaginatedSales
 
   // Load all sales data from server for calculations (loads all transactions)
@@ -257,6 +271,51 @@ export const SalesHistory: React.FC = () => {
     }
   };
 
+  const canRefund = !!user && ['admin', 'owner', 'manager'].includes(user.role);
+
+  const isRefundable = (transaction: Transaction) =>
+    transaction.status !== 'voided' &&
+    transaction.status !== 'cancelled' &&
+    transaction.payment_status !== 'refunded' &&
+    !transaction.sync_status;
+
+  const openRefund = (transaction: Transaction) => {
+    if (!isRefundable(transaction)) {
+      toast.error('This sale cannot be refunded');
+      return;
+    }
+    setRefundingTransaction(transaction);
+  };
+
+  // Find the original sale from a typed or scanned receipt number (full id or the short #xxxxxxxx form)
+  const lookupReceipt = async (code: string) => {
+    const receiptNumber = code.trim().replace(/^#/, '');
+    if (!receiptNumber) {
+      toast.error('Enter or scan a receipt number');
+      return;
+    }
+
+    setIsLookingUpReceipt(true);
+    try {
+      let transaction = allSales.find(t => t._id === receiptNumber || t._id?.endsWith(receiptNumber));
+      if (!transaction) {
+        transaction = await apiService.getTransaction(receiptNumber);
+      }
+      if (!transaction) {
+        toast.error('No sale found for that receipt');
+        return;
+      }
+      setIsReceiptLookupOpen(false);
+      setReceiptLookupQuery('');
+      openRefund(transaction);
+    } catch (error) {
+      console.error('Failed to look up receipt:', error);
+      toast.error('No sale found for that receipt');
+    } finally {
+      setIsLookingUpReceipt(false);
+    }
+  };
+
   // Process sales data to extract sold products (use allSales for calculations)
   const soldProducts = useMemo(() => {
     
@@ -751,6 +810,16 @@ export const SalesHistory: React.FC = () => {
                 <RefreshCw className="h-4 w-4" />
                 <span>Refresh</span>
               </Button>
+              {canRefund && (
+                <Button
+                  variant="outline"
+                  onClick={() => setIsReceiptLookupOpen(true)}
+                  className="flex items-center space-x-2"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Return</span>
+                </Button>
+              )}
               <Button
                 variant="outline"
                 onClick={() => setShowFilters(!showFilters)}
@@ -1176,7 +1245,26 @@ export const SalesHistory: React.FC = () => {
                         </div>
                         <PaymentBadge method={primaryPayment} />
                         <span className="text-xs text-gray-400 dark:text-gray-500 ml-auto font-mono">#{transaction._id?.slice(-8)}</span>
+                        {(transaction.refunded_amount || 0) > 0 && (
+                          <span className="ml-4 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-xs font-bold px-2 py-0.5 rounded">
+                            {transaction.payment_status === 'refunded' ? 'Refunded' : `-${formatCurrency(transaction.refunded_amount || 0)} refunded`}
+                          </span>
+                        )}
                         <span className="ml-4 bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 font-bold text-base px-3 py-1 rounded-xl shadow-sm">₺{transaction.total_amount.toLocaleString()}</span>
+                        {/* Return button - managers and up */}
+                        {canRefund && isRefundable(transaction) && (
+                          <button
+                            title="Return Items"
+                            aria-label="Return Items"
+                            className="ml-4 p-1.5 text-amber-600 hover:text-amber-800 hover:bg-amber-100 dark:text-amber-400 dark:hover:text-amber-300 dark:hover:bg-amber-900/20 rounded-md transition-colors"
+                            onClick={e => {
+                              e.stopPropagation();
+                              openRefund(transaction);
+                            }}
+                          >
+                            <RotateCcw className="h-5 w-5" />
+                          </button>
+                        )}
                         {/* Edit/Delete buttons - only for admins */}
                         {isAdmin && (
                           <span className="ml-4 flex items-center gap-2">
@@ -1410,6 +1498,56 @@ export const SalesHistory: React.FC = () => {
         onSave={handleSaveTransaction}
       />
       <ReceiptModalInline open={receiptModal.open} onClose={() => setReceiptModal({ open: false, transaction: null })} transaction={receiptModal.transaction} />
+
+      {/* Refund Modal */}
+      <RefundModal
+        isOpen={!!refundingTransaction}
+        onClose={() => setRefundingTransaction(null)}
+        transaction={refundingTransaction}
+        onRefunded={() => loadSales()}
+      />
+
+      {/* Receipt Lookup Modal */}
+      <Modal
+        isOpen={isReceiptLookupOpen}
+        onClose={() => setIsReceiptLookupOpen(false)}
+        title="Return by Receipt"
+        size="md"
+      >
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            lookupReceipt(receiptLookupQuery);
+          }}
+        >
+          <Input
+            label="Receipt number"
+            value={receiptLookupQuery}
+            onChange={(e) => setReceiptLookupQuery(e.target.value)}
+            placeholder="e.g. #1a2b3c4d"
+            autoFocus
+          />
+          <div className="flex justify-between space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => setIsReceiptScannerOpen(true)}>
+              Scan Receipt
+            </Button>
+            <Button type="submit" loading={isLookingUpReceipt} disabled={isLookingUpReceipt}>
+              Find Sale
+            </Button>
+          </div>
+        </form>
+      </Modal>
+
+      <BarcodeScanner
+        isOpen={isReceiptScannerOpen}
+        onClose={() => setIsReceiptScannerOpen(false)}
+        onScan={(code) => {
+          setIsReceiptScannerOpen(false);
+          lookupReceipt(code);
+        }}
+        onError={(error) => toast.error(`Scanner error: ${error}`)}
+      />
     </div>
   );
 };
@@ -11,16 +11,29 @@ import {
   Sun,
   Moon,
   Monitor,
-  ShoppingBag
+  ShoppingBag,
+  Printer,
+  ArrowLeftRight
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useStore } from '../context/StoreContext';
 import { useTheme } from '../context/ThemeContext';
+import { useApp } from '../context/AppContext';
 import { apiService } from '../services/api';
-import { User } from '../types';
+import { User, ReceiptTemplate, TaxMode, TaxClass, StoreDateFormat, DeliveryZone, DeliveryZoneMode } from '../types';
 import { UserProfileModal } from '../components/ui/UserProfileModal';
 import { UserEditModal } from '../components/ui/UserEditModal';
 import { AuditLogs } from '../components/ui/AuditLogs';
+import { ReceiptTemplateEditor } from '../components/ui/ReceiptTemplateEditor';
+import { TaxSettingsEditor } from '../components/ui/TaxSettingsEditor';
+import { DeliveryZonesEditor } from '../components/ui/DeliveryZonesEditor';
+import { ExchangeRatesManager } from '../components/ui/ExchangeRatesManager';
+import { DEFAULT_HELD_CART_EXPIRY_HOURS } from '../utils/heldCartUtils';
+import { DEFAULT_EXPIRY_ALERT_DAYS } from '../utils/batchUtils';
+import { DEFAULT_RECEIPT_TEMPLATE } from '../utils/escposEncoder';
+import { DEFAULT_TAX_RATE } from '../utils/taxUtils';
+import { CURRENCY_OPTIONS } from '../utils/currencyUtils';
+import { DEFAULT_LOCALE_SETTINGS, DATE_FORMAT_OPTIONS, NUMBER_LOCALE_OPTIONS } from '../utils/localeUtils';
 import toast from 'react-hot-toast';
 
 interface NewUser {
@@ -38,14 +51,32 @@ interface StoreSettings {
   email: string;
   currency: string;
   timezone: string;
+  locale?: string;
+  date_format?: StoreDateFormat;
   tax_rate: number;
   low_stock_threshold: number;
+  held_cart_expiry_hours?: number;
+  expiry_alert_days?: number;
+  scale_price_prefixes?: string;
+  loyalty_points_per_unit?: number;
+  loyalty_point_value?: number;
+  loyalty_min_redeem_points?: number;
+  cash_movement_pin_threshold?: number;
+  delivery_zone_mode?: DeliveryZoneMode;
+  delivery_zones?: DeliveryZone[];
+  latitude?: number;
+  longitude?: number;
+  receipt_template?: ReceiptTemplate;
+  tax_mode?: TaxMode;
+  tax_classes?: TaxClass[];
+  category_tax_classes?: Record<string, string>;
 }
 
 export const Settings: React.FC = () => {
   const { user: currentUser } = useAuth();
   const { refreshStores } = useStore();
   const { theme, setTheme, isDark } = useTheme();
+  const { products } = useApp();
   const [activeTab, setActiveTab] = useState('profile');
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -213,6 +244,8 @@ export const Settings: React.FC = () => {
       { id: 'users', label: 'User Management', icon: Users, roles: ['admin', 'owner', 'manager'] },
       { id: 'customer-orders', label: 'Customer Orders', icon: ShoppingBag, roles: ['admin', 'owner', 'manager'] },
       { id: 'store', label: 'Store Settings', icon: Database, roles: ['admin', 'owner'] },
+      { id: 'receipt', label: 'Receipt', icon: Printer, roles: ['admin', 'owner'] },
+      { id: 'currency', label: 'Exchange Rates', icon: ArrowLeftRight, roles: ['admin', 'owner', 'manager'] },
       { id: 'theme', label: 'Theme & Appearance', icon: Sun, roles: ['admin', 'owner', 'manager', 'cashier'] },
       { id: 'audit', label: 'Audit Logs', icon: Shield, roles: ['admin', 'owner', 'manager'] }
     ];
@@ -224,6 +257,9 @@ export const Settings: React.FC = () => {
 
   const tabs = getAvailableTabs();
 
+  // Raw category names, as stored on products, for tax class assignment
+  const productCategories = Array.from(new Set((products || []).map(product => product.category).filter(Boolean))).sort();
+
   const handleProfileUpdated = (updatedUser: User) => {
     // Update the current user in the auth context
     // This will be handled by the AuthContext when we implement it
@@ -648,9 +684,58 @@ export const Settings: React.FC = () => {
                 title="Select your store currency"
               >
                 <option value="">Select Currency</option>
-                <option value="TRY">Turkish Lira (₺)</option>
-                <option value="USD">US Dollar ($)</option>
-                <option value="EUR">Euro (€)</option>
+                {CURRENCY_OPTIONS.map(option => (
+                  <option key={option.code} value={option.code}>{option.label} ({option.symbol})</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Base currency for prices and reports</p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Timezone</label>
+              <input
+                type="text"
+                list="store-timezones"
+                value={storeSettings?.timezone || ''}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, timezone: e.target.value} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="IANA timezone used for dates and daily totals"
+                placeholder={DEFAULT_LOCALE_SETTINGS.timezone}
+              />
+              <datalist id="store-timezones">
+                <option value="Europe/Nicosia" />
+                <option value="Europe/Istanbul" />
+                <option value="Africa/Lagos" />
+                <option value="Europe/London" />
+                <option value="UTC" />
+              </datalist>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Number Format</label>
+              <select
+                value={storeSettings?.locale || DEFAULT_LOCALE_SETTINGS.locale}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, locale: e.target.value} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="How numbers and amounts are written"
+              >
+                {NUMBER_LOCALE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Date Format</label>
+              <select
+                value={storeSettings?.date_format || DEFAULT_LOCALE_SETTINGS.date_format}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, date_format: e.target.value as StoreDateFormat} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="How dates are written"
+              >
+                {DATE_FORMAT_OPTIONS.map(format => (
+                  <option key={format} value={format}>{format}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -680,6 +765,140 @@ export const Settings: React.FC = () => {
             </div>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Held Cart Expiry (hours)</label>
+              <input
+                type="number"
+                min={0}
+                value={storeSettings?.held_cart_expiry_hours ?? DEFAULT_HELD_CART_EXPIRY_HOURS}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, held_cart_expiry_hours: Number(e.target.value)} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Hours before a parked POS cart is discarded (0 keeps them until recalled)"
+                placeholder=""
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Expiry Alert (days)</label>
+              <input
+                type="number"
+                min={0}
+                value={storeSettings?.expiry_alert_days ?? DEFAULT_EXPIRY_ALERT_DAYS}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, expiry_alert_days: Number(e.target.value)} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Notify when a batch is this many days from its expiry date"
+                placeholder=""
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Price-embedded Scale Prefixes</label>
+              <input
+                type="text"
+                value={storeSettings?.scale_price_prefixes ?? ''}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, scale_price_prefixes: e.target.value} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Scale label prefixes (20-29) that carry a price; all other scale labels carry the weight in grams"
+                placeholder="e.g. 22, 23"
+              />
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Loyalty</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Customers attached to a sale earn points on what they pay and can spend them at the till. Set both the earn rate and the point value to turn loyalty on.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Points per 1 Unit Spent</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={storeSettings?.loyalty_points_per_unit ?? 0}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, loyalty_points_per_unit: Number(e.target.value)} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Points earned for each unit of base currency paid (0 turns loyalty off)"
+                placeholder=""
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Point Value</label>
+              <input
+                type="number"
+                min={0}
+                step="0.001"
+                value={storeSettings?.loyalty_point_value ?? 0}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, loyalty_point_value: Number(e.target.value)} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Base currency value of one point when redeemed"
+                placeholder=""
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Minimum Points to Redeem</label>
+              <input
+                type="number"
+                min={0}
+                step="1"
+                value={storeSettings?.loyalty_min_redeem_points ?? 0}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, loyalty_min_redeem_points: Number(e.target.value)} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Balance a customer needs before points can be spent"
+                placeholder=""
+              />
+            </div>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Cash Drawer</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Cashiers can pay cash into or out of the till from the POS. Larger amounts need a manager to enter their PIN.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Manager PIN Above</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={storeSettings?.cash_movement_pin_threshold ?? 0}
+                onChange={(e) => setStoreSettings(prev => prev ? {...prev, cash_movement_pin_threshold: Number(e.target.value)} : null)}
+                className="mt-1 block w-full border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-md shadow-sm focus:border-gray-400 dark:focus:border-gray-500 transition-colors duration-200"
+                title="Paid-ins and paid-outs above this amount need a manager PIN (0 turns it off)"
+                placeholder=""
+              />
+            </div>
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Delivery Zones</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Delivery fees are added automatically in the online catalog and for delivery orders at the POS.
+            </p>
+            <DeliveryZonesEditor
+              mode={storeSettings.delivery_zone_mode || 'area'}
+              zones={storeSettings.delivery_zones || []}
+              latitude={storeSettings.latitude}
+              longitude={storeSettings.longitude}
+              onChange={(updates) => setStoreSettings(prev => prev ? {...prev, ...updates} : null)}
+            />
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Tax / VAT</h3>
+            <TaxSettingsEditor
+              defaultRate={storeSettings.tax_rate ?? DEFAULT_TAX_RATE}
+              taxMode={storeSettings.tax_mode || 'inclusive'}
+              taxClasses={storeSettings.tax_classes || []}
+              categoryTaxClasses={storeSettings.category_tax_classes || {}}
+              categories={productCategories}
+              onChange={(updates) => setStoreSettings(prev => prev ? {...prev, ...updates} : null)}
+            />
+          </div>
+
           <div className="flex justify-end">
             <button
               type="submit"
@@ -698,6 +917,70 @@ export const Settings: React.FC = () => {
     </div>
   );
 
+  const renderReceiptSettings = () => (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Receipt</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Customize printed receipts and connect a thermal printer</p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 transition-colors duration-300">
+        {storeSettingsLoading && !storeSettings ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            <span className="ml-2 text-gray-600 dark:text-gray-400">Loading store settings...</span>
+          </div>
+        ) : !storeSettings ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="text-center">
+              <p className="text-gray-500 dark:text-gray-400 mb-4">Failed to load store settings</p>
+              <button
+                onClick={loadStoreSettings}
+                className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700"
+              >
+                Retry
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={saveStoreSettings} className="space-y-6">
+            <ReceiptTemplateEditor
+              template={{ ...DEFAULT_RECEIPT_TEMPLATE, ...storeSettings.receipt_template }}
+              onChange={(template) => setStoreSettings(prev => prev ? {...prev, receipt_template: template} : null)}
+              store={{ name: storeSettings.name, address: storeSettings.address, phone: storeSettings.phone }}
+            />
+
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={storeSettingsLoading}
+                className="bg-primary-600 text-white px-4 py-2 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+              >
+                {storeSettingsLoading && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                )}
+                <span>{storeSettingsLoading ? 'Saving...' : 'Save Receipt'}</span>
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderExchangeRates = () => (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Exchange Rates</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Rates used to take payments in other currencies</p>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 transition-colors duration-300">
+        <ExchangeRatesManager />
+      </div>
+    </div>
+  );
+
   const renderTabContent = () => {
     switch (activeTab) {
       case 'profile':
@@ -708,6 +991,10 @@ export const Settings: React.FC = () => {
         return renderCustomerOrders();
       case 'store':
         return renderStoreSettings();
+      case 'receipt':
+        return renderReceiptSettings();
+      case 'currency':
+        return renderExchangeRates();
       case 'theme':
         return renderThemeSettings();
       case 'audit':
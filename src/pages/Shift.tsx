@@ -0,0 +1,344 @@
+import React, { useState } from 'react';
+import { Banknote, ArrowUpCircle, ArrowDownCircle, FileText, Lock, RefreshCw, Clock, PiggyBank } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { DenominationCount } from '../components/ui/DenominationCount';
+import { ShiftReport } from '../components/ui/ShiftReport';
+import { CashMovementModal } from '../components/ui/CashMovementModal';
+import { useShift } from '../context/ShiftContext';
+import { useLocale } from '../hooks/useLocale';
+import { useShiftSummary } from '../hooks/useShiftSummary';
+import { PaymentMethod, Shift as ShiftRecord, ShiftCashMovement } from '../types';
+import { CASH_MOVEMENT_LABELS, PAYMENT_METHOD_LABELS, ShiftSummary, calculateVariance, countDenominations, describeVariance } from '../utils/shiftUtils';
+
+export const Shift: React.FC = () => {
+  const { currentShift, isLoading, loadCurrentShift, openShift, closeShift } = useShift();
+  const { summary, isLoading: isSummaryLoading, hasError: summaryFailed, reload } = useShiftSummary(currentShift);
+  const { formatCurrency, formatDateTime } = useLocale();
+
+  const [openingCounts, setOpeningCounts] = useState<Record<string, number>>({});
+  const [isOpening, setIsOpening] = useState(false);
+
+  const [movementType, setMovementType] = useState<ShiftCashMovement['type'] | null>(null);
+
+  const [isXReportOpen, setIsXReportOpen] = useState(false);
+  const [isCloseOpen, setIsCloseOpen] = useState(false);
+  const [closingCounts, setClosingCounts] = useState<Record<string, number>>({});
+  const [closingNotes, setClosingNotes] = useState('');
+  const [isClosing, setIsClosing] = useState(false);
+  const [zReport, setZReport] = useState<{ shift: ShiftRecord; summary: ShiftSummary } | null>(null);
+
+  const countedCash = countDenominations(closingCounts);
+  const variance = calculateVariance(countedCash, summary.expected_cash);
+
+  const handleOpen = async () => {
+    setIsOpening(true);
+    try {
+      await openShift(countDenominations(openingCounts), openingCounts);
+      setOpeningCounts({});
+    } catch {
+      // Toast already shown by the context
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const startClose = () => {
+    setClosingCounts({});
+    setClosingNotes('');
+    setIsCloseOpen(true);
+    reload();
+  };
+
+  const handleClose = async () => {
+    if (summaryFailed) {
+      toast.error('Shift totals did not load. Refresh before closing.');
+      return;
+    }
+    if (variance !== 0 && !closingNotes.trim()) {
+      toast.error('Add a note explaining the variance');
+      return;
+    }
+
+    setIsClosing(true);
+    try {
+      const closed = await closeShift({
+        denomination_counts: closingCounts,
+        counted_cash: countedCash,
+        closing_notes: closingNotes.trim() || undefined,
+      });
+      setZReport({ shift: closed, summary });
+      setIsCloseOpen(false);
+    } catch {
+      // Toast already shown by the context
+    } finally {
+      setIsClosing(false);
+    }
+  };
+
+  const varianceClass = (value: number) => {
+    const label = describeVariance(value);
+    if (label === 'Short') return 'text-red-600 dark:text-red-400';
+    if (label === 'Over') return 'text-amber-600 dark:text-amber-400';
+    return 'text-green-600 dark:text-green-400';
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <Banknote className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">Till Shift</h1>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {currentShift ? `Open since ${formatDateTime(currentShift.opened_at)}` : 'Count your float to start selling'}
+                  </p>
+                </div>
+              </div>
+              {currentShift && (
+                <div className="flex flex-wrap gap-3 items-center">
+                  <Button onClick={() => { loadCurrentShift(); reload(); }} variant="outline" size="md" disabled={isLoading || isSummaryLoading}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${isSummaryLoading ? 'animate-spin' : ''}`} />
+                    Refresh
+                  </Button>
+                  <Button onClick={() => setIsXReportOpen(true)} variant="outline" size="md">
+                    <FileText className="h-4 w-4 mr-2" />
+                    X-Report
+                  </Button>
+                  <Button onClick={startClose} variant="danger" size="md">
+                    <Lock className="h-4 w-4 mr-2" />
+                    Close Shift
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isLoading && !currentShift ? (
+          <Card className="p-12">
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="lg" className="mr-4" />
+              <span className="text-gray-500 dark:text-gray-400 text-lg">Loading shift...</span>
+            </div>
+          </Card>
+        ) : !currentShift ? (
+          <Card>
+            <div className="flex items-center gap-2 mb-4">
+              <PiggyBank className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Open a Shift</h3>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Count the notes and coins in the drawer. Sales, paid-ins, paid-outs and drops are tracked against this float until you close the shift.
+            </p>
+            <DenominationCount counts={openingCounts} onChange={setOpeningCounts} disabled={isOpening} />
+            <div className="flex justify-end mt-4">
+              <Button onClick={handleOpen} loading={isOpening} disabled={isOpening}>
+                Open Shift with {formatCurrency(countDenominations(openingCounts))}
+              </Button>
+            </div>
+          </Card>
+        ) : (
+          <>
+            {/* Stats */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {[
+                { label: 'Opening Float', value: formatCurrency(currentShift.opening_float), icon: PiggyBank },
+                { label: 'Sales', value: formatCurrency(summary.gross_sales), detail: `${summary.sales_count} transactions`, icon: Banknote },
+                { label: 'Paid Out & Dropped', value: formatCurrency(summary.payouts + summary.drops), detail: summary.paid_in > 0 ? `${formatCurrency(summary.paid_in)} paid in` : undefined, icon: ArrowUpCircle },
+                { label: 'Expected in Drawer', value: formatCurrency(summary.expected_cash), icon: Clock },
+              ].map(stat => {
+                const Icon = stat.icon;
+                return (
+                  <Card key={stat.label}>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <p className="text-sm text-gray-600 dark:text-gray-400">{stat.label}</p>
+                        <p className="text-2xl font-bold text-gray-900 dark:text-white mt-1">{stat.value}</p>
+                        {stat.detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{stat.detail}</p>}
+                      </div>
+                      <Icon className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Sales by payment method */}
+              <Card>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Sales by Payment Method</h3>
+                {Object.keys(summary.sales_by_method).length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No sales on this shift yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {(Object.keys(summary.sales_by_method) as PaymentMethod['type'][]).map(type => (
+                      <div key={type} className="flex justify-between text-sm">
+                        <span className="text-gray-600 dark:text-gray-400">{PAYMENT_METHOD_LABELS[type] || type}</span>
+                        <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(summary.sales_by_method[type])}</span>
+                      </div>
+                    ))}
+                    {summary.cash_refunds > 0 && (
+                      <div className="flex justify-between text-sm border-t border-gray-200 dark:border-gray-700 pt-2">
+                        <span className="text-gray-600 dark:text-gray-400">Cash Refunds</span>
+                        <span className="font-semibold text-red-600 dark:text-red-400">-{formatCurrency(summary.cash_refunds)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </Card>
+
+              {/* Cash movements */}
+              <Card>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Cash In & Out</h3>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={() => setMovementType('paid_in')}>
+                      <ArrowDownCircle className="h-4 w-4 mr-2" />
+                      Paid In
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setMovementType('payout')}>
+                      <ArrowUpCircle className="h-4 w-4 mr-2" />
+                      Paid Out
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setMovementType('drop')}>
+                      <ArrowDownCircle className="h-4 w-4 mr-2" />
+                      Drop
+                    </Button>
+                  </div>
+                </div>
+                {(currentShift.movements || []).length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No cash has been paid in or out.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {currentShift.movements.map(movement => (
+                      <div key={movement._id} className="flex justify-between items-start text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900 dark:text-white">
+                            {CASH_MOVEMENT_LABELS[movement.type]}{movement.reason ? ` – ${movement.reason}` : ''}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {formatDateTime(movement.created_at)}
+                            {movement.approved_by_name && ` · Approved by ${movement.approved_by_name}`}
+                          </p>
+                        </div>
+                        <span className={`font-semibold ${movement.type === 'paid_in' ? 'text-green-600 dark:text-green-400' : 'text-gray-900 dark:text-white'}`}>
+                          {movement.type === 'paid_in' ? '+' : '-'}{formatCurrency(movement.amount)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+
+      <CashMovementModal
+        isOpen={movementType !== null}
+        onClose={() => { setMovementType(null); reload(); }}
+        initialType={movementType || undefined}
+      />
+
+      <Modal
+        isOpen={isCloseOpen}
+        onClose={() => setIsCloseOpen(false)}
+        title="Close Shift"
+        size="lg"
+        headerIcon={<Lock className="h-5 w-5" />}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Count everything left in the drawer, including the float.
+          </p>
+          <DenominationCount counts={closingCounts} onChange={setClosingCounts} disabled={isClosing} />
+          {summaryFailed && (
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 p-3">
+              <p className="text-sm text-red-700 dark:text-red-300">Shift totals did not load, so the expected cash is not known yet.</p>
+              <Button variant="outline" size="sm" onClick={reload} disabled={isSummaryLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isSummaryLoading ? 'animate-spin' : ''}`} />
+                Retry
+              </Button>
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
+            <div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Expected</p>
+              <p className="text-lg font-semibold text-gray-900 dark:text-white">{formatCurrency(summary.expected_cash)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">{describeVariance(variance)}</p>
+              <p className={`text-lg font-semibold ${varianceClass(variance)}`}>{formatCurrency(variance)}</p>
+            </div>
+          </div>
+          {Object.keys(summary.foreign_cash).length > 0 && (
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              Count foreign notes separately and leave them out of the drawer count:{' '}
+              {Object.keys(summary.foreign_cash).map(currency => formatCurrency(summary.foreign_cash[currency], currency)).join(', ')}
+            </p>
+          )}
+          <Input
+            label={variance !== 0 ? 'Variance Notes' : 'Notes (Optional)'}
+            value={closingNotes}
+            onChange={(e) => setClosingNotes(e.target.value)}
+            placeholder="e.g. Gave change from own pocket"
+            helperText={variance !== 0 ? 'A manager reviews every over or short shift' : undefined}
+          />
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <Button variant="outline" onClick={() => setIsCloseOpen(false)} disabled={isClosing}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleClose} loading={isClosing} disabled={isClosing || isSummaryLoading || summaryFailed}>
+              Close Shift & Print Z-Report
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={isXReportOpen && !!currentShift}
+        onClose={() => setIsXReportOpen(false)}
+        title="X-Report"
+        size="md"
+        headerIcon={<FileText className="h-5 w-5" />}
+      >
+        {currentShift && (
+          <ShiftReport kind="X" shift={currentShift} summary={summary} onClose={() => setIsXReportOpen(false)} />
+        )}
+      </Modal>
+
+      <Modal
+        isOpen={zReport !== null}
+        onClose={() => setZReport(null)}
+        title="Z-Report"
+        size="md"
+        headerIcon={<FileText className="h-5 w-5" />}
+      >
+        {zReport && (
+          <ShiftReport kind="Z" shift={zReport.shift} summary={zReport.summary} onClose={() => setZReport(null)} />
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,467 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { ClipboardCheck, Plus, RefreshCw, Scan, Save, Eye, XCircle, Play } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Input } from '../components/ui/Input';
+import { Modal } from '../components/ui/Modal';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { BarcodeScanner } from '../components/ui/BarcodeScanner';
+import { StockTakeReviewModal } from '../components/ui/StockTakeReviewModal';
+import { useApp } from '../context/AppContext';
+import { useStore } from '../context/StoreContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { Product, StockTake as StockTakeSession, StockTakeLine, StockTakeStatus } from '../types';
+import { formatStockQuantity } from '../utils/formatUtils';
+import {
+  STOCK_TAKE_STATUS_LABELS,
+  buildStockTakeLines,
+  calculateVarianceReport,
+  findLineByCode,
+  isCounted,
+  recordCount,
+} from '../utils/stockTakeUtils';
+
+const statusClasses: Record<StockTakeStatus, string> = {
+  in_progress: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  completed: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const StockTake: React.FC = () => {
+  const { currentStore } = useStore();
+  const { refreshDashboard } = useApp();
+  const { formatDateTime, formatCurrency } = useLocale();
+  const [sessions, setSessions] = useState<StockTakeSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeSession, setActiveSession] = useState<StockTakeSession | null>(null);
+  const [lines, setLines] = useState<StockTakeLine[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [code, setCode] = useState('');
+  const [lineFilter, setLineFilter] = useState('');
+  const [showUncountedOnly, setShowUncountedOnly] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isNewOpen, setIsNewOpen] = useState(false);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [category, setCategory] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [reviewSession, setReviewSession] = useState<StockTakeSession | null>(null);
+
+  const storeId = currentStore?._id;
+
+  const loadSessions = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      setSessions(await apiService.getStockTakes({ store_id: storeId }));
+    } catch (error) {
+      console.error('Failed to load stock-takes:', error);
+      toast.error('Failed to load stock-takes');
+      setSessions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  // A different branch has its own sessions
+  useEffect(() => {
+    setActiveSession(null);
+    setLines([]);
+  }, [storeId]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map(product => product.category).filter(Boolean))).sort(),
+    [products]
+  );
+
+  const replaceSession = (updated: StockTakeSession) => {
+    setSessions(prev => {
+      const exists = prev.some(entry => entry._id === updated._id);
+      return exists ? prev.map(entry => (entry._id === updated._id ? updated : entry)) : [updated, ...prev];
+    });
+  };
+
+  const openNewSession = async () => {
+    if (!storeId) return;
+    setCategory('');
+    setIsNewOpen(true);
+    try {
+      const response = await apiService.getProducts({ store_id: storeId });
+      setProducts(response.products);
+    } catch (error) {
+      console.error('Failed to load products:', error);
+      toast.error('Failed to load products');
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!storeId) return;
+    const sessionLines = buildStockTakeLines(products, category || undefined);
+    if (sessionLines.length === 0) {
+      toast.error('No products to count');
+      return;
+    }
+    setIsCreating(true);
+    try {
+      const created = await apiService.createStockTake({
+        store_id: storeId,
+        category: category || undefined,
+        lines: sessionLines,
+      });
+      replaceSession(created);
+      resumeSession(created);
+      setIsNewOpen(false);
+      toast.success(`Stock-take ${created.session_number} started`);
+    } catch (error: any) {
+      console.error('Failed to start stock-take:', error);
+      toast.error(error.message || 'Failed to start stock-take');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const resumeSession = (session: StockTakeSession) => {
+    setActiveSession(session);
+    setLines(session.lines);
+    setIsDirty(false);
+    setLineFilter('');
+    setShowUncountedOnly(false);
+  };
+
+  const leaveSession = () => {
+    if (isDirty && !window.confirm('Leave without saving the latest counts?')) return;
+    setActiveSession(null);
+    setLines([]);
+  };
+
+  const updateCount = (productId: string, quantity: number, mode: 'add' | 'set') => {
+    setLines(prev => recordCount(prev, productId, quantity, mode));
+    setIsDirty(true);
+  };
+
+  const handleCode = (value: string) => {
+    const line = findLineByCode(lines, value);
+    if (!line) {
+      toast.error(`No product in this count matches ${value}`);
+      return;
+    }
+    updateCount(line.product_id, 1, 'add');
+    toast.success(`${line.product_name}: ${formatStockQuantity((line.counted_quantity || 0) + 1)}`);
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    handleCode(code);
+    setCode('');
+  };
+
+  const handleSave = async () => {
+    if (!activeSession) return;
+    setIsSaving(true);
+    try {
+      const saved = await apiService.updateStockTake(activeSession._id, { lines });
+      replaceSession(saved);
+      setActiveSession(saved);
+      setIsDirty(false);
+      toast.success('Counts saved');
+    } catch (error: any) {
+      console.error('Failed to save stock-take:', error);
+      toast.error(error.message || 'Failed to save stock-take');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (session: StockTakeSession) => {
+    if (!window.confirm(`Cancel ${session.session_number}? Counts are discarded and stock is not changed.`)) return;
+    try {
+      replaceSession(await apiService.cancelStockTake(session._id));
+      if (activeSession?._id === session._id) {
+        setActiveSession(null);
+        setLines([]);
+      }
+      toast.success(`${session.session_number} cancelled`);
+    } catch (error: any) {
+      console.error('Failed to cancel stock-take:', error);
+      toast.error(error.message || 'Failed to cancel stock-take');
+    }
+  };
+
+  const visibleLines = lines.filter(line => {
+    if (showUncountedOnly && isCounted(line)) return false;
+    if (!lineFilter) return true;
+    const query = lineFilter.toLowerCase();
+    return line.product_name.toLowerCase().includes(query)
+      || (line.sku || '').toLowerCase().includes(query)
+      || (line.barcode || '').includes(lineFilter);
+  });
+  const countedLines = lines.filter(isCounted).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                  <ClipboardCheck className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-xl font-bold text-gray-900 dark:text-white">
+                    {activeSession ? `Stock-take ${activeSession.session_number}` : 'Stock-take'}
+                  </h1>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {activeSession
+                      ? `${activeSession.category || 'All categories'} · ${countedLines} of ${lines.length} counted`
+                      : 'Count shelves, review variances and post approved adjustments'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-row gap-3 items-center">
+                {activeSession ? (
+                  <>
+                    <Button onClick={leaveSession} variant="outline" size="md">
+                      Back to Sessions
+                    </Button>
+                    <Button onClick={handleSave} variant="outline" size="md" loading={isSaving} disabled={isSaving || !isDirty}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save
+                    </Button>
+                    <Button onClick={() => setReviewSession(activeSession)} size="md" disabled={countedLines === 0}>
+                      <ClipboardCheck className="h-4 w-4 mr-2" />
+                      Review & Close
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button onClick={loadSessions} variant="outline" size="md" disabled={isLoading}>
+                      <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                      Refresh
+                    </Button>
+                    <Button onClick={openNewSession} size="md">
+                      <Plus className="h-4 w-4 mr-2" />
+                      New Stock-take
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {activeSession ? (
+          <>
+            <Card>
+              <div className="flex flex-col md:flex-row gap-3">
+                <form onSubmit={handleCodeSubmit} className="flex-1 flex gap-2">
+                  <div className="flex-1">
+                    <Input
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      placeholder="Scan or type a barcode / SKU and press Enter"
+                      autoFocus
+                    />
+                  </div>
+                  <Button type="button" variant="outline" onClick={() => setIsScannerOpen(true)} title="Scan with camera">
+                    <Scan className="h-4 w-4" />
+                  </Button>
+                </form>
+                <div className="md:w-64">
+                  <Input
+                    value={lineFilter}
+                    onChange={(e) => setLineFilter(e.target.value)}
+                    placeholder="Filter products"
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={showUncountedOnly}
+                    onChange={(e) => setShowUncountedOnly(e.target.checked)}
+                  />
+                  Uncounted only
+                </label>
+              </div>
+            </Card>
+
+            <Card padding="sm">
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-semibold text-gray-700 dark:text-gray-300">
+                      <th className="py-2 px-3 text-left">Product</th>
+                      <th className="py-2 px-3 text-right">Expected</th>
+                      <th className="py-2 px-3 text-right w-36">Counted</th>
+                      <th className="py-2 px-3 text-right">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleLines.map(line => {
+                      const difference = isCounted(line) ? (line.counted_quantity as number) - line.expected_quantity : 0;
+                      return (
+                        <tr key={line.product_id} className="border-b border-gray-100 dark:border-gray-700 text-sm">
+                          <td className="py-2 px-3 text-gray-900 dark:text-white">
+                            {line.product_name}
+                            <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">{line.barcode || line.sku}</p>
+                          </td>
+                          <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                            {formatStockQuantity(line.expected_quantity)} {line.unit}
+                          </td>
+                          <td className="py-2 px-3">
+                            <Input
+                              type="number"
+                              min={0}
+                              step="any"
+                              value={line.counted_quantity ?? ''}
+                              onChange={(e) => updateCount(line.product_id, Number(e.target.value) || 0, 'set')}
+                              placeholder="—"
+                              selectOnFocus
+                              aria-label={`Counted quantity of ${line.product_name}`}
+                            />
+                          </td>
+                          <td className={`py-2 px-3 text-right font-semibold ${
+                            difference < 0 ? 'text-red-600 dark:text-red-400' : difference > 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-400 dark:text-gray-500'
+                          }`}>
+                            {isCounted(line) ? `${difference > 0 ? '+' : ''}${formatStockQuantity(difference)}` : '—'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {visibleLines.length === 0 && (
+                  <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">No products match.</p>
+                )}
+              </div>
+            </Card>
+          </>
+        ) : isLoading && sessions.length === 0 ? (
+          <Card className="p-12">
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="lg" className="mr-4" />
+              <span className="text-gray-500 dark:text-gray-400 text-lg">Loading stock-takes...</span>
+            </div>
+          </Card>
+        ) : sessions.length === 0 ? (
+          <Card className="p-12">
+            <p className="text-center text-gray-500 dark:text-gray-400">No stock-takes yet. Start one to count your shelves.</p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map(session => {
+              const report = calculateVarianceReport(session.lines);
+              return (
+                <Card key={session._id} padding="sm">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono font-semibold text-gray-900 dark:text-white">{session.session_number}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[session.status]}`}>
+                          {STOCK_TAKE_STATUS_LABELS[session.status]}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {session.category || 'All categories'} · {report.counted_lines} of {session.lines.length} counted · {formatDateTime(session.completed_at || session.created_at)}
+                        {session.status === 'completed' && ` · net ${formatCurrency(report.net_value)}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {session.status === 'in_progress' ? (
+                        <>
+                          <Button variant="outline" size="sm" onClick={() => handleCancel(session)}>
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => resumeSession(session)}>
+                            <Play className="h-4 w-4 mr-1" />
+                            Continue
+                          </Button>
+                        </>
+                      ) : (
+                        <Button variant="ghost" size="sm" onClick={() => setReviewSession(session)} title="View variance report">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Modal
+        isOpen={isNewOpen}
+        onClose={() => setIsNewOpen(false)}
+        title="New Stock-take"
+        size="md"
+        headerIcon={<ClipboardCheck className="h-5 w-5" />}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Expected quantities are taken from current stock when the session starts. Avoid selling counted products until the session is closed.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Category</label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+            >
+              <option value="">All categories ({buildStockTakeLines(products).length} products)</option>
+              {categories.map(name => (
+                <option key={name} value={name}>{name} ({buildStockTakeLines(products, name).length})</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={() => setIsNewOpen(false)} disabled={isCreating}>Cancel</Button>
+            <Button onClick={handleCreate} loading={isCreating} disabled={isCreating || products.length === 0}>
+              Start Counting
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      <BarcodeScanner
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleCode}
+        onError={(error) => toast.error(`Scanner error: ${error}`)}
+      />
+
+      <StockTakeReviewModal
+        isOpen={!!reviewSession}
+        onClose={() => setReviewSession(null)}
+        session={reviewSession}
+        lines={reviewSession && reviewSession._id === activeSession?._id ? lines : reviewSession?.lines || []}
+        onCompleted={(completed) => {
+          replaceSession(completed);
+          setActiveSession(null);
+          setLines([]);
+          refreshDashboard();
+        }}
+      />
+    </div>
+  );
+};
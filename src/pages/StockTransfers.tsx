@@ -0,0 +1,397 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeftRight, ArrowRight, Plus, RefreshCw, Truck, PackageCheck, XCircle, Eye, Pencil, AlertTriangle, History } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Card } from '../components/ui/Card';
+import { Button } from '../components/ui/Button';
+import { Modal } from '../components/ui/Modal';
+import { BackButton } from '../components/ui/BackButton';
+import { Breadcrumb } from '../components/ui/Breadcrumb';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { StockTransferModal } from '../components/ui/StockTransferModal';
+import { ReceiveTransferModal } from '../components/ui/ReceiveTransferModal';
+import { useApp } from '../context/AppContext';
+import { useStore } from '../context/StoreContext';
+import { useLocale } from '../hooks/useLocale';
+import { apiService } from '../services/api';
+import { StockTransfer, StockTransferStatus } from '../types';
+import {
+  TRANSFER_STATUS_LABELS,
+  canTransitionTransfer,
+  getTransferDiscrepancies,
+  getInTransitQuantities,
+} from '../utils/transferUtils';
+import { formatStockQuantity } from '../utils/formatUtils';
+
+type TransferDirection = 'outgoing' | 'incoming';
+
+const statusClasses: Record<StockTransferStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  dispatched: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  received: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export const StockTransfers: React.FC = () => {
+  const { currentStore, stores } = useStore();
+  const { refreshDashboard } = useApp();
+  const { formatDateTime } = useLocale();
+  const [direction, setDirection] = useState<TransferDirection>('outgoing');
+  const [statusFilter, setStatusFilter] = useState<StockTransferStatus | ''>('');
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingTransfer, setEditingTransfer] = useState<StockTransfer | null>(null);
+  const [receivingTransfer, setReceivingTransfer] = useState<StockTransfer | null>(null);
+  const [viewingTransfer, setViewingTransfer] = useState<StockTransfer | null>(null);
+  const [auditTrail, setAuditTrail] = useState<any[]>([]);
+
+  const storeId = currentStore?._id;
+  const canCreate = stores.length > 1;
+
+  const storeName = (id: string, fallback?: string) => fallback || stores.find(store => store._id === id)?.name || id;
+
+  const loadTransfers = useCallback(async () => {
+    if (!storeId) return;
+    setIsLoading(true);
+    try {
+      setTransfers(await apiService.getStockTransfers({
+        store_id: storeId,
+        direction,
+        status: statusFilter || undefined,
+      }));
+    } catch (error) {
+      console.error('Failed to load stock transfers:', error);
+      toast.error('Failed to load stock transfers');
+      setTransfers([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [storeId, direction, statusFilter]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  useEffect(() => {
+    if (!viewingTransfer) return;
+    let cancelled = false;
+    setAuditTrail([]);
+    apiService.getResourceAuditTrail('STOCK_TRANSFER', viewingTransfer._id)
+      .then(entries => {
+        if (!cancelled) setAuditTrail(entries || []);
+      })
+      .catch(error => console.warn('⚠️ Failed to load transfer audit trail:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [viewingTransfer]);
+
+  const replaceTransfer = (updated: StockTransfer) => {
+    setTransfers(prev => {
+      const exists = prev.some(entry => entry._id === updated._id);
+      return exists ? prev.map(entry => (entry._id === updated._id ? updated : entry)) : [updated, ...prev];
+    });
+  };
+
+  const handleDispatch = async (transfer: StockTransfer) => {
+    if (!window.confirm(`Dispatch ${transfer.transfer_number}? The stock leaves ${storeName(transfer.from_store_id, transfer.from_store_name)} now.`)) return;
+    setBusyId(transfer._id);
+    try {
+      replaceTransfer(await apiService.dispatchStockTransfer(transfer._id));
+      toast.success(`Transfer ${transfer.transfer_number} dispatched`);
+      refreshDashboard();
+    } catch (error: any) {
+      console.error('Failed to dispatch stock transfer:', error);
+      toast.error(error.message || 'Failed to dispatch stock transfer');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (transfer: StockTransfer) => {
+    if (!window.confirm(`Cancel draft ${transfer.transfer_number}?`)) return;
+    setBusyId(transfer._id);
+    try {
+      replaceTransfer(await apiService.cancelStockTransfer(transfer._id));
+      toast.success(`Transfer ${transfer.transfer_number} cancelled`);
+    } catch (error: any) {
+      console.error('Failed to cancel stock transfer:', error);
+      toast.error(error.message || 'Failed to cancel stock transfer');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const inTransitUnits = Object.values(getInTransitQuantities(transfers)).reduce((sum, quantity) => sum + quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800 p-4 pb-24">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-4">
+            <BackButton />
+            <Breadcrumb />
+          </div>
+        </div>
+
+        {/* Header */}
+        <div className="relative overflow-hidden bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-100 dark:border-gray-700">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary-50 to-blue-50 dark:from-primary-900/20 dark:to-blue-900/20 opacity-50"></div>
+          <div className="relative p-6">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
+              <div className="space-y-2">
+                <div className="flex items-center space-x-3">
+                  <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-lg">
+                    <ArrowLeftRight className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <h1 className="text-xl font-bold text-gray-900 dark:text-white">Stock Transfers</h1>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Move stock between branches with a full audit trail</p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-4 text-sm text-gray-500 dark:text-gray-400">
+                  <span className="flex items-center space-x-1">
+                    <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                    <span>{formatStockQuantity(inTransitUnits)} units in transit {direction === 'incoming' ? 'to' : 'from'} this store</span>
+                  </span>
+                </div>
+              </div>
+              <div className="flex flex-row gap-3 items-center">
+                <Button onClick={loadTransfers} variant="outline" size="md" disabled={isLoading}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                {canCreate && (
+                  <Button onClick={() => { setEditingTransfer(null); setIsFormOpen(true); }} size="md">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Transfer
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="inline-flex rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+            {(['outgoing', 'incoming'] as TransferDirection[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setDirection(option)}
+                className={`px-4 py-2 text-sm font-medium capitalize transition-colors duration-200 ${
+                  direction === option
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StockTransferStatus | '')}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white rounded-lg text-sm"
+            aria-label="Filter by status"
+          >
+            <option value="">All statuses</option>
+            {(Object.keys(TRANSFER_STATUS_LABELS) as StockTransferStatus[]).map(status => (
+              <option key={status} value={status}>{TRANSFER_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {isLoading && transfers.length === 0 ? (
+          <Card className="p-12">
+            <div className="flex items-center justify-center">
+              <LoadingSpinner size="lg" className="mr-4" />
+              <span className="text-gray-500 dark:text-gray-400 text-lg">Loading transfers...</span>
+            </div>
+          </Card>
+        ) : transfers.length === 0 ? (
+          <Card className="p-12">
+            <p className="text-center text-gray-500 dark:text-gray-400">
+              No {direction} transfers{statusFilter ? ` with status ${TRANSFER_STATUS_LABELS[statusFilter].toLowerCase()}` : ''}.
+            </p>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {transfers.map(transfer => {
+              const totalUnits = transfer.lines.reduce((sum, line) => sum + line.quantity, 0);
+              const flagged = transfer.has_discrepancy || getTransferDiscrepancies(transfer.lines).length > 0;
+              const isBusy = busyId === transfer._id;
+              return (
+                <Card key={transfer._id} padding="sm">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-mono font-semibold text-gray-900 dark:text-white">{transfer.transfer_number}</span>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[transfer.status]}`}>
+                          {TRANSFER_STATUS_LABELS[transfer.status]}
+                        </span>
+                        {flagged && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Discrepancy
+                          </span>
+                        )}
+                      </div>
+                      <p className="flex items-center text-sm text-gray-600 dark:text-gray-400">
+                        {storeName(transfer.from_store_id, transfer.from_store_name)}
+                        <ArrowRight className="h-3 w-3 mx-1" />
+                        {storeName(transfer.to_store_id, transfer.to_store_name)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {transfer.lines.length} product{transfer.lines.length === 1 ? '' : 's'} · {formatStockQuantity(totalUnits)} units · {formatDateTime(transfer.dispatched_at || transfer.created_at)}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => setViewingTransfer(transfer)} title="View transfer">
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {direction === 'outgoing' && transfer.status === 'draft' && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => { setEditingTransfer(transfer); setIsFormOpen(true); }} title="Edit draft">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleCancel(transfer)} disabled={isBusy}>
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => handleDispatch(transfer)} loading={isBusy} disabled={isBusy}>
+                            <Truck className="h-4 w-4 mr-1" />
+                            Dispatch
+                          </Button>
+                        </>
+                      )}
+                      {direction === 'incoming' && canTransitionTransfer(transfer.status, 'received') && (
+                        <Button size="sm" onClick={() => setReceivingTransfer(transfer)}>
+                          <PackageCheck className="h-4 w-4 mr-1" />
+                          Receive
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <StockTransferModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        transfer={editingTransfer}
+        onSaved={(saved) => {
+          if (direction === 'outgoing') replaceTransfer(saved);
+        }}
+      />
+
+      <ReceiveTransferModal
+        isOpen={!!receivingTransfer}
+        onClose={() => setReceivingTransfer(null)}
+        transfer={receivingTransfer}
+        onReceived={(updated) => {
+          replaceTransfer(updated);
+          refreshDashboard();
+        }}
+      />
+
+      <Modal
+        isOpen={!!viewingTransfer}
+        onClose={() => setViewingTransfer(null)}
+        title={viewingTransfer ? `Transfer ${viewingTransfer.transfer_number}` : 'Transfer'}
+        size="lg"
+        headerIcon={<ArrowLeftRight className="h-5 w-5" />}
+      >
+        {viewingTransfer && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">From</p>
+                <p className="font-medium text-gray-900 dark:text-white">{storeName(viewingTransfer.from_store_id, viewingTransfer.from_store_name)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">To</p>
+                <p className="font-medium text-gray-900 dark:text-white">{storeName(viewingTransfer.to_store_id, viewingTransfer.to_store_name)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Status</p>
+                <p className="font-medium text-gray-900 dark:text-white">{TRANSFER_STATUS_LABELS[viewingTransfer.status]}</p>
+              </div>
+              <div>
+                <p className="text-gray-500 dark:text-gray-400">Created</p>
+                <p className="font-medium text-gray-900 dark:text-white">{formatDateTime(viewingTransfer.created_at)}</p>
+              </div>
+              {viewingTransfer.dispatched_at && (
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Dispatched</p>
+                  <p className="font-medium text-gray-900 dark:text-white">{formatDateTime(viewingTransfer.dispatched_at)}</p>
+                </div>
+              )}
+              {viewingTransfer.received_at && (
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Received</p>
+                  <p className="font-medium text-gray-900 dark:text-white">{formatDateTime(viewingTransfer.received_at)}</p>
+                </div>
+              )}
+            </div>
+
+            {viewingTransfer.notes && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 italic">{viewingTransfer.notes}</p>
+            )}
+
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="text-left py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Product</th>
+                  <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Sent</th>
+                  <th className="text-right py-2 px-3 text-sm font-semibold text-gray-700 dark:text-gray-300">Received</th>
+                </tr>
+              </thead>
+              <tbody>
+                {viewingTransfer.lines.map(line => {
+                  const mismatch = line.received_quantity !== undefined && line.received_quantity !== line.quantity;
+                  return (
+                    <tr key={line.product_id} className={`border-b border-gray-100 dark:border-gray-700 ${mismatch ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}>
+                      <td className="py-2 px-3 text-sm text-gray-900 dark:text-white">
+                        {line.product_name}
+                        {line.note && <p className="text-xs text-amber-700 dark:text-amber-300">{line.note}</p>}
+                      </td>
+                      <td className="py-2 px-3 text-sm text-right text-gray-600 dark:text-gray-400">{formatStockQuantity(line.quantity)}</td>
+                      <td className={`py-2 px-3 text-sm text-right ${mismatch ? 'font-semibold text-amber-700 dark:text-amber-300' : 'text-gray-600 dark:text-gray-400'}`}>
+                        {line.received_quantity !== undefined ? formatStockQuantity(line.received_quantity) : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            <div>
+              <h3 className="flex items-center text-sm font-semibold text-gray-900 dark:text-white mb-2">
+                <History className="h-4 w-4 mr-2" />
+                Audit Trail
+              </h3>
+              {auditTrail.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No audit entries yet.</p>
+              ) : (
+                <ul className="space-y-1">
+                  {auditTrail.map(entry => (
+                    <li key={entry._id} className="text-sm text-gray-600 dark:text-gray-400">
+                      <span className="font-medium text-gray-900 dark:text-white">{entry.action}</span>
+                      {' · '}{entry.user_email || entry.user_id}
+                      {' · '}{formatDateTime(entry.created_at)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
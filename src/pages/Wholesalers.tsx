@@ -1,18 +1,25 @@
-import React, { useState, useEffect } from 'react';
-import { Plus, Search, Mail, MessageCircle, Download, FileText, FileSpreadsheet, Edit, Trash2, AlertTriangle, Phone, MapPin, Building2, Package, X, Link2, Share2, ExternalLink, Image as ImageIcon } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Plus, Search, Mail, MessageCircle, Download, FileText, FileSpreadsheet, Edit, Trash2, AlertTriangle, Phone, MapPin, Building2, Package, X, Link2, Share2, ExternalLink, Image as ImageIcon, ClipboardList } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { useAuth } from '../context/AuthContext';
+import { useStore } from '../context/StoreContext';
 import { apiService } from '../services/api';
-import { Wholesaler, LowStockProduct, Product } from '../types';
+import { Wholesaler, LowStockProduct, Product, PurchaseOrder } from '../types';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { Modal } from '../components/ui/Modal';
 import { LoadingSpinner } from '../components/ui/LoadingSpinner';
 import { WholesalerCard } from '../components/ui/WholesalerCard';
+import { PurchaseOrderModal } from '../components/ui/PurchaseOrderModal';
+import { PurchaseOrdersModal } from '../components/ui/PurchaseOrdersModal';
+import { ReceivePurchaseOrderModal } from '../components/ui/ReceivePurchaseOrderModal';
+import { OPEN_PURCHASE_ORDER_STATUSES, buildPurchaseOrderMessage, isOpenPurchaseOrder } from '../utils/purchaseOrderUtils';
+import { DEFAULT_LEAD_TIME_DAYS } from '../utils/replenishmentUtils';
 import { saveAs } from 'file-saver';
 
 export const Wholesalers: React.FC = () => {
   const { user } = useAuth();
+  const { currentStore } = useStore();
   const [wholesalers, setWholesalers] = useState<Wholesaler[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
@@ -36,6 +43,13 @@ export const Wholesalers: React.FC = () => {
   const [selectedProductIds, setSelectedProductIds] = useState<string[]>([]);
   const [isLinkingProducts, setIsLinkingProducts] = useState(false);
   const [productSearchQuery, setProductSearchQuery] = useState('');
+  const [openOrders, setOpenOrders] = useState<PurchaseOrder[]>([]);
+  const [orderWholesaler, setOrderWholesaler] = useState<Wholesaler | null>(null);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [isOrderFormOpen, setIsOrderFormOpen] = useState(false);
+  const [ordersListWholesaler, setOrdersListWholesaler] = useState<Wholesaler | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [ordersRefreshKey, setOrdersRefreshKey] = useState(0);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -43,6 +57,7 @@ export const Wholesalers: React.FC = () => {
     email: '',
     address: '',
     notes: '',
+    lead_time_days: DEFAULT_LEAD_TIME_DAYS,
     is_active: true,
   });
 
@@ -50,6 +65,21 @@ export const Wholesalers: React.FC = () => {
     loadWholesalers();
   }, [user?.store_id, searchQuery, currentPage]);
 
+  const loadOpenOrders = useCallback(async () => {
+    if (!user?.store_id) return;
+    try {
+      const orders = await apiService.getPurchaseOrders({ store_id: user.store_id, status: OPEN_PURCHASE_ORDER_STATUSES });
+      // Filter again so a closed order never shows on a card, even if the status filter isn't applied
+      setOpenOrders(orders.filter(isOpenPurchaseOrder));
+    } catch (error) {
+      console.error('Failed to load purchase orders:', error);
+    }
+  }, [user?.store_id]);
+
+  useEffect(() => {
+    loadOpenOrders();
+  }, [loadOpenOrders]);
+
   const loadWholesalers = async () => {
     if (!user?.store_id) return;
 
@@ -86,6 +116,7 @@ export const Wholesalers: React.FC = () => {
       email: '',
       address: '',
       notes: '',
+      lead_time_days: DEFAULT_LEAD_TIME_DAYS,
       is_active: true,
     });
   };
@@ -124,6 +155,7 @@ export const Wholesalers: React.FC = () => {
       email: wholesaler.email || '',
       address: wholesaler.address || '',
       notes: wholesaler.notes || '',
+      lead_time_days: wholesaler.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS,
       is_active: wholesaler.is_active,
     });
     setIsEditModalOpen(true);
@@ -296,6 +328,46 @@ export const Wholesalers: React.FC = () => {
     }
   };
 
+  const handleCreateOrder = (wholesaler: Wholesaler) => {
+    setOrderWholesaler(wholesaler);
+    setEditingOrder(null);
+    setIsOrderFormOpen(true);
+  };
+
+  const handleEditOrder = (order: PurchaseOrder) => {
+    setOrderWholesaler(wholesalers.find(w => w._id === order.wholesaler_id) || ordersListWholesaler);
+    setEditingOrder(order);
+    setIsOrderFormOpen(true);
+  };
+
+  const handleOrderChanged = () => {
+    loadOpenOrders();
+    setOrdersRefreshKey(prev => prev + 1);
+  };
+
+  // Email is sent by the backend; WhatsApp opens a prefilled chat like the low-stock alert
+  const handleSendPurchaseOrder = async (order: PurchaseOrder, channel: 'email' | 'whatsapp') => {
+    const wholesaler = wholesalers.find(w => w._id === order.wholesaler_id) || orderWholesaler || ordersListWholesaler;
+    if (!wholesaler) return;
+
+    try {
+      if (channel === 'whatsapp') {
+        const message = buildPurchaseOrderMessage(order, wholesaler.name, currentStore?.name || 'our store');
+        const cleanPhone = wholesaler.phone.replace(/[\s\-()]/g, '');
+        window.open(`https://wa.me/${cleanPhone}?text=${encodeURIComponent(message)}`, '_blank');
+      }
+      const response = await apiService.sendPurchaseOrder(order._id, channel);
+      toast.success(channel === 'email'
+        ? response.message || `${order.po_number} emailed to ${wholesaler.name}`
+        : `${order.po_number} marked as sent`);
+    } catch (error: any) {
+      console.error('Failed to send purchase order:', error);
+      toast.error(error.message || 'Failed to send purchase order');
+    } finally {
+      handleOrderChanged();
+    }
+  };
+
   const handlePhoneClick = async (wholesaler: Wholesaler) => {
     try {
       // Get low stock products for this wholesaler
@@ -511,6 +583,8 @@ export const Wholesalers: React.FC = () => {
                 onPhoneClick={handlePhoneClick}
                 onEmailClick={handleEmailClick}
                 onShare={handleShareWholesaler}
+                openOrders={openOrders.filter(order => order.wholesaler_id === wholesaler._id)}
+                onViewOrders={setOrdersListWholesaler}
                 loadWholesalerWithProducts={apiService.getWholesalerById}
               />
             ))}
@@ -606,6 +680,14 @@ export const Wholesalers: React.FC = () => {
               onChange={(e) => setFormData({ ...formData, email: e.target.value })}
               placeholder="Email address"
             />
+            <Input
+              label="Lead Time (days)"
+              type="number"
+              min={0}
+              value={formData.lead_time_days}
+              onChange={(e) => setFormData({ ...formData, lead_time_days: Math.max(0, Number(e.target.value) || 0) })}
+              placeholder="Days from order to delivery"
+            />
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Address
@@ -692,6 +774,14 @@ export const Wholesalers: React.FC = () => {
               onChange={(e) => setFormData({ ...formData, email: e.target.value })}
               placeholder="Email address"
             />
+            <Input
+              label="Lead Time (days)"
+              type="number"
+              min={0}
+              value={formData.lead_time_days}
+              onChange={(e) => setFormData({ ...formData, lead_time_days: Math.max(0, Number(e.target.value) || 0) })}
+              placeholder="Days from order to delivery"
+            />
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Address
@@ -1015,6 +1105,19 @@ export const Wholesalers: React.FC = () => {
                       <MessageCircle className="h-4 w-4 mr-2" />
                       WhatsApp
                     </Button>
+                    <Button
+                      onClick={() => {
+                        if (!selectedWholesaler) return;
+                        const wholesaler = selectedWholesaler;
+                        setIsLowStockModalOpen(false);
+                        setLowStockProducts([]);
+                        handleCreateOrder(wholesaler);
+                      }}
+                      size="sm"
+                    >
+                      <ClipboardList className="h-4 w-4 mr-2" />
+                      Create Purchase Order
+                    </Button>
                   </div>
                 </div>
                 <div className="space-y-3 max-h-96 overflow-y-auto">
@@ -1061,6 +1164,40 @@ export const Wholesalers: React.FC = () => {
           </div>
         </Modal>
 
+        {/* Purchase Orders */}
+        <PurchaseOrdersModal
+          isOpen={!!ordersListWholesaler}
+          onClose={() => setOrdersListWholesaler(null)}
+          wholesaler={ordersListWholesaler}
+          storeId={user?.store_id || ''}
+          refreshKey={ordersRefreshKey}
+          onCreate={handleCreateOrder}
+          onEdit={handleEditOrder}
+          onReceive={setReceivingOrder}
+          onSend={handleSendPurchaseOrder}
+          onChanged={handleOrderChanged}
+        />
+
+        <PurchaseOrderModal
+          isOpen={isOrderFormOpen}
+          onClose={() => setIsOrderFormOpen(false)}
+          wholesaler={orderWholesaler}
+          storeId={user?.store_id || ''}
+          order={editingOrder}
+          onSaved={handleOrderChanged}
+          onSend={handleSendPurchaseOrder}
+        />
+
+        <ReceivePurchaseOrderModal
+          isOpen={!!receivingOrder}
+          onClose={() => setReceivingOrder(null)}
+          order={receivingOrder}
+          onReceived={() => {
+            handleOrderChanged();
+            loadWholesalers();
+          }}
+        />
+
         {/* Export Modal */}
         <Modal
           isOpen={isExportModalOpen}
@@ -0,0 +1,102 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+/**
+ * Greep Market Service Worker
+ *
+ * Built by react-scripts through workbox-webpack-plugin (InjectManifest), which
+ * injects the list of hashed build assets into self.__WB_MANIFEST.
+ *
+ * - Build assets: precached, served cache-first, outdated revisions cleaned up
+ * - Catalog data (/products, /public/*): stale-while-revalidate
+ * - Auth and transaction endpoints: always network (never cached)
+ * - Everything else: untouched, goes to the network as usual
+ */
+
+import { clientsClaim, setCacheNameDetails } from 'workbox-core';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { precacheAndRoute, createHandlerBoundToURL, cleanupOutdatedCaches } from 'workbox-precaching';
+import { registerRoute, NavigationRoute } from 'workbox-routing';
+import { StaleWhileRevalidate, NetworkOnly } from 'workbox-strategies';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Bump when runtime cache formats change; older caches are deleted on activate
+const CACHE_PREFIX = 'greep-market';
+const CACHE_VERSION = 'v2';
+const CATALOG_CACHE = `${CACHE_PREFIX}-catalog-${CACHE_VERSION}`;
+
+const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001/api/v1';
+const apiBase = new URL(API_BASE_URL, self.location.origin);
+
+setCacheNameDetails({ prefix: CACHE_PREFIX, suffix: CACHE_VERSION });
+clientsClaim();
+
+// Precache all of the assets generated by the build process
+precacheAndRoute(self.__WB_MANIFEST);
+cleanupOutdatedCaches();
+
+// App shell-style routing: serve index.html for navigations
+const fileExtensionRegexp = new RegExp('/[^/?]+\\.[^/]+$');
+registerRoute(
+  new NavigationRoute(createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html'), {
+    denylist: [/^\/_/, fileExtensionRegexp],
+  })
+);
+
+// Path of a request relative to the API base, or null if it isn't an API call
+const getApiPath = (url: URL): string | null => {
+  if (url.origin !== apiBase.origin || !url.pathname.startsWith(apiBase.pathname)) {
+    return null;
+  }
+  return url.pathname.slice(apiBase.pathname.replace(/\/$/, '').length) || '/';
+};
+
+// Auth and transactions must never be answered from a cache
+// (non-GET requests are never routed through a cache either)
+registerRoute(({ url }) => {
+  const path = getApiPath(url);
+  return path !== null && (path.startsWith('/auth') || path.startsWith('/transactions'));
+}, new NetworkOnly());
+
+// Product catalog: answer instantly from cache, refresh in the background
+registerRoute(
+  ({ url, request }) => {
+    const path = getApiPath(url);
+    return request.method === 'GET' && path !== null &&
+      (path === '/products' || path.startsWith('/products/') || path.startsWith('/public/'));
+  },
+  new StaleWhileRevalidate({
+    cacheName: CATALOG_CACHE,
+    plugins: [
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+      new ExpirationPlugin({ maxEntries: 200, maxAgeSeconds: 24 * 60 * 60 }),
+    ],
+  })
+);
+
+// Remove runtime caches from previous versions (including the legacy greep-market-v1 cache)
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((cacheNames) =>
+      Promise.all(
+        cacheNames
+          .filter((name) => name.startsWith(CACHE_PREFIX) && !name.endsWith(CACHE_VERSION))
+          .map((name) => caches.delete(name))
+      )
+    )
+  );
+});
+
+self.addEventListener('message', (event) => {
+  // Sent by the "new version available" prompt
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+
+  // Sent on logout so cached catalog data doesn't outlive the session
+  if (event.data && event.data.type === 'CLEAR_RUNTIME_CACHES') {
+    event.waitUntil(caches.delete(CATALOG_CACHE));
+  }
+});
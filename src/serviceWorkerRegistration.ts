@@ -0,0 +1,91 @@
+import { Workbox } from 'workbox-window';
+
+/**
+ * Service worker registration and update handling.
+ *
+ * The worker is only registered in production builds (react-scripts does not
+ * build src/service-worker.ts in development). When a new build has been
+ * installed and is waiting, listeners are notified so the app can offer a
+ * reload; applyUpdate() activates the waiting worker and reloads once it
+ * has taken control.
+ */
+
+type UpdateListener = () => void;
+
+let workbox: Workbox | null = null;
+let updateAvailable = false;
+const updateListeners = new Set<UpdateListener>();
+
+const notifyUpdateAvailable = () => {
+  updateAvailable = true;
+  updateListeners.forEach(listener => listener());
+};
+
+export function register(): void {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  // Resolve against the site root: "homepage": "." makes PUBLIC_URL relative,
+  // and the worker must not be looked up under the current route (e.g. /admin/...)
+  const swUrl = new URL(`${process.env.PUBLIC_URL || ''}/service-worker.js`, `${window.location.origin}/`);
+
+  // Service worker won't work if PUBLIC_URL is on a different origin
+  if (swUrl.origin !== window.location.origin) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    workbox = new Workbox(swUrl.href);
+
+    // A new build finished installing while this page is controlled by the old one
+    workbox.addEventListener('waiting', () => {
+      notifyUpdateAvailable();
+    });
+
+    workbox.register().catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
+
+// Subscribe to "new version available"; returns an unsubscribe function
+export function onUpdateAvailable(listener: UpdateListener): () => void {
+  updateListeners.add(listener);
+  if (updateAvailable) {
+    listener();
+  }
+  return () => {
+    updateListeners.delete(listener);
+  };
+}
+
+// Activate the waiting worker and reload into the new version
+export function applyUpdate(): void {
+  if (!workbox) {
+    window.location.reload();
+    return;
+  }
+
+  workbox.addEventListener('controlling', () => {
+    window.location.reload();
+  });
+  workbox.messageSkipWaiting();
+}
+
+// Ask the active worker to drop cached API data (e.g. on logout)
+export function clearRuntimeCaches(): void {
+  if ('serviceWorker' in navigator && navigator.serviceWorker.controller) {
+    navigator.serviceWorker.controller.postMessage({ type: 'CLEAR_RUNTIME_CACHES' });
+  }
+}
+
+export function unregister(): void {
+  if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.ready
+      .then((registration) => registration.unregister())
+      .catch((error) => {
+        console.error(error.message);
+      });
+  }
+}
@@ -5,10 +5,45 @@ import {
   AuthResponse, 
   ApiResponse,
   InventoryAlert,
+  ExpiryAlert,
+  ProductBatch,
+  BatchAllocation,
+  ProductVariantOption,
+  ProductVariantInput,
   DashboardMetrics,
   PriceHistory,
   Wholesaler,
-  LowStockProduct
+  LowStockProduct,
+  Refund,
+  ReceiptTemplate,
+  TaxMode,
+  TaxClass,
+  TaxBreakdownLine,
+  ExchangeRate,
+  StoreDateFormat,
+  StockTransfer,
+  StockTransferLine,
+  StockTransferStatus,
+  StockAdjustmentReason,
+  StockMovement,
+  StockMovementType,
+  StockTake,
+  StockTakeAdjustment,
+  StockTakeLine,
+  StockTakeStatus,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Promotion,
+  Customer,
+  AccountPayment,
+  Shift,
+  ShiftCashMovement,
+  ShiftReviewStatus,
+  CustomerOrder,
+  DispatchStatus,
+  DeliveryZone,
+  DeliveryZoneMode
 } from '../types';
 import { api } from '../config/environment';
 
@@ -127,13 +162,14 @@ class ApiService {
     }
     
     const config: RequestInit = {
+      ...options,
+      // Merge headers last so per-request headers don't drop auth/content-type
       headers: {
         // Only set Content-Type for JSON, not for FormData
         ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
         ...(this.accessToken && { Authorization: `Bearer ${this.accessToken}` }),
         ...options.headers,
       },
-      ...options,
     };
 
     try {
@@ -426,6 +462,20 @@ class ApiService {
     return response.data;
   }
 
+  // Saves the parent's variant options, creating new variants and updating existing ones
+  async saveProductVariants(parentId: string, data: {
+    variant_options: ProductVariantOption[];
+    variants: ProductVariantInput[];
+  }): Promise<Product[]> {
+    const response = await this.privateRequest<any>(`/products/${parentId}/variants`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+    const result = response.data;
+    if (Array.isArray(result)) return result;
+    return Array.isArray(result?.variants) ? result.variants : [];
+  }
+
   async updateProductPrice(id: string, data: {
     new_price: number;
     change_reason?: string;
@@ -543,21 +593,247 @@ class ApiService {
     return response.data;
   }
 
+  // Batches with expiry dates, sorted first-expiry-first-out by the backend
+  async getProductBatches(productId: string): Promise<ProductBatch[]> {
+    const response = await this.privateRequest<any>(`/inventory/${productId}/batches`);
+    const data = response.data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.batches) ? data.batches : [];
+  }
+
+  // Adds the batch quantity to the product's stock as a restock movement
+  async createProductBatch(productId: string, batchData: {
+    batch_number: string;
+    quantity: number;
+    expiry_date?: string;
+    cost_price?: number;
+  }): Promise<ProductBatch> {
+    const response = await this.privateRequest<ProductBatch>(`/inventory/${productId}/batches`, {
+      method: 'POST',
+      body: JSON.stringify(batchData),
+    });
+    return response.data;
+  }
+
+  // Removes what is left of a batch from stock, recorded as waste in the ledger
+  async writeOffProductBatch(productId: string, batchId: string, notes?: string): Promise<ProductBatch> {
+    const response = await this.privateRequest<ProductBatch>(`/inventory/${productId}/batches/${batchId}/write-off`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    });
+    return response.data;
+  }
+
+  // Batches that have expired or expire within `days` (the store's expiry_alert_days when omitted)
+  async getExpiringBatches(params?: { store_id?: string; days?: number }): Promise<ExpiryAlert[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id) queryParams.append('store_id', params.store_id);
+    if (params?.days !== undefined) queryParams.append('days', params.days.toString());
+
+    const response = await this.privateRequest<any>(`/inventory/expiring?${queryParams}`);
+    const data = response.data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.alerts) ? data.alerts : [];
+  }
+
+  // Recorded in the product's stock ledger; `reason` becomes the movement type when it is one.
+  // Pass an idempotency key when the call may be retried, so a repeat is not applied twice
   async adjustInventory(
     productId: string,
     data: {
       adjustment_type: 'add' | 'subtract' | 'set';
       quantity: number;
-      reason: string;
+      reason: StockMovementType | string;
       notes?: string;
-    }
+      batch_allocations?: BatchAllocation[]; // Sales of batch-tracked products: which batches to draw down
+    },
+    idempotencyKey?: string
   ): Promise<void> {
     await this.privateRequest(`/inventory/${productId}/adjust`, {
       method: 'POST',
+      ...(idempotencyKey && {
+        headers: { 'Idempotency-Key': idempotencyKey },
+      }),
       body: JSON.stringify(data),
     });
   }
 
+  // Stock movement ledger, newest first
+  async getStockMovements(productId: string, params?: {
+    type?: StockMovementType;
+    start_date?: string;
+    end_date?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<{ movements: StockMovement[]; total: number }> {
+    const queryParams = new URLSearchParams();
+    if (params?.type) queryParams.append('type', params.type);
+    if (params?.start_date) queryParams.append('start_date', params.start_date);
+    if (params?.end_date) queryParams.append('end_date', params.end_date);
+    if (params?.page) queryParams.append('page', params.page.toString());
+    if (params?.limit) queryParams.append('limit', params.limit.toString());
+
+    const response = await this.privateRequest<any>(`/inventory/${productId}/movements?${queryParams}`);
+    const data = response.data;
+    if (Array.isArray(data)) return { movements: data, total: data.length };
+    return {
+      movements: Array.isArray(data?.movements) ? data.movements : [],
+      total: data?.total || 0,
+    };
+  }
+
+  async exportStockMovements(productId: string, params?: {
+    format?: 'excel' | 'csv';
+    type?: StockMovementType;
+    start_date?: string;
+    end_date?: string;
+  }): Promise<Blob> {
+    const queryParams = new URLSearchParams();
+    if (params?.format) queryParams.append('format', params.format);
+    if (params?.type) queryParams.append('type', params.type);
+    if (params?.start_date) queryParams.append('start_date', params.start_date);
+    if (params?.end_date) queryParams.append('end_date', params.end_date);
+
+    const response = await this.rawRequest(`/inventory/${productId}/movements/export?${queryParams}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Export failed: ${response.statusText}`);
+    }
+
+    return await response.blob();
+  }
+
+  // Stock transfers between stores
+  async getStockTransfers(params?: {
+    store_id?: string; // Either side of the transfer
+    direction?: 'outgoing' | 'incoming';
+    status?: StockTransferStatus;
+  }): Promise<StockTransfer[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id && params.store_id !== 'null') queryParams.append('store_id', params.store_id);
+    if (params?.direction) queryParams.append('direction', params.direction);
+    if (params?.status) queryParams.append('status', params.status);
+
+    const response = await this.privateRequest<any>(`/stock-transfers?${queryParams}`);
+    const data = response.data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.transfers) ? data.transfers : [];
+  }
+
+  async createStockTransfer(transferData: {
+    from_store_id: string;
+    to_store_id: string;
+    lines: StockTransferLine[];
+    notes?: string;
+  }): Promise<StockTransfer> {
+    const response = await this.privateRequest<StockTransfer>('/stock-transfers', {
+      method: 'POST',
+      body: JSON.stringify(transferData),
+    });
+    return response.data;
+  }
+
+  async updateStockTransfer(transferId: string, transferData: {
+    to_store_id?: string;
+    lines?: StockTransferLine[];
+    notes?: string;
+  }): Promise<StockTransfer> {
+    const response = await this.privateRequest<StockTransfer>(`/stock-transfers/${transferId}`, {
+      method: 'PUT',
+      body: JSON.stringify(transferData),
+    });
+    return response.data;
+  }
+
+  // Takes the quantities out of the source store; they stay in transit until received
+  async dispatchStockTransfer(transferId: string): Promise<StockTransfer> {
+    const response = await this.privateRequest<StockTransfer>(`/stock-transfers/${transferId}/dispatch`, {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  async receiveStockTransfer(transferId: string, lines: Array<{
+    product_id: string;
+    received_quantity: number;
+    note?: string;
+  }>): Promise<StockTransfer> {
+    const response = await this.privateRequest<StockTransfer>(`/stock-transfers/${transferId}/receive`, {
+      method: 'POST',
+      body: JSON.stringify({ lines }),
+    });
+    return response.data;
+  }
+
+  async cancelStockTransfer(transferId: string): Promise<StockTransfer> {
+    const response = await this.privateRequest<StockTransfer>(`/stock-transfers/${transferId}/cancel`, {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
+  // Stock-take (cycle count) sessions
+  async getStockTakes(params?: {
+    store_id?: string;
+    status?: StockTakeStatus;
+  }): Promise<StockTake[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id && params.store_id !== 'null') queryParams.append('store_id', params.store_id);
+    if (params?.status) queryParams.append('status', params.status);
+
+    const response = await this.privateRequest<any>(`/stock-takes?${queryParams}`);
+    const data = response.data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.stock_takes) ? data.stock_takes : [];
+  }
+
+  async createStockTake(stockTakeData: {
+    store_id: string;
+    category?: string;
+    lines: StockTakeLine[];
+  }): Promise<StockTake> {
+    const response = await this.privateRequest<StockTake>('/stock-takes', {
+      method: 'POST',
+      body: JSON.stringify(stockTakeData),
+    });
+    return response.data;
+  }
+
+  // Saves counts in progress so a session can be resumed on another device
+  async updateStockTake(stockTakeId: string, stockTakeData: {
+    lines?: StockTakeLine[];
+    notes?: string;
+  }): Promise<StockTake> {
+    const response = await this.privateRequest<StockTake>(`/stock-takes/${stockTakeId}`, {
+      method: 'PUT',
+      body: JSON.stringify(stockTakeData),
+    });
+    return response.data;
+  }
+
+  // Posts each adjustment (counted minus expected, as add/subtract) with the reason code and archives the session
+  async completeStockTake(stockTakeId: string, stockTakeData: {
+    lines: StockTakeLine[];
+    adjustments: StockTakeAdjustment[];
+    reason_code: StockAdjustmentReason;
+    notes?: string;
+  }): Promise<StockTake> {
+    const response = await this.privateRequest<StockTake>(`/stock-takes/${stockTakeId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify(stockTakeData),
+    });
+    return response.data;
+  }
+
+  async cancelStockTake(stockTakeId: string): Promise<StockTake> {
+    const response = await this.privateRequest<StockTake>(`/stock-takes/${stockTakeId}/cancel`, {
+      method: 'POST',
+    });
+    return response.data;
+  }
+
   // Transactions
   async getTransactions(params?: {
     store_id?: string;
@@ -569,6 +845,7 @@ class ApiService {
     category?: string;
     tags?: string[];
     search?: string;
+    shift_id?: string;
   }): Promise<{ transactions: Transaction[]; total: number; page: number; limit: number }> {
     const queryParams = new URLSearchParams();
     // Only add store_id if it's provided and not null
@@ -583,6 +860,7 @@ class ApiService {
     if (params?.category) queryParams.append('category', params.category);
     if (params?.tags && params.tags.length > 0) queryParams.append('tags', params.tags.join(','));
     if (params?.search) queryParams.append('search', params.search);
+    if (params?.shift_id) queryParams.append('shift_id', params.shift_id);
     
     // Add cache-busting parameter to ensure fresh data when filters change
     queryParams.append('_t', Date.now().toString());
@@ -628,19 +906,38 @@ class ApiService {
   async createTransaction(transactionData: {
     store_id: string;
     customer_id?: string;
+    customer_name?: string;
     items: Array<{
       product_id: string;
       quantity: number;
       unit_price: number;
-      discount_amount?: number;
+      discount_amount?: number; // Promotion discount on this line
+      promotion_id?: string;
+      promotion_name?: string;
+      tax_rate?: number;
+      tax_amount?: number;
     }>;
     discount_amount?: number;
+    tax_amount?: number;
+    tax_mode?: TaxMode;
+    tax_breakdown?: TaxBreakdownLine[];
+    currency?: string;
+    change_amount?: number;
     payment_method: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card';
+    loyalty_points_earned?: number;
+    loyalty_points_redeemed?: number; // Backend debits these from the customer's balance
     notes?: string;
     cashier_id: string;
+    shift_id?: string; // Open till shift the sale accrues to
+    client_reference?: string;
   }): Promise<Transaction> {
     const response = await this.privateRequest<Transaction>('/transactions', {
       method: 'POST',
+      // Idempotency key lets the backend drop duplicates when an offline sale is replayed,
+      // including a replay whose first attempt timed out after the sale was recorded
+      ...(transactionData.client_reference && {
+        headers: { 'Idempotency-Key': transactionData.client_reference },
+      }),
       body: JSON.stringify(transactionData),
     });
     return response.data;
@@ -661,7 +958,7 @@ class ApiService {
     }>;
     payment_method?: string;
     payment_methods?: Array<{
-      type: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card';
+      type: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card' | 'loyalty_points' | 'on_account';
       amount: number;
     }>;
     customer_id?: string;
@@ -704,6 +1001,105 @@ class ApiService {
     }
   }
 
+  async getTransaction(transactionId: string): Promise<Transaction> {
+    const response = await this.privateRequest<Transaction>(`/transactions/${transactionId}`);
+    return response.data;
+  }
+
+  // Refunds (returns recorded against an original sale)
+  async createRefund(transactionId: string, refundData: {
+    store_id: string;
+    cashier_id: string;
+    items: Array<{
+      product_id: string;
+      product_name: string;
+      quantity: number;
+      unit_price: number;
+      total_price: number;
+      restock: boolean;
+      unit_cost?: number;
+    }>;
+    payment_methods: Array<{
+      type: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card' | 'loyalty_points' | 'on_account';
+      amount: number;
+    }>;
+    total_amount: number;
+    reason?: string;
+    client_reference: string;
+  }): Promise<Refund> {
+    const response = await this.privateRequest<Refund>(`/transactions/${transactionId}/refunds`, {
+      method: 'POST',
+      headers: { 'Idempotency-Key': refundData.client_reference },
+      body: JSON.stringify(refundData),
+    });
+    return response.data;
+  }
+
+  async getRefunds(params?: {
+    store_id?: string;
+    transaction_id?: string;
+    start_date?: string;
+    end_date?: string;
+  }): Promise<Refund[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id && params.store_id !== 'null') queryParams.append('store_id', params.store_id);
+    if (params?.transaction_id) queryParams.append('transaction_id', params.transaction_id);
+    if (params?.start_date) queryParams.append('start_date', params.start_date);
+    if (params?.end_date) queryParams.append('end_date', params.end_date);
+
+    const response = await this.privateRequest<any>(`/refunds?${queryParams}`);
+    const data = response.data;
+    // Accept both a bare array and a { refunds: [...] } envelope
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.refunds) ? data.refunds : [];
+  }
+
+  // Exchange rates (foreign currency -> store base currency, by effective date)
+  async getExchangeRates(store_id?: string): Promise<ExchangeRate[]> {
+    const queryParams = new URLSearchParams();
+    if (store_id && store_id !== 'null') queryParams.append('store_id', store_id);
+
+    const response = await this.privateRequest<any>(`/exchange-rates?${queryParams}`);
+    const data = response.data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.rates) ? data.rates : [];
+  }
+
+  async createExchangeRate(rateData: {
+    store_id: string;
+    currency: string;
+    base_currency: string;
+    rate: number;
+    effective_date: string;
+    source: 'manual' | 'import';
+  }): Promise<ExchangeRate> {
+    const response = await this.privateRequest<ExchangeRate>('/exchange-rates', {
+      method: 'POST',
+      body: JSON.stringify(rateData),
+    });
+    return response.data;
+  }
+
+  async importExchangeRates(store_id: string, base_currency: string, rates: Array<{
+    currency: string;
+    rate: number;
+    effective_date: string;
+  }>): Promise<ExchangeRate[]> {
+    const response = await this.privateRequest<any>('/exchange-rates/import', {
+      method: 'POST',
+      body: JSON.stringify({ store_id, base_currency, rates }),
+    });
+    const data = response.data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.rates) ? data.rates : [];
+  }
+
+  async deleteExchangeRate(rateId: string): Promise<void> {
+    await this.privateRequest(`/exchange-rates/${rateId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Analytics
   async getDashboardAnalytics(params?: {
     store_id?: string;
@@ -1037,6 +1433,14 @@ class ApiService {
     return (response as any).data;
   }
 
+  // Managers approve large till movements at the POS with this PIN
+  async setManagerPin(pin: string): Promise<void> {
+    await this.privateRequest('/auth/manager-pin', {
+      method: 'PUT',
+      body: JSON.stringify({ pin }),
+    });
+  }
+
   async updateUserPassword(userId: string, password: string): Promise<void> {
     await this.privateRequest(`/users/${userId}/password`, {
       method: 'PUT',
@@ -1111,6 +1515,7 @@ class ApiService {
     description?: string;
     receipt_number?: string;
     vendor_name?: string;
+    shift_id?: string; // Till shift a cash paid-out came from
   }): Promise<any> {
     const response = await this.privateRequest<{ success: boolean; data: any }>('/expenses', {
       method: 'POST',
@@ -1249,8 +1654,25 @@ class ApiService {
     email: string;
     currency: string;
     timezone: string;
+    locale?: string;
+    date_format?: StoreDateFormat;
     tax_rate: number;
     low_stock_threshold: number;
+    held_cart_expiry_hours?: number;
+    expiry_alert_days?: number;
+    scale_price_prefixes?: string;
+    loyalty_points_per_unit?: number;
+    loyalty_point_value?: number;
+    loyalty_min_redeem_points?: number;
+    cash_movement_pin_threshold?: number;
+    delivery_zone_mode?: DeliveryZoneMode;
+    delivery_zones?: DeliveryZone[];
+    latitude?: number;
+    longitude?: number;
+    receipt_template?: ReceiptTemplate;
+    tax_mode?: TaxMode;
+    tax_classes?: TaxClass[];
+    category_tax_classes?: Record<string, string>;
   }> {
     const queryParams = new URLSearchParams();
     if (storeId) queryParams.append('store_id', storeId);
@@ -1299,8 +1721,25 @@ class ApiService {
     email?: string;
     currency?: string;
     timezone?: string;
+    locale?: string;
+    date_format?: StoreDateFormat;
     tax_rate?: number;
     low_stock_threshold?: number;
+    held_cart_expiry_hours?: number;
+    expiry_alert_days?: number;
+    scale_price_prefixes?: string;
+    loyalty_points_per_unit?: number;
+    loyalty_point_value?: number;
+    loyalty_min_redeem_points?: number;
+    cash_movement_pin_threshold?: number;
+    delivery_zone_mode?: DeliveryZoneMode;
+    delivery_zones?: DeliveryZone[];
+    latitude?: number;
+    longitude?: number;
+    receipt_template?: ReceiptTemplate;
+    tax_mode?: TaxMode;
+    tax_classes?: TaxClass[];
+    category_tax_classes?: Record<string, string>;
   }): Promise<{
     name: string;
     address: string;
@@ -1308,8 +1747,25 @@ class ApiService {
     email: string;
     currency: string;
     timezone: string;
+    locale?: string;
+    date_format?: StoreDateFormat;
     tax_rate: number;
     low_stock_threshold: number;
+    held_cart_expiry_hours?: number;
+    expiry_alert_days?: number;
+    scale_price_prefixes?: string;
+    loyalty_points_per_unit?: number;
+    loyalty_point_value?: number;
+    loyalty_min_redeem_points?: number;
+    cash_movement_pin_threshold?: number;
+    delivery_zone_mode?: DeliveryZoneMode;
+    delivery_zones?: DeliveryZone[];
+    latitude?: number;
+    longitude?: number;
+    receipt_template?: ReceiptTemplate;
+    tax_mode?: TaxMode;
+    tax_classes?: TaxClass[];
+    category_tax_classes?: Record<string, string>;
   }> {
     const response = await this.privateRequest<{ success: boolean; data: any }>(`/stores/${storeId}/settings`, {
       method: 'PUT',
@@ -1527,6 +1983,7 @@ class ApiService {
     address?: string;
     store_id: string;
     notes?: string;
+    lead_time_days?: number;
     is_active?: boolean;
   }): Promise<Wholesaler> {
     const response = await this.privateRequest<{ success: boolean; data: Wholesaler }>('/wholesalers', {
@@ -1542,6 +1999,7 @@ class ApiService {
     email?: string;
     address?: string;
     notes?: string;
+    lead_time_days?: number;
     is_active?: boolean;
   }): Promise<Wholesaler> {
     const response = await this.privateRequest<{ success: boolean; data: Wholesaler }>(`/wholesalers/${wholesalerId}`, {
@@ -1574,6 +2032,287 @@ class ApiService {
     return (response as any).data;
   }
 
+  // Purchase orders to wholesalers
+  async getPurchaseOrders(params?: {
+    store_id?: string;
+    wholesaler_id?: string;
+    status?: PurchaseOrderStatus[];
+  }): Promise<PurchaseOrder[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id) queryParams.append('store_id', params.store_id);
+    if (params?.wholesaler_id) queryParams.append('wholesaler_id', params.wholesaler_id);
+    if (params?.status?.length) queryParams.append('status', params.status.join(','));
+
+    const response = await this.privateRequest<{ success: boolean; data: PurchaseOrder[] }>(`/purchase-orders?${queryParams}`);
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.orders) ? data.orders : [];
+  }
+
+  async createPurchaseOrder(orderData: {
+    store_id: string;
+    wholesaler_id: string;
+    lines: PurchaseOrderLine[];
+    notes?: string;
+    expected_date?: string;
+  }): Promise<PurchaseOrder> {
+    const response = await this.privateRequest<{ success: boolean; data: PurchaseOrder }>('/purchase-orders', {
+      method: 'POST',
+      body: JSON.stringify(orderData),
+    });
+    return (response as any).data;
+  }
+
+  async updatePurchaseOrder(orderId: string, orderData: {
+    lines?: PurchaseOrderLine[];
+    notes?: string;
+    expected_date?: string;
+    status?: PurchaseOrderStatus;
+  }): Promise<PurchaseOrder> {
+    const response = await this.privateRequest<{ success: boolean; data: PurchaseOrder }>(`/purchase-orders/${orderId}`, {
+      method: 'PUT',
+      body: JSON.stringify(orderData),
+    });
+    return (response as any).data;
+  }
+
+  // Email goes out from the backend; WhatsApp is opened on the device and only recorded here
+  async sendPurchaseOrder(orderId: string, channel: 'email' | 'whatsapp'): Promise<{ order: PurchaseOrder; message?: string }> {
+    const response = await this.privateRequest<{ success: boolean; message?: string; data: PurchaseOrder }>(`/purchase-orders/${orderId}/send`, {
+      method: 'POST',
+      body: JSON.stringify({ channel }),
+    });
+    return { order: (response as any).data, message: (response as any).message };
+  }
+
+  // Adds the delivered quantities to stock_quantity and sets cost_price from the unit cost
+  async receivePurchaseOrder(orderId: string, lines: Array<{
+    product_id: string;
+    quantity: number;
+    unit_cost: number;
+  }>): Promise<PurchaseOrder> {
+    const response = await this.privateRequest<{ success: boolean; data: PurchaseOrder }>(`/purchase-orders/${orderId}/receive`, {
+      method: 'POST',
+      body: JSON.stringify({ lines }),
+    });
+    return (response as any).data;
+  }
+
+  // Promotion rules; the POS applies the active ones to the cart itself
+  async getPromotions(params?: {
+    store_id?: string;
+    is_active?: boolean;
+  }): Promise<Promotion[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id) queryParams.append('store_id', params.store_id);
+    if (params?.is_active !== undefined) queryParams.append('is_active', params.is_active.toString());
+
+    const response = await this.privateRequest<{ success: boolean; data: Promotion[] }>(`/promotions?${queryParams}`);
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.promotions) ? data.promotions : [];
+  }
+
+  async createPromotion(promotionData: Omit<Promotion, '_id' | 'created_at' | 'updated_at'>): Promise<Promotion> {
+    const response = await this.privateRequest<{ success: boolean; data: Promotion }>('/promotions', {
+      method: 'POST',
+      body: JSON.stringify(promotionData),
+    });
+    return (response as any).data;
+  }
+
+  async updatePromotion(promotionId: string, promotionData: Partial<Omit<Promotion, '_id' | 'store_id' | 'created_at' | 'updated_at'>>): Promise<Promotion> {
+    const response = await this.privateRequest<{ success: boolean; data: Promotion }>(`/promotions/${promotionId}`, {
+      method: 'PUT',
+      body: JSON.stringify(promotionData),
+    });
+    return (response as any).data;
+  }
+
+  async deletePromotion(promotionId: string): Promise<void> {
+    await this.privateRequest(`/promotions/${promotionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Customer directory; phone numbers are stored normalized so POS and online orders match
+  async getCustomers(params?: {
+    store_id?: string;
+    search?: string;
+    phone?: string;
+  }): Promise<Customer[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id) queryParams.append('store_id', params.store_id);
+    if (params?.search) queryParams.append('search', params.search);
+    if (params?.phone) queryParams.append('phone', params.phone);
+
+    const response = await this.privateRequest<{ success: boolean; data: Customer[] }>(`/customers?${queryParams}`);
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.customers) ? data.customers : [];
+  }
+
+  async getCustomer(customerId: string): Promise<Customer> {
+    const response = await this.privateRequest<{ success: boolean; data: Customer }>(`/customers/${customerId}`);
+    return (response as any).data;
+  }
+
+  async createCustomer(customerData: {
+    store_id: string;
+    name: string;
+    phone: string;
+    email?: string;
+    notes?: string;
+    credit_limit?: number;
+  }): Promise<Customer> {
+    const response = await this.privateRequest<{ success: boolean; data: Customer }>('/customers', {
+      method: 'POST',
+      body: JSON.stringify(customerData),
+    });
+    return (response as any).data;
+  }
+
+  async updateCustomer(customerId: string, customerData: Partial<Pick<Customer, 'name' | 'phone' | 'email' | 'notes' | 'credit_limit'>>): Promise<Customer> {
+    const response = await this.privateRequest<{ success: boolean; data: Customer }>(`/customers/${customerId}`, {
+      method: 'PUT',
+      body: JSON.stringify(customerData),
+    });
+    return (response as any).data;
+  }
+
+  // POS sales and linked online orders for one customer, newest first
+  async getCustomerTransactions(customerId: string): Promise<Transaction[]> {
+    const response = await this.privateRequest<{ success: boolean; data: Transaction[] }>(`/customers/${customerId}/transactions`);
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.transactions) ? data.transactions : [];
+  }
+
+  // Settlements against the customer's tab; on-account sales add to the balance on the backend
+  async getAccountPayments(customerId: string): Promise<AccountPayment[]> {
+    const response = await this.privateRequest<{ success: boolean; data: AccountPayment[] }>(`/customers/${customerId}/account-payments`);
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.payments) ? data.payments : [];
+  }
+
+  async recordAccountPayment(customerId: string, paymentData: {
+    amount: number;
+    payment_type: AccountPayment['payment_type'];
+    notes?: string;
+  }): Promise<{ payment: AccountPayment; customer: Customer }> {
+    const response = await this.privateRequest<{ success: boolean; data: { payment: AccountPayment; customer: Customer } }>(`/customers/${customerId}/account-payments`, {
+      method: 'POST',
+      body: JSON.stringify(paymentData),
+    });
+    return (response as any).data;
+  }
+
+  async getCustomerStatementWhatsAppLink(customerId: string): Promise<{ link: string }> {
+    const response = await this.privateRequest<{ success: boolean; data: { link: string } }>(`/customers/${customerId}/statement/whatsapp-link`);
+    return (response as any).data;
+  }
+
+  // Till shifts; the cashier's open shift, if any, comes back as null rather than a 404
+  async getCurrentShift(storeId: string): Promise<Shift | null> {
+    const response = await this.privateRequest<{ success: boolean; data: Shift | null }>(`/shifts/current?store_id=${storeId}`);
+    return (response as any).data || null;
+  }
+
+  async getShifts(params?: {
+    store_id?: string;
+    status?: Shift['status'];
+    review_status?: ShiftReviewStatus;
+    start_date?: string;
+    end_date?: string;
+  }): Promise<Shift[]> {
+    const queryParams = new URLSearchParams();
+    if (params?.store_id) queryParams.append('store_id', params.store_id);
+    if (params?.status) queryParams.append('status', params.status);
+    if (params?.review_status) queryParams.append('review_status', params.review_status);
+    if (params?.start_date) queryParams.append('start_date', params.start_date);
+    if (params?.end_date) queryParams.append('end_date', params.end_date);
+
+    const response = await this.privateRequest<{ success: boolean; data: Shift[] }>(`/shifts?${queryParams}`);
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.shifts) ? data.shifts : [];
+  }
+
+  async openShift(shiftData: {
+    store_id: string;
+    opening_float: number;
+    denomination_counts?: Record<string, number>;
+  }): Promise<Shift> {
+    const response = await this.privateRequest<{ success: boolean; data: Shift }>('/shifts', {
+      method: 'POST',
+      body: JSON.stringify(shiftData),
+    });
+    return (response as any).data;
+  }
+
+  async recordShiftMovement(shiftId: string, movementData: {
+    type: ShiftCashMovement['type'];
+    amount: number;
+    reason?: string;
+    manager_pin?: string; // Checked on the backend when the amount is over the store threshold
+  }): Promise<Shift> {
+    const response = await this.privateRequest<{ success: boolean; data: Shift }>(`/shifts/${shiftId}/movements`, {
+      method: 'POST',
+      body: JSON.stringify(movementData),
+    });
+    return (response as any).data;
+  }
+
+  // The backend works out expected_cash, variance and sales_by_method from the shift's own records at close;
+  // the till only sends what was counted
+  async closeShift(shiftId: string, closeData: {
+    denomination_counts: Record<string, number>;
+    counted_cash: number;
+    closing_notes?: string;
+  }): Promise<Shift> {
+    const response = await this.privateRequest<{ success: boolean; data: Shift }>(`/shifts/${shiftId}/close`, {
+      method: 'POST',
+      body: JSON.stringify(closeData),
+    });
+    return (response as any).data;
+  }
+
+  async reviewShift(shiftId: string, reviewData: {
+    review_status: Exclude<ShiftReviewStatus, 'pending'>;
+    review_notes?: string;
+  }): Promise<Shift> {
+    const response = await this.privateRequest<{ success: boolean; data: Shift }>(`/shifts/${shiftId}/review`, {
+      method: 'PUT',
+      body: JSON.stringify(reviewData),
+    });
+    return (response as any).data;
+  }
+
+  // Online orders for the dispatch board; same feed as the customer orders admin page
+  async getCustomerOrders(): Promise<CustomerOrder[]> {
+    const response = await this.privateRequest<{ success: boolean; data: { orders: CustomerOrder[] } }>('/admin/customer-orders');
+    const data = (response as any).data;
+    if (Array.isArray(data)) return data;
+    return Array.isArray(data?.orders) ? data.orders : [];
+  }
+
+  // The backend stamps assigned/out/delivered times and completes the order on delivery.
+  // Delivering also posts the rider's delivery_payment ledger entry (cash collected plus the fee)
+  // in the same request, so an order can't end up delivered without it.
+  // Passing null for both sends the order back to the ready column.
+  async updateOrderDispatch(orderId: string, dispatchData: {
+    rider_id: string | null;
+    dispatch_status: DispatchStatus | null;
+    cash_collected?: number; // Required when dispatch_status is 'delivered'
+  }): Promise<CustomerOrder> {
+    const response = await this.privateRequest<{ success: boolean; data: CustomerOrder }>(`/admin/customer-orders/${orderId}/dispatch`, {
+      method: 'PUT',
+      body: JSON.stringify(dispatchData),
+    });
+    return (response as any).data;
+  }
+
   async exportWholesalers(params?: {
     format?: 'pdf' | 'excel';
     include_products?: boolean;
@@ -1597,3 +2336,27 @@ class ApiService {
 }
 
 export const apiService = new ApiService();
+
+/**
+ * Whether an error thrown by the API service means the backend could not be reached
+ * (offline or DNS/CORS failure) rather than a rejected request. A timeout is not one:
+ * the request may still have been recorded, see isRequestTimeout
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return true;
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  return error.message.includes('Connection issue') ||
+    error.message.includes('Failed to fetch') ||
+    error.message.includes('NetworkError');
+};
+
+/**
+ * Whether a request was cut off by the client-side timeout, in which case the
+ * backend may or may not have processed it
+ */
+export const isRequestTimeout = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
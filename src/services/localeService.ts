@@ -0,0 +1,54 @@
+import {
+  LocaleSettings,
+  DEFAULT_LOCALE_SETTINGS,
+  formatMoney,
+  formatNumberValue,
+  formatDateValue,
+  formatDateTimeValue,
+  formatTimeValue,
+} from '../utils/localeUtils';
+
+/**
+ * Holds the current store's currency, number locale, date format and
+ * timezone so formatting outside React (utils, CSV exports, printing)
+ * follows the same settings as the UI. StoreContext reconfigures it
+ * whenever the current store changes; components should prefer the
+ * useLocale hook so they re-render on a switch.
+ */
+class LocaleService {
+  private settings: LocaleSettings = DEFAULT_LOCALE_SETTINGS;
+
+  configure(settings: LocaleSettings): void {
+    this.settings = settings;
+  }
+
+  getSettings(): LocaleSettings {
+    return this.settings;
+  }
+
+  getTimezone(): string {
+    return this.settings.timezone;
+  }
+
+  formatCurrency(amount: number, currency?: string): string {
+    return formatMoney(amount, this.settings, currency);
+  }
+
+  formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return formatNumberValue(value, this.settings, options);
+  }
+
+  formatDate(date: Date | string): string {
+    return formatDateValue(date, this.settings);
+  }
+
+  formatDateTime(date: Date | string): string {
+    return formatDateTimeValue(date, this.settings);
+  }
+
+  formatTime(date: Date | string): string {
+    return formatTimeValue(date, this.settings);
+  }
+}
+
+export const localeService = new LocaleService();
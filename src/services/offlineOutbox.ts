@@ -0,0 +1,130 @@
+import { OutboxEntry } from '../types';
+
+/**
+ * Durable IndexedDB outbox for sales taken while the backend is unreachable.
+ * Entries are replayed in creation order once connectivity returns; each one
+ * carries a client-generated idempotency key so a replay that reaches the
+ * server twice is only recorded once.
+ */
+
+const DB_NAME = 'greep-market-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'transaction_outbox';
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+/**
+ * Generate a unique idempotency key for a client-side transaction
+ */
+export const generateIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof (crypto as any).randomUUID === 'function') {
+    return (crypto as any).randomUUID();
+  }
+  // Fallback for older browsers / insecure contexts
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
+};
+
+class OfflineOutboxService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private listeners: Set<OutboxListener> = new Set();
+
+  isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.isSupported()) {
+      return Promise.reject(new Error('Offline storage is not available in this browser'));
+    }
+
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            store.createIndex('created_at', 'created_at');
+          }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+
+    return this.dbPromise;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDb();
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = operation(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error || request.error);
+      tx.onabort = () => reject(tx.error || new Error('Outbox transaction aborted'));
+    });
+  }
+
+  // Subscribe to outbox changes; returns an unsubscribe function
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    try {
+      const entries = await this.list();
+      this.listeners.forEach(listener => listener(entries));
+    } catch (error) {
+      console.error('Failed to read offline outbox:', error);
+    }
+  }
+
+  // List all entries, oldest first (replay order)
+  async list(): Promise<OutboxEntry[]> {
+    const entries = await this.withStore<OutboxEntry[]>('readonly', store => store.getAll());
+    return (entries || []).sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async enqueue(entry: Omit<OutboxEntry, 'status' | 'attempts' | 'created_at'>): Promise<OutboxEntry> {
+    const newEntry: OutboxEntry = {
+      ...entry,
+      status: 'pending',
+      attempts: 0,
+      created_at: new Date().toISOString(),
+    };
+    await this.withStore('readwrite', store => store.put(newEntry));
+    await this.notify();
+    return newEntry;
+  }
+
+  async update(id: string, updates: Partial<Omit<OutboxEntry, 'id'>>): Promise<void> {
+    const existing = await this.withStore<OutboxEntry | undefined>('readonly', store => store.get(id));
+    if (!existing) return;
+    await this.withStore('readwrite', store => store.put({ ...existing, ...updates }));
+    await this.notify();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.withStore('readwrite', store => store.delete(id));
+    await this.notify();
+  }
+}
+
+export const offlineOutbox = new OfflineOutboxService();
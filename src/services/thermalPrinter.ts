@@ -0,0 +1,230 @@
+import { RasterImage } from '../utils/escposEncoder';
+
+/**
+ * Sends ESC/POS byte streams to a thermal receipt printer over WebUSB or
+ * Web Serial. Browsers without either API (or a cashier without a connected
+ * printer) fall back to downloading the raw stream as a .bin file, which can
+ * be sent to the printer with any raw-print utility.
+ */
+
+export type PrinterConnectionType = 'usb' | 'serial';
+
+type PrinterListener = (connection: PrinterConnectionType | null) => void;
+
+// Most receipt printers write in small bulk packets; larger writes can stall the buffer
+const CHUNK_SIZE = 512;
+const SERIAL_BAUD_RATE = 9600;
+const USB_PRINTER_CLASS = 0x07;
+
+class ThermalPrinterService {
+  private usbDevice: any = null;
+  private usbEndpoint: number | null = null;
+  private serialPort: any = null;
+  private listeners: Set<PrinterListener> = new Set();
+
+  isUsbSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!(navigator as any).usb;
+  }
+
+  isSerialSupported(): boolean {
+    return typeof navigator !== 'undefined' && !!(navigator as any).serial;
+  }
+
+  getConnection(): PrinterConnectionType | null {
+    if (this.usbDevice && this.usbEndpoint !== null) return 'usb';
+    if (this.serialPort) return 'serial';
+    return null;
+  }
+
+  isConnected(): boolean {
+    return this.getConnection() !== null;
+  }
+
+  subscribe(listener: PrinterListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const connection = this.getConnection();
+    this.listeners.forEach(listener => listener(connection));
+  }
+
+  private async openUsbDevice(device: any): Promise<void> {
+    if (!device.opened) {
+      await device.open();
+    }
+    if (device.configuration === null) {
+      await device.selectConfiguration(1);
+    }
+
+    // Find the printer interface and its bulk OUT endpoint
+    for (const iface of device.configuration.interfaces) {
+      for (const alternate of iface.alternates) {
+        const endpoint = alternate.endpoints.find((ep: any) => ep.direction === 'out' && ep.type === 'bulk');
+        if (endpoint && (alternate.interfaceClass === USB_PRINTER_CLASS || alternate.interfaceClass === 0xff)) {
+          await device.claimInterface(iface.interfaceNumber);
+          this.usbDevice = device;
+          this.usbEndpoint = endpoint.endpointNumber;
+          this.notify();
+          return;
+        }
+      }
+    }
+
+    throw new Error('No printer interface found on this USB device');
+  }
+
+  /**
+   * Ask the user to pick a printer. Must be called from a user gesture.
+   */
+  async connect(type: PrinterConnectionType): Promise<void> {
+    await this.disconnect();
+
+    if (type === 'usb') {
+      if (!this.isUsbSupported()) {
+        throw new Error('WebUSB is not supported in this browser');
+      }
+      const device = await (navigator as any).usb.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] });
+      await this.openUsbDevice(device);
+      return;
+    }
+
+    if (!this.isSerialSupported()) {
+      throw new Error('Web Serial is not supported in this browser');
+    }
+    const port = await (navigator as any).serial.requestPort();
+    await port.open({ baudRate: SERIAL_BAUD_RATE });
+    this.serialPort = port;
+    this.notify();
+  }
+
+  /**
+   * Reconnect to a printer the user already granted access to, without a prompt
+   */
+  async reconnect(): Promise<boolean> {
+    if (this.isConnected()) return true;
+
+    try {
+      if (this.isUsbSupported()) {
+        const devices = await (navigator as any).usb.getDevices();
+        if (devices.length > 0) {
+          await this.openUsbDevice(devices[0]);
+          return true;
+        }
+      }
+      if (this.isSerialSupported()) {
+        const ports = await (navigator as any).serial.getPorts();
+        if (ports.length > 0) {
+          await ports[0].open({ baudRate: SERIAL_BAUD_RATE });
+          this.serialPort = ports[0];
+          this.notify();
+          return true;
+        }
+      }
+    } catch (error) {
+      console.error('Failed to reconnect to receipt printer:', error);
+    }
+    return false;
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      if (this.usbDevice) {
+        await this.usbDevice.close();
+      }
+      if (this.serialPort) {
+        await this.serialPort.close();
+      }
+    } catch (error) {
+      console.error('Failed to disconnect receipt printer:', error);
+    } finally {
+      this.usbDevice = null;
+      this.usbEndpoint = null;
+      this.serialPort = null;
+      this.notify();
+    }
+  }
+
+  async print(data: Uint8Array): Promise<void> {
+    if (this.usbDevice && this.usbEndpoint !== null) {
+      for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+        await this.usbDevice.transferOut(this.usbEndpoint, data.slice(offset, offset + CHUNK_SIZE));
+      }
+      return;
+    }
+
+    if (this.serialPort) {
+      const writer = this.serialPort.writable.getWriter();
+      try {
+        for (let offset = 0; offset < data.length; offset += CHUNK_SIZE) {
+          await writer.write(data.slice(offset, offset + CHUNK_SIZE));
+        }
+      } finally {
+        writer.releaseLock();
+      }
+      return;
+    }
+
+    throw new Error('No receipt printer connected');
+  }
+
+  // Raw-download fallback for browsers without WebUSB/Web Serial
+  download(data: Uint8Array, filename: string): void {
+    const blob = new Blob([data], { type: 'application/octet-stream' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }
+}
+
+export const thermalPrinter = new ThermalPrinterService();
+
+/**
+ * Convert a logo data URL into a 1-bit raster no wider than the paper
+ */
+export const rasterizeLogo = (dataUrl: string, maxWidthDots: number): Promise<RasterImage> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxWidthDots / image.width);
+      const width = Math.max(8, Math.floor((image.width * scale) / 8) * 8);
+      const height = Math.max(1, Math.round(image.height * scale));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      // Transparent areas print as paper, not black
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      context.drawImage(image, 0, 0, width, height);
+
+      const pixels = context.getImageData(0, 0, width, height).data;
+      const bytesPerRow = width / 8;
+      const data = new Uint8Array(bytesPerRow * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const index = (y * width + x) * 4;
+          const luminance = 0.299 * pixels[index] + 0.587 * pixels[index + 1] + 0.114 * pixels[index + 2];
+          if (luminance < 128) {
+            data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+          }
+        }
+      }
+      resolve({ width, height, data });
+    };
+    image.onerror = () => reject(new Error('Failed to load receipt logo'));
+    image.src = dataUrl;
+  });
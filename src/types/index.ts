@@ -38,14 +38,83 @@ export interface Product {
   created_by: string;
   store_id: string;
   wholesaler_id?: string; // Link to wholesaler
+  tax_class_id?: string; // Overrides the category's tax class
+  track_batches?: boolean; // Stock is held in batches with expiry dates and sold first-expiry-first-out
+  parent_product_id?: string; // Set on variants; the parent carries the shared name, category and images
+  variant_attributes?: Record<string, string>; // On variants, e.g. { Size: 'L', Colour: 'Red' }
+  variant_options?: ProductVariantOption[]; // On parents, the attributes their variants are built from
   created_at: Date;
   updated_at: Date;
   price_history?: PriceHistory[];
 }
 
+export interface ProductVariantOption {
+  name: string;
+  values: string[];
+}
+
+// One row of a parent's variant list; rows without an _id are created on save
+export interface ProductVariantInput {
+  _id?: string;
+  name: string;
+  variant_attributes: Record<string, string>;
+  sku: string;
+  barcode?: string;
+  price: number;
+  cost_price?: number;
+  stock_quantity?: number; // Opening stock, only used when the variant is created
+}
+
 export interface PaymentMethod {
-  type: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card';
-  amount: number;
+  type: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card' | 'loyalty_points' | 'on_account';
+  amount: number; // Always in the store's base currency
+  currency?: string; // Currency the customer paid in; base currency when omitted
+  original_amount?: number; // Amount tendered in `currency`
+  exchange_rate?: number; // Base currency units per unit of `currency` at the time of payment
+  points?: number; // loyalty_points only: points redeemed for `amount`
+}
+
+// A shopper known by phone; in-store sales and catalog orders share the same record
+export interface Customer {
+  _id: string;
+  store_id: string;
+  name: string;
+  phone: string; // Stored normalized, see normalizeCustomerPhone
+  email?: string;
+  notes?: string;
+  loyalty_points: number; // Current balance
+  lifetime_value: number; // Total spent, net of refunds, in the base currency
+  visit_count: number;
+  last_purchase_at?: Date;
+  credit_limit?: number; // Most the customer may owe on account; on-account sales are off when unset or 0
+  account_balance?: number; // Amount currently owed from on-account sales
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A settlement against a customer's on-account balance, taken after the sale
+export interface AccountPayment {
+  _id: string;
+  store_id: string;
+  customer_id: string;
+  amount: number; // In the base currency
+  payment_type: Exclude<PaymentMethod['type'], 'loyalty_points' | 'on_account'> | 'refund'; // refund: an on-account sale was returned
+  notes?: string;
+  received_by: string;
+  received_by_name?: string;
+  created_at: Date;
+}
+
+// How many units of the base currency one unit of `currency` buys from effective_date on
+export interface ExchangeRate {
+  _id: string;
+  store_id: string;
+  currency: string;
+  base_currency: string;
+  rate: number;
+  effective_date: string; // YYYY-MM-DD
+  source: 'manual' | 'import';
+  created_at: Date;
 }
 
 export interface Rider {
@@ -70,6 +139,9 @@ export interface RiderCashTransaction {
   type: 'give_cash' | 'reconcile' | 'delivery_payment';
   amount: number;
   description?: string;
+  order_id?: string; // delivery_payment only: amount is the cash collected for this order
+  order_number?: string;
+  delivery_fee?: number;
   given_by: string; // User who gave the cash
   given_by_name: string;
   store_id: string;
@@ -77,28 +149,321 @@ export interface RiderCashTransaction {
   updated_at: Date;
 }
 
+export interface RiderReconciliationDelivery {
+  order_id?: string;
+  order_number?: string;
+  cash_collected: number;
+  delivery_fee: number;
+  delivered_at: Date | string;
+}
+
+// A rider's signed-off end-of-day cash hand-in; one per rider per day
+export interface RiderReconciliation {
+  _id: string;
+  rider_id: string;
+  rider_name: string;
+  store_id: string;
+  date: string; // Local YYYY-MM-DD
+  deliveries: RiderReconciliationDelivery[];
+  float_given: number;
+  cash_collected: number;
+  expected_cash: number;
+  returned_cash: number;
+  variance: number; // returned - expected; negative is a shortage
+  reason?: string;
+  signed_off_by: string;
+  signed_off_by_name?: string;
+  created_at: Date | string;
+}
+
+export interface CustomerOrderItem {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export type DispatchStatus = 'assigned' | 'out_for_delivery' | 'delivered';
+
+// Online catalog order; the dispatch fields are filled in once a ready delivery is handed to a rider
+export interface CustomerOrder {
+  _id: string;
+  orderNumber: string;
+  customerName: string;
+  customerPhone: string;
+  customerEmail?: string;
+  items: CustomerOrderItem[];
+  paymentMethod: string;
+  deliveryMethod: string;
+  deliveryAddress?: string;
+  notes?: string;
+  status: 'pending' | 'confirmed' | 'preparing' | 'ready' | 'completed';
+  subtotal: number;
+  deliveryFee: number;
+  deliveryZoneName?: string;
+  total: number;
+  createdAt: string;
+  updatedAt: string;
+  whatsappSent: boolean;
+  riderId?: string;
+  riderName?: string;
+  dispatchStatus?: DispatchStatus;
+  assignedAt?: string;
+  outForDeliveryAt?: string;
+  deliveredAt?: string;
+}
+
+// Cash moved in or out of the till mid-shift other than sales and refunds
+export interface ShiftCashMovement {
+  _id: string;
+  shift_id: string;
+  type: 'paid_in' | 'payout' | 'drop'; // payout is a paid-out, e.g. petty cash for a supplier
+  amount: number; // In the base currency
+  reason?: string;
+  expense_id?: string; // Expense recorded for a paid-out
+  approved_by?: string; // Manager whose PIN allowed a movement over the store threshold
+  approved_by_name?: string;
+  created_by: string;
+  created_by_name?: string;
+  created_at: Date;
+}
+
+export type ShiftReviewStatus = 'pending' | 'approved' | 'flagged';
+
+// A cashier's session on the till, from the counted opening float to the close-out count
+export interface Shift {
+  _id: string;
+  store_id: string;
+  cashier_id: string;
+  cashier_name?: string;
+  status: 'open' | 'closed';
+  opened_at: Date;
+  opening_float: number;
+  movements: ShiftCashMovement[];
+  closed_at?: Date;
+  denomination_counts?: Record<string, number>; // Denomination value -> number of notes/coins counted
+  counted_cash?: number;
+  expected_cash?: number; // Snapshot taken at close
+  variance?: number; // counted_cash - expected_cash; negative is short
+  sales_by_method?: Record<string, number>; // Snapshot taken at close
+  closing_notes?: string;
+  review_status?: ShiftReviewStatus; // Set once the shift is closed
+  review_notes?: string;
+  reviewed_by?: string;
+  reviewed_by_name?: string;
+  reviewed_at?: Date;
+}
+
 export interface Transaction {
   _id: string;
   store_id: string;
   customer_id?: string;
+  customer_name?: string;
   items: TransactionItem[];
   subtotal: number;
   discount_amount: number;
   total_amount: number;
   payment_methods: PaymentMethod[]; // Multiple payment methods
   payment_method?: 'cash' | 'pos_isbank_transfer' | 'naira_transfer' | 'crypto_payment' | 'card'; // Legacy single payment method (for backward compatibility)
-  payment_status: 'pending' | 'completed' | 'failed' | 'refunded';
+  payment_status: 'pending' | 'completed' | 'failed' | 'refunded' | 'partially_refunded';
   status: 'pending' | 'completed' | 'cancelled' | 'voided';
   // Accept both legacy underscore and new hyphenated variants
   order_source: 'in_store' | 'in-store' | 'online';
   rider_id?: string; // Optional rider for delivery orders
   delivery_fee?: number;
+  delivery_zone_id?: string; // Zone the delivery fee was worked out from
   cashier_id: string;
+  shift_id?: string; // Till session the sale was rung up in
   notes?: string;
+  client_reference?: string; // Client-generated idempotency key
+  sync_status?: 'pending' | 'failed'; // Set while the sale is still in the offline outbox
+  refunded_amount?: number; // Sum of all refunds recorded against this sale
+  tax_amount?: number; // Tax included in total_amount
+  tax_mode?: TaxMode; // Whether item prices already included tax at the time of sale
+  tax_breakdown?: TaxBreakdownLine[];
+  currency?: string; // Base currency the amounts were recorded in
+  change_amount?: number; // Change handed back, in the base currency
+  loyalty_points_earned?: number; // Credited to the customer when the sale is recorded
+  loyalty_points_redeemed?: number;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface RefundItem {
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number; // Amount paid back for this line (after the sale's discount)
+  restock: boolean; // Whether the returned quantity went back into inventory
+  unit_cost?: number; // Cost price when the refund was taken, so a restocked line only gives back its margin
+  tax_rate?: number;
+  tax_amount?: number; // Tax portion of total_price
+}
+
+// A return recorded against an original sale; counts as negative revenue
+export interface Refund {
+  _id: string;
+  store_id: string;
+  transaction_id: string; // Original sale
+  items: RefundItem[];
+  total_amount: number;
+  payment_methods: PaymentMethod[]; // How the money was paid back
+  reason?: string;
+  cashier_id: string;
+  created_at: Date;
+}
+
+export interface OutboxEntry {
+  id: string; // Idempotency key, also sent as client_reference
+  payload: any; // Transaction payload as it will be posted to /transactions
+  stock_adjustments: Array<{
+    product_id: string;
+    quantity: number;
+  }>;
+  total_amount: number;
+  transaction_id?: string; // Set once the backend has accepted the sale
+  status: 'pending' | 'syncing' | 'failed';
+  attempts: number;
+  last_error?: string;
+  created_at: string; // ISO 8601, used for replay ordering
+}
+
+export type StockTransferStatus = 'draft' | 'dispatched' | 'received' | 'cancelled';
+
+export interface StockTransferLine {
+  product_id: string; // Product in the source store
+  product_name: string;
+  sku?: string;
+  barcode?: string;
+  unit?: string;
+  quantity: number; // Sent
+  received_quantity?: number; // Counted at the destination on receipt
+  note?: string; // Reason given for a discrepancy
+}
+
+// Stock moved between two branches; between dispatch and receipt it is held as in transit
+export interface StockTransfer {
+  _id: string;
+  transfer_number: string;
+  from_store_id: string;
+  from_store_name?: string;
+  to_store_id: string;
+  to_store_name?: string;
+  status: StockTransferStatus;
+  lines: StockTransferLine[];
+  notes?: string;
+  has_discrepancy?: boolean;
+  created_by: string;
+  dispatched_by?: string;
+  received_by?: string;
+  created_at: Date;
+  dispatched_at?: Date;
+  received_at?: Date;
+}
+
+export type StockMovementType =
+  | 'sale'
+  | 'refund'
+  | 'restock'
+  | 'stock_take'
+  | 'transfer_out'
+  | 'transfer_in'
+  | 'po_receipt'
+  | 'damage'
+  | 'waste'
+  | 'import'
+  | 'adjustment';
+
+// One append-only entry in a product's stock ledger; written by the backend whenever stock changes
+export interface StockMovement {
+  _id: string;
+  product_id: string;
+  product_name?: string;
+  store_id: string;
+  type: StockMovementType;
+  quantity_change: number; // Negative when stock leaves
+  balance_after: number;
+  reference_type?: 'TRANSACTION' | 'REFUND' | 'STOCK_TAKE' | 'STOCK_TRANSFER' | 'PURCHASE_ORDER' | 'IMPORT';
+  reference_id?: string;
+  reference_number?: string; // Receipt, transfer, PO or session number shown to staff
+  reason?: string;
+  notes?: string;
+  user_id: string;
+  user_name?: string;
+  created_at: Date;
+}
+
+export type StockTakeStatus = 'in_progress' | 'completed' | 'cancelled';
+
+// Reason codes recorded on inventory adjustments posted from a stock-take
+export type StockAdjustmentReason = 'stock_take' | 'damaged' | 'expired' | 'theft' | 'supplier_error' | 'data_entry';
+
+export interface StockTakeLine {
+  product_id: string;
+  product_name: string;
+  sku?: string;
+  barcode?: string;
+  unit?: string;
+  expected_quantity: number; // Stock on hand when the session started
+  counted_quantity?: number; // Undefined until the shelf has been counted
+  unit_cost: number;
+  approved?: boolean; // Only approved lines are posted as adjustments
+}
+
+// What an approved line posts: the counted difference, not the counted level
+export interface StockTakeAdjustment {
+  product_id: string;
+  adjustment_type: 'add' | 'subtract';
+  quantity: number;
+}
+
+// A shelf count, optionally limited to one category; kept after completion for the audit trail
+export interface StockTake {
+  _id: string;
+  session_number: string;
+  store_id: string;
+  category?: string;
+  status: StockTakeStatus;
+  lines: StockTakeLine[];
+  reason_code?: StockAdjustmentReason;
+  notes?: string;
+  created_by: string;
+  completed_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+  completed_at?: Date;
+}
+
+export type TaxMode = 'inclusive' | 'exclusive';
+
+// Named VAT rate assigned to categories or individual products
+export type DeliveryZoneMode = 'area' | 'distance';
+
+// A named area with a flat fee, or a distance band when the store prices delivery by distance
+export interface DeliveryZone {
+  _id: string;
+  name: string;
+  fee: number;
+  max_distance_km?: number; // Distance bands only: covers addresses up to this far from the store
+  free_delivery_threshold?: number; // Orders worth at least this deliver free; 0 turns it off
+  minimum_order?: number; // Smallest order delivered to this zone; 0 turns it off
+}
+
+export interface TaxClass {
+  _id: string;
+  name: string;
+  rate: number; // Percentage
+}
+
+// Tax collected on a sale at one rate
+export interface TaxBreakdownLine {
+  rate: number;
+  taxable_amount: number; // Net of tax
+  tax_amount: number;
+}
+
 export interface TransactionItem {
   _id: string;
   product_id: string;
@@ -108,6 +473,68 @@ export interface TransactionItem {
   total_price: number;
   discount_amount?: number;
   product_image?: string; // Primary product image URL
+  tax_rate?: number; // Percentage applied to this line
+  tax_amount?: number; // Tax on this line after its share of the sale discount
+  unit?: string; // Selling unit; kg, g and l lines carry a weighed quantity
+  promotion_id?: string; // Promotion behind this line's discount_amount
+  promotion_name?: string;
+}
+
+export type PromotionType = 'buy_x_get_y' | 'multi_buy' | 'percent_off' | 'bundle';
+
+export interface PromotionBundleItem {
+  product_id: string;
+  quantity: number;
+}
+
+// Rules are applied automatically at the POS. The optional day and time window turns any rule into a happy hour.
+export interface Promotion {
+  _id: string;
+  store_id: string;
+  name: string;
+  type: PromotionType;
+  is_active: boolean;
+  product_ids?: string[]; // Qualifying products; percent_off may use a category instead
+  category?: string; // percent_off only; with neither products nor category it covers the whole store
+  buy_quantity?: number; // buy_x_get_y: units to buy; multi_buy: units in a deal
+  get_quantity?: number; // buy_x_get_y: cheapest units free per deal
+  deal_price?: number; // multi_buy and bundle: price paid per deal
+  percent_off?: number;
+  bundle_items?: PromotionBundleItem[];
+  start_date?: string; // YYYY-MM-DD, store-local
+  end_date?: string;
+  days_of_week?: number[]; // 0 = Sunday
+  start_time?: string; // HH:mm, store-local; may run past midnight
+  end_time?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// A POS cart parked on this device so the cashier can serve another customer
+export interface HeldCart {
+  id: string;
+  name: string;
+  note?: string;
+  items: TransactionItem[];
+  discount: string;
+  customer_id?: string; // Customer attached at the till, re-attached on recall
+  customer_name?: string;
+  cashier_id: string;
+  held_at: string; // ISO timestamp
+}
+
+export type ReceiptPaperWidth = 58 | 80;
+
+// How a store writes calendar dates
+export type StoreDateFormat = 'DD.MM.YYYY' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+// Store-level layout for printed receipts
+export interface ReceiptTemplate {
+  logo?: string; // Data URL, already scaled down for the paper width
+  header_text: string;
+  footer_text: string;
+  paper_width: ReceiptPaperWidth;
+  show_tax_lines: boolean;
 }
 
 export interface InventoryAlert {
@@ -121,6 +548,40 @@ export interface InventoryAlert {
   created_at: Date;
 }
 
+// A lot of one product received together. Sales draw batches down first-expiry-first-out
+export interface ProductBatch {
+  _id: string;
+  product_id: string;
+  store_id: string;
+  batch_number: string;
+  quantity: number; // Remaining in this batch
+  initial_quantity?: number;
+  expiry_date?: string; // YYYY-MM-DD; batches without one are sold last
+  cost_price?: number;
+  purchase_order_id?: string;
+  received_at: Date;
+}
+
+// Quantity of a sale taken from one batch
+export interface BatchAllocation {
+  batch_id: string;
+  batch_number: string;
+  quantity: number;
+}
+
+// Sits alongside InventoryAlert for batches past or close to their expiry date
+export interface ExpiryAlert {
+  _id: string; // Batch id
+  product_id: string;
+  product_name: string;
+  batch_number: string;
+  quantity: number;
+  expiry_date: string;
+  days_until_expiry: number; // Negative once expired
+  alert_type: 'expired' | 'expiring_soon';
+  store_id: string;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -169,6 +630,7 @@ export interface DashboardMetrics {
   totalExpenses: number;
   monthlyExpenses: number;
   netProfit: number;
+  totalRefunds?: number; // Refunds issued in the period (already deducted from totalSales)
   // New individual vs yesterday metrics
   salesVsYesterday?: number;
   expensesVsYesterday?: number;
@@ -237,6 +699,7 @@ export interface Wholesaler {
   address?: string;
   store_id: string;
   notes?: string;
+  lead_time_days?: number; // Days from placing an order to delivery, used for reorder points
   is_active: boolean;
   created_at: Date;
   updated_at: Date;
@@ -254,6 +717,36 @@ export interface LowStockProduct {
   product_image?: string;
 }
 
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  product_id: string;
+  product_name: string;
+  unit?: string;
+  quantity_ordered: number;
+  quantity_received: number; // Running total across deliveries
+  unit_cost: number; // Agreed cost per unit; becomes the product's cost_price on receipt
+}
+
+export interface PurchaseOrder {
+  _id: string;
+  po_number: string;
+  store_id: string;
+  wholesaler_id: string;
+  wholesaler_name?: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  total_cost: number;
+  notes?: string;
+  expected_date?: string; // YYYY-MM-DD
+  sent_via?: 'email' | 'whatsapp';
+  sent_at?: Date;
+  received_at?: Date; // Last delivery
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface AppState {
   products: Product[];
   sales: Transaction[];
@@ -0,0 +1,99 @@
+import {
+  getOnAccountAmount,
+  getAvailableCredit,
+  buildAccountStatement,
+  calculateAccountAging,
+} from '../accountUtils';
+
+const sale = (id: string, date: string, onAccount: number, overrides: Record<string, any> = {}) => ({
+  _id: id,
+  created_at: new Date(date),
+  payment_methods: [
+    { type: 'cash' as const, amount: 10 },
+    { type: 'on_account' as const, amount: onAccount },
+  ],
+  status: 'completed' as const,
+  ...overrides,
+});
+
+const payment = (id: string, date: string, amount: number) => ({
+  _id: id,
+  created_at: new Date(date),
+  amount,
+  payment_type: 'cash' as const,
+});
+
+describe('Account Utils', () => {
+  describe('getOnAccountAmount', () => {
+    it('should only count the on-account lines of a sale', () => {
+      expect(getOnAccountAmount(sale('s1', '2024-03-01', 45.5))).toBe(45.5);
+      expect(getOnAccountAmount({ payment_methods: [{ type: 'cash', amount: 20 }] })).toBe(0);
+    });
+  });
+
+  describe('getAvailableCredit', () => {
+    it('should leave what the credit limit allows on top of the balance', () => {
+      expect(getAvailableCredit({ credit_limit: 500, account_balance: 320 })).toBe(180);
+      expect(getAvailableCredit({ credit_limit: 100, account_balance: 150 })).toBe(0);
+      expect(getAvailableCredit({})).toBe(0);
+    });
+  });
+
+  describe('buildAccountStatement', () => {
+    const sales = [
+      sale('aaaaaa000001', '2024-03-01', 100),
+      sale('aaaaaa000002', '2024-03-10', 50),
+      sale('aaaaaa000003', '2024-03-12', 999, { status: 'voided' }),
+    ];
+    const payments = [payment('p1', '2024-03-05', 60)];
+
+    it('should list charges and payments with a running balance', () => {
+      const statement = buildAccountStatement(sales, payments);
+
+      expect(statement.entries.map(entry => [entry.type, entry.amount, entry.balance])).toEqual([
+        ['charge', 100, 100],
+        ['payment', -60, 40],
+        ['charge', 50, 90],
+      ]);
+      expect(statement.total_charged).toBe(150);
+      expect(statement.total_paid).toBe(60);
+      expect(statement.closing_balance).toBe(90);
+    });
+
+    it('should fold earlier activity into the opening balance', () => {
+      const statement = buildAccountStatement(sales, payments, new Date('2024-03-06'));
+
+      expect(statement.opening_balance).toBe(40);
+      expect(statement.entries).toHaveLength(1);
+      expect(statement.closing_balance).toBe(90);
+    });
+  });
+
+  describe('calculateAccountAging', () => {
+    it('should apply payments to the oldest charges and age the rest', () => {
+      const aging = calculateAccountAging(
+        [
+          sale('s1', '2024-01-01', 100),
+          sale('s2', '2024-02-20', 80),
+          sale('s3', '2024-04-01', 40),
+        ],
+        [{ amount: 120 }],
+        new Date('2024-04-15')
+      );
+
+      expect(aging).toEqual({
+        current: 40,
+        days_31_60: 60,
+        days_61_90: 0,
+        over_90: 0,
+        total: 100,
+      });
+    });
+
+    it('should put long-unpaid charges in the oldest bucket', () => {
+      const aging = calculateAccountAging([sale('s1', '2024-01-01', 75)], [], new Date('2024-06-01'));
+      expect(aging.over_90).toBe(75);
+      expect(aging.total).toBe(75);
+    });
+  });
+});
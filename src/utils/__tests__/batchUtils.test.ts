@@ -0,0 +1,101 @@
+import {
+  daysUntilExpiry,
+  getBatchExpiryStatus,
+  sortBatchesFefo,
+  allocateFefo,
+  getUnbatchedQuantity,
+  buildExpiryNotifications,
+} from '../batchUtils';
+import { ExpiryAlert, ProductBatch } from '../../types';
+
+const batch = (id: string, quantity: number, expiry?: string, receivedAt: string = '2024-05-01'): ProductBatch => ({
+  _id: id,
+  product_id: 'p1',
+  store_id: 's1',
+  batch_number: `LOT-${id}`,
+  quantity,
+  expiry_date: expiry,
+  received_at: new Date(receivedAt),
+});
+
+const alert = (id: string, type: ExpiryAlert['alert_type']): ExpiryAlert => ({
+  _id: id,
+  product_id: `p${id}`,
+  product_name: `Yoghurt ${id}`,
+  batch_number: `LOT-${id}`,
+  quantity: 4,
+  expiry_date: '2024-06-01',
+  days_until_expiry: type === 'expired' ? -1 : 2,
+  alert_type: type,
+  store_id: 's1',
+});
+
+describe('Batch Utils', () => {
+  describe('daysUntilExpiry', () => {
+    it('should count whole calendar days', () => {
+      expect(daysUntilExpiry('2024-06-10', '2024-06-03')).toBe(7);
+      expect(daysUntilExpiry('2024-06-01', '2024-06-03')).toBe(-2);
+      expect(daysUntilExpiry('2024-04-01', '2024-03-31')).toBe(1);
+    });
+  });
+
+  describe('getBatchExpiryStatus', () => {
+    it('should flag expired and soon-to-expire batches', () => {
+      expect(getBatchExpiryStatus({ expiry_date: '2024-06-02' }, '2024-06-03')).toBe('expired');
+      expect(getBatchExpiryStatus({ expiry_date: '2024-06-03' }, '2024-06-03')).toBe('expiring_soon');
+      expect(getBatchExpiryStatus({ expiry_date: '2024-06-20' }, '2024-06-03', 7)).toBe('ok');
+      expect(getBatchExpiryStatus({}, '2024-06-03')).toBe('no_expiry');
+    });
+  });
+
+  describe('sortBatchesFefo', () => {
+    it('should put the earliest expiry first and undated batches last', () => {
+      const sorted = sortBatchesFefo([
+        batch('a', 5),
+        batch('b', 5, '2024-07-01'),
+        batch('c', 5, '2024-06-15', '2024-05-03'),
+        batch('d', 5, '2024-06-15', '2024-05-02'),
+      ]);
+      expect(sorted.map(b => b._id)).toEqual(['d', 'c', 'b', 'a']);
+    });
+  });
+
+  describe('allocateFefo', () => {
+    it('should draw down the earliest-expiring batches first', () => {
+      const result = allocateFefo([batch('a', 10, '2024-07-01'), batch('b', 3, '2024-06-01'), batch('c', 0, '2024-05-01')], 5);
+      expect(result.allocations).toEqual([
+        { batch_id: 'b', batch_number: 'LOT-b', quantity: 3 },
+        { batch_id: 'a', batch_number: 'LOT-a', quantity: 2 },
+      ]);
+      expect(result.shortfall).toBe(0);
+    });
+
+    it('should report a shortfall when batches run out', () => {
+      expect(allocateFefo([batch('a', 2, '2024-07-01')], 5).shortfall).toBe(3);
+    });
+  });
+
+  describe('getUnbatchedQuantity', () => {
+    it('should return stock not covered by any batch', () => {
+      expect(getUnbatchedQuantity(12, [batch('a', 5), batch('b', 4)])).toBe(3);
+      expect(getUnbatchedQuantity(5, [batch('a', 8)])).toBe(0);
+    });
+  });
+
+  describe('buildExpiryNotifications', () => {
+    it('should group alerts into one notification per kind with a stable id', () => {
+      const notifications = buildExpiryNotifications(
+        [alert('1', 'expired'), alert('2', 'expiring_soon'), alert('3', 'expiring_soon')],
+        '2024-06-03'
+      );
+
+      expect(notifications.map(n => [n.id, n.type])).toEqual([
+        ['expiry-expired-2024-06-03', 'error'],
+        ['expiry-soon-2024-06-03', 'warning'],
+      ]);
+      expect(notifications[1].title).toBe('2 batches expiring soon');
+      expect(notifications[1].message).toBe('Yoghurt 2 (LOT-2), Yoghurt 3 (LOT-3)');
+      expect(buildExpiryNotifications([], '2024-06-03')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { toBranchMetrics, compareBranches } from '../branchUtils';
+
+describe('Branch Utils', () => {
+  describe('toBranchMetrics', () => {
+    it('should derive the average ticket and default missing figures', () => {
+      expect(toBranchMetrics('s1', 'Main', { totalSales: 1000, totalTransactions: 8, totalExpenses: 200, netProfit: 800 })).toEqual({
+        store_id: 's1',
+        store_name: 'Main',
+        sales: 1000,
+        transactions: 8,
+        average_ticket: 125,
+        expenses: 200,
+        refunds: 0,
+        net_profit: 800,
+      });
+      expect(toBranchMetrics('s2', 'Kiosk', null)).toMatchObject({ sales: 0, average_ticket: 0, net_profit: 0 });
+    });
+  });
+
+  describe('compareBranches', () => {
+    it('should rank branches by sales and total them', () => {
+      const result = compareBranches([
+        toBranchMetrics('s1', 'Main', { totalSales: 300, totalTransactions: 3, totalExpenses: 100 }),
+        toBranchMetrics('s2', 'Harbour', { totalSales: 900, totalTransactions: 6, totalExpenses: 150 }),
+      ]);
+
+      expect(result.branches.map(branch => [branch.store_name, branch.rank, branch.sales_share])).toEqual([
+        ['Harbour', 1, 75],
+        ['Main', 2, 25],
+      ]);
+      expect(result.totals).toEqual({
+        sales: 1200,
+        transactions: 9,
+        average_ticket: 133.33,
+        expenses: 250,
+        refunds: 0,
+        net_profit: 950,
+      });
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  findExchangeRate,
+  toForeignPayment,
+  calculateChange,
+  parseExchangeRateCsv,
+  convertTransactionToBase,
+} from '../currencyUtils';
+import { ExchangeRate, Transaction } from '../../types';
+
+const rate = (currency: string, value: number, effectiveDate: string, baseCurrency = 'TRY'): ExchangeRate => ({
+  _id: `${currency}_${effectiveDate}`,
+  store_id: 'store_1',
+  currency,
+  base_currency: baseCurrency,
+  rate: value,
+  effective_date: effectiveDate,
+  source: 'manual',
+  created_at: new Date(),
+});
+
+const rates = [
+  rate('USD', 30, '2024-01-01'),
+  rate('USD', 32, '2024-02-01'),
+  rate('EUR', 35, '2024-01-15'),
+];
+
+describe('Currency Utils', () => {
+  describe('findExchangeRate', () => {
+    it('should use the latest rate in effect on the day', () => {
+      expect(findExchangeRate(rates, 'USD', 'TRY', new Date(2024, 0, 20))).toBe(30);
+      expect(findExchangeRate(rates, 'usd', 'TRY', new Date(2024, 1, 1))).toBe(32);
+    });
+
+    it('should return nothing before the first rate and 1 for the base currency', () => {
+      expect(findExchangeRate(rates, 'EUR', 'TRY', new Date(2024, 0, 10))).toBeUndefined();
+      expect(findExchangeRate(rates, 'TRY', 'TRY')).toBe(1);
+    });
+
+    it('should invert a rate quoted against the other currency', () => {
+      expect(findExchangeRate([rate('TRY', 0.04, '2024-01-01', 'USD')], 'USD', 'TRY', new Date(2024, 5, 1))).toBe(25);
+    });
+  });
+
+  describe('toForeignPayment', () => {
+    it('should keep the tendered amount and store the base value', () => {
+      expect(toForeignPayment('cash', 20, 'usd', 'TRY', 32.5)).toEqual({
+        type: 'cash',
+        amount: 650,
+        currency: 'USD',
+        original_amount: 20,
+        exchange_rate: 32.5,
+      });
+    });
+
+    it('should leave base-currency payments plain', () => {
+      expect(toForeignPayment('cash', 100, 'TRY', 'TRY', 1)).toEqual({ type: 'cash', amount: 100 });
+    });
+  });
+
+  describe('calculateChange', () => {
+    it('should give change in the base currency across currencies', () => {
+      const payments = [
+        toForeignPayment('cash', 10, 'USD', 'TRY', 32),
+        { type: 'cash' as const, amount: 100 },
+      ];
+
+      expect(calculateChange(400, payments)).toBe(20);
+      expect(calculateChange(500, payments)).toBe(0);
+    });
+  });
+
+  describe('parseExchangeRateCsv', () => {
+    it('should read rows, skip the header and report bad lines', () => {
+      const result = parseExchangeRateCsv('currency,rate,effective_date\nusd,32.1,2024-03-01\nEUR,abc,2024-03-01\nGBP;41;03/01/2024\n');
+
+      expect(result.rates).toEqual([{ currency: 'USD', rate: 32.1, effective_date: '2024-03-01' }]);
+      expect(result.errors).toHaveLength(2);
+    });
+  });
+
+  describe('convertTransactionToBase', () => {
+    it('should restate a sale recorded in another currency', () => {
+      const sale = {
+        currency: 'USD',
+        subtotal: 10,
+        discount_amount: 0,
+        total_amount: 10,
+        payment_methods: [{ type: 'cash', amount: 10 }],
+        created_at: new Date(2024, 1, 10),
+      } as Partial<Transaction>;
+
+      expect(convertTransactionToBase(sale, 'TRY', rates)).toMatchObject({
+        currency: 'TRY',
+        total_amount: 320,
+        payment_methods: [{ type: 'cash', amount: 320 }],
+      });
+    });
+
+    it('should leave sales in the base currency alone', () => {
+      const sale = { total_amount: 10, created_at: new Date() } as Partial<Transaction>;
+      expect(convertTransactionToBase(sale, 'TRY', rates)).toBe(sale);
+    });
+  });
+});
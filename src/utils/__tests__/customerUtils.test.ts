@@ -0,0 +1,115 @@
+import {
+  normalizeCustomerPhone,
+  phonesMatch,
+  findCustomerByPhone,
+  validateCustomerInput,
+  matchesCustomerSearch,
+  getLoyaltySettings,
+  calculatePointsEarned,
+  pointsToAmount,
+  getRedeemablePoints,
+  summarizePurchaseHistory,
+  getFavouriteProducts,
+} from '../customerUtils';
+
+const loyalty = getLoyaltySettings({ loyalty_points_per_unit: 1, loyalty_point_value: 0.05, loyalty_min_redeem_points: 100 });
+
+const sale = (total: number, date: string, overrides: Record<string, any> = {}) => ({
+  total_amount: total,
+  created_at: new Date(date),
+  status: 'completed' as const,
+  ...overrides,
+});
+
+describe('Customer Utils', () => {
+  describe('normalizeCustomerPhone', () => {
+    it('should keep digits and the international prefix', () => {
+      expect(normalizeCustomerPhone('\u200E+90 533 868 87 09')).toBe('+905338688709');
+      expect(normalizeCustomerPhone('0533 868 87 09')).toBe('05338688709');
+      expect(normalizeCustomerPhone('0090 533 868 87 09')).toBe('+905338688709');
+    });
+  });
+
+  describe('phonesMatch', () => {
+    it('should match local and international forms of a number', () => {
+      expect(phonesMatch('+90 533 868 87 09', '0533 868 87 09')).toBe(true);
+      expect(phonesMatch('+90 533 868 87 09', '+90 533 868 87 08')).toBe(false);
+      expect(phonesMatch('', '')).toBe(false);
+    });
+
+    it('should find the customer with the same number', () => {
+      const customers = [{ _id: 'a', phone: '+905551234567' }, { _id: 'b', phone: '+905338688709' }];
+      expect(findCustomerByPhone(customers, '0533-868-8709')?._id).toBe('b');
+      expect(findCustomerByPhone(customers, '0533 000 00 00')).toBeUndefined();
+    });
+  });
+
+  describe('validateCustomerInput', () => {
+    it('should check the name, phone and optional email', () => {
+      expect(validateCustomerInput({ name: 'Ayşe Yılmaz', phone: '+90 533 868 87 09' })).toBeNull();
+      expect(validateCustomerInput({ name: 'A', phone: '+90 533 868 87 09' })).toMatch(/name/);
+      expect(validateCustomerInput({ name: 'Ayşe', phone: '12345' })).toMatch(/phone/);
+      expect(validateCustomerInput({ name: 'Ayşe', phone: '+90 533 868 87 09', email: 'not-an-email' })).toMatch(/email/);
+    });
+  });
+
+  describe('matchesCustomerSearch', () => {
+    it('should search by name, email or phone digits', () => {
+      const customer = { name: 'Ayşe Yılmaz', phone: '+905338688709', email: 'ayse@example.com' };
+      expect(matchesCustomerSearch(customer, 'ayşe')).toBe(true);
+      expect(matchesCustomerSearch(customer, '868 87')).toBe(true);
+      expect(matchesCustomerSearch(customer, 'example.com')).toBe(true);
+      expect(matchesCustomerSearch(customer, 'mehmet')).toBe(false);
+    });
+  });
+
+  describe('loyalty', () => {
+    it('should earn whole points on the amount paid', () => {
+      expect(calculatePointsEarned(149.99, loyalty)).toBe(149);
+      expect(calculatePointsEarned(100, getLoyaltySettings({ loyalty_points_per_unit: 1 }))).toBe(0);
+    });
+
+    it('should convert points to money', () => {
+      expect(pointsToAmount(250, loyalty)).toBe(12.5);
+    });
+
+    it('should not redeem below the minimum or beyond the amount due', () => {
+      expect(getRedeemablePoints(99, 50, loyalty)).toBe(0);
+      expect(getRedeemablePoints(500, 10, loyalty)).toBe(200);
+      expect(getRedeemablePoints(150, 100, loyalty)).toBe(150);
+    });
+  });
+
+  describe('summarizePurchaseHistory', () => {
+    it('should total spending net of refunds and skip cancelled sales', () => {
+      const summary = summarizePurchaseHistory([
+        sale(100, '2024-03-01', { loyalty_points_earned: 100 }),
+        sale(60, '2024-04-10', { refunded_amount: 20, loyalty_points_redeemed: 200 }),
+        sale(500, '2024-05-01', { status: 'cancelled' }),
+      ]);
+
+      expect(summary).toEqual({
+        lifetime_value: 140,
+        visit_count: 2,
+        average_basket: 70,
+        last_purchase_at: new Date('2024-04-10'),
+        points_earned: 100,
+        points_redeemed: 200,
+      });
+    });
+  });
+
+  describe('getFavouriteProducts', () => {
+    it('should rank products by what the customer spent on them', () => {
+      const favourites = getFavouriteProducts([
+        sale(30, '2024-03-01', { items: [{ product_id: 'tea', product_name: 'Tea', quantity: 2, unit_price: 5, total_price: 10 }, { product_id: 'cake', product_name: 'Cake', quantity: 1, unit_price: 20, total_price: 20 }] }),
+        sale(15, '2024-03-02', { items: [{ product_id: 'tea', product_name: 'Tea', quantity: 3, unit_price: 5, total_price: 15 }] }),
+      ]);
+
+      expect(favourites.map(product => [product.product_id, product.quantity, product.revenue])).toEqual([
+        ['tea', 5, 25],
+        ['cake', 1, 20],
+      ]);
+    });
+  });
+});
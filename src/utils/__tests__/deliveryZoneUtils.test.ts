@@ -0,0 +1,69 @@
+import {
+  sortDeliveryZones,
+  getZoneLabel,
+  getDistanceKm,
+  findZoneForDistance,
+  quoteDelivery,
+} from '../deliveryZoneUtils';
+import { DeliveryZone } from '../../types';
+
+const bands: DeliveryZone[] = [
+  { _id: 'far', name: 'Far', fee: 60, max_distance_km: 10, minimum_order: 300 },
+  { _id: 'near', name: 'Near', fee: 20, max_distance_km: 3, free_delivery_threshold: 500 },
+  { _id: 'mid', name: 'Mid', fee: 35, max_distance_km: 6 },
+];
+
+describe('sortDeliveryZones', () => {
+  it('orders distance bands nearest first and leaves areas as entered', () => {
+    expect(sortDeliveryZones(bands, 'distance').map(zone => zone._id)).toEqual(['near', 'mid', 'far']);
+    expect(sortDeliveryZones(bands, 'area').map(zone => zone._id)).toEqual(['far', 'near', 'mid']);
+  });
+});
+
+describe('getZoneLabel', () => {
+  it('shows the reach of distance bands', () => {
+    expect(getZoneLabel(bands[1], 'distance')).toBe('Near (up to 3 km)');
+    expect(getZoneLabel(bands[1], 'area')).toBe('Near');
+  });
+});
+
+describe('getDistanceKm', () => {
+  it('measures straight-line distance between two points', () => {
+    // Kyrenia harbour to Nicosia's Selimiye Mosque is roughly 20 km as the crow flies
+    const distance = getDistanceKm({ latitude: 35.3417, longitude: 33.3192 }, { latitude: 35.1764, longitude: 33.3644 });
+    expect(distance).toBeGreaterThan(18);
+    expect(distance).toBeLessThan(20);
+    expect(getDistanceKm({ latitude: 35, longitude: 33 }, { latitude: 35, longitude: 33 })).toBe(0);
+  });
+});
+
+describe('findZoneForDistance', () => {
+  it('picks the nearest band that reaches the address', () => {
+    expect(findZoneForDistance(bands, 2.5)?._id).toBe('near');
+    expect(findZoneForDistance(bands, 3)?._id).toBe('near');
+    expect(findZoneForDistance(bands, 7.2)?._id).toBe('far');
+    expect(findZoneForDistance(bands, 12)).toBeUndefined();
+  });
+});
+
+describe('quoteDelivery', () => {
+  it('charges the zone fee and shows how far the order is from free delivery', () => {
+    const quote = quoteDelivery(bands[1], 420);
+    expect(quote.fee).toBe(20);
+    expect(quote.is_free).toBe(false);
+    expect(quote.amount_to_free).toBe(80);
+  });
+
+  it('delivers free once the order reaches the threshold', () => {
+    const quote = quoteDelivery(bands[1], 500);
+    expect(quote.fee).toBe(0);
+    expect(quote.is_free).toBe(true);
+    expect(quote.amount_to_free).toBe(0);
+  });
+
+  it('flags orders under the zone minimum', () => {
+    expect(quoteDelivery(bands[0], 250).below_minimum).toBe(true);
+    expect(quoteDelivery(bands[0], 300).below_minimum).toBe(false);
+    expect(quoteDelivery(bands[2], 10).below_minimum).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  isDispatchable,
+  getDispatchColumn,
+  canMoveOrder,
+  getCashToCollect,
+  buildRiderQueues,
+  getDeliveryMinutes,
+} from '../dispatchUtils';
+import { CustomerOrder, Rider } from '../../types';
+
+const order = (overrides: Partial<CustomerOrder> = {}): CustomerOrder => ({
+  _id: 'o1',
+  orderNumber: 'ORD-001',
+  customerName: 'Ayşe',
+  customerPhone: '+905330000000',
+  items: [],
+  paymentMethod: 'cash',
+  deliveryMethod: 'delivery',
+  status: 'ready',
+  subtotal: 100,
+  deliveryFee: 15,
+  total: 115,
+  createdAt: '2024-03-01T10:00:00Z',
+  updatedAt: '2024-03-01T10:00:00Z',
+  whatsappSent: false,
+  ...overrides,
+});
+
+const rider = (id: string, isActive = true): Rider => ({
+  _id: id,
+  name: `Rider ${id}`,
+  phone: '+905330000001',
+  is_active: isActive,
+  current_balance: 0,
+  total_delivered: 0,
+  total_reconciled: 0,
+  pending_reconciliation: 0,
+  store_id: 'store1',
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+});
+
+describe('Dispatch Utils', () => {
+  describe('isDispatchable', () => {
+    it('should only take ready deliveries or ones a rider already has', () => {
+      expect(isDispatchable(order())).toBe(true);
+      expect(isDispatchable(order({ status: 'preparing' }))).toBe(false);
+      expect(isDispatchable(order({ deliveryMethod: 'pickup' }))).toBe(false);
+      expect(isDispatchable(order({ status: 'completed', dispatchStatus: 'delivered' }))).toBe(true);
+    });
+  });
+
+  describe('canMoveOrder', () => {
+    it('should move one step forward at a time and never out of delivered', () => {
+      expect(getDispatchColumn(order())).toBe('ready');
+      expect(canMoveOrder(order(), 'assigned')).toBe(true);
+      expect(canMoveOrder(order(), 'out_for_delivery')).toBe(false);
+      expect(canMoveOrder(order({ dispatchStatus: 'assigned', riderId: 'r1' }), 'out_for_delivery')).toBe(true);
+      expect(canMoveOrder(order({ dispatchStatus: 'out_for_delivery', riderId: 'r1' }), 'ready')).toBe(true);
+      expect(canMoveOrder(order({ dispatchStatus: 'delivered', riderId: 'r1' }), 'out_for_delivery')).toBe(false);
+    });
+  });
+
+  describe('getCashToCollect', () => {
+    it('should collect the full total only on cash orders', () => {
+      expect(getCashToCollect(order())).toBe(115);
+      expect(getCashToCollect(order({ paymentMethod: 'card' }))).toBe(0);
+    });
+  });
+
+  describe('buildRiderQueues', () => {
+    it('should queue active deliveries per active rider, oldest assignment first', () => {
+      const queues = buildRiderQueues([
+        order({ _id: 'late', riderId: 'r1', dispatchStatus: 'assigned', assignedAt: '2024-03-01T11:00:00Z' }),
+        order({ _id: 'early', riderId: 'r1', dispatchStatus: 'out_for_delivery', assignedAt: '2024-03-01T10:30:00Z', paymentMethod: 'card' }),
+        order({ _id: 'done', riderId: 'r1', dispatchStatus: 'delivered' }),
+        order({ _id: 'other', riderId: 'r3', dispatchStatus: 'assigned' }),
+      ], [rider('r1'), rider('r2'), rider('r3', false)]);
+
+      expect(queues.map(queue => queue.rider._id)).toEqual(['r1', 'r2']);
+      expect(queues[0].orders.map(o => o._id)).toEqual(['early', 'late']);
+      expect(queues[0].cash_to_collect).toBe(115);
+      expect(queues[1].orders).toHaveLength(0);
+    });
+  });
+
+  describe('getDeliveryMinutes', () => {
+    it('should time the trip from pickup to delivery', () => {
+      expect(getDeliveryMinutes(order())).toBeNull();
+      expect(getDeliveryMinutes(order({ outForDeliveryAt: '2024-03-01T11:00:00Z', deliveredAt: '2024-03-01T11:25:00Z' }))).toBe(25);
+      expect(getDeliveryMinutes(order({ outForDeliveryAt: '2024-03-01T11:00:00Z' }), new Date('2024-03-01T11:10:00Z'))).toBe(10);
+    });
+  });
+});
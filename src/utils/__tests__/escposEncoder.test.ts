@@ -0,0 +1,110 @@
+import {
+  buildReceiptLayout,
+  receiptToText,
+  encodeReceipt,
+  encodeText,
+  padColumns,
+  wrapText,
+  DEFAULT_RECEIPT_TEMPLATE,
+} from '../escposEncoder';
+import { Transaction, ReceiptTemplate } from '../../types';
+
+const sale = (overrides: Partial<Transaction> = {}): Transaction => ({
+  _id: 'sale_1',
+  store_id: 'store_1',
+  items: [
+    { _id: 'line_1', product_id: 'milk', product_name: 'Milk', quantity: 2, unit_price: 50, total_price: 100 },
+  ],
+  subtotal: 100,
+  discount_amount: 0,
+  tax_amount: 15,
+  total_amount: 100,
+  payment_methods: [{ type: 'cash', amount: 100 }],
+  payment_status: 'completed',
+  status: 'completed',
+  order_source: 'in_store',
+  cashier_id: 'cashier_1',
+  created_at: new Date('2024-01-01T10:00:00Z'),
+  updated_at: new Date('2024-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+const template = (overrides: Partial<ReceiptTemplate> = {}): ReceiptTemplate => ({
+  ...DEFAULT_RECEIPT_TEMPLATE,
+  ...overrides,
+});
+
+const store = { name: 'Greep Market' };
+
+const includesSequence = (bytes: Uint8Array, sequence: number[]): boolean => {
+  for (let i = 0; i <= bytes.length - sequence.length; i++) {
+    if (sequence.every((value, j) => bytes[i + j] === value)) return true;
+  }
+  return false;
+};
+
+describe('ESC/POS Encoder', () => {
+  describe('text helpers', () => {
+    it('should right-align values to the paper width', () => {
+      expect(padColumns('Total', '10', 12)).toBe('Total     10');
+      expect(padColumns('A very long label', '10', 12)).toBe('A very lo 10');
+    });
+
+    it('should wrap on word boundaries and split long words', () => {
+      expect(wrapText('one two three', 7)).toEqual(['one two', 'three']);
+      expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+
+    it('should map Turkish characters to code page 857', () => {
+      expect(encodeText('ğüşİöç')).toEqual([0xa7, 0x81, 0x9f, 0x98, 0x94, 0x87]);
+      expect(encodeText('₺')).toEqual([0x54, 0x4c, 0x20]);
+    });
+  });
+
+  describe('buildReceiptLayout', () => {
+    it('should fit every line to the paper width', () => {
+      const text = receiptToText(buildReceiptLayout(sale(), template({ paper_width: 58 }), store), 58);
+      text.split('\n').forEach(line => expect(line.length).toBeLessThanOrEqual(32));
+    });
+
+    it('should include header, footer and payment breakdown', () => {
+      const text = receiptToText(
+        buildReceiptLayout(
+          sale({ payment_methods: [{ type: 'cash', amount: 60 }, { type: 'card', amount: 40 }] }),
+          template({ header_text: 'Tax No 123', footer_text: 'Come again' }),
+          store
+        ),
+        80
+      );
+
+      expect(text).toContain('Tax No 123');
+      expect(text).toContain('Come again');
+      expect(text).toMatch(/Cash\s+TL\s?60,00/);
+      expect(text).toMatch(/Card\s+TL\s?40,00/);
+    });
+
+    it('should only print tax lines when enabled', () => {
+      const withTax = receiptToText(buildReceiptLayout(sale(), template(), store), 80);
+      const withoutTax = receiptToText(buildReceiptLayout(sale(), template({ show_tax_lines: false }), store), 80);
+
+      expect(withTax).toMatch(/^Tax\s/m);
+      expect(withoutTax).not.toMatch(/^Tax\s/m);
+    });
+  });
+
+  describe('encodeReceipt', () => {
+    it('should initialize the printer and cut the paper', () => {
+      const bytes = encodeReceipt(sale(), template(), store);
+
+      expect(Array.from(bytes.slice(0, 2))).toEqual([0x1b, 0x40]);
+      expect(Array.from(bytes.slice(-4))).toEqual([0x1d, 0x56, 0x42, 0x00]);
+    });
+
+    it('should embed the logo as a raster image', () => {
+      const logo = { width: 16, height: 1, data: new Uint8Array([0xff, 0x00]) };
+      const bytes = encodeReceipt(sale(), template({ logo: 'data:image/png;base64,' }), store, logo);
+
+      expect(includesSequence(bytes, [0x1d, 0x76, 0x30, 0x00, 2, 0, 1, 0, 0xff, 0x00])).toBe(true);
+    });
+  });
+});
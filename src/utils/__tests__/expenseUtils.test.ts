@@ -0,0 +1,12 @@
+import { normalizeExpenseCategory } from '../expenseUtils';
+
+describe('Expense Utils', () => {
+  describe('normalizeExpenseCategory', () => {
+    it('should map product and free-text categories onto expense categories', () => {
+      expect(normalizeExpenseCategory('Drinks')).toBe('food');
+      expect(normalizeExpenseCategory(' supply ')).toBe('supplies');
+      expect(normalizeExpenseCategory('Maintenance')).toBe('maintenance');
+      expect(normalizeExpenseCategory('Cleaning')).toBe('other');
+    });
+  });
+});
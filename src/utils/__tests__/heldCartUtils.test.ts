@@ -0,0 +1,75 @@
+import { getHeldCarts, holdCart, removeHeldCart, isHeldCartExpired, getHeldCartTotal } from '../heldCartUtils';
+import { HeldCart } from '../../types';
+
+const item = (price: number, quantity = 1) => ({
+  _id: `item_${price}`,
+  product_id: `product_${price}`,
+  product_name: `Product ${price}`,
+  quantity,
+  unit_price: price,
+  total_price: price * quantity,
+});
+
+const heldCart = (heldAt: string): HeldCart => ({
+  id: 'held_1',
+  name: 'Cart 1',
+  items: [item(10, 2)],
+  discount: '',
+  cashier_id: 'cashier_1',
+  held_at: heldAt,
+});
+
+describe('Held Cart Utils', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isHeldCartExpired', () => {
+    const now = new Date('2024-01-01T12:00:00Z').getTime();
+
+    it('should expire carts held longer than the expiry window', () => {
+      expect(isHeldCartExpired(heldCart('2024-01-01T07:59:00Z'), 4, now)).toBe(true);
+      expect(isHeldCartExpired(heldCart('2024-01-01T08:01:00Z'), 4, now)).toBe(false);
+    });
+
+    it('should never expire carts when expiry is disabled', () => {
+      expect(isHeldCartExpired(heldCart('2020-01-01T00:00:00Z'), 0, now)).toBe(false);
+    });
+  });
+
+  describe('getHeldCartTotal', () => {
+    it('should subtract the discount without going below zero', () => {
+      expect(getHeldCartTotal({ ...heldCart('2024-01-01T12:00:00Z'), discount: '5' })).toBe(15);
+      expect(getHeldCartTotal({ ...heldCart('2024-01-01T12:00:00Z'), discount: '50' })).toBe(0);
+    });
+  });
+
+  describe('holdCart / getHeldCarts', () => {
+    it('should keep held carts separate per cashier', () => {
+      holdCart('cashier_1', { name: ' Table 4 ', note: 'Paying by card', items: [item(10)], discount: '' });
+      holdCart('cashier_2', { name: 'Walk-in', items: [item(20)], discount: '2', customer_id: 'customer_1', customer_name: 'Ayşe' });
+
+      const carts = getHeldCarts('cashier_1');
+      expect(carts).toHaveLength(1);
+      expect(carts[0].name).toBe('Table 4');
+      expect(carts[0].note).toBe('Paying by card');
+      expect(getHeldCarts('cashier_2')).toHaveLength(1);
+      expect(getHeldCarts('cashier_2')[0]).toMatchObject({ customer_id: 'customer_1', customer_name: 'Ayşe' });
+      expect(carts[0].customer_id).toBeUndefined();
+    });
+
+    it('should prune expired carts from storage', () => {
+      localStorage.setItem('pos_held_carts_cashier_1', JSON.stringify([heldCart('2000-01-01T00:00:00Z')]));
+
+      expect(getHeldCarts('cashier_1', 4)).toHaveLength(0);
+      expect(localStorage.getItem('pos_held_carts_cashier_1')).toBeNull();
+    });
+
+    it('should remove a recalled cart', () => {
+      const cart = holdCart('cashier_1', { name: 'Cart 1', items: [item(10)], discount: '' });
+      removeHeldCart('cashier_1', cart.id);
+
+      expect(getHeldCarts('cashier_1')).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  getLocaleSettings,
+  formatMoney,
+  formatDateValue,
+  formatDateTimeValue,
+  getZonedDateKey,
+  DEFAULT_LOCALE_SETTINGS,
+} from '../localeUtils';
+
+// 21:30 UTC is already the next day in Istanbul and still the same day in London
+const lateEvening = new Date('2024-03-05T21:30:00Z');
+
+describe('Locale Utils', () => {
+  describe('getLocaleSettings', () => {
+    it('should fall back to the defaults for missing store fields', () => {
+      expect(getLocaleSettings(null)).toEqual(DEFAULT_LOCALE_SETTINGS);
+      expect(getLocaleSettings({ currency: 'USD', timezone: 'Europe/London' })).toEqual({
+        ...DEFAULT_LOCALE_SETTINGS,
+        currency: 'USD',
+        timezone: 'Europe/London',
+      });
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('should use the store currency and number locale', () => {
+      const settings = getLocaleSettings({ currency: 'USD', locale: 'en-US' });
+
+      expect(formatMoney(1234.5, settings)).toBe('$1,234.50');
+      expect(formatMoney(10, settings, 'EUR')).toBe('€10.00');
+    });
+
+    it('should not throw on an unknown currency code', () => {
+      expect(formatMoney(5, getLocaleSettings({ currency: 'USDT' }))).toBe('5.00 USDT');
+    });
+  });
+
+  describe('formatDateValue', () => {
+    it('should apply the date pattern in the store timezone', () => {
+      expect(formatDateValue(lateEvening, getLocaleSettings({ timezone: 'Europe/Istanbul' }))).toBe('06.03.2024');
+      expect(formatDateValue(lateEvening, getLocaleSettings({ timezone: 'Europe/London', date_format: 'MM/DD/YYYY' }))).toBe('03/05/2024');
+    });
+
+    it('should add a 24-hour time for date-times', () => {
+      expect(formatDateTimeValue(lateEvening, getLocaleSettings({ timezone: 'Europe/London', date_format: 'YYYY-MM-DD' }))).toBe('2024-03-05 21:30');
+    });
+  });
+
+  describe('getZonedDateKey', () => {
+    it('should key dates by the store\'s calendar day', () => {
+      expect(getZonedDateKey(lateEvening, 'Europe/Istanbul')).toBe('2024-03-06');
+      expect(getZonedDateKey(lateEvening, 'Europe/London')).toBe('2024-03-05');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  getPromotionClock,
+  isPromotionActive,
+  applyPromotions,
+  getNetLineTotal,
+  buildPromotionReport,
+} from '../promotionUtils';
+import { Promotion, TransactionItem } from '../../types';
+
+const promo = (overrides: Partial<Promotion>): Promotion => ({
+  _id: 'promo',
+  store_id: 'store',
+  name: 'Promo',
+  type: 'percent_off',
+  is_active: true,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+  ...overrides,
+});
+
+const line = (productId: string, unitPrice: number, quantity: number): TransactionItem => ({
+  _id: productId,
+  product_id: productId,
+  product_name: productId,
+  quantity,
+  unit_price: unitPrice,
+  total_price: unitPrice * quantity,
+});
+
+// Wednesday 15 May 2024, 18:30
+const clock = { date: '2024-05-15', time: '18:30', day: 3 };
+
+const categories: Record<string, string> = { cola: 'Drinks', water: 'Drinks', chips: 'Snacks', burger: 'Food' };
+const categoryOf = (productId: string) => categories[productId];
+
+describe('Promotion Utils', () => {
+  describe('getPromotionClock', () => {
+    it('should read the store-local date, time and weekday', () => {
+      expect(getPromotionClock(new Date(2024, 4, 15, 9, 5))).toEqual({ date: '2024-05-15', time: '09:05', day: 3 });
+    });
+  });
+
+  describe('isPromotionActive', () => {
+    it('should respect the date range and weekdays', () => {
+      expect(isPromotionActive(promo({}), clock)).toBe(true);
+      expect(isPromotionActive(promo({ is_active: false }), clock)).toBe(false);
+      expect(isPromotionActive(promo({ start_date: '2024-05-16' }), clock)).toBe(false);
+      expect(isPromotionActive(promo({ end_date: '2024-05-15' }), clock)).toBe(true);
+      expect(isPromotionActive(promo({ days_of_week: [5, 6] }), clock)).toBe(false);
+    });
+
+    it('should handle happy hour windows, including ones past midnight', () => {
+      expect(isPromotionActive(promo({ start_time: '17:00', end_time: '19:00' }), clock)).toBe(true);
+      expect(isPromotionActive(promo({ start_time: '17:00', end_time: '18:30' }), clock)).toBe(false);
+      expect(isPromotionActive(promo({ start_time: '22:00', end_time: '02:00' }), { ...clock, time: '01:15' })).toBe(true);
+      expect(isPromotionActive(promo({ start_time: '22:00', end_time: '02:00' }), clock)).toBe(false);
+    });
+  });
+
+  describe('applyPromotions', () => {
+    it('should give the cheapest qualifying units free on buy X get Y', () => {
+      const result = applyPromotions(
+        [line('cola', 3, 2), line('water', 2, 1)],
+        [promo({ _id: 'b2g1', name: 'Buy 2 get 1', type: 'buy_x_get_y', product_ids: ['cola', 'water'], buy_quantity: 2, get_quantity: 1 })],
+        clock
+      );
+
+      expect(result.items[0].discount_amount).toBeUndefined();
+      expect(result.items[1]).toMatchObject({ discount_amount: 2, promotion_id: 'b2g1', promotion_name: 'Buy 2 get 1' });
+      expect(result.total_discount).toBe(2);
+    });
+
+    it('should not let the units that earned a free one trigger another promotion', () => {
+      const result = applyPromotions(
+        [line('cola', 10, 1), line('water', 8, 1)],
+        [
+          promo({ _id: 'bogo', type: 'buy_x_get_y', product_ids: ['cola', 'water'], buy_quantity: 1, get_quantity: 1 }),
+          promo({ _id: 'half', type: 'percent_off', product_ids: ['cola'], percent_off: 50 }),
+        ],
+        clock
+      );
+
+      expect(result.items[0]).toMatchObject({ discount_amount: undefined, promotion_id: undefined });
+      expect(result.items[1]).toMatchObject({ discount_amount: 8, promotion_id: 'bogo' });
+      expect(result.applied.map(applied => applied.promotion_id)).toEqual(['bogo']);
+      expect(result.total_discount).toBe(8);
+    });
+
+    it('should price complete multi-buy deals and leave the rest at full price', () => {
+      const result = applyPromotions(
+        [line('chips', 2.5, 7)],
+        [promo({ _id: '3for6', type: 'multi_buy', product_ids: ['chips'], buy_quantity: 3, deal_price: 6 })],
+        clock
+      );
+
+      // Two deals: 6 units at 15 become 12
+      expect(result.items[0].discount_amount).toBe(3);
+      expect(getNetLineTotal(result.items[0])).toBe(14.5);
+    });
+
+    it('should take a percentage off a category', () => {
+      const result = applyPromotions(
+        [line('cola', 3, 2), line('chips', 2.5, 1)],
+        [promo({ _id: 'drinks', type: 'percent_off', category: 'Drinks', percent_off: 25 })],
+        clock,
+        categoryOf
+      );
+
+      expect(result.items[0].discount_amount).toBe(1.5);
+      expect(result.items[1].discount_amount).toBeUndefined();
+    });
+
+    it('should split a bundle discount across its lines', () => {
+      const result = applyPromotions(
+        [line('burger', 8, 2), line('chips', 2.5, 1), line('cola', 3, 2)],
+        [promo({
+          _id: 'meal',
+          type: 'bundle',
+          deal_price: 11,
+          bundle_items: [{ product_id: 'burger', quantity: 1 }, { product_id: 'chips', quantity: 1 }, { product_id: 'cola', quantity: 1 }],
+        })],
+        clock
+      );
+
+      // One set (limited by chips): 13.5 regular for 11
+      expect(result.items.map(item => item.discount_amount)).toEqual([1.48, 0.46, 0.56]);
+      expect(result.total_discount).toBe(2.5);
+    });
+
+    it('should apply one promotion per line, best saving first', () => {
+      const result = applyPromotions(
+        [line('cola', 3, 3), line('chips', 2.5, 1)],
+        [
+          promo({ _id: 'drinks', type: 'percent_off', category: 'Drinks', percent_off: 10 }),
+          promo({ _id: '3for6', type: 'multi_buy', product_ids: ['cola'], buy_quantity: 3, deal_price: 6 }),
+          promo({ _id: 'store', type: 'percent_off', percent_off: 5 }),
+        ],
+        clock,
+        categoryOf
+      );
+
+      expect(result.items[0]).toMatchObject({ promotion_id: '3for6', discount_amount: 3 });
+      expect(result.items[1]).toMatchObject({ promotion_id: 'store', discount_amount: 0.13 });
+      expect(result.applied.map(applied => applied.promotion_id)).toEqual(['3for6', 'store']);
+    });
+
+    it('should skip promotions outside their window', () => {
+      const result = applyPromotions(
+        [line('cola', 3, 2)],
+        [promo({ percent_off: 50, start_time: '12:00', end_time: '14:00' })],
+        clock
+      );
+      expect(result.total_discount).toBe(0);
+    });
+  });
+
+  describe('buildPromotionReport', () => {
+    it('should report redemptions and margin impact per promotion', () => {
+      const costs: Record<string, number> = { cola: 1, chips: 1.5 };
+      const rows = buildPromotionReport(
+        [
+          { _id: 's1', items: [{ ...line('cola', 3, 3), discount_amount: 3, promotion_id: '3for6', promotion_name: '3 for 6' }, line('chips', 2.5, 1)] },
+          { _id: 's2', items: [{ ...line('cola', 3, 3), discount_amount: 3, promotion_id: '3for6', promotion_name: '3 for 6' }] },
+          { _id: 's3', is_refund: true, items: [{ ...line('cola', 3, 3), discount_amount: 3, promotion_id: '3for6' }] },
+        ],
+        productId => costs[productId]
+      );
+
+      expect(rows).toEqual([{
+        promotion_id: '3for6',
+        promotion_name: '3 for 6',
+        redemptions: 2,
+        units: 6,
+        revenue: 12,
+        discount: 6,
+        cost: 6,
+        margin: 6,
+        margin_without_promotion: 12,
+      }]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  suggestOrderQuantity,
+  buildPurchaseOrderLines,
+  calculatePurchaseOrderTotal,
+  applyPurchaseOrderReceipt,
+  buildPurchaseOrderMessage,
+} from '../purchaseOrderUtils';
+import { LowStockProduct, Product, PurchaseOrderLine } from '../../types';
+
+const lowStock: LowStockProduct[] = [
+  { _id: 'a1', product_id: 'p1', product_name: 'Milk 1L', current_quantity: 3, min_stock_level: 10, alert_type: 'low_stock' },
+  { _id: 'a2', product_id: 'p2', product_name: 'Bread', current_quantity: 0, min_stock_level: 5, alert_type: 'out_of_stock' },
+];
+
+const line = (productId: string, ordered: number, received: number, unitCost: number): PurchaseOrderLine => ({
+  product_id: productId,
+  product_name: `Product ${productId}`,
+  quantity_ordered: ordered,
+  quantity_received: received,
+  unit_cost: unitCost,
+});
+
+describe('Purchase Order Utils', () => {
+  describe('suggestOrderQuantity', () => {
+    it('should top stock up to twice the minimum level', () => {
+      expect(suggestOrderQuantity(3, 10)).toBe(17);
+      expect(suggestOrderQuantity(-2, 5)).toBe(10);
+      expect(suggestOrderQuantity(30, 10)).toBe(1);
+    });
+  });
+
+  describe('buildPurchaseOrderLines', () => {
+    it('should prefill quantities and the current cost price', () => {
+      const products = [{ _id: 'p1', cost_price: 12.5, unit: 'pieces' }] as Product[];
+
+      expect(buildPurchaseOrderLines(lowStock, products)).toEqual([
+        { product_id: 'p1', product_name: 'Milk 1L', unit: 'pieces', quantity_ordered: 17, quantity_received: 0, unit_cost: 12.5 },
+        { product_id: 'p2', product_name: 'Bread', unit: undefined, quantity_ordered: 10, quantity_received: 0, unit_cost: 0 },
+      ]);
+    });
+  });
+
+  describe('calculatePurchaseOrderTotal', () => {
+    it('should sum ordered quantity times unit cost', () => {
+      expect(calculatePurchaseOrderTotal([line('p1', 3, 0, 1.1), line('p2', 2, 0, 4.25)])).toBe(11.8);
+    });
+  });
+
+  describe('applyPurchaseOrderReceipt', () => {
+    it('should mark an order partially received until every line is in', () => {
+      const lines = [line('p1', 10, 0, 2), line('p2', 4, 0, 3)];
+
+      const first = applyPurchaseOrderReceipt(lines, { p1: { quantity: 10, unit_cost: 2.2 } });
+      expect(first.status).toBe('partially_received');
+      expect(first.lines[0]).toMatchObject({ quantity_received: 10, unit_cost: 2.2 });
+
+      const second = applyPurchaseOrderReceipt(first.lines, { p2: { quantity: 4 } });
+      expect(second.status).toBe('received');
+      expect(second.lines[1]).toMatchObject({ quantity_received: 4, unit_cost: 3 });
+    });
+  });
+
+  describe('buildPurchaseOrderMessage', () => {
+    it('should list every line with its quantity', () => {
+      const message = buildPurchaseOrderMessage(
+        { po_number: 'PO-0007', lines: [{ ...line('p1', 6, 0, 2), product_name: 'Milk 1L', unit: 'pieces' }], expected_date: '2024-05-02' },
+        'Fresh Foods',
+        'Main Branch'
+      );
+
+      expect(message).toContain('Hello Fresh Foods');
+      expect(message).toContain('*PO-0007* from Main Branch');
+      expect(message).toContain('• Milk 1L × 6 pieces');
+      expect(message).toContain('Requested delivery: 2024-05-02');
+    });
+  });
+});
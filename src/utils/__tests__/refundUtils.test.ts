@@ -0,0 +1,174 @@
+import {
+  getReturnableLines,
+  buildRefundItems,
+  allocateRefundToPaymentMethods,
+  applyRefundsToMetrics,
+  getRefundProfitImpact,
+  sumRefundAmounts,
+} from '../refundUtils';
+import { Transaction, Refund } from '../../types';
+
+const sale = (overrides: Partial<Transaction> = {}): Transaction => ({
+  _id: 'sale_1',
+  store_id: 'store_1',
+  items: [
+    { _id: 'line_1', product_id: 'milk', product_name: 'Milk', quantity: 2, unit_price: 50, total_price: 100 },
+    { _id: 'line_2', product_id: 'bread', product_name: 'Bread', quantity: 1, unit_price: 100, total_price: 100 },
+  ],
+  subtotal: 200,
+  discount_amount: 0,
+  total_amount: 200,
+  payment_methods: [{ type: 'cash', amount: 200 }],
+  payment_status: 'completed',
+  status: 'completed',
+  order_source: 'in_store',
+  cashier_id: 'cashier_1',
+  created_at: new Date('2024-01-01T10:00:00Z'),
+  updated_at: new Date('2024-01-01T10:00:00Z'),
+  ...overrides,
+});
+
+const refund = (overrides: Partial<Refund> = {}): Refund => ({
+  _id: 'refund_1',
+  store_id: 'store_1',
+  transaction_id: 'sale_1',
+  items: [{ product_id: 'milk', product_name: 'Milk', quantity: 1, unit_price: 50, total_price: 50, restock: true }],
+  total_amount: 50,
+  payment_methods: [{ type: 'cash', amount: 50 }],
+  cashier_id: 'cashier_1',
+  created_at: new Date('2024-01-02T10:00:00Z'),
+  ...overrides,
+});
+
+describe('Refund Utils', () => {
+  describe('getReturnableLines', () => {
+    it('should subtract quantities returned by earlier refunds', () => {
+      const lines = getReturnableLines(sale(), [refund()]);
+      expect(lines[0]).toMatchObject({ product_id: 'milk', sold: 2, refunded: 1, remaining: 1 });
+      expect(lines[1]).toMatchObject({ product_id: 'bread', sold: 1, refunded: 0, remaining: 1 });
+    });
+  });
+
+  describe('buildRefundItems', () => {
+    it('should cap quantities at what is left and skip empty lines', () => {
+      const transaction = sale();
+      const lines = getReturnableLines(transaction, [refund()]);
+      const items = buildRefundItems(transaction, lines, [5, 0], [false, true]);
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ product_id: 'milk', quantity: 1, total_price: 50, restock: false });
+    });
+
+    it('should refund a sale-level discount pro rata', () => {
+      const transaction = sale({ discount_amount: 20, total_amount: 180 });
+      const lines = getReturnableLines(transaction, []);
+      const items = buildRefundItems(transaction, lines, [0, 1], [true, true]);
+
+      expect(items[0].total_price).toBe(90);
+    });
+
+    it('should refund only what was paid for a promoted line', () => {
+      // Buy one get one free on milk: 100 list, 50 off, then 10% off the whole sale
+      const transaction = sale({
+        items: [
+          { _id: 'line_1', product_id: 'milk', product_name: 'Milk', quantity: 2, unit_price: 50, total_price: 100, discount_amount: 50 },
+          { _id: 'line_2', product_id: 'bread', product_name: 'Bread', quantity: 1, unit_price: 100, total_price: 100 },
+        ],
+        subtotal: 150,
+        discount_amount: 15,
+        total_amount: 135,
+      });
+      const lines = getReturnableLines(transaction, []);
+      const items = buildRefundItems(transaction, lines, [2, 1], [true, true]);
+
+      expect(items.map(item => item.total_price)).toEqual([45, 90]);
+    });
+
+    it('should pay back tax charged on top of exclusive prices', () => {
+      const transaction = sale({
+        tax_mode: 'exclusive',
+        items: [
+          { _id: 'line_1', product_id: 'milk', product_name: 'Milk', quantity: 2, unit_price: 50, total_price: 100, tax_rate: 10, tax_amount: 10 },
+        ],
+        subtotal: 100,
+        total_amount: 110,
+      });
+      const lines = getReturnableLines(transaction, []);
+      const items = buildRefundItems(transaction, lines, [1], [true]);
+
+      expect(items[0]).toMatchObject({ total_price: 55, tax_rate: 10, tax_amount: 5 });
+    });
+  });
+
+  describe('allocateRefundToPaymentMethods', () => {
+    it('should split across the original payment methods', () => {
+      const transaction = sale({
+        payment_methods: [{ type: 'cash', amount: 150 }, { type: 'pos_isbank_transfer', amount: 50 }],
+      });
+
+      expect(allocateRefundToPaymentMethods(transaction, 100)).toEqual([
+        { type: 'cash', amount: 75 },
+        { type: 'pos_isbank_transfer', amount: 25 },
+      ]);
+    });
+
+    it('should not pay back more than is left on a method', () => {
+      const transaction = sale({
+        payment_methods: [{ type: 'cash', amount: 100 }, { type: 'card', amount: 100 }],
+      });
+      const previous = [refund({ payment_methods: [{ type: 'cash', amount: 100 }], total_amount: 100 })];
+
+      expect(allocateRefundToPaymentMethods(transaction, 60, previous)).toEqual([{ type: 'card', amount: 60 }]);
+    });
+
+    it('should fall back to the legacy payment method field', () => {
+      const transaction = sale({ payment_methods: [], payment_method: 'card' });
+
+      expect(allocateRefundToPaymentMethods(transaction, 40)).toEqual([{ type: 'card', amount: 40 }]);
+    });
+
+    it('should keep the split summing to the refund amount', () => {
+      const transaction = sale({
+        payment_methods: [
+          { type: 'cash', amount: 100 },
+          { type: 'card', amount: 100 },
+          { type: 'crypto_payment', amount: 100 },
+        ],
+        total_amount: 300,
+      });
+      const split = allocateRefundToPaymentMethods(transaction, 100);
+
+      expect(split.reduce((sum, method) => sum + method.amount, 0)).toBeCloseTo(100, 2);
+    });
+  });
+
+  describe('applyRefundsToMetrics', () => {
+    it('should deduct refunds from sales and profit', () => {
+      const metrics = applyRefundsToMetrics({ totalSales: 1000, monthlySales: 1000, netProfit: 300 }, [refund()], [refund()]);
+
+      expect(metrics).toEqual({ totalSales: 950, monthlySales: 950, netProfit: 250, totalRefunds: 50 });
+      expect(sumRefundAmounts([refund(), refund()])).toBe(100);
+    });
+
+    it('should deduct only the month\'s refunds from monthly sales', () => {
+      const older = refund({ _id: 'refund_2', total_amount: 30 });
+      const metrics = applyRefundsToMetrics({ totalSales: 1000, monthlySales: 400 }, [refund(), older], [refund()]);
+      expect(metrics).toMatchObject({ totalSales: 920, monthlySales: 350, totalRefunds: 80 });
+
+      expect(applyRefundsToMetrics({ monthlySales: 400 }, [refund()]).monthlySales).toBe(400);
+    });
+
+    it('should take back only the margin on restocked lines', () => {
+      const restocked = refund({
+        items: [
+          { product_id: 'milk', product_name: 'Milk', quantity: 2, unit_price: 50, total_price: 100, restock: true, unit_cost: 30 },
+          { product_id: 'bread', product_name: 'Bread', quantity: 1, unit_price: 20, total_price: 20, restock: false, unit_cost: 8 },
+        ],
+        total_amount: 120,
+      });
+
+      expect(getRefundProfitImpact([restocked])).toBe(60);
+      expect(applyRefundsToMetrics({ netProfit: 300 }, [restocked]).netProfit).toBe(240);
+    });
+  });
+});
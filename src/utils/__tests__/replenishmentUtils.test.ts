@@ -0,0 +1,76 @@
+import {
+  averageDailyDemand,
+  calculateSafetyStock,
+  calculateReorderPoint,
+  calculateOrderQuantity,
+  buildReorderSuggestions,
+  DEFAULT_LEAD_TIME_DAYS,
+} from '../replenishmentUtils';
+import { Product, Wholesaler } from '../../types';
+
+const product = (id: string, stock: number, min: number, wholesalerId?: string): Product => ({
+  _id: id,
+  name: `Product ${id}`,
+  unit: 'pieces',
+  stock_quantity: stock,
+  min_stock_level: min,
+  wholesaler_id: wholesalerId,
+} as Product);
+
+describe('Replenishment Utils', () => {
+  describe('averageDailyDemand', () => {
+    it('should spread sales over the lookback window', () => {
+      expect(averageDailyDemand(60, 30)).toBe(2);
+      expect(averageDailyDemand(10, 0)).toBe(0);
+    });
+  });
+
+  describe('calculateSafetyStock', () => {
+    it('should grow with the square root of lead-time demand', () => {
+      expect(calculateSafetyStock(4, 4, 95)).toBeCloseTo(6.6);
+      expect(calculateSafetyStock(0, 4, 95)).toBe(0);
+    });
+  });
+
+  describe('calculateReorderPoint', () => {
+    it('should cover lead-time demand plus safety stock', () => {
+      expect(calculateReorderPoint(2, 3, 4.1)).toBe(11);
+    });
+  });
+
+  describe('calculateOrderQuantity', () => {
+    it('should top stock up to cover the lead time and review period', () => {
+      expect(calculateOrderQuantity(2, 3, 7, 4, 10)).toBe(14);
+      expect(calculateOrderQuantity(2, 3, 7, 4, 40)).toBe(0);
+    });
+  });
+
+  describe('buildReorderSuggestions', () => {
+    const wholesalers = [{ _id: 'w1', lead_time_days: 7 }] as Wholesaler[];
+    const options = { lookbackDays: 30, serviceLevel: 95 as const, reviewPeriodDays: 7 };
+
+    it('should use the wholesaler lead time and fall back to the default', () => {
+      const suggestions = buildReorderSuggestions(
+        [product('p1', 50, 5, 'w1'), product('p2', 50, 5)],
+        [{ productId: 'p1', quantitySold: 30 }, { productId: 'p2', quantitySold: 30 }],
+        wholesalers,
+        options
+      );
+
+      expect(suggestions.find(s => s.product_id === 'p1')?.lead_time_days).toBe(7);
+      expect(suggestions.find(s => s.product_id === 'p2')?.lead_time_days).toBe(DEFAULT_LEAD_TIME_DAYS);
+    });
+
+    it('should skip unsold products and list products due for reorder first', () => {
+      const suggestions = buildReorderSuggestions(
+        [product('p1', 100, 5), product('p2', 1, 5), product('p3', 10, 5)],
+        [{ productId: 'p1', quantitySold: 90 }, { productId: 'p2', quantitySold: 30 }],
+        [],
+        options
+      );
+
+      expect(suggestions.map(s => s.product_id)).toEqual(['p2', 'p1']);
+      expect(suggestions[0]).toMatchObject({ avg_daily_demand: 1, safety_stock: 3, reorder_point: 6, order_quantity: 12 });
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { summarizeRiderDay } from '../riderReconciliationUtils';
+import { RiderCashTransaction } from '../../types';
+
+const transaction = (overrides: Partial<RiderCashTransaction>): RiderCashTransaction => ({
+  _id: 't1',
+  rider_id: 'r1',
+  rider_name: 'Mehmet',
+  type: 'delivery_payment',
+  amount: 0,
+  given_by: 'u1',
+  given_by_name: 'Manager',
+  store_id: 'store1',
+  created_at: new Date('2024-03-01T12:00:00Z'),
+  updated_at: new Date('2024-03-01T12:00:00Z'),
+  ...overrides,
+});
+
+describe('summarizeRiderDay', () => {
+  const transactions = [
+    transaction({ _id: 'd2', amount: 80, delivery_fee: 10, order_number: 'ORD-002', created_at: new Date('2024-03-01T15:00:00Z') }),
+    transaction({ _id: 'f1', type: 'give_cash', amount: 200, created_at: new Date('2024-03-01T09:00:00Z') }),
+    transaction({ _id: 'd1', amount: 115.5, delivery_fee: 15, order_number: 'ORD-001', created_at: new Date('2024-03-01T11:00:00Z') }),
+    transaction({ _id: 'd3', amount: 0, delivery_fee: 15, order_number: 'ORD-003', created_at: new Date('2024-03-01T16:00:00Z') }),
+    transaction({ _id: 'r1', type: 'reconcile', amount: 150, created_at: new Date('2024-02-29T20:00:00Z') }),
+    transaction({ _id: 'd0', amount: 50, order_number: 'ORD-000', created_at: new Date('2024-02-29T18:00:00Z') }),
+  ];
+
+  it('adds the float and cash collected for the day into the expected hand-in', () => {
+    const summary = summarizeRiderDay(transactions, '2024-03-01', 'Europe/Nicosia');
+    expect(summary.float_given).toBe(200);
+    expect(summary.cash_collected).toBe(195.5);
+    expect(summary.delivery_fees).toBe(40);
+    expect(summary.expected_cash).toBe(395.5);
+  });
+
+  it('lists every delivery of the day oldest first, including prepaid ones', () => {
+    const summary = summarizeRiderDay(transactions, '2024-03-01', 'Europe/Nicosia');
+    expect(summary.deliveries.map(delivery => delivery.order_number)).toEqual(['ORD-001', 'ORD-002', 'ORD-003']);
+    expect(summary.deliveries[2].cash_collected).toBe(0);
+    expect(summary.floats).toHaveLength(1);
+  });
+
+  it('ignores other days', () => {
+    const summary = summarizeRiderDay(transactions, '2024-02-29', 'Europe/Nicosia');
+    expect(summary.deliveries).toHaveLength(1);
+    expect(summary.expected_cash).toBe(50);
+    expect(summarizeRiderDay(transactions, '2024-03-02', 'Europe/Nicosia').expected_cash).toBe(0);
+  });
+
+  it('groups by the store\'s day rather than the browser\'s', () => {
+    // 23:30 UTC on 29 February is already 1 March in Nicosia
+    const lateDelivery = [transaction({ amount: 40, created_at: new Date('2024-02-29T23:30:00Z') })];
+    expect(summarizeRiderDay(lateDelivery, '2024-03-01', 'Europe/Nicosia').cash_collected).toBe(40);
+    expect(summarizeRiderDay(lateDelivery, '2024-02-29', 'Europe/London').cash_collected).toBe(40);
+  });
+});
@@ -0,0 +1,95 @@
+import {
+  isSoldByWeight,
+  formatUnitLabel,
+  isValidEan13,
+  parseScalePricePrefixes,
+  parseScaleBarcode,
+  matchesScaleLabel,
+  gramsToUnit,
+  getScaleLabelLine,
+} from '../scaleBarcodeUtils';
+
+describe('Scale Barcode Utils', () => {
+  describe('isSoldByWeight', () => {
+    it('should treat kg, g and litre products as weighed', () => {
+      expect(isSoldByWeight({ unit: 'kg' })).toBe(true);
+      expect(isSoldByWeight({ unit: 'L' })).toBe(true);
+      expect(isSoldByWeight({ unit: 'piece' })).toBe(false);
+      expect(formatUnitLabel('l')).toBe('L');
+      expect(formatUnitLabel('piece')).toBe('unit');
+    });
+  });
+
+  describe('isValidEan13', () => {
+    it('should check the EAN-13 check digit', () => {
+      expect(isValidEan13('4006381333931')).toBe(true);
+      expect(isValidEan13('4006381333932')).toBe(false);
+      expect(isValidEan13('400638133393')).toBe(false);
+    });
+  });
+
+  describe('parseScalePricePrefixes', () => {
+    it('should keep only scale prefixes', () => {
+      expect(parseScalePricePrefixes('22, 23 ,abc,40')).toEqual(['22', '23']);
+      expect(parseScalePricePrefixes(undefined)).toEqual([]);
+    });
+  });
+
+  describe('parseScaleBarcode', () => {
+    it('should read the item code and weight in grams', () => {
+      expect(parseScaleBarcode('2100042012509')).toEqual({
+        prefix: '21',
+        item_code: '00042',
+        kind: 'weight',
+        value: 1250,
+      });
+    });
+
+    it('should read the embedded price for configured prefixes', () => {
+      expect(parseScaleBarcode('2200042007502', ['22'])).toMatchObject({ kind: 'price', value: 7.5 });
+    });
+
+    it('should ignore regular and invalid barcodes', () => {
+      expect(parseScaleBarcode('4006381333931')).toBeNull();
+      expect(parseScaleBarcode('2100042012500')).toBeNull();
+    });
+  });
+
+  describe('matchesScaleLabel', () => {
+    const label = parseScaleBarcode('2100042012509')!;
+
+    it('should match item code, prefixed code or zero-value template barcodes', () => {
+      expect(matchesScaleLabel({ barcode: '42' }, label)).toBe(true);
+      expect(matchesScaleLabel({ barcode: '2100042' }, label)).toBe(true);
+      expect(matchesScaleLabel({ barcode: '2100042000001' }, label)).toBe(true);
+      expect(matchesScaleLabel({ barcode: '2200042' }, label)).toBe(false);
+      expect(matchesScaleLabel({ barcode: undefined }, label)).toBe(false);
+    });
+  });
+
+  describe('gramsToUnit', () => {
+    it('should convert grams to the selling unit', () => {
+      expect(gramsToUnit(1250, 'kg')).toBe(1.25);
+      expect(gramsToUnit(750, 'l')).toBe(0.75);
+      expect(gramsToUnit(250, 'g')).toBe(250);
+      expect(gramsToUnit(250, 'piece')).toBeNull();
+    });
+  });
+
+  describe('getScaleLabelLine', () => {
+    it('should price weight labels from the unit price', () => {
+      const label = parseScaleBarcode('2100042012509')!;
+      expect(getScaleLabelLine(label, { unit: 'kg', price: 12 })).toEqual({ quantity: 1.25, total_price: 15 });
+    });
+
+    it('should keep the printed price and derive the weight', () => {
+      const label = parseScaleBarcode('2200042007502', ['22'])!;
+      expect(getScaleLabelLine(label, { unit: 'kg', price: 10 })).toEqual({ quantity: 0.75, total_price: 7.5 });
+    });
+
+    it('should reject weight labels for products sold by the piece', () => {
+      const label = parseScaleBarcode('2100042012509')!;
+      expect(getScaleLabelLine(label, { unit: 'piece', price: 5 })).toBeNull();
+    });
+  });
+});
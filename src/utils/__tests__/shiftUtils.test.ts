@@ -0,0 +1,100 @@
+import {
+  getDenominations,
+  countDenominations,
+  summarizeShift,
+  calculateVariance,
+  describeVariance,
+  needsManagerPin,
+} from '../shiftUtils';
+
+const movement = (type: 'paid_in' | 'payout' | 'drop', amount: number) => ({
+  _id: `${type}-${amount}`,
+  shift_id: 'shift1',
+  type,
+  amount,
+  created_by: 'user1',
+  created_at: new Date('2024-03-01T12:00:00Z'),
+});
+
+describe('Shift Utils', () => {
+  describe('getDenominations', () => {
+    it('should return the notes and coins for known currencies and a fallback otherwise', () => {
+      expect(getDenominations('try')[0]).toBe(200);
+      expect(getDenominations('NGN')).toContain(1000);
+      expect(getDenominations('XYZ').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('countDenominations', () => {
+    it('should total the counted notes and coins', () => {
+      expect(countDenominations({ '100': 3, '20': 2, '0.5': 3, '0.1': 0 })).toBe(341.5);
+      expect(countDenominations({})).toBe(0);
+    });
+  });
+
+  describe('summarizeShift', () => {
+    it('should accrue sales by method and work out the cash expected in the drawer', () => {
+      const summary = summarizeShift(
+        { opening_float: 200, movements: [movement('payout', 30), movement('drop', 100)] },
+        [
+          { total_amount: 80, payment_methods: [{ type: 'cash', amount: 100 }], change_amount: 20, status: 'completed' },
+          { total_amount: 150, payment_methods: [{ type: 'cash', amount: 50 }, { type: 'card', amount: 100 }], status: 'completed' },
+          { total_amount: 999, payment_methods: [{ type: 'cash', amount: 999 }], status: 'voided' },
+        ],
+        [{ payment_methods: [{ type: 'cash', amount: 15 }, { type: 'card', amount: 5 }] }]
+      );
+
+      expect(summary.sales_count).toBe(2);
+      expect(summary.gross_sales).toBe(230);
+      expect(summary.sales_by_method).toEqual({ cash: 130, card: 100 });
+      expect(summary.cash_refunds).toBe(15);
+      expect(summary.payouts).toBe(30);
+      expect(summary.drops).toBe(100);
+      expect(summary.expected_cash).toBe(185);
+    });
+
+    it('should keep foreign cash out of the expected drawer and report it by currency', () => {
+      const summary = summarizeShift(
+        { opening_float: 100, movements: [] },
+        [
+          { total_amount: 300, payment_methods: [{ type: 'cash', amount: 330, currency: 'USD', original_amount: 10, exchange_rate: 33 }], change_amount: 30, status: 'completed' },
+          { total_amount: 50, payment_methods: [{ type: 'cash', amount: 50 }], status: 'completed' },
+        ]
+      );
+
+      expect(summary.sales_by_method).toEqual({ cash: 350 });
+      expect(summary.cash_sales).toBe(20);
+      expect(summary.foreign_cash).toEqual({ USD: 10 });
+      expect(summary.expected_cash).toBe(120);
+    });
+
+    it('should expect just the float on a shift with no activity', () => {
+      expect(summarizeShift({ opening_float: 150, movements: [] }, []).expected_cash).toBe(150);
+    });
+
+    it('should add paid-ins to the drawer', () => {
+      const summary = summarizeShift({ opening_float: 100, movements: [movement('paid_in', 50), movement('payout', 20)] }, []);
+      expect(summary.paid_in).toBe(50);
+      expect(summary.expected_cash).toBe(130);
+    });
+  });
+
+  describe('needsManagerPin', () => {
+    it('should only ask cashiers for a PIN on paid-ins and paid-outs over the threshold', () => {
+      expect(needsManagerPin('payout', 600, 500, 'cashier')).toBe(true);
+      expect(needsManagerPin('paid_in', 500, 500, 'cashier')).toBe(false);
+      expect(needsManagerPin('drop', 2000, 500, 'cashier')).toBe(false);
+      expect(needsManagerPin('payout', 600, 500, 'manager')).toBe(false);
+      expect(needsManagerPin('payout', 600, 0, 'cashier')).toBe(false);
+    });
+  });
+
+  describe('calculateVariance', () => {
+    it('should report counted minus expected and describe it', () => {
+      expect(calculateVariance(180, 185)).toBe(-5);
+      expect(describeVariance(calculateVariance(180, 185))).toBe('Short');
+      expect(describeVariance(calculateVariance(190.25, 185))).toBe('Over');
+      expect(describeVariance(calculateVariance(185, 185))).toBe('Balanced');
+    });
+  });
+});
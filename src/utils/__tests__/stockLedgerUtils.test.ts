@@ -0,0 +1,52 @@
+import { formatQuantityChange, summarizeMovements, findBalanceBreaks } from '../stockLedgerUtils';
+import { StockMovement, StockMovementType } from '../../types';
+
+const movement = (id: string, type: StockMovementType, change: number, balance: number): StockMovement => ({
+  _id: id,
+  product_id: 'p1',
+  store_id: 's1',
+  type,
+  quantity_change: change,
+  balance_after: balance,
+  user_id: 'u1',
+  created_at: new Date('2024-05-01T10:00:00Z'),
+});
+
+// Newest first, as returned by the API
+const ledger = [
+  movement('m4', 'damage', -1, 3),
+  movement('m3', 'sale', -2, 4),
+  movement('m2', 'refund', 1, 6),
+  movement('m1', 'restock', 5, 5),
+];
+
+describe('Stock Ledger Utils', () => {
+  describe('formatQuantityChange', () => {
+    it('should sign inbound and outbound quantities', () => {
+      expect(formatQuantityChange(5)).toBe('+5');
+      expect(formatQuantityChange(-2)).toBe('-2');
+    });
+  });
+
+  describe('summarizeMovements', () => {
+    it('should total units in and out by movement type', () => {
+      expect(summarizeMovements(ledger)).toEqual({
+        inbound: 6,
+        outbound: 3,
+        net: 3,
+        by_type: { damage: -1, sale: -2, refund: 1, restock: 5 },
+      });
+    });
+  });
+
+  describe('findBalanceBreaks', () => {
+    it('should accept a consistent running balance', () => {
+      expect(findBalanceBreaks(ledger)).toEqual([]);
+    });
+
+    it('should flag an entry whose balance does not follow from the previous one', () => {
+      const tampered = [movement('m5', 'adjustment', 0, 10), ...ledger];
+      expect(findBalanceBreaks(tampered)).toEqual(['m5']);
+    });
+  });
+});
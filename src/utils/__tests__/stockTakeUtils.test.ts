@@ -0,0 +1,91 @@
+import {
+  buildStockTakeLines,
+  findLineByCode,
+  recordCount,
+  calculateVarianceReport,
+  setLineApproval,
+  getApprovedAdjustments,
+  buildStockTakeAdjustments,
+} from '../stockTakeUtils';
+import { Product, StockTakeLine } from '../../types';
+
+const line = (productId: string, expected: number, counted?: number, unitCost: number = 2): StockTakeLine => ({
+  product_id: productId,
+  product_name: `Product ${productId}`,
+  sku: `SKU-${productId}`,
+  barcode: `869${productId}`,
+  expected_quantity: expected,
+  counted_quantity: counted,
+  unit_cost: unitCost,
+});
+
+describe('Stock Take Utils', () => {
+  describe('buildStockTakeLines', () => {
+    it('should snapshot stock and cost, limited to the chosen category', () => {
+      const products = [
+        { _id: 'p1', name: 'Milk', category: 'Dairy', sku: 'M1', stock_quantity: 12, cost_price: 1.5, unit: 'pieces', is_active: true },
+        { _id: 'p2', name: 'Bread', category: 'Bakery', sku: 'B1', stock_quantity: 4, unit: 'pieces', is_active: true },
+      ] as Product[];
+
+      expect(buildStockTakeLines(products, 'Dairy')).toEqual([
+        { product_id: 'p1', product_name: 'Milk', sku: 'M1', barcode: undefined, unit: 'pieces', expected_quantity: 12, unit_cost: 1.5 },
+      ]);
+      expect(buildStockTakeLines(products)).toHaveLength(2);
+    });
+  });
+
+  describe('findLineByCode', () => {
+    it('should match barcodes before SKUs', () => {
+      const lines = [line('1', 5), line('2', 5)];
+      expect(findLineByCode(lines, ' 8692 ')?.product_id).toBe('2');
+      expect(findLineByCode(lines, 'SKU-1')?.product_id).toBe('1');
+      expect(findLineByCode(lines, 'unknown')).toBeUndefined();
+    });
+  });
+
+  describe('recordCount', () => {
+    it('should add scans and replace typed counts', () => {
+      let lines = [line('1', 5)];
+      lines = recordCount(lines, '1', 1, 'add');
+      lines = recordCount(lines, '1', 1, 'add');
+      expect(lines[0].counted_quantity).toBe(2);
+
+      lines = recordCount(lines, '1', 7);
+      expect(lines[0].counted_quantity).toBe(7);
+    });
+  });
+
+  describe('calculateVarianceReport', () => {
+    it('should value shrinkage and surplus at cost and skip uncounted lines', () => {
+      const report = calculateVarianceReport([line('1', 10, 7, 2.5), line('2', 3, 5, 1), line('3', 4, 4), line('4', 9)]);
+
+      expect(report.counted_lines).toBe(3);
+      expect(report.uncounted_lines).toBe(1);
+      expect(report.variances.map(v => [v.product_id, v.difference, v.value_difference])).toEqual([
+        ['1', -3, -7.5],
+        ['2', 2, 2],
+      ]);
+      expect(report.shrinkage_value).toBe(7.5);
+      expect(report.surplus_value).toBe(2);
+      expect(report.net_value).toBe(-5.5);
+    });
+  });
+
+  describe('getApprovedAdjustments', () => {
+    it('should only post counted variances that were not rejected', () => {
+      const lines = setLineApproval([line('1', 10, 7), line('2', 3, 5), line('3', 4, 4), line('4', 9)], '2', false);
+      expect(getApprovedAdjustments(lines).map(l => l.product_id)).toEqual(['1']);
+    });
+  });
+
+  describe('buildStockTakeAdjustments', () => {
+    it('should post the counted difference rather than the counted level', () => {
+      const lines = setLineApproval([line('1', 10, 7), line('2', 3, 5), line('3', 1.2, 1.5), line('4', 6, 9)], '4', false);
+      expect(buildStockTakeAdjustments(lines)).toEqual([
+        { product_id: '1', adjustment_type: 'subtract', quantity: 3 },
+        { product_id: '2', adjustment_type: 'add', quantity: 2 },
+        { product_id: '3', adjustment_type: 'add', quantity: 0.3 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  getTaxSettings,
+  resolveTaxRate,
+  calculateCartTax,
+  buildVatReport,
+  getVatPeriodKey,
+} from '../taxUtils';
+import { refundToSaleEntry } from '../refundUtils';
+import { TransactionItem, Refund } from '../../types';
+
+const line = (productId: string, totalPrice: number): TransactionItem => ({
+  _id: '',
+  product_id: productId,
+  product_name: productId,
+  quantity: 1,
+  unit_price: totalPrice,
+  total_price: totalPrice,
+});
+
+const settings = getTaxSettings({
+  tax_rate: 20,
+  tax_mode: 'inclusive',
+  tax_classes: [{ _id: 'food', name: 'Basic food', rate: 1 }, { _id: 'reduced', name: 'Reduced', rate: 10 }],
+  category_tax_classes: { Bakery: 'food' },
+});
+
+describe('Tax Utils', () => {
+  describe('resolveTaxRate', () => {
+    it('should prefer the product class, then the category class, then the default', () => {
+      expect(resolveTaxRate({ category: 'Bakery', tax_class_id: 'reduced' }, settings)).toBe(10);
+      expect(resolveTaxRate({ category: 'Bakery' }, settings)).toBe(1);
+      expect(resolveTaxRate({ category: 'Drinks' }, settings)).toBe(20);
+      expect(resolveTaxRate(undefined, settings)).toBe(20);
+    });
+
+    it('should fall back to the default when a class was removed', () => {
+      expect(resolveTaxRate({ category: 'Drinks', tax_class_id: 'deleted' }, settings)).toBe(20);
+    });
+  });
+
+  describe('calculateCartTax', () => {
+    it('should extract tax from inclusive prices without changing the total', () => {
+      const result = calculateCartTax([line('a', 120)], 0, 'inclusive', () => 20);
+
+      expect(result.tax_amount).toBe(20);
+      expect(result.total).toBe(120);
+      expect(result.breakdown).toEqual([{ rate: 20, taxable_amount: 100, tax_amount: 20 }]);
+    });
+
+    it('should add tax on top of exclusive prices', () => {
+      const result = calculateCartTax([line('a', 100)], 0, 'exclusive', () => 20);
+
+      expect(result.tax_amount).toBe(20);
+      expect(result.total).toBe(120);
+    });
+
+    it('should spread the discount before taxing and group by rate', () => {
+      const result = calculateCartTax(
+        [line('a', 100), line('b', 100), line('c', 200)],
+        40,
+        'exclusive',
+        item => (item.product_id === 'a' ? 10 : 20)
+      );
+
+      expect(result.items.map(item => item.tax_amount)).toEqual([9, 18, 36]);
+      expect(result.breakdown).toEqual([
+        { rate: 20, taxable_amount: 270, tax_amount: 54 },
+        { rate: 10, taxable_amount: 90, tax_amount: 9 },
+      ]);
+      expect(result.total).toBe(423);
+    });
+  });
+
+  describe('buildVatReport', () => {
+    it('should group by period and rate and net out refunds', () => {
+      const refund: Refund = {
+        _id: 'refund_1',
+        store_id: 'store_1',
+        transaction_id: 'sale_1',
+        items: [{ product_id: 'a', product_name: 'A', quantity: 1, unit_price: 120, total_price: 120, restock: true, tax_rate: 20, tax_amount: 20 }],
+        total_amount: 120,
+        payment_methods: [{ type: 'cash', amount: 120 }],
+        cashier_id: 'cashier_1',
+        created_at: new Date(2024, 1, 3, 12),
+      };
+
+      const rows = buildVatReport([
+        { created_at: new Date(2024, 0, 10, 12), tax_breakdown: [{ rate: 20, taxable_amount: 500, tax_amount: 100 }] },
+        { created_at: new Date(2024, 0, 20, 12), tax_breakdown: [{ rate: 20, taxable_amount: 100, tax_amount: 20 }, { rate: 1, taxable_amount: 100, tax_amount: 1 }] },
+        { created_at: new Date(2024, 0, 25, 12), status: 'voided', tax_breakdown: [{ rate: 20, taxable_amount: 100, tax_amount: 20 }] },
+        { created_at: new Date(2024, 1, 1, 12), tax_breakdown: [{ rate: 20, taxable_amount: 200, tax_amount: 40 }] },
+        refundToSaleEntry(refund),
+      ], 'month', 'Europe/London');
+
+      expect(rows).toEqual([
+        { period: '2024-02', rate: 20, taxable_amount: 100, tax_amount: 20, gross_amount: 120 },
+        { period: '2024-01', rate: 20, taxable_amount: 600, tax_amount: 120, gross_amount: 720 },
+        { period: '2024-01', rate: 1, taxable_amount: 100, tax_amount: 1, gross_amount: 101 },
+      ]);
+    });
+
+    it('should label quarters', () => {
+      expect(getVatPeriodKey('2024-05-15T12:00:00Z', 'quarter', 'Europe/London')).toBe('2024-Q2');
+    });
+
+    it('should file a sale in the store timezone period', () => {
+      // 22:30 UTC on 31 March is already April in Istanbul
+      expect(getVatPeriodKey('2024-03-31T22:30:00Z', 'month', 'Europe/Istanbul')).toBe('2024-04');
+      expect(getVatPeriodKey('2024-03-31T22:30:00Z', 'quarter', 'Europe/Istanbul')).toBe('2024-Q2');
+      expect(getVatPeriodKey('2024-03-31T22:30:00Z', 'month', 'Europe/London')).toBe('2024-03');
+    });
+  });
+});
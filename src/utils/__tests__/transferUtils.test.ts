@@ -0,0 +1,76 @@
+import {
+  canTransitionTransfer,
+  validateTransfer,
+  getTransferDiscrepancies,
+  getInTransitQuantities,
+  getIncomingQuantitiesByCode,
+} from '../transferUtils';
+import { StockTransfer, StockTransferLine } from '../../types';
+
+const line = (productId: string, quantity: number, extra: Partial<StockTransferLine> = {}): StockTransferLine => ({
+  product_id: productId,
+  product_name: `Product ${productId}`,
+  barcode: `869${productId}`,
+  quantity,
+  ...extra,
+});
+
+const transfer = (status: StockTransfer['status'], lines: StockTransferLine[]): StockTransfer => ({
+  _id: `t_${status}`,
+  transfer_number: 'TR-0001',
+  from_store_id: 'store_a',
+  to_store_id: 'store_b',
+  status,
+  lines,
+  created_by: 'user_1',
+  created_at: new Date(),
+});
+
+describe('Transfer Utils', () => {
+  describe('canTransitionTransfer', () => {
+    it('should only move forward through draft, dispatched and received', () => {
+      expect(canTransitionTransfer('draft', 'dispatched')).toBe(true);
+      expect(canTransitionTransfer('dispatched', 'received')).toBe(true);
+      expect(canTransitionTransfer('dispatched', 'cancelled')).toBe(false);
+      expect(canTransitionTransfer('received', 'dispatched')).toBe(false);
+    });
+  });
+
+  describe('validateTransfer', () => {
+    it('should accept a transfer between two stores within stock', () => {
+      expect(validateTransfer('store_a', 'store_b', [line('1', 5)], { '1': 10 })).toEqual([]);
+    });
+
+    it('should reject same-store, duplicate and oversized lines', () => {
+      const errors = validateTransfer('store_a', 'store_a', [line('1', 5), line('1', 20)], { '1': 10 });
+
+      expect(errors).toContain('Source and destination must be different stores');
+      expect(errors).toContain('Product 1 is listed more than once');
+      expect(errors).toContain('Only 10 of Product 1 in stock');
+    });
+  });
+
+  describe('getTransferDiscrepancies', () => {
+    it('should report lines received short or over', () => {
+      const lines = [line('1', 10, { received_quantity: 10 }), line('2', 6, { received_quantity: 4, note: 'Broken' }), line('3', 2)];
+
+      expect(getTransferDiscrepancies(lines)).toEqual([
+        { product_id: '2', product_name: 'Product 2', sent: 6, received: 4, difference: -2, note: 'Broken' },
+      ]);
+    });
+  });
+
+  describe('in-transit quantities', () => {
+    it('should only count dispatched transfers', () => {
+      const transfers = [
+        transfer('dispatched', [line('1', 3), line('2', 1)]),
+        transfer('dispatched', [line('1', 2)]),
+        transfer('draft', [line('1', 50)]),
+        transfer('received', [line('2', 7, { received_quantity: 7 })]),
+      ];
+
+      expect(getInTransitQuantities(transfers)).toEqual({ '1': 5, '2': 1 });
+      expect(getIncomingQuantitiesByCode(transfers)).toEqual({ '8691': 5, '8692': 1 });
+    });
+  });
+});
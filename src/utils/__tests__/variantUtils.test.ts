@@ -0,0 +1,130 @@
+import {
+  getVariantLabel,
+  buildVariantName,
+  getProductFamilyId,
+  groupVariantsByParent,
+  collapseVariants,
+  getStockKeepingProducts,
+  summarizeVariants,
+  getVariantOptions,
+  buildVariantCombinations,
+  findVariant,
+  rollUpVariantPerformance,
+  VariantPerformanceRow,
+} from '../variantUtils';
+
+const options = [
+  { name: 'Size', values: ['S', 'L'] },
+  { name: 'Colour', values: ['Red', 'Blue'] },
+];
+
+const products = [
+  { _id: 'tee', name: 'T-Shirt', category: 'Clothing', price: 0, stock_quantity: 0 },
+  { _id: 'tee-s-red', name: 'T-Shirt - S / Red', category: 'Clothing', parent_product_id: 'tee', price: 10, stock_quantity: 4, variant_attributes: { Size: 'S', Colour: 'Red' } },
+  { _id: 'tee-l-red', name: 'T-Shirt - L / Red', category: 'Clothing', parent_product_id: 'tee', price: 12, stock_quantity: 0, variant_attributes: { Size: 'L', Colour: 'Red' } },
+  { _id: 'mug', name: 'Mug', category: 'Kitchen', price: 5, stock_quantity: 9 },
+];
+
+const row = (id: string, revenue: number, quantity: number, stock: number, margin: number, parentId?: string): VariantPerformanceRow => ({
+  _id: id,
+  name: id,
+  parent_product_id: parentId,
+  stock_quantity: stock,
+  salesData: { revenue, quantity, transactions: quantity },
+  profitMargin: margin,
+  turnoverRate: stock > 0 ? (quantity / stock) * 100 : 0,
+});
+
+describe('Variant Utils', () => {
+  describe('getVariantLabel', () => {
+    it('should follow the parent option order', () => {
+      expect(getVariantLabel({ Colour: 'Red', Size: 'L' }, options)).toBe('L / Red');
+      expect(getVariantLabel({ Colour: 'Red' })).toBe('Red');
+      expect(buildVariantName('T-Shirt', { Size: 'S', Colour: 'Blue' }, options)).toBe('T-Shirt - S / Blue');
+      expect(buildVariantName('T-Shirt', {})).toBe('T-Shirt');
+    });
+  });
+
+  describe('groupVariantsByParent', () => {
+    it('should group variants under their parent id', () => {
+      const groups = groupVariantsByParent(products);
+      expect(groups.get('tee')?.map(p => p._id)).toEqual(['tee-s-red', 'tee-l-red']);
+      expect(groups.has('mug')).toBe(false);
+    });
+  });
+
+  describe('collapseVariants', () => {
+    it('should show each parent once in place of its variants', () => {
+      const matches = [products[2], products[3], products[1]];
+      expect(collapseVariants(matches, products).map(p => p._id)).toEqual(['tee', 'mug']);
+    });
+
+    it('should keep variants whose parent is not loaded', () => {
+      expect(collapseVariants([products[1]], [products[1]]).map(p => p._id)).toEqual(['tee-s-red']);
+    });
+  });
+
+  describe('getStockKeepingProducts', () => {
+    it('should leave out parents that have variants', () => {
+      expect(getStockKeepingProducts(products).map(p => p._id)).toEqual(['tee-s-red', 'tee-l-red', 'mug']);
+      expect(products.map(getProductFamilyId)).toEqual(['tee', 'tee', 'tee', 'mug']);
+    });
+  });
+
+  describe('summarizeVariants', () => {
+    it('should report the price range and combined stock', () => {
+      expect(summarizeVariants([products[1], products[2]])).toEqual({
+        count: 2,
+        min_price: 10,
+        max_price: 12,
+        stock_quantity: 4,
+      });
+    });
+  });
+
+  describe('getVariantOptions', () => {
+    it('should derive options from variant attributes when the parent has none', () => {
+      expect(getVariantOptions([products[1], products[2]])).toEqual([
+        { name: 'Size', values: ['S', 'L'] },
+        { name: 'Colour', values: ['Red'] },
+      ]);
+      expect(getVariantOptions([], options)).toBe(options);
+    });
+  });
+
+  describe('buildVariantCombinations', () => {
+    it('should build every combination of option values', () => {
+      expect(buildVariantCombinations(options)).toEqual([
+        { Size: 'S', Colour: 'Red' },
+        { Size: 'S', Colour: 'Blue' },
+        { Size: 'L', Colour: 'Red' },
+        { Size: 'L', Colour: 'Blue' },
+      ]);
+      expect(buildVariantCombinations([{ name: 'Size', values: [] }])).toEqual([]);
+    });
+  });
+
+  describe('findVariant', () => {
+    it('should find the variant matching the selection', () => {
+      expect(findVariant(products, { Size: 'L', Colour: 'Red' })?._id).toBe('tee-l-red');
+      expect(findVariant(products, { Size: 'L', Colour: 'Blue' })).toBeUndefined();
+    });
+  });
+
+  describe('rollUpVariantPerformance', () => {
+    it('should fold variant rows into their parent', () => {
+      const rolled = rollUpVariantPerformance(
+        [row('tee-s-red', 300, 30, 10, 40, 'tee'), row('mug', 50, 10, 9, 20), row('tee-l-red', 100, 10, 10, 20, 'tee')],
+        products
+      );
+
+      expect(rolled.map(r => r._id)).toEqual(['tee', 'mug']);
+      expect(rolled[0].name).toBe('T-Shirt');
+      expect(rolled[0].salesData).toEqual({ revenue: 400, quantity: 40, transactions: 40 });
+      expect(rolled[0].stock_quantity).toBe(20);
+      expect(rolled[0].turnoverRate).toBe(200);
+      expect(rolled[0].profitMargin).toBe(35);
+      expect(rolled[0].variants?.map(v => v._id)).toEqual(['tee-s-red', 'tee-l-red']);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { AccountPayment, Customer, Transaction } from '../types';
+import { roundCurrency } from './formatUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ACCOUNT_PAYMENT_LABELS: Record<AccountPayment['payment_type'], string> = {
+  cash: 'Cash',
+  pos_isbank_transfer: 'POS/Isbank Transfer',
+  naira_transfer: 'Naira Transfer',
+  crypto_payment: 'Crypto Payment',
+  card: 'Card',
+  refund: 'Refund',
+};
+
+type AccountSale = Pick<Transaction, '_id' | 'created_at' | 'payment_methods'> & Partial<Pick<Transaction, 'status'>>;
+type AccountSettlement = Pick<AccountPayment, '_id' | 'created_at' | 'amount' | 'payment_type'>;
+
+// Part of a sale that was put on the customer's tab
+export const getOnAccountAmount = (sale: Pick<Transaction, 'payment_methods'>): number =>
+  roundCurrency((sale.payment_methods || [])
+    .filter(method => method.type === 'on_account')
+    .reduce((sum, method) => sum + method.amount, 0));
+
+const isCharge = (sale: AccountSale) =>
+  sale.status !== 'cancelled' && sale.status !== 'voided' && getOnAccountAmount(sale) > 0;
+
+export const getAvailableCredit = (customer: Pick<Customer, 'credit_limit' | 'account_balance'>): number =>
+  Math.max(0, roundCurrency((customer.credit_limit || 0) - (customer.account_balance || 0)));
+
+export interface AccountStatementEntry {
+  id: string;
+  date: Date;
+  type: 'charge' | 'payment';
+  description: string;
+  amount: number; // Positive for charges, negative for settlements
+  balance: number; // Running balance after this entry
+}
+
+export interface AccountStatement {
+  opening_balance: number;
+  entries: AccountStatementEntry[];
+  total_charged: number;
+  total_paid: number;
+  closing_balance: number;
+}
+
+/**
+ * Charges and settlements in date order with a running balance. Activity before
+ * `from` is folded into the opening balance.
+ */
+export const buildAccountStatement = (
+  sales: AccountSale[],
+  payments: AccountSettlement[],
+  from?: Date
+): AccountStatement => {
+  const all: Omit<AccountStatementEntry, 'balance'>[] = [
+    ...sales.filter(isCharge).map(sale => ({
+      id: sale._id,
+      date: new Date(sale.created_at),
+      type: 'charge' as const,
+      description: `Sale #${sale._id.slice(-6).toUpperCase()}`,
+      amount: getOnAccountAmount(sale),
+    })),
+    ...payments.map(payment => ({
+      id: payment._id,
+      date: new Date(payment.created_at),
+      type: 'payment' as const,
+      description: payment.payment_type === 'refund' ? 'Refund' : `Payment (${ACCOUNT_PAYMENT_LABELS[payment.payment_type]})`,
+      amount: -payment.amount,
+    })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  let balance = 0;
+  let openingBalance = 0;
+  let totalCharged = 0;
+  let totalPaid = 0;
+  const entries: AccountStatementEntry[] = [];
+
+  all.forEach(entry => {
+    balance = roundCurrency(balance + entry.amount);
+    if (from && entry.date < from) {
+      openingBalance = balance;
+      return;
+    }
+    if (entry.amount > 0) totalCharged += entry.amount;
+    else totalPaid -= entry.amount;
+    entries.push({ ...entry, balance });
+  });
+
+  return {
+    opening_balance: openingBalance,
+    entries,
+    total_charged: roundCurrency(totalCharged),
+    total_paid: roundCurrency(totalPaid),
+    closing_balance: balance,
+  };
+};
+
+export interface AccountAging {
+  current: number; // 0-30 days
+  days_31_60: number;
+  days_61_90: number;
+  over_90: number;
+  total: number;
+}
+
+export const AGING_BUCKET_LABELS: Array<{ key: keyof Omit<AccountAging, 'total'>; label: string }> = [
+  { key: 'current', label: '0–30 days' },
+  { key: 'days_31_60', label: '31–60 days' },
+  { key: 'days_61_90', label: '61–90 days' },
+  { key: 'over_90', label: '90+ days' },
+];
+
+// Settlements clear the oldest charges first; whatever is left is aged by the date of its sale
+export const calculateAccountAging = (
+  sales: AccountSale[],
+  payments: Pick<AccountPayment, 'amount'>[],
+  asOf: Date
+): AccountAging => {
+  const aging: AccountAging = { current: 0, days_31_60: 0, days_61_90: 0, over_90: 0, total: 0 };
+  let unallocated = payments.reduce((sum, payment) => sum + payment.amount, 0);
+
+  sales
+    .filter(isCharge)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .forEach(sale => {
+      const charge = getOnAccountAmount(sale);
+      const settled = Math.min(charge, unallocated);
+      unallocated -= settled;
+      const outstanding = roundCurrency(charge - settled);
+      if (outstanding <= 0) return;
+
+      const age = Math.floor((asOf.getTime() - new Date(sale.created_at).getTime()) / DAY_MS);
+      const bucket = age <= 30 ? 'current' : age <= 60 ? 'days_31_60' : age <= 90 ? 'days_61_90' : 'over_90';
+      aging[bucket] = roundCurrency(aging[bucket] + outstanding);
+      aging.total = roundCurrency(aging.total + outstanding);
+    });
+
+  return aging;
+};
@@ -0,0 +1,103 @@
+import { BatchAllocation, ExpiryAlert, ProductBatch } from '../types';
+
+export const DEFAULT_EXPIRY_ALERT_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtcDay = (date: string): number => {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+// Whole days from `today` to the expiry date; both are store-local YYYY-MM-DD dates
+export const daysUntilExpiry = (expiryDate: string, today: string): number =>
+  Math.round((toUtcDay(expiryDate) - toUtcDay(today)) / DAY_MS);
+
+export type BatchExpiryStatus = 'expired' | 'expiring_soon' | 'ok' | 'no_expiry';
+
+export const getBatchExpiryStatus = (
+  batch: Pick<ProductBatch, 'expiry_date'>,
+  today: string,
+  alertDays: number = DEFAULT_EXPIRY_ALERT_DAYS
+): BatchExpiryStatus => {
+  if (!batch.expiry_date) return 'no_expiry';
+  const days = daysUntilExpiry(batch.expiry_date, today);
+  if (days < 0) return 'expired';
+  return days <= alertDays ? 'expiring_soon' : 'ok';
+};
+
+// First-expiry-first-out: earliest expiry first, batches without an expiry date last, then oldest receipt
+export const sortBatchesFefo = (batches: ProductBatch[]): ProductBatch[] =>
+  [...batches].sort((a, b) => {
+    if (a.expiry_date && b.expiry_date && a.expiry_date !== b.expiry_date) {
+      return a.expiry_date < b.expiry_date ? -1 : 1;
+    }
+    if (a.expiry_date && !b.expiry_date) return -1;
+    if (!a.expiry_date && b.expiry_date) return 1;
+    return new Date(a.received_at).getTime() - new Date(b.received_at).getTime();
+  });
+
+// How checkout splits a sale across batches; any shortfall comes out of unbatched stock
+export const allocateFefo = (
+  batches: ProductBatch[],
+  quantity: number
+): { allocations: BatchAllocation[]; shortfall: number } => {
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const batch of sortBatchesFefo(batches)) {
+    if (remaining <= 0) break;
+    if (batch.quantity <= 0) continue;
+    const take = Math.min(batch.quantity, remaining);
+    allocations.push({ batch_id: batch._id, batch_number: batch.batch_number, quantity: take });
+    remaining -= take;
+  }
+  return { allocations, shortfall: Math.max(0, remaining) };
+};
+
+// Stock received before batch tracking was switched on, or adjusted without a batch
+export const getUnbatchedQuantity = (stockQuantity: number, batches: ProductBatch[]): number =>
+  Math.max(0, stockQuantity - batches.reduce((sum, batch) => sum + Math.max(0, batch.quantity), 0));
+
+export interface ExpiryNotificationData {
+  id: string;
+  type: 'error' | 'warning';
+  priority: 'HIGH' | 'MEDIUM';
+  title: string;
+  message: string;
+  data: { alerts: ExpiryAlert[] };
+}
+
+const describeAlerts = (alerts: ExpiryAlert[]): string => {
+  const names = alerts.slice(0, 3).map(alert => `${alert.product_name} (${alert.batch_number})`);
+  const more = alerts.length > 3 ? ` and ${alerts.length - 3} more` : '';
+  return `${names.join(', ')}${more}`;
+};
+
+// One notification per kind per day, so the ids stay stable across polls and read state sticks
+export const buildExpiryNotifications = (alerts: ExpiryAlert[], today: string): ExpiryNotificationData[] => {
+  const expired = alerts.filter(alert => alert.alert_type === 'expired');
+  const expiring = alerts.filter(alert => alert.alert_type === 'expiring_soon');
+  const notifications: ExpiryNotificationData[] = [];
+
+  if (expired.length > 0) {
+    notifications.push({
+      id: `expiry-expired-${today}`,
+      type: 'error',
+      priority: 'HIGH',
+      title: `${expired.length} expired batch${expired.length === 1 ? '' : 'es'} on the shelf`,
+      message: `Remove and write off: ${describeAlerts(expired)}`,
+      data: { alerts: expired },
+    });
+  }
+  if (expiring.length > 0) {
+    notifications.push({
+      id: `expiry-soon-${today}`,
+      type: 'warning',
+      priority: 'MEDIUM',
+      title: `${expiring.length} batch${expiring.length === 1 ? '' : 'es'} expiring soon`,
+      message: describeAlerts(expiring),
+      data: { alerts: expiring },
+    });
+  }
+  return notifications;
+};
@@ -0,0 +1,66 @@
+import { DashboardMetrics } from '../types';
+import { roundCurrency } from './formatUtils';
+
+export interface BranchMetrics {
+  store_id: string;
+  store_name: string;
+  sales: number; // Net of refunds
+  transactions: number;
+  average_ticket: number;
+  expenses: number;
+  refunds: number;
+  net_profit: number;
+}
+
+export interface BranchComparison {
+  branches: Array<BranchMetrics & { sales_share: number; rank: number }>;
+  totals: Omit<BranchMetrics, 'store_id' | 'store_name'>;
+}
+
+// Flatten one store's dashboard figures (refunds already applied) into a comparison row
+export const toBranchMetrics = (
+  storeId: string,
+  storeName: string,
+  metrics: Partial<DashboardMetrics> | null | undefined
+): BranchMetrics => {
+  const sales = metrics?.totalSales || 0;
+  const transactions = metrics?.totalTransactions || 0;
+  const expenses = metrics?.totalExpenses || 0;
+
+  return {
+    store_id: storeId,
+    store_name: storeName,
+    sales: roundCurrency(sales),
+    transactions,
+    average_ticket: transactions > 0 ? roundCurrency(sales / transactions) : 0,
+    expenses: roundCurrency(expenses),
+    refunds: roundCurrency(metrics?.totalRefunds || 0),
+    net_profit: roundCurrency(typeof metrics?.netProfit === 'number' ? metrics.netProfit : sales - expenses),
+  };
+};
+
+// Rank branches by net sales and add the all-branches totals
+export const compareBranches = (rows: BranchMetrics[]): BranchComparison => {
+  const sales = rows.reduce((sum, row) => sum + row.sales, 0);
+  const transactions = rows.reduce((sum, row) => sum + row.transactions, 0);
+
+  const branches = [...rows]
+    .sort((a, b) => b.sales - a.sales || a.store_name.localeCompare(b.store_name))
+    .map((row, index) => ({
+      ...row,
+      sales_share: sales > 0 ? Math.round((row.sales / sales) * 1000) / 10 : 0,
+      rank: index + 1,
+    }));
+
+  return {
+    branches,
+    totals: {
+      sales: roundCurrency(sales),
+      transactions,
+      average_ticket: transactions > 0 ? roundCurrency(sales / transactions) : 0,
+      expenses: roundCurrency(rows.reduce((sum, row) => sum + row.expenses, 0)),
+      refunds: roundCurrency(rows.reduce((sum, row) => sum + row.refunds, 0)),
+      net_profit: roundCurrency(rows.reduce((sum, row) => sum + row.net_profit, 0)),
+    },
+  };
+};
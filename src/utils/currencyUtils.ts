@@ -0,0 +1,178 @@
+import { ExchangeRate, PaymentMethod, Transaction } from '../types';
+import { roundCurrency } from './formatUtils';
+
+export const DEFAULT_CURRENCY = 'TRY';
+
+export const CURRENCY_OPTIONS = [
+  { code: 'TRY', label: 'Turkish Lira', symbol: '₺' },
+  { code: 'USD', label: 'US Dollar', symbol: '$' },
+  { code: 'EUR', label: 'Euro', symbol: '€' },
+  { code: 'GBP', label: 'British Pound', symbol: '£' },
+  { code: 'NGN', label: 'Nigerian Naira', symbol: '₦' },
+];
+
+// Payment types that settle in a fixed foreign currency by default
+export const PAYMENT_TYPE_CURRENCY: Partial<Record<PaymentMethod['type'], string>> = {
+  naira_transfer: 'NGN',
+};
+
+export type ExchangeRateInput = Pick<ExchangeRate, 'currency' | 'rate' | 'effective_date'>;
+
+export interface ExchangeRateImport {
+  rates: ExchangeRateInput[];
+  errors: string[];
+}
+
+export const getCurrencySymbol = (code: string): string =>
+  CURRENCY_OPTIONS.find(option => option.code === normalizeCurrencyCode(code))?.symbol || normalizeCurrencyCode(code);
+
+export const normalizeCurrencyCode = (code: string): string => (code || '').trim().toUpperCase();
+
+export const isValidCurrencyCode = (code: string): boolean => /^[A-Z]{3}$/.test(normalizeCurrencyCode(code));
+
+// Local calendar day, so a rate effective "today" applies from local midnight
+export const toDateKey = (date: Date | string = new Date()): string => {
+  const value = new Date(date);
+  return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Base currency units per unit of `currency` on a given day: the latest rate
+ * whose effective date isn't after it. A rate entered the other way round
+ * (base quoted in the foreign currency) is inverted. Undefined when no rate
+ * applies yet.
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  currency: string,
+  baseCurrency: string,
+  date: Date | string = new Date()
+): number | undefined => {
+  const from = normalizeCurrencyCode(currency);
+  const base = normalizeCurrencyCode(baseCurrency);
+  if (!from || from === base) return 1;
+
+  const day = toDateKey(date);
+  let latest: { effective_date: string; rate: number } | undefined;
+
+  for (const entry of rates) {
+    if (entry.rate <= 0 || entry.effective_date > day) continue;
+    const entryCurrency = normalizeCurrencyCode(entry.currency);
+    const entryBase = normalizeCurrencyCode(entry.base_currency);
+    let rate: number | undefined;
+    if (entryCurrency === from && entryBase === base) rate = entry.rate;
+    else if (entryCurrency === base && entryBase === from) rate = 1 / entry.rate;
+    if (rate !== undefined && (!latest || entry.effective_date >= latest.effective_date)) {
+      latest = { effective_date: entry.effective_date, rate };
+    }
+  }
+
+  return latest?.rate;
+};
+
+export const convertToBase = (amount: number, rate: number): number => roundCurrency(amount * rate);
+
+export const convertFromBase = (amount: number, rate: number): number => (rate > 0 ? roundCurrency(amount / rate) : 0);
+
+// Record what was tendered in a foreign currency alongside its base-currency value
+export const toForeignPayment = (
+  type: PaymentMethod['type'],
+  originalAmount: number,
+  currency: string,
+  baseCurrency: string,
+  rate: number
+): PaymentMethod => {
+  if (normalizeCurrencyCode(currency) === normalizeCurrencyCode(baseCurrency)) {
+    return { type, amount: roundCurrency(originalAmount) };
+  }
+  return {
+    type,
+    amount: convertToBase(originalAmount, rate),
+    currency: normalizeCurrencyCode(currency),
+    original_amount: roundCurrency(originalAmount),
+    exchange_rate: rate,
+  };
+};
+
+// Change owed in the base currency once every payment is converted
+export const calculateChange = (totalDue: number, payments: PaymentMethod[]): number => {
+  const paid = payments.reduce((sum, payment) => sum + (payment.amount || 0), 0);
+  return Math.max(0, roundCurrency(paid - totalDue));
+};
+
+/**
+ * Parse a rate table exported from a bank or spreadsheet. Each row is
+ * `currency,rate,effective_date` (YYYY-MM-DD); a header row is optional.
+ */
+export const parseExchangeRateCsv = (text: string): ExchangeRateImport => {
+  const rates: ExchangeRateInput[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const cells = trimmed.split(/[,;\t]/).map(cell => cell.trim().replace(/^"|"$/g, ''));
+    if (index === 0 && /currency/i.test(cells[0])) return;
+
+    const rowNumber = index + 1;
+    const currency = normalizeCurrencyCode(cells[0]);
+    const rate = Number(cells[1]);
+    const effectiveDate = cells[2];
+
+    if (!isValidCurrencyCode(currency)) {
+      errors.push(`Row ${rowNumber}: "${cells[0]}" is not a currency code`);
+    } else if (!(rate > 0)) {
+      errors.push(`Row ${rowNumber}: rate must be a positive number`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate || '') || isNaN(new Date(effectiveDate).getTime())) {
+      errors.push(`Row ${rowNumber}: effective date must be YYYY-MM-DD`);
+    } else {
+      rates.push({ currency, rate, effective_date: effectiveDate });
+    }
+  });
+
+  return { rates, errors };
+};
+
+/**
+ * Restate a sale recorded in another base currency (e.g. before the store
+ * switched) in the current one, using the rate on the day of the sale.
+ * Sales that can't be converted are returned unchanged.
+ */
+export const convertTransactionToBase = <T extends Partial<Transaction>>(
+  transaction: T,
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): T => {
+  if (!transaction.currency || normalizeCurrencyCode(transaction.currency) === normalizeCurrencyCode(baseCurrency)) {
+    return transaction;
+  }
+  const rate = findExchangeRate(rates, transaction.currency, baseCurrency, transaction.created_at || new Date());
+  if (rate === undefined) return transaction;
+
+  const scale = (amount?: number) => (typeof amount === 'number' ? convertToBase(amount, rate) : amount);
+
+  return {
+    ...transaction,
+    currency: normalizeCurrencyCode(baseCurrency),
+    subtotal: scale(transaction.subtotal),
+    discount_amount: scale(transaction.discount_amount),
+    total_amount: scale(transaction.total_amount),
+    delivery_fee: scale(transaction.delivery_fee),
+    tax_amount: scale(transaction.tax_amount),
+    refunded_amount: scale(transaction.refunded_amount),
+    change_amount: scale(transaction.change_amount),
+    items: transaction.items?.map(item => ({
+      ...item,
+      unit_price: convertToBase(item.unit_price, rate),
+      total_price: convertToBase(item.total_price, rate),
+      discount_amount: scale(item.discount_amount),
+      tax_amount: scale(item.tax_amount),
+    })),
+    payment_methods: transaction.payment_methods?.map(method => ({ ...method, amount: convertToBase(method.amount, rate) })),
+    tax_breakdown: transaction.tax_breakdown?.map(line => ({
+      ...line,
+      taxable_amount: convertToBase(line.taxable_amount, rate),
+      tax_amount: convertToBase(line.tax_amount, rate),
+    })),
+  };
+};
@@ -0,0 +1,138 @@
+import { Customer, Transaction } from '../types';
+import { roundCurrency } from './formatUtils';
+import { isValidPhoneNumber, sanitizePhoneNumber } from './phoneUtils';
+
+// Digits with an optional leading +, so "+90 533 868 87 09" and "+905338688709" are stored alike
+export const normalizeCustomerPhone = (phone: string): string => {
+  const sanitized = sanitizePhoneNumber(phone);
+  const digits = sanitized.replace(/\D/g, '');
+  if (sanitized.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+  return digits;
+};
+
+// Local (0533...) and international (+90533...) forms of a number share their last ten digits
+const phoneKey = (phone: string): string => normalizeCustomerPhone(phone).replace(/\D/g, '').slice(-10);
+
+export const phonesMatch = (a: string, b: string): boolean => {
+  const keyA = phoneKey(a);
+  return keyA.length >= 7 && keyA === phoneKey(b);
+};
+
+export const findCustomerByPhone = <T extends Pick<Customer, 'phone'>>(customers: T[], phone: string): T | undefined =>
+  customers.find(customer => phonesMatch(customer.phone, phone));
+
+export const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
+
+export const validateCustomerInput = (input: { name: string; phone: string; email?: string }): string | null => {
+  const name = input.name.trim();
+  if (name.length < 2 || name.length > 100) return 'Customer name must be between 2 and 100 characters';
+  if (!isValidPhoneNumber(input.phone)) return 'Please enter a valid phone number';
+  if (input.email && input.email.trim() && !isValidEmail(input.email)) return 'Please enter a valid email address';
+  return null;
+};
+
+export const matchesCustomerSearch = (customer: Pick<Customer, 'name' | 'phone' | 'email'>, query: string): boolean => {
+  const term = query.trim().toLowerCase();
+  if (!term) return true;
+  const digits = term.replace(/\D/g, '');
+  return customer.name.toLowerCase().includes(term)
+    || (customer.email || '').toLowerCase().includes(term)
+    || (digits.length >= 3 && customer.phone.replace(/\D/g, '').includes(digits));
+};
+
+export interface LoyaltySettings {
+  points_per_unit: number; // Points earned per unit of base currency paid
+  point_value: number; // Base currency value of one point when redeemed
+  min_redeem_points: number;
+}
+
+export const getLoyaltySettings = (store?: {
+  loyalty_points_per_unit?: number;
+  loyalty_point_value?: number;
+  loyalty_min_redeem_points?: number;
+} | null): LoyaltySettings => ({
+  points_per_unit: Math.max(0, store?.loyalty_points_per_unit || 0),
+  point_value: Math.max(0, store?.loyalty_point_value || 0),
+  min_redeem_points: Math.max(0, store?.loyalty_min_redeem_points || 0),
+});
+
+// Loyalty stays off until the store sets both an earn rate and a point value
+export const isLoyaltyEnabled = (settings: LoyaltySettings): boolean =>
+  settings.points_per_unit > 0 && settings.point_value > 0;
+
+// Points are earned on what the customer actually paid, not on points redeemed
+export const calculatePointsEarned = (amountPaid: number, settings: LoyaltySettings): number =>
+  isLoyaltyEnabled(settings) ? Math.floor(Math.max(0, amountPaid) * settings.points_per_unit + 1e-9) : 0;
+
+export const pointsToAmount = (points: number, settings: LoyaltySettings): number =>
+  roundCurrency(Math.max(0, points) * settings.point_value);
+
+// Most points that can go towards `amountDue` without paying more than is owed
+export const getRedeemablePoints = (balance: number, amountDue: number, settings: LoyaltySettings): number => {
+  if (!isLoyaltyEnabled(settings) || balance <= 0 || balance < settings.min_redeem_points) return 0;
+  const coverable = Math.floor(Math.max(0, amountDue) / settings.point_value + 1e-9);
+  return Math.min(Math.floor(balance), coverable);
+};
+
+export interface PurchaseSummary {
+  lifetime_value: number;
+  visit_count: number;
+  average_basket: number;
+  last_purchase_at?: Date;
+  points_earned: number;
+  points_redeemed: number;
+}
+
+type HistorySale = Pick<Transaction, 'total_amount' | 'created_at'> &
+  Partial<Pick<Transaction, 'status' | 'refunded_amount' | 'loyalty_points_earned' | 'loyalty_points_redeemed' | 'items'>>;
+
+const countsAsPurchase = (sale: HistorySale) => sale.status !== 'cancelled' && sale.status !== 'voided';
+
+export const summarizePurchaseHistory = (sales: HistorySale[]): PurchaseSummary => {
+  const purchases = sales.filter(countsAsPurchase);
+  const lifetimeValue = roundCurrency(
+    purchases.reduce((sum, sale) => sum + (sale.total_amount || 0) - (sale.refunded_amount || 0), 0)
+  );
+  const lastPurchase = purchases.reduce<Date | undefined>((latest, sale) => {
+    const date = new Date(sale.created_at);
+    return !latest || date > latest ? date : latest;
+  }, undefined);
+
+  return {
+    lifetime_value: lifetimeValue,
+    visit_count: purchases.length,
+    average_basket: purchases.length > 0 ? roundCurrency(lifetimeValue / purchases.length) : 0,
+    last_purchase_at: lastPurchase,
+    points_earned: purchases.reduce((sum, sale) => sum + (sale.loyalty_points_earned || 0), 0),
+    points_redeemed: purchases.reduce((sum, sale) => sum + (sale.loyalty_points_redeemed || 0), 0),
+  };
+};
+
+export interface FavouriteProduct {
+  product_id: string;
+  product_name: string;
+  quantity: number;
+  revenue: number;
+}
+
+export const getFavouriteProducts = (sales: HistorySale[], limit = 5): FavouriteProduct[] => {
+  const byProduct = new Map<string, FavouriteProduct>();
+  sales.filter(countsAsPurchase).forEach(sale => {
+    (sale.items || []).forEach(item => {
+      const entry = byProduct.get(item.product_id) || {
+        product_id: item.product_id,
+        product_name: item.product_name || item.product_id,
+        quantity: 0,
+        revenue: 0,
+      };
+      entry.quantity += item.quantity;
+      entry.revenue = roundCurrency(entry.revenue + (item.total_price ?? item.unit_price * item.quantity) - (item.discount_amount || 0));
+      byProduct.set(item.product_id, entry);
+    });
+  });
+
+  return Array.from(byProduct.values())
+    .sort((a, b) => b.revenue - a.revenue)
+    .slice(0, limit);
+};
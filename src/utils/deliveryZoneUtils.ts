@@ -0,0 +1,56 @@
+import { DeliveryZone, DeliveryZoneMode } from '../types';
+import { roundCurrency } from './formatUtils';
+
+// Flat catalog fee charged until the store sets up its own zones
+export const DEFAULT_DELIVERY_FEE = 25;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface DeliveryQuote {
+  zone: DeliveryZone;
+  fee: number;
+  is_free: boolean;
+  below_minimum: boolean;
+  amount_to_free: number; // How much more the order needs for free delivery; 0 when already free or never free
+}
+
+// Distance bands are listed nearest first; named areas keep the order they were set up in
+export const sortDeliveryZones = (zones: DeliveryZone[], mode: DeliveryZoneMode): DeliveryZone[] =>
+  mode === 'distance'
+    ? [...zones].sort((a, b) => (a.max_distance_km ?? Infinity) - (b.max_distance_km ?? Infinity))
+    : zones;
+
+export const getZoneLabel = (zone: DeliveryZone, mode: DeliveryZoneMode): string =>
+  mode === 'distance' && zone.max_distance_km !== undefined
+    ? `${zone.name || 'Band'} (up to ${zone.max_distance_km} km)`
+    : zone.name || 'Unnamed zone';
+
+// Straight-line (haversine) distance, which is what the bands are priced on
+export const getDistanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const latDelta = toRadians(to.latitude - from.latitude);
+  const lonDelta = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(latDelta / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(lonDelta / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// The nearest band that reaches the address; undefined when it is beyond every band
+export const findZoneForDistance = (zones: DeliveryZone[], distanceKm: number): DeliveryZone | undefined =>
+  sortDeliveryZones(zones, 'distance').find(zone => zone.max_distance_km !== undefined && distanceKm <= zone.max_distance_km);
+
+// Fee for delivering an order of `orderValue` (everything except the delivery itself) to a zone
+export const quoteDelivery = (zone: DeliveryZone, orderValue: number): DeliveryQuote => {
+  const threshold = zone.free_delivery_threshold || 0;
+  const isFree = threshold > 0 && orderValue >= threshold;
+  return {
+    zone,
+    fee: isFree ? 0 : roundCurrency(Math.max(0, zone.fee || 0)),
+    is_free: isFree,
+    below_minimum: (zone.minimum_order || 0) > 0 && orderValue < (zone.minimum_order || 0),
+    amount_to_free: threshold > 0 && !isFree ? roundCurrency(threshold - orderValue) : 0,
+  };
+};
@@ -0,0 +1,66 @@
+import { CustomerOrder, DispatchStatus, Rider } from '../types';
+import { roundCurrency } from './formatUtils';
+
+export type DispatchColumn = 'ready' | DispatchStatus;
+
+export const DISPATCH_COLUMNS: Array<{ id: DispatchColumn; label: string }> = [
+  { id: 'ready', label: 'Ready' },
+  { id: 'assigned', label: 'Assigned' },
+  { id: 'out_for_delivery', label: 'Out for Delivery' },
+  { id: 'delivered', label: 'Delivered' },
+];
+
+// Only deliveries that the kitchen has finished, or that a rider already has, belong on the board
+export const isDispatchable = (order: Pick<CustomerOrder, 'deliveryMethod' | 'status' | 'dispatchStatus'>): boolean =>
+  order.deliveryMethod === 'delivery' && (order.status === 'ready' || !!order.dispatchStatus);
+
+export const getDispatchColumn = (order: Pick<CustomerOrder, 'dispatchStatus'>): DispatchColumn =>
+  order.dispatchStatus || 'ready';
+
+// Orders move forward one step at a time and can be pulled back until they are delivered
+export const canMoveOrder = (
+  order: Pick<CustomerOrder, 'dispatchStatus' | 'riderId'>,
+  target: DispatchColumn
+): boolean => {
+  const from = getDispatchColumn(order);
+  if (from === target || from === 'delivered') return false;
+  const fromIndex = DISPATCH_COLUMNS.findIndex(column => column.id === from);
+  const targetIndex = DISPATCH_COLUMNS.findIndex(column => column.id === target);
+  if (targetIndex > fromIndex + 1) return false;
+  // Assigning asks for a rider; later steps need one already
+  return target === 'ready' || target === 'assigned' || !!order.riderId;
+};
+
+// Cash-on-delivery orders are paid to the rider in full, delivery fee included
+export const getCashToCollect = (order: Pick<CustomerOrder, 'paymentMethod' | 'total'>): number =>
+  order.paymentMethod === 'cash' ? roundCurrency(order.total || 0) : 0;
+
+export interface RiderQueue {
+  rider: Rider;
+  orders: CustomerOrder[]; // Assigned and out for delivery, oldest assignment first
+  cash_to_collect: number;
+}
+
+export const buildRiderQueues = (orders: CustomerOrder[], riders: Rider[]): RiderQueue[] =>
+  riders
+    .filter(rider => rider.is_active)
+    .map(rider => {
+      const queue = orders
+        .filter(order => order.riderId === rider._id && (order.dispatchStatus === 'assigned' || order.dispatchStatus === 'out_for_delivery'))
+        .sort((a, b) => new Date(a.assignedAt || a.createdAt).getTime() - new Date(b.assignedAt || b.createdAt).getTime());
+      return {
+        rider,
+        orders: queue,
+        cash_to_collect: roundCurrency(queue.reduce((sum, order) => sum + getCashToCollect(order), 0)),
+      };
+    });
+
+// Minutes from handing the order to the rider until it was delivered, or until now while on the road
+export const getDeliveryMinutes = (
+  order: Pick<CustomerOrder, 'outForDeliveryAt' | 'deliveredAt'>,
+  now: Date = new Date()
+): number | null => {
+  if (!order.outForDeliveryAt) return null;
+  const end = order.deliveredAt ? new Date(order.deliveredAt) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(order.outForDeliveryAt).getTime()) / 60000));
+};
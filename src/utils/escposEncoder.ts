@@ -0,0 +1,287 @@
+import { Transaction, ReceiptTemplate, ReceiptPaperWidth, PaymentMethod } from '../types';
+import { formatCurrency } from './formatUtils';
+import { localeService } from '../services/localeService';
+
+/**
+ * ESC/POS receipt encoding for 58/80 mm thermal printers.
+ *
+ * A receipt is first laid out as a list of blocks (text, dividers, logo) so the
+ * same layout drives both the byte stream sent to the printer and the plain
+ * text preview shown in Settings.
+ */
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  header_text: '',
+  footer_text: 'Thank you for shopping with us!',
+  paper_width: 80,
+  show_tax_lines: true,
+};
+
+// Characters per line in the printer's default font (Font A, 12x24)
+export const PAPER_WIDTH_CHARS: Record<ReceiptPaperWidth, number> = { 58: 32, 80: 48 };
+
+// Printable width in dots at 203 dpi, used to size the logo
+export const PAPER_WIDTH_DOTS: Record<ReceiptPaperWidth, number> = { 58: 384, 80: 576 };
+
+export interface ReceiptStoreInfo {
+  name: string;
+  address?: string;
+  phone?: string;
+}
+
+// 1-bit raster: rows of width/8 bytes, most significant bit = leftmost dot
+export interface RasterImage {
+  width: number; // Multiple of 8
+  height: number;
+  data: Uint8Array;
+}
+
+export type ReceiptBlock =
+  | { type: 'text'; text: string; align?: 'left' | 'center' | 'right'; bold?: boolean; large?: boolean }
+  | { type: 'divider' }
+  | { type: 'logo' };
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+const PAYMENT_LABELS: Record<PaymentMethod['type'], string> = {
+  cash: 'Cash',
+  pos_isbank_transfer: 'POS',
+  naira_transfer: 'Transfer',
+  crypto_payment: 'Crypto',
+  card: 'Card',
+  loyalty_points: 'Points',
+  on_account: 'On account',
+};
+
+// Code page 857 (Turkish) for the characters the ASCII range doesn't cover
+const CP857: Record<string, number> = {
+  'Ç': 0x80, 'ü': 0x81, 'é': 0x82, 'â': 0x83, 'ä': 0x84, 'à': 0x85, 'ç': 0x87,
+  'ê': 0x88, 'ë': 0x89, 'è': 0x8a, 'ï': 0x8b, 'î': 0x8c, 'ı': 0x8d, 'Ä': 0x8e,
+  'É': 0x90, 'ô': 0x93, 'ö': 0x94, 'û': 0x96, 'ù': 0x97, 'İ': 0x98, 'Ö': 0x99,
+  'Ü': 0x9a, 'Ş': 0x9e, 'ş': 0x9f, 'á': 0xa0, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3,
+  'ñ': 0xa4, 'Ñ': 0xa5, 'Ğ': 0xa6, 'ğ': 0xa7,
+};
+
+// Printers can't render currency symbols outside the code page
+const normalizeText = (text: string): string =>
+  text
+    .replace(/₺/g, 'TL ')
+    .replace(/ /g, ' ')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-');
+
+export const encodeText = (text: string): number[] => {
+  const bytes: number[] = [];
+  const normalized = normalizeText(text);
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized.charAt(i);
+    const code = normalized.charCodeAt(i);
+    if (code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+    } else if (char === '\n') {
+      bytes.push(0x0a);
+    } else {
+      bytes.push(CP857[char] !== undefined ? CP857[char] : 0x3f); // '?'
+    }
+  }
+  return bytes;
+};
+
+const repeat = (char: string, count: number): string => new Array(Math.max(0, count) + 1).join(char);
+
+export const wrapText = (text: string, width: number): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > width) {
+        if (line) {
+          lines.push(line);
+          line = '';
+        }
+        lines.push(word.slice(0, width));
+        word = word.slice(width);
+      }
+      if (!word) return;
+      if (!line) {
+        line = word;
+      } else if (line.length + 1 + word.length <= width) {
+        line = `${line} ${word}`;
+      } else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+// Left text and right-aligned value on one line; the left side is truncated if they don't fit
+export const padColumns = (left: string, right: string, width: number): string => {
+  const room = width - right.length - 1;
+  const leftText = left.length > room ? left.slice(0, Math.max(0, room)) : left;
+  return `${leftText}${repeat(' ', width - leftText.length - right.length)}${right}`;
+};
+
+const money = (amount: number): string => normalizeText(formatCurrency(amount)).trim();
+
+export const buildReceiptLayout = (
+  transaction: Transaction,
+  template: ReceiptTemplate,
+  store: ReceiptStoreInfo
+): ReceiptBlock[] => {
+  const width = PAPER_WIDTH_CHARS[template.paper_width] || PAPER_WIDTH_CHARS[80];
+  const blocks: ReceiptBlock[] = [];
+  const text = (value: string, options: Omit<Extract<ReceiptBlock, { type: 'text' }>, 'type' | 'text'> = {}) =>
+    blocks.push({ type: 'text', text: value, ...options });
+
+  if (template.logo) {
+    blocks.push({ type: 'logo' });
+  }
+
+  text(store.name, { align: 'center', bold: true, large: true });
+  if (store.address) wrapText(store.address, width).forEach(line => text(line, { align: 'center' }));
+  if (store.phone) text(store.phone, { align: 'center' });
+  if (template.header_text.trim()) {
+    wrapText(template.header_text.trim(), width).forEach(line => text(line, { align: 'center' }));
+  }
+  blocks.push({ type: 'divider' });
+
+  text(`Receipt #: ${transaction._id}`);
+  text(`Date: ${localeService.formatDateTime(transaction.created_at)}`);
+  if (transaction.cashier_id) text(`Cashier: ${transaction.cashier_id}`);
+  blocks.push({ type: 'divider' });
+
+  (transaction.items || []).forEach(item => {
+    wrapText(item.product_name || item.product_id, width).forEach(line => text(line));
+    text(padColumns(`  ${item.quantity} x ${money(item.unit_price)}`, money(item.unit_price * item.quantity), width));
+    if (item.discount_amount) {
+      text(padColumns(`  ${item.promotion_name || 'Promotion'}`, `-${money(item.discount_amount)}`, width));
+    }
+  });
+  blocks.push({ type: 'divider' });
+
+  const subtotal = transaction.subtotal ||
+    (transaction.items || []).reduce((sum, item) => sum + item.unit_price * item.quantity - (item.discount_amount || 0), 0);
+  text(padColumns('Subtotal', money(subtotal), width));
+  if (transaction.discount_amount) {
+    text(padColumns('Discount', `-${money(transaction.discount_amount)}`, width));
+  }
+  if (template.show_tax_lines) {
+    const included = transaction.tax_mode === 'inclusive' ? ' incl.' : '';
+    if (transaction.tax_breakdown && transaction.tax_breakdown.length > 0) {
+      transaction.tax_breakdown.forEach(line => {
+        text(padColumns(`VAT ${line.rate}%${included}`, money(line.tax_amount), width));
+      });
+    } else if (typeof transaction.tax_amount === 'number') {
+      text(padColumns(`Tax${included}`, money(transaction.tax_amount), width));
+    }
+  }
+  if (transaction.delivery_fee) {
+    text(padColumns('Delivery', money(transaction.delivery_fee), width));
+  }
+  text(padColumns('TOTAL', money(transaction.total_amount), width), { bold: true });
+
+  const payments: PaymentMethod[] = transaction.payment_methods && transaction.payment_methods.length > 0
+    ? transaction.payment_methods
+    : transaction.payment_method
+      ? [{ type: transaction.payment_method, amount: transaction.total_amount }]
+      : [];
+  payments.forEach(payment => {
+    text(padColumns(PAYMENT_LABELS[payment.type] || payment.type, money(payment.amount), width));
+    if (payment.currency && payment.original_amount !== undefined) {
+      text(`  ${payment.original_amount.toFixed(2)} ${payment.currency} @ ${payment.exchange_rate}`);
+    }
+  });
+  if (transaction.change_amount) {
+    text(padColumns('Change', money(transaction.change_amount), width));
+  }
+
+  if (transaction.notes) {
+    blocks.push({ type: 'divider' });
+    wrapText(`Note: ${transaction.notes}`, width).forEach(line => text(line));
+  }
+
+  if (template.footer_text.trim()) {
+    blocks.push({ type: 'divider' });
+    wrapText(template.footer_text.trim(), width).forEach(line => text(line, { align: 'center' }));
+  }
+
+  return blocks;
+};
+
+// Plain-text rendering of a layout, used for previews
+export const receiptToText = (blocks: ReceiptBlock[], paperWidth: ReceiptPaperWidth): string => {
+  const width = PAPER_WIDTH_CHARS[paperWidth] || PAPER_WIDTH_CHARS[80];
+  return blocks.map(block => {
+    if (block.type === 'divider') return repeat('-', width);
+    if (block.type === 'logo') return `${repeat(' ', Math.floor((width - 6) / 2))}[LOGO]`;
+    const value = normalizeText(block.text);
+    if (block.align === 'center') return `${repeat(' ', Math.floor((width - value.length) / 2))}${value}`;
+    if (block.align === 'right') return `${repeat(' ', width - value.length)}${value}`;
+    return value;
+  }).join('\n');
+};
+
+const encodeRaster = (image: RasterImage): number[] => {
+  const bytesPerRow = image.width / 8;
+  // GS v 0: print raster bit image (normal density)
+  return [
+    GS, 0x76, 0x30, 0x00,
+    bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff,
+    image.height & 0xff, (image.height >> 8) & 0xff,
+    ...Array.prototype.slice.call(image.data),
+  ];
+};
+
+export const encodeReceiptBlocks = (
+  blocks: ReceiptBlock[],
+  paperWidth: ReceiptPaperWidth,
+  logo?: RasterImage | null
+): Uint8Array => {
+  const width = PAPER_WIDTH_CHARS[paperWidth] || PAPER_WIDTH_CHARS[80];
+  const bytes: number[] = [
+    ESC, 0x40, // Initialize
+    ESC, 0x74, 13, // Code page 857 (Turkish)
+  ];
+
+  blocks.forEach(block => {
+    if (block.type === 'logo') {
+      if (logo) {
+        bytes.push(ESC, 0x61, 1, ...encodeRaster(logo), 0x0a);
+      }
+      return;
+    }
+    if (block.type === 'divider') {
+      bytes.push(ESC, 0x61, 0, ...encodeText(repeat('-', width)), 0x0a);
+      return;
+    }
+
+    const align = block.align === 'center' ? 1 : block.align === 'right' ? 2 : 0;
+    bytes.push(ESC, 0x61, align);
+    if (block.bold) bytes.push(ESC, 0x45, 1);
+    if (block.large) bytes.push(GS, 0x21, 0x11); // Double width and height
+    bytes.push(...encodeText(block.text), 0x0a);
+    if (block.large) bytes.push(GS, 0x21, 0x00);
+    if (block.bold) bytes.push(ESC, 0x45, 0);
+  });
+
+  bytes.push(
+    ESC, 0x61, 0,
+    ESC, 0x64, 4, // Feed 4 lines past the tear bar
+    GS, 0x56, 0x42, 0x00 // Partial cut
+  );
+
+  return new Uint8Array(bytes);
+};
+
+// Render a sale into an ESC/POS byte stream
+export const encodeReceipt = (
+  transaction: Transaction,
+  template: ReceiptTemplate,
+  store: ReceiptStoreInfo,
+  logo?: RasterImage | null
+): Uint8Array => encodeReceiptBlocks(buildReceiptLayout(transaction, template, store), template.paper_width, logo);
@@ -0,0 +1,31 @@
+export const EXPENSE_CATEGORIES = [
+  { value: 'food', label: 'Food' },
+  { value: 'supplies', label: 'Supplies' },
+  { value: 'utilities', label: 'Utilities' },
+  { value: 'equipment', label: 'Equipment' },
+  { value: 'maintenance', label: 'Maintenance' },
+  { value: 'other', label: 'Other' }
+];
+
+// Normalize category value to match expense API validation
+export const normalizeExpenseCategory = (category: string): string => {
+  const categoryLower = category.toLowerCase().trim();
+  // Map common product categories to valid expense categories
+  const categoryMap: { [key: string]: string } = {
+    'drink': 'food',
+    'drinks': 'food',
+    'beverage': 'food',
+    'beverages': 'food',
+    'food': 'food',
+    'snack': 'food',
+    'snacks': 'food',
+    'supplies': 'supplies',
+    'supply': 'supplies',
+    'utility': 'utilities',
+    'utilities': 'utilities',
+    'equipment': 'equipment',
+    'maintenance': 'maintenance',
+    'other': 'other',
+  };
+  return categoryMap[categoryLower] || (EXPENSE_CATEGORIES.some(c => c.value === categoryLower) ? categoryLower : 'other');
+};
@@ -1,3 +1,5 @@
+import { localeService } from '../services/localeService';
+
 /**
  * Format stock quantity to show whole numbers without decimals, 
  * but limit decimal quantities to 2 decimal places
@@ -12,11 +14,14 @@ export const formatStockQuantity = (quantity: number): string => {
 };
 
 /**
- * Format currency amounts (always show 2 decimal places)
+ * Format currency amounts (always show 2 decimal places) using the current
+ * store's number locale. Defaults to the store's currency.
  */
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('tr-TR', {
-    style: 'currency',
-    currency: 'TRY',
-  }).format(amount);
+export const formatCurrency = (amount: number, currency?: string): string => {
+  return localeService.formatCurrency(amount, currency);
 };
+
+/**
+ * Round an amount to whole cents
+ */
+export const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
@@ -0,0 +1,79 @@
+import { HeldCart } from '../types';
+
+// Held carts older than this are dropped unless the store configures otherwise
+export const DEFAULT_HELD_CART_EXPIRY_HOURS = 4;
+
+// Held carts are kept per cashier so a shared till doesn't mix customers
+const getStorageKey = (cashierId: string): string => `pos_held_carts_${cashierId}`;
+
+// Carts held more than expiryHours ago are expired (0 or less disables expiry)
+export const isHeldCartExpired = (cart: HeldCart, expiryHours: number, now: number = Date.now()): boolean => {
+  if (!expiryHours || expiryHours <= 0) return false;
+  const heldAt = new Date(cart.held_at).getTime();
+  if (isNaN(heldAt)) return true;
+  return now - heldAt > expiryHours * 60 * 60 * 1000;
+};
+
+export const getHeldCartTotal = (cart: HeldCart): number => {
+  const subtotal = cart.items.reduce((sum, item) => sum + item.total_price, 0);
+  const discountAmount = parseFloat(cart.discount) || 0;
+  return Math.max(0, subtotal - discountAmount);
+};
+
+const saveHeldCarts = (cashierId: string, carts: HeldCart[]): void => {
+  try {
+    if (carts.length === 0) {
+      localStorage.removeItem(getStorageKey(cashierId));
+    } else {
+      localStorage.setItem(getStorageKey(cashierId), JSON.stringify(carts));
+    }
+  } catch (error) {
+    console.error('Error saving held carts:', error);
+  }
+};
+
+// Get the cashier's held carts (oldest first), pruning any that have expired
+export const getHeldCarts = (cashierId: string, expiryHours: number = DEFAULT_HELD_CART_EXPIRY_HOURS): HeldCart[] => {
+  try {
+    const saved = localStorage.getItem(getStorageKey(cashierId));
+    const carts: HeldCart[] = saved ? JSON.parse(saved) : [];
+    const active = carts.filter(cart => !isHeldCartExpired(cart, expiryHours));
+
+    if (active.length !== carts.length) {
+      saveHeldCarts(cashierId, active);
+    }
+
+    return active.sort((a, b) => new Date(a.held_at).getTime() - new Date(b.held_at).getTime());
+  } catch (error) {
+    console.error('Error loading held carts:', error);
+    return [];
+  }
+};
+
+// Park a cart; returns the stored entry
+export const holdCart = (
+  cashierId: string,
+  cart: Pick<HeldCart, 'name' | 'note' | 'items' | 'discount' | 'customer_id' | 'customer_name'>
+): HeldCart => {
+  const heldCart: HeldCart = {
+    id: `held_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: cart.name.trim(),
+    note: cart.note?.trim() || undefined,
+    items: cart.items,
+    discount: cart.discount,
+    customer_id: cart.customer_id,
+    customer_name: cart.customer_name,
+    cashier_id: cashierId,
+    held_at: new Date().toISOString(),
+  };
+
+  const saved = getHeldCarts(cashierId, 0);
+  saveHeldCarts(cashierId, [...saved, heldCart]);
+  return heldCart;
+};
+
+// Remove a held cart (after recalling or discarding it)
+export const removeHeldCart = (cashierId: string, heldCartId: string): void => {
+  const saved = getHeldCarts(cashierId, 0);
+  saveHeldCarts(cashierId, saved.filter(cart => cart.id !== heldCartId));
+};
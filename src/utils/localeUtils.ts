@@ -0,0 +1,105 @@
+import { StoreDateFormat } from '../types';
+
+export interface LocaleSettings {
+  currency: string;
+  locale: string; // BCP 47 tag used for numbers and currency, e.g. tr-TR
+  date_format: StoreDateFormat;
+  timezone: string;
+}
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  currency: 'TRY',
+  locale: 'tr-TR',
+  date_format: 'DD.MM.YYYY',
+  timezone: 'Europe/Nicosia',
+};
+
+export const NUMBER_LOCALE_OPTIONS = [
+  { value: 'tr-TR', label: 'Turkish (1.234,56)' },
+  { value: 'en-US', label: 'English, US (1,234.56)' },
+  { value: 'en-GB', label: 'English, UK (1,234.56)' },
+  { value: 'en-NG', label: 'English, Nigeria (1,234.56)' },
+  { value: 'de-DE', label: 'German (1.234,56)' },
+];
+
+export const DATE_FORMAT_OPTIONS: StoreDateFormat[] = ['DD.MM.YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD'];
+
+export const getLocaleSettings = (store?: {
+  currency?: string;
+  locale?: string;
+  date_format?: StoreDateFormat;
+  timezone?: string;
+} | null): LocaleSettings => ({
+  currency: store?.currency || DEFAULT_LOCALE_SETTINGS.currency,
+  locale: store?.locale || DEFAULT_LOCALE_SETTINGS.locale,
+  date_format: store?.date_format || DEFAULT_LOCALE_SETTINGS.date_format,
+  timezone: store?.timezone || DEFAULT_LOCALE_SETTINGS.timezone,
+});
+
+export const formatMoney = (amount: number, settings: LocaleSettings, currency: string = settings.currency): string => {
+  try {
+    return new Intl.NumberFormat(settings.locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency code or locale tag
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+export const formatNumberValue = (value: number, settings: LocaleSettings, options?: Intl.NumberFormatOptions): string => {
+  try {
+    return new Intl.NumberFormat(settings.locale, options).format(value);
+  } catch {
+    return String(value);
+  }
+};
+
+interface ZonedParts {
+  year: string;
+  month: string;
+  day: string;
+  hour: string;
+  minute: string;
+}
+
+// Calendar fields of a moment as seen in the store's timezone
+export const getZonedParts = (date: Date | string, timezone: string): ZonedParts => {
+  const value = new Date(date);
+  let text: string;
+  try {
+    // sv-SE renders as "YYYY-MM-DD HH:mm:ss" regardless of the host locale
+    text = value.toLocaleString('sv-SE', { timeZone: timezone, hour12: false });
+  } catch {
+    text = value.toLocaleString('sv-SE', { hour12: false });
+  }
+  const match = text.match(/(\d{4})-(\d{2})-(\d{2})\D+(\d{1,2}):(\d{2})/);
+  if (!match) {
+    return { year: '', month: '', day: '', hour: '', minute: '' };
+  }
+  return { year: match[1], month: match[2], day: match[3], hour: match[4].padStart(2, '0'), minute: match[5] };
+};
+
+// YYYY-MM-DD of the store's calendar day, for grouping by day regardless of the browser's timezone
+export const getZonedDateKey = (date: Date | string, timezone: string): string => {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${month}-${day}`;
+};
+
+export const formatDateValue = (date: Date | string, settings: LocaleSettings): string => {
+  if (isNaN(new Date(date).getTime())) return '';
+  const { year, month, day } = getZonedParts(date, settings.timezone);
+  return settings.date_format
+    .replace('YYYY', year)
+    .replace('MM', month)
+    .replace('DD', day);
+};
+
+export const formatTimeValue = (date: Date | string, settings: LocaleSettings): string => {
+  if (isNaN(new Date(date).getTime())) return '';
+  const { hour, minute } = getZonedParts(date, settings.timezone);
+  return `${hour}:${minute}`;
+};
+
+export const formatDateTimeValue = (date: Date | string, settings: LocaleSettings): string => {
+  if (isNaN(new Date(date).getTime())) return '';
+  return `${formatDateValue(date, settings)} ${formatTimeValue(date, settings)}`;
+};
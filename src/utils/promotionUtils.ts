@@ -0,0 +1,308 @@
+import { Promotion, PromotionType, TransactionItem } from '../types';
+import { roundCurrency } from './formatUtils';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  buy_x_get_y: 'Buy X get Y free',
+  multi_buy: 'N for a fixed price',
+  percent_off: 'Percentage off',
+  bundle: 'Bundle price',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Store-local date, time and weekday the rules are checked against
+export interface PromotionClock {
+  date: string; // YYYY-MM-DD
+  time: string; // HH:mm
+  day: number; // 0 = Sunday
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Expects a Date already shifted to the store timezone, e.g. from getCurrentDateTime()
+export const getPromotionClock = (storeNow: Date): PromotionClock => ({
+  date: `${storeNow.getFullYear()}-${pad(storeNow.getMonth() + 1)}-${pad(storeNow.getDate())}`,
+  time: `${pad(storeNow.getHours())}:${pad(storeNow.getMinutes())}`,
+  day: storeNow.getDay(),
+});
+
+const isWithinTimeWindow = (time: string, start?: string, end?: string): boolean => {
+  if (!start && !end) return true;
+  const from = start || '00:00';
+  const to = end || '24:00';
+  // A window like 22:00-02:00 runs past midnight
+  return from <= to ? time >= from && time < to : time >= from || time < to;
+};
+
+export const isPromotionActive = (promotion: Promotion, clock: PromotionClock): boolean => {
+  if (!promotion.is_active) return false;
+  if (promotion.start_date && clock.date < promotion.start_date) return false;
+  if (promotion.end_date && clock.date > promotion.end_date) return false;
+  if (promotion.days_of_week && promotion.days_of_week.length > 0 && !promotion.days_of_week.includes(clock.day)) {
+    return false;
+  }
+  return isWithinTimeWindow(clock.time, promotion.start_time, promotion.end_time);
+};
+
+export const describePromotion = (
+  promotion: Promotion,
+  formatPrice: (amount: number) => string = String
+): string => {
+  switch (promotion.type) {
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buy_quantity || 0}, get ${promotion.get_quantity || 0} free`;
+    case 'multi_buy':
+      return `${promotion.buy_quantity || 0} for ${formatPrice(promotion.deal_price ?? 0)}`;
+    case 'percent_off':
+      return `${promotion.percent_off || 0}% off ${promotion.category || (promotion.product_ids?.length ? 'selected products' : 'everything')}`;
+    case 'bundle':
+      return `Bundle of ${(promotion.bundle_items || []).length} products for ${formatPrice(promotion.deal_price ?? 0)}`;
+    default:
+      return '';
+  }
+};
+
+interface PromotionLine {
+  index: number;
+  item: TransactionItem;
+}
+
+interface UnitPrice {
+  index: number;
+  price: number;
+}
+
+// Discount per cart line index
+type LineDiscounts = Map<number, number>;
+
+// A deal's discounts plus every line it used up, paid units included
+interface Deal {
+  discounts: LineDiscounts;
+  used: Set<number>;
+}
+
+const NO_DEAL: Deal = { discounts: new Map(), used: new Set() };
+
+const toDeal = (discounts: LineDiscounts, used: Iterable<number> = discounts.keys()): Deal =>
+  ({ discounts, used: new Set(Array.from(used)) });
+
+// Whole units only: weighed quantities never count towards a multi-buy
+const expandUnits = (lines: PromotionLine[]): UnitPrice[] => {
+  const units: UnitPrice[] = [];
+  lines.forEach(({ index, item }) => {
+    for (let i = 0; i < Math.floor(item.quantity); i++) units.push({ index, price: item.unit_price });
+  });
+  return units;
+};
+
+// Splits a deal discount across the lines in proportion to the value each contributed
+const allocateDiscount = (total: number, weights: Map<number, number>): LineDiscounts => {
+  const discounts: LineDiscounts = new Map();
+  const weightSum = Array.from(weights.values()).reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0 || weightSum <= 0) return discounts;
+
+  const entries = Array.from(weights.entries());
+  let remaining = roundCurrency(total);
+  entries.forEach(([index, weight], position) => {
+    const share = position === entries.length - 1 ? remaining : roundCurrency((total * weight) / weightSum);
+    discounts.set(index, share);
+    remaining = roundCurrency(remaining - share);
+  });
+  return discounts;
+};
+
+const sumByLine = (units: UnitPrice[]): Map<number, number> => {
+  const totals = new Map<number, number>();
+  units.forEach(unit => totals.set(unit.index, (totals.get(unit.index) || 0) + unit.price));
+  return totals;
+};
+
+const qualifies = (promotion: Promotion, item: TransactionItem, categoryOf: (productId: string) => string | undefined) => {
+  if (promotion.product_ids && promotion.product_ids.length > 0) return promotion.product_ids.includes(item.product_id);
+  if (promotion.type === 'percent_off' && promotion.category) return categoryOf(item.product_id) === promotion.category;
+  return promotion.type === 'percent_off';
+};
+
+const calculateDiscounts = (
+  promotion: Promotion,
+  lines: PromotionLine[],
+  categoryOf: (productId: string) => string | undefined
+): Deal => {
+  if (promotion.type === 'bundle') {
+    const bundleItems = promotion.bundle_items || [];
+    if (bundleItems.length === 0 || promotion.deal_price === undefined) return NO_DEAL;
+
+    const bundleLines = bundleItems.map(bundleItem => ({
+      bundleItem,
+      line: lines.find(({ item }) => item.product_id === bundleItem.product_id),
+    }));
+    if (bundleLines.some(({ line }) => !line)) return NO_DEAL;
+
+    const sets = Math.min(...bundleLines.map(({ bundleItem, line }) =>
+      Math.floor(line!.item.quantity / Math.max(1, bundleItem.quantity))));
+    if (sets <= 0) return NO_DEAL;
+
+    const weights = new Map<number, number>();
+    bundleLines.forEach(({ bundleItem, line }) => {
+      weights.set(line!.index, line!.item.unit_price * bundleItem.quantity * sets);
+    });
+    const regular = Array.from(weights.values()).reduce((sum, value) => sum + value, 0);
+    return toDeal(allocateDiscount(regular - promotion.deal_price * sets, weights));
+  }
+
+  const eligible = lines.filter(({ item }) => qualifies(promotion, item, categoryOf));
+  if (eligible.length === 0) return NO_DEAL;
+
+  if (promotion.type === 'percent_off') {
+    const percent = Math.min(100, Math.max(0, promotion.percent_off || 0));
+    const discounts: LineDiscounts = new Map();
+    eligible.forEach(({ index, item }) => discounts.set(index, roundCurrency((item.total_price * percent) / 100)));
+    return toDeal(discounts);
+  }
+
+  const buy = promotion.buy_quantity || 0;
+  if (buy <= 0) return NO_DEAL;
+
+  if (promotion.type === 'buy_x_get_y') {
+    const get = promotion.get_quantity || 0;
+    const units = expandUnits(eligible).sort((a, b) => a.price - b.price);
+    const deals = Math.floor(units.length / (buy + get));
+    const free = deals * get;
+    // The customer gets the cheapest qualifying units free; the units paid for to earn them are used up too
+    return toDeal(
+      allocateDiscount(units.slice(0, free).reduce((sum, unit) => sum + unit.price, 0), sumByLine(units.slice(0, free))),
+      sumByLine(units.slice(0, deals * (buy + get))).keys()
+    );
+  }
+
+  // multi_buy: the most expensive units go into deals first, which is the best price for the customer
+  if (promotion.deal_price === undefined) return NO_DEAL;
+  const units = expandUnits(eligible).sort((a, b) => b.price - a.price);
+  const deals = Math.floor(units.length / buy);
+  const inDeals = units.slice(0, deals * buy);
+  const regular = inDeals.reduce((sum, unit) => sum + unit.price, 0);
+  return toDeal(allocateDiscount(regular - promotion.deal_price * deals, sumByLine(inDeals)), sumByLine(inDeals).keys());
+};
+
+export interface AppliedPromotion {
+  promotion_id: string;
+  promotion_name: string;
+  discount: number;
+}
+
+export interface PromotionResult {
+  items: TransactionItem[];
+  applied: AppliedPromotion[];
+  total_discount: number;
+}
+
+/**
+ * Applies the active promotions to a cart. Each line takes part in at most one
+ * promotion, including lines whose units were only paid for to earn a free one; the promotion saving the most is applied first, then the rest are
+ * re-evaluated on the remaining lines.
+ */
+export const applyPromotions = (
+  items: TransactionItem[],
+  promotions: Promotion[],
+  clock: PromotionClock,
+  categoryOf: (productId: string) => string | undefined = () => undefined
+): PromotionResult => {
+  const result = items.map(item => ({ ...item, discount_amount: undefined, promotion_id: undefined, promotion_name: undefined } as TransactionItem));
+  const applied: AppliedPromotion[] = [];
+  let candidates = promotions.filter(promotion => isPromotionActive(promotion, clock));
+  let open: PromotionLine[] = result.map((item, index) => ({ index, item }));
+
+  while (candidates.length > 0 && open.length > 0) {
+    let best: { promotion: Promotion; discounts: LineDiscounts; used: Set<number>; total: number } | null = null;
+    for (const promotion of candidates) {
+      const { discounts, used } = calculateDiscounts(promotion, open, categoryOf);
+      const total = roundCurrency(Array.from(discounts.values()).reduce((sum, value) => sum + value, 0));
+      if (total > 0 && (!best || total > best.total)) best = { promotion, discounts, used, total };
+    }
+    if (!best) break;
+
+    const { promotion, discounts, used, total } = best;
+    discounts.forEach((discount, index) => {
+      result[index] = {
+        ...result[index],
+        discount_amount: Math.min(result[index].total_price, discount),
+        promotion_id: promotion._id,
+        promotion_name: promotion.name,
+      };
+    });
+    applied.push({ promotion_id: promotion._id, promotion_name: promotion.name, discount: total });
+    candidates = candidates.filter(candidate => candidate._id !== promotion._id);
+    open = open.filter(({ index }) => !used.has(index));
+  }
+
+  return {
+    items: result,
+    applied,
+    total_discount: roundCurrency(result.reduce((sum, item) => sum + (item.discount_amount || 0), 0)),
+  };
+};
+
+// Line total after its promotion
+export const getNetLineTotal = (item: Pick<TransactionItem, 'total_price' | 'discount_amount'>): number =>
+  roundCurrency(item.total_price - (item.discount_amount || 0));
+
+export interface PromotionReportRow {
+  promotion_id: string;
+  promotion_name: string;
+  redemptions: number; // Sales that used the promotion
+  units: number;
+  revenue: number; // After the promotion discount
+  discount: number;
+  cost: number;
+  margin: number;
+  margin_without_promotion: number;
+}
+
+/**
+ * Redemptions and margin impact per promotion. Cost uses the product's
+ * current cost price, as sales do not record the cost at the time of sale.
+ */
+export const buildPromotionReport = (
+  sales: Array<{ _id?: string; status?: string; is_refund?: boolean; items?: Array<Partial<TransactionItem>> }>,
+  costOf: (productId: string) => number | undefined
+): PromotionReportRow[] => {
+  const rows = new Map<string, PromotionReportRow & { sales: Set<string> }>();
+
+  sales.forEach((sale, saleIndex) => {
+    if (sale.is_refund || sale.status === 'cancelled' || sale.status === 'voided') return;
+    (sale.items || []).forEach(item => {
+      if (!item.promotion_id || !item.discount_amount) return;
+      const quantity = item.quantity || 0;
+      const gross = item.total_price ?? (item.unit_price || 0) * quantity;
+      const cost = (costOf(item.product_id || '') || 0) * quantity;
+
+      const row = rows.get(item.promotion_id) || {
+        promotion_id: item.promotion_id,
+        promotion_name: item.promotion_name || item.promotion_id,
+        redemptions: 0,
+        units: 0,
+        revenue: 0,
+        discount: 0,
+        cost: 0,
+        margin: 0,
+        margin_without_promotion: 0,
+        sales: new Set<string>(),
+      };
+      row.sales.add(sale._id || String(saleIndex));
+      row.units += quantity;
+      row.revenue = roundCurrency(row.revenue + gross - item.discount_amount);
+      row.discount = roundCurrency(row.discount + item.discount_amount);
+      row.cost = roundCurrency(row.cost + cost);
+      rows.set(item.promotion_id, row);
+    });
+  });
+
+  return Array.from(rows.values())
+    .map(({ sales: saleIds, ...row }) => ({
+      ...row,
+      redemptions: saleIds.size,
+      margin: roundCurrency(row.revenue - row.cost),
+      margin_without_promotion: roundCurrency(row.revenue + row.discount - row.cost),
+    }))
+    .sort((a, b) => b.discount - a.discount);
+};
@@ -0,0 +1,82 @@
+import { LowStockProduct, Product, PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '../types';
+import { roundCurrency } from './formatUtils';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+export const isOpenPurchaseOrder = (order: Pick<PurchaseOrder, 'status'>): boolean =>
+  OPEN_PURCHASE_ORDER_STATUSES.includes(order.status);
+
+// Order enough to bring stock back to twice the minimum level, and at least one unit
+export const suggestOrderQuantity = (currentQuantity: number, minStockLevel: number): number =>
+  Math.max(1, Math.ceil(minStockLevel * 2 - Math.max(0, currentQuantity)));
+
+export const buildPurchaseOrderLines = (lowStock: LowStockProduct[], products: Product[] = []): PurchaseOrderLine[] =>
+  lowStock.map(item => {
+    const product = products.find(entry => entry._id === item.product_id);
+    return {
+      product_id: item.product_id,
+      product_name: item.product_name,
+      unit: product?.unit,
+      quantity_ordered: suggestOrderQuantity(item.current_quantity, item.min_stock_level),
+      quantity_received: 0,
+      unit_cost: product?.cost_price || 0,
+    };
+  });
+
+export const calculatePurchaseOrderTotal = (lines: PurchaseOrderLine[]): number =>
+  roundCurrency(lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0));
+
+export const getOutstandingQuantity = (line: PurchaseOrderLine): number =>
+  Math.max(0, line.quantity_ordered - (line.quantity_received || 0));
+
+// Status after a delivery: received once nothing is outstanding, otherwise partially received
+export const getStatusAfterReceipt = (lines: PurchaseOrderLine[]): PurchaseOrderStatus => {
+  const received = lines.reduce((sum, line) => sum + (line.quantity_received || 0), 0);
+  if (received === 0) return 'sent';
+  return lines.every(line => getOutstandingQuantity(line) === 0) ? 'received' : 'partially_received';
+};
+
+export const applyPurchaseOrderReceipt = (
+  lines: PurchaseOrderLine[],
+  delivered: Record<string, { quantity: number; unit_cost?: number }>
+): { lines: PurchaseOrderLine[]; status: PurchaseOrderStatus } => {
+  const updated = lines.map(line => {
+    const delivery = delivered[line.product_id];
+    if (!delivery || delivery.quantity <= 0) return line;
+    return {
+      ...line,
+      quantity_received: (line.quantity_received || 0) + delivery.quantity,
+      unit_cost: delivery.unit_cost ?? line.unit_cost,
+    };
+  });
+  return { lines: updated, status: getStatusAfterReceipt(updated) };
+};
+
+// Plain-text order for WhatsApp, in the same tone as the low-stock message
+export const buildPurchaseOrderMessage = (
+  order: Pick<PurchaseOrder, 'po_number' | 'lines' | 'expected_date' | 'notes'>,
+  wholesalerName: string,
+  storeName: string
+): string => {
+  let message = `Hello ${wholesalerName},\n\n`;
+  message += `Please find our purchase order *${order.po_number}* from ${storeName}:\n\n`;
+  order.lines.forEach(line => {
+    message += `• ${line.product_name} × ${line.quantity_ordered}${line.unit ? ` ${line.unit}` : ''}\n`;
+  });
+  if (order.expected_date) {
+    message += `\nRequested delivery: ${order.expected_date}\n`;
+  }
+  if (order.notes) {
+    message += `\n${order.notes}\n`;
+  }
+  message += `\nPlease confirm availability and prices.\n\nThank you!`;
+  return message;
+};
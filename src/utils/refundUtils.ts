@@ -0,0 +1,211 @@
+import { Transaction, Refund, RefundItem, PaymentMethod, DashboardMetrics } from '../types';
+import { roundCurrency } from './formatUtils';
+import { mergeTaxBreakdown } from './taxUtils';
+
+export interface ReturnableLine {
+  product_id: string;
+  product_name: string;
+  unit_price: number;
+  sold: number;
+  refunded: number;
+  remaining: number;
+  unit?: string; // kg, g and l lines can be returned by weight
+  unit_discount?: number; // Promotion discount per unit on the original sale
+  tax_rate?: number;
+  unit_tax?: number; // Tax charged per unit on the original sale
+}
+
+export const sumRefundAmounts = (refunds: Refund[]): number =>
+  roundCurrency(refunds.reduce((sum, refund) => sum + (refund.total_amount || 0), 0));
+
+// Quantity already returned per product across previous refunds of a sale
+export const getRefundedQuantities = (refunds: Refund[]): Record<string, number> => {
+  const quantities: Record<string, number> = {};
+  refunds.forEach(refund => {
+    (refund.items || []).forEach(item => {
+      quantities[item.product_id] = (quantities[item.product_id] || 0) + item.quantity;
+    });
+  });
+  return quantities;
+};
+
+// Sale lines with how much of each can still be returned
+export const getReturnableLines = (transaction: Transaction, refunds: Refund[]): ReturnableLine[] => {
+  const refunded = getRefundedQuantities(refunds);
+  // Lines for the same product share one refunded counter; consume it in order
+  const consumed: Record<string, number> = {};
+
+  return (transaction.items || []).map(item => {
+    const alreadyRefunded = refunded[item.product_id] || 0;
+    const usedByEarlierLines = consumed[item.product_id] || 0;
+    const refundedHere = Math.min(item.quantity, Math.max(0, alreadyRefunded - usedByEarlierLines));
+    consumed[item.product_id] = usedByEarlierLines + refundedHere;
+
+    return {
+      product_id: item.product_id,
+      product_name: item.product_name || item.product_id,
+      unit_price: item.unit_price,
+      sold: item.quantity,
+      refunded: refundedHere,
+      remaining: item.quantity - refundedHere,
+      unit: item.unit,
+      ...(item.discount_amount && item.quantity > 0 && { unit_discount: item.discount_amount / item.quantity }),
+      ...(typeof item.tax_rate === 'number' && {
+        tax_rate: item.tax_rate,
+        unit_tax: item.quantity > 0 ? (item.tax_amount || 0) / item.quantity : 0,
+      }),
+    };
+  });
+};
+
+// Share of the promoted line totals the customer actually paid, so a sale-level discount is refunded pro rata
+export const getPaidRatio = (transaction: Transaction): number => {
+  const subtotal = transaction.subtotal ||
+    (transaction.items || []).reduce((sum, item) => sum + item.unit_price * item.quantity - (item.discount_amount || 0), 0);
+  if (subtotal <= 0) return 1;
+  const paid = subtotal - (transaction.discount_amount || 0);
+  return Math.min(1, Math.max(0, paid / subtotal));
+};
+
+// Build refund lines from the quantities selected per sale line (indexed like getReturnableLines)
+export const buildRefundItems = (
+  transaction: Transaction,
+  lines: ReturnableLine[],
+  quantities: number[],
+  restock: boolean[]
+): RefundItem[] => {
+  const ratio = getPaidRatio(transaction);
+
+  return lines.reduce((items, line, index) => {
+    const quantity = Math.min(Math.max(0, quantities[index] || 0), line.remaining);
+    if (quantity <= 0) return items;
+
+    const taxAmount = typeof line.tax_rate === 'number' ? roundCurrency((line.unit_tax || 0) * quantity) : undefined;
+    // Tax charged on top of exclusive prices is paid back too
+    const taxOnTop = transaction.tax_mode === 'exclusive' ? taxAmount || 0 : 0;
+
+    return items.concat({
+      product_id: line.product_id,
+      product_name: line.product_name,
+      quantity,
+      unit_price: line.unit_price,
+      // Promotion discounts come off the line before the sale-level discount is shared out
+      total_price: roundCurrency((line.unit_price - (line.unit_discount || 0)) * quantity * ratio + taxOnTop),
+      restock: restock[index] !== false,
+      ...(taxAmount !== undefined && { tax_rate: line.tax_rate, tax_amount: taxAmount }),
+    });
+  }, [] as RefundItem[]);
+};
+
+// Payment methods of a sale, accepting the legacy single payment_method field
+export const getOriginalPaymentMethods = (transaction: Transaction): PaymentMethod[] => {
+  if (transaction.payment_methods && transaction.payment_methods.length > 0) {
+    return transaction.payment_methods;
+  }
+  return [{ type: transaction.payment_method || 'cash', amount: transaction.total_amount }];
+};
+
+// Split a refund back across the sale's payment methods, in proportion to what is left to refund on each
+export const allocateRefundToPaymentMethods = (
+  transaction: Transaction,
+  amount: number,
+  previousRefunds: Refund[] = []
+): PaymentMethod[] => {
+  const original = getOriginalPaymentMethods(transaction);
+
+  // Merge duplicate method types and subtract what earlier refunds already paid back
+  const remainingByType: Array<{ type: PaymentMethod['type']; remaining: number }> = [];
+  original.forEach(method => {
+    const existing = remainingByType.find(entry => entry.type === method.type);
+    if (existing) {
+      existing.remaining += method.amount;
+    } else {
+      remainingByType.push({ type: method.type, remaining: method.amount });
+    }
+  });
+  previousRefunds.forEach(refund => {
+    (refund.payment_methods || []).forEach(method => {
+      const existing = remainingByType.find(entry => entry.type === method.type);
+      if (existing) {
+        existing.remaining = Math.max(0, existing.remaining - method.amount);
+      }
+    });
+  });
+
+  const totalRemaining = remainingByType.reduce((sum, entry) => sum + entry.remaining, 0);
+  if (totalRemaining <= 0) {
+    return [{ type: original[0].type, amount: roundCurrency(amount) }];
+  }
+
+  const allocations = remainingByType.map(entry => ({
+    type: entry.type,
+    amount: roundCurrency(amount * (entry.remaining / totalRemaining)),
+  }));
+
+  // Put any rounding difference on the largest share so the split adds up exactly
+  const difference = roundCurrency(amount - allocations.reduce((sum, entry) => sum + entry.amount, 0));
+  if (difference !== 0) {
+    const largest = allocations.reduce((max, entry) => (entry.amount > max.amount ? entry : max), allocations[0]);
+    largest.amount = roundCurrency(largest.amount + difference);
+  }
+
+  return allocations.filter(entry => entry.amount > 0);
+};
+
+// Profit given back by refunds: a restocked line only loses its margin, since the goods come back
+export const getRefundProfitImpact = (refunds: Refund[]): number =>
+  roundCurrency(refunds.reduce((sum, refund) => {
+    if (!refund.items || refund.items.length === 0) return sum + (refund.total_amount || 0);
+    return sum + refund.items.reduce(
+      (total, item) => total + (item.restock ? item.total_price - (item.unit_cost || 0) * item.quantity : item.total_price),
+      0
+    );
+  }, 0));
+
+// Refunds count as negative revenue: deduct each figure's own refunds from what the backend reports.
+// `periodRefunds` cover the selected period; monthlySales is left as reported unless `monthRefunds` are passed
+export const applyRefundsToMetrics = <T extends Partial<DashboardMetrics>>(
+  metrics: T,
+  periodRefunds: Refund[],
+  monthRefunds?: Refund[]
+): T => {
+  if (!metrics) return metrics;
+
+  const refundTotal = sumRefundAmounts(periodRefunds);
+  const monthRefundTotal = monthRefunds ? sumRefundAmounts(monthRefunds) : 0;
+
+  return {
+    ...metrics,
+    totalRefunds: refundTotal,
+    ...(typeof metrics.totalSales === 'number' && { totalSales: roundCurrency(metrics.totalSales - refundTotal) }),
+    ...(typeof metrics.monthlySales === 'number' && { monthlySales: roundCurrency(metrics.monthlySales - monthRefundTotal) }),
+    ...(typeof metrics.netProfit === 'number' && { netProfit: roundCurrency(metrics.netProfit - getRefundProfitImpact(periodRefunds)) }),
+  };
+};
+
+// Represent a refund as a negative sale so client-side revenue breakdowns net it out
+export const refundToSaleEntry = (refund: Refund) => ({
+  _id: `refund-${refund._id}`,
+  is_refund: true,
+  transaction_id: refund.transaction_id,
+  total_amount: -refund.total_amount,
+  payment_methods: (refund.payment_methods || []).map(method => ({ ...method, amount: -method.amount })),
+  items: (refund.items || []).map(item => ({
+    product_id: item.product_id,
+    product_name: item.product_name,
+    quantity: -item.quantity,
+    unit_price: item.unit_price,
+    total_price: -item.total_price,
+  })),
+  tax_breakdown: mergeTaxBreakdown(
+    (refund.items || [])
+      .filter(item => typeof item.tax_rate === 'number')
+      .map(item => ({
+        rate: item.tax_rate as number,
+        taxable_amount: -(item.total_price - (item.tax_amount || 0)),
+        tax_amount: -(item.tax_amount || 0),
+      }))
+  ),
+  status: 'completed',
+  created_at: refund.created_at,
+});
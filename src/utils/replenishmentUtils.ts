@@ -0,0 +1,115 @@
+import { Product, Wholesaler } from '../types';
+
+export const DEFAULT_LEAD_TIME_DAYS = 3;
+export const DEFAULT_REVIEW_PERIOD_DAYS = 7;
+
+export type ServiceLevel = 90 | 95 | 99;
+
+// Standard normal z-scores for the chance of not running out during a lead time
+export const SERVICE_LEVEL_Z: Record<ServiceLevel, number> = {
+  90: 1.28,
+  95: 1.65,
+  99: 2.33,
+};
+
+export interface SalesVelocity {
+  productId: string;
+  quantitySold: number;
+}
+
+export interface ReplenishmentOptions {
+  lookbackDays: number;
+  serviceLevel: ServiceLevel;
+  reviewPeriodDays: number;
+}
+
+export interface ReorderSuggestion {
+  product_id: string;
+  product_name: string;
+  unit: string;
+  stock_quantity: number;
+  min_stock_level: number;
+  avg_daily_demand: number;
+  lead_time_days: number;
+  safety_stock: number;
+  reorder_point: number;
+  order_quantity: number;
+}
+
+const roundTo = (value: number, places: number): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+export const averageDailyDemand = (quantitySold: number, days: number): number =>
+  days > 0 ? Math.max(0, quantitySold) / days : 0;
+
+// Sales are treated as Poisson arrivals, so lead-time demand varies with its square root
+export const calculateSafetyStock = (avgDailyDemand: number, leadTimeDays: number, serviceLevel: ServiceLevel): number =>
+  SERVICE_LEVEL_Z[serviceLevel] * Math.sqrt(Math.max(0, avgDailyDemand * leadTimeDays));
+
+export const calculateReorderPoint = (avgDailyDemand: number, leadTimeDays: number, safetyStock: number): number =>
+  Math.ceil(avgDailyDemand * leadTimeDays + safetyStock);
+
+// Enough to cover the lead time plus the time until the next review, topped up from what is on hand
+export const calculateOrderQuantity = (
+  avgDailyDemand: number,
+  leadTimeDays: number,
+  reviewPeriodDays: number,
+  safetyStock: number,
+  currentQuantity: number
+): number => {
+  const orderUpTo = avgDailyDemand * (leadTimeDays + reviewPeriodDays) + safetyStock;
+  return Math.max(0, Math.ceil(orderUpTo - Math.max(0, currentQuantity)));
+};
+
+export const getLeadTimeDays = (product: Pick<Product, 'wholesaler_id'>, wholesalers: Wholesaler[]): number => {
+  const wholesaler = wholesalers.find(entry => entry._id === product.wholesaler_id);
+  return wholesaler?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+};
+
+// Products without sales in the lookback window are left out; there is nothing to base a suggestion on
+export const buildReorderSuggestions = (
+  products: Product[],
+  velocity: SalesVelocity[],
+  wholesalers: Wholesaler[],
+  options: ReplenishmentOptions
+): ReorderSuggestion[] => {
+  const soldById: Record<string, number> = {};
+  velocity.forEach(entry => {
+    soldById[entry.productId] = (soldById[entry.productId] || 0) + entry.quantitySold;
+  });
+
+  const suggestions: ReorderSuggestion[] = [];
+  products.forEach(product => {
+    const sold = soldById[product._id];
+    if (!sold || sold <= 0) return;
+
+    const avgDaily = averageDailyDemand(sold, options.lookbackDays);
+    const leadTime = getLeadTimeDays(product, wholesalers);
+    const safetyStock = calculateSafetyStock(avgDaily, leadTime, options.serviceLevel);
+
+    suggestions.push({
+      product_id: product._id,
+      product_name: product.name,
+      unit: product.unit,
+      stock_quantity: product.stock_quantity,
+      min_stock_level: product.min_stock_level,
+      avg_daily_demand: roundTo(avgDaily, 2),
+      lead_time_days: leadTime,
+      safety_stock: Math.ceil(safetyStock),
+      reorder_point: calculateReorderPoint(avgDaily, leadTime, safetyStock),
+      order_quantity: calculateOrderQuantity(avgDaily, leadTime, options.reviewPeriodDays, safetyStock, product.stock_quantity),
+    });
+  });
+
+  // Products that are already at or below their suggested reorder point come first
+  return suggestions.sort((a, b) => {
+    const aDue = a.stock_quantity <= a.reorder_point ? 0 : 1;
+    const bDue = b.stock_quantity <= b.reorder_point ? 0 : 1;
+    return aDue - bDue || b.avg_daily_demand - a.avg_daily_demand;
+  });
+};
+
+export const hasReorderPointChanged = (suggestion: ReorderSuggestion): boolean =>
+  suggestion.reorder_point !== suggestion.min_stock_level;
@@ -0,0 +1,42 @@
+import { RiderCashTransaction, RiderReconciliationDelivery } from '../types';
+import { roundCurrency } from './formatUtils';
+import { getZonedDateKey } from './localeUtils';
+
+export interface RiderDaySummary {
+  deliveries: RiderReconciliationDelivery[]; // Oldest first
+  floats: RiderCashTransaction[];
+  float_given: number;
+  cash_collected: number;
+  delivery_fees: number;
+  expected_cash: number; // Float handed out plus cash collected on deliveries
+}
+
+// Everything the rider should hand back for one day of their cash ledger, by the store's calendar
+export const summarizeRiderDay = (transactions: RiderCashTransaction[], date: string, timezone: string): RiderDaySummary => {
+  const dayTransactions = transactions
+    .filter(transaction => getZonedDateKey(transaction.created_at, timezone) === date)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  const deliveries = dayTransactions
+    .filter(transaction => transaction.type === 'delivery_payment')
+    .map(transaction => ({
+      order_id: transaction.order_id,
+      order_number: transaction.order_number,
+      cash_collected: roundCurrency(transaction.amount),
+      delivery_fee: roundCurrency(transaction.delivery_fee || 0),
+      delivered_at: transaction.created_at,
+    }));
+  const floats = dayTransactions.filter(transaction => transaction.type === 'give_cash');
+
+  const floatGiven = roundCurrency(floats.reduce((sum, transaction) => sum + transaction.amount, 0));
+  const cashCollected = roundCurrency(deliveries.reduce((sum, delivery) => sum + delivery.cash_collected, 0));
+
+  return {
+    deliveries,
+    floats,
+    float_given: floatGiven,
+    cash_collected: cashCollected,
+    delivery_fees: roundCurrency(deliveries.reduce((sum, delivery) => sum + delivery.delivery_fee, 0)),
+    expected_cash: roundCurrency(floatGiven + cashCollected),
+  };
+};
@@ -0,0 +1,110 @@
+import { Product } from '../types';
+import { roundCurrency } from './formatUtils';
+
+// Units priced per kilogram, gram or litre; everything else sells by the piece
+export const WEIGHED_UNITS = ['kg', 'g', 'l'];
+
+export const isSoldByWeight = (product: Partial<Pick<Product, 'unit'>>): boolean =>
+  WEIGHED_UNITS.includes((product.unit || '').toLowerCase());
+
+export const formatUnitLabel = (unit?: string): string => {
+  const normalized = (unit || '').toLowerCase();
+  if (normalized === 'l') return 'L';
+  return WEIGHED_UNITS.includes(normalized) ? normalized : 'unit';
+};
+
+// Weighed quantities are kept to the gram (or millilitre)
+export const roundWeight = (quantity: number): number => Math.round(quantity * 1000) / 1000;
+
+export const calculateWeighedPrice = (unitPrice: number, quantity: number): number =>
+  roundCurrency(unitPrice * quantity);
+
+export const calculateEan13CheckDigit = (digits: string): number => {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+  /^\d{13}$/.test(code) && calculateEan13CheckDigit(code) === Number(code[12]);
+
+export type ScaleLabelKind = 'weight' | 'price';
+
+export interface ScaleLabel {
+  prefix: string;
+  item_code: string;
+  kind: ScaleLabelKind;
+  value: number; // Grams for weight labels, currency amount for price labels
+}
+
+// Parses the store's comma-separated list of price-embedded prefixes, e.g. "22, 23"
+export const parseScalePricePrefixes = (value?: string): string[] =>
+  (value || '')
+    .split(/[\s,]+/)
+    .filter(prefix => /^2\d$/.test(prefix));
+
+// In-store scale labels: 2-digit prefix (20–29), 5-digit item code, 5-digit weight or price, check digit
+export const parseScaleBarcode = (code: string, pricePrefixes: string[] = []): ScaleLabel | null => {
+  const trimmed = code.trim();
+  if (!isValidEan13(trimmed) || trimmed[0] !== '2') return null;
+
+  const prefix = trimmed.slice(0, 2);
+  const kind: ScaleLabelKind = pricePrefixes.includes(prefix) ? 'price' : 'weight';
+  const raw = Number(trimmed.slice(7, 12));
+
+  return {
+    prefix,
+    item_code: trimmed.slice(2, 7),
+    kind,
+    value: kind === 'price' ? raw / 100 : raw,
+  };
+};
+
+const stripLeadingZeros = (value: string): string => value.replace(/^0+/, '');
+
+// A weighed product's barcode holds its scale item code on its own, with the
+// prefix ("2100042"), or as a full label with a zero value ("2100042000003")
+export const matchesScaleLabel = (product: Pick<Product, 'barcode'>, label: ScaleLabel): boolean => {
+  const barcode = (product.barcode || '').trim();
+  if (!/^\d+$/.test(barcode)) return false;
+
+  if (barcode.length === 13) return barcode.slice(0, 7) === `${label.prefix}${label.item_code}`;
+  if (barcode.length === 7) return barcode === `${label.prefix}${label.item_code}`;
+  return stripLeadingZeros(barcode) === stripLeadingZeros(label.item_code);
+};
+
+export const findScaleLabelProduct = <T extends Pick<Product, 'barcode'>>(products: T[], label: ScaleLabel): T | undefined =>
+  products.find(product => matchesScaleLabel(product, label));
+
+// Converts a label weight in grams to the product's selling unit
+export const gramsToUnit = (grams: number, unit?: string): number | null => {
+  switch ((unit || '').toLowerCase()) {
+    case 'kg':
+    case 'l':
+      return roundWeight(grams / 1000);
+    case 'g':
+      return grams;
+    default:
+      return null;
+  }
+};
+
+// Quantity and line total for a scanned label. Price labels keep the printed
+// price and back the quantity out of the unit price.
+export const getScaleLabelLine = (
+  label: ScaleLabel,
+  product: Pick<Product, 'unit' | 'price'>
+): { quantity: number; total_price: number } | null => {
+  if (label.value <= 0) return null;
+
+  if (label.kind === 'price') {
+    if (!(product.price > 0)) return null;
+    return { quantity: roundWeight(label.value / product.price), total_price: roundCurrency(label.value) };
+  }
+
+  const quantity = gramsToUnit(label.value, product.unit);
+  if (quantity === null) return null;
+  return { quantity, total_price: calculateWeighedPrice(product.price, quantity) };
+};
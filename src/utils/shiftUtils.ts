@@ -0,0 +1,126 @@
+import { PaymentMethod, Refund, Shift, ShiftCashMovement, Transaction, User } from '../types';
+import { roundCurrency } from './formatUtils';
+
+// Notes and coins in circulation, largest first
+export const CASH_DENOMINATIONS: Record<string, number[]> = {
+  TRY: [200, 100, 50, 20, 10, 5, 1, 0.5, 0.25, 0.1, 0.05],
+  USD: [100, 50, 20, 10, 5, 1, 0.25, 0.1, 0.05, 0.01],
+  EUR: [500, 200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  GBP: [50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01],
+  NGN: [1000, 500, 200, 100, 50, 20, 10, 5],
+};
+
+const FALLBACK_DENOMINATIONS = [100, 50, 20, 10, 5, 1, 0.5, 0.1];
+
+export const getDenominations = (currency: string): number[] =>
+  CASH_DENOMINATIONS[currency.toUpperCase()] || FALLBACK_DENOMINATIONS;
+
+// Counts are keyed by the denomination's value, e.g. { "100": 3, "0.5": 4 }
+export const countDenominations = (counts: Record<string, number>): number =>
+  roundCurrency(Object.keys(counts).reduce((sum, value) => sum + Number(value) * (counts[value] || 0), 0));
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod['type'], string> = {
+  cash: 'Cash',
+  pos_isbank_transfer: 'POS/Isbank Transfer',
+  naira_transfer: 'Naira Transfer',
+  crypto_payment: 'Crypto Payment',
+  card: 'Card',
+  loyalty_points: 'Loyalty Points',
+  on_account: 'On Account',
+};
+
+export const CASH_MOVEMENT_LABELS: Record<ShiftCashMovement['type'], string> = {
+  paid_in: 'Paid In',
+  payout: 'Paid Out',
+  drop: 'Drop',
+};
+
+// Cashiers need a manager's PIN for paid-ins and paid-outs over the store threshold; drops go to the safe and never do
+export const needsManagerPin = (
+  type: ShiftCashMovement['type'],
+  amount: number,
+  threshold: number | undefined,
+  role: User['role'] | undefined
+): boolean => {
+  if (type === 'drop' || !threshold || threshold <= 0) return false;
+  if (role && ['admin', 'owner', 'manager'].includes(role)) return false;
+  return amount > threshold;
+};
+
+export interface ShiftSummary {
+  sales_count: number;
+  gross_sales: number;
+  sales_by_method: Record<string, number>; // Cash is net of change handed back
+  cash_sales: number; // Base-currency cash taken, net of change
+  foreign_cash: Record<string, number>; // Foreign notes taken, in their own currency; counted apart from the drawer float
+  cash_refunds: number;
+  paid_in: number;
+  payouts: number;
+  drops: number;
+  expected_cash: number; // What should be in the drawer right now
+}
+
+type ShiftSale = Pick<Transaction, 'total_amount' | 'payment_methods'> & Partial<Pick<Transaction, 'status' | 'change_amount'>>;
+type ShiftRefund = Pick<Refund, 'payment_methods'>;
+
+export const summarizeShift = (
+  shift: Pick<Shift, 'opening_float' | 'movements'>,
+  sales: ShiftSale[],
+  refunds: ShiftRefund[] = []
+): ShiftSummary => {
+  const salesByMethod: Record<string, number> = {};
+  const foreignCash: Record<string, number> = {};
+  let salesCount = 0;
+  let grossSales = 0;
+  let cashSales = 0;
+
+  sales
+    .filter(sale => sale.status !== 'cancelled' && sale.status !== 'voided')
+    .forEach(sale => {
+      salesCount += 1;
+      grossSales += sale.total_amount || 0;
+      (sale.payment_methods || []).forEach(method => {
+        salesByMethod[method.type] = roundCurrency((salesByMethod[method.type] || 0) + method.amount);
+        if (method.type !== 'cash') return;
+        if (method.currency && method.original_amount !== undefined) {
+          foreignCash[method.currency] = roundCurrency((foreignCash[method.currency] || 0) + method.original_amount);
+        } else {
+          cashSales += method.amount;
+        }
+      });
+      // Change is always handed back in the base currency
+      if (sale.change_amount) {
+        salesByMethod.cash = roundCurrency((salesByMethod.cash || 0) - sale.change_amount);
+        cashSales -= sale.change_amount;
+      }
+    });
+
+  const cashRefunds = roundCurrency(refunds.reduce(
+    (sum, refund) => sum + refund.payment_methods.filter(method => method.type === 'cash').reduce((total, method) => total + method.amount, 0),
+    0
+  ));
+  const movementTotal = (type: ShiftCashMovement['type']) =>
+    roundCurrency((shift.movements || []).filter(movement => movement.type === type).reduce((sum, movement) => sum + movement.amount, 0));
+  const paidIn = movementTotal('paid_in');
+  const payouts = movementTotal('payout');
+  const drops = movementTotal('drop');
+
+  return {
+    sales_count: salesCount,
+    gross_sales: roundCurrency(grossSales),
+    sales_by_method: salesByMethod,
+    cash_sales: roundCurrency(cashSales),
+    foreign_cash: foreignCash,
+    cash_refunds: cashRefunds,
+    paid_in: paidIn,
+    payouts,
+    drops,
+    expected_cash: roundCurrency(shift.opening_float + cashSales + paidIn - cashRefunds - payouts - drops),
+  };
+};
+
+export const calculateVariance = (countedCash: number, expectedCash: number): number =>
+  roundCurrency(countedCash - expectedCash);
+
+export const describeVariance = (variance: number): 'Over' | 'Short' | 'Balanced' =>
+  variance > 0.004 ? 'Over' : variance < -0.004 ? 'Short' : 'Balanced';
@@ -0,0 +1,56 @@
+import { StockMovement, StockMovementType } from '../types';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  refund: 'Refund',
+  restock: 'Restock',
+  stock_take: 'Stock-take',
+  transfer_out: 'Transfer Out',
+  transfer_in: 'Transfer In',
+  po_receipt: 'PO Receipt',
+  damage: 'Damaged',
+  waste: 'Waste',
+  import: 'Excel Import',
+  adjustment: 'Adjustment',
+};
+
+// Movements staff can record by hand from the inventory page; everything else comes from other flows
+export const MANUAL_MOVEMENT_TYPES: Array<{ type: StockMovementType; adjustment_type: 'add' | 'subtract' }> = [
+  { type: 'restock', adjustment_type: 'add' },
+  { type: 'damage', adjustment_type: 'subtract' },
+  { type: 'waste', adjustment_type: 'subtract' },
+];
+
+export const formatQuantityChange = (change: number): string => (change > 0 ? `+${change}` : `${change}`);
+
+export interface StockMovementSummary {
+  inbound: number;
+  outbound: number; // Positive number of units that left
+  net: number;
+  by_type: Partial<Record<StockMovementType, number>>;
+}
+
+export const summarizeMovements = (movements: StockMovement[]): StockMovementSummary => {
+  const summary: StockMovementSummary = { inbound: 0, outbound: 0, net: 0, by_type: {} };
+  movements.forEach(movement => {
+    if (movement.quantity_change > 0) summary.inbound += movement.quantity_change;
+    else summary.outbound += -movement.quantity_change;
+    summary.net += movement.quantity_change;
+    summary.by_type[movement.type] = (summary.by_type[movement.type] || 0) + movement.quantity_change;
+  });
+  return summary;
+};
+
+// IDs of entries whose running balance does not follow from the entry before them.
+// Expects movements newest first, as the API returns them.
+export const findBalanceBreaks = (movements: StockMovement[]): string[] => {
+  const breaks: string[] = [];
+  for (let i = 0; i < movements.length - 1; i++) {
+    const current = movements[i];
+    const previous = movements[i + 1];
+    if (Math.abs(previous.balance_after + current.quantity_change - current.balance_after) > 1e-9) {
+      breaks.push(current._id);
+    }
+  }
+  return breaks;
+};
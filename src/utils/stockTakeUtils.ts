@@ -0,0 +1,129 @@
+import { Product, StockAdjustmentReason, StockTakeAdjustment, StockTakeLine, StockTakeStatus } from '../types';
+import { roundCurrency } from './formatUtils';
+import { roundWeight } from './scaleBarcodeUtils';
+
+export const STOCK_TAKE_STATUS_LABELS: Record<StockTakeStatus, string> = {
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const ADJUSTMENT_REASON_LABELS: Record<StockAdjustmentReason, string> = {
+  stock_take: 'Stock-take correction',
+  damaged: 'Damaged',
+  expired: 'Expired',
+  theft: 'Theft / loss',
+  supplier_error: 'Supplier error',
+  data_entry: 'Data entry error',
+};
+
+export const buildStockTakeLines = (products: Product[], category?: string): StockTakeLine[] =>
+  products
+    .filter(product => product.is_active !== false && (!category || product.category === category))
+    .map(product => ({
+      product_id: product._id,
+      product_name: product.name,
+      sku: product.sku,
+      barcode: product.barcode,
+      unit: product.unit,
+      expected_quantity: product.stock_quantity,
+      unit_cost: product.cost_price || 0,
+    }));
+
+// Scanned codes match the barcode first, then the SKU
+export const findLineByCode = (lines: StockTakeLine[], code: string): StockTakeLine | undefined => {
+  const trimmed = code.trim();
+  if (!trimmed) return undefined;
+  return lines.find(line => line.barcode === trimmed) || lines.find(line => line.sku === trimmed);
+};
+
+// A scan adds one to the count; typing a number replaces it
+export const recordCount = (
+  lines: StockTakeLine[],
+  productId: string,
+  quantity: number,
+  mode: 'add' | 'set' = 'set'
+): StockTakeLine[] =>
+  lines.map(line => {
+    if (line.product_id !== productId) return line;
+    const counted = mode === 'add' ? (line.counted_quantity || 0) + quantity : quantity;
+    return { ...line, counted_quantity: Math.max(0, counted) };
+  });
+
+export const isCounted = (line: StockTakeLine): boolean => line.counted_quantity !== undefined;
+
+export interface StockTakeVariance {
+  product_id: string;
+  product_name: string;
+  unit?: string;
+  expected: number;
+  counted: number;
+  difference: number; // Negative when stock is missing
+  value_difference: number;
+  approved: boolean;
+}
+
+export interface StockTakeVarianceReport {
+  variances: StockTakeVariance[]; // Counted lines whose count differs from the expected quantity
+  counted_lines: number;
+  uncounted_lines: number;
+  shrinkage_value: number; // Cost of missing stock, as a positive number
+  surplus_value: number;
+  net_value: number;
+}
+
+// Uncounted lines are left out of the report and are never adjusted
+export const calculateVarianceReport = (lines: StockTakeLine[]): StockTakeVarianceReport => {
+  const counted = lines.filter(isCounted);
+  const variances: StockTakeVariance[] = [];
+  let shrinkage = 0;
+  let surplus = 0;
+
+  counted.forEach(line => {
+    const difference = (line.counted_quantity as number) - line.expected_quantity;
+    if (difference === 0) return;
+    const valueDifference = difference * line.unit_cost;
+    if (valueDifference < 0) shrinkage += -valueDifference;
+    else surplus += valueDifference;
+    variances.push({
+      product_id: line.product_id,
+      product_name: line.product_name,
+      unit: line.unit,
+      expected: line.expected_quantity,
+      counted: line.counted_quantity as number,
+      difference,
+      value_difference: roundCurrency(valueDifference),
+      approved: line.approved !== false,
+    });
+  });
+
+  // Largest value differences first, since those need a second look before approval
+  variances.sort((a, b) => Math.abs(b.value_difference) - Math.abs(a.value_difference));
+
+  return {
+    variances,
+    counted_lines: counted.length,
+    uncounted_lines: lines.length - counted.length,
+    shrinkage_value: roundCurrency(shrinkage),
+    surplus_value: roundCurrency(surplus),
+    net_value: roundCurrency(surplus - shrinkage),
+  };
+};
+
+export const setLineApproval = (lines: StockTakeLine[], productId: string, approved: boolean): StockTakeLine[] =>
+  lines.map(line => (line.product_id === productId ? { ...line, approved } : line));
+
+// Counted lines with a variance that have not been rejected; these become adjustments
+export const getApprovedAdjustments = (lines: StockTakeLine[]): StockTakeLine[] =>
+  lines.filter(line => isCounted(line) && line.counted_quantity !== line.expected_quantity && line.approved !== false);
+
+// Posting the difference keeps sales rung up while the shelf was being counted
+export const buildStockTakeAdjustments = (lines: StockTakeLine[]): StockTakeAdjustment[] =>
+  getApprovedAdjustments(lines).map(line => {
+    const difference = roundWeight((line.counted_quantity as number) - line.expected_quantity);
+    return {
+      product_id: line.product_id,
+      adjustment_type: difference > 0 ? 'add' : 'subtract',
+      quantity: Math.abs(difference),
+    };
+  });
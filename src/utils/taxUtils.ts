@@ -0,0 +1,164 @@
+import { Product, TaxClass, TaxMode, TaxBreakdownLine, TransactionItem } from '../types';
+import { roundCurrency } from './formatUtils';
+import { getZonedParts } from './localeUtils';
+
+// Matches the store fallback used when settings can't be loaded
+export const DEFAULT_TAX_RATE = 18;
+
+export interface TaxSettings {
+  default_rate: number;
+  mode: TaxMode;
+  classes: TaxClass[];
+  category_classes: Record<string, string>; // Category name -> tax class id
+}
+
+export interface CartTax {
+  items: TransactionItem[]; // Cart lines with tax_rate and tax_amount filled in
+  breakdown: TaxBreakdownLine[];
+  subtotal: number;
+  discount: number;
+  tax_amount: number;
+  total: number; // Amount due before delivery
+}
+
+export type VatPeriod = 'month' | 'quarter';
+
+export interface VatReportRow {
+  period: string; // e.g. 2024-03 or 2024-Q1
+  rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+  gross_amount: number;
+}
+
+export const getTaxSettings = (store?: {
+  tax_rate?: number;
+  tax_mode?: TaxMode;
+  tax_classes?: TaxClass[];
+  category_tax_classes?: Record<string, string>;
+} | null): TaxSettings => ({
+  default_rate: typeof store?.tax_rate === 'number' ? store.tax_rate : DEFAULT_TAX_RATE,
+  // Shelf prices in Turkey include KDV, so inclusive keeps existing totals unchanged
+  mode: store?.tax_mode || 'inclusive',
+  classes: store?.tax_classes || [],
+  category_classes: store?.category_tax_classes || {},
+});
+
+// Product tax class first, then its category's class, then the store default
+export const resolveTaxRate = (
+  product: Pick<Product, 'category' | 'tax_class_id'> | undefined,
+  settings: TaxSettings
+): number => {
+  const classId = product?.tax_class_id || (product ? settings.category_classes[product.category] : undefined);
+  const taxClass = classId ? settings.classes.find(entry => entry._id === classId) : undefined;
+  return taxClass ? taxClass.rate : settings.default_rate;
+};
+
+// Tax contained in (inclusive) or owed on top of (exclusive) an amount
+export const taxForAmount = (amount: number, rate: number, mode: TaxMode): number =>
+  mode === 'inclusive' ? (amount * rate) / (100 + rate) : (amount * rate) / 100;
+
+export const mergeTaxBreakdown = (lines: TaxBreakdownLine[]): TaxBreakdownLine[] => {
+  const byRate: Record<string, TaxBreakdownLine> = {};
+  lines.forEach(line => {
+    const key = String(line.rate);
+    if (!byRate[key]) {
+      byRate[key] = { rate: line.rate, taxable_amount: 0, tax_amount: 0 };
+    }
+    byRate[key].taxable_amount += line.taxable_amount;
+    byRate[key].tax_amount += line.tax_amount;
+  });
+
+  return Object.keys(byRate)
+    .map(key => ({
+      rate: byRate[key].rate,
+      taxable_amount: roundCurrency(byRate[key].taxable_amount),
+      tax_amount: roundCurrency(byRate[key].tax_amount),
+    }))
+    .sort((a, b) => b.rate - a.rate);
+};
+
+/**
+ * Work out tax for a cart. Lines are taxed after their own promotion discount;
+ * a sale-level discount is then spread over the lines pro rata before tax, so
+ * each line records the tax actually charged on it.
+ */
+export const calculateCartTax = (
+  items: TransactionItem[],
+  discountAmount: number,
+  mode: TaxMode,
+  rateFor: (item: TransactionItem) => number
+): CartTax => {
+  const lineTotal = (item: TransactionItem) => item.total_price - (item.discount_amount || 0);
+  const subtotal = roundCurrency(items.reduce((sum, item) => sum + lineTotal(item), 0));
+  const discount = Math.min(Math.max(0, discountAmount || 0), subtotal);
+  const paidRatio = subtotal > 0 ? (subtotal - discount) / subtotal : 0;
+
+  const breakdown: TaxBreakdownLine[] = [];
+  const taxedItems = items.map(item => {
+    const rate = rateFor(item);
+    const lineAmount = lineTotal(item) * paidRatio;
+    const taxAmount = roundCurrency(taxForAmount(lineAmount, rate, mode));
+    breakdown.push({
+      rate,
+      taxable_amount: mode === 'inclusive' ? lineAmount - taxAmount : lineAmount,
+      tax_amount: taxAmount,
+    });
+    return { ...item, tax_rate: rate, tax_amount: taxAmount };
+  });
+
+  const taxAmount = roundCurrency(taxedItems.reduce((sum, item) => sum + item.tax_amount, 0));
+
+  return {
+    items: taxedItems,
+    breakdown: mergeTaxBreakdown(breakdown),
+    subtotal,
+    discount,
+    tax_amount: taxAmount,
+    total: roundCurrency(subtotal - discount + (mode === 'exclusive' ? taxAmount : 0)),
+  };
+};
+
+// Periods follow the store's calendar, so a sale just before midnight is filed in the month it was rung up
+export const getVatPeriodKey = (date: Date | string, period: VatPeriod, timezone: string): string => {
+  const { year, month } = getZonedParts(date, timezone);
+  if (period === 'quarter') {
+    return `${year}-Q${Math.floor((Number(month) - 1) / 3) + 1}`;
+  }
+  return `${year}-${month}`;
+};
+
+/**
+ * VAT collected per period and rate. Refund entries carry a negative
+ * breakdown, so returns reduce the period they were refunded in.
+ */
+export const buildVatReport = (
+  sales: Array<{ created_at: Date | string; status?: string; tax_breakdown?: TaxBreakdownLine[] }>,
+  period: VatPeriod,
+  timezone: string
+): VatReportRow[] => {
+  const rows: Record<string, VatReportRow> = {};
+
+  sales.forEach(sale => {
+    if (!sale.tax_breakdown || sale.status === 'cancelled' || sale.status === 'voided') return;
+    const periodKey = getVatPeriodKey(sale.created_at, period, timezone);
+
+    sale.tax_breakdown.forEach(line => {
+      const key = `${periodKey}|${line.rate}`;
+      if (!rows[key]) {
+        rows[key] = { period: periodKey, rate: line.rate, taxable_amount: 0, tax_amount: 0, gross_amount: 0 };
+      }
+      rows[key].taxable_amount += line.taxable_amount;
+      rows[key].tax_amount += line.tax_amount;
+    });
+  });
+
+  return Object.keys(rows)
+    .map(key => {
+      const row = rows[key];
+      const taxable = roundCurrency(row.taxable_amount);
+      const tax = roundCurrency(row.tax_amount);
+      return { ...row, taxable_amount: taxable, tax_amount: tax, gross_amount: roundCurrency(taxable + tax) };
+    })
+    .sort((a, b) => b.period.localeCompare(a.period) || b.rate - a.rate);
+};
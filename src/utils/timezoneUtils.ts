@@ -3,8 +3,7 @@
  * Ensures consistent timezone handling across the frontend application
  */
 
-// Default timezone - matches your system timezone (EEST)
-const DEFAULT_TIMEZONE = 'Europe/Nicosia'; // EEST (Eastern European Summer Time) GMT+3
+import { localeService } from '../services/localeService';
 
 export interface DateRange {
   start: Date;
@@ -12,10 +11,11 @@ export interface DateRange {
 }
 
 /**
- * Get the configured timezone for the application
+ * Get the configured timezone for the application (the current store's,
+ * falling back to Europe/Nicosia, GMT+3)
  */
 export function getAppTimezone(): string {
-  return DEFAULT_TIMEZONE;
+  return localeService.getTimezone();
 }
 
 /**
@@ -23,7 +23,7 @@ export function getAppTimezone(): string {
  */
 export function getCurrentDateString(): string {
   const now = new Date();
-  return now.toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE });
+  return now.toLocaleDateString('en-CA', { timeZone: getAppTimezone() });
 }
 
 /**
@@ -31,7 +31,7 @@ export function getCurrentDateString(): string {
  */
 export function getCurrentDateTime(): Date {
   const now = new Date();
-  return new Date(now.toLocaleString('en-US', { timeZone: DEFAULT_TIMEZONE }));
+  return new Date(now.toLocaleString('en-US', { timeZone: getAppTimezone() }));
 }
 
 /**
@@ -104,7 +104,7 @@ export function getLastNDaysRange(days: number): DateRange {
  */
 export function formatDateForDisplay(date: Date | string): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
-  return dateObj.toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE });
+  return dateObj.toLocaleDateString('en-CA', { timeZone: getAppTimezone() });
 }
 
 /**
@@ -113,7 +113,7 @@ export function formatDateForDisplay(date: Date | string): string {
 export function formatDateTimeForDisplay(date: Date | string): string {
   const dateObj = typeof date === 'string' ? new Date(date) : date;
   return dateObj.toLocaleString('en-US', { 
-    timeZone: DEFAULT_TIMEZONE,
+    timeZone: getAppTimezone(),
     year: 'numeric',
     month: '2-digit',
     day: '2-digit',
@@ -127,7 +127,7 @@ export function formatDateTimeForDisplay(date: Date | string): string {
  * Convert a date to ISO string in the app timezone
  */
 export function toISOStringInTimezone(date: Date): string {
-  return date.toLocaleString('sv-SE', { timeZone: DEFAULT_TIMEZONE }).replace(' ', 'T') + '.000Z';
+  return date.toLocaleString('sv-SE', { timeZone: getAppTimezone() }).replace(' ', 'T') + '.000Z';
 }
 
 /**
@@ -137,8 +137,8 @@ export function isSameDay(date1: Date | string, date2: Date | string): boolean {
   const d1 = typeof date1 === 'string' ? new Date(date1) : date1;
   const d2 = typeof date2 === 'string' ? new Date(date2) : date2;
   
-  const str1 = d1.toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE });
-  const str2 = d2.toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE });
+  const str1 = d1.toLocaleDateString('en-CA', { timeZone: getAppTimezone() });
+  const str2 = d2.toLocaleDateString('en-CA', { timeZone: getAppTimezone() });
   
   return str1 === str2;
 }
@@ -164,7 +164,7 @@ export function normalizeDateToYYYYMMDD(date: Date | string): string {
   
   // Use timezone-aware date extraction to get local date components
   // This ensures dates are grouped by the local day, not UTC day
-  const localDateStr = dateObj.toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE });
+  const localDateStr = dateObj.toLocaleDateString('en-CA', { timeZone: getAppTimezone() });
   
   // en-CA format is YYYY-MM-DD, which is exactly what we need
   if (/^\d{4}-\d{2}-\d{2}$/.test(localDateStr)) {
@@ -174,7 +174,7 @@ export function normalizeDateToYYYYMMDD(date: Date | string): string {
   // Fallback: extract components manually using timezone-aware methods
   // Create a date formatter for the local timezone
   const formatter = new Intl.DateTimeFormat('en-CA', {
-    timeZone: DEFAULT_TIMEZONE,
+    timeZone: getAppTimezone(),
     year: 'numeric',
     month: '2-digit',
     day: '2-digit'
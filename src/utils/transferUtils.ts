@@ -0,0 +1,101 @@
+import { Product, StockTransfer, StockTransferLine, StockTransferStatus } from '../types';
+
+export const TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  draft: 'Draft',
+  dispatched: 'In Transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const ALLOWED_TRANSITIONS: Record<StockTransferStatus, StockTransferStatus[]> = {
+  draft: ['dispatched', 'cancelled'],
+  dispatched: ['received'],
+  received: [],
+  cancelled: [],
+};
+
+export const canTransitionTransfer = (from: StockTransferStatus, to: StockTransferStatus): boolean =>
+  ALLOWED_TRANSITIONS[from].includes(to);
+
+export const toTransferLine = (product: Product, quantity: number): StockTransferLine => ({
+  product_id: product._id,
+  product_name: product.name,
+  sku: product.sku,
+  barcode: product.barcode,
+  unit: product.unit,
+  quantity,
+});
+
+// Problems that stop a transfer from being saved; empty when it is fine to send
+export const validateTransfer = (
+  fromStoreId: string,
+  toStoreId: string,
+  lines: StockTransferLine[],
+  stockOnHand: Record<string, number> = {}
+): string[] => {
+  const errors: string[] = [];
+  if (!toStoreId) errors.push('Choose a destination store');
+  if (toStoreId && toStoreId === fromStoreId) errors.push('Source and destination must be different stores');
+  if (lines.length === 0) errors.push('Add at least one product');
+
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (seen.has(line.product_id)) errors.push(`${line.product_name} is listed more than once`);
+    seen.add(line.product_id);
+    if (!(line.quantity > 0)) errors.push(`Enter a quantity for ${line.product_name}`);
+    const onHand = stockOnHand[line.product_id];
+    if (onHand !== undefined && line.quantity > onHand) {
+      errors.push(`Only ${onHand} of ${line.product_name} in stock`);
+    }
+  }
+  return errors;
+};
+
+export interface TransferDiscrepancy {
+  product_id: string;
+  product_name: string;
+  sent: number;
+  received: number;
+  difference: number; // Negative when short
+  note?: string;
+}
+
+// Lines where the destination counted a different quantity from what was sent
+export const getTransferDiscrepancies = (lines: StockTransferLine[]): TransferDiscrepancy[] =>
+  lines
+    .filter(line => line.received_quantity !== undefined && line.received_quantity !== line.quantity)
+    .map(line => ({
+      product_id: line.product_id,
+      product_name: line.product_name,
+      sent: line.quantity,
+      received: line.received_quantity as number,
+      difference: (line.received_quantity as number) - line.quantity,
+      note: line.note,
+    }));
+
+// Quantities dispatched but not yet received, by product id (source store ids)
+export const getInTransitQuantities = (transfers: StockTransfer[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  for (const transfer of transfers) {
+    if (transfer.status !== 'dispatched') continue;
+    for (const line of transfer.lines) {
+      totals[line.product_id] = (totals[line.product_id] || 0) + line.quantity;
+    }
+  }
+  return totals;
+};
+
+// Same as getInTransitQuantities but keyed by barcode or SKU, which is how a
+// line is matched to the product record in the destination store
+export const getIncomingQuantitiesByCode = (transfers: StockTransfer[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  for (const transfer of transfers) {
+    if (transfer.status !== 'dispatched') continue;
+    for (const line of transfer.lines) {
+      const code = line.barcode || line.sku;
+      if (!code) continue;
+      totals[code] = (totals[code] || 0) + line.quantity;
+    }
+  }
+  return totals;
+};
@@ -0,0 +1,191 @@
+import { Product, ProductVariantOption } from '../types';
+
+type VariantLink = Pick<Product, '_id' | 'parent_product_id'>;
+
+// "L / Red", following the parent's option order when it is known
+export const getVariantLabel = (
+  attributes: Record<string, string> = {},
+  options?: ProductVariantOption[]
+): string => {
+  const names = options && options.length > 0 ? options.map(option => option.name) : Object.keys(attributes);
+  return names
+    .map(name => attributes[name])
+    .filter(Boolean)
+    .join(' / ');
+};
+
+export const buildVariantName = (
+  parentName: string,
+  attributes: Record<string, string>,
+  options?: ProductVariantOption[]
+): string => {
+  const label = getVariantLabel(attributes, options);
+  return label ? `${parentName} - ${label}` : parentName;
+};
+
+// Variants and their parent share one family id, so they count as one product in category totals
+export const getProductFamilyId = (product: VariantLink): string => product.parent_product_id || product._id;
+
+export const groupVariantsByParent = <T extends VariantLink>(products: T[]): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  for (const product of products) {
+    if (!product.parent_product_id) continue;
+    const siblings = groups.get(product.parent_product_id) || [];
+    siblings.push(product);
+    groups.set(product.parent_product_id, siblings);
+  }
+  return groups;
+};
+
+// Shows each parent once in place of its variants, so a search that hits a
+// variant SKU still surfaces the parent. Variants whose parent is not loaded stay as they are.
+export const collapseVariants = <T extends VariantLink>(matches: T[], allProducts: T[]): T[] => {
+  const byId = new Map(allProducts.map(product => [product._id, product]));
+  const seen = new Set<string>();
+  const collapsed: T[] = [];
+
+  for (const product of matches) {
+    const parent = product.parent_product_id ? byId.get(product.parent_product_id) : undefined;
+    const shown = parent || product;
+    if (seen.has(shown._id)) continue;
+    seen.add(shown._id);
+    collapsed.push(shown);
+  }
+  return collapsed;
+};
+
+// The items that actually hold stock: parents with loaded variants are left out
+export const getStockKeepingProducts = <T extends VariantLink>(products: T[]): T[] => {
+  const parentIds = new Set(products.map(product => product.parent_product_id).filter(Boolean));
+  return products.filter(product => !parentIds.has(product._id));
+};
+
+export interface VariantSummary {
+  count: number;
+  min_price: number;
+  max_price: number;
+  stock_quantity: number;
+}
+
+export const summarizeVariants = (variants: Pick<Product, 'price' | 'stock_quantity'>[]): VariantSummary => {
+  const prices = variants.map(variant => variant.price);
+  return {
+    count: variants.length,
+    min_price: prices.length > 0 ? Math.min(...prices) : 0,
+    max_price: prices.length > 0 ? Math.max(...prices) : 0,
+    stock_quantity: variants.reduce((sum, variant) => sum + Math.max(0, variant.stock_quantity), 0),
+  };
+};
+
+// Option names and values as they appear across the variants, for parents saved without variant_options
+export const getVariantOptions = (
+  variants: Pick<Product, 'variant_attributes'>[],
+  options?: ProductVariantOption[]
+): ProductVariantOption[] => {
+  if (options && options.length > 0) return options;
+
+  const derived: ProductVariantOption[] = [];
+  for (const variant of variants) {
+    Object.entries(variant.variant_attributes || {}).forEach(([name, value]) => {
+      let option = derived.find(existing => existing.name === name);
+      if (!option) {
+        option = { name, values: [] };
+        derived.push(option);
+      }
+      if (!option.values.includes(value)) option.values.push(value);
+    });
+  }
+  return derived;
+};
+
+// Every combination of option values, in option order
+export const buildVariantCombinations = (options: ProductVariantOption[]): Record<string, string>[] =>
+  options
+    .filter(option => option.name.trim() && option.values.length > 0)
+    .reduce<Record<string, string>[]>(
+      (combinations, option) => {
+        const next: Record<string, string>[] = [];
+        combinations.forEach(combination => {
+          option.values.forEach(value => next.push({ ...combination, [option.name]: value }));
+        });
+        return next;
+      },
+      [{}]
+    )
+    .filter(combination => Object.keys(combination).length > 0);
+
+export const matchesAttributes = (
+  attributes: Record<string, string> = {},
+  selection: Record<string, string>
+): boolean => Object.entries(selection).every(([name, value]) => attributes[name] === value);
+
+export const findVariant = <T extends Pick<Product, 'variant_attributes'>>(
+  variants: T[],
+  selection: Record<string, string>
+): T | undefined => variants.find(variant => matchesAttributes(variant.variant_attributes, selection));
+
+export interface VariantPerformanceRow {
+  _id: string;
+  name: string;
+  parent_product_id?: string;
+  stock_quantity?: number;
+  salesData: { revenue: number; quantity: number; transactions: number };
+  profitMargin: number;
+  turnoverRate: number;
+}
+
+export type RolledUpPerformanceRow<T extends VariantPerformanceRow> = T & { variants?: T[] };
+
+// Folds variant rows into one row per parent for the roll-up view of product reports.
+// Margin is weighted by revenue; turnover is recomputed from the combined stock.
+export const rollUpVariantPerformance = <T extends VariantPerformanceRow>(
+  rows: T[],
+  products: Pick<Product, '_id' | 'name' | 'category'>[]
+): RolledUpPerformanceRow<T>[] => {
+  const parents = new Map(products.map(product => [product._id, product]));
+  const result: RolledUpPerformanceRow<T>[] = [];
+  const parentRows = new Map<string, RolledUpPerformanceRow<T>>();
+
+  for (const row of rows) {
+    const parent = row.parent_product_id ? parents.get(row.parent_product_id) : undefined;
+    if (!parent) {
+      result.push(row);
+      continue;
+    }
+
+    const existing = parentRows.get(parent._id);
+    if (!existing) {
+      const rolled = {
+        ...row,
+        ...parent,
+        parent_product_id: undefined,
+        salesData: { ...row.salesData },
+        variants: [row],
+      } as RolledUpPerformanceRow<T>;
+      parentRows.set(parent._id, rolled);
+      result.push(rolled);
+      continue;
+    }
+
+    existing.variants = [...(existing.variants || []), row];
+    existing.salesData = {
+      ...existing.salesData,
+      revenue: existing.salesData.revenue + row.salesData.revenue,
+      quantity: existing.salesData.quantity + row.salesData.quantity,
+      transactions: existing.salesData.transactions + row.salesData.transactions,
+    };
+  }
+
+  parentRows.forEach(rolled => {
+    const variants = rolled.variants || [];
+    const stock = variants.reduce((sum, variant) => sum + (variant.stock_quantity || 0), 0);
+    const revenue = rolled.salesData.revenue;
+    rolled.stock_quantity = stock;
+    rolled.turnoverRate = stock > 0 ? (rolled.salesData.quantity / stock) * 100 : 0;
+    rolled.profitMargin = revenue > 0
+      ? variants.reduce((sum, variant) => sum + variant.profitMargin * variant.salesData.revenue, 0) / revenue
+      : 0;
+  });
+
+  return result;
+};